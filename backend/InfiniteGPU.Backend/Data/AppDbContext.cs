@@ -17,10 +17,14 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
     public DbSet<Earning> Earnings { get; set; } = null!;
     public DbSet<Withdrawal> Withdrawals { get; set; } = null!;
     public DbSet<Settlement> Settlements { get; set; } = null!;
+    public DbSet<SettlementStatusTransition> SettlementStatusTransitions { get; set; } = null!;
+    public DbSet<PayoutMethod> PayoutMethods { get; set; } = null!;
+    public DbSet<AutoRechargeRule> AutoRechargeRules { get; set; } = null!;
     public DbSet<Device> Devices { get; set; } = null!;
     public DbSet<ApiKey> ApiKeys { get; set; } = null!;
     public DbSet<SubtaskTimelineEvent> SubtaskTimelineEvents { get; set; } = null!;
     public DbSet<ProviderModelCache> ProviderModelCaches { get; set; } = null!;
+    public DbSet<AdminAuditLog> AdminAuditLogs { get; set; } = null!;
 
     protected override void OnModelCreating(ModelBuilder builder)
     {
@@ -174,6 +178,16 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
                 .HasColumnType("datetime2");
             entity.Property(e => e.SettledAtUtc)
                 .HasColumnType("datetime2");
+            entity.Property(e => e.InvoiceNumber)
+                .HasMaxLength(32);
+            entity.Property(e => e.CardBrand)
+                .HasMaxLength(32);
+            entity.Property(e => e.CardLast4)
+                .HasMaxLength(4);
+            entity.Property(e => e.ReceiptUrl)
+                .HasMaxLength(2048);
+            entity.Property(e => e.FailureReason)
+                .HasMaxLength(2048);
             entity.HasIndex(e => e.UserId);
             entity.HasIndex(e => e.CreatedAtUtc);
             entity.HasIndex(e => e.Status);
@@ -184,6 +198,28 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
                 .OnDelete(DeleteBehavior.Restrict);
         });
 
+        builder.Entity<AutoRechargeRule>(entity =>
+        {
+            entity.HasKey(e => e.UserId);
+            entity.Property(e => e.ThresholdAmount)
+                .HasColumnType("decimal(18,6)");
+            entity.Property(e => e.RechargeAmount)
+                .HasColumnType("decimal(18,6)");
+            entity.Property(e => e.PaymentMethodId)
+                .HasMaxLength(255);
+            entity.Property(e => e.LastTriggeredAtUtc)
+                .HasColumnType("datetime2");
+            entity.Property(e => e.LastFailureReason)
+                .HasMaxLength(2048);
+            entity.Property(e => e.UpdatedAtUtc)
+                .HasColumnType("datetime2");
+            entity.HasIndex(e => e.Enabled);
+            entity.HasOne(e => e.User)
+                .WithOne()
+                .HasForeignKey<AutoRechargeRule>(e => e.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
         builder.Entity<SubtaskTimelineEvent>(entity =>
         {
             entity.HasKey(e => e.Id);
@@ -280,6 +316,8 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
                 .HasColumnType("decimal(18,6)");
             entity.Property(e => e.BankAccountDetails)
                 .HasMaxLength(1024);
+            entity.Property(e => e.Country)
+                .HasMaxLength(2);
             entity.Property(e => e.StripeTransferId)
                 .HasMaxLength(256);
             entity.Property(e => e.FailureReason)
@@ -298,6 +336,73 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
                 .WithMany()
                 .HasForeignKey(e => e.UserId)
                 .OnDelete(DeleteBehavior.Restrict);
+            entity.HasOne(e => e.PayoutMethod)
+                .WithMany()
+                .HasForeignKey(e => e.PayoutMethodId)
+                .OnDelete(DeleteBehavior.NoAction);
+        });
+
+        builder.Entity<SettlementStatusTransition>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Reason)
+                .HasMaxLength(2048);
+            entity.Property(e => e.OccurredAtUtc)
+                .HasColumnType("datetime2")
+                .HasDefaultValueSql("SYSUTCDATETIME()");
+            entity.HasIndex(e => new { e.SettlementId, e.OccurredAtUtc });
+            entity.HasOne(e => e.Settlement)
+                .WithMany(s => s.Transitions)
+                .HasForeignKey(e => e.SettlementId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
+        builder.Entity<PayoutMethod>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Country)
+                .HasMaxLength(2);
+            entity.Property(e => e.BankName)
+                .HasMaxLength(256);
+            entity.Property(e => e.AccountHolderName)
+                .HasMaxLength(256);
+            entity.Property(e => e.MaskedAccount)
+                .HasMaxLength(64);
+            entity.Property(e => e.Bic)
+                .HasMaxLength(11);
+            entity.Property(e => e.BankAccountDetails)
+                .HasMaxLength(1024);
+            entity.Property(e => e.CreatedAtUtc)
+                .HasColumnType("datetime2")
+                .HasDefaultValueSql("SYSUTCDATETIME()");
+            entity.Property(e => e.DeletedAtUtc)
+                .HasColumnType("datetime2");
+            entity.HasIndex(e => e.UserId);
+            entity.HasOne(e => e.User)
+                .WithMany()
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Restrict);
+        });
+
+        builder.Entity<AdminAuditLog>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.TargetId)
+                .HasMaxLength(64);
+            entity.Property(e => e.Reason)
+                .HasMaxLength(1024);
+            entity.Property(e => e.MetadataJson)
+                .HasColumnType("nvarchar(max)");
+            entity.Property(e => e.CreatedAtUtc)
+                .HasColumnType("datetime2")
+                .HasDefaultValueSql("SYSUTCDATETIME()");
+            entity.HasIndex(e => e.CreatedAtUtc);
+            entity.HasIndex(e => e.ActorUserId);
+            entity.HasIndex(e => new { e.TargetType, e.TargetId });
+            entity.HasOne(e => e.Actor)
+                .WithMany()
+                .HasForeignKey(e => e.ActorUserId)
+                .OnDelete(DeleteBehavior.Restrict);
         });
     }
 }
@@ -0,0 +1,49 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace InfiniteGPU.Backend.Data.Entities;
+
+public enum AdminAuditAction
+{
+    SubtaskReassigned = 0,
+    SubtaskCancelled = 1,
+    SubtaskFailed = 2,
+    SettlementApproved = 3,
+    SettlementRejected = 4
+}
+
+public enum AdminAuditTargetType
+{
+    Subtask = 0,
+    Settlement = 1
+}
+
+/// <summary>
+/// Append-only record of an intervention made by an administrator.
+/// </summary>
+public class AdminAuditLog
+{
+    [Key]
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    [Required]
+    public string ActorUserId { get; set; } = string.Empty;
+
+    public AdminAuditAction Action { get; set; }
+
+    public AdminAuditTargetType TargetType { get; set; }
+
+    [MaxLength(64)]
+    public string TargetId { get; set; } = string.Empty;
+
+    [MaxLength(1024)]
+    public string Reason { get; set; } = string.Empty;
+
+    [Column(TypeName = "nvarchar(max)")]
+    public string? MetadataJson { get; set; }
+
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+
+    [ForeignKey(nameof(ActorUserId))]
+    public virtual ApplicationUser Actor { get; set; } = null!;
+}
@@ -23,6 +23,12 @@ public class ApplicationUser : IdentityUser
     [Column(TypeName = "nvarchar(255)")]
     public string? StripeConnectedAccountId { get; set; }
 
+    /// <summary>
+    /// Stripe customer the user's saved cards are attached to.
+    /// </summary>
+    [Column(TypeName = "nvarchar(255)")]
+    public string? StripeCustomerId { get; set; }
+
     [Column(TypeName = "nvarchar(2)")]
     public string? Country { get; set; }
 
@@ -0,0 +1,36 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace InfiniteGPU.Backend.Data.Entities;
+
+/// <summary>
+/// Tops the balance up with a saved card once it falls below a threshold.
+/// One rule per user.
+/// </summary>
+public class AutoRechargeRule
+{
+    [Key]
+    public string UserId { get; set; } = string.Empty;
+
+    public bool Enabled { get; set; }
+
+    public decimal ThresholdAmount { get; set; }
+
+    public decimal RechargeAmount { get; set; }
+
+    /// <summary>
+    /// Stripe payment method charged; must be attached to the user's customer.
+    /// </summary>
+    [MaxLength(255)]
+    public string? PaymentMethodId { get; set; }
+
+    public DateTime? LastTriggeredAtUtc { get; set; }
+
+    [MaxLength(2048)]
+    public string? LastFailureReason { get; set; }
+
+    public DateTime? UpdatedAtUtc { get; set; }
+
+    [ForeignKey(nameof(UserId))]
+    public virtual ApplicationUser User { get; set; } = null!;
+}
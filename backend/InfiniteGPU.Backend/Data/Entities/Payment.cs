@@ -22,6 +22,24 @@ public class Payment
 
     public PaymentStatus Status { get; set; } = PaymentStatus.Pending;
 
+    /// <summary>
+    /// Sequential per user, e.g. <c>IGPU-2026-000012</c>.
+    /// </summary>
+    public string InvoiceNumber { get; set; } = string.Empty;
+
+    public string? CardBrand { get; set; }
+
+    public string? CardLast4 { get; set; }
+
+    /// <summary>
+    /// Charged by the user's auto-recharge rule rather than from the top-up dialog.
+    /// </summary>
+    public bool IsAutoRecharge { get; set; }
+
+    public string? ReceiptUrl { get; set; }
+
+    public string? FailureReason { get; set; }
+
     public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
 
     public DateTime? UpdatedAtUtc { get; set; }
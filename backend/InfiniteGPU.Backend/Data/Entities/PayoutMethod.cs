@@ -0,0 +1,57 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace InfiniteGPU.Backend.Data.Entities;
+
+public enum PayoutMethodKind
+{
+    Sepa = 0,
+    Ach = 1,
+    FasterPayments = 2,
+    Eft = 3,
+    Becs = 4
+}
+
+/// <summary>
+/// Bank account a provider saved from an earlier settlement. The full details
+/// stay server-side; clients only see the masked account.
+/// </summary>
+public class PayoutMethod
+{
+    [Key]
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    public PayoutMethodKind Kind { get; set; }
+
+    [MaxLength(2)]
+    public string Country { get; set; } = string.Empty;
+
+    [MaxLength(256)]
+    public string BankName { get; set; } = string.Empty;
+
+    [MaxLength(256)]
+    public string AccountHolderName { get; set; } = string.Empty;
+
+    [MaxLength(64)]
+    public string MaskedAccount { get; set; } = string.Empty;
+
+    [MaxLength(11)]
+    public string? Bic { get; set; }
+
+    [MaxLength(1024)]
+    public string BankAccountDetails { get; set; } = string.Empty;
+
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+
+    /// <summary>
+    /// Set when the provider removes the method; settlements paid to it keep
+    /// showing the account in their history.
+    /// </summary>
+    public DateTime? DeletedAtUtc { get; set; }
+
+    [ForeignKey(nameof(UserId))]
+    public virtual ApplicationUser User { get; set; } = null!;
+}
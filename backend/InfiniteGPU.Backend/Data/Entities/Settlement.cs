@@ -7,7 +7,8 @@ public enum SettlementStatus
     Pending = 0,
     Processing = 1,
     Completed = 2,
-    Failed = 3
+    Failed = 3,
+    Cancelled = 4
 }
 
 public class Settlement
@@ -22,6 +23,17 @@ public class Settlement
 
     public string BankAccountDetails { get; set; } = string.Empty;
 
+    /// <summary>
+    /// ISO 3166-1 alpha-2 country of the bank account, kept so the payout can
+    /// run once an administrator approves the settlement.
+    /// </summary>
+    public string? Country { get; set; }
+
+    /// <summary>
+    /// Saved payout method the settlement was requested with, if any.
+    /// </summary>
+    public Guid? PayoutMethodId { get; set; }
+
     public string? StripeTransferId { get; set; }
 
     public string? FailureReason { get; set; }
@@ -34,4 +46,9 @@ public class Settlement
 
     [ForeignKey(nameof(UserId))]
     public virtual ApplicationUser User { get; set; } = null!;
+
+    [ForeignKey(nameof(PayoutMethodId))]
+    public virtual PayoutMethod? PayoutMethod { get; set; }
+
+    public virtual ICollection<SettlementStatusTransition> Transitions { get; set; } = new List<SettlementStatusTransition>();
 }
\ No newline at end of file
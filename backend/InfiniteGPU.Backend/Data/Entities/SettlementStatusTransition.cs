@@ -0,0 +1,27 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace InfiniteGPU.Backend.Data.Entities;
+
+/// <summary>
+/// One status a settlement moved into, recorded so providers can follow it
+/// from the request to the payout.
+/// </summary>
+public class SettlementStatusTransition
+{
+    [Key]
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    [Required]
+    public Guid SettlementId { get; set; }
+
+    public SettlementStatus Status { get; set; }
+
+    [MaxLength(2048)]
+    public string? Reason { get; set; }
+
+    public DateTime OccurredAtUtc { get; set; } = DateTime.UtcNow;
+
+    [ForeignKey(nameof(SettlementId))]
+    public virtual Settlement Settlement { get; set; } = null!;
+}
@@ -35,6 +35,15 @@ public class Task
     [Column(TypeName = "decimal(18,2)")]
     public decimal EstimatedCost { get; set; }
 
+    /// <summary>
+    /// Most the requestor can be billed for the task, retries included. No cap
+    /// when null.
+    /// </summary>
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal? BudgetCapAmount { get; set; }
+
+    public BudgetCapAction? BudgetCapAction { get; set; }
+
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
 
     public DateTime? UpdatedAt { get; set; }
@@ -0,0 +1,17 @@
+using MediatR;
+using InfiniteGPU.Backend.Features.Admin.Models;
+
+namespace InfiniteGPU.Backend.Features.Admin.Commands;
+
+/// <summary>
+/// Approves a queued settlement, which pays it out, or rejects it. Returns
+/// null when the settlement is no longer pending.
+/// </summary>
+public record DecideSettlementCommand(
+    string AdminUserId,
+    Guid SettlementId,
+    SettlementDecision Decision,
+    string Reason
+) : IRequest<DecideSettlementResult?>;
+
+public sealed record DecideSettlementResult(AdminAuditEntryDto AuditEntry, bool PayoutSucceeded, string? ErrorMessage);
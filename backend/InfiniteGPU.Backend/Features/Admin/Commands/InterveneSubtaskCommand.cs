@@ -0,0 +1,17 @@
+using MediatR;
+using InfiniteGPU.Backend.Features.Admin.Models;
+
+namespace InfiniteGPU.Backend.Features.Admin.Commands;
+
+/// <summary>
+/// Reassigns, cancels or fails a subtask on behalf of an administrator.
+/// Returns the recorded audit entry, or null when the subtask does not exist
+/// or its state does not allow the intervention.
+/// </summary>
+public record InterveneSubtaskCommand(
+    string AdminUserId,
+    Guid SubtaskId,
+    SubtaskIntervention Intervention,
+    string Reason,
+    Guid? TargetDeviceId = null
+) : IRequest<AdminAuditEntryDto?>;
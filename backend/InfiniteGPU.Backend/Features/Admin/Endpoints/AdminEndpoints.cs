@@ -0,0 +1,237 @@
+using System.Security.Claims;
+using FluentValidation;
+using InfiniteGPU.Backend.Features.Admin.Commands;
+using InfiniteGPU.Backend.Features.Admin.Models;
+using InfiniteGPU.Backend.Features.Admin.Queries;
+using InfiniteGPU.Backend.Shared.Models;
+using TaskStatusEnum = InfiniteGPU.Backend.Shared.Models.TaskStatus;
+using MediatR;
+using Microsoft.AspNetCore.Mvc;
+
+namespace InfiniteGPU.Backend.Features.Admin.Endpoints;
+
+public static class AdminEndpoints
+{
+    public static void MapAdminEndpoints(this IEndpointRouteBuilder endpoints)
+    {
+        var group = endpoints.MapGroup("/api/admin")
+            .WithTags("Admin")
+            .RequireAuthorization(UserRoles.AdminPolicy);
+
+        group.MapGet("/tasks", GetTasksAsync)
+            .WithName("GetAdminTasks")
+            .Produces<IReadOnlyList<AdminTaskDto>>()
+            .WithOpenApi();
+
+        group.MapGet("/subtasks/active", GetActiveSubtasksAsync)
+            .WithName("GetAdminActiveSubtasks")
+            .Produces<IReadOnlyList<AdminSubtaskDto>>()
+            .WithOpenApi();
+
+        group.MapGet("/devices", GetDevicesAsync)
+            .WithName("GetAdminProviderDevices")
+            .Produces<IReadOnlyList<ProviderDeviceDto>>()
+            .WithOpenApi();
+
+        group.MapGet("/settlements/pending", GetSettlementQueueAsync)
+            .WithName("GetAdminSettlementQueue")
+            .Produces<IReadOnlyList<SettlementApprovalDto>>()
+            .WithOpenApi();
+
+        group.MapGet("/audit-log", GetAuditLogAsync)
+            .WithName("GetAdminAuditLog")
+            .Produces<IReadOnlyList<AdminAuditEntryDto>>()
+            .WithOpenApi();
+
+        group.MapPost("/subtasks/{id:guid}/reassign", ReassignSubtaskAsync)
+            .WithName("AdminReassignSubtask")
+            .Produces<AdminAuditEntryDto>()
+            .Produces(StatusCodes.Status409Conflict)
+            .WithOpenApi();
+
+        group.MapPost("/subtasks/{id:guid}/cancel", CancelSubtaskAsync)
+            .WithName("AdminCancelSubtask")
+            .Produces<AdminAuditEntryDto>()
+            .Produces(StatusCodes.Status409Conflict)
+            .WithOpenApi();
+
+        group.MapPost("/subtasks/{id:guid}/fail", FailSubtaskAsync)
+            .WithName("AdminFailSubtask")
+            .Produces<AdminAuditEntryDto>()
+            .Produces(StatusCodes.Status409Conflict)
+            .WithOpenApi();
+
+        group.MapPost("/settlements/{id:guid}/approve", ApproveSettlementAsync)
+            .WithName("AdminApproveSettlement")
+            .Produces<AdminAuditEntryDto>()
+            .Produces(StatusCodes.Status400BadRequest)
+            .Produces(StatusCodes.Status409Conflict)
+            .WithOpenApi();
+
+        group.MapPost("/settlements/{id:guid}/reject", RejectSettlementAsync)
+            .WithName("AdminRejectSettlement")
+            .Produces<AdminAuditEntryDto>()
+            .Produces(StatusCodes.Status409Conflict)
+            .WithOpenApi();
+    }
+
+    private static async Task<IResult> GetTasksAsync(
+        IMediator mediator,
+        [FromQuery] TaskStatusEnum? status,
+        CancellationToken cancellationToken)
+    {
+        var tasks = await mediator.Send(new GetAdminTasksQuery(status), cancellationToken);
+        return Results.Ok(tasks);
+    }
+
+    private static async Task<IResult> GetActiveSubtasksAsync(
+        IMediator mediator,
+        CancellationToken cancellationToken)
+    {
+        var subtasks = await mediator.Send(new GetActiveSubtasksQuery(), cancellationToken);
+        return Results.Ok(subtasks);
+    }
+
+    private static async Task<IResult> GetDevicesAsync(
+        IMediator mediator,
+        CancellationToken cancellationToken)
+    {
+        var devices = await mediator.Send(new GetProviderDevicesQuery(), cancellationToken);
+        return Results.Ok(devices);
+    }
+
+    private static async Task<IResult> GetSettlementQueueAsync(
+        IMediator mediator,
+        CancellationToken cancellationToken)
+    {
+        var settlements = await mediator.Send(new GetSettlementQueueQuery(), cancellationToken);
+        return Results.Ok(settlements);
+    }
+
+    private static async Task<IResult> GetAuditLogAsync(
+        IMediator mediator,
+        CancellationToken cancellationToken)
+    {
+        var entries = await mediator.Send(new GetAdminAuditLogQuery(), cancellationToken);
+        return Results.Ok(entries);
+    }
+
+    private static Task<IResult> ReassignSubtaskAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<InterveneSubtaskCommand> validator,
+        [FromBody] ReassignSubtaskRequest request,
+        CancellationToken cancellationToken)
+        => InterveneAsync(principal, mediator, validator, id, SubtaskIntervention.Reassign, request.Reason, request.TargetDeviceId, cancellationToken);
+
+    private static Task<IResult> CancelSubtaskAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<InterveneSubtaskCommand> validator,
+        [FromBody] AdminActionRequest request,
+        CancellationToken cancellationToken)
+        => InterveneAsync(principal, mediator, validator, id, SubtaskIntervention.Cancel, request.Reason, null, cancellationToken);
+
+    private static Task<IResult> FailSubtaskAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<InterveneSubtaskCommand> validator,
+        [FromBody] AdminActionRequest request,
+        CancellationToken cancellationToken)
+        => InterveneAsync(principal, mediator, validator, id, SubtaskIntervention.Fail, request.Reason, null, cancellationToken);
+
+    private static Task<IResult> ApproveSettlementAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<DecideSettlementCommand> validator,
+        [FromBody] AdminActionRequest request,
+        CancellationToken cancellationToken)
+        => DecideSettlementAsync(principal, mediator, validator, id, SettlementDecision.Approve, request.Reason, cancellationToken);
+
+    private static Task<IResult> RejectSettlementAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<DecideSettlementCommand> validator,
+        [FromBody] AdminActionRequest request,
+        CancellationToken cancellationToken)
+        => DecideSettlementAsync(principal, mediator, validator, id, SettlementDecision.Reject, request.Reason, cancellationToken);
+
+    private static async Task<IResult> InterveneAsync(
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<InterveneSubtaskCommand> validator,
+        Guid subtaskId,
+        SubtaskIntervention intervention,
+        string? reason,
+        Guid? targetDeviceId,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var command = new InterveneSubtaskCommand(userId, subtaskId, intervention, reason?.Trim() ?? string.Empty, targetDeviceId);
+        var validationResult = await validator.ValidateAsync(command, cancellationToken);
+        if (!validationResult.IsValid)
+        {
+            return Results.ValidationProblem(validationResult.ToDictionary());
+        }
+
+        var entry = await mediator.Send(command, cancellationToken);
+        if (entry is null)
+        {
+            return Results.Conflict(new { error = "The subtask no longer allows this action.", code = "conflict" });
+        }
+
+        return Results.Ok(entry);
+    }
+
+    private static async Task<IResult> DecideSettlementAsync(
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<DecideSettlementCommand> validator,
+        Guid settlementId,
+        SettlementDecision decision,
+        string? reason,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var command = new DecideSettlementCommand(userId, settlementId, decision, reason?.Trim() ?? string.Empty);
+        var validationResult = await validator.ValidateAsync(command, cancellationToken);
+        if (!validationResult.IsValid)
+        {
+            return Results.ValidationProblem(validationResult.ToDictionary());
+        }
+
+        var result = await mediator.Send(command, cancellationToken);
+        if (result is null)
+        {
+            return Results.Conflict(new { error = "The settlement is no longer pending.", code = "conflict" });
+        }
+
+        // The decision is audited either way; a failed payout is still reported
+        // so the administrator knows the provider was not paid.
+        if (!result.PayoutSucceeded)
+        {
+            return Results.BadRequest(new { error = result.ErrorMessage ?? "Payout failed." });
+        }
+
+        return Results.Ok(result.AuditEntry);
+    }
+
+    private sealed record AdminActionRequest(string? Reason);
+
+    private sealed record ReassignSubtaskRequest(Guid? TargetDeviceId, string? Reason);
+}
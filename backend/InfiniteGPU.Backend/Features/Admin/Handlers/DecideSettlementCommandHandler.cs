@@ -0,0 +1,98 @@
+using System.Text.Json;
+using MediatR;
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Features.Admin.Commands;
+using InfiniteGPU.Backend.Features.Admin.Models;
+using InfiniteGPU.Backend.Shared.Services;
+using Microsoft.EntityFrameworkCore;
+
+namespace InfiniteGPU.Backend.Features.Admin.Handlers;
+
+public sealed class DecideSettlementCommandHandler : IRequestHandler<DecideSettlementCommand, DecideSettlementResult?>
+{
+    private readonly AppDbContext _context;
+    private readonly SettlementPayoutService _payoutService;
+    private readonly ILogger<DecideSettlementCommandHandler> _logger;
+
+    public DecideSettlementCommandHandler(
+        AppDbContext context,
+        SettlementPayoutService payoutService,
+        ILogger<DecideSettlementCommandHandler> logger)
+    {
+        _context = context;
+        _payoutService = payoutService;
+        _logger = logger;
+    }
+
+    public async Task<DecideSettlementResult?> Handle(DecideSettlementCommand request, CancellationToken cancellationToken)
+    {
+        var settlement = await _context.Settlements
+            .FirstOrDefaultAsync(s => s.Id == request.SettlementId, cancellationToken);
+
+        if (settlement is null || settlement.Status != SettlementStatus.Pending)
+        {
+            return null;
+        }
+
+        var payout = SettlementPayoutResult.Succeeded();
+        if (request.Decision == SettlementDecision.Approve)
+        {
+            payout = await _payoutService.ExecuteAsync(settlement, cancellationToken);
+            if (!payout.Success)
+            {
+                _logger.LogWarning(
+                    "Payout for approved settlement {SettlementId} failed: {Error}",
+                    settlement.Id,
+                    payout.ErrorMessage);
+            }
+        }
+        else
+        {
+            // Nothing has left the provider's balance yet, so rejecting only
+            // closes the request.
+            SettlementPayoutService.RecordTransition(_context, settlement, SettlementStatus.Failed, $"Rejected: {request.Reason}");
+        }
+
+        var entry = new AdminAuditLog
+        {
+            ActorUserId = request.AdminUserId,
+            Action = request.Decision == SettlementDecision.Approve
+                ? AdminAuditAction.SettlementApproved
+                : AdminAuditAction.SettlementRejected,
+            TargetType = AdminAuditTargetType.Settlement,
+            TargetId = settlement.Id.ToString(),
+            Reason = request.Reason,
+            MetadataJson = JsonSerializer.Serialize(new
+            {
+                providerUserId = settlement.UserId,
+                amount = settlement.Amount,
+                status = settlement.Status.ToString(),
+                payoutSucceeded = payout.Success,
+                error = payout.ErrorMessage
+            }),
+            CreatedAtUtc = DateTime.UtcNow
+        };
+
+        _context.AdminAuditLogs.Add(entry);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        var actorEmail = await _context.Users
+            .Where(u => u.Id == request.AdminUserId)
+            .Select(u => u.Email)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        var auditEntry = new AdminAuditEntryDto(
+            entry.Id,
+            entry.Action,
+            entry.ActorUserId,
+            actorEmail,
+            entry.TargetType,
+            entry.TargetId,
+            entry.Reason,
+            entry.MetadataJson,
+            entry.CreatedAtUtc);
+
+        return new DecideSettlementResult(auditEntry, payout.Success, payout.ErrorMessage);
+    }
+}
@@ -0,0 +1,48 @@
+using MediatR;
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Features.Admin.Models;
+using InfiniteGPU.Backend.Features.Admin.Queries;
+using InfiniteGPU.Backend.Features.Subtasks;
+using Microsoft.EntityFrameworkCore;
+using SubtaskStatusEnum = InfiniteGPU.Backend.Shared.Models.SubtaskStatus;
+
+namespace InfiniteGPU.Backend.Features.Admin.Handlers;
+
+public class GetActiveSubtasksQueryHandler : IRequestHandler<GetActiveSubtasksQuery, IReadOnlyList<AdminSubtaskDto>>
+{
+    private readonly AppDbContext _context;
+
+    public GetActiveSubtasksQueryHandler(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<IReadOnlyList<AdminSubtaskDto>> Handle(GetActiveSubtasksQuery request, CancellationToken cancellationToken)
+    {
+        var subtasks = await _context.Subtasks
+            .AsNoTracking()
+            .Include(s => s.Task)
+                .ThenInclude(t => t.User)
+            .Include(s => s.Task)
+                .ThenInclude(t => t.InferenceBindings)
+            .Include(s => s.AssignedProvider)
+            .Include(s => s.Device)
+            .Include(s => s.TimelineEvents)
+            .AsSplitQuery()
+            .Where(s => s.Status == SubtaskStatusEnum.Assigned || s.Status == SubtaskStatusEnum.Executing)
+            .OrderBy(s => s.LastHeartbeatAtUtc)
+            .ToListAsync(cancellationToken);
+
+        return subtasks
+            .Select(subtask =>
+            {
+                var dto = SubtaskMapping.CreateDto<AdminSubtaskDto>(subtask);
+                dto.OwnerEmail = subtask.Task.User?.Email;
+                dto.ProviderUserId = subtask.AssignedProviderId;
+                dto.ProviderEmail = subtask.AssignedProvider?.Email;
+                dto.DeviceIdentifier = subtask.Device?.DeviceIdentifier;
+                return dto;
+            })
+            .ToList();
+    }
+}
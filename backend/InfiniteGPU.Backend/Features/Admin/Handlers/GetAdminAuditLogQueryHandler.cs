@@ -0,0 +1,36 @@
+using MediatR;
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Features.Admin.Models;
+using InfiniteGPU.Backend.Features.Admin.Queries;
+using Microsoft.EntityFrameworkCore;
+
+namespace InfiniteGPU.Backend.Features.Admin.Handlers;
+
+public class GetAdminAuditLogQueryHandler : IRequestHandler<GetAdminAuditLogQuery, IReadOnlyList<AdminAuditEntryDto>>
+{
+    private readonly AppDbContext _context;
+
+    public GetAdminAuditLogQueryHandler(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<IReadOnlyList<AdminAuditEntryDto>> Handle(GetAdminAuditLogQuery request, CancellationToken cancellationToken)
+    {
+        return await _context.AdminAuditLogs
+            .AsNoTracking()
+            .OrderByDescending(e => e.CreatedAtUtc)
+            .Take(Math.Clamp(request.Take, 1, 1000))
+            .Select(e => new AdminAuditEntryDto(
+                e.Id,
+                e.Action,
+                e.ActorUserId,
+                e.Actor.Email,
+                e.TargetType,
+                e.TargetId,
+                e.Reason,
+                e.MetadataJson,
+                e.CreatedAtUtc))
+            .ToListAsync(cancellationToken);
+    }
+}
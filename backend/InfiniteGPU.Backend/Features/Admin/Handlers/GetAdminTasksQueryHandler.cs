@@ -0,0 +1,53 @@
+using MediatR;
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Features.Admin.Models;
+using InfiniteGPU.Backend.Features.Admin.Queries;
+using InfiniteGPU.Backend.Shared.Hubs;
+using Microsoft.EntityFrameworkCore;
+
+namespace InfiniteGPU.Backend.Features.Admin.Handlers;
+
+public class GetAdminTasksQueryHandler : IRequestHandler<GetAdminTasksQuery, IReadOnlyList<AdminTaskDto>>
+{
+    // The console lists recent work; older tasks are reached through their owner.
+    private const int MaxTasks = 500;
+
+    private readonly AppDbContext _context;
+
+    public GetAdminTasksQueryHandler(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<IReadOnlyList<AdminTaskDto>> Handle(GetAdminTasksQuery request, CancellationToken cancellationToken)
+    {
+        var query = _context.Tasks
+            .AsNoTracking()
+            .Include(t => t.User)
+            .Include(t => t.Subtasks)
+            .Include(t => t.InferenceBindings)
+            .Include(t => t.OutputBindings)
+            .AsSplitQuery();
+
+        if (request.StatusFilter.HasValue)
+        {
+            query = query.Where(t => t.Status == request.StatusFilter.Value);
+        }
+
+        var tasks = await query
+            .OrderByDescending(t => t.CreatedAt)
+            .Take(MaxTasks)
+            .ToListAsync(cancellationToken);
+
+        return tasks
+            .Select(task =>
+            {
+                var dto = TaskHub.BuildTaskDto<AdminTaskDto>(task);
+                dto.ModelUrl = task.OnnxModelBlobUri ?? string.Empty;
+                dto.OwnerUserId = task.UserId;
+                dto.OwnerEmail = task.User?.Email;
+                return dto;
+            })
+            .ToList();
+    }
+}
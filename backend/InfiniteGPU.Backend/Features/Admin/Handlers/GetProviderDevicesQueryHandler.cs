@@ -0,0 +1,38 @@
+using MediatR;
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Features.Admin.Models;
+using InfiniteGPU.Backend.Features.Admin.Queries;
+using Microsoft.EntityFrameworkCore;
+using SubtaskStatusEnum = InfiniteGPU.Backend.Shared.Models.SubtaskStatus;
+
+namespace InfiniteGPU.Backend.Features.Admin.Handlers;
+
+public class GetProviderDevicesQueryHandler : IRequestHandler<GetProviderDevicesQuery, IReadOnlyList<ProviderDeviceDto>>
+{
+    private readonly AppDbContext _context;
+
+    public GetProviderDevicesQueryHandler(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<IReadOnlyList<ProviderDeviceDto>> Handle(GetProviderDevicesQuery request, CancellationToken cancellationToken)
+    {
+        // The execution provider is reported per subtask by the runtime, not
+        // stored on the device, so it is left empty here.
+        return await _context.Devices
+            .AsNoTracking()
+            .OrderByDescending(d => d.IsConnected)
+            .ThenByDescending(d => d.LastSeenAtUtc)
+            .Select(d => new ProviderDeviceDto(
+                d.Id,
+                d.DeviceIdentifier,
+                d.ProviderUserId,
+                d.Provider.Email,
+                d.IsConnected,
+                d.LastSeenAtUtc,
+                d.Subtasks.Count(s => s.Status == SubtaskStatusEnum.Assigned || s.Status == SubtaskStatusEnum.Executing),
+                null))
+            .ToListAsync(cancellationToken);
+    }
+}
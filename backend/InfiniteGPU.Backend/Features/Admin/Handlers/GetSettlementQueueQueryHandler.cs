@@ -0,0 +1,53 @@
+using MediatR;
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Features.Admin.Models;
+using InfiniteGPU.Backend.Features.Admin.Queries;
+using Microsoft.EntityFrameworkCore;
+
+namespace InfiniteGPU.Backend.Features.Admin.Handlers;
+
+public class GetSettlementQueueQueryHandler : IRequestHandler<GetSettlementQueueQuery, IReadOnlyList<SettlementApprovalDto>>
+{
+    private readonly AppDbContext _context;
+
+    public GetSettlementQueueQueryHandler(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<IReadOnlyList<SettlementApprovalDto>> Handle(GetSettlementQueueQuery request, CancellationToken cancellationToken)
+    {
+        var settlements = await _context.Settlements
+            .AsNoTracking()
+            .Where(s => s.Status == SettlementStatus.Pending)
+            .OrderBy(s => s.CreatedAtUtc)
+            .Select(s => new
+            {
+                s.Id,
+                s.Amount,
+                s.Status,
+                s.UserId,
+                s.User.Email,
+                s.Country,
+                s.CreatedAtUtc
+            })
+            .ToListAsync(cancellationToken);
+
+        // Same reference format as the provider's payout snapshot.
+        return settlements
+            .Select(s => new SettlementApprovalDto(
+                s.Id,
+                $"settlement:{s.Id}",
+                s.Amount,
+                s.CreatedAtUtc,
+                null,
+                1,
+                s.Status,
+                s.UserId,
+                s.Email,
+                s.Country,
+                s.CreatedAtUtc))
+            .ToList();
+    }
+}
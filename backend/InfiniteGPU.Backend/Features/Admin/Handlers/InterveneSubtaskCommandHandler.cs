@@ -0,0 +1,141 @@
+using System.Text.Json;
+using MediatR;
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Features.Admin.Commands;
+using InfiniteGPU.Backend.Features.Admin.Models;
+using InfiniteGPU.Backend.Shared.Hubs;
+using InfiniteGPU.Backend.Shared.Services;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+using Task = System.Threading.Tasks.Task;
+
+namespace InfiniteGPU.Backend.Features.Admin.Handlers;
+
+public sealed class InterveneSubtaskCommandHandler : IRequestHandler<InterveneSubtaskCommand, AdminAuditEntryDto?>
+{
+    private readonly AppDbContext _context;
+    private readonly TaskAssignmentService _assignmentService;
+    private readonly IHubContext<TaskHub> _hubContext;
+    private readonly ILogger<InterveneSubtaskCommandHandler> _logger;
+
+    public InterveneSubtaskCommandHandler(
+        AppDbContext context,
+        TaskAssignmentService assignmentService,
+        IHubContext<TaskHub> hubContext,
+        ILogger<InterveneSubtaskCommandHandler> logger)
+    {
+        _context = context;
+        _assignmentService = assignmentService;
+        _hubContext = hubContext;
+        _logger = logger;
+    }
+
+    public async Task<AdminAuditEntryDto?> Handle(InterveneSubtaskCommand request, CancellationToken cancellationToken)
+    {
+        var result = request.Intervention switch
+        {
+            SubtaskIntervention.Reassign => await _assignmentService.ReassignSubtaskAsync(
+                request.SubtaskId, request.TargetDeviceId, request.AdminUserId, request.Reason, cancellationToken),
+            SubtaskIntervention.Cancel => await _assignmentService.CancelSubtaskAsync(
+                request.SubtaskId, request.AdminUserId, request.Reason, cancellationToken),
+            SubtaskIntervention.Fail => await _assignmentService.ForceFailSubtaskAsync(
+                request.SubtaskId, request.AdminUserId, request.Reason, cancellationToken),
+            _ => null
+        };
+
+        if (result is null)
+        {
+            _logger.LogWarning(
+                "Administrator {AdminUserId} could not apply {Intervention} to subtask {SubtaskId}",
+                request.AdminUserId,
+                request.Intervention,
+                request.SubtaskId);
+            return null;
+        }
+
+        await NotifyAsync(request, result, cancellationToken);
+
+        var action = request.Intervention switch
+        {
+            SubtaskIntervention.Reassign => AdminAuditAction.SubtaskReassigned,
+            SubtaskIntervention.Cancel => AdminAuditAction.SubtaskCancelled,
+            _ => AdminAuditAction.SubtaskFailed
+        };
+
+        var entry = new AdminAuditLog
+        {
+            ActorUserId = request.AdminUserId,
+            Action = action,
+            TargetType = AdminAuditTargetType.Subtask,
+            TargetId = request.SubtaskId.ToString(),
+            Reason = request.Reason,
+            MetadataJson = JsonSerializer.Serialize(new
+            {
+                taskId = result.Subtask.TaskId,
+                previousProviderUserId = result.PreviousProviderUserId,
+                targetDeviceId = request.TargetDeviceId,
+                targetProviderUserId = result.TargetProvider?.Id,
+                status = result.Subtask.Status.ToString(),
+                taskFinished = result.TaskFinished
+            }),
+            CreatedAtUtc = DateTime.UtcNow
+        };
+
+        _context.AdminAuditLogs.Add(entry);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        var actorEmail = await _context.Users
+            .Where(u => u.Id == request.AdminUserId)
+            .Select(u => u.Email)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        return new AdminAuditEntryDto(
+            entry.Id,
+            entry.Action,
+            entry.ActorUserId,
+            actorEmail,
+            entry.TargetType,
+            entry.TargetId,
+            entry.Reason,
+            entry.MetadataJson,
+            entry.CreatedAtUtc);
+    }
+
+    private async Task NotifyAsync(InterveneSubtaskCommand request, TaskAssignmentService.InterventionResult result, CancellationToken cancellationToken)
+    {
+        var subtask = result.Subtask;
+        var reassigned = request.Intervention == SubtaskIntervention.Reassign;
+
+        // The previous provider learns it lost the subtask through the same
+        // failure event a provider-side failure produces.
+        await TaskHub.OnFailure(
+            _hubContext,
+            subtask,
+            result.PreviousProviderUserId ?? string.Empty,
+            wasReassigned: reassigned,
+            taskFailed: request.Intervention == SubtaskIntervention.Fail && result.TaskFinished,
+            new
+            {
+                reason = request.Reason,
+                intervention = "admin",
+                action = request.Intervention.ToString()
+            },
+            cancellationToken);
+
+        if (!reassigned)
+        {
+            return;
+        }
+
+        if (result.TargetProvider is not null)
+        {
+            await TaskHub.OnSubtaskAccepted(_hubContext, subtask, result.TargetProvider.Id, cancellationToken);
+            await TaskHub.OnExecutionRequested(_hubContext, subtask, result.TargetProvider.Id, cancellationToken);
+        }
+        else
+        {
+            await TaskHub.DispatchPendingSubtaskAsync(_hubContext, _assignmentService, cancellationToken);
+        }
+    }
+}
@@ -0,0 +1,75 @@
+using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Shared.Models;
+
+namespace InfiniteGPU.Backend.Features.Admin.Models;
+
+/// <summary>A task from any tenant, with the requestor that owns it.</summary>
+public sealed class AdminTaskDto : TaskDto
+{
+    public string OwnerUserId { get; set; } = string.Empty;
+
+    public string? OwnerEmail { get; set; }
+}
+
+/// <summary>A subtask with the requestor and provider device involved.</summary>
+public sealed class AdminSubtaskDto : SubtaskDto
+{
+    public string? OwnerEmail { get; set; }
+
+    public string? ProviderUserId { get; set; }
+
+    public string? ProviderEmail { get; set; }
+
+    public string? DeviceIdentifier { get; set; }
+}
+
+public sealed record ProviderDeviceDto(
+    Guid DeviceId,
+    string DeviceIdentifier,
+    string ProviderUserId,
+    string? ProviderEmail,
+    bool IsConnected,
+    DateTime? LastSeenAtUtc,
+    int ActiveSubtasksCount,
+    string? ExecutionProvider);
+
+/// <summary>
+/// A provider payout waiting for an administrator, shaped like the
+/// provider's own payout snapshot.
+/// </summary>
+public sealed record SettlementApprovalDto(
+    Guid SettlementId,
+    string Reference,
+    decimal Amount,
+    DateTime? InitiatedAtUtc,
+    DateTime? SettledAtUtc,
+    int EntryCount,
+    SettlementStatus Status,
+    string ProviderUserId,
+    string? ProviderEmail,
+    string? Country,
+    DateTime RequestedAtUtc);
+
+public sealed record AdminAuditEntryDto(
+    Guid Id,
+    AdminAuditAction Action,
+    string ActorUserId,
+    string? ActorEmail,
+    AdminAuditTargetType TargetType,
+    string TargetId,
+    string Reason,
+    string? MetadataJson,
+    DateTime CreatedAtUtc);
+
+public enum SubtaskIntervention
+{
+    Reassign = 0,
+    Cancel = 1,
+    Fail = 2
+}
+
+public enum SettlementDecision
+{
+    Approve = 0,
+    Reject = 1
+}
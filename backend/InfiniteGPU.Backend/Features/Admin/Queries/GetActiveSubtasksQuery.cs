@@ -0,0 +1,7 @@
+using MediatR;
+using InfiniteGPU.Backend.Features.Admin.Models;
+
+namespace InfiniteGPU.Backend.Features.Admin.Queries;
+
+/// <summary>Subtasks currently assigned to or executing on a provider device.</summary>
+public record GetActiveSubtasksQuery : IRequest<IReadOnlyList<AdminSubtaskDto>>;
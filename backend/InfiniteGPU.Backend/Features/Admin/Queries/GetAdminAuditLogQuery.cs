@@ -0,0 +1,8 @@
+using MediatR;
+using InfiniteGPU.Backend.Features.Admin.Models;
+
+namespace InfiniteGPU.Backend.Features.Admin.Queries;
+
+public record GetAdminAuditLogQuery(
+    int Take = 200
+) : IRequest<IReadOnlyList<AdminAuditEntryDto>>;
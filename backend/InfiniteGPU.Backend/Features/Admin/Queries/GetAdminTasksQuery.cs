@@ -0,0 +1,9 @@
+using MediatR;
+using InfiniteGPU.Backend.Features.Admin.Models;
+using TaskStatusEnum = InfiniteGPU.Backend.Shared.Models.TaskStatus;
+
+namespace InfiniteGPU.Backend.Features.Admin.Queries;
+
+public record GetAdminTasksQuery(
+    TaskStatusEnum? StatusFilter = null
+) : IRequest<IReadOnlyList<AdminTaskDto>>;
@@ -0,0 +1,6 @@
+using MediatR;
+using InfiniteGPU.Backend.Features.Admin.Models;
+
+namespace InfiniteGPU.Backend.Features.Admin.Queries;
+
+public record GetProviderDevicesQuery : IRequest<IReadOnlyList<ProviderDeviceDto>>;
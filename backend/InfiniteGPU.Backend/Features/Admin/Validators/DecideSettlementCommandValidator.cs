@@ -0,0 +1,23 @@
+using FluentValidation;
+using InfiniteGPU.Backend.Features.Admin.Commands;
+
+namespace InfiniteGPU.Backend.Features.Admin.Validators;
+
+public class DecideSettlementCommandValidator : AbstractValidator<DecideSettlementCommand>
+{
+    public DecideSettlementCommandValidator()
+    {
+        RuleFor(x => x.AdminUserId)
+            .NotEmpty();
+
+        RuleFor(x => x.SettlementId)
+            .NotEqual(Guid.Empty).WithMessage("Settlement ID must be a non-empty GUID.");
+
+        RuleFor(x => x.Decision)
+            .IsInEnum();
+
+        RuleFor(x => x.Reason)
+            .NotEmpty().WithMessage("A reason is required for every admin action.")
+            .MaximumLength(1024).WithMessage("Reason cannot exceed 1024 characters.");
+    }
+}
@@ -0,0 +1,34 @@
+using FluentValidation;
+using InfiniteGPU.Backend.Features.Admin.Commands;
+using InfiniteGPU.Backend.Features.Admin.Models;
+
+namespace InfiniteGPU.Backend.Features.Admin.Validators;
+
+public class InterveneSubtaskCommandValidator : AbstractValidator<InterveneSubtaskCommand>
+{
+    public InterveneSubtaskCommandValidator()
+    {
+        RuleFor(x => x.AdminUserId)
+            .NotEmpty();
+
+        RuleFor(x => x.SubtaskId)
+            .NotEqual(Guid.Empty).WithMessage("Subtask ID must be a non-empty GUID.");
+
+        RuleFor(x => x.Intervention)
+            .IsInEnum();
+
+        RuleFor(x => x.Reason)
+            .NotEmpty().WithMessage("A reason is required for every admin action.")
+            .MaximumLength(1024).WithMessage("Reason cannot exceed 1024 characters.");
+
+        RuleFor(x => x.TargetDeviceId)
+            .Null()
+            .When(x => x.Intervention != SubtaskIntervention.Reassign)
+            .WithMessage("Only reassignments take a target device.");
+
+        RuleFor(x => x.TargetDeviceId)
+            .NotEqual(Guid.Empty)
+            .When(x => x.TargetDeviceId.HasValue)
+            .WithMessage("Target device ID must be a non-empty GUID.");
+    }
+}
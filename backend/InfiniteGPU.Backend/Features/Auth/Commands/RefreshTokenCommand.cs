@@ -0,0 +1,7 @@
+using MediatR;
+
+namespace InfiniteGPU.Backend.Features.Auth.Commands;
+
+public record RefreshTokenCommand(
+    string UserId
+) : IRequest<string>;
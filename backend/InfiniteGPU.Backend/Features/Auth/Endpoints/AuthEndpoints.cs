@@ -2,6 +2,7 @@ using System.Security.Claims;
 using MediatR;
 using InfiniteGPU.Backend.Features.Auth.Commands;
 using InfiniteGPU.Backend.Features.Auth.Models;
+using InfiniteGPU.Backend.Shared.Exceptions;
 using Microsoft.AspNetCore.Mvc;
 
 namespace InfiniteGPU.Backend.Features.Auth.Endpoints;
@@ -19,6 +20,10 @@ public static class AuthEndpoints
                 var token = await mediator.Send(command);
                 return Results.Ok(new { Token = token });
             }
+            catch (AccountConflictException ex)
+            {
+                return Results.Conflict(new { Error = ex.Message, Code = ex.Code });
+            }
             catch (Exception ex)
             {
                 return Results.BadRequest(new { Error = ex.Message });
@@ -53,7 +58,7 @@ public static class AuthEndpoints
             }
             catch (UnauthorizedAccessException ex)
             {
-                return Results.Json(new { Error = ex.Message }, statusCode: 401);
+                return Results.Json(new { Error = ex.Message, Code = "invalid_credentials" }, statusCode: 401);
             }
             catch (Exception ex)
             {
@@ -61,6 +66,26 @@ public static class AuthEndpoints
             }
         });
 
+        group.MapPost("/refresh", async (ClaimsPrincipal principal, IMediator mediator) =>
+            {
+                var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+                if (string.IsNullOrWhiteSpace(userId))
+                {
+                    return Results.Json(new { Error = "Unable to resolve current user." }, statusCode: 401);
+                }
+
+                try
+                {
+                    var token = await mediator.Send(new RefreshTokenCommand(userId));
+                    return Results.Ok(new { Token = token });
+                }
+                catch (UnauthorizedAccessException ex)
+                {
+                    return Results.Json(new { Error = ex.Message }, statusCode: 401);
+                }
+            })
+            .RequireAuthorization();
+
         group.MapPut("/user", async (
                 ClaimsPrincipal principal,
                 IMediator mediator,
@@ -32,6 +32,7 @@ public class LoginCommandHandler : IRequestHandler<LoginCommand, string>
             throw new UnauthorizedAccessException("User account is not active");
         }
 
-        return _jwtService.GenerateJwtToken(user.Id, user.UserName, user.Email);
+        var roles = await _userManager.GetRolesAsync(user);
+        return _jwtService.GenerateJwtToken(user.Id, user.UserName, user.Email, roles);
     }
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+using MediatR;
+using Microsoft.AspNetCore.Identity;
+using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Features.Auth.Commands;
+using InfiniteGPU.Backend.Shared.Services;
+
+namespace InfiniteGPU.Backend.Features.Auth.Handlers;
+
+public class RefreshTokenCommandHandler : IRequestHandler<RefreshTokenCommand, string>
+{
+    private readonly UserManager<ApplicationUser> _userManager;
+    private readonly JwtService _jwtService;
+
+    public RefreshTokenCommandHandler(
+        UserManager<ApplicationUser> userManager,
+        JwtService jwtService)
+    {
+        _userManager = userManager;
+        _jwtService = jwtService;
+    }
+
+    public async Task<string> Handle(RefreshTokenCommand request, CancellationToken cancellationToken)
+    {
+        // The caller's token is still valid, but the account may have been
+        // deactivated or removed since it was issued.
+        var user = await _userManager.FindByIdAsync(request.UserId);
+        if (user == null)
+        {
+            throw new UnauthorizedAccessException("User no longer exists");
+        }
+
+        if (!user.IsActive)
+        {
+            throw new UnauthorizedAccessException("User account is not active");
+        }
+
+        var roles = await _userManager.GetRolesAsync(user);
+        return _jwtService.GenerateJwtToken(user.Id, user.UserName, user.Email, roles);
+    }
+}
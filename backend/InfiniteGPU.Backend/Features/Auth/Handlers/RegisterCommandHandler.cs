@@ -5,6 +5,7 @@ using Microsoft.AspNetCore.Identity;
 using InfiniteGPU.Backend.Data;
 using InfiniteGPU.Backend.Data.Entities;
 using InfiniteGPU.Backend.Features.Auth.Commands;
+using InfiniteGPU.Backend.Shared.Exceptions;
 using InfiniteGPU.Backend.Shared.Services;
 
 namespace InfiniteGPU.Backend.Features.Auth.Handlers;
@@ -41,6 +42,14 @@ public class RegisterCommandHandler : IRequestHandler<RegisterCommand, string>
 
         if (!result.Succeeded)
         {
+            var duplicate = result.Errors.FirstOrDefault(e => e.Code is "DuplicateEmail" or "DuplicateUserName");
+            if (duplicate is not null)
+            {
+                throw new AccountConflictException(
+                    duplicate.Code == "DuplicateEmail" ? "email_taken" : "username_taken",
+                    duplicate.Description);
+            }
+
             throw new Exception(string.Join(", ", result.Errors.Select(e => e.Description)));
         }
   
@@ -59,7 +68,8 @@ public class RegisterCommandHandler : IRequestHandler<RegisterCommand, string>
         _context.ApiKeys.Add(apiKeyEntity);
         await _context.SaveChangesAsync(cancellationToken);
 
-        return _jwtService.GenerateJwtToken(user.Id, user.UserName, user.Email);
+        var roles = await _userManager.GetRolesAsync(user);
+        return _jwtService.GenerateJwtToken(user.Id, user.UserName, user.Email, roles);
     }
 
     private static string GenerateApiKey(string userId, Guid apiKeyId)
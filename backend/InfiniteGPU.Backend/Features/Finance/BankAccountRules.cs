@@ -0,0 +1,177 @@
+using System.Text.RegularExpressions;
+using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Features.Finance.Models;
+
+namespace InfiniteGPU.Backend.Features.Finance;
+
+/// <summary>
+/// Same checks as the settlement dialog, so a typo is rejected when the
+/// settlement is requested instead of when Stripe refuses the payout. Errors
+/// are keyed by the <see cref="BankAccountInfo"/> property they concern.
+/// </summary>
+internal static class BankAccountRules
+{
+    // Full IBAN length per country, from the SWIFT IBAN registry.
+    private static readonly Dictionary<string, int> IbanLengths = new(StringComparer.Ordinal)
+    {
+        ["AT"] = 20, ["BE"] = 16, ["BG"] = 22, ["CH"] = 21, ["CY"] = 28, ["CZ"] = 24,
+        ["DE"] = 22, ["DK"] = 18, ["EE"] = 20, ["ES"] = 24, ["FI"] = 18, ["FR"] = 27,
+        ["GR"] = 27, ["HR"] = 21, ["HU"] = 28, ["IE"] = 22, ["IT"] = 27, ["LI"] = 21,
+        ["LT"] = 20, ["LU"] = 20, ["LV"] = 21, ["MT"] = 31, ["NL"] = 18, ["NO"] = 15,
+        ["PL"] = 28, ["PT"] = 25, ["RO"] = 24, ["SE"] = 24, ["SI"] = 19, ["SK"] = 24
+    };
+
+    private static readonly Regex IbanPattern = new("^[A-Z]{2}[0-9]{2}[A-Z0-9]+$", RegexOptions.Compiled);
+    private static readonly Regex BicPattern = new("^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$", RegexOptions.Compiled);
+
+    /// <summary>
+    /// Uppercase without spaces or dashes, the form banks expect on the wire.
+    /// </summary>
+    public static string Normalize(string? value)
+        => (value ?? string.Empty).Replace(" ", string.Empty).Replace("-", string.Empty).ToUpperInvariant();
+
+    public static IReadOnlyList<KeyValuePair<string, string>> Validate(PayoutMethodKind kind, string country, BankAccountInfo bankInfo)
+    {
+        var errors = new List<KeyValuePair<string, string>>();
+        void Check(string field, string? error)
+        {
+            if (error is not null)
+            {
+                errors.Add(new KeyValuePair<string, string>(field, error));
+            }
+        }
+
+        Check(nameof(BankAccountInfo.AccountHolderName),
+            string.IsNullOrWhiteSpace(bankInfo.AccountHolderName) ? "Account holder name is required" : null);
+        Check(nameof(BankAccountInfo.BankName),
+            string.IsNullOrWhiteSpace(bankInfo.BankName) ? "Bank name is required" : null);
+
+        switch (kind)
+        {
+            case PayoutMethodKind.Sepa:
+                Check(nameof(BankAccountInfo.Iban), ValidateIban(bankInfo.Iban, country));
+                Check(nameof(BankAccountInfo.Bic), ValidateBic(bankInfo.Bic, country));
+                break;
+            case PayoutMethodKind.Ach:
+                Check(nameof(BankAccountInfo.RoutingNumber), ValidateRoutingNumber(bankInfo.RoutingNumber));
+                Check(nameof(BankAccountInfo.AccountNumber), ValidateDigits(bankInfo.AccountNumber, "Account number", 4, 17));
+                break;
+            case PayoutMethodKind.FasterPayments:
+                Check(nameof(BankAccountInfo.SortCode), ValidateDigits(bankInfo.SortCode, "Sort code", 6, 6));
+                Check(nameof(BankAccountInfo.AccountNumber), ValidateDigits(bankInfo.AccountNumber, "Account number", 8, 8));
+                break;
+            case PayoutMethodKind.Eft:
+                Check(nameof(BankAccountInfo.TransitNumber), ValidateDigits(bankInfo.TransitNumber, "Transit number", 5, 5));
+                Check(nameof(BankAccountInfo.InstitutionNumber), ValidateDigits(bankInfo.InstitutionNumber, "Institution number", 3, 3));
+                Check(nameof(BankAccountInfo.AccountNumber), ValidateDigits(bankInfo.AccountNumber, "Account number", 7, 12));
+                break;
+            case PayoutMethodKind.Becs:
+                Check(nameof(BankAccountInfo.Bsb), ValidateDigits(bankInfo.Bsb, "BSB", 6, 6));
+                Check(nameof(BankAccountInfo.AccountNumber), ValidateDigits(bankInfo.AccountNumber, "Account number", 5, 9));
+                break;
+        }
+
+        return errors;
+    }
+
+    private static string? ValidateIban(string? value, string country)
+    {
+        var iban = Normalize(value);
+        if (iban.Length == 0)
+        {
+            return "IBAN is required";
+        }
+
+        if (!IbanPattern.IsMatch(iban))
+        {
+            return "IBAN must start with a country code and two check digits";
+        }
+
+        var ibanCountry = iban[..2];
+        if (!ibanCountry.Equals(country, StringComparison.OrdinalIgnoreCase))
+        {
+            return $"This IBAN belongs to {ibanCountry}, not {country.ToUpperInvariant()}";
+        }
+
+        if (IbanLengths.TryGetValue(ibanCountry, out var expectedLength) && iban.Length != expectedLength)
+        {
+            return $"A {ibanCountry} IBAN has {expectedLength} characters, this one has {iban.Length}";
+        }
+
+        return HasValidIbanChecksum(iban) ? null : "IBAN check digits do not match, please check for a typo";
+    }
+
+    // ISO 13616: move the first four characters to the end, turn letters into
+    // 10..35 and check the resulting number is 1 modulo 97.
+    private static bool HasValidIbanChecksum(string iban)
+    {
+        var remainder = 0;
+        foreach (var character in iban[4..] + iban[..4])
+        {
+            var digits = char.IsDigit(character) ? character.ToString() : (character - 'A' + 10).ToString();
+            foreach (var digit in digits)
+            {
+                remainder = (remainder * 10 + (digit - '0')) % 97;
+            }
+        }
+
+        return remainder == 1;
+    }
+
+    private static string? ValidateBic(string? value, string country)
+    {
+        var bic = Normalize(value);
+        if (bic.Length == 0)
+        {
+            return "BIC/SWIFT code is required";
+        }
+
+        if (!BicPattern.IsMatch(bic))
+        {
+            return "BIC/SWIFT code has 8 or 11 characters, e.g. BNPAFRPP";
+        }
+
+        return bic.Substring(4, 2).Equals(country, StringComparison.OrdinalIgnoreCase)
+            ? null
+            : $"This BIC belongs to {bic.Substring(4, 2)}, not {country.ToUpperInvariant()}";
+    }
+
+    // Nine digits with the ABA 3-7-1 weighted checksum and a Federal Reserve
+    // district prefix: 00-12, 21-32, 61-72 or 80.
+    private static string? ValidateRoutingNumber(string? value)
+    {
+        var routingNumber = Normalize(value);
+        if (routingNumber.Length == 0)
+        {
+            return "Routing number is required";
+        }
+
+        if (routingNumber.Length != 9 || !routingNumber.All(char.IsAsciiDigit))
+        {
+            return "Routing number has 9 digits";
+        }
+
+        int[] weights = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+        var checksum = routingNumber.Select((digit, index) => (digit - '0') * weights[index]).Sum();
+        var prefix = int.Parse(routingNumber[..2]);
+        var validPrefix = prefix <= 12 || prefix is >= 21 and <= 32 || prefix is >= 61 and <= 72 || prefix == 80;
+
+        return checksum % 10 == 0 && validPrefix
+            ? null
+            : "This is not a valid ABA routing number, please check for a typo";
+    }
+
+    private static string? ValidateDigits(string? value, string label, int minLength, int maxLength)
+    {
+        var digits = Normalize(value);
+        if (digits.Length == 0)
+        {
+            return $"{label} is required";
+        }
+
+        var length = minLength == maxLength ? $"{minLength}" : $"{minLength} to {maxLength}";
+        return digits.All(char.IsAsciiDigit) && digits.Length >= minLength && digits.Length <= maxLength
+            ? null
+            : $"{label} has {length} digits";
+    }
+}
@@ -0,0 +1,15 @@
+namespace InfiniteGPU.Backend.Features.Finance.Commands;
+
+/// <summary>
+/// Withdraws a settlement that is still waiting for approval.
+/// </summary>
+public sealed record CancelSettlementCommand(
+    string UserId,
+    Guid SettlementId) : MediatR.IRequest<CancelSettlementOutcome>;
+
+public enum CancelSettlementOutcome
+{
+    Cancelled,
+    NotFound,
+    InvalidState
+}
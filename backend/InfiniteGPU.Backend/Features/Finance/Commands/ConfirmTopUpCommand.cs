@@ -0,0 +1,11 @@
+using InfiniteGPU.Backend.Features.Finance.Models;
+
+namespace InfiniteGPU.Backend.Features.Finance.Commands;
+
+/// <summary>
+/// Re-reads the top-up's PaymentIntent after the 3-D Secure challenge and
+/// credits the balance once it succeeded. Returns null when the user has no such top-up.
+/// </summary>
+public sealed record ConfirmTopUpCommand(
+    string UserId,
+    Guid PaymentId) : MediatR.IRequest<TopUpResultDto?>;
@@ -1,12 +1,20 @@
 namespace InfiniteGPU.Backend.Features.Finance.Commands;
 
+/// <summary>
+/// Requests a settlement to either a saved payout method or the bank account
+/// in <see cref="Country"/> and <see cref="BankAccountDetails"/>.
+/// </summary>
 public sealed record CreateSettlementCommand(
     string UserId,
     decimal Amount,
-    string Country,
-    string BankAccountDetails) : MediatR.IRequest<CreateSettlementResult>;
+    Guid? PayoutMethodId,
+    string? Country,
+    string? BankAccountDetails,
+    bool SavePayoutMethod) : MediatR.IRequest<CreateSettlementResult>;
 
+/// <param name="InsufficientBalance">Set when the available balance does not cover the amount.</param>
 public sealed record CreateSettlementResult(
     bool Success,
     string? SettlementId,
-    string? ErrorMessage);
\ No newline at end of file
+    string? ErrorMessage,
+    bool InsufficientBalance = false);
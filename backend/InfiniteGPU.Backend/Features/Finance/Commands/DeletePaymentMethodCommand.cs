@@ -0,0 +1,9 @@
+namespace InfiniteGPU.Backend.Features.Finance.Commands;
+
+/// <summary>
+/// Detaches a saved card and disables auto-recharge when it was charging it;
+/// returns false when the card is not saved on the user's customer.
+/// </summary>
+public sealed record DeletePaymentMethodCommand(
+    string UserId,
+    string PaymentMethodId) : MediatR.IRequest<bool>;
@@ -0,0 +1,8 @@
+namespace InfiniteGPU.Backend.Features.Finance.Commands;
+
+/// <summary>
+/// Removes a saved payout method; returns false when the user has no such method.
+/// </summary>
+public sealed record DeletePayoutMethodCommand(
+    string UserId,
+    Guid PayoutMethodId) : MediatR.IRequest<bool>;
@@ -1,11 +1,18 @@
+using InfiniteGPU.Backend.Features.Finance.Models;
+
 namespace InfiniteGPU.Backend.Features.Finance.Commands;
 
+/// <param name="SavePaymentMethod">Keeps the card on the user's Stripe customer for later and automatic top-ups.</param>
 public sealed record ProcessPaymentCommand(
     string UserId,
     decimal Amount,
-    string StripePaymentMethodId) : MediatR.IRequest<ProcessPaymentResult>;
+    string StripePaymentMethodId,
+    bool SavePaymentMethod) : MediatR.IRequest<ProcessPaymentResult>;
 
+/// <summary>
+/// <see cref="TopUp"/> is set once the charge reached Stripe; otherwise
+/// <see cref="ErrorMessage"/> says why it was not attempted.
+/// </summary>
 public sealed record ProcessPaymentResult(
-    bool Success,
-    string? PaymentId,
-    string? ErrorMessage);
\ No newline at end of file
+    TopUpResultDto? TopUp,
+    string? ErrorMessage);
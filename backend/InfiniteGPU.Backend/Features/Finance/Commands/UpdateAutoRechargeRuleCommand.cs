@@ -0,0 +1,15 @@
+using InfiniteGPU.Backend.Features.Finance.Models;
+
+namespace InfiniteGPU.Backend.Features.Finance.Commands;
+
+public sealed record UpdateAutoRechargeRuleCommand(
+    string UserId,
+    bool Enabled,
+    decimal ThresholdAmount,
+    decimal RechargeAmount,
+    string? PaymentMethodId) : MediatR.IRequest<UpdateAutoRechargeRuleResult>;
+
+public sealed record UpdateAutoRechargeRuleResult(
+    bool Success,
+    AutoRechargeRuleDto? Rule,
+    string? ErrorMessage);
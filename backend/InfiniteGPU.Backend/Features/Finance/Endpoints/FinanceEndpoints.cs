@@ -1,7 +1,10 @@
 using System.Security.Claims;
+using FluentValidation;
 using InfiniteGPU.Backend.Features.Finance.Commands;
+using InfiniteGPU.Backend.Features.Finance.Models;
 using InfiniteGPU.Backend.Features.Finance.Queries;
 using MediatR;
+using Microsoft.AspNetCore.Mvc;
 
 namespace InfiniteGPU.Backend.Features.Finance.Endpoints;
 
@@ -15,16 +18,97 @@ public static class FinanceEndpoints
 
         group.MapGet("/summary", GetFinanceSummaryAsync)
             .WithName("GetFinanceSummary")
+            .Produces<FinanceSummaryDto>()
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        group.MapGet("/ledger", GetLedgerAsync)
+            .WithName("GetFinanceLedger")
+            .Produces<FinanceLedgerPageDto>()
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        group.MapGet("/statements/{month}", GetStatementAsync)
+            .WithName("GetFinanceStatement")
+            .Produces<FinanceStatementDto>()
             .WithOpenApi()
             .RequireAuthorization();
 
         group.MapPost("/topup", ProcessTopUpAsync)
             .WithName("ProcessTopUp")
+            .Produces<TopUpResultDto>()
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        group.MapPost("/topup/{id:guid}/confirm", ConfirmTopUpAsync)
+            .WithName("ConfirmTopUp")
+            .Produces<TopUpResultDto>()
+            .Produces(StatusCodes.Status404NotFound)
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        group.MapGet("/topups", GetTopUpsAsync)
+            .WithName("GetTopUps")
+            .Produces<IReadOnlyList<TopUpDto>>()
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        group.MapGet("/payment-methods", GetPaymentMethodsAsync)
+            .WithName("GetPaymentMethods")
+            .Produces<IReadOnlyList<PaymentMethodDto>>()
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        group.MapDelete("/payment-methods/{id}", DeletePaymentMethodAsync)
+            .WithName("DeletePaymentMethod")
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces(StatusCodes.Status404NotFound)
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        group.MapGet("/auto-recharge", GetAutoRechargeRuleAsync)
+            .WithName("GetAutoRechargeRule")
+            .Produces<AutoRechargeRuleDto>()
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        group.MapPut("/auto-recharge", UpdateAutoRechargeRuleAsync)
+            .WithName("UpdateAutoRechargeRule")
+            .Produces<AutoRechargeRuleDto>()
             .WithOpenApi()
             .RequireAuthorization();
 
         group.MapPost("/settlement", CreateSettlementAsync)
             .WithName("CreateSettlement")
+            .Produces(StatusCodes.Status200OK)
+            .Produces(StatusCodes.Status402PaymentRequired)
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        group.MapGet("/settlements", GetSettlementsAsync)
+            .WithName("GetSettlements")
+            .Produces<IReadOnlyList<SettlementDto>>()
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        group.MapPost("/settlements/{id:guid}/cancel", CancelSettlementAsync)
+            .WithName("CancelSettlement")
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces(StatusCodes.Status404NotFound)
+            .Produces(StatusCodes.Status409Conflict)
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        group.MapGet("/payout-methods", GetPayoutMethodsAsync)
+            .WithName("GetPayoutMethods")
+            .Produces<IReadOnlyList<PayoutMethodDto>>()
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        group.MapDelete("/payout-methods/{id:guid}", DeletePayoutMethodAsync)
+            .WithName("DeletePayoutMethod")
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces(StatusCodes.Status404NotFound)
             .WithOpenApi()
             .RequireAuthorization();
     }
@@ -44,10 +128,142 @@ public static class FinanceEndpoints
         return Results.Ok(summary);
     }
 
+    private static async Task<IResult> GetLedgerAsync(
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<GetFinanceLedgerQuery> validator,
+        [FromQuery] DateOnly? from,
+        [FromQuery] DateOnly? to,
+        [FromQuery] FinanceLedgerEntryKind? kind,
+        [FromQuery] string? source,
+        [FromQuery] Guid? taskId,
+        [FromQuery] string? search,
+        CancellationToken cancellationToken,
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 50)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var query = new GetFinanceLedgerQuery(userId, from, to, kind, source, taskId, search, page, pageSize);
+        var validationResult = await validator.ValidateAsync(query, cancellationToken);
+        if (!validationResult.IsValid)
+        {
+            return Results.ValidationProblem(validationResult.ToDictionary());
+        }
+
+        var ledgerPage = await mediator.Send(query, cancellationToken);
+        return Results.Ok(ledgerPage);
+    }
+
+    private static async Task<IResult> GetStatementAsync(
+        string month,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<GetFinanceStatementQuery> validator,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var query = new GetFinanceStatementQuery(userId, month);
+        var validationResult = await validator.ValidateAsync(query, cancellationToken);
+        if (!validationResult.IsValid)
+        {
+            return Results.ValidationProblem(validationResult.ToDictionary());
+        }
+
+        var statement = await mediator.Send(query, cancellationToken);
+        return Results.Ok(statement);
+    }
+
     private static async Task<IResult> ProcessTopUpAsync(
         ClaimsPrincipal principal,
         TopUpRequest request,
         IMediator mediator,
+        IValidator<ProcessPaymentCommand> validator,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var command = new ProcessPaymentCommand(userId, request.Amount, request.StripePaymentMethodId, request.SavePaymentMethod);
+        var validationResult = await validator.ValidateAsync(command, cancellationToken);
+        if (!validationResult.IsValid)
+        {
+            return Results.ValidationProblem(validationResult.ToDictionary());
+        }
+
+        var result = await mediator.Send(command, cancellationToken);
+
+        // Declined cards still come back as a Failed top-up with the reason
+        if (result.TopUp is null)
+        {
+            return Results.BadRequest(new { error = result.ErrorMessage });
+        }
+
+        return Results.Ok(result.TopUp);
+    }
+
+    private static async Task<IResult> ConfirmTopUpAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var result = await mediator.Send(new ConfirmTopUpCommand(userId, id), cancellationToken);
+        return result is null ? Results.NotFound() : Results.Ok(result);
+    }
+
+    private static async Task<IResult> GetTopUpsAsync(
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var topUps = await mediator.Send(new GetTopUpsQuery(userId), cancellationToken);
+        return Results.Ok(topUps);
+    }
+
+    private static async Task<IResult> GetPaymentMethodsAsync(
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var paymentMethods = await mediator.Send(new GetPaymentMethodsQuery(userId), cancellationToken);
+        return Results.Ok(paymentMethods);
+    }
+
+    private static async Task<IResult> DeletePaymentMethodAsync(
+        string id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
         CancellationToken cancellationToken)
     {
         var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
@@ -56,7 +272,50 @@ public static class FinanceEndpoints
             return Results.Unauthorized();
         }
 
-        var command = new ProcessPaymentCommand(userId, request.Amount, request.StripePaymentMethodId);
+        var deleted = await mediator.Send(new DeletePaymentMethodCommand(userId, id), cancellationToken);
+        return deleted ? Results.NoContent() : Results.NotFound();
+    }
+
+    private static async Task<IResult> GetAutoRechargeRuleAsync(
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var rule = await mediator.Send(new GetAutoRechargeRuleQuery(userId), cancellationToken);
+        return Results.Ok(rule);
+    }
+
+    private static async Task<IResult> UpdateAutoRechargeRuleAsync(
+        ClaimsPrincipal principal,
+        AutoRechargeRuleRequest request,
+        IMediator mediator,
+        IValidator<UpdateAutoRechargeRuleCommand> validator,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var command = new UpdateAutoRechargeRuleCommand(
+            userId,
+            request.Enabled,
+            request.ThresholdAmount,
+            request.RechargeAmount,
+            request.PaymentMethodId);
+        var validationResult = await validator.ValidateAsync(command, cancellationToken);
+        if (!validationResult.IsValid)
+        {
+            return Results.ValidationProblem(validationResult.ToDictionary());
+        }
+
         var result = await mediator.Send(command, cancellationToken);
 
         if (!result.Success)
@@ -64,13 +323,14 @@ public static class FinanceEndpoints
             return Results.BadRequest(new { error = result.ErrorMessage });
         }
 
-        return Results.Ok(new { paymentId = result.PaymentId });
+        return Results.Ok(result.Rule);
     }
 
     private static async Task<IResult> CreateSettlementAsync(
         ClaimsPrincipal principal,
         SettlementRequest request,
         IMediator mediator,
+        IValidator<CreateSettlementCommand> validator,
         CancellationToken cancellationToken)
     {
         var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
@@ -79,17 +339,118 @@ public static class FinanceEndpoints
             return Results.Unauthorized();
         }
 
-        var command = new CreateSettlementCommand(userId, request.Amount, request.Country, request.BankAccountDetails);
+        var command = new CreateSettlementCommand(
+            userId,
+            request.Amount,
+            request.PayoutMethodId,
+            request.Country,
+            request.BankAccountDetails,
+            request.SavePayoutMethod);
+        var validationResult = await validator.ValidateAsync(command, cancellationToken);
+        if (!validationResult.IsValid)
+        {
+            return Results.ValidationProblem(validationResult.ToDictionary());
+        }
+
         var result = await mediator.Send(command, cancellationToken);
 
         if (!result.Success)
         {
-            return Results.BadRequest(new { error = result.ErrorMessage });
+            return result.InsufficientBalance
+                ? Results.Json(new { error = result.ErrorMessage, code = "insufficient_balance" }, statusCode: StatusCodes.Status402PaymentRequired)
+                : Results.BadRequest(new { error = result.ErrorMessage });
         }
 
         return Results.Ok(new { settlementId = result.SettlementId });
     }
+
+    private static async Task<IResult> GetSettlementsAsync(
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var settlements = await mediator.Send(new GetSettlementsQuery(userId), cancellationToken);
+        return Results.Ok(settlements);
+    }
+
+    private static async Task<IResult> CancelSettlementAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var outcome = await mediator.Send(new CancelSettlementCommand(userId, id), cancellationToken);
+        return outcome switch
+        {
+            CancelSettlementOutcome.NotFound => Results.NotFound(),
+            CancelSettlementOutcome.InvalidState => Results.Conflict(new { error = "Only pending settlements can be cancelled.", code = "conflict" }),
+            _ => Results.NoContent()
+        };
+    }
+
+    private static async Task<IResult> GetPayoutMethodsAsync(
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var payoutMethods = await mediator.Send(new GetPayoutMethodsQuery(userId), cancellationToken);
+        return Results.Ok(payoutMethods);
+    }
+
+    private static async Task<IResult> DeletePayoutMethodAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var deleted = await mediator.Send(new DeletePayoutMethodCommand(userId, id), cancellationToken);
+        return deleted ? Results.NoContent() : Results.NotFound();
+    }
 }
 
-public sealed record TopUpRequest(decimal Amount, string StripePaymentMethodId);
-public sealed record SettlementRequest(decimal Amount, string Country, string BankAccountDetails);
\ No newline at end of file
+/// <summary>
+/// <see cref="StripePaymentMethodId"/> is either a card saved by an earlier
+/// top-up or one just tokenized by Stripe.js.
+/// </summary>
+public sealed record TopUpRequest(decimal Amount, string StripePaymentMethodId, bool SavePaymentMethod);
+
+public sealed record AutoRechargeRuleRequest(
+    bool Enabled,
+    decimal ThresholdAmount,
+    decimal RechargeAmount,
+    string? PaymentMethodId);
+
+/// <summary>
+/// Either <see cref="PayoutMethodId"/> or the <see cref="Country"/> and
+/// <see cref="BankAccountDetails"/> of a new account.
+/// </summary>
+public sealed record SettlementRequest(
+    decimal Amount,
+    Guid? PayoutMethodId,
+    string? Country,
+    string? BankAccountDetails,
+    bool SavePayoutMethod);
\ No newline at end of file
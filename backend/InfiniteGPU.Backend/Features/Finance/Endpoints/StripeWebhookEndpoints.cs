@@ -2,6 +2,7 @@ using Stripe;
 using Microsoft.EntityFrameworkCore;
 using InfiniteGPU.Backend.Data;
 using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Shared.Services;
 using TaskEntity = InfiniteGPU.Backend.Data.Entities.Task;
 
 namespace InfiniteGPU.Backend.Features.Finance.Endpoints;
@@ -20,6 +21,7 @@ public static class StripeWebhookEndpoints
         HttpContext httpContext,
         IConfiguration configuration,
         AppDbContext context,
+        TopUpService topUpService,
         ILogger<Program> logger)
     {
         var json = await new StreamReader(httpContext.Request.Body).ReadToEndAsync();
@@ -73,6 +75,11 @@ public static class StripeWebhookEndpoints
                     await HandlePayoutCanceled(stripeEvent, context, logger);
                     break;
 
+                case "payment_intent.succeeded":
+                case "payment_intent.payment_failed":
+                    await HandlePaymentIntentUpdated(stripeEvent, topUpService, logger);
+                    break;
+
                 case "account.updated":
                     await HandleAccountUpdated(stripeEvent, context, logger);
                     break;
@@ -104,9 +111,12 @@ public static class StripeWebhookEndpoints
             return;
         }
 
-        settlement.Status = SettlementStatus.Completed;
-        settlement.CompletedAtUtc = DateTime.UtcNow;
-        settlement.UpdatedAtUtc = DateTime.UtcNow;
+        if (settlement.Status == SettlementStatus.Completed)
+        {
+            return;
+        }
+
+        SettlementPayoutService.RecordTransition(context, settlement, SettlementStatus.Completed, null);
 
         await context.SaveChangesAsync();
 
@@ -129,16 +139,13 @@ public static class StripeWebhookEndpoints
             return;
         }
 
-        // Refund user balance if not already done
+        // Refund and record the failure once; Stripe may deliver the event again
         if (settlement.Status != SettlementStatus.Failed)
         {
             settlement.User.Balance += settlement.Amount;
+            SettlementPayoutService.RecordTransition(context, settlement, SettlementStatus.Failed, payout.FailureMessage ?? "Payout failed");
         }
 
-        settlement.Status = SettlementStatus.Failed;
-        settlement.FailureReason = payout.FailureMessage ?? "Payout failed";
-        settlement.UpdatedAtUtc = DateTime.UtcNow;
-
         await context.SaveChangesAsync();
 
         logger.LogWarning(
@@ -160,16 +167,13 @@ public static class StripeWebhookEndpoints
             return;
         }
 
-        // Refund user balance if not already done
+        // Refund and record the failure once; Stripe may deliver the event again
         if (settlement.Status != SettlementStatus.Failed)
         {
             settlement.User.Balance += settlement.Amount;
+            SettlementPayoutService.RecordTransition(context, settlement, SettlementStatus.Failed, "Payout canceled");
         }
 
-        settlement.Status = SettlementStatus.Failed;
-        settlement.FailureReason = "Payout canceled";
-        settlement.UpdatedAtUtc = DateTime.UtcNow;
-
         await context.SaveChangesAsync();
 
         logger.LogWarning(
@@ -177,6 +181,22 @@ public static class StripeWebhookEndpoints
             settlement.Id, payout.Id);
     }
 
+    private static async System.Threading.Tasks.Task HandlePaymentIntentUpdated(Event stripeEvent, TopUpService topUpService, ILogger logger)
+    {
+        var paymentIntent = (PaymentIntent)stripeEvent.Data.Object;
+
+        if (!paymentIntent.Metadata.TryGetValue("type", out var type) || type != TopUpService.TopUpMetadataType)
+        {
+            return;
+        }
+
+        // Credits the balance when the dialog never came back to confirm
+        if (!await topUpService.SyncFromStripeAsync(paymentIntent, CancellationToken.None))
+        {
+            logger.LogWarning("Top-up not found for payment intent: {PaymentIntentId}", paymentIntent.Id);
+        }
+    }
+
     private static async System.Threading.Tasks.Task HandleAccountUpdated(Event stripeEvent, AppDbContext context, ILogger logger)
     {
         var account = (Account)stripeEvent.Data.Object;
@@ -0,0 +1,51 @@
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Features.Finance.Commands;
+using InfiniteGPU.Backend.Shared.Services;
+using MediatR;
+using Microsoft.EntityFrameworkCore;
+
+namespace InfiniteGPU.Backend.Features.Finance.Handlers;
+
+/// <summary>
+/// Pending settlements never left the balance, so cancelling only closes the
+/// request and frees the amount for a new one.
+/// </summary>
+public sealed class CancelSettlementCommandHandler : IRequestHandler<CancelSettlementCommand, CancelSettlementOutcome>
+{
+    private readonly AppDbContext _context;
+    private readonly ILogger<CancelSettlementCommandHandler> _logger;
+
+    public CancelSettlementCommandHandler(
+        AppDbContext context,
+        ILogger<CancelSettlementCommandHandler> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    public async Task<CancelSettlementOutcome> Handle(CancelSettlementCommand request, CancellationToken cancellationToken)
+    {
+        var settlement = await _context.Settlements
+            .FirstOrDefaultAsync(s => s.Id == request.SettlementId && s.UserId == request.UserId, cancellationToken);
+
+        if (settlement == null)
+        {
+            return CancelSettlementOutcome.NotFound;
+        }
+
+        if (settlement.Status != SettlementStatus.Pending)
+        {
+            return CancelSettlementOutcome.InvalidState;
+        }
+
+        SettlementPayoutService.RecordTransition(_context, settlement, SettlementStatus.Cancelled, "Cancelled by the provider");
+        await _context.SaveChangesAsync(cancellationToken);
+
+        _logger.LogInformation(
+            "Settlement {SettlementId} cancelled by user {UserId}",
+            settlement.Id, request.UserId);
+
+        return CancelSettlementOutcome.Cancelled;
+    }
+}
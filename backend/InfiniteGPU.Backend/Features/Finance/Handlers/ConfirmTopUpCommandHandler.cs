@@ -0,0 +1,21 @@
+using InfiniteGPU.Backend.Features.Finance.Commands;
+using InfiniteGPU.Backend.Features.Finance.Models;
+using InfiniteGPU.Backend.Shared.Services;
+using MediatR;
+
+namespace InfiniteGPU.Backend.Features.Finance.Handlers;
+
+public sealed class ConfirmTopUpCommandHandler : IRequestHandler<ConfirmTopUpCommand, TopUpResultDto?>
+{
+    private readonly TopUpService _topUpService;
+
+    public ConfirmTopUpCommandHandler(TopUpService topUpService)
+    {
+        _topUpService = topUpService;
+    }
+
+    public Task<TopUpResultDto?> Handle(ConfirmTopUpCommand request, CancellationToken cancellationToken)
+    {
+        return _topUpService.ConfirmAsync(request.UserId, request.PaymentId, cancellationToken);
+    }
+}
@@ -0,0 +1,20 @@
+using InfiniteGPU.Backend.Features.Finance.Commands;
+using InfiniteGPU.Backend.Shared.Services;
+using MediatR;
+
+namespace InfiniteGPU.Backend.Features.Finance.Handlers;
+
+public sealed class DeletePaymentMethodCommandHandler : IRequestHandler<DeletePaymentMethodCommand, bool>
+{
+    private readonly TopUpService _topUpService;
+
+    public DeletePaymentMethodCommandHandler(TopUpService topUpService)
+    {
+        _topUpService = topUpService;
+    }
+
+    public Task<bool> Handle(DeletePaymentMethodCommand request, CancellationToken cancellationToken)
+    {
+        return _topUpService.DetachPaymentMethodAsync(request.UserId, request.PaymentMethodId, cancellationToken);
+    }
+}
@@ -0,0 +1,35 @@
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Features.Finance.Commands;
+using MediatR;
+using Microsoft.EntityFrameworkCore;
+
+namespace InfiniteGPU.Backend.Features.Finance.Handlers;
+
+public sealed class DeletePayoutMethodCommandHandler : IRequestHandler<DeletePayoutMethodCommand, bool>
+{
+    private readonly AppDbContext _context;
+
+    public DeletePayoutMethodCommandHandler(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<bool> Handle(DeletePayoutMethodCommand request, CancellationToken cancellationToken)
+    {
+        var payoutMethod = await _context.PayoutMethods
+            .FirstOrDefaultAsync(
+                m => m.Id == request.PayoutMethodId && m.UserId == request.UserId && m.DeletedAtUtc == null,
+                cancellationToken);
+
+        if (payoutMethod == null)
+        {
+            return false;
+        }
+
+        // Kept for the history of settlements already paid to it
+        payoutMethod.DeletedAtUtc = DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return true;
+    }
+}
@@ -0,0 +1,35 @@
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Features.Finance.Models;
+using InfiniteGPU.Backend.Features.Finance.Queries;
+using MediatR;
+using Microsoft.EntityFrameworkCore;
+
+namespace InfiniteGPU.Backend.Features.Finance.Handlers;
+
+public sealed class GetAutoRechargeRuleQueryHandler : IRequestHandler<GetAutoRechargeRuleQuery, AutoRechargeRuleDto>
+{
+    private readonly AppDbContext _context;
+
+    public GetAutoRechargeRuleQueryHandler(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<AutoRechargeRuleDto> Handle(GetAutoRechargeRuleQuery request, CancellationToken cancellationToken)
+    {
+        var rule = await _context.AutoRechargeRules
+            .AsNoTracking()
+            .Where(r => r.UserId == request.UserId)
+            .Select(r => new AutoRechargeRuleDto(
+                r.Enabled,
+                r.ThresholdAmount,
+                r.RechargeAmount,
+                r.PaymentMethodId,
+                r.LastTriggeredAtUtc,
+                r.LastFailureReason))
+            .FirstOrDefaultAsync(cancellationToken);
+
+        // Users who never set a rule get a disabled one
+        return rule ?? new AutoRechargeRuleDto(false, 0m, 0m, null, null, null);
+    }
+}
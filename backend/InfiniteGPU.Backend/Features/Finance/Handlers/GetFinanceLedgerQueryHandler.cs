@@ -0,0 +1,73 @@
+using InfiniteGPU.Backend.Features.Finance.Models;
+using InfiniteGPU.Backend.Features.Finance.Queries;
+using InfiniteGPU.Backend.Shared.Services;
+using MediatR;
+
+namespace InfiniteGPU.Backend.Features.Finance.Handlers;
+
+public sealed class GetFinanceLedgerQueryHandler : IRequestHandler<GetFinanceLedgerQuery, FinanceLedgerPageDto>
+{
+    private readonly FinanceLedgerService _ledgerService;
+
+    public GetFinanceLedgerQueryHandler(FinanceLedgerService ledgerService)
+    {
+        _ledgerService = ledgerService;
+    }
+
+    public async Task<FinanceLedgerPageDto> Handle(GetFinanceLedgerQuery request, CancellationToken cancellationToken)
+    {
+        var ledger = await _ledgerService.LoadAsync(request.UserId, cancellationToken);
+
+        var sources = ledger.Entries
+            .Select(entry => entry.Source)
+            .Distinct(StringComparer.Ordinal)
+            .Order(StringComparer.Ordinal)
+            .ToList();
+
+        IEnumerable<FinanceLedgerEntryDto> entries = ledger.Entries;
+
+        if (request.From.HasValue)
+        {
+            var fromUtc = request.From.Value.ToDateTime(TimeOnly.MinValue, DateTimeKind.Utc);
+            entries = entries.Where(entry => entry.OccurredAtUtc >= fromUtc);
+        }
+
+        if (request.To.HasValue)
+        {
+            var toExclusiveUtc = request.To.Value.AddDays(1).ToDateTime(TimeOnly.MinValue, DateTimeKind.Utc);
+            entries = entries.Where(entry => entry.OccurredAtUtc < toExclusiveUtc);
+        }
+
+        if (request.Kind.HasValue)
+        {
+            entries = entries.Where(entry => entry.Kind == request.Kind.Value);
+        }
+
+        if (!string.IsNullOrWhiteSpace(request.Source))
+        {
+            entries = entries.Where(entry => string.Equals(entry.Source, request.Source, StringComparison.OrdinalIgnoreCase));
+        }
+
+        if (request.TaskId.HasValue)
+        {
+            entries = entries.Where(entry => entry.TaskId == request.TaskId.Value);
+        }
+
+        if (!string.IsNullOrWhiteSpace(request.Search))
+        {
+            var search = request.Search.Trim();
+            entries = entries.Where(entry =>
+                entry.Title.Contains(search, StringComparison.OrdinalIgnoreCase)
+                || (entry.Detail?.Contains(search, StringComparison.OrdinalIgnoreCase) ?? false)
+                || entry.EntryId.Contains(search, StringComparison.OrdinalIgnoreCase));
+        }
+
+        var matching = entries.Reverse().ToList();
+        var page = matching
+            .Skip((request.Page - 1) * request.PageSize)
+            .Take(request.PageSize)
+            .ToList();
+
+        return new FinanceLedgerPageDto(page, request.Page, request.PageSize, matching.Count, sources);
+    }
+}
@@ -0,0 +1,47 @@
+using System.Globalization;
+using InfiniteGPU.Backend.Features.Finance.Models;
+using InfiniteGPU.Backend.Features.Finance.Queries;
+using InfiniteGPU.Backend.Shared.Services;
+using MediatR;
+
+namespace InfiniteGPU.Backend.Features.Finance.Handlers;
+
+public sealed class GetFinanceStatementQueryHandler : IRequestHandler<GetFinanceStatementQuery, FinanceStatementDto>
+{
+    private readonly FinanceLedgerService _ledgerService;
+
+    public GetFinanceStatementQueryHandler(FinanceLedgerService ledgerService)
+    {
+        _ledgerService = ledgerService;
+    }
+
+    public async Task<FinanceStatementDto> Handle(GetFinanceStatementQuery request, CancellationToken cancellationToken)
+    {
+        var periodStart = DateTime.SpecifyKind(
+            DateTime.ParseExact(request.Month, "yyyy-MM", CultureInfo.InvariantCulture),
+            DateTimeKind.Utc);
+        var nextPeriodStart = periodStart.AddMonths(1);
+
+        var ledger = await _ledgerService.LoadAsync(request.UserId, cancellationToken);
+
+        var openingBalance = ledger.Entries
+            .LastOrDefault(entry => entry.OccurredAtUtc < periodStart)?.BalanceAfter
+            ?? ledger.OpeningBalance;
+
+        var entries = ledger.Entries
+            .Where(entry => entry.OccurredAtUtc >= periodStart && entry.OccurredAtUtc < nextPeriodStart)
+            .ToList();
+
+        var closingBalance = entries.Count > 0 ? entries[^1].BalanceAfter : openingBalance;
+
+        return new FinanceStatementDto(
+            request.Month,
+            periodStart,
+            nextPeriodStart.AddTicks(-1),
+            openingBalance,
+            closingBalance,
+            entries.Where(entry => entry.Kind == FinanceLedgerEntryKind.Credit).Sum(entry => entry.Amount),
+            entries.Where(entry => entry.Kind == FinanceLedgerEntryKind.Debit).Sum(entry => entry.Amount),
+            entries);
+    }
+}
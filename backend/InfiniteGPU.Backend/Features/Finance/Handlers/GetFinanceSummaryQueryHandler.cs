@@ -1,9 +1,8 @@
-using InfiniteGPU.Backend.Data;
 using InfiniteGPU.Backend.Data.Entities;
 using InfiniteGPU.Backend.Features.Finance.Models;
 using InfiniteGPU.Backend.Features.Finance.Queries;
+using InfiniteGPU.Backend.Shared.Services;
 using MediatR;
-using Microsoft.EntityFrameworkCore;
 
 namespace InfiniteGPU.Backend.Features.Finance.Handlers;
 
@@ -11,11 +10,11 @@ public sealed class GetFinanceSummaryQueryHandler : IRequestHandler<GetFinanceSu
 {
     private static readonly TimeSpan LookbackWindow = TimeSpan.FromHours(24);
 
-    private readonly AppDbContext _context;
+    private readonly FinanceLedgerService _ledgerService;
 
-    public GetFinanceSummaryQueryHandler(AppDbContext context)
+    public GetFinanceSummaryQueryHandler(FinanceLedgerService ledgerService)
     {
-        _context = context;
+        _ledgerService = ledgerService;
     }
 
     public async Task<FinanceSummaryDto> Handle(GetFinanceSummaryQuery request, CancellationToken cancellationToken)
@@ -24,78 +23,11 @@ public sealed class GetFinanceSummaryQueryHandler : IRequestHandler<GetFinanceSu
         var now = DateTime.UtcNow;
         var since = now - LookbackWindow;
 
-        var user = await _context.Users
-            .AsNoTracking()
-            .Where(u => u.Id == userId)
-            .Select(u => new { u.Balance })
-            .FirstOrDefaultAsync(cancellationToken);
-
-        var userBalance = user?.Balance ?? 0m;
-
-        var creditProjections = await _context.Earnings
-            .AsNoTracking()
-            .Where(e => e.ProviderUserId == userId)
-            .Select(e => new EarningProjection(
-                e.Id,
-                e.TaskId,
-                e.Amount,
-                e.Status,
-                e.CreatedAtUtc,
-                e.UpdatedAtUtc,
-                e.PaidAtUtc))
-            .ToListAsync(cancellationToken);
-
-        var withdrawalProjections = await _context.Withdrawals
-            .AsNoTracking()
-            .Where(w => w.RequestorUserId == userId)
-            .Select(w => new WithdrawalProjection(
-                w.Id,
-                w.TaskId,
-                w.SubtaskId,
-                w.Amount,
-                w.Status,
-                w.CreatedAtUtc,
-                w.UpdatedAtUtc,
-                w.SettledAtUtc))
-            .ToListAsync(cancellationToken);
-
-        var settlementProjections = await _context.Settlements
-            .AsNoTracking()
-            .Where(s => s.UserId == userId)
-            .Select(s => new SettlementProjection(
-                s.Id,
-                s.Amount,
-                s.Status,
-                s.CreatedAtUtc,
-                s.UpdatedAtUtc,
-                s.CompletedAtUtc))
-            .ToListAsync(cancellationToken);
-
-        var paymentProjections = await _context.Payments
-            .AsNoTracking()
-            .Where(p => p.UserId == userId)
-            .Select(p => new PaymentProjection(
-                p.Id,
-                p.Amount,
-                p.Status,
-                p.CreatedAtUtc,
-                p.UpdatedAtUtc,
-                p.SettledAtUtc))
-            .ToListAsync(cancellationToken);
-
-        var relatedTaskIds = creditProjections.Select(c => c.TaskId)
-            .Concat(withdrawalProjections.Select(d => d.TaskId))
-            .Where(id => id != Guid.Empty)
-            .Distinct()
-            .ToArray();
-
-        var taskLookup = relatedTaskIds.Length == 0
-            ? new Dictionary<Guid, TaskSnapshot>()
-            : await _context.Tasks
-                .AsNoTracking()
-                .Where(t => relatedTaskIds.Contains(t.Id))
-                .Select(t => new TaskSnapshot(t.Id, t.OnnxModelBlobUri))
-                .ToDictionaryAsync(t => t.Id, cancellationToken);
+        var ledger = await _ledgerService.LoadAsync(userId, cancellationToken);
+        var creditProjections = ledger.Earnings;
+        var withdrawalProjections = ledger.Withdrawals;
+        var settlementProjections = ledger.Settlements;
+        var paymentProjections = ledger.Payments;
 
         var totalCredits = creditProjections.Sum(c => c.Amount) + paymentProjections.Sum(p => p.Amount);
         var totalDebits = withdrawalProjections.Sum(d => d.Amount) + settlementProjections.Sum(s => s.Amount);
@@ -105,26 +37,9 @@ public sealed class GetFinanceSummaryQueryHandler : IRequestHandler<GetFinanceSu
             + settlementProjections.Where(s => s.CreatedAtUtc >= since).Sum(s => s.Amount);
         var pendingBalance = creditProjections.Where(c => c.Status == EarningStatus.Pending).Sum(c => c.Amount);
 
-        var ledgerEntries = BuildLedgerEntries(creditProjections, withdrawalProjections, settlementProjections, paymentProjections, taskLookup);
-        var chronological = ledgerEntries
-            .OrderBy(entry => entry.OccurredAtUtc)
-            .ThenBy(entry => entry.EntryId, StringComparer.Ordinal)
-            .ToList();
-
-        var ledger = chronological
-            .OrderByDescending(entry => entry.OccurredAtUtc)
-            .ThenByDescending(entry => entry.EntryId, StringComparer.Ordinal)
+        var recentEntries = ledger.Entries
+            .Reverse()
             .Take(100)
-            .Select(entry => new FinanceLedgerEntryDto(
-                entry.EntryId,
-                entry.Kind,
-                entry.Title,
-                entry.Detail,
-                entry.Amount,
-                entry.OccurredAtUtc,
-                entry.BalanceAfter,
-                entry.TaskId,
-                entry.Source))
             .ToList();
 
         var nextPayout = SelectPayoutSnapshot(
@@ -140,7 +55,7 @@ public sealed class GetFinanceSummaryQueryHandler : IRequestHandler<GetFinanceSu
             ascending: false);
 
         return new FinanceSummaryDto(
-            Balance: userBalance,
+            Balance: ledger.Balance,
             TotalCredits: totalCredits,
             TotalDebits: totalDebits,
             CreditsLast24Hours: creditsLast24h,
@@ -149,95 +64,13 @@ public sealed class GetFinanceSummaryQueryHandler : IRequestHandler<GetFinanceSu
             NextPayout: nextPayout,
             PreviousPayout: previousPayout,
             GeneratedAtUtc: now,
-            LedgerEntries: ledger);
-    }
-
-    private static List<LedgerProjection> BuildLedgerEntries(
-        IEnumerable<EarningProjection> credits,
-        IEnumerable<WithdrawalProjection> withdrawals,
-        IEnumerable<SettlementProjection> settlements,
-        IEnumerable<PaymentProjection> payments,
-        IReadOnlyDictionary<Guid, TaskSnapshot> taskLookup)
-    {
-        var result = new List<LedgerProjection>();
-
-        foreach (var credit in credits)
-        {
-            var occurredAt = credit.PaidAtUtc ?? credit.UpdatedAtUtc ?? credit.CreatedAtUtc;
-            taskLookup.TryGetValue(credit.TaskId, out var taskSnapshot);
-
-            result.Add(new LedgerProjection
-            {
-                EntryId = credit.Id.ToString(),
-                Kind = FinanceLedgerEntryKind.Credit,
-                Title = $"Earning for task {credit.TaskId:N}",
-                Detail = taskSnapshot?.ModelUrl,
-                Amount = credit.Amount,
-                OccurredAtUtc = occurredAt,
-                TaskId = credit.TaskId,
-                Source = "escrow"
-            });
-        }
-
-        foreach (var withdrawal in withdrawals)
-        {
-            var occurredAt = withdrawal.SettledAtUtc ?? withdrawal.UpdatedAtUtc ?? withdrawal.CreatedAtUtc;
-            taskLookup.TryGetValue(withdrawal.TaskId, out var taskSnapshot);
-
-            result.Add(new LedgerProjection
-            {
-                EntryId = withdrawal.Id.ToString(),
-                Kind = FinanceLedgerEntryKind.Debit,
-                Title = $"Charge for subtask {withdrawal.SubtaskId:N}",
-                Detail = taskSnapshot?.ModelUrl,
-                Amount = withdrawal.Amount,
-                OccurredAtUtc = occurredAt,
-                TaskId = withdrawal.TaskId,
-                Source = "escrow"
-            });
-        }
-
-        foreach (var settlement in settlements)
-        {
-            var occurredAt = settlement.CompletedAtUtc ?? settlement.UpdatedAtUtc ?? settlement.CreatedAtUtc;
-
-            result.Add(new LedgerProjection
-            {
-                EntryId = settlement.Id.ToString(),
-                Kind = FinanceLedgerEntryKind.Debit,
-                Title = "Settlement payout",
-                Detail = $"Bank transfer ({settlement.Status})",
-                Amount = settlement.Amount,
-                OccurredAtUtc = occurredAt,
-                TaskId = null,
-                Source = "settlement"
-            });
-        }
-
-        foreach (var payment in payments)
-        {
-            var occurredAt = payment.SettledAtUtc ?? payment.UpdatedAtUtc ?? payment.CreatedAtUtc;
-
-            result.Add(new LedgerProjection
-            {
-                EntryId = payment.Id.ToString(),
-                Kind = FinanceLedgerEntryKind.Credit,
-                Title = "Account top-up",
-                Detail = $"Payment ({payment.Status})",
-                Amount = payment.Amount,
-                OccurredAtUtc = occurredAt,
-                TaskId = null,
-                Source = "topup"
-            });
-        }
-
-        return result;
+            LedgerEntries: recentEntries);
     }
 
     private static FinancePayoutSnapshotDto? SelectPayoutSnapshot(
-        IEnumerable<SettlementProjection> entries,
+        IEnumerable<FinanceLedgerService.SettlementProjection> entries,
         SettlementStatus status,
-        Func<IGrouping<string, SettlementProjection>, DateTime?> orderingSelector,
+        Func<IGrouping<string, FinanceLedgerService.SettlementProjection>, DateTime?> orderingSelector,
         bool ascending)
     {
         var groups = entries
@@ -271,62 +104,4 @@ public sealed class GetFinanceSummaryQueryHandler : IRequestHandler<GetFinanceSu
             selectedGroup.Count(),
             status);
     }
-
-    private sealed record EarningProjection(
-        Guid Id,
-        Guid TaskId,
-        decimal Amount,
-        EarningStatus Status,
-        DateTime CreatedAtUtc,
-        DateTime? UpdatedAtUtc,
-        DateTime? PaidAtUtc);
-
-    private sealed record WithdrawalProjection(
-        Guid Id,
-        Guid TaskId,
-        Guid SubtaskId,
-        decimal Amount,
-        WithdrawalStatus Status,
-        DateTime CreatedAtUtc,
-        DateTime? UpdatedAtUtc,
-        DateTime? SettledAtUtc);
-
-    private sealed record SettlementProjection(
-        Guid Id,
-        decimal Amount,
-        SettlementStatus Status,
-        DateTime CreatedAtUtc,
-        DateTime? UpdatedAtUtc,
-        DateTime? CompletedAtUtc);
-
-    private sealed record PaymentProjection(
-        Guid Id,
-        decimal Amount,
-        PaymentStatus Status,
-        DateTime CreatedAtUtc,
-        DateTime? UpdatedAtUtc,
-        DateTime? SettledAtUtc);
-
-    private sealed record TaskSnapshot(Guid Id, string? ModelUrl);
-
-    private sealed class LedgerProjection
-    {
-        public required string EntryId { get; init; }
-
-        public required FinanceLedgerEntryKind Kind { get; init; }
-
-        public required string Title { get; init; }
-
-        public string? Detail { get; init; }
-
-        public required decimal Amount { get; init; }
-
-        public required DateTime OccurredAtUtc { get; init; }
-
-        public Guid? TaskId { get; init; }
-
-        public required string Source { get; init; }
-
-        public decimal BalanceAfter { get; set; }
-    }
 }
@@ -0,0 +1,21 @@
+using InfiniteGPU.Backend.Features.Finance.Models;
+using InfiniteGPU.Backend.Features.Finance.Queries;
+using InfiniteGPU.Backend.Shared.Services;
+using MediatR;
+
+namespace InfiniteGPU.Backend.Features.Finance.Handlers;
+
+public sealed class GetPaymentMethodsQueryHandler : IRequestHandler<GetPaymentMethodsQuery, IReadOnlyList<PaymentMethodDto>>
+{
+    private readonly TopUpService _topUpService;
+
+    public GetPaymentMethodsQueryHandler(TopUpService topUpService)
+    {
+        _topUpService = topUpService;
+    }
+
+    public Task<IReadOnlyList<PaymentMethodDto>> Handle(GetPaymentMethodsQuery request, CancellationToken cancellationToken)
+    {
+        return _topUpService.ListPaymentMethodsAsync(request.UserId, cancellationToken);
+    }
+}
@@ -0,0 +1,35 @@
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Features.Finance.Models;
+using InfiniteGPU.Backend.Features.Finance.Queries;
+using MediatR;
+using Microsoft.EntityFrameworkCore;
+
+namespace InfiniteGPU.Backend.Features.Finance.Handlers;
+
+public sealed class GetPayoutMethodsQueryHandler : IRequestHandler<GetPayoutMethodsQuery, IReadOnlyList<PayoutMethodDto>>
+{
+    private readonly AppDbContext _context;
+
+    public GetPayoutMethodsQueryHandler(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<IReadOnlyList<PayoutMethodDto>> Handle(GetPayoutMethodsQuery request, CancellationToken cancellationToken)
+    {
+        return await _context.PayoutMethods
+            .AsNoTracking()
+            .Where(m => m.UserId == request.UserId && m.DeletedAtUtc == null)
+            .OrderByDescending(m => m.CreatedAtUtc)
+            .Select(m => new PayoutMethodDto(
+                m.Id,
+                m.Kind,
+                m.Country,
+                m.BankName,
+                m.AccountHolderName,
+                m.MaskedAccount,
+                m.Bic,
+                m.CreatedAtUtc))
+            .ToListAsync(cancellationToken);
+    }
+}
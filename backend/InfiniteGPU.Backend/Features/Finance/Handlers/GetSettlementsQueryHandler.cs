@@ -0,0 +1,48 @@
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Features.Finance.Models;
+using InfiniteGPU.Backend.Features.Finance.Queries;
+using MediatR;
+using Microsoft.EntityFrameworkCore;
+
+namespace InfiniteGPU.Backend.Features.Finance.Handlers;
+
+public sealed class GetSettlementsQueryHandler : IRequestHandler<GetSettlementsQuery, IReadOnlyList<SettlementDto>>
+{
+    private readonly AppDbContext _context;
+
+    public GetSettlementsQueryHandler(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<IReadOnlyList<SettlementDto>> Handle(GetSettlementsQuery request, CancellationToken cancellationToken)
+    {
+        return await _context.Settlements
+            .AsNoTracking()
+            .Where(s => s.UserId == request.UserId)
+            .OrderByDescending(s => s.CreatedAtUtc)
+            .Select(s => new SettlementDto(
+                s.Id,
+                "settlement:" + s.Id,
+                s.Amount,
+                s.Status,
+                s.CreatedAtUtc,
+                s.FailureReason,
+                s.PayoutMethod == null
+                    ? null
+                    : new PayoutMethodDto(
+                        s.PayoutMethod.Id,
+                        s.PayoutMethod.Kind,
+                        s.PayoutMethod.Country,
+                        s.PayoutMethod.BankName,
+                        s.PayoutMethod.AccountHolderName,
+                        s.PayoutMethod.MaskedAccount,
+                        s.PayoutMethod.Bic,
+                        s.PayoutMethod.CreatedAtUtc),
+                s.Transitions
+                    .OrderBy(t => t.OccurredAtUtc)
+                    .Select(t => new SettlementStatusTransitionDto(t.Status, t.OccurredAtUtc, t.Reason))
+                    .ToList()))
+            .ToListAsync(cancellationToken);
+    }
+}
@@ -0,0 +1,40 @@
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Features.Finance.Models;
+using InfiniteGPU.Backend.Features.Finance.Queries;
+using InfiniteGPU.Backend.Shared.Services;
+using MediatR;
+using Microsoft.EntityFrameworkCore;
+
+namespace InfiniteGPU.Backend.Features.Finance.Handlers;
+
+public sealed class GetTopUpsQueryHandler : IRequestHandler<GetTopUpsQuery, IReadOnlyList<TopUpDto>>
+{
+    private readonly AppDbContext _context;
+
+    public GetTopUpsQueryHandler(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<IReadOnlyList<TopUpDto>> Handle(GetTopUpsQuery request, CancellationToken cancellationToken)
+    {
+        var payments = await _context.Payments
+            .AsNoTracking()
+            .Where(p => p.UserId == request.UserId)
+            .OrderByDescending(p => p.CreatedAtUtc)
+            .ToListAsync(cancellationToken);
+
+        return payments
+            .Select(p => new TopUpDto(
+                p.Id,
+                p.InvoiceNumber,
+                p.Amount,
+                TopUpService.ToTopUpStatus(p.Status),
+                p.CreatedAtUtc,
+                p.CardBrand,
+                p.CardLast4,
+                p.IsAutoRecharge,
+                p.ReceiptUrl))
+            .ToList();
+    }
+}
@@ -0,0 +1,66 @@
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Features.Finance.Commands;
+using InfiniteGPU.Backend.Features.Finance.Models;
+using InfiniteGPU.Backend.Shared.Services;
+using MediatR;
+using Microsoft.EntityFrameworkCore;
+
+namespace InfiniteGPU.Backend.Features.Finance.Handlers;
+
+public sealed class UpdateAutoRechargeRuleCommandHandler : IRequestHandler<UpdateAutoRechargeRuleCommand, UpdateAutoRechargeRuleResult>
+{
+    private readonly AppDbContext _context;
+    private readonly TopUpService _topUpService;
+
+    public UpdateAutoRechargeRuleCommandHandler(AppDbContext context, TopUpService topUpService)
+    {
+        _context = context;
+        _topUpService = topUpService;
+    }
+
+    public async Task<UpdateAutoRechargeRuleResult> Handle(UpdateAutoRechargeRuleCommand request, CancellationToken cancellationToken)
+    {
+        var paymentMethodId = string.IsNullOrWhiteSpace(request.PaymentMethodId) ? null : request.PaymentMethodId;
+
+        if (paymentMethodId is not null
+            && !await _topUpService.IsSavedPaymentMethodAsync(request.UserId, paymentMethodId, cancellationToken))
+        {
+            return new UpdateAutoRechargeRuleResult(false, null, "The card is not saved on this account");
+        }
+
+        var rule = await _context.AutoRechargeRules
+            .FirstOrDefaultAsync(r => r.UserId == request.UserId, cancellationToken);
+
+        if (rule is null)
+        {
+            rule = new AutoRechargeRule { UserId = request.UserId };
+            _context.AutoRechargeRules.Add(rule);
+        }
+
+        // The previous card's decline no longer applies to a new one
+        if (rule.PaymentMethodId != paymentMethodId)
+        {
+            rule.LastFailureReason = null;
+        }
+
+        rule.Enabled = request.Enabled;
+        rule.ThresholdAmount = request.ThresholdAmount;
+        rule.RechargeAmount = request.RechargeAmount;
+        rule.PaymentMethodId = paymentMethodId;
+        rule.UpdatedAtUtc = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return new UpdateAutoRechargeRuleResult(
+            true,
+            new AutoRechargeRuleDto(
+                rule.Enabled,
+                rule.ThresholdAmount,
+                rule.RechargeAmount,
+                rule.PaymentMethodId,
+                rule.LastTriggeredAtUtc,
+                rule.LastFailureReason),
+            null);
+    }
+}
@@ -0,0 +1,9 @@
+namespace InfiniteGPU.Backend.Features.Finance.Models;
+
+public sealed record AutoRechargeRuleDto(
+    bool Enabled,
+    decimal ThresholdAmount,
+    decimal RechargeAmount,
+    string? PaymentMethodId,
+    DateTime? LastTriggeredAtUtc,
+    string? LastFailureReason);
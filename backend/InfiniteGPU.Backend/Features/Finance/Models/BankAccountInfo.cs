@@ -0,0 +1,28 @@
+namespace InfiniteGPU.Backend.Features.Finance.Models;
+
+/// <summary>
+/// Bank account a settlement is paid to, stored as JSON on the settlement.
+/// </summary>
+public sealed class BankAccountInfo
+{
+    public string BankName { get; set; } = string.Empty;
+    public string AccountHolderName { get; set; } = string.Empty;
+    
+    // US ACH fields; UK, Canadian and Australian accounts use AccountNumber too
+    public string? AccountNumber { get; set; }
+    public string? RoutingNumber { get; set; }
+    
+    // SEPA fields (EU, EEA and Switzerland)
+    public string? Iban { get; set; }
+    public string? Bic { get; set; }
+
+    // UK Faster Payments
+    public string? SortCode { get; set; }
+
+    // Canadian EFT
+    public string? TransitNumber { get; set; }
+    public string? InstitutionNumber { get; set; }
+
+    // Australian BECS
+    public string? Bsb { get; set; }
+}
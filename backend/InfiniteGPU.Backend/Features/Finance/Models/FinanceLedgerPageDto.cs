@@ -0,0 +1,8 @@
+namespace InfiniteGPU.Backend.Features.Finance.Models;
+
+public sealed record FinanceLedgerPageDto(
+    IReadOnlyList<FinanceLedgerEntryDto> Entries,
+    int Page,
+    int PageSize,
+    int TotalCount,
+    IReadOnlyList<string> Sources);
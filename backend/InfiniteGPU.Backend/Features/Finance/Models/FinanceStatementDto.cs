@@ -0,0 +1,11 @@
+namespace InfiniteGPU.Backend.Features.Finance.Models;
+
+public sealed record FinanceStatementDto(
+    string Month,
+    DateTime PeriodStartUtc,
+    DateTime PeriodEndUtc,
+    decimal OpeningBalance,
+    decimal ClosingBalance,
+    decimal TotalCredits,
+    decimal TotalDebits,
+    IReadOnlyList<FinanceLedgerEntryDto> Entries);
@@ -0,0 +1,12 @@
+namespace InfiniteGPU.Backend.Features.Finance.Models;
+
+/// <summary>
+/// A card saved on the user's Stripe customer; only the brand and last digits are exposed.
+/// </summary>
+public sealed record PaymentMethodDto(
+    string PaymentMethodId,
+    string Brand,
+    string Last4,
+    long ExpMonth,
+    long ExpYear,
+    DateTime CreatedAtUtc);
@@ -0,0 +1,13 @@
+using InfiniteGPU.Backend.Data.Entities;
+
+namespace InfiniteGPU.Backend.Features.Finance.Models;
+
+public sealed record PayoutMethodDto(
+    Guid PayoutMethodId,
+    PayoutMethodKind Kind,
+    string Country,
+    string BankName,
+    string AccountHolderName,
+    string MaskedAccount,
+    string? Bic,
+    DateTime CreatedAtUtc);
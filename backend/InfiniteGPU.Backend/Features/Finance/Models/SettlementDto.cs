@@ -0,0 +1,18 @@
+using InfiniteGPU.Backend.Data.Entities;
+
+namespace InfiniteGPU.Backend.Features.Finance.Models;
+
+public sealed record SettlementDto(
+    Guid SettlementId,
+    string Reference,
+    decimal Amount,
+    SettlementStatus Status,
+    DateTime RequestedAtUtc,
+    string? FailureReason,
+    PayoutMethodDto? PayoutMethod,
+    IReadOnlyList<SettlementStatusTransitionDto> Transitions);
+
+public sealed record SettlementStatusTransitionDto(
+    SettlementStatus Status,
+    DateTime OccurredAtUtc,
+    string? Reason);
@@ -0,0 +1,39 @@
+namespace InfiniteGPU.Backend.Features.Finance.Models;
+
+public enum TopUpStatus
+{
+    Succeeded = 0,
+    Pending = 1,
+    Failed = 2,
+    Refunded = 3
+}
+
+/// <summary>
+/// Outcome of charging a top-up. <see cref="TopUpResultStatus.RequiresAction"/>
+/// means the bank asked for a 3-D Secure challenge.
+/// </summary>
+public enum TopUpResultStatus
+{
+    Succeeded = 0,
+    RequiresAction = 1,
+    Pending = 2,
+    Failed = 3
+}
+
+public sealed record TopUpDto(
+    Guid PaymentId,
+    string InvoiceNumber,
+    decimal Amount,
+    TopUpStatus Status,
+    DateTime CreatedAtUtc,
+    string? CardBrand,
+    string? CardLast4,
+    bool IsAutoRecharge,
+    string? ReceiptUrl);
+
+/// <param name="ClientSecret">PaymentIntent client secret, set only while <see cref="TopUpResultStatus.RequiresAction"/>.</param>
+public sealed record TopUpResultDto(
+    Guid PaymentId,
+    TopUpResultStatus Status,
+    string? ClientSecret,
+    string? FailureReason);
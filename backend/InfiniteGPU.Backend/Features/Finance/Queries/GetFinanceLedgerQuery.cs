@@ -0,0 +1,19 @@
+using MediatR;
+using InfiniteGPU.Backend.Features.Finance.Models;
+
+namespace InfiniteGPU.Backend.Features.Finance.Queries;
+
+/// <summary>
+/// One page of the user's ledger, newest first. <see cref="From"/> and
+/// <see cref="To"/> are inclusive UTC days.
+/// </summary>
+public sealed record GetFinanceLedgerQuery(
+    string UserId,
+    DateOnly? From,
+    DateOnly? To,
+    FinanceLedgerEntryKind? Kind,
+    string? Source,
+    Guid? TaskId,
+    string? Search,
+    int Page = 1,
+    int PageSize = 50) : IRequest<FinanceLedgerPageDto>;
@@ -0,0 +1,7 @@
+using MediatR;
+using InfiniteGPU.Backend.Features.Finance.Models;
+
+namespace InfiniteGPU.Backend.Features.Finance.Queries;
+
+/// <param name="Month">Calendar month as <c>YYYY-MM</c>, in UTC.</param>
+public sealed record GetFinanceStatementQuery(string UserId, string Month) : IRequest<FinanceStatementDto>;
@@ -0,0 +1,6 @@
+using MediatR;
+using InfiniteGPU.Backend.Features.Finance.Models;
+
+namespace InfiniteGPU.Backend.Features.Finance.Queries;
+
+public sealed record GetPaymentMethodsQuery(string UserId) : IRequest<IReadOnlyList<PaymentMethodDto>>;
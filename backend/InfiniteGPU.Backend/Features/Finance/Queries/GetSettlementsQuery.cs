@@ -0,0 +1,9 @@
+using MediatR;
+using InfiniteGPU.Backend.Features.Finance.Models;
+
+namespace InfiniteGPU.Backend.Features.Finance.Queries;
+
+/// <summary>
+/// The user's settlements, newest first, each with its status history.
+/// </summary>
+public sealed record GetSettlementsQuery(string UserId) : IRequest<IReadOnlyList<SettlementDto>>;
@@ -0,0 +1,52 @@
+using FluentValidation;
+using InfiniteGPU.Backend.Features.Finance.Commands;
+using InfiniteGPU.Backend.Shared.Services;
+
+namespace InfiniteGPU.Backend.Features.Finance.Validators;
+
+/// <summary>
+/// Checks a new bank account field by field, so the settlement dialog can
+/// flag the exact input that is wrong. Saved payout methods were checked
+/// when they were created.
+/// </summary>
+public class CreateSettlementCommandValidator : AbstractValidator<CreateSettlementCommand>
+{
+    public CreateSettlementCommandValidator()
+    {
+        RuleFor(x => x.Amount)
+            .GreaterThan(0);
+
+        When(x => x.PayoutMethodId is null, () =>
+        {
+            RuleFor(x => x.Country)
+                .NotEmpty()
+                .Must(country => SettlementPayoutService.ResolvePayoutRail(country) is not null)
+                .WithMessage("Payouts are not available for this country.");
+
+            RuleFor(x => x.BankAccountDetails)
+                .NotEmpty();
+
+            RuleFor(x => x)
+                .Custom((command, context) =>
+                {
+                    var rail = SettlementPayoutService.ResolvePayoutRail(command.Country);
+                    if (rail is null || string.IsNullOrWhiteSpace(command.BankAccountDetails))
+                    {
+                        return;
+                    }
+
+                    var bankInfo = SettlementPayoutService.ParseBankAccount(command.BankAccountDetails);
+                    if (bankInfo is null)
+                    {
+                        context.AddFailure(nameof(CreateSettlementCommand.BankAccountDetails), "Bank account details are not valid JSON.");
+                        return;
+                    }
+
+                    foreach (var (field, message) in BankAccountRules.Validate(rail.Kind, command.Country!, bankInfo))
+                    {
+                        context.AddFailure(field, message);
+                    }
+                });
+        });
+    }
+}
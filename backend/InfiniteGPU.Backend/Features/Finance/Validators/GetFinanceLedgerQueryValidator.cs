@@ -0,0 +1,31 @@
+using FluentValidation;
+using InfiniteGPU.Backend.Features.Finance.Queries;
+
+namespace InfiniteGPU.Backend.Features.Finance.Validators;
+
+public class GetFinanceLedgerQueryValidator : AbstractValidator<GetFinanceLedgerQuery>
+{
+    public GetFinanceLedgerQueryValidator()
+    {
+        RuleFor(x => x.Page)
+            .GreaterThanOrEqualTo(1).WithMessage("Page must be 1 or greater.");
+
+        RuleFor(x => x.PageSize)
+            .InclusiveBetween(1, 200).WithMessage("Page size must be between 1 and 200.");
+
+        RuleFor(x => x.Kind)
+            .IsInEnum().When(x => x.Kind.HasValue)
+            .WithMessage("Invalid entry kind.");
+
+        RuleFor(x => x.To)
+            .GreaterThanOrEqualTo(x => x.From!.Value)
+            .When(x => x.From.HasValue && x.To.HasValue)
+            .WithMessage("The end date must not be before the start date.");
+
+        RuleFor(x => x.Source)
+            .MaximumLength(50).WithMessage("Source is too long.");
+
+        RuleFor(x => x.Search)
+            .MaximumLength(200).WithMessage("Search text is too long.");
+    }
+}
@@ -0,0 +1,15 @@
+using System.Globalization;
+using FluentValidation;
+using InfiniteGPU.Backend.Features.Finance.Queries;
+
+namespace InfiniteGPU.Backend.Features.Finance.Validators;
+
+public class GetFinanceStatementQueryValidator : AbstractValidator<GetFinanceStatementQuery>
+{
+    public GetFinanceStatementQueryValidator()
+    {
+        RuleFor(x => x.Month)
+            .Must(month => DateTime.TryParseExact(month, "yyyy-MM", CultureInfo.InvariantCulture, DateTimeStyles.None, out _))
+            .WithMessage("Month must be formatted as YYYY-MM.");
+    }
+}
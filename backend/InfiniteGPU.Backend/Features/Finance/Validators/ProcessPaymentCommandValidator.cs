@@ -0,0 +1,16 @@
+using FluentValidation;
+using InfiniteGPU.Backend.Features.Finance.Commands;
+
+namespace InfiniteGPU.Backend.Features.Finance.Validators;
+
+public class ProcessPaymentCommandValidator : AbstractValidator<ProcessPaymentCommand>
+{
+    public ProcessPaymentCommandValidator()
+    {
+        RuleFor(x => x.Amount)
+            .GreaterThanOrEqualTo(1m);
+
+        RuleFor(x => x.StripePaymentMethodId)
+            .NotEmpty();
+    }
+}
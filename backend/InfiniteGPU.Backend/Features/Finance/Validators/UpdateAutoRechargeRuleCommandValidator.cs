@@ -0,0 +1,27 @@
+using FluentValidation;
+using InfiniteGPU.Backend.Features.Finance.Commands;
+
+namespace InfiniteGPU.Backend.Features.Finance.Validators;
+
+public class UpdateAutoRechargeRuleCommandValidator : AbstractValidator<UpdateAutoRechargeRuleCommand>
+{
+    public UpdateAutoRechargeRuleCommandValidator()
+    {
+        RuleFor(x => x.ThresholdAmount)
+            .GreaterThanOrEqualTo(0m);
+
+        RuleFor(x => x.RechargeAmount)
+            .GreaterThanOrEqualTo(0m);
+
+        When(x => x.Enabled, () =>
+        {
+            RuleFor(x => x.RechargeAmount)
+                .GreaterThanOrEqualTo(1m)
+                .WithMessage("Recharge amount must be at least 1.");
+
+            RuleFor(x => x.PaymentMethodId)
+                .NotEmpty()
+                .WithMessage("Choose the card to charge.");
+        });
+    }
+}
@@ -3,4 +3,4 @@ using MediatR;
 
 namespace InfiniteGPU.Backend.Features.Subtasks.Commands;
 
-public sealed record AcceptSubtaskCommand(Guid SubtaskId, string ProviderUserId, Guid DeviceId) : IRequest<SubtaskDto?>;
+public sealed record AcceptSubtaskCommand(Guid SubtaskId, string ProviderUserId, string DeviceIdentifier) : IRequest<SubtaskDto?>;
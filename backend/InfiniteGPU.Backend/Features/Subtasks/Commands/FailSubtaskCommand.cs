@@ -0,0 +1,6 @@
+using InfiniteGPU.Backend.Shared.Models;
+using MediatR;
+
+namespace InfiniteGPU.Backend.Features.Subtasks.Commands;
+
+public sealed record FailSubtaskCommand(Guid SubtaskId, string ProviderUserId, string FailureJson) : IRequest<SubtaskDto?>;
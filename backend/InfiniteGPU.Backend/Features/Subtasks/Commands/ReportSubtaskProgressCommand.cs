@@ -0,0 +1,9 @@
+using InfiniteGPU.Backend.Shared.Models;
+using MediatR;
+
+namespace InfiniteGPU.Backend.Features.Subtasks.Commands;
+
+/// <summary>
+/// Progress report or heartbeat for an executing subtask. A null progress only refreshes liveness.
+/// </summary>
+public sealed record ReportSubtaskProgressCommand(Guid SubtaskId, string ProviderUserId, int? Progress) : IRequest<SubtaskDto?>;
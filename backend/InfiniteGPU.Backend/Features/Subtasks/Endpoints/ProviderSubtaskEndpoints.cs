@@ -1,6 +1,7 @@
 using System.Security.Claims;
 using FluentValidation;
 using InfiniteGPU.Backend.Features.Subtasks.Commands;
+using InfiniteGPU.Backend.Features.Subtasks.Models;
 using InfiniteGPU.Backend.Features.Subtasks.Queries;
 using InfiniteGPU.Backend.Shared.Models;
 using MediatR;
@@ -18,16 +19,44 @@ public static class ProviderSubtaskEndpoints
 
         group.MapGet("/available", GetAvailableSubtasksAsync)
             .WithName("GetAvailableSubtasks")
+            .Produces<IReadOnlyList<SubtaskDto>>()
             .WithOpenApi();
 
         group.MapGet("/device", GetDeviceSubtasksAsync)
             .WithName("GetDeviceSubtasks")
+            .Produces<IReadOnlyList<SubtaskDto>>()
+            .WithOpenApi();
+
+        group.MapGet("/history", GetSubtaskHistoryAsync)
+            .WithName("GetSubtaskHistory")
+            .Produces<IReadOnlyList<ProviderSubtaskHistoryDto>>()
+            .WithOpenApi();
+
+        group.MapPost("/{id:guid}/accept", AcceptSubtaskAsync)
+            .WithName("AcceptSubtask")
+            .Produces<SubtaskDto>()
+            .Produces(StatusCodes.Status409Conflict)
             .WithOpenApi();
 
         group.MapPost("/{id:guid}/complete", CompleteSubtaskAsync)
             .WithName("CompleteSubtask")
             .WithOpenApi();
 
+        group.MapPost("/{id:guid}/progress", ReportProgressAsync)
+            .WithName("ReportSubtaskProgress")
+            .Produces<SubtaskDto>()
+            .WithOpenApi();
+
+        group.MapPost("/{id:guid}/heartbeat", RecordHeartbeatAsync)
+            .WithName("RecordSubtaskHeartbeat")
+            .Produces<SubtaskDto>()
+            .WithOpenApi();
+
+        group.MapPost("/{id:guid}/fail", FailSubtaskAsync)
+            .WithName("FailSubtask")
+            .Produces<SubtaskDto>()
+            .WithOpenApi();
+
         group.MapPost("/{id:guid}/environment", UpdateExecutionEnvironmentAsync)
             .WithName("UpdateSubtaskExecutionEnvironment")
             .WithOpenApi();
@@ -68,7 +97,58 @@ public static class ProviderSubtaskEndpoints
         var subtasks = await mediator.Send(new GetDeviceSubtasksQuery(userId, identifier), cancellationToken);
         return Results.Ok(subtasks);
     }
-    
+
+    private static async Task<IResult> GetSubtaskHistoryAsync(
+        [FromQuery] DateTime? since,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<GetSubtaskHistoryQuery> validator,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var query = new GetSubtaskHistoryQuery(userId, since ?? DateTime.UtcNow.AddDays(-30));
+        var validationResult = await validator.ValidateAsync(query, cancellationToken);
+        if (!validationResult.IsValid)
+        {
+            return Results.ValidationProblem(validationResult.ToDictionary());
+        }
+
+        var subtasks = await mediator.Send(query, cancellationToken);
+        return Results.Ok(subtasks);
+    }
+
+    private static async Task<IResult> AcceptSubtaskAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<AcceptSubtaskCommand> validator,
+        [FromBody] AcceptSubtaskRequest request,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var command = new AcceptSubtaskCommand(id, userId, request.DeviceIdentifier);
+        var validationResult = await validator.ValidateAsync(command, cancellationToken);
+        if (!validationResult.IsValid)
+        {
+            return Results.ValidationProblem(validationResult.ToDictionary());
+        }
+
+        var subtask = await mediator.Send(command, cancellationToken);
+        return subtask is null
+            ? Results.Conflict(new { error = "Subtask is no longer available.", code = "subtask_unavailable" })
+            : Results.Ok(subtask);
+    }
+
     private static async Task<IResult> CompleteSubtaskAsync(
         Guid id,
         ClaimsPrincipal principal,
@@ -92,7 +172,83 @@ public static class ProviderSubtaskEndpoints
 
         var subtask = await mediator.Send(command, cancellationToken);
         return subtask is null
-            ? Results.BadRequest("Unable to complete subtask.")
+            ? Results.Conflict(new { error = "Subtask is not executing on this provider.", code = "subtask_unavailable" })
+            : Results.Ok(subtask);
+    }
+
+    private static Task<IResult> ReportProgressAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<ReportSubtaskProgressCommand> validator,
+        [FromBody] ReportProgressRequest request,
+        CancellationToken cancellationToken)
+    {
+        return SendProgressAsync(id, request.Progress, principal, mediator, validator, cancellationToken);
+    }
+
+    private static Task<IResult> RecordHeartbeatAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<ReportSubtaskProgressCommand> validator,
+        [FromBody] HeartbeatRequest request,
+        CancellationToken cancellationToken)
+    {
+        return SendProgressAsync(id, request.Progress, principal, mediator, validator, cancellationToken);
+    }
+
+    private static async Task<IResult> SendProgressAsync(
+        Guid id,
+        int? progress,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<ReportSubtaskProgressCommand> validator,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var command = new ReportSubtaskProgressCommand(id, userId, progress);
+        var validationResult = await validator.ValidateAsync(command, cancellationToken);
+        if (!validationResult.IsValid)
+        {
+            return Results.ValidationProblem(validationResult.ToDictionary());
+        }
+
+        var subtask = await mediator.Send(command, cancellationToken);
+        return subtask is null
+            ? Results.Conflict(new { error = "Subtask is not executing on this provider.", code = "subtask_unavailable" })
+            : Results.Ok(subtask);
+    }
+
+    private static async Task<IResult> FailSubtaskAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<FailSubtaskCommand> validator,
+        [FromBody] FailSubtaskRequest request,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var command = new FailSubtaskCommand(id, userId, request.FailureJson);
+        var validationResult = await validator.ValidateAsync(command, cancellationToken);
+        if (!validationResult.IsValid)
+        {
+            return Results.ValidationProblem(validationResult.ToDictionary());
+        }
+
+        var subtask = await mediator.Send(command, cancellationToken);
+        return subtask is null
+            ? Results.Conflict(new { error = "Subtask is not executing on this provider.", code = "subtask_unavailable" })
             : Results.Ok(subtask);
     }
 
@@ -132,8 +288,16 @@ public static class ProviderSubtaskEndpoints
             : Results.Ok(subtask);
     }
 
+    private sealed record AcceptSubtaskRequest(string DeviceIdentifier);
+
     private sealed record CompleteSubtaskRequest(string ResultsJson);
 
+    private sealed record ReportProgressRequest(int Progress);
+
+    private sealed record HeartbeatRequest(int? Progress);
+
+    private sealed record FailSubtaskRequest(string FailureJson);
+
     private sealed record UpdateExecutionEnvironmentRequest(
         bool? OnnxModelReady,
         bool? WebGpuPreferred,
@@ -1,23 +1,29 @@
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Data.Entities;
 using InfiniteGPU.Backend.Features.Subtasks.Commands;
 using InfiniteGPU.Backend.Shared.Hubs;
 using InfiniteGPU.Backend.Shared.Models;
 using InfiniteGPU.Backend.Shared.Services;
 using MediatR;
 using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
 
 namespace InfiniteGPU.Backend.Features.Subtasks.Handlers;
 
 public sealed class AcceptSubtaskCommandHandler : IRequestHandler<AcceptSubtaskCommand, SubtaskDto?>
 {
+    private readonly AppDbContext _context;
     private readonly TaskAssignmentService _assignmentService;
     private readonly IHubContext<TaskHub> _hubContext;
     private readonly ILogger<AcceptSubtaskCommandHandler> _logger;
 
     public AcceptSubtaskCommandHandler(
+        AppDbContext context,
         TaskAssignmentService assignmentService,
         IHubContext<TaskHub> hubContext,
         ILogger<AcceptSubtaskCommandHandler> logger)
     {
+        _context = context;
         _assignmentService = assignmentService;
         _hubContext = hubContext;
         _logger = logger;
@@ -27,10 +33,12 @@ public sealed class AcceptSubtaskCommandHandler : IRequestHandler<AcceptSubtaskC
     {
         _logger.LogInformation("AcceptSubtaskCommand handling for subtask {SubtaskId} by provider {ProviderId}", request.SubtaskId, request.ProviderUserId);
 
+        var deviceId = await ResolveDeviceIdAsync(request.ProviderUserId, request.DeviceIdentifier, cancellationToken);
+
         var assignment = await _assignmentService.AcceptSubtaskAsync(
             request.SubtaskId,
             request.ProviderUserId,
-            request.DeviceId,
+            deviceId,
             cancellationToken);
         if (assignment is null)
         {
@@ -48,4 +56,33 @@ public sealed class AcceptSubtaskCommandHandler : IRequestHandler<AcceptSubtaskC
 
         return SubtaskMapping.CreateDto(subtask, isRequestorView: false);
     }
-}
\ No newline at end of file
+
+    // Devices are normally registered when they connect to the task hub; a
+    // device accepting over REST before its first hub connection is registered
+    // here as disconnected.
+    private async Task<Guid> ResolveDeviceIdAsync(
+        string providerUserId,
+        string deviceIdentifier,
+        CancellationToken cancellationToken)
+    {
+        var device = await _context.Devices
+            .FirstOrDefaultAsync(
+                d => d.ProviderUserId == providerUserId && d.DeviceIdentifier == deviceIdentifier,
+                cancellationToken);
+
+        if (device is null)
+        {
+            device = new Device
+            {
+                ProviderUserId = providerUserId,
+                DeviceIdentifier = deviceIdentifier,
+                LastSeenAtUtc = DateTime.UtcNow
+            };
+
+            _context.Devices.Add(device);
+            await _context.SaveChangesAsync(cancellationToken);
+        }
+
+        return device.Id;
+    }
+}
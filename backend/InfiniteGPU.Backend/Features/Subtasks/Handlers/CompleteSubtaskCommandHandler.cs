@@ -57,6 +57,11 @@ public sealed class CompleteSubtaskCommandHandler : IRequestHandler<CompleteSubt
             resultsPayload,
             cancellationToken);
 
+        if (completion.BudgetCapReached)
+        {
+            await TaskHub.OnTaskStatusChanged(_hubContext, subtask.Task, cancellationToken);
+        }
+
         await TaskHub.DispatchPendingSubtaskAsync(_hubContext, _assignmentService, cancellationToken);
 
         _logger.LogInformation(
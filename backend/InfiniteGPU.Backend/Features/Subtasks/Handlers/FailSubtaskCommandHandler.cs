@@ -0,0 +1,97 @@
+using System.Text.Json;
+using InfiniteGPU.Backend.Features.Subtasks.Commands;
+using InfiniteGPU.Backend.Shared.Hubs;
+using InfiniteGPU.Backend.Shared.Models;
+using InfiniteGPU.Backend.Shared.Services;
+using MediatR;
+using Microsoft.AspNetCore.SignalR;
+
+namespace InfiniteGPU.Backend.Features.Subtasks.Handlers;
+
+public sealed class FailSubtaskCommandHandler : IRequestHandler<FailSubtaskCommand, SubtaskDto?>
+{
+    private readonly TaskAssignmentService _assignmentService;
+    private readonly IHubContext<TaskHub> _hubContext;
+    private readonly ILogger<FailSubtaskCommandHandler> _logger;
+
+    public FailSubtaskCommandHandler(
+        TaskAssignmentService assignmentService,
+        IHubContext<TaskHub> hubContext,
+        ILogger<FailSubtaskCommandHandler> logger)
+    {
+        _assignmentService = assignmentService;
+        _hubContext = hubContext;
+        _logger = logger;
+    }
+
+    public async Task<SubtaskDto?> Handle(FailSubtaskCommand request, CancellationToken cancellationToken)
+    {
+        _logger.LogInformation(
+            "FailSubtaskCommand handling for subtask {SubtaskId} by provider {ProviderId}",
+            request.SubtaskId,
+            request.ProviderUserId);
+
+        var failure = await _assignmentService.FailSubtaskAsync(
+            request.SubtaskId,
+            request.ProviderUserId,
+            ExtractFailureReason(request.FailureJson),
+            cancellationToken);
+
+        if (failure is null)
+        {
+            _logger.LogWarning(
+                "Unable to fail subtask {SubtaskId} for provider {ProviderId}",
+                request.SubtaskId,
+                request.ProviderUserId);
+            return null;
+        }
+
+        await TaskHub.OnFailure(
+            _hubContext,
+            failure.Subtask,
+            request.ProviderUserId,
+            failure.WasReassigned,
+            failure.TaskFailed,
+            TryDeserializeFailure(request.FailureJson),
+            cancellationToken);
+
+        if (failure.WasReassigned)
+        {
+            await TaskHub.DispatchPendingSubtaskAsync(_hubContext, _assignmentService, cancellationToken);
+        }
+
+        return SubtaskMapping.CreateDto(failure.Subtask, isRequestorView: false);
+    }
+
+    private static string ExtractFailureReason(string failureJson)
+    {
+        try
+        {
+            using var document = JsonDocument.Parse(failureJson);
+            if (document.RootElement.ValueKind == JsonValueKind.Object &&
+                document.RootElement.TryGetProperty("error", out var errorElement) &&
+                errorElement.ValueKind == JsonValueKind.String)
+            {
+                return errorElement.GetString() ?? "Unknown error";
+            }
+
+            return "Unknown error";
+        }
+        catch (JsonException)
+        {
+            return failureJson.Length > 200 ? failureJson[..200] : failureJson;
+        }
+    }
+
+    private static object? TryDeserializeFailure(string failureJson)
+    {
+        try
+        {
+            return JsonSerializer.Deserialize<object>(failureJson);
+        }
+        catch (JsonException)
+        {
+            return new { raw = failureJson };
+        }
+    }
+}
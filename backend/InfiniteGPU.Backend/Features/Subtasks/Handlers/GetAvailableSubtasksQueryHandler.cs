@@ -6,6 +6,7 @@ using InfiniteGPU.Backend.Shared.Models;
 using MediatR;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.EntityFrameworkCore;
+using TaskStatusEnum = InfiniteGPU.Backend.Shared.Models.TaskStatus;
 
 namespace InfiniteGPU.Backend.Features.Subtasks.Handlers;
 
@@ -39,7 +40,8 @@ public sealed class GetAvailableSubtasksQueryHandler : IRequestHandler<GetAvaila
         IQueryable<Subtask> query = _context.Subtasks
             .AsNoTracking()
             .Include(s => s.Task)
-            .Where(s => s.Status == (int)SubtaskStatus.Pending);
+            .Where(s => s.Status == (int)SubtaskStatus.Pending)
+            .Where(s => s.Task.Status != TaskStatusEnum.Paused && s.Task.Status != TaskStatusEnum.Cancelled);
 
         var subtasks = await query
             .OrderBy(s => s.CreatedAt)
@@ -0,0 +1,46 @@
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Features.Subtasks.Models;
+using InfiniteGPU.Backend.Features.Subtasks.Queries;
+using InfiniteGPU.Backend.Shared.Models;
+using MediatR;
+using Microsoft.EntityFrameworkCore;
+
+namespace InfiniteGPU.Backend.Features.Subtasks.Handlers;
+
+public sealed class GetSubtaskHistoryQueryHandler : IRequestHandler<GetSubtaskHistoryQuery, IReadOnlyList<ProviderSubtaskHistoryDto>>
+{
+    private const int MaxResults = 5000;
+
+    private readonly AppDbContext _context;
+
+    public GetSubtaskHistoryQueryHandler(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<IReadOnlyList<ProviderSubtaskHistoryDto>> Handle(GetSubtaskHistoryQuery request, CancellationToken cancellationToken)
+    {
+        var sinceUtc = request.SinceUtc.ToUniversalTime();
+
+        var subtasks = await _context.Subtasks
+            .AsNoTracking()
+            .Include(s => s.Task)
+            .Include(s => s.Device)
+            .Where(s => s.AssignedProviderId == request.ProviderUserId && s.DeviceId != null)
+            .Where(s =>
+                (s.Status == SubtaskStatus.Completed && s.CompletedAt >= sinceUtc)
+                || (s.Status == SubtaskStatus.Failed && s.FailedAtUtc >= sinceUtc))
+            .OrderByDescending(s => s.CompletedAt ?? s.FailedAtUtc)
+            .Take(MaxResults)
+            .ToListAsync(cancellationToken);
+
+        return subtasks
+            .Select(s =>
+            {
+                var dto = SubtaskMapping.CreateDto<ProviderSubtaskHistoryDto>(s, isRequestorView: false);
+                dto.DeviceIdentifier = s.Device?.DeviceIdentifier ?? string.Empty;
+                return dto;
+            })
+            .ToList();
+    }
+}
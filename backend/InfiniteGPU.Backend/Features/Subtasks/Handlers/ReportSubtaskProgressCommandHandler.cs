@@ -0,0 +1,47 @@
+using InfiniteGPU.Backend.Features.Subtasks.Commands;
+using InfiniteGPU.Backend.Shared.Hubs;
+using InfiniteGPU.Backend.Shared.Models;
+using InfiniteGPU.Backend.Shared.Services;
+using MediatR;
+using Microsoft.AspNetCore.SignalR;
+
+namespace InfiniteGPU.Backend.Features.Subtasks.Handlers;
+
+public sealed class ReportSubtaskProgressCommandHandler : IRequestHandler<ReportSubtaskProgressCommand, SubtaskDto?>
+{
+    private readonly TaskAssignmentService _assignmentService;
+    private readonly IHubContext<TaskHub> _hubContext;
+    private readonly ILogger<ReportSubtaskProgressCommandHandler> _logger;
+
+    public ReportSubtaskProgressCommandHandler(
+        TaskAssignmentService assignmentService,
+        IHubContext<TaskHub> hubContext,
+        ILogger<ReportSubtaskProgressCommandHandler> logger)
+    {
+        _assignmentService = assignmentService;
+        _hubContext = hubContext;
+        _logger = logger;
+    }
+
+    public async Task<SubtaskDto?> Handle(ReportSubtaskProgressCommand request, CancellationToken cancellationToken)
+    {
+        var update = await _assignmentService.UpdateProgressAsync(
+            request.SubtaskId,
+            request.ProviderUserId,
+            request.Progress,
+            cancellationToken);
+
+        if (update is null)
+        {
+            _logger.LogWarning(
+                "Unable to update progress of subtask {SubtaskId} for provider {ProviderId}",
+                request.SubtaskId,
+                request.ProviderUserId);
+            return null;
+        }
+
+        await TaskHub.OnProgressUpdate(_hubContext, update.Subtask, request.ProviderUserId, cancellationToken);
+
+        return SubtaskMapping.CreateDto(update.Subtask, isRequestorView: false);
+    }
+}
@@ -0,0 +1,11 @@
+using InfiniteGPU.Backend.Shared.Models;
+
+namespace InfiniteGPU.Backend.Features.Subtasks.Models;
+
+/// <summary>
+/// A finished subtask together with the provider device that ran it.
+/// </summary>
+public sealed class ProviderSubtaskHistoryDto : SubtaskDto
+{
+    public string DeviceIdentifier { get; set; } = string.Empty;
+}
@@ -0,0 +1,9 @@
+using InfiniteGPU.Backend.Features.Subtasks.Models;
+using MediatR;
+
+namespace InfiniteGPU.Backend.Features.Subtasks.Queries;
+
+/// <summary>
+/// Subtasks the provider's devices completed or failed since <see cref="SinceUtc"/>, newest first.
+/// </summary>
+public sealed record GetSubtaskHistoryQuery(string ProviderUserId, DateTime SinceUtc) : IRequest<IReadOnlyList<ProviderSubtaskHistoryDto>>;
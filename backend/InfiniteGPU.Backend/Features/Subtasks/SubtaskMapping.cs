@@ -13,10 +13,18 @@ internal static class SubtaskMapping
     };
 
     public static SubtaskDto CreateDto(Subtask subtask, bool isRequestorView = false)
+        => CreateDto<SubtaskDto>(subtask, isRequestorView);
+
+    /// <summary>
+    /// Maps into a DTO derived from <see cref="SubtaskDto"/> that adds fields
+    /// for a particular audience.
+    /// </summary>
+    public static TDto CreateDto<TDto>(Subtask subtask, bool isRequestorView = false)
+        where TDto : SubtaskDto, new()
     {
         var task = subtask.Task ?? throw new InvalidOperationException("Subtask.Task must be included");
 
-        return new SubtaskDto
+        return new TDto
         {
             Id = subtask.Id,
             TaskId = task.Id,
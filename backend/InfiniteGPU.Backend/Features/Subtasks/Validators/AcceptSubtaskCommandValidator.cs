@@ -12,5 +12,9 @@ public sealed class AcceptSubtaskCommandValidator : AbstractValidator<AcceptSubt
 
         RuleFor(x => x.ProviderUserId)
             .NotEmpty();
+
+        RuleFor(x => x.DeviceIdentifier)
+            .NotEmpty()
+            .MaximumLength(128);
     }
 }
\ No newline at end of file
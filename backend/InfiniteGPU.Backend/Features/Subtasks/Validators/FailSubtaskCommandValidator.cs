@@ -0,0 +1,19 @@
+using FluentValidation;
+using InfiniteGPU.Backend.Features.Subtasks.Commands;
+
+namespace InfiniteGPU.Backend.Features.Subtasks.Validators;
+
+public sealed class FailSubtaskCommandValidator : AbstractValidator<FailSubtaskCommand>
+{
+    public FailSubtaskCommandValidator()
+    {
+        RuleFor(x => x.SubtaskId)
+            .NotEmpty();
+
+        RuleFor(x => x.ProviderUserId)
+            .NotEmpty();
+
+        RuleFor(x => x.FailureJson)
+            .NotEmpty();
+    }
+}
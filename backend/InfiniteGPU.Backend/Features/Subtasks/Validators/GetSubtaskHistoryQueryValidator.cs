@@ -0,0 +1,19 @@
+using FluentValidation;
+using InfiniteGPU.Backend.Features.Subtasks.Queries;
+
+namespace InfiniteGPU.Backend.Features.Subtasks.Validators;
+
+public class GetSubtaskHistoryQueryValidator : AbstractValidator<GetSubtaskHistoryQuery>
+{
+    private static readonly TimeSpan MaximumRange = TimeSpan.FromDays(366);
+
+    public GetSubtaskHistoryQueryValidator()
+    {
+        RuleFor(x => x.ProviderUserId)
+            .NotEmpty().WithMessage("Provider user ID is required.");
+
+        RuleFor(x => x.SinceUtc)
+            .Must(since => since >= DateTime.UtcNow - MaximumRange)
+            .WithMessage("History is limited to the last 366 days.");
+    }
+}
@@ -0,0 +1,20 @@
+using FluentValidation;
+using InfiniteGPU.Backend.Features.Subtasks.Commands;
+
+namespace InfiniteGPU.Backend.Features.Subtasks.Validators;
+
+public sealed class ReportSubtaskProgressCommandValidator : AbstractValidator<ReportSubtaskProgressCommand>
+{
+    public ReportSubtaskProgressCommandValidator()
+    {
+        RuleFor(x => x.SubtaskId)
+            .NotEmpty();
+
+        RuleFor(x => x.ProviderUserId)
+            .NotEmpty();
+
+        RuleFor(x => x.Progress)
+            .InclusiveBetween(0, 100)
+            .When(x => x.Progress.HasValue);
+    }
+}
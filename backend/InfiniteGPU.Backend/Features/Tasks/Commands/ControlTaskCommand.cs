@@ -0,0 +1,44 @@
+using MediatR;
+
+namespace InfiniteGPU.Backend.Features.Tasks.Commands;
+
+/// <summary>
+/// Cancels, pauses, resumes or retries the failed subtasks of a task owned by
+/// the requestor.
+/// </summary>
+public record ControlTaskCommand(
+    string UserId,
+    Guid TaskId,
+    TaskControlAction Action
+) : IRequest<ControlTaskResult>;
+
+/// <summary>
+/// Cancels one subtask of a task owned by the requestor.
+/// </summary>
+public record CancelTaskSubtaskCommand(
+    string UserId,
+    Guid TaskId,
+    Guid SubtaskId
+) : IRequest<ControlTaskResult>;
+
+public enum TaskControlAction
+{
+    Cancel,
+    Pause,
+    Resume,
+    RetryFailed
+}
+
+public enum TaskControlOutcome
+{
+    Applied,
+    NotFound,
+    InvalidState
+}
+
+public sealed record ControlTaskResult(TaskControlOutcome Outcome, IReadOnlyList<Guid> RequeuedSubtaskIds)
+{
+    public static ControlTaskResult NotFound() => new(TaskControlOutcome.NotFound, Array.Empty<Guid>());
+
+    public static ControlTaskResult InvalidState() => new(TaskControlOutcome.InvalidState, Array.Empty<Guid>());
+}
@@ -11,10 +11,29 @@ public record CreateTaskCommand(
     TaskType Type,
     bool FillBindingsViaApi,
     Guid? InitialSubtaskId,
-    CreateTaskCommand.InferenceParameters? Inference
+    CreateTaskCommand.InferenceParameters? Inference,
+    CreateTaskCommand.TrainParameters? Train = null,
+    CreateTaskCommand.BudgetCapParameters? BudgetCap = null
 ) : IRequest<TaskDto>
 {
-    public record TrainParameters(int Epochs, int BatchSize);
+    /// <summary>
+    /// Hard limit on what the task is billed; <c>OnExceeded</c> pauses or fails
+    /// the task once it is reached.
+    /// </summary>
+    public record BudgetCapParameters(decimal Amount, BudgetCapAction OnExceeded);
+
+    public record TrainParameters(
+        int Epochs,
+        int BatchSize,
+        double? LearningRate,
+        DatasetReference TrainingDataset,
+        DatasetReference? ValidationDataset);
+
+    /// <summary>
+    /// Dataset providers download before the first epoch; <c>Format</c> is one of
+    /// vision, audio, text or tabular.
+    /// </summary>
+    public record DatasetReference(string SourceType, string FileUrl, string Format);
 
     public record InferenceParameters
     {
@@ -0,0 +1,27 @@
+using MediatR;
+using InfiniteGPU.Backend.Shared.Models;
+
+namespace InfiniteGPU.Backend.Features.Tasks.Commands;
+
+/// <summary>
+/// Appends one subtask with its own input bindings to a task created with
+/// <c>FillBindingsViaApi</c>. Replaying the same <c>SubtaskId</c> returns the
+/// existing subtask so batch submissions can be retried.
+/// </summary>
+public record CreateTaskSubtaskCommand(
+    string UserId,
+    Guid TaskId,
+    Guid SubtaskId,
+    IReadOnlyList<CreateTaskCommand.InferenceParameters.InferenceBinding> Bindings
+) : IRequest<CreateTaskSubtaskResult>;
+
+public enum CreateTaskSubtaskOutcome
+{
+    Created,
+    AlreadyExists,
+    TaskNotFound,
+    TaskNotAcceptingSubtasks,
+    UnknownTensor
+}
+
+public sealed record CreateTaskSubtaskResult(CreateTaskSubtaskOutcome Outcome, SubtaskDto? Subtask);
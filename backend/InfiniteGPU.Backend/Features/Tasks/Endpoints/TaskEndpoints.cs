@@ -2,6 +2,7 @@ using System.Security.Claims;
 using FluentValidation;
 using InfiniteGPU.Backend.Features.Tasks.Commands;
 using InfiniteGPU.Backend.Features.Tasks.Queries;
+using InfiniteGPU.Backend.Shared.Exceptions;
 using InfiniteGPU.Backend.Shared.Models;
 using TaskStatusEnum = InfiniteGPU.Backend.Shared.Models.TaskStatus;
 using MediatR;
@@ -19,9 +20,16 @@ public static class TaskEndpoints
 
         group.MapPost("/create", CreateTaskAsync)
             .WithName("CreateTask")
+            .Produces<TaskDto>(StatusCodes.Status201Created)
+            .Produces(StatusCodes.Status402PaymentRequired)
             .WithOpenApi()
             .RequireAuthorization();
 
+        group.MapPost("/quote", QuoteTaskAsync)
+            .WithName("QuoteTask")
+            .Produces<TaskQuoteDto>()
+            .WithOpenApi();
+
         group.MapPost("/upload-url", GenerateTaskUploadUrlAsync)
             .WithName("GenerateTaskUploadUrl")
             .WithOpenApi()
@@ -29,14 +37,60 @@ public static class TaskEndpoints
 
         group.MapGet("/my-tasks", GetMyTasksAsync)
             .WithName("GetMyTasks")
+            .Produces<List<TaskDto>>()
             .WithOpenApi();
 
         group.MapGet("/{id:guid}", GetTaskByIdAsync)
             .WithName("GetTaskById")
+            .Produces<TaskDto>()
             .WithOpenApi();
 
         group.MapGet("/{id:guid}/subtasks", GetTaskSubtasksAsync)
             .WithName("GetTaskSubtasks")
+            .Produces<IReadOnlyList<SubtaskDto>>()
+            .WithOpenApi();
+
+        group.MapPost("/{id:guid}/subtasks", CreateTaskSubtaskAsync)
+            .WithName("CreateTaskSubtask")
+            .Produces<SubtaskDto>(StatusCodes.Status201Created)
+            .Produces<SubtaskDto>()
+            .Produces(StatusCodes.Status404NotFound)
+            .Produces(StatusCodes.Status409Conflict)
+            .WithOpenApi();
+
+        group.MapPost("/{id:guid}/cancel", CancelTaskAsync)
+            .WithName("CancelTask")
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces(StatusCodes.Status404NotFound)
+            .Produces(StatusCodes.Status409Conflict)
+            .WithOpenApi();
+
+        group.MapPost("/{id:guid}/pause", PauseTaskAsync)
+            .WithName("PauseTask")
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces(StatusCodes.Status404NotFound)
+            .Produces(StatusCodes.Status409Conflict)
+            .WithOpenApi();
+
+        group.MapPost("/{id:guid}/resume", ResumeTaskAsync)
+            .WithName("ResumeTask")
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces(StatusCodes.Status404NotFound)
+            .Produces(StatusCodes.Status409Conflict)
+            .WithOpenApi();
+
+        group.MapPost("/{id:guid}/retry-failed", RetryFailedSubtasksAsync)
+            .WithName("RetryFailedSubtasks")
+            .Produces<RetryFailedSubtasksResponse>()
+            .Produces(StatusCodes.Status404NotFound)
+            .Produces(StatusCodes.Status409Conflict)
+            .WithOpenApi();
+
+        group.MapPost("/{id:guid}/subtasks/{subtaskId:guid}/cancel", CancelTaskSubtaskAsync)
+            .WithName("CancelTaskSubtask")
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces(StatusCodes.Status404NotFound)
+            .Produces(StatusCodes.Status409Conflict)
             .WithOpenApi();
 
         group.MapGet("/requestor-intake", GetRequestorIntakeAsync)
@@ -64,7 +118,9 @@ public static class TaskEndpoints
             request.Type,
             request.FillBindingsViaApi,
             request.InitialSubtaskId,
-            request.Inference);
+            request.Inference,
+            request.Train,
+            request.BudgetCap);
 
         var validationResult = await validator.ValidateAsync(command, cancellationToken);
         if (!validationResult.IsValid)
@@ -74,8 +130,54 @@ public static class TaskEndpoints
             return Results.ValidationProblem(errors.ToDictionary());
         }
 
-        var task = await mediator.Send(command, cancellationToken);
-        return Results.Created($"/api/tasks/{task.Id}", task);
+        try
+        {
+            var task = await mediator.Send(command, cancellationToken);
+            return Results.Created($"/api/tasks/{task.Id}", task);
+        }
+        catch (InsufficientBalanceException ex)
+        {
+            return Results.Json(new { error = ex.Message, code = "insufficient_balance" }, statusCode: StatusCodes.Status402PaymentRequired);
+        }
+    }
+
+    private static async Task<IResult> QuoteTaskAsync(
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<GetTaskQuoteQuery> validator,
+        [FromBody] TaskQuoteRequest request,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var query = new GetTaskQuoteQuery(
+            request.Type,
+            request.ModelUrl,
+            request.ModelSizeBytes,
+            request.InputBytes,
+            request.SubtaskCount,
+            request.Train);
+
+        var validationResult = await validator.ValidateAsync(query, cancellationToken);
+        if (!validationResult.IsValid)
+        {
+            return Results.ValidationProblem(validationResult.ToDictionary());
+        }
+
+        var quote = await mediator.Send(query, cancellationToken);
+        if (quote is null)
+        {
+            return Results.ValidationProblem(new Dictionary<string, string[]>
+            {
+                ["ModelUrl"] = new[] { "The model size could not be read; provide ModelSizeBytes instead." }
+            });
+        }
+
+        return Results.Ok(quote);
     }
 
     private static async Task<IResult> GenerateTaskUploadUrlAsync(
@@ -183,6 +285,122 @@ public static class TaskEndpoints
         return Results.Ok(subtasks);
     }
 
+    private static async Task<IResult> CreateTaskSubtaskAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        IValidator<CreateTaskSubtaskCommand> validator,
+        [FromBody] CreateTaskSubtaskRequest request,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var command = new CreateTaskSubtaskCommand(userId, id, request.SubtaskId, request.Bindings);
+        var validationResult = await validator.ValidateAsync(command, cancellationToken);
+        if (!validationResult.IsValid)
+        {
+            return Results.ValidationProblem(validationResult.ToDictionary());
+        }
+
+        var result = await mediator.Send(command, cancellationToken);
+        return result.Outcome switch
+        {
+            CreateTaskSubtaskOutcome.Created => Results.Created($"/api/tasks/{id}/subtasks/{request.SubtaskId}", result.Subtask),
+            CreateTaskSubtaskOutcome.AlreadyExists => Results.Ok(result.Subtask),
+            CreateTaskSubtaskOutcome.TaskNotFound => Results.NotFound(),
+            CreateTaskSubtaskOutcome.UnknownTensor => Results.ValidationProblem(new Dictionary<string, string[]>
+            {
+                ["Bindings"] = new[] { "Bindings must only reference tensors declared when the task was created." }
+            }),
+            _ => Results.Conflict(new { error = "Task does not accept new subtasks.", code = "task_not_accepting_subtasks" })
+        };
+    }
+
+    private static Task<IResult> CancelTaskAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        CancellationToken cancellationToken)
+        => ControlTaskAsync(id, principal, mediator, TaskControlAction.Cancel, cancellationToken);
+
+    private static Task<IResult> PauseTaskAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        CancellationToken cancellationToken)
+        => ControlTaskAsync(id, principal, mediator, TaskControlAction.Pause, cancellationToken);
+
+    private static Task<IResult> ResumeTaskAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        CancellationToken cancellationToken)
+        => ControlTaskAsync(id, principal, mediator, TaskControlAction.Resume, cancellationToken);
+
+    private static Task<IResult> RetryFailedSubtasksAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        CancellationToken cancellationToken)
+        => ControlTaskAsync(id, principal, mediator, TaskControlAction.RetryFailed, cancellationToken);
+
+    private static async Task<IResult> ControlTaskAsync(
+        Guid id,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        TaskControlAction action,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var result = await mediator.Send(new ControlTaskCommand(userId, id, action), cancellationToken);
+        return result.Outcome switch
+        {
+            TaskControlOutcome.NotFound => Results.NotFound(),
+            TaskControlOutcome.InvalidState => Results.Conflict(new { error = $"The task cannot be {DescribeAction(action)} in its current state.", code = "conflict" }),
+            _ when action == TaskControlAction.RetryFailed => Results.Ok(new RetryFailedSubtasksResponse(result.RequeuedSubtaskIds)),
+            _ => Results.NoContent()
+        };
+    }
+
+    private static async Task<IResult> CancelTaskSubtaskAsync(
+        Guid id,
+        Guid subtaskId,
+        ClaimsPrincipal principal,
+        IMediator mediator,
+        CancellationToken cancellationToken)
+    {
+        var userId = principal.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var result = await mediator.Send(new CancelTaskSubtaskCommand(userId, id, subtaskId), cancellationToken);
+        return result.Outcome switch
+        {
+            TaskControlOutcome.NotFound => Results.NotFound(),
+            TaskControlOutcome.InvalidState => Results.Conflict(new { error = "The subtask has already finished.", code = "conflict" }),
+            _ => Results.NoContent()
+        };
+    }
+
+    private static string DescribeAction(TaskControlAction action) => action switch
+    {
+        TaskControlAction.Cancel => "cancelled",
+        TaskControlAction.Pause => "paused",
+        TaskControlAction.Resume => "resumed",
+        _ => "retried"
+    };
+
     private static async Task<IResult> GetRequestorIntakeAsync(
         ClaimsPrincipal principal,
         IMediator mediator,
@@ -216,7 +434,23 @@ public static class TaskEndpoints
         string ModelUrl,
         bool FillBindingsViaApi,
         Guid? InitialSubtaskId,
-        CreateTaskCommand.InferenceParameters? Inference);
+        CreateTaskCommand.InferenceParameters? Inference,
+        CreateTaskCommand.TrainParameters? Train,
+        CreateTaskCommand.BudgetCapParameters? BudgetCap);
+
+    private readonly record struct TaskQuoteRequest(
+        TaskType Type,
+        string? ModelUrl,
+        long? ModelSizeBytes,
+        long InputBytes,
+        int? SubtaskCount,
+        GetTaskQuoteQuery.TrainShape? Train);
+
+    private readonly record struct CreateTaskSubtaskRequest(
+        Guid SubtaskId,
+        IReadOnlyList<CreateTaskCommand.InferenceParameters.InferenceBinding> Bindings);
+
+    private sealed record RetryFailedSubtasksResponse(IReadOnlyList<Guid> RequeuedSubtaskIds);
 
     private readonly record struct ValidationError(string Property, string Message);
 
@@ -0,0 +1,121 @@
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Features.Tasks.Commands;
+using InfiniteGPU.Backend.Shared.Hubs;
+using InfiniteGPU.Backend.Shared.Services;
+using MediatR;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+using Task = System.Threading.Tasks.Task;
+
+namespace InfiniteGPU.Backend.Features.Tasks.Handlers;
+
+public sealed class ControlTaskCommandHandler :
+    IRequestHandler<ControlTaskCommand, ControlTaskResult>,
+    IRequestHandler<CancelTaskSubtaskCommand, ControlTaskResult>
+{
+    private readonly AppDbContext _context;
+    private readonly TaskAssignmentService _assignmentService;
+    private readonly IHubContext<TaskHub> _hubContext;
+    private readonly ILogger<ControlTaskCommandHandler> _logger;
+
+    public ControlTaskCommandHandler(
+        AppDbContext context,
+        TaskAssignmentService assignmentService,
+        IHubContext<TaskHub> hubContext,
+        ILogger<ControlTaskCommandHandler> logger)
+    {
+        _context = context;
+        _assignmentService = assignmentService;
+        _hubContext = hubContext;
+        _logger = logger;
+    }
+
+    public async Task<ControlTaskResult> Handle(ControlTaskCommand request, CancellationToken cancellationToken)
+    {
+        if (!await TaskExistsAsync(request.TaskId, request.UserId, cancellationToken))
+        {
+            return ControlTaskResult.NotFound();
+        }
+
+        var result = request.Action switch
+        {
+            TaskControlAction.Cancel => await _assignmentService.CancelTaskAsync(request.TaskId, request.UserId, cancellationToken),
+            TaskControlAction.Pause => await _assignmentService.PauseTaskAsync(request.TaskId, request.UserId, cancellationToken),
+            TaskControlAction.Resume => await _assignmentService.ResumeTaskAsync(request.TaskId, request.UserId, cancellationToken),
+            TaskControlAction.RetryFailed => await _assignmentService.RetryFailedSubtasksAsync(request.TaskId, request.UserId, cancellationToken),
+            _ => null
+        };
+
+        if (result is null)
+        {
+            _logger.LogWarning(
+                "Requestor {UserId} could not apply {Action} to task {TaskId}",
+                request.UserId,
+                request.Action,
+                request.TaskId);
+            return ControlTaskResult.InvalidState();
+        }
+
+        await NotifyAsync(result, cancellationToken);
+
+        return new ControlTaskResult(
+            TaskControlOutcome.Applied,
+            result.RequeuedSubtasks.Select(s => s.Id).ToList());
+    }
+
+    public async Task<ControlTaskResult> Handle(CancelTaskSubtaskCommand request, CancellationToken cancellationToken)
+    {
+        if (!await TaskExistsAsync(request.TaskId, request.UserId, cancellationToken))
+        {
+            return ControlTaskResult.NotFound();
+        }
+
+        var result = await _assignmentService.CancelTaskSubtaskAsync(
+            request.TaskId,
+            request.SubtaskId,
+            request.UserId,
+            cancellationToken);
+
+        if (result is null)
+        {
+            return await _context.Subtasks.AnyAsync(s => s.Id == request.SubtaskId && s.TaskId == request.TaskId, cancellationToken)
+                ? ControlTaskResult.InvalidState()
+                : ControlTaskResult.NotFound();
+        }
+
+        await NotifyAsync(result, cancellationToken);
+
+        return new ControlTaskResult(TaskControlOutcome.Applied, Array.Empty<Guid>());
+    }
+
+    private Task<bool> TaskExistsAsync(Guid taskId, string userId, CancellationToken cancellationToken)
+        => _context.Tasks.AnyAsync(t => t.Id == taskId && t.UserId == userId, cancellationToken);
+
+    private async Task NotifyAsync(TaskAssignmentService.TaskControlResult result, CancellationToken cancellationToken)
+    {
+        // Providers running a stopped subtask get the failure event they
+        // already handle, flagged so it is not reported as their fault.
+        foreach (var stopped in result.StoppedSubtasks.Where(s => !string.IsNullOrWhiteSpace(s.PreviousProviderUserId)))
+        {
+            await TaskHub.OnFailure(
+                _hubContext,
+                stopped.Subtask,
+                stopped.PreviousProviderUserId!,
+                wasReassigned: false,
+                taskFailed: false,
+                new
+                {
+                    reason = stopped.Subtask.FailureReason,
+                    intervention = "requestor"
+                },
+                cancellationToken);
+        }
+
+        await TaskHub.OnTaskStatusChanged(_hubContext, result.Task, cancellationToken);
+
+        if (result.RequeuedSubtasks.Count > 0)
+        {
+            await TaskHub.DispatchPendingSubtaskAsync(_hubContext, _assignmentService, cancellationToken);
+        }
+    }
+}
@@ -4,6 +4,7 @@ using MediatR;
 using InfiniteGPU.Backend.Data;
 using InfiniteGPU.Backend.Data.Entities;
 using InfiniteGPU.Backend.Features.Tasks.Commands;
+using InfiniteGPU.Backend.Shared.Exceptions;
 using InfiniteGPU.Backend.Shared.Hubs;
 using InfiniteGPU.Backend.Shared.Models;
 using InfiniteGPU.Backend.Shared.Services;
@@ -59,7 +60,7 @@ public class CreateTaskCommandHandler : IRequestHandler<CreateTaskCommand, TaskD
 
         if (user.Balance <= 0)
         {
-            throw new InvalidOperationException("Insufficient balance. Please add funds to your account before creating tasks.");
+            throw new InsufficientBalanceException("Insufficient balance. Please add funds to your account before creating tasks.");
         }
 
         var now = DateTime.UtcNow;
@@ -74,6 +75,8 @@ public class CreateTaskCommandHandler : IRequestHandler<CreateTaskCommand, TaskD
             Status = TaskStatusEnum.Pending,
             CreatedAt = now,
             FillBindingsViaApi = request.FillBindingsViaApi,
+            BudgetCapAmount = request.BudgetCap?.Amount,
+            BudgetCapAction = request.BudgetCap?.OnExceeded,
             InferenceBindings = inferenceBindings,
             OutputBindings = outputBindings,
             Subtasks = new List<Subtask>()
@@ -109,7 +112,8 @@ public class CreateTaskCommandHandler : IRequestHandler<CreateTaskCommand, TaskD
 
         var parametersPayload = JsonSerializer.Serialize(new
         {
-            inference = request.Inference
+            inference = request.Inference,
+            train = task.Type == TaskType.Train ? request.Train : null
         }, serializationOptions);
 
         var executionSpecRunMode = task.Type switch
@@ -153,38 +157,13 @@ public class CreateTaskCommandHandler : IRequestHandler<CreateTaskCommand, TaskD
                 .LoadAsync(cancellationToken);
         }
 
-        var dto = SubtaskMapping.CreateDto(subtask, isRequestorView: false);
-        var taskDto = subtask.Task is null ? null : TaskHub.BuildTaskDto(subtask.Task);
-        var timestampUtc = DateTime.UtcNow;
-
-        var broadcasts = new List<Task>
-        {
-            _taskHubContext.Clients.Group(TaskHub.ProvidersGroupName)
-                .SendAsync(TaskHub.OnAvailableSubtasksChangedEvent, new
-                {
-                    SubtaskId = subtask.Id,
-                    TaskId = subtask.TaskId,
-                    Status = subtask.Status,
-                    CreatedByUserId = subtask.Task?.UserId,
-                    TimestampUtc = timestampUtc,
-                    Subtask = dto
-                }, cancellationToken)
-        };
-
-        if (subtask.Task is not null)
-        {
-            broadcasts.Add(
-                _taskHubContext.Clients.Group(TaskHub.UserGroupName(subtask.Task.UserId))
-                    .SendAsync("TaskUpdated", taskDto!, cancellationToken));
-        }
-
-        await Task.WhenAll(broadcasts);
+        await TaskHub.OnSubtaskCreated(_taskHubContext, subtask, cancellationToken);
     }
 
     private static TaskDto MapTaskDto(TaskEntity task,
         bool stripPayloads)
     {
-        return new TaskDto
+        var dto = new TaskDto
         {
             Id = task.Id,
             Type = task.Type,
@@ -192,6 +171,7 @@ public class CreateTaskCommandHandler : IRequestHandler<CreateTaskCommand, TaskD
             Status = task.Status,
             EstimatedCost = task.EstimatedCost,
             FillBindingsViaApi = task.FillBindingsViaApi,
+            BudgetCap = TaskDto.BudgetCapDto.FromTask(task),
             Inference = task.InferenceBindings?.Any() == true || task.OutputBindings?.Any() == true
                 ? new TaskDto.InferenceParametersDto
                 {
@@ -214,9 +194,11 @@ public class CreateTaskCommandHandler : IRequestHandler<CreateTaskCommand, TaskD
                         .ToList() ?? new List<TaskDto.InferenceParametersDto.OutputBindingDto>()
                 }
                 : null,
-            CreatedAt = task.CreatedAt,
-            SubtasksCount = task.Subtasks?.Count ?? 0
+            CreatedAt = task.CreatedAt
         };
+        dto.ApplyProgress(task);
+
+        return dto;
     }
 
     private static IList<TaskInferenceBinding> MapInferenceBindings(
@@ -0,0 +1,136 @@
+using MediatR;
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Features.Subtasks;
+using InfiniteGPU.Backend.Features.Tasks.Commands;
+using InfiniteGPU.Backend.Shared.Hubs;
+using InfiniteGPU.Backend.Shared.Models;
+using InfiniteGPU.Backend.Shared.Services;
+using TaskEntity = InfiniteGPU.Backend.Data.Entities.Task;
+using TaskStatusEnum = InfiniteGPU.Backend.Shared.Models.TaskStatus;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+
+namespace InfiniteGPU.Backend.Features.Tasks.Handlers;
+
+public class CreateTaskSubtaskCommandHandler : IRequestHandler<CreateTaskSubtaskCommand, CreateTaskSubtaskResult>
+{
+    private static readonly JsonSerializerOptions SerializationOptions = new(JsonSerializerDefaults.Web)
+    {
+        DefaultIgnoreCondition = JsonIgnoreCondition.WhenWritingNull
+    };
+
+    private readonly AppDbContext _context;
+    private readonly IHubContext<TaskHub> _taskHubContext;
+    private readonly TaskAssignmentService _assignmentService;
+    private readonly ILogger<CreateTaskSubtaskCommandHandler> _logger;
+
+    public CreateTaskSubtaskCommandHandler(
+        AppDbContext context,
+        IHubContext<TaskHub> taskHubContext,
+        TaskAssignmentService assignmentService,
+        ILogger<CreateTaskSubtaskCommandHandler> logger)
+    {
+        _context = context;
+        _taskHubContext = taskHubContext;
+        _assignmentService = assignmentService;
+        _logger = logger;
+    }
+
+    public async Task<CreateTaskSubtaskResult> Handle(CreateTaskSubtaskCommand request, CancellationToken cancellationToken)
+    {
+        var task = await _context.Tasks
+            .Include(t => t.InferenceBindings)
+            .Include(t => t.OutputBindings)
+            .Include(t => t.Subtasks)
+            .FirstOrDefaultAsync(t => t.Id == request.TaskId && t.UserId == request.UserId, cancellationToken);
+
+        if (task is null)
+        {
+            return new CreateTaskSubtaskResult(CreateTaskSubtaskOutcome.TaskNotFound, null);
+        }
+
+        var existing = task.Subtasks.FirstOrDefault(s => s.Id == request.SubtaskId);
+        if (existing is not null)
+        {
+            return new CreateTaskSubtaskResult(
+                CreateTaskSubtaskOutcome.AlreadyExists,
+                SubtaskMapping.CreateDto(existing, isRequestorView: true));
+        }
+
+        if (!task.FillBindingsViaApi || task.Status == TaskStatusEnum.Failed)
+        {
+            return new CreateTaskSubtaskResult(CreateTaskSubtaskOutcome.TaskNotAcceptingSubtasks, null);
+        }
+
+        // Tensors declared at creation are the only ones a subtask may bind.
+        if (task.InferenceBindings.Count > 0)
+        {
+            var declared = task.InferenceBindings
+                .Select(b => b.TensorName)
+                .ToHashSet(StringComparer.Ordinal);
+
+            if (request.Bindings.Any(b => !declared.Contains(b.TensorName)))
+            {
+                return new CreateTaskSubtaskResult(CreateTaskSubtaskOutcome.UnknownTensor, null);
+            }
+        }
+
+        var now = DateTime.UtcNow;
+        var subtask = new Subtask
+        {
+            Id = request.SubtaskId,
+            Task = task,
+            TaskId = task.Id,
+            Params = BuildParameters(task, request.Bindings),
+            ExecutionSpecJson = JsonSerializer.Serialize(new
+            {
+                runMode = task.Type == TaskType.Train ? "training" : "inference",
+                onnxModelUrl = task.OnnxModelBlobUri,
+                taskType = task.Type
+            }, SerializationOptions),
+            OnnxModelBlobUri = task.OnnxModelBlobUri,
+            CreatedAt = now
+        };
+
+        task.Subtasks.Add(subtask);
+
+        // Every earlier row may already be done; a new row reopens the task.
+        if (task.Status == TaskStatusEnum.Completed)
+        {
+            task.Status = TaskStatusEnum.InProgress;
+            task.CompletedAt = null;
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        _logger.LogInformation("Subtask {SubtaskId} appended to task {TaskId}", subtask.Id, task.Id);
+
+        await TaskHub.OnSubtaskCreated(_taskHubContext, subtask, cancellationToken);
+        await TaskHub.DispatchPendingSubtaskAsync(_taskHubContext, _assignmentService, cancellationToken);
+
+        return new CreateTaskSubtaskResult(
+            CreateTaskSubtaskOutcome.Created,
+            SubtaskMapping.CreateDto(subtask, isRequestorView: true));
+    }
+
+    private static string BuildParameters(
+        TaskEntity task,
+        IReadOnlyList<CreateTaskCommand.InferenceParameters.InferenceBinding> bindings)
+    {
+        var inference = new CreateTaskCommand.InferenceParameters
+        {
+            Bindings = bindings,
+            Outputs = task.OutputBindings
+                .Select(output => new CreateTaskCommand.InferenceParameters.OutputBinding(
+                    output.TensorName,
+                    output.PayloadType,
+                    output.FileFormat))
+                .ToList()
+        };
+
+        return JsonSerializer.Serialize(new { inference }, SerializationOptions);
+    }
+}
@@ -43,7 +43,7 @@ public class GetTaskByIdQueryHandler : IRequestHandler<GetTaskByIdQuery, TaskDto
             return null;
         }
 
-        return new TaskDto
+        var dto = new TaskDto
         {
             Id = task.Id,
             Type = task.Type,
@@ -51,6 +51,7 @@ public class GetTaskByIdQueryHandler : IRequestHandler<GetTaskByIdQuery, TaskDto
             Status = task.Status,
             EstimatedCost = task.EstimatedCost,
             FillBindingsViaApi = task.FillBindingsViaApi,
+            BudgetCap = TaskDto.BudgetCapDto.FromTask(task),
             Inference = task.InferenceBindings.Any()
                 ? new TaskDto.InferenceParametersDto
                 {
@@ -65,8 +66,10 @@ public class GetTaskByIdQueryHandler : IRequestHandler<GetTaskByIdQuery, TaskDto
                         .ToList()
                 }
                 : null,
-            CreatedAt = task.CreatedAt,
-            SubtasksCount = task.Subtasks.Count
+            CreatedAt = task.CreatedAt
         };
+        dto.ApplyProgress(task);
+
+        return dto;
     }
 }
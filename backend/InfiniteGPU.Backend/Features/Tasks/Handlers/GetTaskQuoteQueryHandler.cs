@@ -0,0 +1,101 @@
+using Azure;
+using Azure.Storage.Blobs;
+using InfiniteGPU.Backend.Features.Tasks.Queries;
+using InfiniteGPU.Backend.Shared.Models;
+using InfiniteGPU.Backend.Shared.Services;
+using MediatR;
+
+namespace InfiniteGPU.Backend.Features.Tasks.Handlers;
+
+/// <summary>
+/// Estimates what a task will be billed. Providers are billed by execution
+/// time, so the quote estimates that time from how much data each subtask
+/// moves and prices it with the same rates used on completion.
+/// </summary>
+public class GetTaskQuoteQueryHandler : IRequestHandler<GetTaskQuoteQuery, TaskQuoteDto?>
+{
+    private const string QuotedDevice = "gpu";
+    private const double BaseSecondsPerSubtask = 2;
+    private const double ModelLoadBytesPerSecond = 100d * 1024 * 1024;
+    private const double InputBytesPerSecond = 20d * 1024 * 1024;
+    private const double BytesPerGigabyte = 1024d * 1024 * 1024;
+    private const decimal MinimumPricePerSubtask = 0.01m;
+
+    private readonly BlobServiceClient _blobServiceClient;
+    private readonly ILogger<GetTaskQuoteQueryHandler> _logger;
+
+    public GetTaskQuoteQueryHandler(BlobServiceClient blobServiceClient, ILogger<GetTaskQuoteQueryHandler> logger)
+    {
+        _blobServiceClient = blobServiceClient;
+        _logger = logger;
+    }
+
+    public async Task<TaskQuoteDto?> Handle(GetTaskQuoteQuery request, CancellationToken cancellationToken)
+    {
+        var modelSizeBytes = request.ModelSizeBytes
+            ?? await GetModelSizeAsync(request.ModelUrl!, cancellationToken);
+        if (modelSizeBytes is null)
+        {
+            return null;
+        }
+
+        var subtaskCount = request.SubtaskCount ?? 1;
+        var inputBytesPerSubtask = (double)request.InputBytes / subtaskCount;
+
+        var seconds = BaseSecondsPerSubtask
+            + modelSizeBytes.Value / ModelLoadBytesPerSecond
+            + inputBytesPerSubtask / InputBytesPerSecond;
+
+        if (request.Train is { } train)
+        {
+            // Every epoch reads the dataset again; forward and backward passes
+            // make each pass roughly three times an inference pass.
+            seconds += train.Epochs * 3 * (inputBytesPerSubtask / InputBytesPerSecond);
+        }
+
+        // The model and its activations have to fit in device memory, which
+        // the completion rates charge for.
+        var memoryGBytes = (long)Math.Ceiling(modelSizeBytes.Value * 2 / BytesPerGigabyte);
+        var providerCost = TaskAssignmentService.CalculateCost(TimeSpan.FromSeconds(seconds), QuotedDevice, memoryGBytes);
+
+        var pricePerSubtask = Math.Max(
+            MinimumPricePerSubtask,
+            Math.Round(providerCost * TaskAssignmentService.RequestorMarkup, 2, MidpointRounding.AwayFromZero));
+
+        return new TaskQuoteDto
+        {
+            ModelSizeBytes = modelSizeBytes.Value,
+            InputBytes = request.InputBytes,
+            ExpectedSubtaskCount = subtaskCount,
+            PricePerSubtask = pricePerSubtask,
+            EstimatedCost = pricePerSubtask * subtaskCount,
+            GeneratedAtUtc = DateTime.UtcNow
+        };
+    }
+
+    private async Task<long?> GetModelSizeAsync(string modelUrl, CancellationToken cancellationToken)
+    {
+        if (!Uri.TryCreate(modelUrl, UriKind.Absolute, out var modelUri)
+            || !string.Equals(modelUri.Host, _blobServiceClient.Uri.Host, StringComparison.OrdinalIgnoreCase))
+        {
+            _logger.LogWarning("Model URL {ModelUrl} is not in task storage; cannot size it for a quote", modelUrl);
+            return null;
+        }
+
+        var blobUri = new BlobUriBuilder(modelUri);
+        try
+        {
+            var properties = await _blobServiceClient
+                .GetBlobContainerClient(blobUri.BlobContainerName)
+                .GetBlobClient(blobUri.BlobName)
+                .GetPropertiesAsync(cancellationToken: cancellationToken);
+
+            return properties.Value.ContentLength;
+        }
+        catch (RequestFailedException ex)
+        {
+            _logger.LogWarning(ex, "Unable to read the size of model {ModelUrl} for a quote", modelUrl);
+            return null;
+        }
+    }
+}
@@ -42,31 +42,36 @@ public class GetTasksQueryHandler : IRequestHandler<GetTasksQuery, List<TaskDto>
             .OrderByDescending(t => t.CreatedAt)
             .ToListAsync(cancellationToken);
 
-        var dtos = tasks.Select(t => new TaskDto
+        var dtos = tasks.Select(t =>
         {
-            Id = t.Id,
-            Type = t.Type,
-            ModelUrl = t.OnnxModelBlobUri,
-            Status = t.Status,
-            EstimatedCost = t.Subtasks.Sum(x => x.CostUsd) ?? 0,
-            FillBindingsViaApi = t.FillBindingsViaApi,
-            Inference = t.InferenceBindings.Any()
-                ? new TaskDto.InferenceParametersDto
-                {
-                    Bindings = t.InferenceBindings
-                        .Select(binding => new TaskDto.InferenceParametersDto.BindingDto
-                        {
-                            TensorName = binding.TensorName,
-                            PayloadType = binding.PayloadType,
-                            Payload = binding.Payload,
-                            FileUrl = binding.FileUrl
-                        })
-                        .ToList()
-                }
-                : null,
-            CreatedAt = t.CreatedAt,
-            SubtasksCount = t.Subtasks.Count,
-            DurationSeconds = t.Subtasks.Sum(st => st.DurationSeconds) ?? 0,
+            var dto = new TaskDto
+            {
+                Id = t.Id,
+                Type = t.Type,
+                ModelUrl = t.OnnxModelBlobUri,
+                Status = t.Status,
+                EstimatedCost = t.Subtasks.Sum(x => x.CostUsd) ?? 0,
+                FillBindingsViaApi = t.FillBindingsViaApi,
+                BudgetCap = TaskDto.BudgetCapDto.FromTask(t),
+                Inference = t.InferenceBindings.Any()
+                    ? new TaskDto.InferenceParametersDto
+                    {
+                        Bindings = t.InferenceBindings
+                            .Select(binding => new TaskDto.InferenceParametersDto.BindingDto
+                            {
+                                TensorName = binding.TensorName,
+                                PayloadType = binding.PayloadType,
+                                Payload = binding.Payload,
+                                FileUrl = binding.FileUrl
+                            })
+                            .ToList()
+                    }
+                    : null,
+                CreatedAt = t.CreatedAt,
+                DurationSeconds = t.Subtasks.Sum(st => st.DurationSeconds) ?? 0
+            };
+            dto.ApplyProgress(t);
+            return dto;
         }).ToList();
 
         return dtos;
@@ -0,0 +1,21 @@
+using MediatR;
+using InfiniteGPU.Backend.Shared.Models;
+
+namespace InfiniteGPU.Backend.Features.Tasks.Queries;
+
+/// <summary>
+/// Prices a task from its shape. <c>ModelUrl</c> replaces <c>ModelSizeBytes</c>
+/// when the model is reused from an earlier task; the quote is null when its
+/// size cannot be read.
+/// </summary>
+public record GetTaskQuoteQuery(
+    TaskType Type,
+    string? ModelUrl,
+    long? ModelSizeBytes,
+    long InputBytes,
+    int? SubtaskCount,
+    GetTaskQuoteQuery.TrainShape? Train
+) : IRequest<TaskQuoteDto?>
+{
+    public record TrainShape(int Epochs, int BatchSize);
+}
@@ -20,7 +20,10 @@ public class CreateTaskCommandValidator : AbstractValidator<CreateTaskCommand>
             .WithMessage("User must exist and have Requestor role.");
 
         RuleFor(x => x.Type)
-            .IsInEnum().WithMessage("Invalid task type.");
+            .IsInEnum().WithMessage("Invalid task type.")
+            // No provider runtime executes training subtasks yet; every one
+            // would be accepted, fail and be reassigned.
+            .NotEqual(TaskType.Train).WithMessage("Training tasks cannot run yet: no provider runtime executes them.");
 
         RuleFor(x => x.TaskId)
             .Must(id => id != Guid.Empty).WithMessage("Task ID must be a non-empty GUID.");
@@ -46,6 +49,19 @@ public class CreateTaskCommandValidator : AbstractValidator<CreateTaskCommand>
             .SetValidator(new InferenceBindingStructureValidator())
             .When(command => command.Inference?.Bindings is { Count: > 0 });
 
+        RuleFor(x => x.Train)
+            .NotNull()
+            .When(command => command.Type == TaskType.Train)
+            .WithMessage("Training parameters are required for training tasks.");
+
+        RuleFor(x => x.Train!)
+            .SetValidator(new TrainParametersValidator())
+            .When(command => command.Type == TaskType.Train && command.Train is not null);
+
+        RuleFor(x => x.BudgetCap!)
+            .SetValidator(new BudgetCapParametersValidator())
+            .When(command => command.BudgetCap is not null);
+
         When(command => !command.FillBindingsViaApi, () =>
         {
             RuleFor(command => command.InitialSubtaskId)
@@ -114,4 +130,68 @@ public class CreateTaskCommandValidator : AbstractValidator<CreateTaskCommand>
             });
         }
     }
-}
\ No newline at end of file
+
+    private sealed class BudgetCapParametersValidator : AbstractValidator<CreateTaskCommand.BudgetCapParameters>
+    {
+        public BudgetCapParametersValidator()
+        {
+            RuleFor(b => b.Amount)
+                .GreaterThan(0).WithMessage("The budget cap must be a positive amount.")
+                .LessThanOrEqualTo(1_000_000).WithMessage("The budget cap cannot exceed 1,000,000.");
+
+            RuleFor(b => b.OnExceeded)
+                .IsInEnum().WithMessage("The budget cap action must be Pause or Fail.");
+        }
+    }
+
+    private sealed class TrainParametersValidator : AbstractValidator<CreateTaskCommand.TrainParameters>
+    {
+        public TrainParametersValidator()
+        {
+            RuleFor(t => t.Epochs)
+                .InclusiveBetween(1, 1000).WithMessage("Epochs must be between 1 and 1000.");
+
+            RuleFor(t => t.BatchSize)
+                .InclusiveBetween(1, 65536).WithMessage("Batch size must be between 1 and 65536.");
+
+            RuleFor(t => t.LearningRate)
+                .GreaterThan(0).LessThanOrEqualTo(1)
+                .When(t => t.LearningRate.HasValue)
+                .WithMessage("Learning rate must be greater than 0 and at most 1.");
+
+            RuleFor(t => t.TrainingDataset)
+                .NotNull().WithMessage("A training dataset is required.")
+                .SetValidator(new DatasetReferenceValidator());
+
+            RuleFor(t => t.ValidationDataset!)
+                .SetValidator(new DatasetReferenceValidator())
+                .When(t => t.ValidationDataset is not null);
+        }
+    }
+
+    private sealed class DatasetReferenceValidator : AbstractValidator<CreateTaskCommand.DatasetReference>
+    {
+        private static readonly string[] Formats = ["vision", "audio", "text", "tabular"];
+        private static readonly string[] SourceTypes = ["upload", "url"];
+
+        public DatasetReferenceValidator()
+        {
+            RuleFor(d => d.SourceType)
+                .Must(source => SourceTypes.Contains(source))
+                .WithMessage("Dataset source must be 'upload' or 'url'.");
+
+            RuleFor(d => d.Format)
+                .Must(format => Formats.Contains(format))
+                .WithMessage("Dataset format must be one of vision, audio, text or tabular.");
+
+            RuleFor(d => d.FileUrl)
+                .NotEmpty().WithMessage("Dataset URL is required.")
+                .MaximumLength(2048).WithMessage("Dataset URL cannot exceed 2048 characters.")
+                .Must(BeDownloadableUrl).WithMessage("Dataset URL must be an absolute http or https URL.");
+        }
+
+        private static bool BeDownloadableUrl(string url)
+            => Uri.TryCreate(url, UriKind.Absolute, out var uri) &&
+               (uri.Scheme == Uri.UriSchemeHttp || uri.Scheme == Uri.UriSchemeHttps);
+    }
+}
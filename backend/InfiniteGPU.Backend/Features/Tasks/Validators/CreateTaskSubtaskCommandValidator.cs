@@ -0,0 +1,60 @@
+using FluentValidation;
+using InfiniteGPU.Backend.Features.Tasks.Commands;
+using InfiniteGPU.Backend.Shared.Models;
+
+namespace InfiniteGPU.Backend.Features.Tasks.Validators;
+
+public class CreateTaskSubtaskCommandValidator : AbstractValidator<CreateTaskSubtaskCommand>
+{
+    public CreateTaskSubtaskCommandValidator()
+    {
+        RuleFor(x => x.UserId)
+            .NotEmpty().WithMessage("UserId is required.");
+
+        RuleFor(x => x.TaskId)
+            .Must(id => id != Guid.Empty).WithMessage("Task ID must be a non-empty GUID.");
+
+        RuleFor(x => x.SubtaskId)
+            .Must(id => id != Guid.Empty).WithMessage("Subtask ID must be a non-empty GUID.");
+
+        RuleFor(x => x.Bindings)
+            .NotNull()
+            .Must(bindings => bindings is { Count: > 0 })
+            .WithMessage("At least one binding is required.")
+            .Must(bindings => bindings
+                .Select(b => b.TensorName)
+                .Distinct(StringComparer.Ordinal)
+                .Count() == bindings.Count)
+            .When(x => x.Bindings is { Count: > 0 })
+            .WithMessage("Each tensor can only be bound once.");
+
+        RuleForEach(x => x.Bindings)
+            .SetValidator(new BindingValidator());
+    }
+
+    private sealed class BindingValidator : AbstractValidator<CreateTaskCommand.InferenceParameters.InferenceBinding>
+    {
+        public BindingValidator()
+        {
+            RuleFor(b => b.TensorName)
+                .NotEmpty().WithMessage("Tensor name is required for all bindings.")
+                .MaximumLength(256).WithMessage("Tensor name cannot exceed 256 characters.");
+
+            RuleFor(b => b.PayloadType)
+                .IsInEnum().WithMessage("Payload type is invalid.");
+
+            When(b => b.PayloadType == InferencePayloadType.Binary, () =>
+            {
+                RuleFor(b => b.FileUrl)
+                    .NotEmpty().WithMessage("Binary payloads must specify an uploaded file URL.")
+                    .MaximumLength(2048).WithMessage("Binary payload file URL cannot exceed 2048 characters.");
+            });
+
+            When(b => b.PayloadType != InferencePayloadType.Binary, () =>
+            {
+                RuleFor(b => b.Payload)
+                    .NotEmpty().WithMessage("Json and Text payloads must include inline content.");
+            });
+        }
+    }
+}
@@ -0,0 +1,47 @@
+using FluentValidation;
+using InfiniteGPU.Backend.Features.Tasks.Queries;
+using InfiniteGPU.Backend.Shared.Models;
+
+namespace InfiniteGPU.Backend.Features.Tasks.Validators;
+
+public class GetTaskQuoteQueryValidator : AbstractValidator<GetTaskQuoteQuery>
+{
+    public GetTaskQuoteQueryValidator()
+    {
+        RuleFor(x => x.Type)
+            .IsInEnum().WithMessage("Invalid task type.");
+
+        RuleFor(x => x)
+            .Must(query => query.ModelSizeBytes.HasValue || !string.IsNullOrWhiteSpace(query.ModelUrl))
+            .OverridePropertyName("ModelSizeBytes")
+            .WithMessage("Either the model size or the model URL is required.");
+
+        RuleFor(x => x.ModelSizeBytes)
+            .GreaterThan(0).When(x => x.ModelSizeBytes.HasValue)
+            .WithMessage("Model size must be positive.");
+
+        RuleFor(x => x.ModelUrl)
+            .MaximumLength(2048).WithMessage("Model URL is too long.");
+
+        RuleFor(x => x.InputBytes)
+            .GreaterThanOrEqualTo(0).WithMessage("Input size cannot be negative.");
+
+        RuleFor(x => x.SubtaskCount)
+            .InclusiveBetween(1, 100_000).When(x => x.SubtaskCount.HasValue)
+            .WithMessage("Subtask count must be between 1 and 100000.");
+
+        RuleFor(x => x.Train)
+            .NotNull()
+            .When(x => x.Type == TaskType.Train)
+            .WithMessage("Training parameters are required to quote a training task.");
+
+        When(x => x.Train is not null, () =>
+        {
+            RuleFor(x => x.Train!.Epochs)
+                .InclusiveBetween(1, 1000).WithMessage("Epochs must be between 1 and 1000.");
+
+            RuleFor(x => x.Train!.BatchSize)
+                .InclusiveBetween(1, 65536).WithMessage("Batch size must be between 1 and 65536.");
+        });
+    }
+}
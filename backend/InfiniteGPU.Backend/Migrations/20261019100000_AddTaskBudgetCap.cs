@@ -0,0 +1,42 @@
+﻿using InfiniteGPU.Backend.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace InfiniteGPU.Backend.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019100000_AddTaskBudgetCap")]
+    public partial class AddTaskBudgetCap : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "BudgetCapAction",
+                table: "Tasks",
+                type: "int",
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "BudgetCapAmount",
+                table: "Tasks",
+                type: "decimal(18,2)",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "BudgetCapAction",
+                table: "Tasks");
+
+            migrationBuilder.DropColumn(
+                name: "BudgetCapAmount",
+                table: "Tasks");
+        }
+    }
+}
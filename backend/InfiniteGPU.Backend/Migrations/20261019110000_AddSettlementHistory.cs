@@ -0,0 +1,141 @@
+﻿using System;
+using InfiniteGPU.Backend.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace InfiniteGPU.Backend.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019110000_AddSettlementHistory")]
+    public partial class AddSettlementHistory : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "Country",
+                table: "Settlements",
+                type: "nvarchar(2)",
+                maxLength: 2,
+                nullable: true);
+
+            migrationBuilder.AddColumn<Guid>(
+                name: "PayoutMethodId",
+                table: "Settlements",
+                type: "uniqueidentifier",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "PayoutMethods",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    UserId = table.Column<string>(type: "nvarchar(450)", nullable: false),
+                    Kind = table.Column<int>(type: "int", nullable: false),
+                    Country = table.Column<string>(type: "nvarchar(2)", maxLength: 2, nullable: false),
+                    BankName = table.Column<string>(type: "nvarchar(256)", maxLength: 256, nullable: false),
+                    AccountHolderName = table.Column<string>(type: "nvarchar(256)", maxLength: 256, nullable: false),
+                    MaskedAccount = table.Column<string>(type: "nvarchar(64)", maxLength: 64, nullable: false),
+                    Bic = table.Column<string>(type: "nvarchar(11)", maxLength: 11, nullable: true),
+                    BankAccountDetails = table.Column<string>(type: "nvarchar(1024)", maxLength: 1024, nullable: false),
+                    CreatedAtUtc = table.Column<DateTime>(type: "datetime2", nullable: false, defaultValueSql: "SYSUTCDATETIME()"),
+                    DeletedAtUtc = table.Column<DateTime>(type: "datetime2", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_PayoutMethods", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_PayoutMethods_AspNetUsers_UserId",
+                        column: x => x.UserId,
+                        principalTable: "AspNetUsers",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateTable(
+                name: "SettlementStatusTransitions",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    SettlementId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    Status = table.Column<int>(type: "int", nullable: false),
+                    Reason = table.Column<string>(type: "nvarchar(2048)", maxLength: 2048, nullable: true),
+                    OccurredAtUtc = table.Column<DateTime>(type: "datetime2", nullable: false, defaultValueSql: "SYSUTCDATETIME()")
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_SettlementStatusTransitions", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_SettlementStatusTransitions_Settlements_SettlementId",
+                        column: x => x.SettlementId,
+                        principalTable: "Settlements",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Settlements_PayoutMethodId",
+                table: "Settlements",
+                column: "PayoutMethodId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_PayoutMethods_UserId",
+                table: "PayoutMethods",
+                column: "UserId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SettlementStatusTransitions_SettlementId_OccurredAtUtc",
+                table: "SettlementStatusTransitions",
+                columns: new[] { "SettlementId", "OccurredAtUtc" });
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_Settlements_PayoutMethods_PayoutMethodId",
+                table: "Settlements",
+                column: "PayoutMethodId",
+                principalTable: "PayoutMethods",
+                principalColumn: "Id");
+
+            // Existing settlements start their history with the request and,
+            // when they already moved on, the status they are in now.
+            migrationBuilder.Sql(
+                """
+                INSERT INTO SettlementStatusTransitions (Id, SettlementId, Status, Reason, OccurredAtUtc)
+                SELECT NEWID(), Id, 0, NULL, CreatedAtUtc FROM Settlements;
+
+                INSERT INTO SettlementStatusTransitions (Id, SettlementId, Status, Reason, OccurredAtUtc)
+                SELECT NEWID(), Id, Status, FailureReason, COALESCE(CompletedAtUtc, UpdatedAtUtc, CreatedAtUtc)
+                FROM Settlements
+                WHERE Status <> 0;
+                """);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_Settlements_PayoutMethods_PayoutMethodId",
+                table: "Settlements");
+
+            migrationBuilder.DropTable(
+                name: "SettlementStatusTransitions");
+
+            migrationBuilder.DropTable(
+                name: "PayoutMethods");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Settlements_PayoutMethodId",
+                table: "Settlements");
+
+            migrationBuilder.DropColumn(
+                name: "PayoutMethodId",
+                table: "Settlements");
+
+            migrationBuilder.DropColumn(
+                name: "Country",
+                table: "Settlements");
+        }
+    }
+}
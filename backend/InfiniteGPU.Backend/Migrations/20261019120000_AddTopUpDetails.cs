@@ -0,0 +1,144 @@
+﻿using System;
+using InfiniteGPU.Backend.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace InfiniteGPU.Backend.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019120000_AddTopUpDetails")]
+    public partial class AddTopUpDetails : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "StripeCustomerId",
+                table: "AspNetUsers",
+                type: "nvarchar(255)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "InvoiceNumber",
+                table: "Payments",
+                type: "nvarchar(32)",
+                maxLength: 32,
+                nullable: false,
+                defaultValue: "");
+
+            migrationBuilder.AddColumn<string>(
+                name: "CardBrand",
+                table: "Payments",
+                type: "nvarchar(32)",
+                maxLength: 32,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "CardLast4",
+                table: "Payments",
+                type: "nvarchar(4)",
+                maxLength: 4,
+                nullable: true);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "IsAutoRecharge",
+                table: "Payments",
+                type: "bit",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ReceiptUrl",
+                table: "Payments",
+                type: "nvarchar(2048)",
+                maxLength: 2048,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "FailureReason",
+                table: "Payments",
+                type: "nvarchar(2048)",
+                maxLength: 2048,
+                nullable: true);
+
+            // Number existing top-ups per user in the order they were made.
+            migrationBuilder.Sql(@"
+WITH Numbered AS (
+    SELECT Id, CreatedAtUtc,
+           ROW_NUMBER() OVER (PARTITION BY UserId ORDER BY CreatedAtUtc, Id) AS Sequence
+    FROM Payments
+)
+UPDATE p
+SET InvoiceNumber = CONCAT('IGPU-', YEAR(n.CreatedAtUtc), '-', RIGHT(CONCAT('000000', n.Sequence), 6))
+FROM Payments p
+INNER JOIN Numbered n ON n.Id = p.Id;");
+
+            migrationBuilder.CreateTable(
+                name: "AutoRechargeRules",
+                columns: table => new
+                {
+                    UserId = table.Column<string>(type: "nvarchar(450)", nullable: false),
+                    Enabled = table.Column<bool>(type: "bit", nullable: false),
+                    ThresholdAmount = table.Column<decimal>(type: "decimal(18,6)", nullable: false),
+                    RechargeAmount = table.Column<decimal>(type: "decimal(18,6)", nullable: false),
+                    PaymentMethodId = table.Column<string>(type: "nvarchar(255)", maxLength: 255, nullable: true),
+                    LastTriggeredAtUtc = table.Column<DateTime>(type: "datetime2", nullable: true),
+                    LastFailureReason = table.Column<string>(type: "nvarchar(2048)", maxLength: 2048, nullable: true),
+                    UpdatedAtUtc = table.Column<DateTime>(type: "datetime2", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_AutoRechargeRules", x => x.UserId);
+                    table.ForeignKey(
+                        name: "FK_AutoRechargeRules_AspNetUsers_UserId",
+                        column: x => x.UserId,
+                        principalTable: "AspNetUsers",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_AutoRechargeRules_Enabled",
+                table: "AutoRechargeRules",
+                column: "Enabled");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "AutoRechargeRules");
+
+            migrationBuilder.DropColumn(
+                name: "FailureReason",
+                table: "Payments");
+
+            migrationBuilder.DropColumn(
+                name: "ReceiptUrl",
+                table: "Payments");
+
+            migrationBuilder.DropColumn(
+                name: "IsAutoRecharge",
+                table: "Payments");
+
+            migrationBuilder.DropColumn(
+                name: "CardLast4",
+                table: "Payments");
+
+            migrationBuilder.DropColumn(
+                name: "CardBrand",
+                table: "Payments");
+
+            migrationBuilder.DropColumn(
+                name: "InvoiceNumber",
+                table: "Payments");
+
+            migrationBuilder.DropColumn(
+                name: "StripeCustomerId",
+                table: "AspNetUsers");
+        }
+    }
+}
@@ -22,6 +22,51 @@ namespace InfiniteGPU.Backend.Migrations
 
             SqlServerModelBuilderExtensions.UseIdentityColumns(modelBuilder);
 
+            modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.AdminAuditLog", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<int>("Action")
+                        .HasColumnType("int");
+
+                    b.Property<string>("ActorUserId")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(450)");
+
+                    b.Property<DateTime>("CreatedAtUtc")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("datetime2")
+                        .HasDefaultValueSql("SYSUTCDATETIME()");
+
+                    b.Property<string>("MetadataJson")
+                        .HasColumnType("nvarchar(max)");
+
+                    b.Property<string>("Reason")
+                        .IsRequired()
+                        .HasMaxLength(1024)
+                        .HasColumnType("nvarchar(1024)");
+
+                    b.Property<string>("TargetId")
+                        .IsRequired()
+                        .HasMaxLength(64)
+                        .HasColumnType("nvarchar(64)");
+
+                    b.Property<int>("TargetType")
+                        .HasColumnType("int");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("ActorUserId");
+
+                    b.HasIndex("CreatedAtUtc");
+
+                    b.HasIndex("TargetType", "TargetId");
+
+                    b.ToTable("AdminAuditLogs");
+                });
+
             modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.ApiKey", b =>
                 {
                     b.Property<Guid>("Id")
@@ -135,6 +180,9 @@ namespace InfiniteGPU.Backend.Migrations
                     b.Property<string>("StripeConnectedAccountId")
                         .HasColumnType("nvarchar(255)");
 
+                    b.Property<string>("StripeCustomerId")
+                        .HasColumnType("nvarchar(255)");
+
                     b.Property<bool>("TwoFactorEnabled")
                         .HasColumnType("bit");
 
@@ -157,6 +205,41 @@ namespace InfiniteGPU.Backend.Migrations
                     b.ToTable("AspNetUsers", (string)null);
                 });
 
+            modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.AutoRechargeRule", b =>
+                {
+                    b.Property<string>("UserId")
+                        .HasColumnType("nvarchar(450)");
+
+                    b.Property<bool>("Enabled")
+                        .HasColumnType("bit");
+
+                    b.Property<string>("LastFailureReason")
+                        .HasMaxLength(2048)
+                        .HasColumnType("nvarchar(2048)");
+
+                    b.Property<DateTime?>("LastTriggeredAtUtc")
+                        .HasColumnType("datetime2");
+
+                    b.Property<string>("PaymentMethodId")
+                        .HasMaxLength(255)
+                        .HasColumnType("nvarchar(255)");
+
+                    b.Property<decimal>("RechargeAmount")
+                        .HasColumnType("decimal(18,6)");
+
+                    b.Property<decimal>("ThresholdAmount")
+                        .HasColumnType("decimal(18,6)");
+
+                    b.Property<DateTime?>("UpdatedAtUtc")
+                        .HasColumnType("datetime2");
+
+                    b.HasKey("UserId");
+
+                    b.HasIndex("Enabled");
+
+                    b.ToTable("AutoRechargeRules");
+                });
+
             modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.Device", b =>
                 {
                     b.Property<Guid>("Id")
@@ -265,11 +348,35 @@ namespace InfiniteGPU.Backend.Migrations
                     b.Property<decimal>("Amount")
                         .HasColumnType("decimal(18,6)");
 
+                    b.Property<string>("CardBrand")
+                        .HasMaxLength(32)
+                        .HasColumnType("nvarchar(32)");
+
+                    b.Property<string>("CardLast4")
+                        .HasMaxLength(4)
+                        .HasColumnType("nvarchar(4)");
+
                     b.Property<DateTime>("CreatedAtUtc")
                         .ValueGeneratedOnAdd()
                         .HasColumnType("datetime2")
                         .HasDefaultValueSql("SYSUTCDATETIME()");
 
+                    b.Property<string>("FailureReason")
+                        .HasMaxLength(2048)
+                        .HasColumnType("nvarchar(2048)");
+
+                    b.Property<string>("InvoiceNumber")
+                        .IsRequired()
+                        .HasMaxLength(32)
+                        .HasColumnType("nvarchar(32)");
+
+                    b.Property<bool>("IsAutoRecharge")
+                        .HasColumnType("bit");
+
+                    b.Property<string>("ReceiptUrl")
+                        .HasMaxLength(2048)
+                        .HasColumnType("nvarchar(2048)");
+
                     b.Property<DateTime?>("SettledAtUtc")
                         .HasColumnType("datetime2");
 
@@ -301,6 +408,63 @@ namespace InfiniteGPU.Backend.Migrations
                     b.ToTable("Payments");
                 });
 
+            modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.PayoutMethod", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<string>("AccountHolderName")
+                        .IsRequired()
+                        .HasMaxLength(256)
+                        .HasColumnType("nvarchar(256)");
+
+                    b.Property<string>("BankAccountDetails")
+                        .IsRequired()
+                        .HasMaxLength(1024)
+                        .HasColumnType("nvarchar(1024)");
+
+                    b.Property<string>("BankName")
+                        .IsRequired()
+                        .HasMaxLength(256)
+                        .HasColumnType("nvarchar(256)");
+
+                    b.Property<string>("Bic")
+                        .HasMaxLength(11)
+                        .HasColumnType("nvarchar(11)");
+
+                    b.Property<string>("Country")
+                        .IsRequired()
+                        .HasMaxLength(2)
+                        .HasColumnType("nvarchar(2)");
+
+                    b.Property<DateTime>("CreatedAtUtc")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("datetime2")
+                        .HasDefaultValueSql("SYSUTCDATETIME()");
+
+                    b.Property<DateTime?>("DeletedAtUtc")
+                        .HasColumnType("datetime2");
+
+                    b.Property<int>("Kind")
+                        .HasColumnType("int");
+
+                    b.Property<string>("MaskedAccount")
+                        .IsRequired()
+                        .HasMaxLength(64)
+                        .HasColumnType("nvarchar(64)");
+
+                    b.Property<string>("UserId")
+                        .IsRequired()
+                        .HasColumnType("nvarchar(450)");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("UserId");
+
+                    b.ToTable("PayoutMethods");
+                });
+
             modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.ProviderModelCache", b =>
                 {
                     b.Property<Guid>("Id")
@@ -348,6 +512,10 @@ namespace InfiniteGPU.Backend.Migrations
                     b.Property<DateTime?>("CompletedAtUtc")
                         .HasColumnType("datetime2");
 
+                    b.Property<string>("Country")
+                        .HasMaxLength(2)
+                        .HasColumnType("nvarchar(2)");
+
                     b.Property<DateTime>("CreatedAtUtc")
                         .ValueGeneratedOnAdd()
                         .HasColumnType("datetime2")
@@ -357,6 +525,9 @@ namespace InfiniteGPU.Backend.Migrations
                         .HasMaxLength(2048)
                         .HasColumnType("nvarchar(2048)");
 
+                    b.Property<Guid?>("PayoutMethodId")
+                        .HasColumnType("uniqueidentifier");
+
                     b.Property<int>("Status")
                         .HasColumnType("int");
 
@@ -375,6 +546,8 @@ namespace InfiniteGPU.Backend.Migrations
 
                     b.HasIndex("CreatedAtUtc");
 
+                    b.HasIndex("PayoutMethodId");
+
                     b.HasIndex("Status");
 
                     b.HasIndex("UserId");
@@ -382,6 +555,34 @@ namespace InfiniteGPU.Backend.Migrations
                     b.ToTable("Settlements");
                 });
 
+            modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.SettlementStatusTransition", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<DateTime>("OccurredAtUtc")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("datetime2")
+                        .HasDefaultValueSql("SYSUTCDATETIME()");
+
+                    b.Property<string>("Reason")
+                        .HasMaxLength(2048)
+                        .HasColumnType("nvarchar(2048)");
+
+                    b.Property<Guid>("SettlementId")
+                        .HasColumnType("uniqueidentifier");
+
+                    b.Property<int>("Status")
+                        .HasColumnType("int");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("SettlementId", "OccurredAtUtc");
+
+                    b.ToTable("SettlementStatusTransitions");
+                });
+
             modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.Subtask", b =>
                 {
                     b.Property<Guid>("Id")
@@ -527,6 +728,12 @@ namespace InfiniteGPU.Backend.Migrations
                         .ValueGeneratedOnAdd()
                         .HasColumnType("uniqueidentifier");
 
+                    b.Property<int?>("BudgetCapAction")
+                        .HasColumnType("int");
+
+                    b.Property<decimal?>("BudgetCapAmount")
+                        .HasColumnType("decimal(18,2)");
+
                     b.Property<DateTime?>("CompletedAt")
                         .HasColumnType("datetime2");
 
@@ -769,6 +976,17 @@ namespace InfiniteGPU.Backend.Migrations
                     b.ToTable("AspNetUserTokens", (string)null);
                 });
 
+            modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.AdminAuditLog", b =>
+                {
+                    b.HasOne("InfiniteGPU.Backend.Data.Entities.ApplicationUser", "Actor")
+                        .WithMany()
+                        .HasForeignKey("ActorUserId")
+                        .OnDelete(DeleteBehavior.Restrict)
+                        .IsRequired();
+
+                    b.Navigation("Actor");
+                });
+
             modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.ApiKey", b =>
                 {
                     b.HasOne("InfiniteGPU.Backend.Data.Entities.ApplicationUser", "User")
@@ -780,6 +998,17 @@ namespace InfiniteGPU.Backend.Migrations
                     b.Navigation("User");
                 });
 
+            modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.AutoRechargeRule", b =>
+                {
+                    b.HasOne("InfiniteGPU.Backend.Data.Entities.ApplicationUser", "User")
+                        .WithOne()
+                        .HasForeignKey("InfiniteGPU.Backend.Data.Entities.AutoRechargeRule", "UserId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("User");
+                });
+
             modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.Device", b =>
                 {
                     b.HasOne("InfiniteGPU.Backend.Data.Entities.ApplicationUser", "Provider")
@@ -829,6 +1058,17 @@ namespace InfiniteGPU.Backend.Migrations
                     b.Navigation("User");
                 });
 
+            modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.PayoutMethod", b =>
+                {
+                    b.HasOne("InfiniteGPU.Backend.Data.Entities.ApplicationUser", "User")
+                        .WithMany()
+                        .HasForeignKey("UserId")
+                        .OnDelete(DeleteBehavior.Restrict)
+                        .IsRequired();
+
+                    b.Navigation("User");
+                });
+
             modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.ProviderModelCache", b =>
                 {
                     b.HasOne("InfiniteGPU.Backend.Data.Entities.ApplicationUser", "Provider")
@@ -842,15 +1082,33 @@ namespace InfiniteGPU.Backend.Migrations
 
             modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.Settlement", b =>
                 {
+                    b.HasOne("InfiniteGPU.Backend.Data.Entities.PayoutMethod", "PayoutMethod")
+                        .WithMany()
+                        .HasForeignKey("PayoutMethodId")
+                        .OnDelete(DeleteBehavior.NoAction);
+
                     b.HasOne("InfiniteGPU.Backend.Data.Entities.ApplicationUser", "User")
                         .WithMany()
                         .HasForeignKey("UserId")
                         .OnDelete(DeleteBehavior.Restrict)
                         .IsRequired();
 
+                    b.Navigation("PayoutMethod");
+
                     b.Navigation("User");
                 });
 
+            modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.SettlementStatusTransition", b =>
+                {
+                    b.HasOne("InfiniteGPU.Backend.Data.Entities.Settlement", "Settlement")
+                        .WithMany("Transitions")
+                        .HasForeignKey("SettlementId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Settlement");
+                });
+
             modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.Subtask", b =>
                 {
                     b.HasOne("InfiniteGPU.Backend.Data.Entities.ApplicationUser", "AssignedProvider")
@@ -1055,6 +1313,11 @@ namespace InfiniteGPU.Backend.Migrations
                     b.Navigation("Subtasks");
                 });
 
+            modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.Settlement", b =>
+                {
+                    b.Navigation("Transitions");
+                });
+
             modelBuilder.Entity("InfiniteGPU.Backend.Data.Entities.Subtask", b =>
                 {
                     b.Navigation("Earnings");
@@ -19,6 +19,8 @@ using InfiniteGPU.Backend.Features.Tasks.Endpoints;
 using InfiniteGPU.Backend.Features.Inference.Endpoints;
 using InfiniteGPU.Backend.Features.Finance.Endpoints;
 using InfiniteGPU.Backend.Features.Subtasks.Endpoints;
+using InfiniteGPU.Backend.Features.Admin.Endpoints;
+using InfiniteGPU.Backend.Shared.Models;
 using InfiniteGPU.Backend.Shared.Hubs;
 
 Env.TraversePath().Load();
@@ -39,7 +41,8 @@ builder.Services.AddCors(options =>
         policy.WithOrigins(frontendOptions!.AllowedOrigins)
               .AllowAnyHeader()
               .AllowAnyMethod()
-              .AllowCredentials();
+              .AllowCredentials()
+              .WithExposedHeaders("X-Correlation-ID");
     });
 });
 
@@ -48,6 +51,13 @@ builder.Services.Configure<Microsoft.AspNetCore.Http.Json.JsonOptions>(opt =>
     opt.SerializerOptions.Converters.Add(new JsonStringEnumConverter());
 });
 
+// Swashbuckle builds schemas from the MVC serializer options; enums have to be
+// strings there as well for the OpenAPI document to match the wire format.
+builder.Services.Configure<Microsoft.AspNetCore.Mvc.JsonOptions>(opt =>
+{
+    opt.JsonSerializerOptions.Converters.Add(new JsonStringEnumConverter());
+});
+
 // Database
 builder.Services.AddDbContext<AppDbContext>(options =>
     options.UseSqlServer(builder.Configuration.GetConnectionString("DefaultConnection")));
@@ -68,6 +78,7 @@ builder.Services.AddIdentity<ApplicationUser, IdentityRole>(options =>
 builder.Services.AddEndpointsApiExplorer();
 builder.Services.AddSwaggerGen(options =>
 {
+    options.SupportNonNullableReferenceTypes();
     options.SwaggerDoc("v1", new OpenApiInfo
     {
         Title = "InfiniteGPU API",
@@ -137,7 +148,10 @@ builder.Services.AddAuthentication(options =>
     };
 });
 
-builder.Services.AddAuthorization();
+builder.Services.AddAuthorization(options =>
+{
+    options.AddPolicy(UserRoles.AdminPolicy, policy => policy.RequireRole(UserRoles.Admin));
+});
 
 // MediatR
 builder.Services.AddMediatR(cfg => cfg.RegisterServicesFromAssembly(typeof(Program).Assembly));
@@ -154,6 +168,7 @@ builder.Services.AddOptions<AzureStorageOptions>()
     .Validate(options => !string.IsNullOrWhiteSpace(options.ConnectionString), "Azure storage connection string must be provided.");
 
 builder.Services.Configure<MailgunOptions>(builder.Configuration.GetSection("Mailgun"));
+builder.Services.Configure<AdminOptions>(builder.Configuration.GetSection("Admin"));
 
 // Application services
 builder.Services.AddSingleton(sp =>
@@ -165,6 +180,10 @@ builder.Services.AddSingleton(sp =>
 builder.Services.AddScoped<ITaskUploadUrlService, TaskUploadUrlService>();
 builder.Services.AddScoped<JwtService>();
 builder.Services.AddScoped<TaskAssignmentService>();
+builder.Services.AddScoped<SettlementPayoutService>();
+builder.Services.AddScoped<FinanceLedgerService>();
+builder.Services.AddScoped<TopUpService>();
+builder.Services.AddHostedService<AutoRechargeWorker>();
 builder.Services.AddScoped<ApiKeyAuthenticationService>();
 builder.Services.AddHttpClient<MailgunEmailSender>();
 builder.Services.AddTransient<IEmailSender, MailgunEmailSender>();
@@ -172,6 +191,8 @@ builder.Services.AddTransient<IEmailSender, MailgunEmailSender>();
 
 var app = builder.Build();
 
+await AdminRoleInitializer.InitializeAsync(app.Services);
+
 if (app.Environment.IsDevelopment())
 {
     app.UseSwagger();
@@ -184,6 +205,14 @@ if (app.Environment.IsDevelopment())
 
 // Configure the HTTP request pipeline.
 
+// The trace identifier is the RequestId on every log entry of the request, so
+// the client can quote it when reporting a failure.
+app.Use(async (context, next) =>
+{
+    context.Response.Headers["X-Correlation-ID"] = context.TraceIdentifier;
+    await next(context);
+});
+
 app.UseCors();
 app.UseAuthentication();
 app.UseAuthorization();
@@ -195,6 +224,7 @@ app.MapProviderSubtaskEndpoints();
 app.MapFinanceEndpoints();
 app.MapStripeWebhookEndpoints();
 app.MapInferenceEndpoints();
+app.MapAdminEndpoints();
 
 app.MapHub<TaskHub>("/taskhub");
 
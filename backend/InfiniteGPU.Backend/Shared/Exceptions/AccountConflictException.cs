@@ -0,0 +1,16 @@
+namespace InfiniteGPU.Backend.Shared.Exceptions;
+
+/// <summary>
+/// Registration collided with an existing account; <see cref="Code"/> is
+/// <c>email_taken</c> or <c>username_taken</c>.
+/// </summary>
+public sealed class AccountConflictException : Exception
+{
+    public AccountConflictException(string code, string message)
+        : base(message)
+    {
+        Code = code;
+    }
+
+    public string Code { get; }
+}
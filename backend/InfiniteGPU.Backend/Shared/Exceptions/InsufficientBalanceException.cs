@@ -0,0 +1,12 @@
+namespace InfiniteGPU.Backend.Shared.Exceptions;
+
+/// <summary>
+/// The account balance does not cover the requested work.
+/// </summary>
+public sealed class InsufficientBalanceException : InvalidOperationException
+{
+    public InsufficientBalanceException(string message)
+        : base(message)
+    {
+    }
+}
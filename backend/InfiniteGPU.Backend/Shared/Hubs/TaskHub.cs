@@ -34,6 +34,7 @@ public class TaskHub : Hub
     public const string OnAvailableSubtasksChangedEvent = "OnAvailableSubtasksChanged";
     public const string OnExecutionRequestedEvent = "OnExecutionRequested";
     public const string OnExecutionAcknowledgedEvent = "OnExecutionAcknowledged";
+    public const string OnDeviceRegisteredEvent = "OnDeviceRegistered";
 
     public TaskHub(
         AppDbContext context,
@@ -47,8 +48,6 @@ public class TaskHub : Hub
 
     private string? CurrentUserId => Context.User?.FindFirstValue(ClaimTypes.NameIdentifier);
 
-    private Guid CurrentDeviceId => ConnectionToDeviceMap[Context.ConnectionId];
-
     public static string UserGroupName(string userId) => $"User_{userId}";
 
     public static string ProviderGroupName(string userId) => $"Provider_{userId}";
@@ -77,6 +76,13 @@ public class TaskHub : Hub
                     if (deviceId.HasValue)
                     {
                         ConnectionToDeviceMap[Context.ConnectionId] = deviceId.Value;
+
+                        // The client only accepts subtasks over this connection once it has seen this.
+                        await Clients.Caller.SendAsync(OnDeviceRegisteredEvent, new
+                        {
+                            deviceId = deviceId.Value,
+                            deviceIdentifier
+                        }, Context.ConnectionAborted);
                     }
                 }
                 catch (Exception ex)
@@ -209,10 +215,15 @@ public class TaskHub : Hub
             providerUserId,
             subtaskId);
 
+        if (!ConnectionToDeviceMap.TryGetValue(Context.ConnectionId, out var deviceId))
+        {
+            throw new HubException("Connect with a device identifier to accept subtasks.");
+        }
+
         var assignment = await _assignmentService.AcceptSubtaskAsync(
             subtaskId,
             providerUserId,
-            CurrentDeviceId,
+            deviceId,
             Context.ConnectionAborted);
 
         if (assignment is null)
@@ -304,6 +315,11 @@ public class TaskHub : Hub
             resultsPayload,
             Context.ConnectionAborted);
 
+        if (completion.BudgetCapReached)
+        {
+            await BroadcastTaskStatusChangedAsync(Clients, completion.Subtask.Task, Context.ConnectionAborted);
+        }
+
         await DispatchPendingSubtaskAsync(Context.ConnectionAborted);
     }
 
@@ -407,6 +423,95 @@ public class TaskHub : Hub
         return BroadcastFailureAsync(hubContext.Clients, subtask, providerUserId, wasReassigned, taskFailed, errorPayload, cancellationToken);
     }
 
+    public static Task OnSubtaskCreated(IHubContext<TaskHub> hubContext, Subtask subtask, CancellationToken cancellationToken = default)
+    {
+        if (hubContext is null)
+        {
+            throw new ArgumentNullException(nameof(hubContext));
+        }
+
+        return BroadcastSubtaskCreatedAsync(hubContext.Clients, subtask, cancellationToken);
+    }
+
+    public static Task OnTaskStatusChanged(IHubContext<TaskHub> hubContext, Data.Entities.Task task, CancellationToken cancellationToken = default)
+    {
+        if (hubContext is null)
+        {
+            throw new ArgumentNullException(nameof(hubContext));
+        }
+
+        return BroadcastTaskStatusChangedAsync(hubContext.Clients, task, cancellationToken);
+    }
+
+    private static async Task BroadcastSubtaskCreatedAsync(
+        IHubClients<IClientProxy> clients,
+        Subtask subtask,
+        CancellationToken cancellationToken)
+    {
+        var dto = SubtaskMapping.CreateDto(subtask, isRequestorView: false);
+        var taskDto = subtask.Task is null ? null : BuildTaskDto(subtask.Task);
+        var timestampUtc = DateTime.UtcNow;
+
+        var broadcasts = new List<Task>
+        {
+            clients.Group(ProvidersGroupName)
+                .SendAsync(OnAvailableSubtasksChangedEvent, new
+                {
+                    SubtaskId = subtask.Id,
+                    TaskId = subtask.TaskId,
+                    Status = subtask.Status,
+                    CreatedByUserId = subtask.Task?.UserId,
+                    TimestampUtc = timestampUtc,
+                    Subtask = dto
+                }, cancellationToken)
+        };
+
+        if (subtask.Task is not null)
+        {
+            broadcasts.Add(
+                clients.Group(UserGroupName(subtask.Task.UserId))
+                    .SendAsync("TaskUpdated", taskDto!, cancellationToken));
+        }
+
+        await Task.WhenAll(broadcasts);
+    }
+
+    /// <summary>
+    /// Tells the owner about a paused, resumed or cancelled task and lets
+    /// providers add or drop its pending and withdrawn subtasks.
+    /// <c>TaskStatus</c> tells providers whether a pending subtask is on offer.
+    /// </summary>
+    private static async Task BroadcastTaskStatusChangedAsync(
+        IHubClients<IClientProxy> clients,
+        Data.Entities.Task task,
+        CancellationToken cancellationToken)
+    {
+        var timestampUtc = DateTime.UtcNow;
+
+        var broadcasts = new List<Task>
+        {
+            clients.Group(UserGroupName(task.UserId))
+                .SendAsync("TaskUpdated", BuildTaskDto(task), cancellationToken)
+        };
+
+        foreach (var subtask in task.Subtasks.Where(s => s.Status is SubtaskStatus.Pending or SubtaskStatus.Cancelled))
+        {
+            broadcasts.Add(
+                clients.Group(ProvidersGroupName)
+                    .SendAsync(OnAvailableSubtasksChangedEvent, new
+                    {
+                        SubtaskId = subtask.Id,
+                        TaskId = task.Id,
+                        Status = subtask.Status,
+                        TaskStatus = task.Status,
+                        TimestampUtc = timestampUtc,
+                        Subtask = SubtaskMapping.CreateDto(subtask, isRequestorView: false)
+                    }, cancellationToken));
+        }
+
+        await Task.WhenAll(broadcasts);
+    }
+
     private static async Task BroadcastSubtaskAcceptedAsync(
         IHubClients<IClientProxy> clients,
         Subtask subtask,
@@ -1030,15 +1135,19 @@ public class TaskHub : Hub
         return sortedDevices;
     }
 
-    public static TaskDto BuildTaskDto(Data.Entities.Task task)
+    public static TaskDto BuildTaskDto(Data.Entities.Task task) => BuildTaskDto<TaskDto>(task);
+
+    public static TDto BuildTaskDto<TDto>(Data.Entities.Task task)
+        where TDto : TaskDto, new()
     {
-        return new TaskDto
+        var dto = new TDto
         {
             Id = task.Id,
             Type = task.Type,
             Status = task.Status,
             EstimatedCost = task.EstimatedCost,
             FillBindingsViaApi = task.FillBindingsViaApi,
+            BudgetCap = TaskDto.BudgetCapDto.FromTask(task),
             Inference = task.InferenceBindings.Any() || task.OutputBindings.Any()
                 ? new TaskDto.InferenceParametersDto
                 {
@@ -1061,8 +1170,10 @@ public class TaskHub : Hub
                         .ToList()
                 }
                 : null,
-            CreatedAt = task.CreatedAt,
-            SubtasksCount = task.Subtasks.Count
+            CreatedAt = task.CreatedAt
         };
+        dto.ApplyProgress(task);
+
+        return dto;
     }
 }
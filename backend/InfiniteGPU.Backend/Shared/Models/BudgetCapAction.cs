@@ -0,0 +1,10 @@
+namespace InfiniteGPU.Backend.Shared.Models;
+
+/// <summary>
+/// What happens to a task once its budget cap has been billed.
+/// </summary>
+public enum BudgetCapAction
+{
+    Pause = 0,
+    Fail = 1
+}
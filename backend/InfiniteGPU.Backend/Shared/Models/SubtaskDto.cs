@@ -1,6 +1,6 @@
 namespace InfiniteGPU.Backend.Shared.Models;
 
-public sealed class SubtaskDto
+public class SubtaskDto
 {
     public Guid Id { get; init; }
 
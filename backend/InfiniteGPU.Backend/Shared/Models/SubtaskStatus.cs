@@ -17,5 +17,8 @@ public enum SubtaskStatus
     Completed = 3,
 
     [Description("Failed")]
-    Failed = 4
+    Failed = 4,
+
+    [Description("Cancelled")]
+    Cancelled = 5
 }
\ No newline at end of file
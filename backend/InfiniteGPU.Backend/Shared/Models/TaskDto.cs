@@ -20,16 +20,67 @@ public class TaskDto
 
     public bool FillBindingsViaApi { get; set; }
 
+    public BudgetCapDto? BudgetCap { get; set; }
+
     public TaskDto.InferenceParametersDto? Inference { get; set; }
 
     public string? ApiKey { get; set; }
 
     public DateTime CreatedAt { get; set; }
 
+    public DateTime? UpdatedAt { get; set; }
+
+    public DateTime? CompletedAt { get; set; }
+
+    public DateTime? LastProgressAtUtc { get; set; }
+
+    public DateTime? LastHeartbeatAtUtc { get; set; }
+
+    public decimal CompletionPercent { get; set; }
+
     public int SubtasksCount { get; set; }
 
+    public int CompletedSubtasksCount { get; set; }
+
+    public int FailedSubtasksCount { get; set; }
+
+    /// <summary>Subtasks assigned to a provider or executing.</summary>
+    public int ActiveSubtasksCount { get; set; }
+
+    /// <summary>Sum of the subtask charges; null until a subtask has been charged.</summary>
+    public decimal? CostUsd { get; set; }
+
     public double DurationSeconds { get; set; }
 
+    /// <summary>
+    /// Copies the progress columns and subtask rollups; the subtasks must be loaded.
+    /// </summary>
+    public void ApplyProgress(Data.Entities.Task task)
+    {
+        UpdatedAt = task.UpdatedAt;
+        CompletedAt = task.CompletedAt;
+        LastProgressAtUtc = task.LastProgressAtUtc;
+        LastHeartbeatAtUtc = task.LastHeartbeatAtUtc;
+        CompletionPercent = task.CompletionPercent;
+        SubtasksCount = task.Subtasks.Count;
+        CompletedSubtasksCount = task.Subtasks.Count(s => s.Status == SubtaskStatus.Completed);
+        FailedSubtasksCount = task.Subtasks.Count(s => s.Status == SubtaskStatus.Failed);
+        ActiveSubtasksCount = task.Subtasks.Count(s => s.Status is SubtaskStatus.Assigned or SubtaskStatus.Executing);
+        CostUsd = task.Subtasks.Any(s => s.CostUsd.HasValue) ? task.Subtasks.Sum(s => s.CostUsd) : null;
+    }
+
+    public sealed class BudgetCapDto
+    {
+        public decimal Amount { get; set; }
+
+        public BudgetCapAction OnExceeded { get; set; }
+
+        public static BudgetCapDto? FromTask(Data.Entities.Task task)
+            => task.BudgetCapAmount is { } amount
+                ? new BudgetCapDto { Amount = amount, OnExceeded = task.BudgetCapAction ?? BudgetCapAction.Pause }
+                : null;
+    }
+
     public sealed class TrainParametersDto
     {
         public int Epochs { get; set; }
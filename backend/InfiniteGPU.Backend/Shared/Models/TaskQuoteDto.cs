@@ -0,0 +1,20 @@
+namespace InfiniteGPU.Backend.Shared.Models;
+
+/// <summary>
+/// Price estimate for a task before it is submitted. Amounts include the
+/// requestor markup and are billed in the same currency as the balance.
+/// </summary>
+public sealed class TaskQuoteDto
+{
+    public long ModelSizeBytes { get; init; }
+
+    public long InputBytes { get; init; }
+
+    public int ExpectedSubtaskCount { get; init; }
+
+    public decimal PricePerSubtask { get; init; }
+
+    public decimal EstimatedCost { get; init; }
+
+    public DateTime GeneratedAtUtc { get; init; }
+}
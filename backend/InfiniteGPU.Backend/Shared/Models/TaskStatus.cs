@@ -17,5 +17,11 @@ public enum TaskStatus
     Completed = 3,
 
     [Description("Failed")]
-    Failed = 4
+    Failed = 4,
+
+    [Description("Paused")]
+    Paused = 5,
+
+    [Description("Cancelled")]
+    Cancelled = 6
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+namespace InfiniteGPU.Backend.Shared.Models;
+
+public static class UserRoles
+{
+    public const string Admin = "Admin";
+
+    /// <summary>
+    /// Authorization policy guarding the <c>/api/admin</c> endpoints.
+    /// </summary>
+    public const string AdminPolicy = "AdminOnly";
+}
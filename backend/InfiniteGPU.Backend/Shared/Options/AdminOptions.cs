@@ -0,0 +1,10 @@
+namespace InfiniteGPU.Backend.Shared.Options;
+
+public sealed class AdminOptions
+{
+    /// <summary>
+    /// Accounts granted the Admin role at startup; the role has no other way
+    /// to be assigned.
+    /// </summary>
+    public string[] Emails { get; set; } = Array.Empty<string>();
+}
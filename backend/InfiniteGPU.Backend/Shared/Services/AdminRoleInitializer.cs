@@ -0,0 +1,67 @@
+using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Shared.Models;
+using InfiniteGPU.Backend.Shared.Options;
+using Microsoft.AspNetCore.Identity;
+using Microsoft.Extensions.Options;
+using Task = System.Threading.Tasks.Task;
+
+namespace InfiniteGPU.Backend.Shared.Services;
+
+/// <summary>
+/// Creates the Admin role and grants it to the accounts listed under
+/// <c>Admin:Emails</c>. Accounts that do not exist yet are picked up on the
+/// next start after they register.
+/// </summary>
+public static class AdminRoleInitializer
+{
+    public static async Task InitializeAsync(IServiceProvider services, CancellationToken cancellationToken = default)
+    {
+        await using var scope = services.CreateAsyncScope();
+        var roleManager = scope.ServiceProvider.GetRequiredService<RoleManager<IdentityRole>>();
+        var userManager = scope.ServiceProvider.GetRequiredService<UserManager<ApplicationUser>>();
+        var options = scope.ServiceProvider.GetRequiredService<IOptions<AdminOptions>>().Value;
+        var logger = scope.ServiceProvider.GetRequiredService<ILoggerFactory>().CreateLogger(nameof(AdminRoleInitializer));
+
+        if (!await roleManager.RoleExistsAsync(UserRoles.Admin))
+        {
+            var created = await roleManager.CreateAsync(new IdentityRole(UserRoles.Admin));
+            if (!created.Succeeded)
+            {
+                logger.LogError("Unable to create the {Role} role: {Errors}",
+                    UserRoles.Admin,
+                    string.Join(", ", created.Errors.Select(e => e.Description)));
+                return;
+            }
+        }
+
+        foreach (var email in options.Emails.Where(e => !string.IsNullOrWhiteSpace(e)))
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+
+            var user = await userManager.FindByEmailAsync(email);
+            if (user is null)
+            {
+                logger.LogWarning("Admin account {Email} is not registered yet", email);
+                continue;
+            }
+
+            if (await userManager.IsInRoleAsync(user, UserRoles.Admin))
+            {
+                continue;
+            }
+
+            var granted = await userManager.AddToRoleAsync(user, UserRoles.Admin);
+            if (granted.Succeeded)
+            {
+                logger.LogInformation("Granted the {Role} role to {Email}", UserRoles.Admin, email);
+            }
+            else
+            {
+                logger.LogError("Unable to grant the {Role} role to {Email}: {Errors}",
+                    UserRoles.Admin,
+                    email,
+                    string.Join(", ", granted.Errors.Select(e => e.Description)));
+            }
+        }
+    }
+}
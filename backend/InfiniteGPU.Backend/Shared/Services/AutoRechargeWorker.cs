@@ -0,0 +1,62 @@
+using InfiniteGPU.Backend.Data;
+using Microsoft.EntityFrameworkCore;
+
+namespace InfiniteGPU.Backend.Shared.Services;
+
+/// <summary>
+/// Checks every minute for balances that fell below their auto-recharge
+/// threshold and charges the rule's saved card.
+/// </summary>
+public sealed class AutoRechargeWorker : BackgroundService
+{
+    private static readonly TimeSpan PollInterval = TimeSpan.FromMinutes(1);
+
+    // Gives the webhook time to settle a charge that is still processing and
+    // keeps a declined card from being retried every minute.
+    private static readonly TimeSpan Cooldown = TimeSpan.FromMinutes(15);
+
+    private readonly IServiceScopeFactory _serviceScopeFactory;
+    private readonly ILogger<AutoRechargeWorker> _logger;
+
+    public AutoRechargeWorker(IServiceScopeFactory serviceScopeFactory, ILogger<AutoRechargeWorker> logger)
+    {
+        _serviceScopeFactory = serviceScopeFactory;
+        _logger = logger;
+    }
+
+    protected override async System.Threading.Tasks.Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        using var timer = new PeriodicTimer(PollInterval);
+        while (await timer.WaitForNextTickAsync(stoppingToken))
+        {
+            try
+            {
+                await RechargeDueAccountsAsync(stoppingToken);
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogError(ex, "Auto-recharge run failed");
+            }
+        }
+    }
+
+    private async System.Threading.Tasks.Task RechargeDueAccountsAsync(CancellationToken cancellationToken)
+    {
+        using var scope = _serviceScopeFactory.CreateScope();
+        var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+        var topUpService = scope.ServiceProvider.GetRequiredService<TopUpService>();
+
+        var cutoff = DateTime.UtcNow - Cooldown;
+        var dueRules = await context.AutoRechargeRules
+            .Where(r => r.Enabled
+                && r.PaymentMethodId != null
+                && r.User.Balance < r.ThresholdAmount
+                && (r.LastTriggeredAtUtc == null || r.LastTriggeredAtUtc < cutoff))
+            .ToListAsync(cancellationToken);
+
+        foreach (var rule in dueRules)
+        {
+            await topUpService.RunAutoRechargeAsync(rule, cancellationToken);
+        }
+    }
+}
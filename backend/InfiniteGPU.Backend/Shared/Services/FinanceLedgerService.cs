@@ -0,0 +1,283 @@
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Features.Finance.Models;
+using Microsoft.EntityFrameworkCore;
+
+namespace InfiniteGPU.Backend.Shared.Services;
+
+/// <summary>
+/// Projects a user's earnings, subtask charges, settlements and top-ups into
+/// one ledger, oldest first. The running balance is anchored on the stored
+/// account balance; entries that never moved money (a pending top-up, a
+/// rejected settlement) carry the previous balance unchanged.
+/// </summary>
+public sealed class FinanceLedgerService
+{
+    private readonly AppDbContext _context;
+
+    public FinanceLedgerService(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<FinanceLedger> LoadAsync(string userId, CancellationToken cancellationToken)
+    {
+        var user = await _context.Users
+            .AsNoTracking()
+            .Where(u => u.Id == userId)
+            .Select(u => new { u.Balance })
+            .FirstOrDefaultAsync(cancellationToken);
+
+        var balance = user?.Balance ?? 0m;
+
+        var earnings = await _context.Earnings
+            .AsNoTracking()
+            .Where(e => e.ProviderUserId == userId)
+            .Select(e => new EarningProjection(
+                e.Id,
+                e.TaskId,
+                e.Amount,
+                e.Status,
+                e.CreatedAtUtc,
+                e.UpdatedAtUtc,
+                e.PaidAtUtc))
+            .ToListAsync(cancellationToken);
+
+        var withdrawals = await _context.Withdrawals
+            .AsNoTracking()
+            .Where(w => w.RequestorUserId == userId)
+            .Select(w => new WithdrawalProjection(
+                w.Id,
+                w.TaskId,
+                w.SubtaskId,
+                w.Amount,
+                w.Status,
+                w.CreatedAtUtc,
+                w.UpdatedAtUtc,
+                w.SettledAtUtc))
+            .ToListAsync(cancellationToken);
+
+        var settlements = await _context.Settlements
+            .AsNoTracking()
+            .Where(s => s.UserId == userId)
+            .Select(s => new SettlementProjection(
+                s.Id,
+                s.Amount,
+                s.Status,
+                s.CreatedAtUtc,
+                s.UpdatedAtUtc,
+                s.CompletedAtUtc))
+            .ToListAsync(cancellationToken);
+
+        var payments = await _context.Payments
+            .AsNoTracking()
+            .Where(p => p.UserId == userId)
+            .Select(p => new PaymentProjection(
+                p.Id,
+                p.Amount,
+                p.Status,
+                p.CreatedAtUtc,
+                p.UpdatedAtUtc,
+                p.SettledAtUtc))
+            .ToListAsync(cancellationToken);
+
+        var relatedTaskIds = earnings.Select(c => c.TaskId)
+            .Concat(withdrawals.Select(d => d.TaskId))
+            .Where(id => id != Guid.Empty)
+            .Distinct()
+            .ToArray();
+
+        var taskLookup = relatedTaskIds.Length == 0
+            ? new Dictionary<Guid, TaskSnapshot>()
+            : await _context.Tasks
+                .AsNoTracking()
+                .Where(t => relatedTaskIds.Contains(t.Id))
+                .Select(t => new TaskSnapshot(t.Id, t.OnnxModelBlobUri))
+                .ToDictionaryAsync(t => t.Id, cancellationToken);
+
+        var projections = BuildLedgerEntries(earnings, withdrawals, settlements, payments, taskLookup)
+            .OrderBy(entry => entry.OccurredAtUtc)
+            .ThenBy(entry => entry.EntryId, StringComparer.Ordinal)
+            .ToList();
+
+        // Walk forward from the balance the account must have started with for
+        // the recorded movements to end on the stored balance.
+        var openingBalance = balance - projections.Sum(entry => entry.BalanceDelta);
+        var running = openingBalance;
+        var entries = new List<FinanceLedgerEntryDto>(projections.Count);
+        foreach (var entry in projections)
+        {
+            running += entry.BalanceDelta;
+            entries.Add(new FinanceLedgerEntryDto(
+                entry.EntryId,
+                entry.Kind,
+                entry.Title,
+                entry.Detail,
+                entry.Amount,
+                entry.OccurredAtUtc,
+                running,
+                entry.TaskId,
+                entry.Source));
+        }
+
+        return new FinanceLedger(balance, openingBalance, earnings, withdrawals, settlements, payments, entries);
+    }
+
+    private static List<LedgerProjection> BuildLedgerEntries(
+        IEnumerable<EarningProjection> credits,
+        IEnumerable<WithdrawalProjection> withdrawals,
+        IEnumerable<SettlementProjection> settlements,
+        IEnumerable<PaymentProjection> payments,
+        IReadOnlyDictionary<Guid, TaskSnapshot> taskLookup)
+    {
+        var result = new List<LedgerProjection>();
+
+        // Earnings and charges move the balance as soon as they are recorded.
+        foreach (var credit in credits)
+        {
+            var occurredAt = credit.PaidAtUtc ?? credit.UpdatedAtUtc ?? credit.CreatedAtUtc;
+            taskLookup.TryGetValue(credit.TaskId, out var taskSnapshot);
+
+            result.Add(new LedgerProjection
+            {
+                EntryId = credit.Id.ToString(),
+                Kind = FinanceLedgerEntryKind.Credit,
+                Title = $"Earning for task {credit.TaskId:N}",
+                Detail = taskSnapshot?.ModelUrl,
+                Amount = credit.Amount,
+                OccurredAtUtc = occurredAt,
+                TaskId = credit.TaskId,
+                Source = "escrow",
+                BalanceDelta = credit.Amount
+            });
+        }
+
+        foreach (var withdrawal in withdrawals)
+        {
+            var occurredAt = withdrawal.SettledAtUtc ?? withdrawal.UpdatedAtUtc ?? withdrawal.CreatedAtUtc;
+            taskLookup.TryGetValue(withdrawal.TaskId, out var taskSnapshot);
+
+            result.Add(new LedgerProjection
+            {
+                EntryId = withdrawal.Id.ToString(),
+                Kind = FinanceLedgerEntryKind.Debit,
+                Title = $"Charge for subtask {withdrawal.SubtaskId:N}",
+                Detail = taskSnapshot?.ModelUrl,
+                Amount = withdrawal.Amount,
+                OccurredAtUtc = occurredAt,
+                TaskId = withdrawal.TaskId,
+                Source = "escrow",
+                BalanceDelta = -withdrawal.Amount
+            });
+        }
+
+        // Settlements are deducted once Stripe accepted the payout and given
+        // back when it fails.
+        foreach (var settlement in settlements)
+        {
+            var occurredAt = settlement.CompletedAtUtc ?? settlement.UpdatedAtUtc ?? settlement.CreatedAtUtc;
+            var deducted = settlement.Status is SettlementStatus.Processing or SettlementStatus.Completed;
+
+            result.Add(new LedgerProjection
+            {
+                EntryId = settlement.Id.ToString(),
+                Kind = FinanceLedgerEntryKind.Debit,
+                Title = "Settlement payout",
+                Detail = $"Bank transfer ({settlement.Status})",
+                Amount = settlement.Amount,
+                OccurredAtUtc = occurredAt,
+                TaskId = null,
+                Source = "settlement",
+                BalanceDelta = deducted ? -settlement.Amount : 0m
+            });
+        }
+
+        foreach (var payment in payments)
+        {
+            var occurredAt = payment.SettledAtUtc ?? payment.UpdatedAtUtc ?? payment.CreatedAtUtc;
+
+            result.Add(new LedgerProjection
+            {
+                EntryId = payment.Id.ToString(),
+                Kind = FinanceLedgerEntryKind.Credit,
+                Title = "Account top-up",
+                Detail = $"Payment ({payment.Status})",
+                Amount = payment.Amount,
+                OccurredAtUtc = occurredAt,
+                TaskId = null,
+                Source = "topup",
+                BalanceDelta = payment.Status == PaymentStatus.Paid ? payment.Amount : 0m
+            });
+        }
+
+        return result;
+    }
+
+    /// <param name="OpeningBalance">Balance before the first recorded entry.</param>
+    public sealed record FinanceLedger(
+        decimal Balance,
+        decimal OpeningBalance,
+        IReadOnlyList<EarningProjection> Earnings,
+        IReadOnlyList<WithdrawalProjection> Withdrawals,
+        IReadOnlyList<SettlementProjection> Settlements,
+        IReadOnlyList<PaymentProjection> Payments,
+        IReadOnlyList<FinanceLedgerEntryDto> Entries);
+
+    public sealed record EarningProjection(
+        Guid Id,
+        Guid TaskId,
+        decimal Amount,
+        EarningStatus Status,
+        DateTime CreatedAtUtc,
+        DateTime? UpdatedAtUtc,
+        DateTime? PaidAtUtc);
+
+    public sealed record WithdrawalProjection(
+        Guid Id,
+        Guid TaskId,
+        Guid SubtaskId,
+        decimal Amount,
+        WithdrawalStatus Status,
+        DateTime CreatedAtUtc,
+        DateTime? UpdatedAtUtc,
+        DateTime? SettledAtUtc);
+
+    public sealed record SettlementProjection(
+        Guid Id,
+        decimal Amount,
+        SettlementStatus Status,
+        DateTime CreatedAtUtc,
+        DateTime? UpdatedAtUtc,
+        DateTime? CompletedAtUtc);
+
+    public sealed record PaymentProjection(
+        Guid Id,
+        decimal Amount,
+        PaymentStatus Status,
+        DateTime CreatedAtUtc,
+        DateTime? UpdatedAtUtc,
+        DateTime? SettledAtUtc);
+
+    private sealed record TaskSnapshot(Guid Id, string? ModelUrl);
+
+    private sealed class LedgerProjection
+    {
+        public required string EntryId { get; init; }
+
+        public required FinanceLedgerEntryKind Kind { get; init; }
+
+        public required string Title { get; init; }
+
+        public string? Detail { get; init; }
+
+        public required decimal Amount { get; init; }
+
+        public required DateTime OccurredAtUtc { get; init; }
+
+        public Guid? TaskId { get; init; }
+
+        public required string Source { get; init; }
+
+        public required decimal BalanceDelta { get; init; }
+    }
+}
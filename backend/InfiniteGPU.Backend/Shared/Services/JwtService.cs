@@ -18,16 +18,19 @@ public class JwtService
         _audience = configuration["Jwt:Audience"] ?? throw new ArgumentNullException("JWT Audience is required");
     }
 
-    public string GenerateJwtToken(string userId, string? userName, string? email)
+    public string GenerateJwtToken(string userId, string? userName, string? email, IEnumerable<string>? roles = null)
     {
         var resolvedName = string.IsNullOrWhiteSpace(userName) ? userId : userName;
+        var issuedAt = DateTimeOffset.UtcNow;
 
         var claims = new List<Claim>
         {
             new Claim(JwtRegisteredClaimNames.Sub, userId),
             new Claim(ClaimTypes.NameIdentifier, userId),
             new Claim(JwtRegisteredClaimNames.UniqueName, resolvedName),
-            new Claim(ClaimTypes.Name, resolvedName)
+            new Claim(ClaimTypes.Name, resolvedName),
+            // Clients schedule their refresh from the issue time.
+            new Claim(JwtRegisteredClaimNames.Iat, issuedAt.ToUnixTimeSeconds().ToString(), ClaimValueTypes.Integer64)
         };
 
         if (!string.IsNullOrWhiteSpace(email))
@@ -36,6 +39,11 @@ public class JwtService
             claims.Add(new Claim(ClaimTypes.Email, email));
         }
 
+        foreach (var role in roles ?? Enumerable.Empty<string>())
+        {
+            claims.Add(new Claim(ClaimTypes.Role, role));
+        }
+
         var key = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(_key));
         var creds = new SigningCredentials(key, SecurityAlgorithms.HmacSha256);
 
@@ -43,7 +51,8 @@ public class JwtService
             issuer: _issuer,
             audience: _audience,
             claims: claims,
-            expires: DateTime.Now.AddDays(7),
+            notBefore: issuedAt.UtcDateTime,
+            expires: issuedAt.UtcDateTime.AddDays(7),
             signingCredentials: creds);
 
         return new JwtSecurityTokenHandler().WriteToken(token);
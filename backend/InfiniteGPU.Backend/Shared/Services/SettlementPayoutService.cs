@@ -0,0 +1,522 @@
+using System.Text.Json;
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Features.Finance;
+using InfiniteGPU.Backend.Features.Finance.Models;
+using Microsoft.EntityFrameworkCore;
+using Stripe;
+
+namespace InfiniteGPU.Backend.Shared.Services;
+
+/// <summary>
+/// Pays an approved settlement out through Stripe Connect: the provider's
+/// connected account is created on first use, the bank account attached,
+/// and the amount transferred and paid out. The balance is only deducted
+/// once Stripe accepted the payout.
+/// </summary>
+public sealed class SettlementPayoutService
+{
+    private static readonly JsonSerializerOptions BankAccountJsonOptions = new()
+    {
+        PropertyNameCaseInsensitive = true
+    };
+
+    private static readonly HashSet<string> EuropeanUnionCountries = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "AT", "BE", "BG", "HR", "CY", "CZ", "DK", "EE", "FI", "FR",
+        "DE", "GR", "HU", "IE", "IT", "LV", "LT", "LU", "MT", "NL",
+        "PL", "PT", "RO", "SK", "SI", "ES", "SE"
+    };
+
+    // Bank rail and payout currency per supported account country. EU
+    // accounts keep being paid in euros whatever their local currency.
+    private static readonly Dictionary<string, SettlementPayoutRail> PayoutRails = BuildPayoutRails();
+
+    private readonly AppDbContext _context;
+    private readonly IConfiguration _configuration;
+    private readonly ILogger<SettlementPayoutService> _logger;
+
+    public SettlementPayoutService(
+        AppDbContext context,
+        IConfiguration configuration,
+        ILogger<SettlementPayoutService> logger)
+    {
+        _context = context;
+        _configuration = configuration;
+        _logger = logger;
+    }
+
+    public static bool IsEuropeanUnionCountry(string countryCode) => EuropeanUnionCountries.Contains(countryCode);
+
+    /// <summary>
+    /// How accounts in the country are paid, or null when payouts to it are not supported.
+    /// </summary>
+    public static SettlementPayoutRail? ResolvePayoutRail(string? countryCode)
+        => countryCode is not null && PayoutRails.TryGetValue(countryCode, out var rail) ? rail : null;
+
+    private static Dictionary<string, SettlementPayoutRail> BuildPayoutRails()
+    {
+        var rails = new Dictionary<string, SettlementPayoutRail>(StringComparer.OrdinalIgnoreCase)
+        {
+            ["US"] = new(PayoutMethodKind.Ach, "usd"),
+            ["GB"] = new(PayoutMethodKind.FasterPayments, "gbp"),
+            ["CA"] = new(PayoutMethodKind.Eft, "cad"),
+            ["AU"] = new(PayoutMethodKind.Becs, "aud"),
+            ["CH"] = new(PayoutMethodKind.Sepa, "chf"),
+            ["LI"] = new(PayoutMethodKind.Sepa, "chf"),
+            ["NO"] = new(PayoutMethodKind.Sepa, "nok")
+        };
+
+        foreach (var country in EuropeanUnionCountries)
+        {
+            rails[country] = new SettlementPayoutRail(PayoutMethodKind.Sepa, "eur");
+        }
+
+        return rails;
+    }
+
+    public static BankAccountInfo? ParseBankAccount(string bankAccountDetails)
+    {
+        try
+        {
+            return JsonSerializer.Deserialize<BankAccountInfo>(bankAccountDetails, BankAccountJsonOptions);
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Whether the account carries valid fields for the country's payout rail.
+    /// </summary>
+    public static bool HasPayoutDetails(BankAccountInfo bankInfo, string country)
+    {
+        var rail = ResolvePayoutRail(country);
+        return rail is not null && BankAccountRules.Validate(rail.Kind, country, bankInfo).Count == 0;
+    }
+
+    /// <summary>
+    /// Saved payout method for an account that passed <see cref="HasPayoutDetails"/>.
+    /// </summary>
+    public static PayoutMethod CreatePayoutMethod(string userId, string country, BankAccountInfo bankInfo, string bankAccountDetails)
+    {
+        var kind = ResolvePayoutRail(country)!.Kind;
+
+        return new PayoutMethod
+        {
+            UserId = userId,
+            Kind = kind,
+            Country = country.ToUpperInvariant(),
+            BankName = bankInfo.BankName,
+            AccountHolderName = bankInfo.AccountHolderName,
+            MaskedAccount = kind == PayoutMethodKind.Sepa ? MaskIban(bankInfo.Iban!) : MaskTrailingDigits(bankInfo.AccountNumber!),
+            Bic = kind == PayoutMethodKind.Sepa ? BankAccountRules.Normalize(bankInfo.Bic) : null,
+            BankAccountDetails = bankAccountDetails,
+            CreatedAtUtc = DateTime.UtcNow
+        };
+    }
+
+    private static string MaskIban(string iban)
+    {
+        var compact = BankAccountRules.Normalize(iban);
+        return $"{compact[..4]} •••• {compact[^4..]}";
+    }
+
+    private static string MaskTrailingDigits(string accountNumber)
+    {
+        var compact = BankAccountRules.Normalize(accountNumber);
+        return $"•••• {compact[^4..]}";
+    }
+
+    /// <summary>
+    /// The routing code Stripe expects for the rail; SEPA accounts carry it in the IBAN.
+    /// </summary>
+    private static string? ResolveStripeRoutingNumber(PayoutMethodKind kind, BankAccountInfo bankInfo) => kind switch
+    {
+        PayoutMethodKind.Ach => BankAccountRules.Normalize(bankInfo.RoutingNumber),
+        PayoutMethodKind.FasterPayments => BankAccountRules.Normalize(bankInfo.SortCode),
+        PayoutMethodKind.Eft => $"{BankAccountRules.Normalize(bankInfo.TransitNumber)}-{BankAccountRules.Normalize(bankInfo.InstitutionNumber)}",
+        PayoutMethodKind.Becs => BankAccountRules.Normalize(bankInfo.Bsb),
+        _ => null
+    };
+
+    /// <summary>
+    /// Moves the settlement into <paramref name="status"/> and appends the
+    /// change to its history. The caller saves.
+    /// </summary>
+    public static void RecordTransition(AppDbContext context, Settlement settlement, SettlementStatus status, string? reason)
+    {
+        var now = DateTime.UtcNow;
+        settlement.Status = status;
+        settlement.UpdatedAtUtc = now;
+        if (status == SettlementStatus.Failed)
+        {
+            settlement.FailureReason = reason;
+        }
+        else if (status == SettlementStatus.Completed)
+        {
+            settlement.CompletedAtUtc = now;
+        }
+
+        context.SettlementStatusTransitions.Add(new SettlementStatusTransition
+        {
+            SettlementId = settlement.Id,
+            Status = status,
+            Reason = reason,
+            OccurredAtUtc = now
+        });
+    }
+
+    public async Task<SettlementPayoutResult> ExecuteAsync(Settlement settlement, CancellationToken cancellationToken)
+    {
+        var user = await _context.Users
+            .FirstOrDefaultAsync(u => u.Id == settlement.UserId, cancellationToken);
+        if (user is null)
+        {
+            return await FailAsync(settlement, "User not found", cancellationToken);
+        }
+
+        if (user.Balance < settlement.Amount)
+        {
+            return await FailAsync(settlement, $"Insufficient balance. Available: ${user.Balance:F2}, Required: ${settlement.Amount:F2}", cancellationToken);
+        }
+
+        var country = settlement.Country ?? user.Country;
+        if (string.IsNullOrWhiteSpace(country))
+        {
+            return await FailAsync(settlement, "Settlement has no bank account country", cancellationToken);
+        }
+
+        var bankInfo = ParseBankAccount(settlement.BankAccountDetails);
+        if (bankInfo is null)
+        {
+            return await FailAsync(settlement, "Invalid bank account details", cancellationToken);
+        }
+
+        var rail = ResolvePayoutRail(country);
+        if (rail is null || !HasPayoutDetails(bankInfo, country))
+        {
+            return await FailAsync(settlement, "Invalid bank account details for the selected country", cancellationToken);
+        }
+
+        var stripeSecretKey = _configuration["Stripe:SecretKey"];
+        if (string.IsNullOrWhiteSpace(stripeSecretKey))
+        {
+            _logger.LogError("Stripe secret key not configured");
+            return SettlementPayoutResult.Failed("Payment system not configured");
+        }
+
+        StripeConfiguration.ApiKey = stripeSecretKey;
+
+        try
+        {
+            // Determine which capabilities to request based on country
+            var isEuCountry = IsEuropeanUnionCountry(country);
+            var isUsCountry = country.Equals("US", StringComparison.OrdinalIgnoreCase);
+
+            var accountService = new AccountService();
+            string connectedAccountId;
+
+            // Check if user has a connected account
+            if (string.IsNullOrEmpty(user.StripeConnectedAccountId))
+            {
+                _logger.LogInformation("Creating Stripe Connect account for user {UserId} in country {Country}", user.Id, country);
+                
+                var accountOptions = new AccountCreateOptions
+                {
+                    Type = "express", // Express accounts are easier to onboard
+                    Email = user.Email,
+                    Country = country.ToUpperInvariant(),
+                    Capabilities = new AccountCapabilitiesOptions
+                    {
+                        Transfers = new AccountCapabilitiesTransfersOptions { Requested = true }
+                    },
+                    BusinessType = "individual",
+                    BusinessProfile = new AccountBusinessProfileOptions
+                    {
+                        Url = "https://infinite-gpu.scalerize.fr"
+                    }
+                };
+
+                // Add country-specific capabilities
+                if (isUsCountry)
+                {
+                    accountOptions.Capabilities.UsBankAccountAchPayments = new AccountCapabilitiesUsBankAccountAchPaymentsOptions { Requested = true };
+                }
+                else if (isEuCountry)
+                {
+                    accountOptions.Capabilities.SepaDebitPayments = new AccountCapabilitiesSepaDebitPaymentsOptions { Requested = true };
+                }
+
+                Account account;
+                try
+                {
+                    account = await accountService.CreateAsync(accountOptions, cancellationToken: cancellationToken);
+                    connectedAccountId = account.Id;
+                    user.StripeConnectedAccountId = connectedAccountId;
+                    user.Country = country; // Store country for future settlements
+                    await _context.SaveChangesAsync(cancellationToken);
+                    
+                    _logger.LogInformation(
+                        "Created Stripe Connect account {AccountId} for user {UserId} in country {Country}",
+                        account.Id, user.Id, country);
+                }
+                catch (StripeException stripeEx)
+                {
+                    _logger.LogError(stripeEx, "Failed to create Stripe Connect account for user {UserId} in country {Country}", user.Id, country);
+                    
+                    RecordTransition(_context, settlement, SettlementStatus.Failed, $"Failed to create payment account: {stripeEx.Message}");
+                    await _context.SaveChangesAsync(cancellationToken);
+                    
+                    return SettlementPayoutResult.Failed($"Failed to create payment account: {stripeEx.Message}");
+                }
+            }
+            else
+            {
+                connectedAccountId = user.StripeConnectedAccountId;
+            }
+
+            // Create bank account token
+            _logger.LogInformation(
+                "Creating bank account token for connected account {AccountId}",
+                connectedAccountId);
+
+            string bankAccountToken;
+            try
+            {
+                var tokenService = new TokenService();
+                var tokenOptions = new TokenCreateOptions
+                {
+                    BankAccount = new TokenBankAccountOptions
+                    {
+                        Country = country.ToUpperInvariant(),
+                        Currency = rail.Currency,
+                        AccountHolderName = bankInfo.AccountHolderName,
+                        AccountHolderType = "individual",
+                        RoutingNumber = ResolveStripeRoutingNumber(rail.Kind, bankInfo),
+                        AccountNumber = BankAccountRules.Normalize(rail.Kind == PayoutMethodKind.Sepa ? bankInfo.Iban : bankInfo.AccountNumber)
+                    }
+                };
+
+                var token = await tokenService.CreateAsync(tokenOptions, cancellationToken: cancellationToken);
+                bankAccountToken = token.Id;
+                
+                _logger.LogInformation(
+                    "Created bank account token for connected account {AccountId}",
+                    connectedAccountId);
+            }
+            catch (StripeException stripeEx)
+            {
+                _logger.LogError(stripeEx, "Failed to create bank account token for connected account {AccountId}", connectedAccountId);
+                
+                RecordTransition(_context, settlement, SettlementStatus.Failed, $"Failed to create bank account token: {stripeEx.Message}");
+                await _context.SaveChangesAsync(cancellationToken);
+                
+                return SettlementPayoutResult.Failed($"Failed to create bank account token: {stripeEx.Message}");
+            }
+
+            // Add bank account to connected account
+            _logger.LogInformation(
+                "Adding external bank account to connected account {AccountId}",
+                connectedAccountId);
+
+            string externalAccountId;
+            try
+            {
+                // Update the connected account with the external account
+                var accountUpdateOptions = new AccountUpdateOptions
+                {
+                    ExternalAccount = bankAccountToken
+                };
+
+                var updatedAccount = await accountService.UpdateAsync(
+                    connectedAccountId,
+                    accountUpdateOptions,
+                    cancellationToken: cancellationToken);
+                
+                // Get the ID of the newly added external account
+                if (updatedAccount.ExternalAccounts?.Data != null && updatedAccount.ExternalAccounts.Data.Any())
+                {
+                    externalAccountId = updatedAccount.ExternalAccounts.Data.Last().Id;
+                }
+                else
+                {
+                    throw new InvalidOperationException("No external account was added to the connected account");
+                }
+                
+                _logger.LogInformation(
+                    "Added external bank account {BankAccountId} to connected account {AccountId}",
+                    externalAccountId, connectedAccountId);
+            }
+            catch (StripeException stripeEx)
+            {
+                _logger.LogError(stripeEx, "Failed to add external bank account to connected account {AccountId}", connectedAccountId);
+                
+                RecordTransition(_context, settlement, SettlementStatus.Failed, $"Failed to add bank account: {stripeEx.Message}");
+                await _context.SaveChangesAsync(cancellationToken);
+                
+                return SettlementPayoutResult.Failed($"Failed to add bank account: {stripeEx.Message}");
+            }
+
+            // Create transfer to connected account (not payout, as the account needs balance first)
+            _logger.LogInformation(
+                "Creating transfer to connected account {AccountId}",
+                connectedAccountId);
+
+            var transferService = new TransferService();
+            var transferOptions = new TransferCreateOptions
+            {
+                Amount = (long)(settlement.Amount * 100), // Convert to cents
+                Currency = rail.Currency,
+                Destination = connectedAccountId,
+                Metadata = new Dictionary<string, string>
+                {
+                    { "user_id", user.Id },
+                    { "settlement_id", settlement.Id.ToString() },
+                    { "bank_account_holder", bankInfo.AccountHolderName }
+                },
+                Description = $"Settlement transfer for user {user.Id}"
+            };
+
+            Transfer transfer;
+            try
+            {
+                transfer = await transferService.CreateAsync(transferOptions, cancellationToken: cancellationToken);
+                
+                _logger.LogInformation(
+                    "Created transfer {TransferId} for settlement {SettlementId}",
+                    transfer.Id, settlement.Id);
+            }
+            catch (StripeException stripeEx)
+            {
+                _logger.LogError(stripeEx, "Stripe transfer failed for settlement {SettlementId}", settlement.Id);
+                
+                // Mark settlement as failed (no balance was deducted yet)
+                RecordTransition(_context, settlement, SettlementStatus.Failed, stripeEx.Message);
+                
+                await _context.SaveChangesAsync(cancellationToken);
+                
+                return SettlementPayoutResult.Failed($"Transfer failed: {stripeEx.Message}");
+            }
+
+            // Now create payout from connected account to bank
+            _logger.LogInformation(
+                "Creating payout from connected account {AccountId} to bank account {BankAccountId}",
+                connectedAccountId, externalAccountId);
+
+            var payoutService = new PayoutService();
+            var payoutOptions = new PayoutCreateOptions
+            {
+                Amount = (long)(settlement.Amount * 100), // Convert to cents
+                Currency = rail.Currency,
+                Destination = externalAccountId,
+                Metadata = new Dictionary<string, string>
+                {
+                    { "user_id", user.Id },
+                    { "settlement_id", settlement.Id.ToString() },
+                    { "transfer_id", transfer.Id }
+                },
+                Description = $"Settlement payout for user {user.Id}"
+            };
+
+            Payout payout;
+            try
+            {
+                // Create payout on behalf of the connected account
+                var payoutRequestOptions = new RequestOptions
+                {
+                    StripeAccount = connectedAccountId
+                };
+                
+                payout = await payoutService.CreateAsync(payoutOptions, payoutRequestOptions, cancellationToken);
+                
+                _logger.LogInformation(
+                    "Created payout {PayoutId} for settlement {SettlementId}",
+                    payout.Id, settlement.Id);
+            }
+            catch (StripeException stripeEx)
+            {
+                _logger.LogError(stripeEx, "Stripe payout failed for settlement {SettlementId}", settlement.Id);
+                
+                // Mark settlement as failed (no balance was deducted yet)
+                RecordTransition(_context, settlement, SettlementStatus.Failed, stripeEx.Message);
+                
+                await _context.SaveChangesAsync(cancellationToken);
+                
+                return SettlementPayoutResult.Failed($"Payout failed: {stripeEx.Message}");
+            }
+
+            // SUCCESS: Now deduct balance and update settlement
+            // Use a transaction to ensure atomicity
+            await using var transaction = await _context.Database.BeginTransactionAsync(cancellationToken);
+            try
+            {
+                user.Balance -= settlement.Amount;
+                
+                settlement.StripeTransferId = payout.Id;
+                RecordTransition(_context, settlement, SettlementStatus.Processing, null);
+
+                await _context.SaveChangesAsync(cancellationToken);
+                await transaction.CommitAsync(cancellationToken);
+            }
+            catch (Exception dbEx)
+            {
+                await transaction.RollbackAsync(cancellationToken);
+                _logger.LogError(dbEx, "Failed to update database after successful Stripe payout for settlement {SettlementId}", settlement.Id);
+                
+                // Payout was created but we couldn't update the database
+                // This is a critical error that needs manual intervention
+                return SettlementPayoutResult.Failed("Settlement processing error. Please contact support.");
+            }
+
+            _logger.LogInformation(
+                "Settlement paid out. UserId: {UserId}, Amount: {Amount}, SettlementId: {SettlementId}, StripePayoutId: {PayoutId}",
+                user.Id, settlement.Amount, settlement.Id, payout.Id);
+
+            return SettlementPayoutResult.Succeeded();
+        }
+        catch (StripeException stripeEx)
+        {
+            _logger.LogError(stripeEx, "Stripe error during settlement processing for settlement {SettlementId}", settlement.Id);
+            
+            // Mark settlement as failed (balance was never deducted)
+            RecordTransition(_context, settlement, SettlementStatus.Failed, stripeEx.Message);
+            
+            await _context.SaveChangesAsync(cancellationToken);
+            
+            return SettlementPayoutResult.Failed($"Settlement processing failed: {stripeEx.Message}");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Unexpected error during settlement processing for settlement {SettlementId}", settlement.Id);
+            
+            // Mark settlement as failed (balance was never deducted)
+            RecordTransition(_context, settlement, SettlementStatus.Failed, ex.Message);
+            
+            await _context.SaveChangesAsync(cancellationToken);
+            
+            return SettlementPayoutResult.Failed($"Settlement processing failed: {ex.Message}");
+        }
+    }
+
+    private async Task<SettlementPayoutResult> FailAsync(Settlement settlement, string reason, CancellationToken cancellationToken)
+    {
+        RecordTransition(_context, settlement, SettlementStatus.Failed, reason);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return SettlementPayoutResult.Failed(reason);
+    }
+}
+
+/// <summary>
+/// Bank rail and currency a country's accounts are paid out with.
+/// </summary>
+public sealed record SettlementPayoutRail(PayoutMethodKind Kind, string Currency);
+
+public sealed record SettlementPayoutResult(bool Success, string? ErrorMessage)
+{
+    public static SettlementPayoutResult Succeeded() => new(true, null);
+
+    public static SettlementPayoutResult Failed(string errorMessage) => new(false, errorMessage);
+}
@@ -4,6 +4,7 @@ using System.Text.Json.Serialization;
 using Task = System.Threading.Tasks.Task;
 using InfiniteGPU.Backend.Data;
 using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Shared.Models;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.EntityFrameworkCore;
 using SubtaskStatusEnum = InfiniteGPU.Backend.Shared.Models.SubtaskStatus;
@@ -18,6 +19,11 @@ public sealed class TaskAssignmentService
         DefaultIgnoreCondition = JsonIgnoreCondition.WhenWritingNull
     };
 
+    /// <summary>What the requestor is billed on top of the provider's earning.</summary>
+    public const decimal RequestorMarkup = 1.2m;
+
+    private const string AdminFailureEventType = "admin-failure";
+
     private static readonly IReadOnlyDictionary<string, decimal> CostRatesPerSecond = new Dictionary<string, decimal>(StringComparer.OrdinalIgnoreCase)
     {
         ["cpu"] = 0.0002m,
@@ -60,6 +66,8 @@ public sealed class TaskAssignmentService
             .Where(s =>
                 (s.Status == SubtaskStatusEnum.Pending ||
                  (s.Status == SubtaskStatusEnum.Failed && s.RequiresReassignment)) &&
+                s.Task.Status != TaskStatusEnum.Paused &&
+                s.Task.Status != TaskStatusEnum.Cancelled &&
                 !string.IsNullOrEmpty(s.Task.UserId)
 #if DEBUG
                 );
@@ -136,6 +144,13 @@ public sealed class TaskAssignmentService
             return null;
         }
 
+        if (subtask.Task?.Status is TaskStatusEnum.Paused or TaskStatusEnum.Cancelled)
+        {
+            _logger.LogWarning("Subtask {SubtaskId} not available for accept (task {TaskId} is {Status})", subtaskId,
+                subtask.TaskId, subtask.Task.Status);
+            return null;
+        }
+
         var assignment =
             await AssignSubtaskInternalAsync(subtask, provider!, "manual-accept", deviceId, cancellationToken);
         return assignment;
@@ -144,7 +159,7 @@ public sealed class TaskAssignmentService
     public async Task<ProgressResult?> UpdateProgressAsync(
         Guid subtaskId,
         string providerUserId,
-        int progress,
+        int? progress,
         CancellationToken cancellationToken)
     {
         var provider = await _userManager.FindByIdAsync(providerUserId);
@@ -179,7 +194,9 @@ public sealed class TaskAssignmentService
         }
 
         var now = DateTime.UtcNow;
-        subtask.Progress = Math.Clamp(progress, 0, 100);
+        // A heartbeat without a new value only refreshes liveness.
+        var previousProgress = subtask.Progress;
+        subtask.Progress = Math.Clamp(progress ?? subtask.Progress, 0, 100);
         if (subtask.Status == SubtaskStatusEnum.Assigned)
         {
             subtask.Status = SubtaskStatusEnum.Executing;
@@ -199,12 +216,15 @@ public sealed class TaskAssignmentService
         executionState.ExtendedMetadata["heartbeatAtUtc"] = now;
         UpdateExecutionState(subtask, executionState);
 
-        await AppendTimelineEventAsync(subtask, "progress", $"Progress reported: {subtask.Progress}%", new
+        if (subtask.Progress != previousProgress)
         {
-            subtask.Progress,
-            providerUserId,
-            timestampUtc = now
-        }, cancellationToken);
+            await AppendTimelineEventAsync(subtask, "progress", $"Progress reported: {subtask.Progress}%", new
+            {
+                subtask.Progress,
+                providerUserId,
+                timestampUtc = now
+            }, cancellationToken);
+        }
 
         await _context.SaveChangesAsync(cancellationToken);
         await EnsureTaskSubtasksLoadedAsync(subtask.Task, cancellationToken);
@@ -353,25 +373,33 @@ public sealed class TaskAssignmentService
         var task = subtask.Task;
         bool taskCompleted = await _context.Subtasks
             .Where(s => s.TaskId == task.Id && s.Id != subtask.Id)
-            .AllAsync(s => s.Status == SubtaskStatusEnum.Completed, cancellationToken);
+            .AllAsync(s => s.Status == SubtaskStatusEnum.Completed || s.Status == SubtaskStatusEnum.Cancelled, cancellationToken);
 
-        if (taskCompleted)
+        // A task stopped by its budget cap keeps that status while the subtasks
+        // that were already running finish.
+        var taskStopped = task.Status is TaskStatusEnum.Failed or TaskStatusEnum.Cancelled;
+        if (taskCompleted && !taskStopped)
         {
             task.Status = TaskStatusEnum.Completed;
             task.CompletedAt = now;
         }
         else
         {
-            task.Status = TaskStatusEnum.InProgress;
+            if (task.Status is not (TaskStatusEnum.Paused or TaskStatusEnum.Failed or TaskStatusEnum.Cancelled))
+            {
+                task.Status = TaskStatusEnum.InProgress;
+            }
+
             task.UpdatedAt = now;
         }
 
-        await CreateEarningAndWithdrawAsync(subtask, task);
+        var billedAmount = await CreateEarningAndWithdrawAsync(subtask, task, cancellationToken);
+        var budgetCapReached = !taskCompleted && await ApplyBudgetCapAsync(subtask, billedAmount, now, cancellationToken);
 
         await _context.SaveChangesAsync(cancellationToken);
         await EnsureTaskSubtasksLoadedAsync(task, cancellationToken);
 
-        return new CompletionResult(subtask, provider!, taskCompleted);
+        return new CompletionResult(subtask, provider!, taskCompleted && !taskStopped, budgetCapReached);
     }
 
     public async Task<FailureResult?> FailSubtaskAsync(
@@ -663,6 +691,489 @@ public sealed class TaskAssignmentService
 
     #endregion
 
+    #region Administrative interventions
+
+    /// <summary>
+    /// Takes a subtask away from its current provider. With a target device it
+    /// is assigned there directly; without one it returns to the open queue.
+    /// </summary>
+    public async Task<InterventionResult?> ReassignSubtaskAsync(
+        Guid subtaskId,
+        Guid? targetDeviceId,
+        string adminUserId,
+        string reason,
+        CancellationToken cancellationToken)
+    {
+        var subtask = await LoadInterventionSubtaskAsync(subtaskId, cancellationToken);
+        if (subtask is null || subtask.Status is not (SubtaskStatusEnum.Pending or SubtaskStatusEnum.Assigned or SubtaskStatusEnum.Executing))
+        {
+            return null;
+        }
+
+        var previousProviderId = subtask.AssignedProviderId;
+        var previousDeviceId = subtask.DeviceId;
+        var now = DateTime.UtcNow;
+
+        ApplicationUser? targetProvider = null;
+        if (targetDeviceId is { } deviceId)
+        {
+            var device = await _context.Devices
+                .FirstOrDefaultAsync(d => d.Id == deviceId, cancellationToken);
+            if (device is null || !device.IsConnected)
+            {
+                _logger.LogWarning("Device {DeviceId} unavailable for reassignment of subtask {SubtaskId}", deviceId, subtaskId);
+                return null;
+            }
+
+            targetProvider = await _userManager.FindByIdAsync(device.ProviderUserId);
+            if (!IsProviderEligible(targetProvider, device.ProviderUserId))
+            {
+                return null;
+            }
+
+            ApplyAssignment(subtask, targetProvider!, "admin-reassignment", device.Id);
+            subtask.Progress = 0;
+        }
+        else
+        {
+            subtask.Status = SubtaskStatusEnum.Pending;
+            subtask.AssignedProviderId = null;
+            subtask.DeviceId = null;
+            subtask.Progress = 0;
+            subtask.RequiresReassignment = true;
+            subtask.ReassignmentRequestedAtUtc = now;
+            subtask.NextHeartbeatDueAtUtc = null;
+            subtask.LastCommandAtUtc = now;
+        }
+
+        await AppendTimelineEventAsync(subtask, "admin-reassignment", $"Subtask reassigned by an administrator: {reason}", new
+        {
+            adminUserId,
+            reason,
+            previousProvider = previousProviderId,
+            previousDeviceId,
+            targetDeviceId,
+            reassignedAtUtc = now
+        }, cancellationToken);
+
+        await _context.SaveChangesAsync(cancellationToken);
+        await EnsureTaskSubtasksLoadedAsync(subtask.Task, cancellationToken);
+
+        return new InterventionResult(subtask, previousProviderId, targetProvider, TaskFinished: false);
+    }
+
+    /// <summary>
+    /// Stops a subtask for good. Cancelled subtasks are not billed and do not
+    /// hold back the completion of their task.
+    /// </summary>
+    public async Task<InterventionResult?> CancelSubtaskAsync(
+        Guid subtaskId,
+        string adminUserId,
+        string reason,
+        CancellationToken cancellationToken)
+    {
+        var subtask = await LoadInterventionSubtaskAsync(subtaskId, cancellationToken);
+        if (subtask is null || subtask.Status is SubtaskStatusEnum.Completed or SubtaskStatusEnum.Cancelled)
+        {
+            return null;
+        }
+
+        var previousProviderId = subtask.AssignedProviderId;
+        var now = DateTime.UtcNow;
+
+        subtask.Status = SubtaskStatusEnum.Cancelled;
+        subtask.FailureReason = reason;
+        subtask.RequiresReassignment = false;
+        subtask.NextHeartbeatDueAtUtc = null;
+        subtask.LastCommandAtUtc = now;
+
+        UpdateExecutionState(subtask, new ExecutionStateModel
+        {
+            Phase = "cancelled",
+            Message = $"Cancelled by an administrator: {reason}",
+            ProviderUserId = previousProviderId
+        });
+
+        await AppendTimelineEventAsync(subtask, "admin-cancellation", $"Subtask cancelled by an administrator: {reason}", new
+        {
+            adminUserId,
+            reason,
+            previousProvider = previousProviderId,
+            cancelledAtUtc = now
+        }, cancellationToken);
+
+        var taskFinished = await CompleteTaskIfSettledAsync(subtask, now, cancellationToken);
+
+        await _context.SaveChangesAsync(cancellationToken);
+        await EnsureTaskSubtasksLoadedAsync(subtask.Task, cancellationToken);
+
+        return new InterventionResult(subtask, previousProviderId, null, taskFinished);
+    }
+
+    /// <summary>
+    /// Fails a subtask without offering it to another provider, failing its
+    /// task the same way a provider failure with no node left would.
+    /// </summary>
+    public async Task<InterventionResult?> ForceFailSubtaskAsync(
+        Guid subtaskId,
+        string adminUserId,
+        string reason,
+        CancellationToken cancellationToken)
+    {
+        var subtask = await LoadInterventionSubtaskAsync(subtaskId, cancellationToken);
+        if (subtask is null || subtask.Status is SubtaskStatusEnum.Completed or SubtaskStatusEnum.Failed or SubtaskStatusEnum.Cancelled)
+        {
+            return null;
+        }
+
+        var previousProviderId = subtask.AssignedProviderId;
+        var now = DateTime.UtcNow;
+
+        subtask.Status = SubtaskStatusEnum.Failed;
+        subtask.FailureReason = reason;
+        subtask.FailedAtUtc = now;
+        subtask.RequiresReassignment = false;
+        subtask.NextHeartbeatDueAtUtc = null;
+        subtask.LastCommandAtUtc = now;
+
+        UpdateExecutionState(subtask, new ExecutionStateModel
+        {
+            Phase = "failed",
+            Message = $"Failed by an administrator: {reason}",
+            ProviderUserId = previousProviderId,
+            ExtendedMetadata = new Dictionary<string, object?>
+            {
+                ["failureReason"] = reason,
+                ["failedAtUtc"] = now
+            }
+        });
+
+        await AppendTimelineEventAsync(subtask, AdminFailureEventType, $"Subtask failed by an administrator: {reason}", new
+        {
+            adminUserId,
+            reason,
+            previousProvider = previousProviderId,
+            failedAtUtc = now
+        }, cancellationToken);
+
+        if (!subtask.Task.FillBindingsViaApi)
+        {
+            subtask.Task.Status = TaskStatusEnum.Failed;
+            subtask.Task.UpdatedAt = now;
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+        await EnsureTaskSubtasksLoadedAsync(subtask.Task, cancellationToken);
+
+        return new InterventionResult(subtask, previousProviderId, null, subtask.Task.Status == TaskStatusEnum.Failed);
+    }
+
+    private async Task<Subtask?> LoadInterventionSubtaskAsync(Guid subtaskId, CancellationToken cancellationToken)
+    {
+        var subtask = await _context.Subtasks
+            .Include(s => s.Task)
+            .FirstOrDefaultAsync(s => s.Id == subtaskId, cancellationToken);
+
+        if (subtask?.Task is null)
+        {
+            _logger.LogWarning("Subtask {SubtaskId} not found for administrative intervention", subtaskId);
+            return null;
+        }
+
+        return subtask;
+    }
+
+    private async Task<bool> CompleteTaskIfSettledAsync(Subtask subtask, DateTime now, CancellationToken cancellationToken)
+    {
+        var task = subtask.Task;
+        var siblingStatuses = await _context.Subtasks
+            .Where(s => s.TaskId == task.Id && s.Id != subtask.Id)
+            .Select(s => s.Status)
+            .ToListAsync(cancellationToken);
+
+        var settled = siblingStatuses.All(status => status is SubtaskStatusEnum.Completed or SubtaskStatusEnum.Cancelled);
+        if (!settled || !siblingStatuses.Contains(SubtaskStatusEnum.Completed))
+        {
+            return false;
+        }
+
+        task.Status = TaskStatusEnum.Completed;
+        task.CompletedAt = now;
+        return true;
+    }
+
+    #endregion
+
+    #region Requestor task controls
+
+    /// <summary>
+    /// Stops a task and every subtask that has not finished. Running subtasks
+    /// are returned with the provider that was executing them so it can be told
+    /// to stop.
+    /// </summary>
+    public async Task<TaskControlResult?> CancelTaskAsync(
+        Guid taskId,
+        string userId,
+        CancellationToken cancellationToken)
+    {
+        var task = await LoadControlledTaskAsync(taskId, userId, cancellationToken);
+        if (task is null || task.Status is TaskStatusEnum.Completed or TaskStatusEnum.Failed or TaskStatusEnum.Cancelled)
+        {
+            return null;
+        }
+
+        var now = DateTime.UtcNow;
+        var stopped = new List<InterventionResult>();
+
+        foreach (var subtask in task.Subtasks.Where(s => s.Status is not (SubtaskStatusEnum.Completed or SubtaskStatusEnum.Cancelled)))
+        {
+            var previousProviderId = subtask.AssignedProviderId;
+            StopSubtask(subtask, "Cancelled by the requestor", now);
+
+            await AppendTimelineEventAsync(subtask, "requestor-cancellation", "Subtask cancelled by the requestor", new
+            {
+                userId,
+                previousProvider = previousProviderId,
+                cancelledAtUtc = now
+            }, cancellationToken);
+
+            stopped.Add(new InterventionResult(subtask, previousProviderId, null, TaskFinished: true));
+        }
+
+        task.Status = TaskStatusEnum.Cancelled;
+        task.UpdatedAt = now;
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return new TaskControlResult(task, stopped, Array.Empty<Subtask>());
+    }
+
+    /// <summary>
+    /// Stops handing out the task's pending subtasks. Subtasks already running
+    /// are left to finish.
+    /// </summary>
+    public async Task<TaskControlResult?> PauseTaskAsync(
+        Guid taskId,
+        string userId,
+        CancellationToken cancellationToken)
+    {
+        var task = await LoadControlledTaskAsync(taskId, userId, cancellationToken);
+        if (task is null || task.Status is not (TaskStatusEnum.Pending or TaskStatusEnum.Assigned or TaskStatusEnum.InProgress))
+        {
+            return null;
+        }
+
+        task.Status = TaskStatusEnum.Paused;
+        task.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return new TaskControlResult(task, Array.Empty<InterventionResult>(), Array.Empty<Subtask>());
+    }
+
+    public async Task<TaskControlResult?> ResumeTaskAsync(
+        Guid taskId,
+        string userId,
+        CancellationToken cancellationToken)
+    {
+        var task = await LoadControlledTaskAsync(taskId, userId, cancellationToken);
+        if (task is null || task.Status != TaskStatusEnum.Paused)
+        {
+            return null;
+        }
+
+        if (task.BudgetCapAmount is { } budgetCap && await GetBilledAmountAsync(task.Id, cancellationToken) >= budgetCap)
+        {
+            _logger.LogWarning("Task {TaskId} cannot resume: its budget cap of {BudgetCap} has been billed", task.Id, budgetCap);
+            return null;
+        }
+
+        var now = DateTime.UtcNow;
+        task.Status = ResolveActiveTaskStatus(task, now);
+        task.UpdatedAt = now;
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        var requeued = task.Subtasks.Where(s => s.Status == SubtaskStatusEnum.Pending).ToList();
+        return new TaskControlResult(task, Array.Empty<InterventionResult>(), requeued);
+    }
+
+    /// <summary>
+    /// Puts failed subtasks that recorded a failure reason back in the queue.
+    /// Subtasks that failed without one were stopped on purpose and stay failed,
+    /// as do subtasks an administrator failed.
+    /// </summary>
+    public async Task<TaskControlResult?> RetryFailedSubtasksAsync(
+        Guid taskId,
+        string userId,
+        CancellationToken cancellationToken)
+    {
+        var task = await LoadControlledTaskAsync(taskId, userId, cancellationToken);
+        if (task is null || task.Status == TaskStatusEnum.Cancelled)
+        {
+            return null;
+        }
+
+        var adminFailedIds = await _context.SubtaskTimelineEvents
+            .Where(e => e.Subtask.TaskId == task.Id && e.EventType == AdminFailureEventType)
+            .Select(e => e.SubtaskId)
+            .Distinct()
+            .ToListAsync(cancellationToken);
+
+        var now = DateTime.UtcNow;
+        var requeued = task.Subtasks
+            .Where(s => s.Status == SubtaskStatusEnum.Failed &&
+                        !string.IsNullOrWhiteSpace(s.FailureReason) &&
+                        !adminFailedIds.Contains(s.Id))
+            .ToList();
+
+        foreach (var subtask in requeued)
+        {
+            var failureReason = subtask.FailureReason;
+
+            subtask.Status = SubtaskStatusEnum.Pending;
+            subtask.AssignedProviderId = null;
+            subtask.DeviceId = null;
+            subtask.Progress = 0;
+            subtask.FailureReason = null;
+            subtask.FailedAtUtc = null;
+            subtask.RequiresReassignment = true;
+            subtask.ReassignmentRequestedAtUtc = now;
+            subtask.NextHeartbeatDueAtUtc = null;
+            subtask.LastCommandAtUtc = now;
+
+            UpdateExecutionState(subtask, new ExecutionStateModel
+            {
+                Phase = "pending",
+                Message = "Re-queued by the requestor"
+            });
+
+            await AppendTimelineEventAsync(subtask, "requestor-retry", "Failed subtask re-queued by the requestor", new
+            {
+                userId,
+                previousFailureReason = failureReason,
+                requeuedAtUtc = now
+            }, cancellationToken);
+        }
+
+        if (requeued.Count > 0 && task.Status is TaskStatusEnum.Failed or TaskStatusEnum.Completed)
+        {
+            task.Status = ResolveActiveTaskStatus(task, now);
+            task.CompletedAt = null;
+            task.UpdatedAt = now;
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return new TaskControlResult(task, Array.Empty<InterventionResult>(), requeued);
+    }
+
+    /// <summary>
+    /// Cancels a single subtask of the requestor's task. The task completes or
+    /// is cancelled once nothing else is left to run.
+    /// </summary>
+    public async Task<TaskControlResult?> CancelTaskSubtaskAsync(
+        Guid taskId,
+        Guid subtaskId,
+        string userId,
+        CancellationToken cancellationToken)
+    {
+        var task = await LoadControlledTaskAsync(taskId, userId, cancellationToken);
+        var subtask = task?.Subtasks.FirstOrDefault(s => s.Id == subtaskId);
+        if (task is null || subtask is null || subtask.Status is SubtaskStatusEnum.Completed or SubtaskStatusEnum.Cancelled)
+        {
+            return null;
+        }
+
+        var now = DateTime.UtcNow;
+        var previousProviderId = subtask.AssignedProviderId;
+        StopSubtask(subtask, "Cancelled by the requestor", now);
+
+        await AppendTimelineEventAsync(subtask, "requestor-cancellation", "Subtask cancelled by the requestor", new
+        {
+            userId,
+            previousProvider = previousProviderId,
+            cancelledAtUtc = now
+        }, cancellationToken);
+
+        bool taskFinished;
+        if (task.Subtasks.All(s => s.Status == SubtaskStatusEnum.Cancelled))
+        {
+            task.Status = TaskStatusEnum.Cancelled;
+            taskFinished = true;
+        }
+        else
+        {
+            taskFinished = await CompleteTaskIfSettledAsync(subtask, now, cancellationToken);
+        }
+
+        task.UpdatedAt = now;
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return new TaskControlResult(
+            task,
+            new[] { new InterventionResult(subtask, previousProviderId, null, taskFinished) },
+            Array.Empty<Subtask>());
+    }
+
+    private async Task<Data.Entities.Task?> LoadControlledTaskAsync(Guid taskId, string userId, CancellationToken cancellationToken)
+    {
+        var task = await _context.Tasks
+            .Include(t => t.Subtasks)
+            .Include(t => t.InferenceBindings)
+            .Include(t => t.OutputBindings)
+            .AsSplitQuery()
+            .FirstOrDefaultAsync(t => t.Id == taskId && t.UserId == userId, cancellationToken);
+
+        if (task is null)
+        {
+            _logger.LogWarning("Task {TaskId} not found for requestor {UserId}", taskId, userId);
+        }
+
+        return task;
+    }
+
+    private void StopSubtask(Subtask subtask, string reason, DateTime now)
+    {
+        var previousProviderId = subtask.AssignedProviderId;
+
+        subtask.Status = SubtaskStatusEnum.Cancelled;
+        subtask.FailureReason = reason;
+        subtask.RequiresReassignment = false;
+        subtask.NextHeartbeatDueAtUtc = null;
+        subtask.LastCommandAtUtc = now;
+
+        UpdateExecutionState(subtask, new ExecutionStateModel
+        {
+            Phase = "cancelled",
+            Message = reason,
+            ProviderUserId = previousProviderId
+        });
+    }
+
+    /// <summary>
+    /// The status a task returns to when it is running again: in progress once
+    /// any subtask has been picked up, pending otherwise.
+    /// </summary>
+    private static TaskStatusEnum ResolveActiveTaskStatus(Data.Entities.Task task, DateTime now)
+    {
+        var started = task.Subtasks.Any(s => s.Status is SubtaskStatusEnum.Assigned
+            or SubtaskStatusEnum.Executing
+            or SubtaskStatusEnum.Completed);
+
+        if (task.Subtasks.Count > 0
+            && task.Subtasks.All(s => s.Status is SubtaskStatusEnum.Completed or SubtaskStatusEnum.Cancelled)
+            && task.Subtasks.Any(s => s.Status == SubtaskStatusEnum.Completed))
+        {
+            task.CompletedAt = now;
+            return TaskStatusEnum.Completed;
+        }
+
+        return started ? TaskStatusEnum.InProgress : TaskStatusEnum.Pending;
+    }
+
+    #endregion
+
     #region Helpers
 
     private async Task<AssignmentResult?> AssignSubtaskInternalAsync(
@@ -770,7 +1281,11 @@ public sealed class TaskAssignmentService
 
         if (subtask.Task is not null)
         {
-            subtask.Task.Status = TaskStatusEnum.InProgress;
+            if (subtask.Task.Status != TaskStatusEnum.Paused)
+            {
+                subtask.Task.Status = TaskStatusEnum.InProgress;
+            }
+
             subtask.Task.UpdatedAt = now;
         }
 
@@ -889,7 +1404,7 @@ public sealed class TaskAssignmentService
         }
     }
 
-    private static decimal CalculateCost(TimeSpan duration, string device, long memoryGBytes)
+    public static decimal CalculateCost(TimeSpan duration, string device, long memoryGBytes)
     {
         var normalizedDevice = device?.Trim().ToLowerInvariant() ?? "cpu";
 
@@ -922,7 +1437,12 @@ public sealed class TaskAssignmentService
         return Math.Round(cost, 4, MidpointRounding.AwayFromZero);
     }
 
-    private async Task CreateEarningAndWithdrawAsync(Subtask subtask, Data.Entities.Task task)
+    /// <summary>
+    /// Credits the provider and debits the requestor for a completed subtask.
+    /// The requestor is never billed past the task's budget cap. Returns what
+    /// the task has been billed so far, this subtask included.
+    /// </summary>
+    private async Task<decimal> CreateEarningAndWithdrawAsync(Subtask subtask, Data.Entities.Task task, CancellationToken cancellationToken)
     {
         var assignedProviderId = subtask.AssignedProviderId ??
                                  throw new InvalidOperationException("Assigned provider required");
@@ -932,7 +1452,13 @@ public sealed class TaskAssignmentService
         }
 
         var subtaskCost = subtask.CostUsd.Value;
-        var withdrawalAmount = subtaskCost * 1.2m;
+        var withdrawalAmount = subtaskCost * RequestorMarkup;
+
+        var billedAmount = await GetBilledAmountAsync(task.Id, cancellationToken);
+        if (task.BudgetCapAmount is { } budgetCap)
+        {
+            withdrawalAmount = Math.Clamp(budgetCap - billedAmount, 0m, withdrawalAmount);
+        }
 
         // Get provider and requestor users to update balances
         var provider = await _context.Users.FindAsync(assignedProviderId);
@@ -984,6 +1510,66 @@ public sealed class TaskAssignmentService
 
         _context.Earnings.Add(earning);
         _context.Withdrawals.Add(withdrawal);
+
+        return billedAmount + withdrawalAmount;
+    }
+
+    private async Task<decimal> GetBilledAmountAsync(Guid taskId, CancellationToken cancellationToken)
+        => await _context.Withdrawals
+            .Where(w => w.TaskId == taskId)
+            .SumAsync(w => (decimal?)w.Amount, cancellationToken) ?? 0m;
+
+    /// <summary>
+    /// Pauses or fails a task once it has been billed its budget cap. Failing
+    /// withdraws the pending subtasks; running ones finish unbilled.
+    /// </summary>
+    private async Task<bool> ApplyBudgetCapAsync(Subtask subtask, decimal billedAmount, DateTime now, CancellationToken cancellationToken)
+    {
+        var task = subtask.Task;
+        if (task.BudgetCapAmount is not { } budgetCap
+            || billedAmount < budgetCap
+            || task.Status is TaskStatusEnum.Paused or TaskStatusEnum.Failed or TaskStatusEnum.Cancelled)
+        {
+            return false;
+        }
+
+        var action = task.BudgetCapAction ?? BudgetCapAction.Pause;
+        if (action == BudgetCapAction.Fail)
+        {
+            var pendingSubtasks = await _context.Subtasks
+                .Where(s => s.TaskId == task.Id && s.Id != subtask.Id && s.Status == SubtaskStatusEnum.Pending)
+                .ToListAsync(cancellationToken);
+
+            foreach (var pending in pendingSubtasks)
+            {
+                StopSubtask(pending, "Budget cap reached", now);
+            }
+
+            task.Status = TaskStatusEnum.Failed;
+        }
+        else
+        {
+            task.Status = TaskStatusEnum.Paused;
+        }
+
+        task.UpdatedAt = now;
+
+        _logger.LogInformation(
+            "Task {TaskId} reached its budget cap of {BudgetCap} (billed {BilledAmount}); applied {Action}",
+            task.Id,
+            budgetCap,
+            billedAmount,
+            action);
+
+        await AppendTimelineEventAsync(subtask, "budget-cap-reached", $"Task budget cap reached; task {(action == BudgetCapAction.Fail ? "failed" : "paused")}", new
+        {
+            budgetCap,
+            billedAmount,
+            action = action.ToString(),
+            reachedAtUtc = now
+        }, cancellationToken);
+
+        return true;
     }
 
     #endregion
@@ -998,10 +1584,21 @@ public sealed class TaskAssignmentService
 
     public sealed record EnvironmentUpdateResult(Subtask Subtask, ApplicationUser Provider);
 
-    public sealed record CompletionResult(Subtask Subtask, ApplicationUser Provider, bool TaskCompleted);
+    public sealed record CompletionResult(Subtask Subtask, ApplicationUser Provider, bool TaskCompleted, bool BudgetCapReached = false);
 
     public sealed record FailureResult(Subtask Subtask, ApplicationUser Provider, bool WasReassigned, bool TaskFailed);
 
+    public sealed record InterventionResult(
+        Subtask Subtask,
+        string? PreviousProviderUserId,
+        ApplicationUser? TargetProvider,
+        bool TaskFinished);
+
+    public sealed record TaskControlResult(
+        Data.Entities.Task Task,
+        IReadOnlyList<InterventionResult> StoppedSubtasks,
+        IReadOnlyList<Subtask> RequeuedSubtasks);
+
     private sealed record CompletionMetadataResult(IDictionary<string, object?>? Metadata, string? ArtifactsUrl);
 
     private sealed class ProviderCapabilities
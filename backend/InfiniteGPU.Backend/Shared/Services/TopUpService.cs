@@ -0,0 +1,439 @@
+using InfiniteGPU.Backend.Data;
+using InfiniteGPU.Backend.Data.Entities;
+using InfiniteGPU.Backend.Features.Finance.Commands;
+using InfiniteGPU.Backend.Features.Finance.Models;
+using Microsoft.EntityFrameworkCore;
+using Stripe;
+
+namespace InfiniteGPU.Backend.Shared.Services;
+
+/// <summary>
+/// Charges balance top-ups through Stripe. Each top-up is recorded as a
+/// pending payment before the card is charged and credited exactly once,
+/// whether the confirmation arrives from the dialog after a 3-D Secure
+/// challenge or from the webhook. Saved cards live on the user's Stripe
+/// customer, which is created on first use.
+/// </summary>
+public sealed class TopUpService
+{
+    public const string TopUpMetadataType = "balance_topup";
+
+    private readonly AppDbContext _context;
+    private readonly IConfiguration _configuration;
+    private readonly ILogger<TopUpService> _logger;
+
+    public TopUpService(
+        AppDbContext context,
+        IConfiguration configuration,
+        ILogger<TopUpService> logger)
+    {
+        _context = context;
+        _configuration = configuration;
+        _logger = logger;
+    }
+
+    public async Task<ProcessPaymentResult> ChargeAsync(
+        ApplicationUser user,
+        decimal amount,
+        string stripePaymentMethodId,
+        bool savePaymentMethod,
+        bool isAutoRecharge,
+        CancellationToken cancellationToken)
+    {
+        if (!TryConfigureStripe())
+        {
+            return new ProcessPaymentResult(null, "Payment system not configured");
+        }
+
+        string customerId;
+        try
+        {
+            customerId = await EnsureCustomerAsync(user, cancellationToken);
+        }
+        catch (StripeException stripeEx)
+        {
+            _logger.LogError(stripeEx, "Failed to create Stripe customer for user {UserId}", user.Id);
+            return new ProcessPaymentResult(null, $"Payment failed: {stripeEx.Message}");
+        }
+
+        var payment = new Payment
+        {
+            Id = Guid.NewGuid(),
+            UserId = user.Id,
+            Amount = amount,
+            Status = PaymentStatus.Pending,
+            InvoiceNumber = await NextInvoiceNumberAsync(user.Id, cancellationToken),
+            IsAutoRecharge = isAutoRecharge,
+            CreatedAtUtc = DateTime.UtcNow
+        };
+
+        _context.Payments.Add(payment);
+        await _context.SaveChangesAsync(cancellationToken);
+
+        var paymentIntentOptions = new PaymentIntentCreateOptions
+        {
+            Amount = (long)Math.Round(amount * 100m), // Convert to cents
+            Currency = "usd",
+            Customer = customerId,
+            PaymentMethod = stripePaymentMethodId,
+            Confirm = true,
+            Metadata = new Dictionary<string, string>
+            {
+                { "user_id", user.Id },
+                { "type", TopUpMetadataType },
+                { "payment_id", payment.Id.ToString() }
+            },
+            Expand = new List<string> { "latest_charge" }
+        };
+
+        if (isAutoRecharge)
+        {
+            // Nobody is there to answer a 3-D Secure challenge; Stripe fails
+            // the charge instead when the bank asks for one.
+            paymentIntentOptions.OffSession = true;
+            paymentIntentOptions.AutomaticPaymentMethods = new PaymentIntentAutomaticPaymentMethodsOptions
+            {
+                Enabled = true,
+                AllowRedirects = "never"
+            };
+        }
+        else
+        {
+            paymentIntentOptions.AutomaticPaymentMethods = new PaymentIntentAutomaticPaymentMethodsOptions
+            {
+                Enabled = true,
+                AllowRedirects = "always" // Allow redirects for 3D Secure authentication
+            };
+            paymentIntentOptions.ReturnUrl = _configuration["Frontend:BaseUrl"] + "finances";
+            paymentIntentOptions.PaymentMethodOptions = new PaymentIntentPaymentMethodOptionsOptions
+            {
+                Card = new PaymentIntentPaymentMethodOptionsCardOptions
+                {
+                    RequestThreeDSecure = "automatic" // Request 3DS when available
+                }
+            };
+
+            if (savePaymentMethod)
+            {
+                paymentIntentOptions.SetupFutureUsage = "off_session";
+            }
+        }
+
+        PaymentIntent paymentIntent;
+        try
+        {
+            paymentIntent = await new PaymentIntentService().CreateAsync(paymentIntentOptions, cancellationToken: cancellationToken);
+        }
+        catch (StripeException stripeEx)
+        {
+            _logger.LogWarning(stripeEx, "Stripe declined top-up {PaymentId} for user {UserId}", payment.Id, user.Id);
+
+            payment.StripeId = stripeEx.StripeError?.PaymentIntent?.Id ?? string.Empty;
+            payment.Status = PaymentStatus.Failed;
+            payment.FailureReason = stripeEx.StripeError?.Message ?? stripeEx.Message;
+            payment.UpdatedAtUtc = DateTime.UtcNow;
+            await _context.SaveChangesAsync(cancellationToken);
+
+            return new ProcessPaymentResult(ToResult(payment, TopUpResultStatus.Failed, null), null);
+        }
+
+        payment.StripeId = paymentIntent.Id;
+        return new ProcessPaymentResult(await ApplyAsync(payment, paymentIntent, cancellationToken), null);
+    }
+
+    /// <summary>
+    /// Re-reads the top-up's PaymentIntent and applies its state; null when the user has no such top-up.
+    /// </summary>
+    public async Task<TopUpResultDto?> ConfirmAsync(string userId, Guid paymentId, CancellationToken cancellationToken)
+    {
+        var payment = await _context.Payments
+            .FirstOrDefaultAsync(p => p.Id == paymentId && p.UserId == userId, cancellationToken);
+
+        if (payment is null)
+        {
+            return null;
+        }
+
+        return await SyncAsync(payment, cancellationToken);
+    }
+
+    /// <summary>
+    /// Applies a PaymentIntent event delivered by the webhook to the top-up it charged.
+    /// </summary>
+    public async Task<bool> SyncFromStripeAsync(PaymentIntent paymentIntent, CancellationToken cancellationToken)
+    {
+        var payment = await _context.Payments
+            .FirstOrDefaultAsync(p => p.StripeId == paymentIntent.Id, cancellationToken);
+
+        if (payment is null
+            && paymentIntent.Metadata.TryGetValue("payment_id", out var rawPaymentId)
+            && Guid.TryParse(rawPaymentId, out var paymentId))
+        {
+            payment = await _context.Payments
+                .FirstOrDefaultAsync(p => p.Id == paymentId, cancellationToken);
+        }
+
+        if (payment is null)
+        {
+            return false;
+        }
+
+        if (string.IsNullOrEmpty(payment.StripeId))
+        {
+            payment.StripeId = paymentIntent.Id;
+        }
+
+        await SyncAsync(payment, cancellationToken);
+        return true;
+    }
+
+    public async Task<IReadOnlyList<PaymentMethodDto>> ListPaymentMethodsAsync(string userId, CancellationToken cancellationToken)
+    {
+        var customerId = await _context.Users
+            .AsNoTracking()
+            .Where(u => u.Id == userId)
+            .Select(u => u.StripeCustomerId)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (string.IsNullOrEmpty(customerId) || !TryConfigureStripe())
+        {
+            return Array.Empty<PaymentMethodDto>();
+        }
+
+        var paymentMethods = await new PaymentMethodService().ListAsync(
+            new PaymentMethodListOptions { Customer = customerId, Type = "card" },
+            cancellationToken: cancellationToken);
+
+        return paymentMethods.Data
+            .Where(m => m.Card is not null)
+            .OrderByDescending(m => m.Created)
+            .Select(m => new PaymentMethodDto(
+                m.Id,
+                m.Card.Brand,
+                m.Card.Last4,
+                m.Card.ExpMonth,
+                m.Card.ExpYear,
+                m.Created))
+            .ToList();
+    }
+
+    public async Task<bool> IsSavedPaymentMethodAsync(string userId, string paymentMethodId, CancellationToken cancellationToken)
+    {
+        var customerId = await _context.Users
+            .AsNoTracking()
+            .Where(u => u.Id == userId)
+            .Select(u => u.StripeCustomerId)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (string.IsNullOrEmpty(customerId) || !TryConfigureStripe())
+        {
+            return false;
+        }
+
+        try
+        {
+            var paymentMethod = await new PaymentMethodService().GetAsync(paymentMethodId, cancellationToken: cancellationToken);
+            return paymentMethod.CustomerId == customerId;
+        }
+        catch (StripeException)
+        {
+            return false;
+        }
+    }
+
+    /// <summary>
+    /// Detaches a saved card and turns off auto-recharge when it was charging it.
+    /// </summary>
+    public async Task<bool> DetachPaymentMethodAsync(string userId, string paymentMethodId, CancellationToken cancellationToken)
+    {
+        if (!await IsSavedPaymentMethodAsync(userId, paymentMethodId, cancellationToken))
+        {
+            return false;
+        }
+
+        await new PaymentMethodService().DetachAsync(paymentMethodId, cancellationToken: cancellationToken);
+
+        var rule = await _context.AutoRechargeRules
+            .FirstOrDefaultAsync(r => r.UserId == userId && r.PaymentMethodId == paymentMethodId, cancellationToken);
+
+        if (rule is not null)
+        {
+            rule.Enabled = false;
+            rule.PaymentMethodId = null;
+            rule.UpdatedAtUtc = DateTime.UtcNow;
+            await _context.SaveChangesAsync(cancellationToken);
+        }
+
+        return true;
+    }
+
+    /// <summary>
+    /// Charges the rule's card off-session and records the outcome on the rule.
+    /// </summary>
+    public async Task<bool> RunAutoRechargeAsync(AutoRechargeRule rule, CancellationToken cancellationToken)
+    {
+        var user = await _context.Users
+            .FirstOrDefaultAsync(u => u.Id == rule.UserId, cancellationToken);
+
+        if (user is null || string.IsNullOrEmpty(rule.PaymentMethodId))
+        {
+            return false;
+        }
+
+        rule.LastTriggeredAtUtc = DateTime.UtcNow;
+        await _context.SaveChangesAsync(cancellationToken);
+
+        var result = await ChargeAsync(user, rule.RechargeAmount, rule.PaymentMethodId, false, true, cancellationToken);
+        var succeeded = result.TopUp?.Status is TopUpResultStatus.Succeeded or TopUpResultStatus.Pending;
+
+        rule.LastFailureReason = succeeded
+            ? null
+            : result.TopUp?.FailureReason ?? result.ErrorMessage ?? "The card was declined";
+        await _context.SaveChangesAsync(cancellationToken);
+
+        _logger.LogInformation(
+            "Auto-recharge for user {UserId} of {Amount}: {Status}",
+            rule.UserId, rule.RechargeAmount, result.TopUp?.Status.ToString() ?? result.ErrorMessage);
+
+        return succeeded;
+    }
+
+    public static TopUpStatus ToTopUpStatus(PaymentStatus status) => status switch
+    {
+        PaymentStatus.Paid => TopUpStatus.Succeeded,
+        PaymentStatus.Refunded => TopUpStatus.Refunded,
+        PaymentStatus.Failed => TopUpStatus.Failed,
+        _ => TopUpStatus.Pending
+    };
+
+    private async Task<TopUpResultDto> SyncAsync(Payment payment, CancellationToken cancellationToken)
+    {
+        if (payment.Status == PaymentStatus.Paid)
+        {
+            return ToResult(payment, TopUpResultStatus.Succeeded, null);
+        }
+
+        if (string.IsNullOrEmpty(payment.StripeId) || !TryConfigureStripe())
+        {
+            return ToResult(payment, payment.Status == PaymentStatus.Failed ? TopUpResultStatus.Failed : TopUpResultStatus.Pending, null);
+        }
+
+        var paymentIntent = await new PaymentIntentService().GetAsync(
+            payment.StripeId,
+            new PaymentIntentGetOptions { Expand = new List<string> { "latest_charge" } },
+            cancellationToken: cancellationToken);
+
+        return await ApplyAsync(payment, paymentIntent, cancellationToken);
+    }
+
+    private async Task<TopUpResultDto> ApplyAsync(Payment payment, PaymentIntent paymentIntent, CancellationToken cancellationToken)
+    {
+        var charge = paymentIntent.LatestCharge;
+        if (charge is not null)
+        {
+            payment.CardBrand = charge.PaymentMethodDetails?.Card?.Brand ?? payment.CardBrand;
+            payment.CardLast4 = charge.PaymentMethodDetails?.Card?.Last4 ?? payment.CardLast4;
+            payment.ReceiptUrl = charge.ReceiptUrl ?? payment.ReceiptUrl;
+        }
+
+        payment.UpdatedAtUtc = DateTime.UtcNow;
+
+        switch (paymentIntent.Status)
+        {
+            case "succeeded":
+                await CreditAsync(payment, cancellationToken);
+                return ToResult(payment, TopUpResultStatus.Succeeded, null);
+
+            case "requires_action":
+            case "requires_source_action":
+                await _context.SaveChangesAsync(cancellationToken);
+                return ToResult(payment, TopUpResultStatus.RequiresAction, paymentIntent.ClientSecret);
+
+            case "processing":
+                await _context.SaveChangesAsync(cancellationToken);
+                return ToResult(payment, TopUpResultStatus.Pending, null);
+
+            default:
+                payment.Status = PaymentStatus.Failed;
+                payment.FailureReason = paymentIntent.LastPaymentError?.Message
+                    ?? $"Payment not completed. Status: {paymentIntent.Status}";
+                await _context.SaveChangesAsync(cancellationToken);
+                return ToResult(payment, TopUpResultStatus.Failed, null);
+        }
+    }
+
+    private async System.Threading.Tasks.Task CreditAsync(Payment payment, CancellationToken cancellationToken)
+    {
+        var settledAtUtc = DateTime.UtcNow;
+
+        // The dialog and the webhook may both report the same success; only
+        // the one that moves the payment out of its unpaid state credits it.
+        var claimed = await _context.Payments
+            .Where(p => p.Id == payment.Id && p.Status != PaymentStatus.Paid)
+            .ExecuteUpdateAsync(setters => setters
+                .SetProperty(p => p.Status, PaymentStatus.Paid)
+                .SetProperty(p => p.SettledAtUtc, settledAtUtc), cancellationToken);
+
+        payment.Status = PaymentStatus.Paid;
+        payment.SettledAtUtc = settledAtUtc;
+        payment.FailureReason = null;
+
+        if (claimed == 1)
+        {
+            var user = await _context.Users
+                .FirstAsync(u => u.Id == payment.UserId, cancellationToken);
+            user.Balance += payment.Amount;
+
+            _logger.LogInformation(
+                "Top-up {PaymentId} credited. UserId: {UserId}, Amount: {Amount}, StripeId: {StripeId}",
+                payment.Id, payment.UserId, payment.Amount, payment.StripeId);
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    private async Task<string> EnsureCustomerAsync(ApplicationUser user, CancellationToken cancellationToken)
+    {
+        if (!string.IsNullOrEmpty(user.StripeCustomerId))
+        {
+            return user.StripeCustomerId;
+        }
+
+        var customer = await new CustomerService().CreateAsync(
+            new CustomerCreateOptions
+            {
+                Email = user.Email,
+                Metadata = new Dictionary<string, string> { { "user_id", user.Id } }
+            },
+            cancellationToken: cancellationToken);
+
+        user.StripeCustomerId = customer.Id;
+        await _context.SaveChangesAsync(cancellationToken);
+
+        return customer.Id;
+    }
+
+    private async Task<string> NextInvoiceNumberAsync(string userId, CancellationToken cancellationToken)
+    {
+        var previousTopUps = await _context.Payments
+            .CountAsync(p => p.UserId == userId, cancellationToken);
+
+        return $"IGPU-{DateTime.UtcNow.Year}-{previousTopUps + 1:D6}";
+    }
+
+    private bool TryConfigureStripe()
+    {
+        var stripeSecretKey = _configuration["Stripe:SecretKey"];
+        if (string.IsNullOrWhiteSpace(stripeSecretKey))
+        {
+            _logger.LogError("Stripe secret key not configured");
+            return false;
+        }
+
+        StripeConfiguration.ApiKey = stripeSecretKey;
+        return true;
+    }
+
+    private static TopUpResultDto ToResult(Payment payment, TopUpResultStatus status, string? clientSecret)
+        => new(payment.Id, status, clientSecret, payment.FailureReason);
+}
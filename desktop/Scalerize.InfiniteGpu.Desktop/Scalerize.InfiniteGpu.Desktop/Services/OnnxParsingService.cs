@@ -246,12 +246,32 @@ namespace Scalerize.InfiniteGpu.Desktop.Services
             return lookup;
         }
 
+        // TensorProto.DataType values, named the way onnxruntime reports them.
+        private static readonly Dictionary<int, string> ElementTypeNames = new()
+        {
+            [1] = "float32",
+            [2] = "uint8",
+            [3] = "int8",
+            [4] = "uint16",
+            [5] = "int16",
+            [6] = "int32",
+            [7] = "int64",
+            [8] = "string",
+            [9] = "bool",
+            [10] = "float16",
+            [11] = "float64",
+            [12] = "uint32",
+            [13] = "uint64",
+            [16] = "bfloat16"
+        };
+
         /// <summary>
-        /// Extracts global model input and output tensor names from an ONNX model.
-        /// Global inputs exclude initializers (weights/constants).
+        /// Extracts global model inputs and outputs from an ONNX model, with their
+        /// element type and shape. Global inputs exclude initializers (weights/constants).
+        /// Model metadata is returned as well since exporters store tokenizer hints there.
         /// </summary>
-        /// <param name="model">The ONNX model to extract names from</param>
-        /// <returns>Object containing arrays of global input and output names</returns>
+        /// <param name="model">The ONNX model to describe</param>
+        /// <returns>Object containing the global inputs, outputs and model metadata</returns>
         public object GetInputOutputNames(Onnx.ModelProto model)
         {
             if (model == null)
@@ -274,31 +294,66 @@ namespace Scalerize.InfiniteGpu.Desktop.Services
                 }
             }
 
-            var inputNames = new List<string>();
-            var outputNames = new List<string>();
+            // Extract global inputs (excluding initializers/weights)
+            var inputs = model.Graph.Input
+                .Where(input => !string.IsNullOrEmpty(input.Name) && !initializerNames.Contains(input.Name))
+                .Select(DescribeValueInfo)
+                .ToArray();
 
-            // Extract global input names (excluding initializers/weights)
-            foreach (var input in model.Graph.Input)
+            // Extract global outputs
+            var outputs = model.Graph.Output
+                .Where(output => !string.IsNullOrEmpty(output.Name))
+                .Select(DescribeValueInfo)
+                .ToArray();
+
+            var metadata = new Dictionary<string, string>();
+            foreach (var property in model.MetadataProps)
             {
-                if (!string.IsNullOrEmpty(input.Name) && !initializerNames.Contains(input.Name))
+                if (!string.IsNullOrEmpty(property.Key))
                 {
-                    inputNames.Add(input.Name);
+                    metadata[property.Key] = property.Value ?? string.Empty;
                 }
             }
 
-            // Extract global output names
-            foreach (var output in model.Graph.Output)
+            return new
             {
-                if (!string.IsNullOrEmpty(output.Name))
-                {
-                    outputNames.Add(output.Name);
-                }
+                inputs,
+                outputs,
+                metadata
+            };
+        }
+
+        private static object DescribeValueInfo(Onnx.ValueInfoProto valueInfo)
+        {
+            var tensorType = valueInfo.Type?.ValueCase == Onnx.TypeProto.ValueOneofCase.TensorType
+                ? valueInfo.Type.TensorType
+                : null;
+
+            string? elementType = null;
+            if (tensorType != null)
+            {
+                elementType = ElementTypeNames.TryGetValue(tensorType.ElemType, out var typeName)
+                    ? typeName
+                    : $"type{tensorType.ElemType}";
             }
 
+            // Fixed dims are numbers, symbolic dims (e.g. "batch") are strings,
+            // and dims without either are null. A missing shape means unknown rank.
+            object?[]? shape = tensorType?.Shape?.Dim
+                .Select(dim => dim.ValueCase switch
+                {
+                    Onnx.TensorShapeProto.Types.Dimension.ValueOneofCase.DimValue => (object?)dim.DimValue,
+                    Onnx.TensorShapeProto.Types.Dimension.ValueOneofCase.DimParam => dim.DimParam,
+                    _ => null
+                })
+                .ToArray();
+
             return new
             {
-                inputs = inputNames.Select(name => new { name }).ToArray(),
-                outputs = outputNames.Select(name => new { name }).ToArray()
+                name = valueInfo.Name,
+                elementType,
+                shape,
+                denotation = string.IsNullOrEmpty(valueInfo.Type?.Denotation) ? null : valueInfo.Type.Denotation
             };
         }
     }
@@ -0,0 +1,306 @@
+#!/usr/bin/env node
+// Generates the typed API client in src/shared/api/generated from the
+// backend's OpenAPI document.
+//
+//   npm run api:generate   regenerate from the checked-in openapi/infinitegpu.v1.json
+//   npm run api:pull       download the document from a running development
+//                          backend (VITE_BACKEND_URL, default http://localhost:5116)
+//                          into openapi/ first, then regenerate
+//
+// Only operations with an operationId are emitted. Runtime descriptors are
+// written next to the types so responses can be validated against the same
+// contract (see src/shared/api/contractValidation.ts).
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const DOCUMENT_PATH = join(ROOT, 'openapi', 'infinitegpu.v1.json');
+const OUTPUT_DIR = join(ROOT, 'src', 'shared', 'api', 'generated');
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+const loadDocument = async () => {
+  if (!process.argv.includes('--pull')) {
+    return JSON.parse(await readFile(DOCUMENT_PATH, 'utf8'));
+  }
+
+  const baseUrl = (process.env.VITE_BACKEND_URL || 'http://localhost:5116').replace(/\/+$/, '');
+  const url = `${baseUrl}/swagger/v1/swagger.json`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`GET ${url} failed with status ${response.status}`);
+  }
+
+  const document = await response.json();
+  await mkdir(dirname(DOCUMENT_PATH), { recursive: true });
+  await writeFile(DOCUMENT_PATH, `${JSON.stringify(document, null, 2)}\n`);
+  console.log(`Saved ${relative(ROOT, DOCUMENT_PATH)} from ${url}`);
+  return document;
+};
+
+const refName = (ref) => ref.split('/').pop();
+
+const isIdentifier = (name) => /^[A-Za-z_$][\w$]*$/.test(name);
+
+const quote = (value) => `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const camelCase = (name) => name.charAt(0).toLowerCase() + name.slice(1);
+
+/** Reduces an OpenAPI 3.0/3.1 schema to a `ContractSchema` descriptor. */
+const toDescriptor = (schema) => {
+  if (!schema || typeof schema !== 'object') {
+    return { type: 'any' };
+  }
+
+  let types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const nullable = schema.nullable === true || types.includes('null');
+  types = types.filter((type) => type !== 'null');
+  const withNullable = (descriptor) => (nullable ? { ...descriptor, nullable: true } : descriptor);
+
+  if (schema.$ref) {
+    return withNullable({ $ref: refName(schema.$ref) });
+  }
+
+  // Swashbuckle wraps a nullable reference as `allOf: [{ $ref }]`.
+  const composed = schema.allOf ?? schema.oneOf ?? schema.anyOf;
+  if (composed?.length === 1) {
+    const inner = toDescriptor(composed[0]);
+    return nullable ? { ...inner, nullable: true } : inner;
+  }
+
+  const type = types[0] ?? (schema.properties || schema.additionalProperties ? 'object' : undefined);
+  switch (type) {
+    case 'string':
+      return withNullable({
+        type: 'string',
+        ...(schema.enum ? { enum: schema.enum.map(String) } : {}),
+        ...(schema.format === 'date-time' ? { format: 'date-time' } : {})
+      });
+    case 'integer':
+    case 'number':
+    case 'boolean':
+      return withNullable({ type });
+    case 'array':
+      return withNullable({ type: 'array', items: toDescriptor(schema.items) });
+    case 'object': {
+      const properties = Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([name, property]) => [name, toDescriptor(property)])
+      );
+      const descriptor = { type: 'object' };
+      if (Object.keys(properties).length > 0) {
+        descriptor.properties = properties;
+      }
+      // Swashbuckle leaves `required` out; with non-nullable reference types
+      // enabled, every property that cannot be null is always serialized.
+      const required =
+        schema.required ?? Object.keys(properties).filter((name) => !properties[name].nullable);
+      if (required.length > 0) {
+        descriptor.required = required;
+      }
+      if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        descriptor.additionalProperties = toDescriptor(schema.additionalProperties);
+      } else if (schema.additionalProperties === true) {
+        descriptor.additionalProperties = { type: 'any' };
+      }
+      return withNullable(descriptor);
+    }
+    default:
+      return withNullable({ type: 'any' });
+  }
+};
+
+const toTsType = (descriptor, references, indent = '') => {
+  const nullable = descriptor.nullable ? ' | null' : '';
+  if (descriptor.$ref) {
+    references.add(descriptor.$ref);
+    return `${descriptor.$ref}${nullable}`;
+  }
+
+  switch (descriptor.type) {
+    case 'string':
+      return `${descriptor.enum ? descriptor.enum.map(quote).join(' | ') : 'string'}${nullable}`;
+    case 'integer':
+    case 'number':
+      return `number${nullable}`;
+    case 'boolean':
+      return `boolean${nullable}`;
+    case 'array':
+      return `Array<${toTsType(descriptor.items, references, indent)}>${nullable}`;
+    case 'object': {
+      if (!descriptor.properties) {
+        const valueType = descriptor.additionalProperties
+          ? toTsType(descriptor.additionalProperties, references, indent)
+          : 'unknown';
+        return `Record<string, ${valueType}>${nullable}`;
+      }
+      return `${objectBody(descriptor, references, indent)}${nullable}`;
+    }
+    default:
+      return 'unknown';
+  }
+};
+
+const objectBody = (descriptor, references, indent) => {
+  const required = new Set(descriptor.required ?? []);
+  const lines = Object.entries(descriptor.properties ?? {}).map(([name, property]) => {
+    const key = isIdentifier(name) ? name : quote(name);
+    const optional = required.has(name) ? '' : '?';
+    return `${indent}  ${key}${optional}: ${toTsType(property, references, `${indent}  `)};`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+};
+
+/** Prints a descriptor as a TypeScript literal in the repo's quote style. */
+const toLiteral = (value, indent = '') => {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => toLiteral(item, indent)).join(', ')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    const inner = `${indent}  `;
+    const flat = `{ ${entries.map(([key, item]) => `${isIdentifier(key) ? key : quote(key)}: ${toLiteral(item, inner)}`).join(', ')} }`;
+    if (flat.length <= 100 && !flat.includes('\n')) {
+      return flat;
+    }
+
+    const lines = entries.map(
+      ([key, item]) => `${inner}${isIdentifier(key) ? key : quote(key)}: ${toLiteral(item, inner)}`
+    );
+    return `{\n${lines.join(',\n')}\n${indent}}`;
+  }
+
+  return typeof value === 'string' ? quote(value) : String(value);
+};
+
+const HEADER = (documentPath) =>
+  `// Generated by scripts/generate-api-client.mjs from ${documentPath}; do not edit by hand.\n`;
+
+const generateContract = (document, documentPath) => {
+  const schemas = Object.entries(document.components?.schemas ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  const descriptors = schemas.map(([name, schema]) => [name, toDescriptor(schema), schema.description]);
+  const references = new Set();
+
+  const declarations = descriptors.map(([name, descriptor, description]) => {
+    const comment = description ? `/** ${description} */\n` : '';
+    if (descriptor.type === 'object' && descriptor.properties) {
+      return `${comment}export interface ${name} ${objectBody(descriptor, references, '')}`;
+    }
+    return `${comment}export type ${name} = ${toTsType(descriptor, references)};`;
+  });
+
+  const registry = descriptors.map(([name, descriptor]) => `  ${name}: ${toLiteral(descriptor, '  ')}`).join(',\n');
+
+  return [
+    HEADER(documentPath),
+    "import type { ContractSchemaRegistry } from '../contractValidation';\n",
+    declarations.join('\n\n'),
+    '',
+    `export const contractSchemas = {\n${registry}\n} as const satisfies ContractSchemaRegistry;`,
+    '',
+    'export type ContractSchemaName = keyof typeof contractSchemas;',
+    ''
+  ].join('\n');
+};
+
+const jsonContent = (container) => {
+  const content = container?.content ?? {};
+  return content['application/json'] ?? content['text/json'] ?? content['*/*'] ?? null;
+};
+
+const resolveParameter = (document, parameter) =>
+  parameter.$ref ? document.components.parameters[refName(parameter.$ref)] : parameter;
+
+const generateOperations = (document, documentPath) => {
+  const references = new Set();
+  const operations = [];
+
+  Object.entries(document.paths ?? {}).forEach(([path, item]) => {
+    HTTP_METHODS.forEach((method) => {
+      const operation = item[method];
+      if (!operation?.operationId) {
+        return;
+      }
+
+      const parameters = [...(item.parameters ?? []), ...(operation.parameters ?? [])].map((parameter) =>
+        resolveParameter(document, parameter)
+      );
+      const pathParameters = parameters.filter((parameter) => parameter.in === 'path');
+      const queryParameters = parameters.filter((parameter) => parameter.in === 'query');
+
+      const args = pathParameters.map(
+        (parameter) => `${camelCase(parameter.name)}: ${toTsType(toDescriptor(parameter.schema), references)}`
+      );
+
+      const requestSchema = jsonContent(operation.requestBody)?.schema;
+      const bodyType = requestSchema ? toTsType(toDescriptor(requestSchema), references) : null;
+      if (bodyType) {
+        args.push(`body: ${bodyType}`);
+      }
+
+      if (queryParameters.length > 0) {
+        const fields = queryParameters.map((parameter) => {
+          const optional = parameter.required ? '' : '?';
+          return `${camelCase(parameter.name)}${optional}: ${toTsType(toDescriptor(parameter.schema), references)}`;
+        });
+        const allOptional = queryParameters.every((parameter) => !parameter.required);
+        args.push(`query: { ${fields.join('; ')} }${allOptional ? ' = {}' : ''}`);
+      }
+      args.push('signal?: AbortSignal');
+
+      const success = ['200', '201'].map((status) => operation.responses?.[status]).find(Boolean);
+      const responseSchema = jsonContent(success)?.schema;
+      const responseDescriptor = responseSchema ? toDescriptor(responseSchema) : null;
+      const responseType = responseDescriptor ? toTsType(responseDescriptor, references) : 'void';
+
+      let url = `'${path}'`;
+      if (pathParameters.length > 0) {
+        url = `\`${path.replace(/\{([^}:]+)(:[^}]*)?\}/g, (_, name) => `\${encodeURIComponent(${camelCase(name)})}`)}\``;
+      }
+      if (queryParameters.length > 0) {
+        const queryMap = queryParameters.map(
+          (parameter) =>
+            `${isIdentifier(parameter.name) ? parameter.name : quote(parameter.name)}: query.${camelCase(parameter.name)}`
+        );
+        url = `withQuery(${url}, { ${queryMap.join(', ')} })`;
+      }
+
+      const requestOptions = [
+        ...(method === 'get' ? [] : [`method: '${method.toUpperCase()}'`]),
+        ...(bodyType ? ['body'] : []),
+        'signal'
+      ];
+
+      const summary = operation.summary ? ` — ${operation.summary}` : '';
+      operations.push(
+        `/** ${method.toUpperCase()} ${path}${summary} */\n` +
+          `export const ${camelCase(operation.operationId)} = (${args.join(', ')}) =>\n` +
+          `  requestContract<${responseType}${bodyType ? `, ${bodyType}` : ''}>(\n` +
+          `    ${quote(operation.operationId)},\n` +
+          `    ${url},\n` +
+          `    ${responseDescriptor ? toLiteral(responseDescriptor, '    ') : 'null'},\n` +
+          `    { ${requestOptions.join(', ')} }\n` +
+          '  );'
+      );
+    });
+  });
+
+  const usesQuery = operations.some((operation) => operation.includes('withQuery('));
+  const typeImports = [...references].sort();
+  return [
+    HEADER(documentPath),
+    `import { requestContract${usesQuery ? ', withQuery' : ''} } from '../contractClient';`,
+    ...(typeImports.length > 0 ? [`import type { ${typeImports.join(', ')} } from './contract';`] : []),
+    '',
+    operations.join('\n\n'),
+    ''
+  ].join('\n');
+};
+
+const document = await loadDocument();
+const documentPath = relative(ROOT, DOCUMENT_PATH);
+await mkdir(OUTPUT_DIR, { recursive: true });
+await writeFile(join(OUTPUT_DIR, 'contract.ts'), generateContract(document, documentPath));
+await writeFile(join(OUTPUT_DIR, 'operations.ts'), generateOperations(document, documentPath));
+console.log(`Generated ${relative(ROOT, OUTPUT_DIR)} from ${documentPath}`);
@@ -8,10 +8,19 @@ import {
 import { LoginPage } from './features/auth/components/LoginPage';
 import { RegisterPage } from './features/auth/components/RegisterPage';
 import { ProtectedAppShell } from './shared/layout/ProtectedAppShell';
+import { RoleGuard } from './shared/layout/RoleGuard';
+import { ROUTE_ROLES } from './shared/layout/routeAccess';
 import { DashboardPage } from './pages/DashboardPage';
 import { TasksPage } from './pages/TasksPage';
 import { RequestsPage } from './pages/RequestsPage';
 import { FinancePage } from './pages/FinancePage';
+import { AnalyticsPage } from './pages/AnalyticsPage';
+import { AdminPage } from './pages/AdminPage';
+import { AdminTasksPanel } from './features/admin/components/AdminTasksPanel';
+import { StuckSubtasksPanel } from './features/admin/components/StuckSubtasksPanel';
+import { ProviderDevicesPanel } from './features/admin/components/ProviderDevicesPanel';
+import { SettlementApprovalPanel } from './features/admin/components/SettlementApprovalPanel';
+import { AdminAuditLogPanel } from './features/admin/components/AdminAuditLogPanel';
 import { DesktopBridge } from './shared/services/DesktopBridge';
 
 function App() {
@@ -49,10 +58,31 @@ function App() {
         <Route path="/auth/login" element={<LoginPage />} />
         <Route path="/auth/register" element={<RegisterPage />} />
         <Route element={<ProtectedAppShell />}>
-          <Route index element={<DashboardPage />} />
-          <Route path="tasks" element={<TasksPage />} />
-          <Route path="requests" element={<RequestsPage />} />
-          <Route path="finance" element={<FinancePage />} />
+          <Route element={<RoleGuard allowedRoles={ROUTE_ROLES.dashboard} />}>
+            <Route index element={<DashboardPage />} />
+          </Route>
+          <Route element={<RoleGuard allowedRoles={ROUTE_ROLES.tasks} />}>
+            <Route path="tasks" element={<TasksPage />} />
+          </Route>
+          <Route element={<RoleGuard allowedRoles={ROUTE_ROLES.requests} />}>
+            <Route path="requests" element={<RequestsPage />} />
+          </Route>
+          <Route element={<RoleGuard allowedRoles={ROUTE_ROLES.finance} />}>
+            <Route path="finance" element={<FinancePage />} />
+          </Route>
+          <Route element={<RoleGuard allowedRoles={ROUTE_ROLES.analytics} />}>
+            <Route path="analytics" element={<AnalyticsPage />} />
+          </Route>
+          <Route element={<RoleGuard allowedRoles={ROUTE_ROLES.admin} />}>
+            <Route path="admin" element={<AdminPage />}>
+              <Route index element={<Navigate to="tasks" replace />} />
+              <Route path="tasks" element={<AdminTasksPanel />} />
+              <Route path="stuck-subtasks" element={<StuckSubtasksPanel />} />
+              <Route path="devices" element={<ProviderDevicesPanel />} />
+              <Route path="settlements" element={<SettlementApprovalPanel />} />
+              <Route path="audit-log" element={<AdminAuditLogPanel />} />
+            </Route>
+          </Route>
         </Route>
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
@@ -0,0 +1,61 @@
+import { apiRequest } from '../../shared/utils/apiClient';
+import type { RequestorTaskStatus } from '../requestor/types';
+import type {
+  AdminAuditEntryDto,
+  AdminSubtaskDto,
+  AdminTaskDto,
+  ProviderDeviceDto,
+  SettlementApprovalDto
+} from './types';
+
+interface AdminActionBody {
+  reason: string;
+}
+
+interface ReassignSubtaskBody extends AdminActionBody {
+  /** `null` returns the subtask to the open queue for any provider. */
+  targetDeviceId: string | null;
+}
+
+export const fetchAdminTasks = (status?: RequestorTaskStatus) =>
+  apiRequest<AdminTaskDto[]>(`/api/admin/tasks${status ? `?status=${encodeURIComponent(status)}` : ''}`);
+
+export const fetchActiveSubtasks = () => apiRequest<AdminSubtaskDto[]>('/api/admin/subtasks/active');
+
+export const fetchProviderDevices = () => apiRequest<ProviderDeviceDto[]>('/api/admin/devices');
+
+export const fetchSettlementQueue = () => apiRequest<SettlementApprovalDto[]>('/api/admin/settlements/pending');
+
+export const fetchAuditLog = () => apiRequest<AdminAuditEntryDto[]>('/api/admin/audit-log');
+
+// Every admin action responds with the audit entry the server recorded for it.
+
+export const reassignSubtask = (subtaskId: string, targetDeviceId: string | null, reason: string) =>
+  apiRequest<AdminAuditEntryDto, ReassignSubtaskBody>(`/api/admin/subtasks/${subtaskId}/reassign`, {
+    method: 'POST',
+    body: { targetDeviceId, reason }
+  });
+
+export const cancelSubtask = (subtaskId: string, reason: string) =>
+  apiRequest<AdminAuditEntryDto, AdminActionBody>(`/api/admin/subtasks/${subtaskId}/cancel`, {
+    method: 'POST',
+    body: { reason }
+  });
+
+export const failSubtask = (subtaskId: string, reason: string) =>
+  apiRequest<AdminAuditEntryDto, AdminActionBody>(`/api/admin/subtasks/${subtaskId}/fail`, {
+    method: 'POST',
+    body: { reason }
+  });
+
+export const approveSettlement = (settlementId: string, reason: string) =>
+  apiRequest<AdminAuditEntryDto, AdminActionBody>(`/api/admin/settlements/${settlementId}/approve`, {
+    method: 'POST',
+    body: { reason }
+  });
+
+export const rejectSettlement = (settlementId: string, reason: string) =>
+  apiRequest<AdminAuditEntryDto, AdminActionBody>(`/api/admin/settlements/${settlementId}/reject`, {
+    method: 'POST',
+    body: { reason }
+  });
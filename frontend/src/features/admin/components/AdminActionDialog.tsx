@@ -0,0 +1,129 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { DialogShell } from "../../../shared/components/DialogShell";
+
+const MIN_REASON_LENGTH = 5;
+
+interface AdminActionDialogProps {
+  open: boolean;
+  onDismiss: () => void;
+  title: string;
+  description: ReactNode;
+  confirmLabel: string;
+  tone?: "primary" | "danger";
+  /** Extra fields rendered above the reason, e.g. a target picker. */
+  children?: ReactNode;
+  onConfirm: (reason: string) => Promise<unknown>;
+}
+
+/**
+ * Confirmation for an admin action. A written reason is mandatory because it
+ * is stored with the action in the audit log.
+ */
+export const AdminActionDialog = ({
+  open,
+  onDismiss,
+  title,
+  description,
+  confirmLabel,
+  tone = "primary",
+  children,
+  onConfirm,
+}: AdminActionDialogProps) => {
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setSubmitting(false);
+      setError(null);
+    }
+  }, [open]);
+
+  const trimmedReason = reason.trim();
+  const canSubmit = trimmedReason.length >= MIN_REASON_LENGTH && !submitting;
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onConfirm(trimmedReason);
+      onDismiss();
+    } catch (actionError) {
+      setError(
+        actionError instanceof Error
+          ? actionError.message
+          : "The action could not be completed."
+      );
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <DialogShell
+      open={open}
+      onDismiss={submitting ? () => {} : onDismiss}
+      closeLabel="Close admin action"
+      badgeIcon={<ShieldAlert className="h-3.5 w-3.5" />}
+      badgeLabel="Admin action"
+      title={title}
+      helperText={description}
+    >
+      <section className="space-y-4">
+        {children}
+
+        <div className="space-y-2">
+          <label
+            htmlFor="admin-action-reason"
+            className="text-sm font-medium text-slate-700 dark:text-slate-300"
+          >
+            Reason
+          </label>
+          <textarea
+            id="admin-action-reason"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            rows={3}
+            placeholder="Recorded in the audit log"
+            className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200 dark:focus:border-indigo-600 dark:focus:ring-indigo-900/60"
+          />
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            At least {MIN_REASON_LENGTH} characters.
+          </p>
+        </div>
+
+        {error ? (
+          <p className="rounded-lg border border-rose-200 bg-rose-50/70 px-4 py-3 text-sm text-rose-700 dark:border-rose-900/50 dark:bg-rose-950/50 dark:text-rose-400">
+            {error}
+          </p>
+        ) : null}
+      </section>
+
+      <footer className="flex flex-col gap-3 border-t border-slate-100 pt-6 sm:flex-row sm:justify-end dark:border-slate-700">
+        <button
+          type="button"
+          onClick={onDismiss}
+          disabled={submitting}
+          className="w-full rounded-lg border border-slate-200 px-4 py-2 text-sm font-medium text-slate-600 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60 sm:w-auto dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => void handleConfirm()}
+          disabled={!canSubmit}
+          className={`inline-flex w-full items-center justify-center gap-2 rounded-lg px-4 py-2 text-sm font-semibold text-white shadow-sm transition disabled:cursor-not-allowed disabled:opacity-60 sm:w-auto ${
+            tone === "danger"
+              ? "bg-rose-600 hover:bg-rose-500 dark:bg-rose-700 dark:hover:bg-rose-600"
+              : "bg-indigo-600 hover:bg-indigo-500 dark:bg-indigo-700 dark:hover:bg-indigo-600"
+          }`}
+        >
+          {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+          {confirmLabel}
+        </button>
+      </footer>
+    </DialogShell>
+  );
+};
@@ -0,0 +1,113 @@
+import { useMemo, useState } from "react";
+import { DataTable } from "../../../shared/components/DataTable";
+import { SelectDropdown } from "../../../shared/components/SelectDropdown";
+import { formatUtcToLocalShort } from "../../../shared/utils/dateTime";
+import { useAdminAuditLogQuery } from "../queries/useAdminAuditLogQuery";
+import { AdminAuditAction, type AdminAuditEntryDto } from "../types";
+
+const ACTION_LABELS: Record<AdminAuditAction, string> = {
+  SubtaskReassigned: "Subtask reassigned",
+  SubtaskCancelled: "Subtask cancelled",
+  SubtaskFailed: "Subtask failed",
+  SettlementApproved: "Settlement approved",
+  SettlementRejected: "Settlement rejected",
+};
+
+type ActionFilter = AdminAuditAction | "all";
+
+const ACTION_FILTER_OPTIONS: Array<{ value: ActionFilter; label: string }> = [
+  { value: "all", label: "All actions" },
+  ...Object.values(AdminAuditAction).map((action) => ({
+    value: action,
+    label: ACTION_LABELS[action],
+  })),
+];
+
+export const AdminAuditLogPanel = () => {
+  const [actionFilter, setActionFilter] = useState<ActionFilter>("all");
+  const { data, isLoading, isError } = useAdminAuditLogQuery();
+
+  const entries = useMemo(
+    () =>
+      (data ?? [])
+        .filter(
+          (entry) => actionFilter === "all" || entry.action === actionFilter
+        )
+        .sort((left, right) =>
+          right.createdAtUtc.localeCompare(left.createdAtUtc)
+        ),
+    [actionFilter, data]
+  );
+
+  const columns = useMemo(
+    () => [
+      {
+        key: "time",
+        header: "When",
+        cellClassName: "whitespace-nowrap px-6 py-4 align-top text-xs",
+        render: (entry: AdminAuditEntryDto) =>
+          formatUtcToLocalShort(entry.createdAtUtc),
+      },
+      {
+        key: "actor",
+        header: "Administrator",
+        render: (entry: AdminAuditEntryDto) =>
+          entry.actorEmail ?? entry.actorUserId,
+      },
+      {
+        key: "action",
+        header: "Action",
+        render: (entry: AdminAuditEntryDto) => (
+          <div className="flex flex-col gap-0.5">
+            <span className="font-semibold text-slate-700 dark:text-slate-200">
+              {ACTION_LABELS[entry.action] ?? entry.action}
+            </span>
+            <span className="font-mono text-xs text-slate-500 dark:text-slate-400">
+              {entry.targetType} {entry.targetId}
+            </span>
+          </div>
+        ),
+      },
+      {
+        key: "reason",
+        header: "Reason",
+        cellClassName: "px-6 py-4 align-top break-words",
+        render: (entry: AdminAuditEntryDto) => entry.reason,
+      },
+    ],
+    []
+  );
+
+  return (
+    <section className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm dark:border-slate-700 dark:bg-slate-900">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-slate-100 px-6 py-4 dark:border-slate-700">
+        <div className="flex flex-col">
+          <span className="text-sm font-semibold uppercase tracking-wide text-indigo-500 dark:text-indigo-400">
+            Audit log
+          </span>
+          <span className="text-sm text-slate-500 dark:text-slate-400">
+            Every administrator action, with who took it and why
+          </span>
+        </div>
+        <div className="w-56">
+          <SelectDropdown
+            ariaLabel="Filter by action"
+            value={actionFilter}
+            onValueChange={setActionFilter}
+            options={ACTION_FILTER_OPTIONS}
+          />
+        </div>
+      </div>
+
+      <DataTable
+        data={entries}
+        columns={columns}
+        keyExtractor={(entry) => entry.id}
+        isLoading={isLoading}
+        isError={isError}
+        emptyMessage="No administrator action has been recorded yet."
+        errorMessage="Unable to load the audit log. Please retry shortly."
+      />
+    </section>
+  );
+};
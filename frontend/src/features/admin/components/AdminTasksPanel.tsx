@@ -0,0 +1,158 @@
+import { useMemo, useState } from "react";
+import { DataTable } from "../../../shared/components/DataTable";
+import { SelectDropdown } from "../../../shared/components/SelectDropdown";
+import { formatUtcToLocalShort } from "../../../shared/utils/dateTime";
+import {
+  RequestorTaskStatus,
+  RequestorTaskType,
+} from "../../requestor/types";
+import { useAdminTasksQuery } from "../queries/useAdminTasksQuery";
+import type { AdminTaskDto } from "../types";
+
+type StatusFilter = RequestorTaskStatus | "all";
+
+const STATUS_FILTER_OPTIONS: Array<{ value: StatusFilter; label: string }> = [
+  { value: "all", label: "All statuses" },
+  { value: RequestorTaskStatus.Pending, label: "Pending" },
+  { value: RequestorTaskStatus.Assigned, label: "Assigned" },
+  { value: RequestorTaskStatus.InProgress, label: "In progress" },
+  { value: RequestorTaskStatus.Completed, label: "Completed" },
+  { value: RequestorTaskStatus.Failed, label: "Failed" },
+  { value: RequestorTaskStatus.Paused, label: "Paused" },
+  { value: RequestorTaskStatus.Cancelled, label: "Cancelled" },
+];
+
+const STATUS_TONE: Record<RequestorTaskStatus, string> = {
+  Pending: "bg-amber-50 text-amber-600 dark:bg-amber-950/50 dark:text-amber-400",
+  Assigned: "bg-sky-50 text-sky-600 dark:bg-sky-950/50 dark:text-sky-400",
+  InProgress:
+    "bg-indigo-50 text-indigo-600 dark:bg-indigo-950/50 dark:text-indigo-400",
+  Completed:
+    "bg-emerald-50 text-emerald-600 dark:bg-emerald-950/50 dark:text-emerald-400",
+  Failed: "bg-rose-50 text-rose-600 dark:bg-rose-950/50 dark:text-rose-400",
+  Paused:
+    "bg-violet-50 text-violet-600 dark:bg-violet-950/50 dark:text-violet-400",
+  Cancelled:
+    "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400",
+};
+
+const EURO_FORMATTER = new Intl.NumberFormat(undefined, {
+  style: "currency",
+  currency: "EUR",
+});
+
+export const AdminTasksPanel = () => {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const { data, isLoading, isError } = useAdminTasksQuery(
+    statusFilter === "all" ? undefined : statusFilter
+  );
+
+  const tasks = useMemo(
+    () =>
+      [...(data ?? [])].sort((left, right) =>
+        right.createdAt.localeCompare(left.createdAt)
+      ),
+    [data]
+  );
+
+  const columns = useMemo(
+    () => [
+      {
+        key: "task",
+        header: "Task",
+        render: (task: AdminTaskDto) => (
+          <div className="flex flex-col gap-0.5">
+            <span className="font-mono text-xs text-slate-700 dark:text-slate-200">
+              {task.id}
+            </span>
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              {task.type === RequestorTaskType.Train ? "Training" : "Inference"}
+            </span>
+          </div>
+        ),
+      },
+      {
+        key: "owner",
+        header: "Owner",
+        render: (task: AdminTaskDto) => task.ownerEmail ?? task.ownerUserId,
+      },
+      {
+        key: "status",
+        header: "Status",
+        render: (task: AdminTaskDto) => (
+          <span
+            className={`inline-flex rounded-full px-2.5 py-1 text-xs font-semibold ${
+              STATUS_TONE[task.status] ?? STATUS_TONE.Pending
+            }`}
+          >
+            {STATUS_FILTER_OPTIONS.find((option) => option.value === task.status)
+              ?.label ?? task.status}
+          </span>
+        ),
+      },
+      {
+        key: "subtasks",
+        header: "Subtasks",
+        render: (task: AdminTaskDto) => (
+          <div className="flex flex-col gap-0.5 text-xs">
+            <span className="font-semibold text-slate-700 dark:text-slate-200">
+              {task.completedSubtasksCount}/{task.subtasksCount} done
+            </span>
+            <span className="text-slate-500 dark:text-slate-400">
+              {task.activeSubtasksCount} active · {task.failedSubtasksCount}{" "}
+              failed
+            </span>
+          </div>
+        ),
+      },
+      {
+        key: "cost",
+        header: "Cost",
+        cellClassName:
+          "px-6 py-4 align-top font-semibold text-slate-900 dark:text-slate-100",
+        render: (task: AdminTaskDto) =>
+          EURO_FORMATTER.format(task.costUsd ?? task.estimatedCost ?? 0),
+      },
+      {
+        key: "created",
+        header: "Created",
+        cellClassName: "whitespace-nowrap px-6 py-4 align-top text-xs",
+        render: (task: AdminTaskDto) => formatUtcToLocalShort(task.createdAt),
+      },
+    ],
+    []
+  );
+
+  return (
+    <section className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm dark:border-slate-700 dark:bg-slate-900">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-slate-100 px-6 py-4 dark:border-slate-700">
+        <div className="flex flex-col">
+          <span className="text-sm font-semibold uppercase tracking-wide text-indigo-500 dark:text-indigo-400">
+            All tasks
+          </span>
+          <span className="text-sm text-slate-500 dark:text-slate-400">
+            Every tenant&apos;s requests, newest first
+          </span>
+        </div>
+        <div className="w-48">
+          <SelectDropdown
+            ariaLabel="Filter by status"
+            value={statusFilter}
+            onValueChange={setStatusFilter}
+            options={STATUS_FILTER_OPTIONS}
+          />
+        </div>
+      </div>
+
+      <DataTable
+        data={tasks}
+        columns={columns}
+        keyExtractor={(task) => task.id}
+        isLoading={isLoading}
+        isError={isError}
+        emptyMessage="No tasks match this filter."
+        errorMessage="Unable to load tasks. Please retry shortly."
+      />
+    </section>
+  );
+};
@@ -0,0 +1,102 @@
+import { useMemo } from "react";
+import { DataTable } from "../../../shared/components/DataTable";
+import { getRelativeTime } from "../../../shared/utils/dateTime";
+import { useProviderDevicesQuery } from "../queries/useProviderDevicesQuery";
+import type { ProviderDeviceDto } from "../types";
+
+export const ProviderDevicesPanel = () => {
+  const { data, isLoading, isError } = useProviderDevicesQuery();
+
+  const devices = useMemo(
+    () =>
+      [...(data ?? [])].sort(
+        (left, right) =>
+          Number(right.isConnected) - Number(left.isConnected) ||
+          right.activeSubtasksCount - left.activeSubtasksCount
+      ),
+    [data]
+  );
+  const connectedCount = devices.filter((device) => device.isConnected).length;
+
+  const columns = useMemo(
+    () => [
+      {
+        key: "device",
+        header: "Device",
+        render: (device: ProviderDeviceDto) => (
+          <span className="font-mono text-xs text-slate-700 dark:text-slate-200">
+            {device.deviceIdentifier}
+          </span>
+        ),
+      },
+      {
+        key: "provider",
+        header: "Provider",
+        render: (device: ProviderDeviceDto) =>
+          device.providerEmail ?? device.providerUserId,
+      },
+      {
+        key: "connection",
+        header: "Connection",
+        render: (device: ProviderDeviceDto) => (
+          <span className="inline-flex items-center gap-2 text-xs font-semibold">
+            <span
+              className={`h-2 w-2 rounded-full ${
+                device.isConnected ? "bg-emerald-500" : "bg-slate-300 dark:bg-slate-600"
+              }`}
+            />
+            {device.isConnected ? "Online" : "Offline"}
+          </span>
+        ),
+      },
+      {
+        key: "runtime",
+        header: "Runtime",
+        render: (device: ProviderDeviceDto) => device.executionProvider ?? "—",
+      },
+      {
+        key: "active",
+        header: "Active subtasks",
+        render: (device: ProviderDeviceDto) => device.activeSubtasksCount,
+      },
+      {
+        key: "lastSeen",
+        header: "Last seen",
+        cellClassName: "whitespace-nowrap px-6 py-4 align-top text-xs",
+        render: (device: ProviderDeviceDto) =>
+          device.isConnected
+            ? "Now"
+            : device.lastSeenAtUtc
+            ? getRelativeTime(device.lastSeenAtUtc)
+            : "Never",
+      },
+    ],
+    []
+  );
+
+  return (
+    <section className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm dark:border-slate-700 dark:bg-slate-900">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-slate-100 px-6 py-4 dark:border-slate-700">
+        <div className="flex flex-col">
+          <span className="text-sm font-semibold uppercase tracking-wide text-indigo-500 dark:text-indigo-400">
+            Provider devices
+          </span>
+          <span className="text-sm text-slate-500 dark:text-slate-400">
+            {connectedCount} of {devices.length} devices connected to the task
+            hub
+          </span>
+        </div>
+      </div>
+
+      <DataTable
+        data={devices}
+        columns={columns}
+        keyExtractor={(device) => device.deviceId}
+        isLoading={isLoading}
+        isError={isError}
+        emptyMessage="No provider device has registered yet."
+        errorMessage="Unable to load provider devices. Please retry shortly."
+      />
+    </section>
+  );
+};
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Banknote, Check, X } from "lucide-react";
+import { formatUtcToLocalShort } from "../../../shared/utils/dateTime";
+import { useSettlementDecisionMutation } from "../mutations/useSettlementDecisionMutation";
+import { useSettlementQueueQuery } from "../queries/useSettlementQueueQuery";
+import type { SettlementApprovalDto } from "../types";
+import { AdminActionDialog } from "./AdminActionDialog";
+
+const EURO_FORMATTER = new Intl.NumberFormat(undefined, {
+  style: "currency",
+  currency: "EUR",
+});
+
+export const SettlementApprovalPanel = () => {
+  const [decision, setDecision] = useState<{
+    kind: "approve" | "reject";
+    settlement: SettlementApprovalDto;
+  } | null>(null);
+
+  const { data, isLoading, isError } = useSettlementQueueQuery();
+  const decisionMutation = useSettlementDecisionMutation();
+
+  const settlements = [...(data ?? [])].sort((left, right) =>
+    left.requestedAtUtc.localeCompare(right.requestedAtUtc)
+  );
+  const totalAmount = settlements.reduce(
+    (sum, settlement) => sum + settlement.amount,
+    0
+  );
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-700 dark:bg-slate-900">
+      <header className="flex items-center justify-between">
+        <div>
+          <span className="text-sm font-semibold uppercase tracking-wide text-indigo-500 dark:text-indigo-400">
+            Payouts
+          </span>
+          <h3 className="text-xl font-semibold text-slate-900 dark:text-slate-100">
+            Settlement approval queue
+          </h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {settlements.length} pending ·{" "}
+            {EURO_FORMATTER.format(totalAmount)} total, oldest first
+          </p>
+        </div>
+        <Banknote className="h-6 w-6 text-slate-300 dark:text-slate-600" />
+      </header>
+
+      {isLoading ? (
+        <div className="py-8 text-center text-slate-500 dark:text-slate-400">
+          Loading settlements…
+        </div>
+      ) : isError ? (
+        <div className="py-8 text-center text-rose-600 dark:text-rose-400">
+          Unable to load the settlement queue. Please retry shortly.
+        </div>
+      ) : settlements.length === 0 ? (
+        <div className="py-8 text-center text-slate-500 dark:text-slate-400">
+          No settlement is waiting for approval.
+        </div>
+      ) : (
+        <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+          {settlements.map((settlement) => (
+            <li
+              key={settlement.settlementId}
+              className="flex flex-wrap items-center gap-4 py-4"
+            >
+              <div className="flex min-w-0 flex-1 flex-col gap-1">
+                <span className="text-sm font-semibold text-slate-800 dark:text-slate-200">
+                  {settlement.reference}
+                </span>
+                <span className="text-xs text-slate-500 dark:text-slate-400">
+                  {settlement.providerEmail ?? settlement.providerUserId}
+                  {settlement.country ? ` · ${settlement.country}` : ""} ·{" "}
+                  {settlement.entryCount} ledger entries · requested{" "}
+                  {formatUtcToLocalShort(settlement.requestedAtUtc)}
+                </span>
+              </div>
+              <span className="text-base font-semibold text-slate-900 dark:text-slate-100">
+                {EURO_FORMATTER.format(settlement.amount)}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setDecision({ kind: "reject", settlement })}
+                  className="inline-flex items-center gap-1 rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-rose-600 shadow-sm transition hover:border-rose-200 hover:bg-rose-50 dark:border-slate-700 dark:bg-slate-800 dark:text-rose-400 dark:hover:border-rose-900 dark:hover:bg-rose-950/30"
+                >
+                  <X className="h-3.5 w-3.5" />
+                  Reject
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setDecision({ kind: "approve", settlement })}
+                  className="inline-flex items-center gap-1 rounded-lg bg-indigo-600 px-3 py-1.5 text-xs font-semibold text-white shadow-sm transition hover:bg-indigo-500 dark:bg-indigo-700 dark:hover:bg-indigo-600"
+                >
+                  <Check className="h-3.5 w-3.5" />
+                  Approve
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AdminActionDialog
+        open={decision !== null}
+        onDismiss={() => setDecision(null)}
+        title={
+          decision?.kind === "approve"
+            ? "Approve settlement"
+            : "Reject settlement"
+        }
+        description={
+          decision
+            ? `${decision.settlement.reference}: ${EURO_FORMATTER.format(
+                decision.settlement.amount
+              )} to ${
+                decision.settlement.providerEmail ??
+                decision.settlement.providerUserId
+              }. ${
+                decision.kind === "approve"
+                  ? "The payout is sent to the provider's bank account."
+                  : "The amount returns to the provider's available balance."
+              }`
+            : null
+        }
+        confirmLabel={decision?.kind === "approve" ? "Approve payout" : "Reject"}
+        tone={decision?.kind === "approve" ? "primary" : "danger"}
+        onConfirm={(reason) =>
+          decisionMutation.mutateAsync({
+            settlementId: decision!.settlement.settlementId,
+            decision: decision!.kind,
+            reason,
+          })
+        }
+      />
+    </section>
+  );
+};
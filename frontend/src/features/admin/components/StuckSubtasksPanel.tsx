@@ -0,0 +1,267 @@
+import { useMemo, useState } from "react";
+import { Ban, RefreshCw, Repeat, XCircle } from "lucide-react";
+import { DataTable } from "../../../shared/components/DataTable";
+import { SelectDropdown } from "../../../shared/components/SelectDropdown";
+import { formatUtcToLocalShort } from "../../../shared/utils/dateTime";
+import { useSubtaskInterventionMutation } from "../mutations/useSubtaskInterventionMutation";
+import { useActiveSubtasksQuery } from "../queries/useActiveSubtasksQuery";
+import { useProviderDevicesQuery } from "../queries/useProviderDevicesQuery";
+import type { SubtaskIntervention } from "../types";
+import {
+  DEFAULT_STUCK_THRESHOLD_MINUTES,
+  STUCK_THRESHOLD_MINUTES,
+  findStuckSubtasks,
+  formatSilence,
+  type StuckSubtask,
+} from "../utils/stuckSubtasks";
+import { AdminActionDialog } from "./AdminActionDialog";
+
+// Radix select items cannot carry an empty value.
+const OPEN_QUEUE = "open-queue";
+
+const INTERVENTION_COPY: Record<
+  SubtaskIntervention,
+  { title: string; description: string; confirmLabel: string }
+> = {
+  reassign: {
+    title: "Reassign subtask",
+    description:
+      "The current device loses the subtask and it restarts from scratch on the chosen target.",
+    confirmLabel: "Reassign",
+  },
+  cancel: {
+    title: "Cancel subtask",
+    description:
+      "The subtask stops without being retried. The requestor is not charged for it.",
+    confirmLabel: "Cancel subtask",
+  },
+  fail: {
+    title: "Mark subtask as failed",
+    description:
+      "The subtask is marked failed with your reason as the failure reason, as if the provider had reported it.",
+    confirmLabel: "Mark as failed",
+  },
+};
+
+const actionButtonClassName =
+  "inline-flex items-center gap-1 rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-xs font-semibold text-slate-700 shadow-sm transition hover:border-indigo-200 hover:text-indigo-600 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-indigo-700 dark:hover:text-indigo-400";
+
+export const StuckSubtasksPanel = () => {
+  const [thresholdMinutes, setThresholdMinutes] = useState<number>(
+    DEFAULT_STUCK_THRESHOLD_MINUTES
+  );
+  const [intervention, setIntervention] = useState<{
+    action: SubtaskIntervention;
+    item: StuckSubtask;
+  } | null>(null);
+  const [targetDevice, setTargetDevice] = useState(OPEN_QUEUE);
+
+  const { data, dataUpdatedAt, isLoading, isError, refetch, isFetching } =
+    useActiveSubtasksQuery();
+  const { data: devices } = useProviderDevicesQuery();
+  const interventionMutation = useSubtaskInterventionMutation();
+
+  // Silence is measured against the snapshot time, not the render time.
+  const stuckSubtasks = useMemo(
+    () => findStuckSubtasks(data ?? [], thresholdMinutes, dataUpdatedAt),
+    [data, dataUpdatedAt, thresholdMinutes]
+  );
+
+  const targetOptions = useMemo(() => {
+    const currentDevice = intervention?.item.subtask.deviceIdentifier;
+    return [
+      { value: OPEN_QUEUE, label: "Any available provider" },
+      ...(devices ?? [])
+        .filter(
+          (device) =>
+            device.isConnected && device.deviceIdentifier !== currentDevice
+        )
+        .map((device) => ({
+          value: device.deviceId,
+          label: device.deviceIdentifier,
+          description: `${device.providerEmail ?? device.providerUserId} · ${
+            device.activeSubtasksCount
+          } active`,
+        })),
+    ];
+  }, [devices, intervention]);
+
+  const openIntervention = (action: SubtaskIntervention, item: StuckSubtask) => {
+    setTargetDevice(OPEN_QUEUE);
+    setIntervention({ action, item });
+  };
+
+  const columns = [
+    {
+      key: "subtask",
+      header: "Subtask",
+      render: ({ subtask }: StuckSubtask) => (
+        <div className="flex flex-col gap-0.5">
+          <span className="font-mono text-xs text-slate-700 dark:text-slate-200">
+            {subtask.id}
+          </span>
+          <span className="text-xs text-slate-500 dark:text-slate-400">
+            Task {subtask.taskId}
+            {subtask.ownerEmail ? ` · ${subtask.ownerEmail}` : ""}
+          </span>
+        </div>
+      ),
+    },
+    {
+      key: "provider",
+      header: "Provider",
+      render: ({ subtask }: StuckSubtask) => (
+        <div className="flex flex-col gap-0.5 text-xs">
+          <span className="font-semibold text-slate-700 dark:text-slate-200">
+            {subtask.providerEmail ?? subtask.providerUserId ?? "Unassigned"}
+          </span>
+          <span className="font-mono text-slate-500 dark:text-slate-400">
+            {subtask.deviceIdentifier ?? "—"}
+          </span>
+        </div>
+      ),
+    },
+    {
+      key: "status",
+      header: "Status",
+      render: ({ subtask }: StuckSubtask) => (
+        <span className="text-xs">
+          {subtask.status}
+          {typeof subtask.progress === "number"
+            ? ` · ${Math.round(subtask.progress)}%`
+            : ""}
+        </span>
+      ),
+    },
+    {
+      key: "silence",
+      header: "Silent for",
+      render: ({ subtask, silentForMs, lastSignalAtUtc }: StuckSubtask) => (
+        <div className="flex flex-col gap-0.5 text-xs">
+          <span className="font-semibold text-rose-600 dark:text-rose-400">
+            {formatSilence(silentForMs)}
+          </span>
+          <span className="text-slate-500 dark:text-slate-400">
+            {subtask.lastHeartbeatAtUtc ? "Last heartbeat" : "No heartbeat since"}{" "}
+            {formatUtcToLocalShort(lastSignalAtUtc)}
+          </span>
+        </div>
+      ),
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      headerClassName: "whitespace-nowrap px-6 py-3 text-right",
+      cellClassName: "px-6 py-4 align-top",
+      render: (item: StuckSubtask) => (
+        <div className="flex flex-wrap justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => openIntervention("reassign", item)}
+            className={actionButtonClassName}
+          >
+            <Repeat className="h-3.5 w-3.5" />
+            Reassign
+          </button>
+          <button
+            type="button"
+            onClick={() => openIntervention("cancel", item)}
+            className={actionButtonClassName}
+          >
+            <Ban className="h-3.5 w-3.5" />
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => openIntervention("fail", item)}
+            className={actionButtonClassName}
+          >
+            <XCircle className="h-3.5 w-3.5" />
+            Fail
+          </button>
+        </div>
+      ),
+    },
+  ];
+
+  const copy = intervention ? INTERVENTION_COPY[intervention.action] : null;
+
+  return (
+    <section className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm dark:border-slate-700 dark:bg-slate-900">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-slate-100 px-6 py-4 dark:border-slate-700">
+        <div className="flex flex-col">
+          <span className="text-sm font-semibold uppercase tracking-wide text-indigo-500 dark:text-indigo-400">
+            Stuck subtasks
+          </span>
+          <span className="text-sm text-slate-500 dark:text-slate-400">
+            Assigned or executing subtasks whose provider stopped sending
+            heartbeats
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="w-44">
+            <SelectDropdown
+              ariaLabel="Heartbeat threshold"
+              value={String(thresholdMinutes)}
+              onValueChange={(value) => setThresholdMinutes(Number(value))}
+              options={STUCK_THRESHOLD_MINUTES.map((minutes) => ({
+                value: String(minutes),
+                label: `Silent ≥ ${minutes} min`,
+              }))}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => void refetch()}
+            disabled={isFetching}
+            aria-label="Refresh subtasks"
+            className="rounded-lg border border-slate-200 p-2 text-slate-500 transition hover:bg-slate-50 hover:text-slate-700 disabled:opacity-60 dark:border-slate-700 dark:text-slate-400 dark:hover:bg-slate-800"
+          >
+            <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+          </button>
+        </div>
+      </div>
+
+      <DataTable
+        data={stuckSubtasks}
+        columns={columns}
+        keyExtractor={({ subtask }) => subtask.id}
+        isLoading={isLoading}
+        isError={isError}
+        emptyMessage="Every active subtask reported a heartbeat within the threshold."
+        errorMessage="Unable to load active subtasks. Please retry shortly."
+      />
+
+      <AdminActionDialog
+        open={intervention !== null}
+        onDismiss={() => setIntervention(null)}
+        title={copy?.title ?? ""}
+        description={copy?.description}
+        confirmLabel={copy?.confirmLabel ?? ""}
+        tone={intervention?.action === "reassign" ? "primary" : "danger"}
+        onConfirm={(reason) =>
+          interventionMutation.mutateAsync({
+            subtaskId: intervention!.item.subtask.id,
+            action: intervention!.action,
+            reason,
+            targetDeviceId: targetDevice === OPEN_QUEUE ? null : targetDevice,
+          })
+        }
+      >
+        {intervention?.action === "reassign" ? (
+          <div className="space-y-2">
+            <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+              Target
+            </span>
+            <SelectDropdown
+              ariaLabel="Reassignment target"
+              value={targetDevice}
+              onValueChange={setTargetDevice}
+              options={targetOptions}
+            />
+          </div>
+        ) : null}
+      </AdminActionDialog>
+    </section>
+  );
+};
@@ -0,0 +1,30 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isApiError } from '../../../shared/utils/apiError';
+import { approveSettlement, rejectSettlement } from '../api';
+import { recordAdminAuditEntry } from '../queries/useAdminAuditLogQuery';
+import { invalidateSettlementQueueKey } from '../queries/useSettlementQueueQuery';
+
+interface SettlementDecisionVariables {
+  settlementId: string;
+  decision: 'approve' | 'reject';
+  reason: string;
+}
+
+export const useSettlementDecisionMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ settlementId, decision, reason }: SettlementDecisionVariables) =>
+      decision === 'approve' ? approveSettlement(settlementId, reason) : rejectSettlement(settlementId, reason),
+    onSuccess: (entry) => {
+      recordAdminAuditEntry(queryClient, entry);
+      queryClient.invalidateQueries({ queryKey: invalidateSettlementQueueKey });
+    },
+    onError: (error) => {
+      // Another admin decided first or the provider cancelled it.
+      if (isApiError(error, 'conflict', 'not_found')) {
+        queryClient.invalidateQueries({ queryKey: invalidateSettlementQueueKey });
+      }
+    }
+  });
+};
@@ -0,0 +1,45 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isApiError } from '../../../shared/utils/apiError';
+import { cancelSubtask, failSubtask, reassignSubtask } from '../api';
+import { invalidateActiveSubtasksKey } from '../queries/useActiveSubtasksQuery';
+import { invalidateAdminTasksKey } from '../queries/useAdminTasksQuery';
+import { recordAdminAuditEntry } from '../queries/useAdminAuditLogQuery';
+import { invalidateProviderDevicesKey } from '../queries/useProviderDevicesQuery';
+import type { SubtaskIntervention } from '../types';
+
+interface SubtaskInterventionVariables {
+  subtaskId: string;
+  action: SubtaskIntervention;
+  reason: string;
+  /** Only used by `reassign`; `null` puts the subtask back in the open queue. */
+  targetDeviceId?: string | null;
+}
+
+export const useSubtaskInterventionMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ subtaskId, action, reason, targetDeviceId = null }: SubtaskInterventionVariables) => {
+      switch (action) {
+        case 'reassign':
+          return reassignSubtask(subtaskId, targetDeviceId, reason);
+        case 'cancel':
+          return cancelSubtask(subtaskId, reason);
+        case 'fail':
+          return failSubtask(subtaskId, reason);
+      }
+    },
+    onSuccess: (entry) => {
+      recordAdminAuditEntry(queryClient, entry);
+      queryClient.invalidateQueries({ queryKey: invalidateActiveSubtasksKey });
+      queryClient.invalidateQueries({ queryKey: invalidateAdminTasksKey });
+      queryClient.invalidateQueries({ queryKey: invalidateProviderDevicesKey });
+    },
+    onError: (error) => {
+      // The subtask moved on, e.g. it completed before the intervention landed.
+      if (isApiError(error, 'conflict', 'not_found')) {
+        queryClient.invalidateQueries({ queryKey: invalidateActiveSubtasksKey });
+      }
+    }
+  });
+};
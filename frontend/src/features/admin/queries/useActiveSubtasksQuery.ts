@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuthStore } from '../../auth/stores/authStore';
+import { fetchActiveSubtasks } from '../api';
+
+const QUERY_KEY = ['admin', 'subtasks', 'active'] as const;
+
+export const useActiveSubtasksQuery = () => {
+  const isAdmin = useAuthStore((state) => state.user?.role === 'Admin');
+
+  return useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: fetchActiveSubtasks,
+    enabled: isAdmin,
+    refetchInterval: 30000, // Heartbeat ages are only as fresh as this snapshot
+    staleTime: 1000 * 15
+  });
+};
+
+export const invalidateActiveSubtasksKey = QUERY_KEY;
@@ -0,0 +1,30 @@
+import { useQuery, type QueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '../../auth/stores/authStore';
+import { fetchAuditLog } from '../api';
+import type { AdminAuditEntryDto } from '../types';
+
+const QUERY_KEY = ['admin', 'audit-log'] as const;
+
+export const useAdminAuditLogQuery = () => {
+  const isAdmin = useAuthStore((state) => state.user?.role === 'Admin');
+
+  return useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: fetchAuditLog,
+    enabled: isAdmin,
+    staleTime: 1000 * 30
+  });
+};
+
+export const adminAuditLogKey = QUERY_KEY;
+
+/**
+ * Shows the entry recorded for an action right away, then refetches so the
+ * log also picks up actions taken by other administrators meanwhile.
+ */
+export const recordAdminAuditEntry = (queryClient: QueryClient, entry: AdminAuditEntryDto) => {
+  queryClient.setQueryData<AdminAuditEntryDto[]>(QUERY_KEY, (current) =>
+    current ? [entry, ...current.filter((existing) => existing.id !== entry.id)] : current
+  );
+  void queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+};
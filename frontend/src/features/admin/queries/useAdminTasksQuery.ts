@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuthStore } from '../../auth/stores/authStore';
+import type { RequestorTaskStatus } from '../../requestor/types';
+import { fetchAdminTasks } from '../api';
+
+const QUERY_KEY = ['admin', 'tasks'] as const;
+
+export const useAdminTasksQuery = (status?: RequestorTaskStatus) => {
+  const isAdmin = useAuthStore((state) => state.user?.role === 'Admin');
+
+  return useQuery({
+    queryKey: [...QUERY_KEY, status ?? null],
+    queryFn: () => fetchAdminTasks(status),
+    enabled: isAdmin,
+    refetchInterval: 60000,
+    staleTime: 1000 * 30
+  });
+};
+
+export const invalidateAdminTasksKey = QUERY_KEY;
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuthStore } from '../../auth/stores/authStore';
+import { fetchProviderDevices } from '../api';
+
+const QUERY_KEY = ['admin', 'devices'] as const;
+
+export const useProviderDevicesQuery = () => {
+  const isAdmin = useAuthStore((state) => state.user?.role === 'Admin');
+
+  return useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: fetchProviderDevices,
+    enabled: isAdmin,
+    refetchInterval: 30000,
+    staleTime: 1000 * 15
+  });
+};
+
+export const invalidateProviderDevicesKey = QUERY_KEY;
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuthStore } from '../../auth/stores/authStore';
+import { fetchSettlementQueue } from '../api';
+
+const QUERY_KEY = ['admin', 'settlements', 'pending'] as const;
+
+export const useSettlementQueueQuery = () => {
+  const isAdmin = useAuthStore((state) => state.user?.role === 'Admin');
+
+  return useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: fetchSettlementQueue,
+    enabled: isAdmin,
+    refetchInterval: 60000,
+    staleTime: 1000 * 30
+  });
+};
+
+export const invalidateSettlementQueueKey = QUERY_KEY;
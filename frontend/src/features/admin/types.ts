@@ -0,0 +1,60 @@
+import type { PayoutSnapshot } from '../provider/api/financeApi';
+import type { RequestorTaskDto, SubtaskDto } from '../requestor/types';
+
+/** A task from any tenant, with the requestor that owns it. */
+export interface AdminTaskDto extends RequestorTaskDto {
+  ownerUserId: string;
+  ownerEmail?: string | null;
+}
+
+/** An assigned or executing subtask with the provider device running it. */
+export interface AdminSubtaskDto extends SubtaskDto {
+  ownerEmail?: string | null;
+  providerUserId?: string | null;
+  providerEmail?: string | null;
+  deviceIdentifier?: string | null;
+  lastHeartbeatAtUtc?: string | null;
+}
+
+export interface ProviderDeviceDto {
+  deviceId: string;
+  deviceIdentifier: string;
+  providerUserId: string;
+  providerEmail?: string | null;
+  isConnected: boolean;
+  lastSeenAtUtc?: string | null;
+  activeSubtasksCount: number;
+  executionProvider?: string | null;
+}
+
+/** A provider payout waiting for an administrator before it is sent. */
+export interface SettlementApprovalDto extends PayoutSnapshot {
+  settlementId: string;
+  providerUserId: string;
+  providerEmail?: string | null;
+  country?: string | null;
+  requestedAtUtc: string;
+}
+
+export const AdminAuditAction = {
+  SubtaskReassigned: 'SubtaskReassigned',
+  SubtaskCancelled: 'SubtaskCancelled',
+  SubtaskFailed: 'SubtaskFailed',
+  SettlementApproved: 'SettlementApproved',
+  SettlementRejected: 'SettlementRejected'
+} as const;
+export type AdminAuditAction = (typeof AdminAuditAction)[keyof typeof AdminAuditAction];
+
+export interface AdminAuditEntryDto {
+  id: string;
+  action: AdminAuditAction;
+  actorUserId: string;
+  actorEmail?: string | null;
+  targetType: 'Subtask' | 'Settlement';
+  targetId: string;
+  reason: string;
+  metadataJson?: string | null;
+  createdAtUtc: string;
+}
+
+export type SubtaskIntervention = 'reassign' | 'cancel' | 'fail';
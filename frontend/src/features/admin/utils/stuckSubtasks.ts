@@ -0,0 +1,48 @@
+import { utcToLocalTime } from '../../../shared/utils/dateTime';
+import { SubtaskStatus } from '../../requestor/types';
+import type { AdminSubtaskDto } from '../types';
+
+export const STUCK_THRESHOLD_MINUTES = [5, 10, 15, 30, 60] as const;
+export const DEFAULT_STUCK_THRESHOLD_MINUTES = 10;
+
+export interface StuckSubtask {
+  subtask: AdminSubtaskDto;
+  /** The last sign of life: heartbeat, else start, else assignment. */
+  lastSignalAtUtc: string;
+  silentForMs: number;
+}
+
+const resolveLastSignal = (subtask: AdminSubtaskDto) =>
+  subtask.lastHeartbeatAtUtc ?? subtask.startedAtUtc ?? subtask.assignedAtUtc ?? subtask.createdAtUtc;
+
+/**
+ * Assigned or executing subtasks whose provider has been silent for at least
+ * `thresholdMinutes`, longest silence first. Subtasks that never sent a
+ * heartbeat are measured from when they started or were assigned.
+ */
+export const findStuckSubtasks = (
+  subtasks: AdminSubtaskDto[],
+  thresholdMinutes: number,
+  now = Date.now()
+): StuckSubtask[] =>
+  subtasks
+    .filter((subtask) => subtask.status === SubtaskStatus.Assigned || subtask.status === SubtaskStatus.Executing)
+    .map((subtask) => {
+      const lastSignalAtUtc = resolveLastSignal(subtask);
+      return {
+        subtask,
+        lastSignalAtUtc,
+        silentForMs: Math.max(0, now - utcToLocalTime(lastSignalAtUtc).getTime())
+      };
+    })
+    .filter(({ silentForMs }) => silentForMs >= thresholdMinutes * 60_000)
+    .sort((left, right) => right.silentForMs - left.silentForMs);
+
+export const formatSilence = (milliseconds: number) => {
+  const minutes = Math.floor(milliseconds / 60_000);
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours} h ${minutes % 60} min` : `${Math.floor(hours / 24)} d ${hours % 24} h`;
+};
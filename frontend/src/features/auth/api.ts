@@ -15,7 +15,7 @@ export interface RegisterRequest {
   password: string;
 }
 
-const ensureToken = (context: 'login' | 'register', response: AuthTokenResponse) => {
+const ensureToken = (context: 'login' | 'register' | 'refresh', response: AuthTokenResponse) => {
   if (typeof response.token !== 'string' || response.token.length === 0) {
     throw new Error(`Auth ${context} response did not include a token.`);
   }
@@ -41,4 +41,17 @@ export const register = async (payload: RegisterRequest): Promise<string> => {
   });
 
   return ensureToken('register', response);
-};
\ No newline at end of file
+};
+/**
+ * Exchanges the current, still valid token for a fresh one. Bypasses the
+ * client's own refresh-on-401 so a rejected refresh cannot recurse.
+ */
+export const refreshToken = async (signal?: AbortSignal): Promise<string> => {
+  const response = await apiRequest<AuthTokenResponse>('/api/auth/refresh', {
+    method: 'POST',
+    signal,
+    skipSessionRefresh: true
+  });
+
+  return ensureToken('refresh', response);
+};
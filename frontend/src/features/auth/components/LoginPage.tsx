@@ -1,29 +1,39 @@
 import { type FormEvent, useMemo, useState } from 'react';
-import { Link, Navigate, useNavigate } from 'react-router-dom';
+import { Link, Navigate, useLocation, useNavigate, type Location } from 'react-router-dom';
 import { useMutation } from '@tanstack/react-query';
 import { login } from '../api';
 import { AuthLayout } from './AuthLayout';
+import { describeError, isApiError } from '../../../shared/utils/apiError';
 import { parseJwt } from '../../../shared/utils/jwt';
-import { useAuthStore, type UserRole } from '../stores/authStore';
+import { useAuthStore, type AuthUser } from '../stores/authStore';
+import { resolveTokenRoles } from '../utils/roles';
 
 interface LoginFormState {
   email: string;
   password: string;
 }
 
+type LoginFieldErrors = Partial<Record<keyof LoginFormState, string>>;
+
 const DEFAULT_FORM: LoginFormState = {
   email: '',
   password: ''
 };
 
-const resolveRole = (rawRole: unknown): UserRole => {
-  if (typeof rawRole !== 'string') {
-    return 'Requestor';
+const resolveLoginError = (error: unknown) => {
+  if (isApiError(error, 'invalid_credentials', 'unauthorized')) {
+    return 'The email or password is incorrect.';
   }
-  if (rawRole === 'Provider' || rawRole === 'Admin') {
-    return rawRole;
+
+  if (isApiError(error, 'rate_limited')) {
+    return 'Too many sign-in attempts. Wait a minute before trying again.';
   }
-  return 'Requestor';
+
+  if (isApiError(error, 'validation_failed')) {
+    return 'Please correct the highlighted fields.';
+  }
+
+  return describeError(error, 'Unable to sign in. Please try again.');
 };
 
 const resolveEmail = (payload: Record<string, unknown>) => {
@@ -41,7 +51,7 @@ const resolveEmail = (payload: Record<string, unknown>) => {
   return typeof jwtEmail === 'string' && jwtEmail.length > 0 ? jwtEmail : undefined;
 };
 
-const buildUserFromToken = (token: string) => {
+const buildUserFromToken = (token: string): AuthUser | null => {
   const payload = parseJwt(token);
   if (!payload) {
     return null;
@@ -58,26 +68,28 @@ const buildUserFromToken = (token: string) => {
     return null;
   }
 
-  const rawRole =
-    Array.isArray(payload.role) && payload.role.length > 0
-      ? payload.role[0]
-      : (payload as Record<string, unknown>)['http://schemas.microsoft.com/ws/2008/06/identity/claims/role'] ??
-        payload.role;
+  const roles = resolveTokenRoles(payload as Record<string, unknown>);
 
   return {
     id: userId,
     email: resolveEmail(payload as Record<string, unknown>),
-    role: resolveRole(rawRole)
+    role: roles[0],
+    roles
   };
 };
 
 export const LoginPage = () => {
   const [form, setForm] = useState<LoginFormState>(DEFAULT_FORM);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<LoginFieldErrors>({});
 
   const navigate = useNavigate();
+  const location = useLocation();
   const setAuth = useAuthStore((state) => state.setAuth);
   const user = useAuthStore((state) => state.user);
+  const sessionExpired = useAuthStore((state) => state.sessionExpired);
+  // Set by the protected shell so a re-login returns to the interrupted page.
+  const redirectTo = (location.state as { from?: Location } | null)?.from?.pathname ?? '/';
 
   const mutation = useMutation({
     mutationFn: login,
@@ -87,14 +99,16 @@ export const LoginPage = () => {
         throw new Error('Failed to resolve authenticated user from token payload.');
       }
       setAuth(mappedUser, token);
-      navigate('/', { replace: true });
+      navigate(redirectTo, { replace: true });
     },
     onError: (mutationError: unknown) => {
-      const message =
-        mutationError instanceof Error
-          ? mutationError.message
-          : 'Unable to sign in. Please try again.';
-      setError(message);
+      if (isApiError(mutationError, 'validation_failed')) {
+        setFieldErrors({
+          email: mutationError.fieldError('email') ?? undefined,
+          password: mutationError.fieldError('password') ?? undefined
+        });
+      }
+      setError(resolveLoginError(mutationError));
     }
   });
 
@@ -103,6 +117,7 @@ export const LoginPage = () => {
   const submitHandler = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setError(null);
+    setFieldErrors({});
 
     if (!form.email || !form.password) {
       setError('Email and password are required.');
@@ -125,7 +140,7 @@ export const LoginPage = () => {
   );
 
   if (user) {
-    return <Navigate to="/" replace />;
+    return <Navigate to={redirectTo} replace />;
   }
 
   return (
@@ -135,6 +150,12 @@ export const LoginPage = () => {
       footerHint={footerHint}
     >
       <form className="space-y-6" onSubmit={submitHandler} noValidate>
+        {sessionExpired && !error ? (
+          <div className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700 dark:border-amber-900/50 dark:bg-amber-950/50 dark:text-amber-400">
+            Your session expired. Sign in again to continue where you left off.
+          </div>
+        ) : null}
+
         <div className="space-y-5">
           <div className="space-y-2">
             <label className="text-sm font-medium text-slate-700 dark:text-slate-300" htmlFor="email">
@@ -149,8 +170,15 @@ export const LoginPage = () => {
               placeholder="you@example.com"
               autoComplete="email"
               disabled={isDisabled}
+              aria-invalid={!!fieldErrors.email}
+              aria-describedby="email-error"
               required
             />
+            {fieldErrors.email ? (
+              <p id="email-error" className="text-xs text-rose-600 dark:text-rose-400">
+                {fieldErrors.email}
+              </p>
+            ) : null}
           </div>
 
           <div className="space-y-2">
@@ -174,8 +202,15 @@ export const LoginPage = () => {
               placeholder="••••••••"
               autoComplete="current-password"
               disabled={isDisabled}
+              aria-invalid={!!fieldErrors.password}
+              aria-describedby="password-error"
               required
             />
+            {fieldErrors.password ? (
+              <p id="password-error" className="text-xs text-rose-600 dark:text-rose-400">
+                {fieldErrors.password}
+              </p>
+            ) : null}
           </div>
         </div>
 
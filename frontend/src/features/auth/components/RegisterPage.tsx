@@ -3,8 +3,10 @@ import { Link, Navigate, useNavigate } from 'react-router-dom';
 import { useMutation } from '@tanstack/react-query';
 import { register, type RegisterRequest } from '../api';
 import { AuthLayout } from './AuthLayout';
+import { describeError, isApiError } from '../../../shared/utils/apiError';
 import { parseJwt } from '../../../shared/utils/jwt';
-import { useAuthStore, type UserRole } from '../stores/authStore';
+import { useAuthStore, type AuthUser } from '../stores/authStore';
+import { resolveTokenRoles } from '../utils/roles';
 
 interface RegisterFormState {
   userName: string;
@@ -13,6 +15,8 @@ interface RegisterFormState {
   confirmPassword: string;
 }
 
+type RegisterFieldErrors = Partial<Record<keyof RegisterFormState, string>>;
+
 const DEFAULT_FORM: RegisterFormState = {
   userName: '',
   email: '',
@@ -20,11 +24,25 @@ const DEFAULT_FORM: RegisterFormState = {
   confirmPassword: ''
 };
 
-const resolveRole = (rawRole: unknown): UserRole => {
-  if (rawRole === 'Provider' || rawRole === 'Admin') {
-    return rawRole;
+/** Conflicts and validation problems belong next to the field they are about. */
+const resolveRegisterFieldErrors = (error: unknown): RegisterFieldErrors => {
+  if (isApiError(error, 'email_taken')) {
+    return { email: error.message };
+  }
+
+  if (isApiError(error, 'username_taken')) {
+    return { userName: error.message };
   }
-  return 'Requestor';
+
+  if (isApiError(error, 'validation_failed')) {
+    return {
+      userName: error.fieldError('userName') ?? undefined,
+      email: error.fieldError('email') ?? undefined,
+      password: error.fieldError('password') ?? undefined
+    };
+  }
+
+  return {};
 };
 
 const resolveEmail = (payload: Record<string, unknown>) => {
@@ -42,7 +60,7 @@ const resolveEmail = (payload: Record<string, unknown>) => {
   return typeof jwtEmail === 'string' && jwtEmail.length > 0 ? jwtEmail : undefined;
 };
 
-const buildUserFromToken = (token: string) => {
+const buildUserFromToken = (token: string): AuthUser | null => {
   const payload = parseJwt(token);
   if (!payload) {
     return null;
@@ -59,22 +77,20 @@ const buildUserFromToken = (token: string) => {
     return null;
   }
 
-  const rawRole =
-    Array.isArray(payload.role) && payload.role.length > 0
-      ? payload.role[0]
-      : (payload as Record<string, unknown>)['http://schemas.microsoft.com/ws/2008/06/identity/claims/role'] ??
-        payload.role;
+  const roles = resolveTokenRoles(payload as Record<string, unknown>);
 
   return {
     id: userId,
     email: resolveEmail(payload as Record<string, unknown>),
-    role: resolveRole(rawRole)
+    role: roles[0],
+    roles
   };
 };
 
 export const RegisterPage = () => {
   const [form, setForm] = useState<RegisterFormState>(DEFAULT_FORM);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<RegisterFieldErrors>({});
 
   const navigate = useNavigate();
   const user = useAuthStore((state) => state.user);
@@ -91,11 +107,15 @@ export const RegisterPage = () => {
       navigate('/', { replace: true });
     },
     onError: (mutationError: unknown) => {
-      const message =
-        mutationError instanceof Error
-          ? mutationError.message
-          : 'Unable to create account. Please try again.';
-      setError(message);
+      const nextFieldErrors = resolveRegisterFieldErrors(mutationError);
+      setFieldErrors(nextFieldErrors);
+      if (Object.values(nextFieldErrors).some(Boolean)) {
+        setError(null);
+      } else if (isApiError(mutationError, 'rate_limited')) {
+        setError('Too many sign-up attempts. Wait a minute before trying again.');
+      } else {
+        setError(describeError(mutationError, 'Unable to create account. Please try again.'));
+      }
     }
   });
 
@@ -104,6 +124,7 @@ export const RegisterPage = () => {
   const submitHandler = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setError(null);
+    setFieldErrors({});
 
     if (!form.userName.trim()) {
       setError('A username is required.');
@@ -174,8 +195,15 @@ export const RegisterPage = () => {
               placeholder="johndoe"
               autoComplete="name"
               disabled={isDisabled}
+              aria-invalid={!!fieldErrors.userName}
+              aria-describedby="userName-error"
               required
             />
+            {fieldErrors.userName ? (
+              <p id="userName-error" className="text-xs text-rose-600 dark:text-rose-400">
+                {fieldErrors.userName}
+              </p>
+            ) : null}
           </div>
 
           <div className="space-y-2">
@@ -196,8 +224,15 @@ export const RegisterPage = () => {
               placeholder="you@example.com"
               autoComplete="email"
               disabled={isDisabled}
+              aria-invalid={!!fieldErrors.email}
+              aria-describedby="email-error"
               required
             />
+            {fieldErrors.email ? (
+              <p id="email-error" className="text-xs text-rose-600 dark:text-rose-400">
+                {fieldErrors.email}
+              </p>
+            ) : null}
           </div>
 
           <div className="grid gap-3 sm:grid-cols-2">
@@ -219,6 +254,8 @@ export const RegisterPage = () => {
                 placeholder="••••••••"
                 autoComplete="new-password"
                 disabled={isDisabled}
+                aria-invalid={!!fieldErrors.password}
+                aria-describedby="password-error"
                 required
               />
             </div>
@@ -244,6 +281,11 @@ export const RegisterPage = () => {
                 required
               />
             </div>
+            {fieldErrors.password ? (
+              <p id="password-error" className="text-xs text-rose-600 dark:text-rose-400 sm:col-span-2">
+                {fieldErrors.password}
+              </p>
+            ) : null}
           </div>
         </div>
 
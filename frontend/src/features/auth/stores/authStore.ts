@@ -1,19 +1,27 @@
 import { create } from 'zustand';
 import { DesktopBridge } from '../../../shared/services/DesktopBridge';
+import { normalizeUserRoles } from '../utils/roles';
 
 export type UserRole = 'Requestor' | 'Provider' | 'Admin';
 
 export interface AuthUser {
   id: string;
   email?: string;
+  /** The active role; routes, navigation and hub membership follow it. */
   role: UserRole;
+  /** Every role the account holds, so it can switch without signing out. */
+  roles: UserRole[];
 }
 
 export interface AuthState {
   user: AuthUser | null;
   token: string | null;
+  /** Set when the session ended because the token could not be refreshed. */
+  sessionExpired: boolean;
   setAuth: (user: AuthUser, token?: string | null) => void;
   clearAuth: () => void;
+  expireSession: () => void;
+  setActiveRole: (role: UserRole) => void;
 }
 
 const STORAGE_KEYS = {
@@ -21,15 +29,16 @@ const STORAGE_KEYS = {
   user: 'infinitegpu.auth.user'
 } as const;
 
-const FALLBACK_STATE: Pick<AuthState, 'user' | 'token'> = {
+const FALLBACK_STATE: Pick<AuthState, 'user' | 'token' | 'sessionExpired'> = {
   user: null,
-  token: null
+  token: null,
+  sessionExpired: false
 };
 
 const isBrowserEnvironment =
   typeof window !== 'undefined' && typeof window.localStorage !== 'undefined';
 
-const readStoredAuth = (): Pick<AuthState, 'user' | 'token'> => {
+const readStoredAuth = (): Pick<AuthState, 'user' | 'token' | 'sessionExpired'> => {
   if (!isBrowserEnvironment) {
     return { ...FALLBACK_STATE };
   }
@@ -37,11 +46,12 @@ const readStoredAuth = (): Pick<AuthState, 'user' | 'token'> => {
   try {
     const token = window.localStorage.getItem(STORAGE_KEYS.token);
     const rawUser = window.localStorage.getItem(STORAGE_KEYS.user);
-    const user = rawUser ? (JSON.parse(rawUser) as AuthUser) : null;
+    const user = rawUser ? normalizeUserRoles(JSON.parse(rawUser) as AuthUser) : null;
 
     return {
       user,
-      token
+      token,
+      sessionExpired: false
     };
   } catch {
     return { ...FALLBACK_STATE };
@@ -106,24 +116,42 @@ const clearPersistedAuth = () => {
   } catch {
     // Ignore storage clearing issues silently
   }
+  // The desktop host must not keep acting on behalf of a signed-out user.
+  pushTokenToDesktop(null);
 };
 
 const initialState = readStoredAuth();
 pushTokenToDesktop(initialState.token);
 
-export const useAuthStore = create<AuthState>((set) => ({
+export const useAuthStore = create<AuthState>((set, get) => ({
   ...initialState,
   setAuth: (user, token = null) =>
     set(() => {
       const resolvedToken = token ?? null;
-      persistAuth(user, resolvedToken);
-      return { user, token: resolvedToken };
+      const resolvedUser = normalizeUserRoles(user);
+      persistAuth(resolvedUser, resolvedToken);
+      return { user: resolvedUser, token: resolvedToken, sessionExpired: false };
     }),
   clearAuth: () =>
     set(() => {
       clearPersistedAuth();
       return { ...FALLBACK_STATE };
-    })
+    }),
+  expireSession: () =>
+    set(() => {
+      clearPersistedAuth();
+      return { ...FALLBACK_STATE, sessionExpired: true };
+    }),
+  setActiveRole: (role) => {
+    const { user, token } = get();
+    if (!user || user.role === role || !user.roles.includes(role)) {
+      return;
+    }
+
+    const nextUser = { ...user, role };
+    persistAuth(nextUser, token);
+    set({ user: nextUser });
+  }
 }));
 
 export const getAuthUser = () => useAuthStore.getState().user;
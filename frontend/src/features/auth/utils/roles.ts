@@ -0,0 +1,40 @@
+import type { AuthUser, UserRole } from '../stores/authStore';
+
+const KNOWN_ROLES: readonly UserRole[] = ['Requestor', 'Provider', 'Admin'];
+
+const ROLE_CLAIM = 'http://schemas.microsoft.com/ws/2008/06/identity/claims/role';
+
+const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === 'string' && (KNOWN_ROLES as readonly string[]).includes(value);
+
+/**
+ * Reads every role granted by the token. The claim is a string for a single
+ * role and an array when the account holds several. `Admin` is granted on top
+ * of a workspace role, so accounts holding neither `Requestor` nor `Provider`
+ * still get the `Requestor` workspace.
+ */
+export const resolveTokenRoles = (payload: Record<string, unknown>): UserRole[] => {
+  const rawRoles = payload.role ?? payload[ROLE_CLAIM];
+  const candidates = Array.isArray(rawRoles) ? rawRoles : [rawRoles];
+  const roles = [...new Set(candidates.filter(isUserRole))];
+
+  return roles.includes('Requestor') || roles.includes('Provider') ? roles : ['Requestor', ...roles];
+};
+
+/** Older persisted sessions predate `roles`; they only held the active one. */
+export const normalizeUserRoles = (user: AuthUser): AuthUser => {
+  const roles = Array.isArray(user.roles) ? user.roles.filter(isUserRole) : [];
+  const role = isUserRole(user.role) ? user.role : roles[0] ?? 'Requestor';
+
+  return {
+    ...user,
+    role,
+    roles: roles.includes(role) ? roles : [role, ...roles]
+  };
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  Requestor: 'Requestor',
+  Provider: 'Provider',
+  Admin: 'Administrator'
+};
@@ -0,0 +1,126 @@
+import { setSessionRefreshHandler } from '../../../shared/utils/apiClient';
+import { isApiError } from '../../../shared/utils/apiError';
+import { getJwtExpiry, getJwtIssuedAt } from '../../../shared/utils/jwt';
+import { refreshToken } from '../api';
+import { useAuthStore } from '../stores/authStore';
+
+/** Refresh this long before `exp`, or at 80% of the lifetime for short tokens. */
+const REFRESH_LEAD_MS = 5 * 60_000;
+const MIN_LIFETIME_RATIO = 0.8;
+// Timers are paused while the machine sleeps, so the deadline is also
+// re-checked periodically and whenever the app becomes visible or online.
+const CHECK_INTERVAL_MS = 30_000;
+
+let inflightRefresh: Promise<string | null> | null = null;
+
+/**
+ * Single-flight token refresh: concurrent callers share one request. On
+ * success the new token is stored (and pushed to the desktop host by the
+ * store). The session is ended with the `sessionExpired` flag, so the shell
+ * can redirect to sign-in with an explanation, only when the server rejects
+ * the token or it has expired; a network or server failure leaves a still
+ * valid session in place for the next attempt.
+ */
+export const refreshSession = (): Promise<string | null> => {
+  if (inflightRefresh) {
+    return inflightRefresh;
+  }
+
+  const { user, token } = useAuthStore.getState();
+  if (!user || !token) {
+    return Promise.resolve(null);
+  }
+
+  inflightRefresh = refreshToken()
+    .then((nextToken) => {
+      // Ignore the result if the user signed out or switched accounts meanwhile.
+      const current = useAuthStore.getState();
+      if (current.token !== token || !current.user) {
+        return current.token;
+      }
+      current.setAuth(current.user, nextToken);
+      return nextToken;
+    })
+    .catch((error) => {
+      console.warn('[Auth] session refresh failed', error);
+      const expiresAt = getJwtExpiry(token);
+      const rejected = isApiError(error, 'unauthorized', 'session_expired') ||
+        (expiresAt !== null && Date.now() >= expiresAt);
+      if (rejected && useAuthStore.getState().token === token) {
+        useAuthStore.getState().expireSession();
+      }
+      return null;
+    })
+    .finally(() => {
+      inflightRefresh = null;
+    });
+
+  return inflightRefresh;
+};
+
+// The lifetime is measured from `iat` so a token restored after a reload is
+// not treated as freshly issued; tokens without it fall back to load time.
+const resolveRefreshAt = (token: string) => {
+  const expiresAt = getJwtExpiry(token);
+  if (expiresAt === null) {
+    return null;
+  }
+
+  const issuedAt = Math.min(getJwtIssuedAt(token) ?? Date.now(), expiresAt);
+
+  const lifetime = Math.max(0, expiresAt - issuedAt);
+  return Math.min(expiresAt - REFRESH_LEAD_MS, issuedAt + lifetime * MIN_LIFETIME_RATIO);
+};
+
+/**
+ * Keeps the session alive: refreshes the token ahead of its expiry and
+ * replays requests rejected with 401 after a refresh. Returns a cleanup
+ * function, like the other app-wide registrations.
+ */
+export const registerSessionRefresh = () => {
+  let refreshAt: number | null = null;
+
+  const schedule = (token: string | null) => {
+    refreshAt = token ? resolveRefreshAt(token) : null;
+  };
+
+  const check = () => {
+    if (refreshAt !== null && Date.now() >= refreshAt) {
+      refreshAt = null;
+      const token = useAuthStore.getState().token;
+      void refreshSession().then((nextToken) => {
+        // A failed refresh that kept the session is retried on a later check.
+        if (!nextToken && token && useAuthStore.getState().token === token) {
+          refreshAt = Date.now() + CHECK_INTERVAL_MS;
+        }
+      });
+    }
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      check();
+    }
+  };
+
+  schedule(useAuthStore.getState().token);
+  check();
+
+  const unsubscribe = useAuthStore.subscribe((state, previous) => {
+    if (state.token !== previous.token) {
+      schedule(state.token);
+    }
+  });
+  const unregisterHandler = setSessionRefreshHandler(refreshSession);
+  const interval = window.setInterval(check, CHECK_INTERVAL_MS);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('online', check);
+
+  return () => {
+    unsubscribe();
+    unregisterHandler();
+    window.clearInterval(interval);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    window.removeEventListener('online', check);
+  };
+};
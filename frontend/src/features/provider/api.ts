@@ -1,20 +1,87 @@
+import type { SubtaskDto } from '../../shared/api/generated/contract';
+import { getAvailableSubtasks, getDeviceSubtasks } from '../../shared/api/generated/operations';
+import { DeviceIdentity } from '../../shared/services/DeviceIdentity';
+import { OutboundQueue } from '../../shared/services/OutboundQueue';
 import { apiRequest } from '../../shared/utils/apiClient';
-import type { ProviderSubtaskDto, ProviderSubtaskExecutionResult } from './types';
+import { mapSubtaskDtoToProviderSubtask } from './utils/subtaskMapper';
+import type {
+  ProviderSubtaskExecutionResult,
+  ProviderSubtaskHistoryDto,
+  SubtaskFailureReport
+} from './types';
 
-export const fetchAvailableSubtasks = () => apiRequest<ProviderSubtaskDto[]>('/api/subtasks/available');
+export const fetchAvailableSubtasks = async () =>
+  (await getAvailableSubtasks()).map(mapSubtaskDtoToProviderSubtask);
 
-export const fetchDeviceSubtasks = (deviceIdentifier: string) =>
-  apiRequest<ProviderSubtaskDto[]>(`/api/subtasks/device?identifier=${encodeURIComponent(deviceIdentifier)}`);
+export const fetchDeviceSubtasks = async (deviceIdentifier: string) =>
+  (await getDeviceSubtasks({ identifier: deviceIdentifier })).map(mapSubtaskDtoToProviderSubtask);
 
-export const acceptSubtask = (subtaskId: string) =>
-  apiRequest<void, undefined>(`/api/subtasks/${subtaskId}/accept`, {
-    method: 'POST'
+/** Finished subtasks of every device of the signed-in provider since `sinceUtc`. */
+export const fetchSubtaskHistory = (sinceUtc: string) =>
+  apiRequest<ProviderSubtaskHistoryDto[]>(`/api/subtasks/history?since=${encodeURIComponent(sinceUtc)}`);
+
+// Matches TaskUploadFileType.Output on the backend.
+const OUTPUT_UPLOAD_FILE_TYPE = 2;
+
+export interface OutputUploadTarget {
+  blobUri: string;
+  uploadUri: string;
+  expiresAtUtc: string;
+}
+
+/** Requests a SAS URL for an output tensor the provider produced for a subtask. */
+export const generateOutputUploadUrl = (taskId: string, subtaskId: string, tensorName: string, fileExtension: string) =>
+  apiRequest<OutputUploadTarget>('/api/tasks/upload-url', {
+    method: 'POST',
+    body: {
+      taskId,
+      subtaskId,
+      inputName: tensorName,
+      fileExtension,
+      fileType: OUTPUT_UPLOAD_FILE_TYPE
+    }
   });
 
-export const completeSubtask = (subtaskId: string, results: ProviderSubtaskExecutionResult) =>
-  apiRequest<void, { ResultsJson: string }>(`/api/subtasks/${subtaskId}/complete`, {
+export const acceptSubtask = async (subtaskId: string) =>
+  apiRequest<SubtaskDto>(`/api/subtasks/${subtaskId}/accept`, {
     method: 'POST',
+    body: {
+      DeviceIdentifier: await DeviceIdentity.resolve()
+    }
+  });
+
+// Results, progress, heartbeats and failures go through the outbound queue so
+// a device that drops offline mid-execution delivers them once it is back.
+export const completeSubtask = (subtaskId: string, results: ProviderSubtaskExecutionResult) =>
+  OutboundQueue.send(`/api/subtasks/${subtaskId}/complete`, {
+    label: 'Subtask results',
     body: {
       ResultsJson: JSON.stringify(results)
     }
-  });
\ No newline at end of file
+  });
+
+export const reportProgress = (subtaskId: string, progress: number) =>
+  OutboundQueue.send(`/api/subtasks/${subtaskId}/progress`, {
+    label: 'Progress report',
+    coalesceKey: `progress:${subtaskId}`,
+    body: {
+      Progress: Math.round(progress)
+    }
+  });
+
+export const sendHeartbeat = (subtaskId: string, progress?: number) =>
+  OutboundQueue.send(`/api/subtasks/${subtaskId}/heartbeat`, {
+    label: 'Heartbeat',
+    coalesceKey: `heartbeat:${subtaskId}`,
+    body: {
+      Progress: progress === undefined ? undefined : Math.round(progress)
+    }
+  });
+
+export const failSubtask = (subtaskId: string, failure: SubtaskFailureReport) =>
+  OutboundQueue.send(`/api/subtasks/${subtaskId}/fail`, {
+    label: 'Failure report',
+    body: {
+      FailureJson: JSON.stringify(failure)
+    }
+  });
@@ -1,54 +1,244 @@
+import type {
+  FinanceLedgerEntryDto,
+  FinancePayoutSnapshotDto,
+  FinanceSummaryDto
+} from '../../../shared/api/generated/contract';
+import { getFinanceSummary as getFinanceSummaryOperation } from '../../../shared/api/generated/operations';
 import { apiRequest } from '../../../shared/utils/apiClient';
 
-export interface FinanceSummary {
-  balance: number;
-  netBalance: number;
+export type FinanceSummary = FinanceSummaryDto;
+export type PayoutSnapshot = FinancePayoutSnapshotDto;
+export type LedgerEntry = FinanceLedgerEntryDto;
+
+export interface LedgerFilters {
+  /** Inclusive UTC bounds as ISO dates (`YYYY-MM-DD`). */
+  from?: string | null;
+  to?: string | null;
+  kind?: LedgerEntry['kind'] | null;
+  source?: string | null;
+  taskId?: string | null;
+  /** Matched against the entry title, detail and id. */
+  search?: string | null;
+}
+
+export interface LedgerPage {
+  entries: LedgerEntry[];
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  /** Every source recorded for the account, to populate the filter. */
+  sources: string[];
+}
+
+export interface LedgerStatement {
+  /** `YYYY-MM` */
+  month: string;
+  periodStartUtc: string;
+  periodEndUtc: string;
+  /** `balanceAfter` of the last entry before the period. */
+  openingBalance: number;
+  /** `balanceAfter` of the last entry in the period. */
+  closingBalance: number;
   totalCredits: number;
   totalDebits: number;
-  creditsLast24Hours: number;
-  debitsLast24Hours: number;
-  pendingBalance: number;
-  nextPayout: PayoutSnapshot | null;
-  previousPayout: PayoutSnapshot | null;
-  generatedAtUtc: string;
-  ledgerEntries: LedgerEntry[];
+  entries: LedgerEntry[];
 }
 
-export interface PayoutSnapshot {
-  reference: string;
+const toSearchParams = (values: Record<string, string | number | null | undefined>) => {
+  const params = new URLSearchParams();
+  Object.entries(values).forEach(([key, value]) => {
+    if (value !== null && value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  return params.toString();
+};
+
+export const getFinanceSummary = (): Promise<FinanceSummary> => getFinanceSummaryOperation();
+
+export interface TopUpRequest {
   amount: number;
-  initiatedAtUtc: string | null;
-  settledAtUtc: string | null;
-  entryCount: number;
-  status: 'Pending' | 'Processing' | 'Completed' | 'Failed';
+  /** Either a card saved by an earlier top-up or one just tokenized by Stripe.js. */
+  stripePaymentMethodId: string;
+  /** Keeps the card on the Stripe customer for later and automatic top-ups. */
+  savePaymentMethod: boolean;
+}
+
+export interface TopUpResult {
+  paymentId: string;
+  /**
+   * `RequiresAction` means the bank asked for a 3-D Secure challenge;
+   * `Pending` that the bank has not settled the charge yet.
+   */
+  status: 'Succeeded' | 'RequiresAction' | 'Pending' | 'Failed';
+  /** PaymentIntent client secret, set only while `RequiresAction`. */
+  clientSecret: string | null;
+  failureReason: string | null;
+}
+
+export const processTopUp = async (request: TopUpRequest): Promise<TopUpResult> => {
+  return apiRequest<TopUpResult, TopUpRequest>('/api/finance/topup', {
+    method: 'POST',
+    body: request
+  });
+};
+
+/** Re-reads the PaymentIntent once the 3-D Secure challenge is done and credits the balance. */
+export const confirmTopUp = async (paymentId: string): Promise<TopUpResult> => {
+  return apiRequest<TopUpResult, undefined>(`/api/finance/topup/${paymentId}/confirm`, {
+    method: 'POST'
+  });
+};
+
+/** A card saved on the Stripe customer; only the brand and last digits are exposed. */
+export interface PaymentMethod {
+  paymentMethodId: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  createdAtUtc: string;
 }
 
-export interface LedgerEntry {
-  entryId: string;
-  kind: 'Credit' | 'Debit';
-  title: string;
-  detail: string | null;
+export const getPaymentMethods = async (): Promise<PaymentMethod[]> => {
+  return apiRequest<PaymentMethod[]>('/api/finance/payment-methods');
+};
+
+/** Also disables auto-recharge when it was charging this card. */
+export const deletePaymentMethod = async (paymentMethodId: string): Promise<void> => {
+  return apiRequest<void, undefined>(`/api/finance/payment-methods/${paymentMethodId}`, {
+    method: 'DELETE'
+  });
+};
+
+export interface TopUpDto {
+  paymentId: string;
+  /** Sequential per account, e.g. `IGPU-2024-000123`. */
+  invoiceNumber: string;
   amount: number;
-  occurredAtUtc: string;
-  balanceAfter: number;
-  taskId: string | null;
-  source: string;
+  status: 'Succeeded' | 'Pending' | 'Failed' | 'Refunded';
+  createdAtUtc: string;
+  cardBrand: string | null;
+  cardLast4: string | null;
+  /** Charged by the auto-recharge rule rather than from the dialog. */
+  isAutoRecharge: boolean;
+  /** Stripe-hosted receipt, available once the charge succeeded. */
+  receiptUrl: string | null;
 }
 
-export const getFinanceSummary = async (): Promise<FinanceSummary> => {
-  return apiRequest<FinanceSummary>('/api/finance/summary');
+/** Newest first. */
+export const getTopUps = async (): Promise<TopUpDto[]> => {
+  return apiRequest<TopUpDto[]>('/api/finance/topups');
 };
 
-export const processTopUp = async (amount: number, stripePaymentMethodId: string): Promise<{ paymentId: string }> => {
-  return apiRequest<{ paymentId: string }>('/api/finance/topup', {
-    method: 'POST',
-    body: { amount, stripePaymentMethodId }
+export interface AutoRechargeRule {
+  enabled: boolean;
+  /** A top-up is charged as soon as the balance falls below this amount. */
+  thresholdAmount: number;
+  rechargeAmount: number;
+  paymentMethodId: string | null;
+  lastTriggeredAtUtc: string | null;
+  /** Why the last automatic charge failed; cleared by the next success. */
+  lastFailureReason: string | null;
+}
+
+export type AutoRechargeRuleInput = Pick<
+  AutoRechargeRule,
+  'enabled' | 'thresholdAmount' | 'rechargeAmount' | 'paymentMethodId'
+>;
+
+export const getAutoRechargeRule = async (): Promise<AutoRechargeRule> => {
+  return apiRequest<AutoRechargeRule>('/api/finance/auto-recharge');
+};
+
+export const updateAutoRechargeRule = async (rule: AutoRechargeRuleInput): Promise<AutoRechargeRule> => {
+  return apiRequest<AutoRechargeRule, AutoRechargeRuleInput>('/api/finance/auto-recharge', {
+    method: 'PUT',
+    body: rule
   });
 };
 
-export const createSettlement = async (amount: number, country: string, bankAccountDetails: string): Promise<{ settlementId: string }> => {
-  return apiRequest<{ settlementId: string }>('/api/finance/settlement', {
+/** Settlements can only be requested once the balance reaches this amount. */
+export const MINIMUM_SETTLEMENT_AMOUNT = 30;
+
+export type CreateSettlementRequest = { amount: number } & (
+  | { payoutMethodId: string }
+  | {
+      country: string;
+      /** JSON with the bank name, holder and IBAN/BIC or account/routing number. */
+      bankAccountDetails: string;
+      /** Keeps the account as a payout method so it is not typed again. */
+      savePayoutMethod: boolean;
+    }
+);
+
+export const createSettlement = async (request: CreateSettlementRequest): Promise<{ settlementId: string }> => {
+  return apiRequest<{ settlementId: string }, CreateSettlementRequest>('/api/finance/settlement', {
     method: 'POST',
-    body: { amount, country, bankAccountDetails }
+    body: request
+  });
+};
+
+export type SettlementStatus = PayoutSnapshot['status'];
+
+export interface SettlementStatusTransition {
+  status: SettlementStatus;
+  occurredAtUtc: string;
+  reason: string | null;
+}
+
+/** Only the last digits of the account leave the server. */
+export interface PayoutMethod {
+  payoutMethodId: string;
+  kind: 'Sepa' | 'Ach' | 'FasterPayments' | 'Eft' | 'Becs';
+  country: string;
+  bankName: string;
+  accountHolderName: string;
+  /** e.g. `FR76 •••• 0189` or `•••• 6789` */
+  maskedAccount: string;
+  bic: string | null;
+  createdAtUtc: string;
+}
+
+export interface SettlementDto {
+  settlementId: string;
+  reference: string;
+  amount: number;
+  status: SettlementStatus;
+  requestedAtUtc: string;
+  failureReason: string | null;
+  payoutMethod: PayoutMethod | null;
+  /** Oldest first, starting with `Pending`. */
+  transitions: SettlementStatusTransition[];
+}
+
+export const getSettlements = async (): Promise<SettlementDto[]> => {
+  return apiRequest<SettlementDto[]>('/api/finance/settlements');
+};
+
+/** Only `Pending` settlements can be cancelled; the amount returns to the balance. */
+export const cancelSettlement = async (settlementId: string): Promise<void> => {
+  return apiRequest<void, undefined>(`/api/finance/settlements/${settlementId}/cancel`, {
+    method: 'POST'
   });
-};
\ No newline at end of file
+};
+
+export const getPayoutMethods = async (): Promise<PayoutMethod[]> => {
+  return apiRequest<PayoutMethod[]>('/api/finance/payout-methods');
+};
+
+export const deletePayoutMethod = async (payoutMethodId: string): Promise<void> => {
+  return apiRequest<void, undefined>(`/api/finance/payout-methods/${payoutMethodId}`, {
+    method: 'DELETE'
+  });
+};
+
+export const getLedgerEntries = async (filters: LedgerFilters, page: number, pageSize: number): Promise<LedgerPage> => {
+  const query = toSearchParams({ ...filters, search: filters.search?.trim(), page, pageSize });
+  return apiRequest<LedgerPage>(`/api/finance/ledger?${query}`);
+};
+
+/** The entries of one calendar month, oldest first, with its opening and closing balance. */
+export const getLedgerStatement = async (month: string): Promise<LedgerStatement> => {
+  return apiRequest<LedgerStatement>(`/api/finance/statements/${encodeURIComponent(month)}`);
+};
@@ -0,0 +1,216 @@
+import { Bot, Moon } from "lucide-react";
+import { getRelativeTime } from "../../../shared/utils/dateTime";
+import {
+  EXECUTABLE_TASK_TYPES,
+  useAutoAcceptStore,
+  type AutoAcceptActivity,
+} from "../stores/useAutoAcceptStore";
+import type { ProviderTaskType } from "../types";
+
+const TASK_TYPE_OPTIONS: ProviderTaskType[] = ["Inference", "Train"];
+
+const ACTIVITY_LABELS: Record<AutoAcceptActivity, string> = {
+  idle: "Watching for work",
+  evaluating: "Checking available subtasks…",
+  "quiet-hours": "Paused for quiet hours",
+  "at-capacity": "At concurrency limit",
+};
+
+const inputClassName =
+  "w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 disabled:opacity-60 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:focus:border-indigo-600 dark:focus:ring-indigo-900/60";
+
+const labelClassName =
+  "block text-xs font-medium uppercase tracking-wide text-slate-500 mb-1 dark:text-slate-400";
+
+const parseNonNegative = (value: string, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const AutoAcceptSettingsCard = () => {
+  const enabled = useAutoAcceptStore((state) => state.enabled);
+  const policy = useAutoAcceptStore((state) => state.policy);
+  const activity = useAutoAcceptStore((state) => state.activity);
+  const lastMessage = useAutoAcceptStore((state) => state.lastMessage);
+  const lastEvaluatedAt = useAutoAcceptStore((state) => state.lastEvaluatedAt);
+  const acceptedCount = useAutoAcceptStore((state) => state.acceptedCount);
+  const setEnabled = useAutoAcceptStore((state) => state.setEnabled);
+  const updatePolicy = useAutoAcceptStore((state) => state.updatePolicy);
+
+  const toggleTaskType = (taskType: ProviderTaskType) => {
+    const taskTypes = policy.taskTypes.includes(taskType)
+      ? policy.taskTypes.filter((entry) => entry !== taskType)
+      : [...policy.taskTypes, taskType];
+    updatePolicy({ taskTypes });
+  };
+
+  return (
+    <section className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm dark:border-slate-700 dark:bg-slate-900">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div className="flex items-start gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-full bg-indigo-500/10 text-indigo-600 dark:bg-indigo-950/50 dark:text-indigo-400">
+            <Bot className="h-5 w-5" />
+          </div>
+          <div>
+            <h2 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+              Auto-accept subtasks
+            </h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Accept subtasks that fit this machine's hardware and your policy.
+            </p>
+          </div>
+        </div>
+        <label className="inline-flex cursor-pointer items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-200">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(event) => setEnabled(event.target.checked)}
+            className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500 dark:border-slate-600"
+          />
+          {enabled ? "Enabled" : "Disabled"}
+        </label>
+      </div>
+
+      <div className="mt-5 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div>
+          <label htmlFor="auto-accept-min-earnings" className={labelClassName}>
+            Minimum earnings (€)
+          </label>
+          <input
+            id="auto-accept-min-earnings"
+            type="number"
+            min={0}
+            step="0.01"
+            value={policy.minEstimatedEarnings}
+            onChange={(event) =>
+              updatePolicy({
+                minEstimatedEarnings: parseNonNegative(
+                  event.target.value,
+                  policy.minEstimatedEarnings,
+                ),
+              })
+            }
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="auto-accept-max-concurrent" className={labelClassName}>
+            Max concurrent subtasks
+          </label>
+          <input
+            id="auto-accept-max-concurrent"
+            type="number"
+            min={1}
+            step={1}
+            value={policy.maxConcurrentSubtasks}
+            onChange={(event) =>
+              updatePolicy({
+                maxConcurrentSubtasks: Math.max(
+                  1,
+                  Math.floor(
+                    parseNonNegative(
+                      event.target.value,
+                      policy.maxConcurrentSubtasks,
+                    ),
+                  ),
+                ),
+              })
+            }
+            className={inputClassName}
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <span className={labelClassName}>Task types</span>
+          <div className="flex flex-wrap gap-2">
+            {TASK_TYPE_OPTIONS.map((taskType) => {
+              const selected = policy.taskTypes.includes(taskType);
+              const executable = EXECUTABLE_TASK_TYPES.includes(taskType);
+              return (
+                <button
+                  key={taskType}
+                  type="button"
+                  onClick={() => toggleTaskType(taskType)}
+                  disabled={!executable}
+                  title={executable ? undefined : "No runtime executes this task type yet"}
+                  className={`rounded-full border px-3 py-1.5 text-xs font-semibold transition disabled:cursor-not-allowed disabled:opacity-50 ${
+                    selected
+                      ? "border-indigo-300 bg-indigo-50 text-indigo-700 dark:border-indigo-800 dark:bg-indigo-950/50 dark:text-indigo-300"
+                      : "border-slate-200 bg-white text-slate-500 hover:border-slate-300 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-400"
+                  }`}
+                >
+                  {taskType === "Train" ? "Training" : "Inference"}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-col gap-3 rounded-lg border border-slate-100 bg-slate-50 p-4 sm:flex-row sm:items-end dark:border-slate-800 dark:bg-slate-800/60">
+        <label className="inline-flex items-center gap-2 text-sm font-medium text-slate-700 sm:mb-2 dark:text-slate-200">
+          <input
+            type="checkbox"
+            checked={policy.quietHours.enabled}
+            onChange={(event) =>
+              updatePolicy({
+                quietHours: { ...policy.quietHours, enabled: event.target.checked },
+              })
+            }
+            className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500 dark:border-slate-600"
+          />
+          <Moon className="h-4 w-4 text-slate-400 dark:text-slate-500" />
+          Quiet hours
+        </label>
+        <div className="grid flex-1 grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="auto-accept-quiet-start" className={labelClassName}>
+              From
+            </label>
+            <input
+              id="auto-accept-quiet-start"
+              type="time"
+              value={policy.quietHours.start}
+              disabled={!policy.quietHours.enabled}
+              onChange={(event) =>
+                updatePolicy({
+                  quietHours: { ...policy.quietHours, start: event.target.value },
+                })
+              }
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="auto-accept-quiet-end" className={labelClassName}>
+              Until
+            </label>
+            <input
+              id="auto-accept-quiet-end"
+              type="time"
+              value={policy.quietHours.end}
+              disabled={!policy.quietHours.enabled}
+              onChange={(event) =>
+                updatePolicy({
+                  quietHours: { ...policy.quietHours, end: event.target.value },
+                })
+              }
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      </div>
+
+      {enabled ? (
+        <div className="mt-4 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-slate-500 dark:text-slate-400">
+          <span className="font-semibold text-slate-700 dark:text-slate-200">
+            {ACTIVITY_LABELS[activity]}
+          </span>
+          {lastMessage ? <span>{lastMessage}</span> : null}
+          {lastEvaluatedAt ? (
+            <span>Last check {getRelativeTime(lastEvaluatedAt)}</span>
+          ) : null}
+          <span>{acceptedCount} accepted this session</span>
+        </div>
+      ) : null}
+    </section>
+  );
+};
@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { SelectDropdown } from '../../../shared/components/SelectDropdown';
+import { formatUtcToLocal } from '../../../shared/utils/dateTime';
+import type { AutoRechargeRule, PaymentMethod } from '../api/financeApi';
+import { useUpdateAutoRechargeMutation } from '../mutations/useUpdateAutoRechargeMutation';
+import { useAutoRechargeQuery } from '../queries/useAutoRechargeQuery';
+import { usePaymentMethodsQuery } from '../queries/usePaymentMethodsQuery';
+
+const inputClassName =
+  'w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 disabled:opacity-60 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:focus:border-indigo-600 dark:focus:ring-indigo-900/60';
+
+interface AutoRechargeFormProps {
+  rule: AutoRechargeRule;
+  paymentMethods: PaymentMethod[];
+}
+
+const AutoRechargeForm = ({ rule, paymentMethods }: AutoRechargeFormProps) => {
+  const [enabled, setEnabled] = useState(rule.enabled);
+  const [thresholdAmount, setThresholdAmount] = useState(rule.thresholdAmount ? String(rule.thresholdAmount) : '');
+  const [rechargeAmount, setRechargeAmount] = useState(rule.rechargeAmount ? String(rule.rechargeAmount) : '');
+  const [paymentMethodChoice, setPaymentMethodChoice] = useState(rule.paymentMethodId);
+  // Falls back to the first saved card when the chosen one has been removed.
+  const paymentMethodId =
+    paymentMethods.find((method) => method.paymentMethodId === paymentMethodChoice)?.paymentMethodId ??
+    paymentMethods[0]?.paymentMethodId ??
+    '';
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const updateMutation = useUpdateAutoRechargeMutation();
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setSaved(false);
+
+    const threshold = Number(thresholdAmount);
+    const recharge = Number(rechargeAmount);
+    if (enabled) {
+      if (!thresholdAmount || !Number.isFinite(threshold) || threshold < 0) {
+        setError('Enter the balance that triggers a top-up.');
+        return;
+      }
+
+      if (!rechargeAmount || !Number.isFinite(recharge) || recharge < 1) {
+        setError('Enter a top-up amount of at least €1.');
+        return;
+      }
+
+      if (!paymentMethodId) {
+        setError('Save a card with a manual top-up first; automatic top-ups charge a saved card.');
+        return;
+      }
+    }
+
+    try {
+      await updateMutation.mutateAsync({
+        enabled,
+        thresholdAmount: Number.isFinite(threshold) ? threshold : 0,
+        rechargeAmount: Number.isFinite(recharge) ? recharge : 0,
+        paymentMethodId: paymentMethodId || null
+      });
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save auto-recharge');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <label className="inline-flex cursor-pointer items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(event) => setEnabled(event.target.checked)}
+          className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500 dark:border-slate-600"
+        />
+        Top up automatically when my balance runs low
+      </label>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div>
+          <label
+            htmlFor="autoRechargeThreshold"
+            className="mb-1 block text-xs font-medium text-slate-600 dark:text-slate-400"
+          >
+            When the balance falls below (€)
+          </label>
+          <input
+            id="autoRechargeThreshold"
+            type="number"
+            step="0.01"
+            min="0"
+            value={thresholdAmount}
+            onChange={(event) => setThresholdAmount(event.target.value)}
+            disabled={!enabled}
+            placeholder="20.00"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="autoRechargeAmount"
+            className="mb-1 block text-xs font-medium text-slate-600 dark:text-slate-400"
+          >
+            Top up (€)
+          </label>
+          <input
+            id="autoRechargeAmount"
+            type="number"
+            step="0.01"
+            min="1"
+            value={rechargeAmount}
+            onChange={(event) => setRechargeAmount(event.target.value)}
+            disabled={!enabled}
+            placeholder="100.00"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {paymentMethods.length > 0 ? (
+        <div>
+          <span className="mb-1 block text-xs font-medium text-slate-600 dark:text-slate-400">Charge</span>
+          <SelectDropdown
+            ariaLabel="Card charged by auto-recharge"
+            value={paymentMethodId}
+            onValueChange={setPaymentMethodChoice}
+            options={paymentMethods.map((method) => ({
+              value: method.paymentMethodId,
+              label: `${method.brand} •••• ${method.last4}`,
+              description: `Expires ${String(method.expMonth).padStart(2, '0')}/${method.expYear}`
+            }))}
+          />
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Automatic top-ups charge a saved card. Tick “Save this card” on your next top-up to use one.
+        </p>
+      )}
+
+      {rule.lastFailureReason && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-700 dark:border-amber-900/50 dark:bg-amber-950/50 dark:text-amber-400">
+          <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          <span>Last automatic top-up failed: {rule.lastFailureReason}</span>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-rose-600 dark:text-rose-400">{error}</p>}
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs text-slate-500 dark:text-slate-400">
+          {saved
+            ? 'Saved.'
+            : rule.lastTriggeredAtUtc
+              ? `Last triggered ${formatUtcToLocal(rule.lastTriggeredAtUtc, {
+                  day: '2-digit',
+                  month: 'short',
+                  hour: '2-digit',
+                  minute: '2-digit'
+                })}`
+              : null}
+        </span>
+        <button
+          type="submit"
+          disabled={updateMutation.isPending}
+          className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white transition hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-indigo-700 dark:hover:bg-indigo-600"
+        >
+          {updateMutation.isPending ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export const AutoRechargePanel = () => {
+  const ruleQuery = useAutoRechargeQuery();
+  const paymentMethodsQuery = usePaymentMethodsQuery();
+
+  const renderBody = () => {
+    if (ruleQuery.isLoading || paymentMethodsQuery.isLoading) {
+      return <div className="h-32 animate-pulse rounded-lg bg-slate-100 dark:bg-slate-800" />;
+    }
+
+    if (ruleQuery.isError || !ruleQuery.data) {
+      return (
+        <div className="py-8 text-center text-sm text-rose-600 dark:text-rose-400">
+          Unable to load auto-recharge settings. Please retry shortly.
+        </div>
+      );
+    }
+
+    return <AutoRechargeForm rule={ruleQuery.data} paymentMethods={paymentMethodsQuery.data ?? []} />;
+  };
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-700 dark:bg-slate-900">
+      <header className="flex items-center justify-between">
+        <div>
+          <span className="text-sm font-semibold uppercase tracking-wide text-indigo-500 dark:text-indigo-400">Top-ups</span>
+          <h3 className="text-xl font-semibold text-slate-900 dark:text-slate-100">Auto-recharge</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Keeps long batch jobs running instead of pausing on an empty balance.
+          </p>
+        </div>
+        <RefreshCw className="h-6 w-6 text-slate-300 dark:text-slate-600" />
+      </header>
+
+      {renderBody()}
+    </section>
+  );
+};
@@ -0,0 +1,239 @@
+import { useState, type FormEvent } from 'react';
+import { ArrowDownLeft, ArrowUpRight, ChevronLeft, ChevronRight, Search } from 'lucide-react';
+import { DataTable } from '../../../shared/components/DataTable';
+import { SelectDropdown } from '../../../shared/components/SelectDropdown';
+import { formatUtcToLocal } from '../../../shared/utils/dateTime';
+import type { LedgerEntry, LedgerFilters } from '../api/financeApi';
+import { useLedgerQuery } from '../queries/useLedgerQuery';
+import { LedgerStatementExport } from './LedgerStatementExport';
+
+const PAGE_SIZE = 25;
+
+// Radix select items cannot carry an empty value.
+const ALL = 'all';
+
+const KIND_OPTIONS = [
+  { value: ALL, label: 'Credits & debits' },
+  { value: 'Credit', label: 'Credits only' },
+  { value: 'Debit', label: 'Debits only' }
+];
+
+const inputClassName =
+  'w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200 dark:placeholder:text-slate-500 dark:focus:border-indigo-600 dark:focus:ring-indigo-900/60';
+
+const pageButtonClassName =
+  'rounded-lg border border-slate-200 p-1.5 text-slate-500 transition hover:bg-slate-50 hover:text-slate-700 disabled:cursor-not-allowed disabled:opacity-40 dark:border-slate-700 dark:text-slate-400 dark:hover:bg-slate-800';
+
+const columns = [
+  {
+    key: 'date',
+    header: 'Date',
+    cellClassName: 'whitespace-nowrap px-6 py-4 align-top text-xs',
+    render: (entry: LedgerEntry) =>
+      formatUtcToLocal(entry.occurredAtUtc, {
+        day: '2-digit',
+        month: 'short',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+      })
+  },
+  {
+    key: 'entry',
+    header: 'Entry',
+    render: (entry: LedgerEntry) => (
+      <div className="flex items-start gap-3">
+        <div
+          className={`flex h-8 w-8 shrink-0 items-center justify-center rounded-full ${
+            entry.kind === 'Credit'
+              ? 'bg-emerald-50 text-emerald-600 dark:bg-emerald-950/50 dark:text-emerald-400'
+              : 'bg-rose-50 text-rose-600 dark:bg-rose-950/50 dark:text-rose-400'
+          }`}
+        >
+          {entry.kind === 'Credit' ? <ArrowDownLeft className="h-4 w-4" /> : <ArrowUpRight className="h-4 w-4" />}
+        </div>
+        <div className="flex min-w-0 flex-col gap-0.5">
+          <span className="font-semibold text-slate-800 dark:text-slate-200">{entry.title}</span>
+          {entry.detail ? <span className="text-xs text-slate-500 dark:text-slate-400">{entry.detail}</span> : null}
+          <span className="font-mono text-[11px] text-slate-400 dark:text-slate-500">{entry.entryId}</span>
+        </div>
+      </div>
+    )
+  },
+  {
+    key: 'source',
+    header: 'Source',
+    render: (entry: LedgerEntry) => (
+      <div className="flex flex-col gap-0.5 text-xs">
+        <span>{entry.source}</span>
+        {entry.taskId ? <span className="font-mono text-slate-400 dark:text-slate-500">Task {entry.taskId}</span> : null}
+      </div>
+    )
+  },
+  {
+    key: 'amount',
+    header: 'Amount',
+    headerClassName: 'whitespace-nowrap px-6 py-3 text-right',
+    cellClassName: 'whitespace-nowrap px-6 py-4 text-right align-top',
+    render: (entry: LedgerEntry) => (
+      <span
+        className={`font-semibold ${
+          entry.kind === 'Credit' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'
+        }`}
+      >
+        {entry.kind === 'Credit' ? '+' : '-'}€{entry.amount.toFixed(2)}
+      </span>
+    )
+  },
+  {
+    key: 'balance',
+    header: 'Balance after',
+    headerClassName: 'whitespace-nowrap px-6 py-3 text-right',
+    cellClassName: 'whitespace-nowrap px-6 py-4 text-right align-top font-medium text-slate-700 dark:text-slate-300',
+    render: (entry: LedgerEntry) => `€${entry.balanceAfter.toFixed(2)}`
+  }
+];
+
+export const LedgerPanel = () => {
+  const [filters, setFilters] = useState<LedgerFilters>({});
+  const [page, setPage] = useState(1);
+  const [searchDraft, setSearchDraft] = useState('');
+  const [taskIdDraft, setTaskIdDraft] = useState('');
+
+  const { data, isLoading, isError, isPlaceholderData } = useLedgerQuery(filters, page, PAGE_SIZE);
+  const totalCount = data?.totalCount ?? 0;
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  const updateFilters = (next: Partial<LedgerFilters>) => {
+    setFilters((current) => ({ ...current, ...next }));
+    setPage(1);
+  };
+
+  const handleSearchSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    updateFilters({ search: searchDraft.trim() || null, taskId: taskIdDraft.trim() || null });
+  };
+
+  const sourceOptions = [
+    { value: ALL, label: 'All sources' },
+    ...(data?.sources ?? []).map((source) => ({ value: source, label: source }))
+  ];
+
+  return (
+    <section className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm lg:col-span-2 dark:border-slate-700 dark:bg-slate-900">
+      <header className="flex flex-wrap items-start justify-between gap-4 border-b border-slate-100 px-6 py-4 dark:border-slate-700">
+        <div className="flex flex-col gap-1">
+          <span className="text-sm font-semibold uppercase tracking-wide text-indigo-500 dark:text-indigo-400">Ledger</span>
+          <h3 className="text-xl font-semibold text-slate-900 dark:text-slate-100">Credits & debits</h3>
+        </div>
+        <LedgerStatementExport />
+      </header>
+
+      <form
+        onSubmit={handleSearchSubmit}
+        className="grid gap-3 border-b border-slate-100 px-6 py-4 sm:grid-cols-2 xl:grid-cols-3 dark:border-slate-700"
+      >
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          From
+          <input
+            type="date"
+            value={filters.from ?? ''}
+            max={filters.to ?? undefined}
+            onChange={(event) => updateFilters({ from: event.target.value || null })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          To
+          <input
+            type="date"
+            value={filters.to ?? ''}
+            min={filters.from ?? undefined}
+            onChange={(event) => updateFilters({ to: event.target.value || null })}
+            className={inputClassName}
+          />
+        </label>
+        <div className="grid grid-cols-2 gap-3 self-end">
+          <SelectDropdown
+            ariaLabel="Filter by kind"
+            value={filters.kind ?? ALL}
+            onValueChange={(kind) =>
+              updateFilters({ kind: kind === ALL ? null : (kind as LedgerEntry['kind']) })
+            }
+            options={KIND_OPTIONS}
+          />
+          <SelectDropdown
+            ariaLabel="Filter by source"
+            value={filters.source ?? ALL}
+            onValueChange={(source) => updateFilters({ source: source === ALL ? null : source })}
+            options={sourceOptions}
+          />
+        </div>
+        <input
+          type="search"
+          value={searchDraft}
+          onChange={(event) => setSearchDraft(event.target.value)}
+          placeholder="Search title, detail or entry ID"
+          aria-label="Search ledger"
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          value={taskIdDraft}
+          onChange={(event) => setTaskIdDraft(event.target.value)}
+          placeholder="Task ID"
+          aria-label="Filter by task ID"
+          className={`${inputClassName} font-mono`}
+        />
+        <button
+          type="submit"
+          className="inline-flex items-center justify-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-500 dark:bg-indigo-700 dark:hover:bg-indigo-600"
+        >
+          <Search className="h-4 w-4" />
+          Search
+        </button>
+      </form>
+
+      <div className={isPlaceholderData ? 'opacity-60 transition-opacity' : undefined}>
+        <DataTable
+          data={data?.entries ?? []}
+          columns={columns}
+          keyExtractor={(entry) => entry.entryId}
+          isLoading={isLoading}
+          isError={isError}
+          emptyMessage="No ledger entry matches these filters."
+          errorMessage="Unable to load the ledger. Please retry shortly."
+        />
+      </div>
+
+      <footer className="flex items-center justify-between gap-3 border-t border-slate-100 px-6 py-3 text-xs text-slate-500 dark:border-slate-700 dark:text-slate-400">
+        <span>
+          {totalCount} {totalCount === 1 ? 'entry' : 'entries'}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setPage((current) => current - 1)}
+            disabled={page <= 1}
+            aria-label="Previous page"
+            className={pageButtonClassName}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="tabular-nums">
+            Page {page} of {pageCount}
+          </span>
+          <button
+            type="button"
+            onClick={() => setPage((current) => current + 1)}
+            disabled={page >= pageCount || isPlaceholderData}
+            aria-label="Next page"
+            className={pageButtonClassName}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      </footer>
+    </section>
+  );
+};
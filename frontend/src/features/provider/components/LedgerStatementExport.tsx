@@ -0,0 +1,89 @@
+import { useMemo, useState } from 'react';
+import { FileSpreadsheet, Loader2, Printer } from 'lucide-react';
+import { SelectDropdown } from '../../../shared/components/SelectDropdown';
+import { saveBlob } from '../../../shared/utils/download';
+import { useLedgerStatementQuery } from '../queries/useLedgerStatementQuery';
+import {
+  buildStatementCsv,
+  formatStatementMonth,
+  printStatement,
+  recentStatementMonths,
+  statementFileName
+} from '../utils/ledgerStatement';
+
+const STATEMENT_MONTH_COUNT = 12;
+
+const EURO_FORMATTER = new Intl.NumberFormat(undefined, {
+  style: 'currency',
+  currency: 'EUR'
+});
+
+const buttonClassName =
+  'inline-flex items-center gap-1.5 rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs font-semibold text-slate-700 shadow-sm transition hover:border-indigo-200 hover:text-indigo-600 disabled:cursor-not-allowed disabled:opacity-60 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-indigo-700 dark:hover:text-indigo-400';
+
+export const LedgerStatementExport = () => {
+  const monthOptions = useMemo(
+    () =>
+      recentStatementMonths(new Date(), STATEMENT_MONTH_COUNT).map((month) => ({
+        value: month,
+        label: formatStatementMonth(month)
+      })),
+    []
+  );
+  const [month, setMonth] = useState(monthOptions[0].value);
+  const [printError, setPrintError] = useState<string | null>(null);
+  const { data: statement, isLoading, isError } = useLedgerStatementQuery(month);
+
+  const handlePrint = () => {
+    if (!statement) {
+      return;
+    }
+
+    setPrintError(
+      printStatement(statement) ? null : 'Allow pop-ups for this site to print the statement.'
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="w-44">
+          <SelectDropdown
+            ariaLabel="Statement month"
+            value={month}
+            onValueChange={setMonth}
+            options={monthOptions}
+          />
+        </div>
+        <button
+          type="button"
+          disabled={!statement}
+          onClick={() => statement && saveBlob(buildStatementCsv(statement), statementFileName(month, 'csv'))}
+          className={buttonClassName}
+        >
+          <FileSpreadsheet className="h-3.5 w-3.5" />
+          CSV
+        </button>
+        <button type="button" disabled={!statement} onClick={handlePrint} className={buttonClassName}>
+          <Printer className="h-3.5 w-3.5" />
+          Print / PDF
+        </button>
+      </div>
+      <span className="text-xs text-slate-500 dark:text-slate-400">
+        {isLoading ? (
+          <span className="inline-flex items-center gap-1">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Preparing statement…
+          </span>
+        ) : isError ? (
+          <span className="text-rose-600 dark:text-rose-400">Unable to load this statement.</span>
+        ) : statement ? (
+          `Opening ${EURO_FORMATTER.format(statement.openingBalance)} · Closing ${EURO_FORMATTER.format(
+            statement.closingBalance
+          )} · ${statement.entries.length} entries`
+        ) : null}
+        {printError ? <span className="ml-2 text-rose-600 dark:text-rose-400">{printError}</span> : null}
+      </span>
+    </div>
+  );
+};
@@ -1,44 +1,90 @@
 import { useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { ArrowDownLeft, ArrowUpRight, Banknote, CalendarDays, PiggyBank, Wallet, Plus } from 'lucide-react';
-import { formatUtcToLocal } from '../../../shared/utils/dateTime';
-import { getFinanceSummary, processTopUp, createSettlement } from '../api/financeApi';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
+import { ArrowDownLeft, ArrowUpRight, PiggyBank, Wallet, Plus } from 'lucide-react';
+import {
+  createSettlement,
+  MINIMUM_SETTLEMENT_AMOUNT,
+  type CreateSettlementRequest,
+  type TopUpRequest
+} from '../api/financeApi';
+import { isApiError } from '../../../shared/utils/apiError';
+import { completeTopUp } from '../payments/topUpFlow';
+import {
+  financeSummaryQueryKey,
+  useFinanceSummaryQuery
+} from '../queries/useFinanceSummaryQuery';
+import { ledgerQueryKey } from '../queries/useLedgerQuery';
+import { ledgerStatementQueryKey } from '../queries/useLedgerStatementQuery';
+import { invalidateAutoRechargeKey } from '../queries/useAutoRechargeQuery';
+import { invalidatePaymentMethodsKey } from '../queries/usePaymentMethodsQuery';
+import { invalidatePayoutMethodsKey } from '../queries/usePayoutMethodsQuery';
+import { invalidateSettlementsKey } from '../queries/useSettlementsQuery';
+import { invalidateTopUpsKey } from '../queries/useTopUpsQuery';
+import { AutoRechargePanel } from './AutoRechargePanel';
+import { LedgerPanel } from './LedgerPanel';
+import { SettlementHistoryPanel } from './SettlementHistoryPanel';
 import { TopUpDialog } from './TopUpDialog';
+import { TopUpHistoryPanel } from './TopUpHistoryPanel';
 import { SettlementDialog } from './SettlementDialog';
 
 export const PaymentsEarningsPanel = () => {
-  const [isTopUpDialogOpen, setIsTopUpDialogOpen] = useState(false);
+  // `?topUp=<amount>` is how other screens send the user here to add funds.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedTopUp = Number(searchParams.get('topUp'));
+  const [isTopUpDialogOpen, setIsTopUpDialogOpen] = useState(() =>
+    searchParams.has('topUp')
+  );
   const [isSettlementDialogOpen, setIsSettlementDialogOpen] = useState(false);
   const queryClient = useQueryClient();
 
-  const { data: financeSummary, isLoading, error } = useQuery({
-    queryKey: ['financeSummary'],
-    queryFn: getFinanceSummary,
+  const { data: financeSummary, isLoading, error } = useFinanceSummaryQuery({
     refetchInterval: 30000, // Refetch every 30 seconds
   });
 
   const topUpMutation = useMutation({
-    mutationFn: ({ amount, paymentMethodId }: { amount: number; paymentMethodId: string }) =>
-      processTopUp(amount, paymentMethodId),
+    mutationFn: (request: TopUpRequest) => completeTopUp(request),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['financeSummary'] });
+      queryClient.invalidateQueries({ queryKey: financeSummaryQueryKey });
+      queryClient.invalidateQueries({ queryKey: ledgerQueryKey });
+      queryClient.invalidateQueries({ queryKey: ledgerStatementQueryKey });
+      queryClient.invalidateQueries({ queryKey: invalidateTopUpsKey });
+      queryClient.invalidateQueries({ queryKey: invalidatePaymentMethodsKey });
+      queryClient.invalidateQueries({ queryKey: invalidateAutoRechargeKey });
     },
   });
 
   const settlementMutation = useMutation({
-    mutationFn: ({ amount, country, bankAccountDetails }: { amount: number; country: string; bankAccountDetails: string }) =>
-      createSettlement(amount, country, bankAccountDetails),
+    mutationFn: (request: CreateSettlementRequest) => createSettlement(request),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['financeSummary'] });
+      queryClient.invalidateQueries({ queryKey: financeSummaryQueryKey });
+      queryClient.invalidateQueries({ queryKey: ledgerQueryKey });
+      queryClient.invalidateQueries({ queryKey: ledgerStatementQueryKey });
+      queryClient.invalidateQueries({ queryKey: invalidateSettlementsKey });
+      queryClient.invalidateQueries({ queryKey: invalidatePayoutMethodsKey });
+    },
+    onError: (mutationError) => {
+      // The balance or a pending settlement changed under the dialog.
+      if (isApiError(mutationError, 'insufficient_balance')) {
+        queryClient.invalidateQueries({ queryKey: financeSummaryQueryKey });
+        queryClient.invalidateQueries({ queryKey: invalidateSettlementsKey });
+      }
     },
   });
 
-  const handleTopUp = async (amount: number, paymentMethodId: string) => {
-    await topUpMutation.mutateAsync({ amount, paymentMethodId });
+  const handleTopUp = async (request: TopUpRequest) => {
+    await topUpMutation.mutateAsync(request);
+  };
+
+  const handleTopUpClose = () => {
+    setIsTopUpDialogOpen(false);
+    if (searchParams.has('topUp')) {
+      setSearchParams({}, { replace: true });
+    }
   };
 
-  const handleSettle = async (amount: number, country: string, bankAccountDetails: string) => {
-    await settlementMutation.mutateAsync({ amount, country, bankAccountDetails });
+  const handleSettle = async (request: CreateSettlementRequest) => {
+    await settlementMutation.mutateAsync(request);
   };
 
   if (isLoading) {
@@ -61,15 +107,6 @@ export const PaymentsEarningsPanel = () => {
     return null;
   }
 
-  const ledgerEntries = financeSummary.ledgerEntries.map((entry) => ({
-    id: entry.entryId,
-    type: entry.kind === 'Credit' ? 'credit' as const : 'debit' as const,
-    label: entry.title,
-    detail: entry.detail || '',
-    amount: entry.amount,
-    createdAt: entry.occurredAtUtc,
-    balanceAfter: entry.balanceAfter,
-  }));
   return (
     <>
       <div className="space-y-8">
@@ -105,11 +142,11 @@ export const PaymentsEarningsPanel = () => {
             icon={<PiggyBank className="h-5 w-5 text-amber-500" />}
             title="Next payout"
             value={financeSummary.nextPayout ? `$${financeSummary.nextPayout.amount.toFixed(2)}` : '$0.00'}
-            helper={financeSummary.nextPayout ? 'Processing settlement' : 'No pending payout'}
+            helper={financeSummary.nextPayout ? 'Awaiting approval' : 'No pending payout'}
             action={
               <button
                 onClick={() => setIsSettlementDialogOpen(true)}
-                disabled={financeSummary.balance < 30}
+                disabled={financeSummary.balance < MINIMUM_SETTLEMENT_AMOUNT}
                 className="mt-2 flex items-center gap-1 text-xs font-medium text-emerald-600 hover:text-emerald-700 transition disabled:opacity-50 disabled:cursor-not-allowed dark:text-emerald-400 dark:hover:text-emerald-300"
               >
                 <Plus className="h-3 w-3" />
@@ -120,152 +157,26 @@ export const PaymentsEarningsPanel = () => {
         </section>
 
       <div className="grid gap-6 lg:grid-cols-3">
-        <section className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm lg:col-span-2 dark:border-slate-700 dark:bg-slate-900">
-          <header className="flex flex-col gap-1">
-            <span className="text-sm font-semibold uppercase tracking-wide text-indigo-500 dark:text-indigo-400">Ledger</span>
-            <div className="flex items-baseline justify-between gap-3">
-              <h3 className="text-xl font-semibold text-slate-900 dark:text-slate-100">Credits & debits</h3>
-            </div>
-          </header>
-
-          <ul className="divide-y divide-slate-100 dark:divide-slate-700">
-            {ledgerEntries.map((entry) => {
-              const isCredit = entry.type === 'credit';
-              return (
-                <li key={entry.id} className="flex flex-wrap items-center gap-4 py-4">
-                  <div
-                    className={`flex h-11 w-11 items-center justify-center rounded-full ${
-                      isCredit ? 'bg-emerald-50 text-emerald-600 dark:bg-emerald-950/50 dark:text-emerald-400' : 'bg-rose-50 text-rose-600 dark:bg-rose-950/50 dark:text-rose-400'
-                    }`}
-                  >
-                    {isCredit ? <ArrowDownLeft className="h-5 w-5" /> : <ArrowUpRight className="h-5 w-5" />}
-                  </div>
-
-                  <div className="flex min-w-0 flex-1 flex-col">
-                    <div className="flex flex-wrap items-center justify-between gap-2">
-                      <span className="truncate text-sm font-semibold text-slate-800 dark:text-slate-200">{entry.label}</span>
-                      <span className="text-xs text-slate-400 dark:text-slate-500">
-                        {formatUtcToLocal(entry.createdAt, {
-                          hour: '2-digit',
-                          minute: '2-digit',
-                          day: '2-digit',
-                          month: 'short'
-                        })}
-                      </span>
-                    </div>
-                    <p className="text-sm text-slate-500 dark:text-slate-400">{entry.detail}</p>
-                    <div className="mt-2 flex flex-wrap items-center gap-4 text-xs text-slate-500 dark:text-slate-400">
-                      <span className="rounded-full border border-slate-200 px-3 py-1 dark:border-slate-700">
-                        Balance after: <span className="font-medium text-slate-700 dark:text-slate-300">€{entry.balanceAfter.toFixed(2)}</span>
-                      </span>
-                      <span className="rounded-full border border-slate-200 px-3 py-1 dark:border-slate-700">Entry ID: {entry.id}</span>
-                    </div>
-                  </div>
-
-                  <div className="flex flex-col items-end">
-                    <span
-                      className={`text-sm font-semibold ${isCredit ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'}`}
-                    >
-                      {isCredit ? '+' : '-'}€{entry.amount.toFixed(2)}
-                    </span>
-                    <span className="text-xs text-slate-400 dark:text-slate-500">Auto-matched</span>
-                  </div>
-                </li>
-              );
-            })}
-          </ul>
-        </section>
-
-        <section className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-700 dark:bg-slate-900">
-          <header className="flex items-center justify-between">
-            <div>
-              <span className="text-sm font-semibold uppercase tracking-wide text-indigo-500 dark:text-indigo-400">Payouts</span>
-              <h3 className="text-xl font-semibold text-slate-900 dark:text-slate-100">Settlement timeline</h3>
-            </div>
-            <Banknote className="h-6 w-6 text-slate-300 dark:text-slate-600" />
-          </header>
-
-          <div className="space-y-4">
-            {financeSummary.nextPayout && (
-              <div className="rounded-lg border border-slate-100 bg-slate-50 p-4 dark:border-slate-700 dark:bg-slate-800">
-                <div className="flex items-start justify-between gap-3">
-                  <div className="space-y-1">
-                    <div className="flex items-center gap-2 text-sm font-semibold text-slate-800 dark:text-slate-200">
-                      <CalendarDays className="h-4 w-4 text-indigo-500 dark:text-indigo-400" />
-                      {financeSummary.nextPayout.reference}
-                    </div>
-                    <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500">Next Payout</div>
-                  </div>
-                  <span className="text-base font-semibold text-slate-900 dark:text-slate-100">
-                    ${financeSummary.nextPayout.amount.toFixed(2)}
-                  </span>
-                </div>
-
-                <div className="mt-3 flex flex-col gap-1 text-xs text-slate-500 dark:text-slate-400">
-                  {financeSummary.nextPayout.initiatedAtUtc && (
-                    <span>
-                      Initiated:&nbsp;
-                      <strong className="font-medium text-slate-700 dark:text-slate-300">
-                        {formatUtcToLocal(financeSummary.nextPayout.initiatedAtUtc, {
-                          day: '2-digit',
-                          month: 'short',
-                          hour: '2-digit',
-                          minute: '2-digit',
-                        })}
-                      </strong>
-                    </span>
-                  )}
-                  <span>Status: Pending</span>
-                </div>
-              </div>
-            )}
+        <LedgerPanel />
 
-            {financeSummary.previousPayout && (
-              <div className="rounded-lg border border-slate-100 bg-slate-50 p-4 dark:border-slate-700 dark:bg-slate-800">
-                <div className="flex items-start justify-between gap-3">
-                  <div className="space-y-1">
-                    <div className="flex items-center gap-2 text-sm font-semibold text-slate-800 dark:text-slate-200">
-                      <CalendarDays className="h-4 w-4 text-emerald-500 dark:text-emerald-400" />
-                      {financeSummary.previousPayout.reference}
-                    </div>
-                    <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500">Previous Payout</div>
-                  </div>
-                  <span className="text-base font-semibold text-slate-900 dark:text-slate-100">
-                    ${financeSummary.previousPayout.amount.toFixed(2)}
-                  </span>
-                </div>
-
-                <div className="mt-3 flex flex-col gap-1 text-xs text-slate-500 dark:text-slate-400">
-                  {financeSummary.previousPayout.settledAtUtc && (
-                    <span>
-                      Settled:&nbsp;
-                      <strong className="font-medium text-slate-700 dark:text-slate-300">
-                        {formatUtcToLocal(financeSummary.previousPayout.settledAtUtc, {
-                          day: '2-digit',
-                          month: 'short',
-                          hour: '2-digit',
-                          minute: '2-digit',
-                        })}
-                      </strong>
-                    </span>
-                  )}
-                  <span>Status: Completed</span>
-                </div>
-              </div>
-            )}
+        <SettlementHistoryPanel />
+      </div>
 
-            {!financeSummary.nextPayout && !financeSummary.previousPayout && (
-              <div className="text-center py-8 text-slate-500 dark:text-slate-400">No settlement history</div>
-            )}
-          </div>
-        </section>
+      <div className="grid gap-6 lg:grid-cols-2">
+        <TopUpHistoryPanel />
+        <AutoRechargePanel />
       </div>
       </div>
 
       <TopUpDialog
         isOpen={isTopUpDialogOpen}
-        onClose={() => setIsTopUpDialogOpen(false)}
+        onClose={handleTopUpClose}
         onTopUp={handleTopUp}
+        initialAmount={
+          Number.isFinite(requestedTopUp) && requestedTopUp > 0
+            ? requestedTopUp
+            : null
+        }
       />
 
       <SettlementDialog
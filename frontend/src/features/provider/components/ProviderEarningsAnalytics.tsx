@@ -0,0 +1,147 @@
+import { useMemo } from 'react';
+import { CalendarClock } from 'lucide-react';
+import { BarChart } from '../../../shared/components/BarChart';
+import { BreakdownBars } from '../../../shared/components/BreakdownBars';
+import {
+  buildTimeBuckets,
+  ratioByBucket,
+  sumByBucket,
+  type BucketGranularity
+} from '../../../shared/utils/timeBuckets';
+import { MINIMUM_SETTLEMENT_AMOUNT } from '../api/financeApi';
+import { useFinanceSummaryQuery } from '../queries/useFinanceSummaryQuery';
+import { useLedgerRangeQuery } from '../queries/useLedgerRangeQuery';
+import { useSubtaskHistoryQuery } from '../queries/useSubtaskHistoryQuery';
+import {
+  PROJECTION_WINDOW_DAYS,
+  isEarningEntry,
+  projectPayoutDate,
+  resolveSubtaskEarnings,
+  summarizeDeviceEarnings
+} from '../utils/earningsAnalytics';
+
+interface ProviderEarningsAnalyticsProps {
+  granularity: BucketGranularity;
+  now: Date;
+  /** ISO date from which ledger entries and subtask history are loaded. */
+  rangeStart: string;
+}
+
+const EURO_FORMATTER = new Intl.NumberFormat(undefined, {
+  style: 'currency',
+  currency: 'EUR'
+});
+
+const formatEuro = (value: number) => EURO_FORMATTER.format(value);
+
+export const ProviderEarningsAnalytics = ({ granularity, now, rangeStart }: ProviderEarningsAnalyticsProps) => {
+  const ledgerQuery = useLedgerRangeQuery(rangeStart);
+  const historyQuery = useSubtaskHistoryQuery(rangeStart);
+  const { data: financeSummary } = useFinanceSummaryQuery();
+
+  const buckets = useMemo(() => buildTimeBuckets(granularity, now), [granularity, now]);
+  const earningEntries = useMemo(() => (ledgerQuery.data ?? []).filter(isEarningEntry), [ledgerQuery.data]);
+  const completedSubtasks = useMemo(
+    () => (historyQuery.data ?? []).filter((subtask) => subtask.status === 'Completed'),
+    [historyQuery.data]
+  );
+
+  const earnings = sumByBucket(buckets, earningEntries, (entry) => entry.occurredAtUtc, (entry) => entry.amount);
+  const averagePerSubtask = ratioByBucket(
+    buckets,
+    completedSubtasks,
+    (subtask) => subtask.completedAtUtc,
+    resolveSubtaskEarnings,
+    () => 1
+  );
+  const deviceEarnings = summarizeDeviceEarnings(historyQuery.data ?? []);
+  const projection = financeSummary
+    ? projectPayoutDate(financeSummary.balance, ledgerQuery.data ?? [], now)
+    : null;
+  const periodLabel = granularity === 'day' ? 'per day' : 'per week';
+
+  return (
+    <div className="grid gap-6 xl:grid-cols-2">
+      <BarChart
+        title={`Earnings ${periodLabel}`}
+        description="Credits paid for completed subtasks"
+        summary={formatEuro(earnings.reduce((sum, value) => sum + value, 0))}
+        data={buckets.map((bucket, index) => ({ key: bucket.key, label: bucket.label, value: earnings[index] }))}
+        formatValue={formatEuro}
+        tone="emerald"
+        isLoading={ledgerQuery.isLoading}
+        isError={ledgerQuery.isError}
+        emptyMessage="No earnings in this period yet."
+      />
+
+      <BarChart
+        title="Average earnings per subtask"
+        description={`Mean payout of the subtasks completed ${periodLabel}`}
+        data={buckets.map((bucket, index) => ({
+          key: bucket.key,
+          label: bucket.label,
+          value: averagePerSubtask[index]
+        }))}
+        formatValue={formatEuro}
+        isLoading={historyQuery.isLoading}
+        isError={historyQuery.isError}
+        emptyMessage="No subtask was completed in this period."
+      />
+
+      <BreakdownBars
+        title="Earnings per device"
+        description="Busy hours are the time spent executing subtasks. A low rate per hour means the machine mostly sits idle."
+        items={deviceEarnings.map((device) => ({
+          key: device.deviceIdentifier,
+          label: <span className="font-mono text-xs">{device.deviceIdentifier}</span>,
+          value: device.earnings,
+          detail: `${device.completedSubtasks} subtasks · ${device.busyHours.toFixed(1)} h busy${
+            device.busyHours > 0 ? ` · ${formatEuro(device.earnings / device.busyHours)}/h` : ''
+          }`
+        }))}
+        formatValue={formatEuro}
+        isLoading={historyQuery.isLoading}
+        isError={historyQuery.isError}
+        emptyMessage="None of your devices completed a subtask in this period."
+      />
+
+      <section className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-700 dark:bg-slate-900">
+        <header className="flex items-start justify-between gap-3">
+          <div>
+            <h3 className="text-base font-semibold text-slate-900 dark:text-slate-100">Projected payout</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Settlements open at {formatEuro(MINIMUM_SETTLEMENT_AMOUNT)}, projected from the last{' '}
+              {PROJECTION_WINDOW_DAYS} days of earnings
+            </p>
+          </div>
+          <CalendarClock className="h-6 w-6 text-slate-300 dark:text-slate-600" />
+        </header>
+
+        {!projection || ledgerQuery.isLoading ? (
+          <div className="h-16 animate-pulse rounded-lg bg-slate-100 dark:bg-slate-800" />
+        ) : (
+          <div className="space-y-1">
+            <p className="text-2xl font-semibold text-slate-900 dark:text-slate-100">
+              {projection.remaining === 0
+                ? 'Eligible now'
+                : projection.eligibleAt
+                  ? projection.eligibleAt.toLocaleDateString(undefined, {
+                      day: 'numeric',
+                      month: 'long',
+                      year: 'numeric'
+                    })
+                  : 'Not projected'}
+            </p>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {projection.remaining === 0
+                ? 'Your balance covers the minimum. Request a settlement from Payments & Earnings.'
+                : projection.eligibleAt
+                  ? `${formatEuro(projection.remaining)} to go at ${formatEuro(projection.averageDailyEarnings)} per day.`
+                  : `Nothing was earned in the last ${PROJECTION_WINDOW_DAYS} days, so no date can be projected.`}
+            </p>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -1,15 +1,112 @@
 import { useState } from "react";
-import { Landmark } from "lucide-react";
+import { Landmark, Trash2 } from "lucide-react";
 import { DialogShell } from "../../../shared/components/DialogShell";
+import { describeError, isApiError } from "../../../shared/utils/apiError";
+import {
+  MINIMUM_SETTLEMENT_AMOUNT,
+  type CreateSettlementRequest,
+} from "../api/financeApi";
+import { useDeletePayoutMethodMutation } from "../mutations/useDeletePayoutMethodMutation";
+import { usePayoutMethodsQuery } from "../queries/usePayoutMethodsQuery";
+import {
+  SETTLEMENT_COUNTRIES,
+  normalizeBankAccount,
+  resolveBankFields,
+  resolveBankScheme,
+  validateBankAccount,
+  type BankAccountField,
+  type BankAccountValues,
+} from "../utils/bankAccountValidation";
 
 interface SettlementDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onSettle: (amount: number, country: string, bankAccountDetails: string) => Promise<void>;
+  onSettle: (request: CreateSettlementRequest) => Promise<void>;
   availableBalance: number;
 }
 
-const MIN_SETTLEMENT_AMOUNT = 30;
+const NEW_ACCOUNT = "new";
+
+type AccountDetailField = BankAccountField | "bankName" | "accountHolderName";
+
+type RejectedFields = Partial<
+  Record<AccountDetailField, { value: string; message: string }>
+>;
+
+const resolveSettlementError = (error: unknown) => {
+  if (isApiError(error, "insufficient_balance")) {
+    return "Your available balance changed and no longer covers this amount.";
+  }
+
+  return describeError(error, "Failed to create settlement");
+};
+
+const BANK_FIELD_INPUTS: Record<
+  BankAccountField,
+  {
+    label: string;
+    placeholder: string;
+    maxLength: number;
+    /** Applied on every keystroke; separators are dropped when validating. */
+    format: (value: string) => string;
+  }
+> = {
+  iban: {
+    label: "IBAN",
+    placeholder: "FR76 3000 6000 0112 3456 7890 189",
+    maxLength: 42,
+    format: (value) => value.toUpperCase(),
+  },
+  bic: {
+    label: "BIC/SWIFT Code",
+    placeholder: "BNPAFRPP",
+    maxLength: 11,
+    format: (value) => value.toUpperCase(),
+  },
+  routingNumber: {
+    label: "Routing Number",
+    placeholder: "021000021",
+    maxLength: 9,
+    format: (value) => value.replace(/\D/g, ""),
+  },
+  sortCode: {
+    label: "Sort Code",
+    placeholder: "12-34-56",
+    maxLength: 8,
+    format: (value) => value.replace(/[^\d-]/g, ""),
+  },
+  transitNumber: {
+    label: "Transit Number",
+    placeholder: "12345",
+    maxLength: 5,
+    format: (value) => value.replace(/\D/g, ""),
+  },
+  institutionNumber: {
+    label: "Institution Number",
+    placeholder: "001",
+    maxLength: 3,
+    format: (value) => value.replace(/\D/g, ""),
+  },
+  bsb: {
+    label: "BSB",
+    placeholder: "062-000",
+    maxLength: 7,
+    format: (value) => value.replace(/[^\d-]/g, ""),
+  },
+  accountNumber: {
+    label: "Account Number",
+    placeholder: "000123456789",
+    maxLength: 17,
+    format: (value) => value.replace(/\D/g, ""),
+  },
+};
+
+const INPUT_CLASS_NAME =
+  "w-full rounded-lg border px-4 py-2 text-slate-900 focus:outline-none focus:ring-2 dark:bg-slate-800 dark:text-slate-100";
+const VALID_INPUT_CLASS_NAME =
+  "border-slate-300 focus:border-emerald-500 focus:ring-emerald-500/20 dark:border-slate-700 dark:focus:border-emerald-600 dark:focus:ring-emerald-900/60";
+const INVALID_INPUT_CLASS_NAME =
+  "border-rose-400 focus:border-rose-500 focus:ring-rose-500/20 dark:border-rose-700 dark:focus:border-rose-600 dark:focus:ring-rose-900/60";
 
 export const SettlementDialog = ({
   isOpen,
@@ -21,21 +118,79 @@ export const SettlementDialog = ({
   const [country, setCountry] = useState("US");
   const [bankName, setBankName] = useState("");
   const [accountHolderName, setAccountHolderName] = useState("");
-  
-  // US ACH fields
-  const [accountNumber, setAccountNumber] = useState("");
-  const [routingNumber, setRoutingNumber] = useState("");
-  
-  // EU SEPA fields
-  const [iban, setIban] = useState("");
-  const [bic, setBic] = useState("");
-  
+  const [bankValues, setBankValues] = useState<BankAccountValues>({});
+  // Errors show once a field is left or the form is submitted, not while
+  // the first characters are typed.
+  const [touchedFields, setTouchedFields] = useState<
+    Partial<Record<AccountDetailField, boolean>>
+  >({});
+  const [submitAttempted, setSubmitAttempted] = useState(false);
+  // Details the backend rejected stay flagged until the value is edited.
+  const [rejectedFields, setRejectedFields] = useState<RejectedFields>({});
+
+  // `null` until the user picks, so the first saved method is preselected
+  // once the list loads.
+  const [methodChoice, setMethodChoice] = useState<string | null>(null);
+  const [savePayoutMethod, setSavePayoutMethod] = useState(true);
+
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const isEuCountry = ["AT", "BE", "BG", "HR", "CY", "CZ", "DK", "EE", "FI", "FR",
-    "DE", "GR", "HU", "IE", "IT", "LV", "LT", "LU", "MT", "NL",
-    "PL", "PT", "RO", "SK", "SI", "ES", "SE"].includes(country);
+  const { data: payoutMethods = [] } = usePayoutMethodsQuery(isOpen);
+  const deletePayoutMethodMutation = useDeletePayoutMethodMutation();
+  const selectedMethodId =
+    methodChoice ?? payoutMethods[0]?.payoutMethodId ?? NEW_ACCOUNT;
+  const isNewAccount = selectedMethodId === NEW_ACCOUNT;
+
+  const bankScheme = resolveBankScheme(country);
+  const bankFields = resolveBankFields(country);
+  const detailFields: AccountDetailField[] = [
+    "accountHolderName",
+    "bankName",
+    ...bankFields,
+  ];
+  const fieldValue = (field: AccountDetailField) =>
+    field === "accountHolderName"
+      ? accountHolderName
+      : field === "bankName"
+        ? bankName
+        : (bankValues[field] ?? "");
+  const detailErrors: Partial<Record<AccountDetailField, string>> = {
+    ...(accountHolderName.trim()
+      ? {}
+      : { accountHolderName: "Account holder name is required" }),
+    ...(bankName.trim() ? {} : { bankName: "Bank name is required" }),
+    ...validateBankAccount(country, bankValues),
+  };
+  detailFields.forEach((field) => {
+    const rejected = rejectedFields[field];
+    if (!detailErrors[field] && rejected?.value === fieldValue(field)) {
+      detailErrors[field] = rejected.message;
+    }
+  });
+
+  const visibleError = (field: AccountDetailField) =>
+    touchedFields[field] || submitAttempted ? detailErrors[field] : undefined;
+
+  const markTouched = (field: AccountDetailField) =>
+    setTouchedFields((current) => ({ ...current, [field]: true }));
+
+  const inputClassName = (field: AccountDetailField) =>
+    `${INPUT_CLASS_NAME} ${
+      visibleError(field) ? INVALID_INPUT_CLASS_NAME : VALID_INPUT_CLASS_NAME
+    }`;
+
+  const renderFieldError = (field: AccountDetailField) => {
+    const fieldError = visibleError(field);
+    return fieldError ? (
+      <p
+        id={`${field}-error`}
+        className="mt-1 text-xs text-rose-600 dark:text-rose-400"
+      >
+        {fieldError}
+      </p>
+    ) : null;
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -47,8 +202,8 @@ export const SettlementDialog = ({
       return;
     }
 
-    if (numAmount < MIN_SETTLEMENT_AMOUNT) {
-      setError(`Minimum settlement amount is $${MIN_SETTLEMENT_AMOUNT}`);
+    if (numAmount < MINIMUM_SETTLEMENT_AMOUNT) {
+      setError(`Minimum settlement amount is $${MINIMUM_SETTLEMENT_AMOUNT}`);
       return;
     }
 
@@ -59,54 +214,80 @@ export const SettlementDialog = ({
       return;
     }
 
-    if (!bankName || !accountHolderName) {
-      setError("Please fill in all required fields");
+    if (isNewAccount && Object.keys(detailErrors).length > 0) {
+      setSubmitAttempted(true);
+      setError("Please correct the highlighted bank details");
       return;
     }
 
-    // Validate country-specific fields
-    if (isEuCountry) {
-      if (!iban || !bic) {
-        setError("Please fill in IBAN and BIC/SWIFT");
-        return;
-      }
-    } else if (country === "US") {
-      if (!accountNumber || !routingNumber) {
-        setError("Please fill in account number and routing number");
-        return;
-      }
-    }
-
     setIsProcessing(true);
     try {
-      const bankAccountDetails = JSON.stringify({
-        bankName,
-        accountHolderName,
-        ...(isEuCountry ? { iban, bic } : { accountNumber, routingNumber })
-      });
+      if (isNewAccount) {
+        const bankAccountDetails = JSON.stringify({
+          bankName: bankName.trim(),
+          accountHolderName: accountHolderName.trim(),
+          ...normalizeBankAccount(country, bankValues),
+        });
 
-      await onSettle(numAmount, country, bankAccountDetails);
+        await onSettle({
+          amount: numAmount,
+          country,
+          bankAccountDetails,
+          savePayoutMethod,
+        });
+      } else {
+        await onSettle({ amount: numAmount, payoutMethodId: selectedMethodId });
+      }
 
       // Reset form and close
+      setMethodChoice(null);
+      setSavePayoutMethod(true);
       setAmount("");
       setCountry("US");
       setBankName("");
       setAccountHolderName("");
-      setAccountNumber("");
-      setRoutingNumber("");
-      setIban("");
-      setBic("");
+      setBankValues({});
+      setTouchedFields({});
+      setSubmitAttempted(false);
+      setRejectedFields({});
       onClose();
     } catch (err) {
-      setError(
-        err instanceof Error ? err.message : "Failed to create settlement"
-      );
+      if (isNewAccount && isApiError(err, "validation_failed")) {
+        const rejected: RejectedFields = {};
+        detailFields.forEach((field) => {
+          const message = err.fieldError(field);
+          if (message) {
+            rejected[field] = { value: fieldValue(field), message };
+          }
+        });
+
+        if (Object.keys(rejected).length > 0) {
+          setRejectedFields(rejected);
+          setSubmitAttempted(true);
+          setError("Please correct the highlighted bank details");
+          return;
+        }
+      }
+
+      setError(resolveSettlementError(err));
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const canSettle = availableBalance >= MIN_SETTLEMENT_AMOUNT;
+  const canSettle = availableBalance >= MINIMUM_SETTLEMENT_AMOUNT;
+
+  const handleDeletePayoutMethod = async (payoutMethodId: string) => {
+    setError(null);
+    try {
+      await deletePayoutMethodMutation.mutateAsync(payoutMethodId);
+      if (methodChoice === payoutMethodId) {
+        setMethodChoice(null);
+      }
+    } catch (err) {
+      setError(describeError(err, "Failed to remove payout method"));
+    }
+  };
 
   return (
     <DialogShell
@@ -119,7 +300,7 @@ export const SettlementDialog = ({
     >
       {!canSettle && (
         <div className="mb-4 rounded-lg bg-amber-50 border border-amber-200 p-3 text-sm text-amber-700 dark:bg-amber-950/50 dark:border-amber-900/50 dark:text-amber-400">
-          Minimum balance of ${MIN_SETTLEMENT_AMOUNT} required. Current balance:
+          Minimum balance of ${MINIMUM_SETTLEMENT_AMOUNT} required. Current balance:
           ${availableBalance.toFixed(2)}
         </div>
       )}
@@ -142,12 +323,12 @@ export const SettlementDialog = ({
             id="amount"
             type="number"
             step="0.01"
-            min={MIN_SETTLEMENT_AMOUNT}
+            min={MINIMUM_SETTLEMENT_AMOUNT}
             max={availableBalance}
             value={amount}
             onChange={(e) => setAmount(e.target.value)}
             className="w-full rounded-lg border border-slate-300 px-4 py-2 text-slate-900 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:focus:border-emerald-600 dark:focus:ring-emerald-900/60"
-            placeholder={`Min: ${MIN_SETTLEMENT_AMOUNT}`}
+            placeholder={`Min: ${MINIMUM_SETTLEMENT_AMOUNT}`}
             disabled={isProcessing || !canSettle}
             required
           />
@@ -161,167 +342,198 @@ export const SettlementDialog = ({
             Bank Account Details
           </h3>
 
-          <div className="space-y-3">
-            <div>
-              <label
-                htmlFor="country"
-                className="block text-sm font-medium text-slate-700 mb-1 dark:text-slate-300"
-              >
-                Country
-              </label>
-              <select
-                id="country"
-                value={country}
-                onChange={(e) => setCountry(e.target.value)}
-                className="w-full rounded-lg border border-slate-300 px-4 py-2 text-slate-900 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:focus:border-emerald-600 dark:focus:ring-emerald-900/60"
-                disabled={isProcessing || !canSettle}
-                required
-              >
-                <option value="US">United States</option>
-                <option value="FR">France</option>
-                <option value="DE">Germany</option>
-                <option value="IT">Italy</option>
-                <option value="ES">Spain</option>
-                <option value="NL">Netherlands</option>
-                <option value="BE">Belgium</option>
-                <option value="AT">Austria</option>
-                <option value="PT">Portugal</option>
-                <option value="IE">Ireland</option>
-                <option value="PL">Poland</option>
-                <option value="SE">Sweden</option>
-                <option value="DK">Denmark</option>
-                <option value="FI">Finland</option>
-                <option value="GR">Greece</option>
-              </select>
-            </div>
-
-            <div>
+          {payoutMethods.length > 0 ? (
+            <fieldset className="mb-4 space-y-2">
+              <legend className="sr-only">Pay out to</legend>
+              {payoutMethods.map((method) => (
+                <label
+                  key={method.payoutMethodId}
+                  className={`flex cursor-pointer items-center gap-3 rounded-lg border px-4 py-3 text-sm transition ${
+                    selectedMethodId === method.payoutMethodId
+                      ? "border-indigo-300 bg-indigo-50/60 dark:border-indigo-700 dark:bg-indigo-950/40"
+                      : "border-slate-200 hover:bg-slate-50 dark:border-slate-700 dark:hover:bg-slate-800"
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="payoutMethod"
+                    checked={selectedMethodId === method.payoutMethodId}
+                    onChange={() => setMethodChoice(method.payoutMethodId)}
+                    disabled={isProcessing || !canSettle}
+                    className="h-4 w-4 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span className="flex min-w-0 flex-1 flex-col">
+                    <span className="font-medium text-slate-800 dark:text-slate-200">
+                      {method.bankName} · {method.maskedAccount}
+                    </span>
+                    <span className="text-xs text-slate-500 dark:text-slate-400">
+                      {method.accountHolderName} · {method.country}
+                      {method.bic ? ` · ${method.bic}` : ""}
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={(event) => {
+                      event.preventDefault();
+                      void handleDeletePayoutMethod(method.payoutMethodId);
+                    }}
+                    disabled={isProcessing || deletePayoutMethodMutation.isPending}
+                    aria-label={`Remove ${method.bankName} ${method.maskedAccount}`}
+                    className="rounded-md p-1.5 text-slate-400 transition hover:bg-rose-50 hover:text-rose-600 disabled:opacity-50 dark:hover:bg-rose-950/40 dark:hover:text-rose-400"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </label>
+              ))}
               <label
-                htmlFor="accountHolderName"
-                className="block text-sm font-medium text-slate-700 mb-1 dark:text-slate-300"
+                className={`flex cursor-pointer items-center gap-3 rounded-lg border px-4 py-3 text-sm transition ${
+                  isNewAccount
+                    ? "border-indigo-300 bg-indigo-50/60 dark:border-indigo-700 dark:bg-indigo-950/40"
+                    : "border-slate-200 hover:bg-slate-50 dark:border-slate-700 dark:hover:bg-slate-800"
+                }`}
               >
-                Account Holder Name
+                <input
+                  type="radio"
+                  name="payoutMethod"
+                  checked={isNewAccount}
+                  onChange={() => setMethodChoice(NEW_ACCOUNT)}
+                  disabled={isProcessing || !canSettle}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="font-medium text-slate-800 dark:text-slate-200">
+                  Use another bank account
+                </span>
               </label>
-              <input
-                id="accountHolderName"
-                type="text"
-                value={accountHolderName}
-                onChange={(e) => setAccountHolderName(e.target.value)}
-                className="w-full rounded-lg border border-slate-300 px-4 py-2 text-slate-900 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:focus:border-emerald-600 dark:focus:ring-emerald-900/60"
-                placeholder="John Doe"
-                disabled={isProcessing || !canSettle}
-                required
-              />
-            </div>
+            </fieldset>
+          ) : null}
 
-            <div>
-              <label
-                htmlFor="bankName"
-                className="block text-sm font-medium text-slate-700 mb-1 dark:text-slate-300"
-              >
-                Bank Name
-              </label>
-              <input
-                id="bankName"
-                type="text"
-                value={bankName}
-                onChange={(e) => setBankName(e.target.value)}
-                className="w-full rounded-lg border border-slate-300 px-4 py-2 text-slate-900 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:focus:border-emerald-600 dark:focus:ring-emerald-900/60"
-                placeholder={isEuCountry ? "BNP Paribas" : "Bank of America"}
-                disabled={isProcessing || !canSettle}
-                required
-              />
-            </div>
+          {isNewAccount ? (
+            <div className="space-y-3">
+              <div>
+                <label
+                  htmlFor="country"
+                  className="block text-sm font-medium text-slate-700 mb-1 dark:text-slate-300"
+                >
+                  Country
+                </label>
+                <select
+                  id="country"
+                  value={country}
+                  onChange={(e) => setCountry(e.target.value)}
+                  className={`${INPUT_CLASS_NAME} ${VALID_INPUT_CLASS_NAME}`}
+                  disabled={isProcessing || !canSettle}
+                  required
+                >
+                  {SETTLEMENT_COUNTRIES.map((option) => (
+                    <option key={option.code} value={option.code}>
+                      {option.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
 
-            {isEuCountry ? (
-              <>
-                <div>
-                  <label
-                    htmlFor="iban"
-                    className="block text-sm font-medium text-slate-700 mb-1 dark:text-slate-300"
-                  >
-                    IBAN
-                  </label>
-                  <input
-                    id="iban"
-                    type="text"
-                    value={iban}
-                    onChange={(e) => setIban(e.target.value.toUpperCase())}
-                    className="w-full rounded-lg border border-slate-300 px-4 py-2 text-slate-900 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:focus:border-emerald-600 dark:focus:ring-emerald-900/60"
-                    placeholder="FR7612345678901234567890123"
-                    disabled={isProcessing || !canSettle}
-                    required
-                  />
-                </div>
+              <div>
+                <label
+                  htmlFor="accountHolderName"
+                  className="block text-sm font-medium text-slate-700 mb-1 dark:text-slate-300"
+                >
+                  Account Holder Name
+                </label>
+                <input
+                  id="accountHolderName"
+                  type="text"
+                  value={accountHolderName}
+                  onChange={(e) => setAccountHolderName(e.target.value)}
+                  onBlur={() => markTouched("accountHolderName")}
+                  aria-invalid={!!visibleError("accountHolderName")}
+                  aria-describedby="accountHolderName-error"
+                  className={inputClassName("accountHolderName")}
+                  placeholder="John Doe"
+                  disabled={isProcessing || !canSettle}
+                  required
+                />
+                {renderFieldError("accountHolderName")}
+              </div>
 
-                <div>
-                  <label
-                    htmlFor="bic"
-                    className="block text-sm font-medium text-slate-700 mb-1 dark:text-slate-300"
-                  >
-                    BIC/SWIFT Code
-                  </label>
-                  <input
-                    id="bic"
-                    type="text"
-                    value={bic}
-                    onChange={(e) => setBic(e.target.value.toUpperCase())}
-                    maxLength={11}
-                    className="w-full rounded-lg border border-slate-300 px-4 py-2 text-slate-900 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:focus:border-emerald-600 dark:focus:ring-emerald-900/60"
-                    placeholder="BNPAFRPP"
-                    disabled={isProcessing || !canSettle}
-                    required
-                  />
-                </div>
-              </>
-            ) : (
-              <div className="grid grid-cols-2 gap-3">
-                <div>
-                  <label
-                    htmlFor="routingNumber"
-                    className="block text-sm font-medium text-slate-700 mb-1 dark:text-slate-300"
-                  >
-                    Routing Number
-                  </label>
-                  <input
-                    id="routingNumber"
-                    type="text"
-                    value={routingNumber}
-                    onChange={(e) =>
-                      setRoutingNumber(e.target.value.replace(/\D/g, ""))
-                    }
-                    maxLength={9}
-                    className="w-full rounded-lg border border-slate-300 px-4 py-2 text-slate-900 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:focus:border-emerald-600 dark:focus:ring-emerald-900/60"
-                    placeholder="123456789"
-                    disabled={isProcessing || !canSettle}
-                    required
-                  />
-                </div>
+              <div>
+                <label
+                  htmlFor="bankName"
+                  className="block text-sm font-medium text-slate-700 mb-1 dark:text-slate-300"
+                >
+                  Bank Name
+                </label>
+                <input
+                  id="bankName"
+                  type="text"
+                  value={bankName}
+                  onChange={(e) => setBankName(e.target.value)}
+                  onBlur={() => markTouched("bankName")}
+                  aria-invalid={!!visibleError("bankName")}
+                  aria-describedby="bankName-error"
+                  className={inputClassName("bankName")}
+                  placeholder={
+                    bankScheme === "Iban" ? "BNP Paribas" : "Bank of America"
+                  }
+                  disabled={isProcessing || !canSettle}
+                  required
+                />
+                {renderFieldError("bankName")}
+              </div>
 
-                <div>
-                  <label
-                    htmlFor="accountNumber"
-                    className="block text-sm font-medium text-slate-700 mb-1 dark:text-slate-300"
-                  >
-                    Account Number
-                  </label>
-                  <input
-                    id="accountNumber"
-                    type="text"
-                    value={accountNumber}
-                    onChange={(e) =>
-                      setAccountNumber(e.target.value.replace(/\D/g, ""))
-                    }
-                    maxLength={17}
-                    className="w-full rounded-lg border border-slate-300 px-4 py-2 text-slate-900 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:focus:border-emerald-600 dark:focus:ring-emerald-900/60"
-                    placeholder="000123456789"
-                    disabled={isProcessing || !canSettle}
-                    required
-                  />
-                </div>
+              <div
+                className={
+                  bankScheme === "Iban" ? "space-y-3" : "grid grid-cols-2 gap-3"
+                }
+              >
+                {bankFields.map((field) => {
+                  const input = BANK_FIELD_INPUTS[field];
+                  return (
+                    <div key={field}>
+                      <label
+                        htmlFor={field}
+                        className="block text-sm font-medium text-slate-700 mb-1 dark:text-slate-300"
+                      >
+                        {input.label}
+                      </label>
+                      <input
+                        id={field}
+                        type="text"
+                        value={bankValues[field] ?? ""}
+                        onChange={(e) =>
+                          setBankValues((current) => ({
+                            ...current,
+                            [field]: input.format(e.target.value),
+                          }))
+                        }
+                        onBlur={() => markTouched(field)}
+                        aria-invalid={!!visibleError(field)}
+                        aria-describedby={`${field}-error`}
+                        maxLength={input.maxLength}
+                        autoComplete="off"
+                        spellCheck={false}
+                        className={inputClassName(field)}
+                        placeholder={input.placeholder}
+                        disabled={isProcessing || !canSettle}
+                        required
+                      />
+                      {renderFieldError(field)}
+                    </div>
+                  );
+                })}
               </div>
-            )}
-          </div>
+
+              <label className="inline-flex cursor-pointer items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={savePayoutMethod}
+                  onChange={(e) => setSavePayoutMethod(e.target.checked)}
+                  disabled={isProcessing || !canSettle}
+                  className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500 dark:border-slate-600"
+                />
+                Save this account for future payouts
+              </label>
+            </div>
+          ) : null}
         </div>
 
         <div className="pt-4 flex gap-3">
@@ -346,8 +558,9 @@ export const SettlementDialog = ({
       <div className="mt-4 rounded-lg bg-slate-50 p-3 text-xs text-slate-600 dark:bg-slate-800 dark:text-slate-400">
         <p className="font-medium mb-1">Settlement Processing</p>
         <p>
-          Funds will be transferred to your bank account within 1-2 business
-          days.
+          Settlements are reviewed before the transfer starts and can be
+          cancelled until then. Funds reach your bank account within 1-2
+          business days of approval.
         </p>
       </div>
     </DialogShell>
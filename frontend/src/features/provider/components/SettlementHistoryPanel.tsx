@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Banknote, CalendarDays, Landmark, XCircle } from 'lucide-react';
+import { formatUtcToLocal } from '../../../shared/utils/dateTime';
+import type { SettlementDto, SettlementStatus } from '../api/financeApi';
+import { useCancelSettlementMutation } from '../mutations/useCancelSettlementMutation';
+import { useSettlementsQuery } from '../queries/useSettlementsQuery';
+
+const SETTLEMENT_STATUS_DISPLAY: Record<SettlementStatus, { badgeClass: string; indicatorClass: string }> = {
+  Pending: {
+    badgeClass: 'border-amber-200 bg-amber-50 text-amber-700 dark:border-amber-900 dark:bg-amber-950/50 dark:text-amber-400',
+    indicatorClass: 'bg-amber-500 dark:bg-amber-400'
+  },
+  Processing: {
+    badgeClass:
+      'border-indigo-200 bg-indigo-50 text-indigo-700 dark:border-indigo-900 dark:bg-indigo-950/50 dark:text-indigo-400',
+    indicatorClass: 'bg-indigo-500 dark:bg-indigo-400'
+  },
+  Completed: {
+    badgeClass:
+      'border-emerald-200 bg-emerald-50 text-emerald-700 dark:border-emerald-900 dark:bg-emerald-950/50 dark:text-emerald-400',
+    indicatorClass: 'bg-emerald-500 dark:bg-emerald-400'
+  },
+  Failed: {
+    badgeClass: 'border-rose-200 bg-rose-50 text-rose-700 dark:border-rose-900 dark:bg-rose-950/50 dark:text-rose-400',
+    indicatorClass: 'bg-rose-500 dark:bg-rose-400'
+  },
+  Cancelled: {
+    badgeClass: 'border-slate-200 bg-slate-50 text-slate-600 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-400',
+    indicatorClass: 'bg-slate-400 dark:bg-slate-500'
+  }
+};
+
+const EURO_FORMATTER = new Intl.NumberFormat(undefined, {
+  style: 'currency',
+  currency: 'EUR'
+});
+
+const formatTimestamp = (utcDate: string) =>
+  formatUtcToLocal(utcDate, {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+interface SettlementHistoryItemProps {
+  settlement: SettlementDto;
+}
+
+const SettlementHistoryItem = ({ settlement }: SettlementHistoryItemProps) => {
+  const [confirmCancel, setConfirmCancel] = useState(false);
+  const cancelMutation = useCancelSettlementMutation();
+  const display = SETTLEMENT_STATUS_DISPLAY[settlement.status];
+
+  const handleCancel = async () => {
+    if (!confirmCancel) {
+      setConfirmCancel(true);
+      return;
+    }
+
+    try {
+      await cancelMutation.mutateAsync(settlement.settlementId);
+    } catch (error) {
+      console.error('Settlement cancellation failed:', error);
+    } finally {
+      setConfirmCancel(false);
+    }
+  };
+
+  return (
+    <li className="rounded-lg border border-slate-100 bg-slate-50 p-4 dark:border-slate-700 dark:bg-slate-800">
+      <div className="flex items-start justify-between gap-3">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-sm font-semibold text-slate-800 dark:text-slate-200">
+            <CalendarDays className="h-4 w-4 text-indigo-500 dark:text-indigo-400" />
+            {settlement.reference}
+          </div>
+          <span
+            className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-medium ${display.badgeClass}`}
+          >
+            {settlement.status}
+          </span>
+        </div>
+        <span className="text-base font-semibold text-slate-900 dark:text-slate-100">
+          {EURO_FORMATTER.format(settlement.amount)}
+        </span>
+      </div>
+
+      {settlement.payoutMethod && (
+        <div className="mt-3 flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+          <Landmark className="h-3.5 w-3.5" />
+          <span>
+            {settlement.payoutMethod.bankName} ·{' '}
+            <span className="font-mono">{settlement.payoutMethod.maskedAccount}</span>
+          </span>
+        </div>
+      )}
+
+      <ol className="mt-3 space-y-2 border-l border-slate-200 pl-4 dark:border-slate-700">
+        {settlement.transitions.map((transition) => (
+          <li key={`${transition.status}-${transition.occurredAtUtc}`} className="relative text-xs">
+            <span
+              className={`absolute -left-[21px] top-1 h-2 w-2 rounded-full ${
+                SETTLEMENT_STATUS_DISPLAY[transition.status].indicatorClass
+              }`}
+            />
+            <span className="font-medium text-slate-700 dark:text-slate-300">{transition.status}</span>
+            <span className="text-slate-400 dark:text-slate-500"> · {formatTimestamp(transition.occurredAtUtc)}</span>
+            {transition.reason && <p className="text-slate-500 dark:text-slate-400">{transition.reason}</p>}
+          </li>
+        ))}
+      </ol>
+
+      {settlement.status === 'Failed' && settlement.failureReason && (
+        <p className="mt-3 rounded-md bg-rose-50 px-3 py-2 text-xs text-rose-700 dark:bg-rose-950/50 dark:text-rose-400">
+          {settlement.failureReason}
+        </p>
+      )}
+
+      {settlement.status === 'Pending' && (
+        <div className="mt-3 flex items-center justify-end gap-2">
+          {confirmCancel && (
+            <button
+              type="button"
+              onClick={() => setConfirmCancel(false)}
+              disabled={cancelMutation.isPending}
+              className="rounded-md px-3 py-1.5 text-xs font-medium text-slate-600 transition hover:bg-slate-100 disabled:opacity-50 dark:text-slate-400 dark:hover:bg-slate-700"
+            >
+              Keep
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleCancel}
+            disabled={cancelMutation.isPending}
+            className="inline-flex items-center gap-1.5 rounded-md border border-rose-200 px-3 py-1.5 text-xs font-medium text-rose-600 transition hover:bg-rose-50 disabled:opacity-50 dark:border-rose-900 dark:text-rose-400 dark:hover:bg-rose-950/50"
+          >
+            <XCircle className="h-3.5 w-3.5" />
+            {cancelMutation.isPending ? 'Cancelling...' : confirmCancel ? 'Confirm cancellation' : 'Cancel settlement'}
+          </button>
+        </div>
+      )}
+      {cancelMutation.isError && (
+        <p className="mt-2 text-right text-xs text-rose-600 dark:text-rose-400">
+          Unable to cancel this settlement. It may already be processing.
+        </p>
+      )}
+    </li>
+  );
+};
+
+export const SettlementHistoryPanel = () => {
+  const { data: settlements, isLoading, isError } = useSettlementsQuery();
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <div className="space-y-3">
+          {[0, 1].map((index) => (
+            <div key={index} className="h-24 animate-pulse rounded-lg bg-slate-100 dark:bg-slate-800" />
+          ))}
+        </div>
+      );
+    }
+
+    if (isError || !settlements) {
+      return (
+        <div className="py-8 text-center text-sm text-rose-600 dark:text-rose-400">
+          Unable to load settlements. Please retry shortly.
+        </div>
+      );
+    }
+
+    if (settlements.length === 0) {
+      return <div className="py-8 text-center text-slate-500 dark:text-slate-400">No settlement history</div>;
+    }
+
+    return (
+      <ul className="max-h-[32rem] space-y-4 overflow-y-auto pr-1">
+        {settlements.map((settlement) => (
+          <SettlementHistoryItem key={settlement.settlementId} settlement={settlement} />
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-700 dark:bg-slate-900">
+      <header className="flex items-center justify-between">
+        <div>
+          <span className="text-sm font-semibold uppercase tracking-wide text-indigo-500 dark:text-indigo-400">Payouts</span>
+          <h3 className="text-xl font-semibold text-slate-900 dark:text-slate-100">Settlement history</h3>
+        </div>
+        <Banknote className="h-6 w-6 text-slate-300 dark:text-slate-600" />
+      </header>
+
+      {renderBody()}
+    </section>
+  );
+};
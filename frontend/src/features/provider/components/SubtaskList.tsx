@@ -10,7 +10,7 @@ import { getRelativeTime } from "../../../shared/utils/dateTime";
 const SUBTASK_STATE_DISPLAY: Record<
   SubtaskStatus,
   {
-    label: "In Progress" | "Failed" | "Succeeded";
+    label: "In Progress" | "Failed" | "Succeeded" | "Cancelled";
     badgeClass: string;
     indicatorClass: string;
   }
@@ -40,6 +40,11 @@ const SUBTASK_STATE_DISPLAY: Record<
     badgeClass: "border-rose-200 bg-rose-50 text-rose-700 dark:border-rose-900 dark:bg-rose-950/50 dark:text-rose-400",
     indicatorClass: "bg-rose-500 dark:bg-rose-400",
   },
+  Cancelled: {
+    label: "Cancelled",
+    badgeClass: "border-slate-200 bg-slate-50 text-slate-600 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-400",
+    indicatorClass: "bg-slate-400 dark:bg-slate-500",
+  },
 };
 
 interface SubtaskListProps {
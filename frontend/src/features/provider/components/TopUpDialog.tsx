@@ -1,61 +1,77 @@
 import { useState, useEffect, useRef } from "react";
-import { CreditCard } from "lucide-react";
+import { CreditCard, Trash2 } from "lucide-react";
 import { DialogShell } from "../../../shared/components/DialogShell";
-
-// Stripe publishable key from environment variables
-const STRIPE_PUBLISHABLE_KEY = import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY;
-
-declare global {
-  interface Window {
-    Stripe: any;
-  }
-}
+import type { TopUpRequest } from "../api/financeApi";
+import { useDeletePaymentMethodMutation } from "../mutations/useDeletePaymentMethodMutation";
+import { resolveStripeClient } from "../payments/stripeClient";
+import type { StripeCardElement, StripeClient } from "../payments/types";
+import { usePaymentMethodsQuery } from "../queries/usePaymentMethodsQuery";
 
 interface TopUpDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onTopUp: (amount: number, paymentMethodId: string) => Promise<void>;
+  onTopUp: (request: TopUpRequest) => Promise<void>;
+  /** Prefills the amount, e.g. the shortfall of a blocked task submission. */
+  initialAmount?: number | null;
 }
 
-export const TopUpDialog = ({ isOpen, onClose, onTopUp }: TopUpDialogProps) => {
-  const [amount, setAmount] = useState("");
+const NEW_CARD = "new";
+
+export const TopUpDialog = ({
+  isOpen,
+  onClose,
+  onTopUp,
+  initialAmount,
+}: TopUpDialogProps) => {
+  const [amount, setAmount] = useState(() =>
+    initialAmount ? initialAmount.toFixed(2) : ""
+  );
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [stripe, setStripe] = useState<any>(null);
-  const [cardElement, setCardElement] = useState<any>(null);
+  const [stripe, setStripe] = useState<StripeClient | null>(null);
+  // `null` until the user picks, so the first saved card is preselected
+  // once the list loads.
+  const [methodChoice, setMethodChoice] = useState<string | null>(null);
+  const [savePaymentMethod, setSavePaymentMethod] = useState(true);
   const cardElementRef = useRef<HTMLDivElement>(null);
+  const cardRef = useRef<StripeCardElement | null>(null);
+
+  const { data: paymentMethods = [] } = usePaymentMethodsQuery(isOpen);
+  const deletePaymentMethodMutation = useDeletePaymentMethodMutation();
+  const selectedMethodId =
+    methodChoice ?? paymentMethods[0]?.paymentMethodId ?? NEW_CARD;
+  const isNewCard = selectedMethodId === NEW_CARD;
 
-  // Initialize Stripe
+  // Load Stripe.js the first time the dialog opens
   useEffect(() => {
-    if (!window.Stripe) {
-      console.error("Stripe.js not loaded");
-      return;
-    }
+    if (!isOpen || stripe) return;
 
-    const stripeInstance = window.Stripe(STRIPE_PUBLISHABLE_KEY);
-    setStripe(stripeInstance);
+    let cancelled = false;
+    resolveStripeClient()
+      .then((client) => {
+        if (!cancelled) {
+          setStripe(client);
+        }
+      })
+      .catch((err) => {
+        console.error("Stripe.js not loaded", err);
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Stripe is not initialized"
+          );
+        }
+      });
 
     return () => {
-      if (cardElement) {
-        cardElement.destroy();
-      }
+      cancelled = true;
     };
-  }, []);
+  }, [isOpen, stripe]);
 
-  // Create Stripe Elements when dialog opens
+  // Create the card element while a new card is being entered
   useEffect(() => {
-    if (!stripe || !isOpen || !cardElementRef.current) return;
-
-    // Clear any existing element
-    if (cardElement) {
-      cardElement.destroy();
-    }
+    if (!stripe || !isOpen || !isNewCard || !cardElementRef.current) return;
 
-    // Create Elements instance
-    const elements = stripe.elements();
-
-    // Create Card Element with custom styling
-    const card = elements.create("card", {
+    const card = stripe.elements().create("card", {
       style: {
         base: {
           fontSize: "16px",
@@ -72,62 +88,70 @@ export const TopUpDialog = ({ isOpen, onClose, onTopUp }: TopUpDialogProps) => {
       hidePostalCode: true,
     });
 
-    // Mount the card element
     card.mount(cardElementRef.current);
-    setCardElement(card);
+    cardRef.current = card;
 
     // Listen for validation errors
-    card.on("change", (event: any) => {
-      if (event.error) {
-        setError(event.error.message);
-      } else {
-        setError(null);
-      }
+    card.on("change", (event) => {
+      setError(event.error?.message ?? null);
     });
 
     return () => {
-      card.unmount();
+      card.destroy();
+      cardRef.current = null;
     };
-  }, [stripe, isOpen]);
+  }, [stripe, isOpen, isNewCard]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
 
-    if (!stripe || !cardElement) {
-      setError("Stripe is not initialized");
-      return;
-    }
-
     const numAmount = parseFloat(amount);
     if (isNaN(numAmount) || numAmount <= 0) {
       setError("Please enter a valid amount");
       return;
     }
 
+    const card = cardRef.current;
+    if (isNewCard && (!stripe || !card)) {
+      setError("Stripe is not initialized");
+      return;
+    }
+
     setIsProcessing(true);
     try {
-      // Create payment method with Stripe Elements
-      const { paymentMethod, error: stripeError } =
-        await stripe.createPaymentMethod({
-          type: "card",
-          card: cardElement,
-        });
+      if (isNewCard && stripe && card) {
+        // Tokenize the card with Stripe Elements; the number never reaches us
+        const { paymentMethod, error: stripeError } =
+          await stripe.createPaymentMethod({ type: "card", card });
 
-      if (stripeError) {
-        throw new Error(stripeError.message);
-      }
+        if (stripeError) {
+          throw new Error(stripeError.message);
+        }
 
-      if (!paymentMethod) {
-        throw new Error("Failed to create payment method");
-      }
+        if (!paymentMethod) {
+          throw new Error("Failed to create payment method");
+        }
 
-      // Send to backend - backend will handle 3D Secure confirmation if needed
-      await onTopUp(numAmount, paymentMethod.id);
+        await onTopUp({
+          amount: numAmount,
+          stripePaymentMethodId: paymentMethod.id,
+          savePaymentMethod,
+        });
+        card.clear();
+      } else {
+        // Saved cards are already on the Stripe customer
+        await onTopUp({
+          amount: numAmount,
+          stripePaymentMethodId: selectedMethodId,
+          savePaymentMethod: false,
+        });
+      }
 
       // Reset form and close
       setAmount("");
-      cardElement.clear();
+      setMethodChoice(null);
+      setSavePaymentMethod(true);
       onClose();
     } catch (err) {
       setError(
@@ -138,6 +162,20 @@ export const TopUpDialog = ({ isOpen, onClose, onTopUp }: TopUpDialogProps) => {
     }
   };
 
+  const handleDeletePaymentMethod = async (paymentMethodId: string) => {
+    setError(null);
+    try {
+      await deletePaymentMethodMutation.mutateAsync(paymentMethodId);
+      if (methodChoice === paymentMethodId) {
+        setMethodChoice(null);
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to remove the card"
+      );
+    }
+  };
+
   return (
     <DialogShell
       badgeIcon={<CreditCard className="h-5 w-5 text-indigo-600" />}
@@ -175,19 +213,97 @@ export const TopUpDialog = ({ isOpen, onClose, onTopUp }: TopUpDialogProps) => {
           />
         </div>
 
-        <div>
-          <label className="block text-sm font-medium text-slate-700 mb-1 dark:text-slate-300">
-            Card Information
-          </label>
-          <div
-            ref={cardElementRef}
-            className="w-full rounded-lg border border-slate-300 px-4 py-3 bg-white dark:border-slate-700 dark:bg-slate-800"
-            style={{ minHeight: "40px" }}
-          />
-          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
-            Supports 3D Secure authentication for enhanced security
-          </p>
-        </div>
+        {paymentMethods.length > 0 ? (
+          <fieldset className="space-y-2">
+            <legend className="block text-sm font-medium text-slate-700 mb-1 dark:text-slate-300">
+              Pay with
+            </legend>
+            {paymentMethods.map((method) => (
+              <label
+                key={method.paymentMethodId}
+                className={`flex cursor-pointer items-center gap-3 rounded-lg border px-4 py-3 text-sm transition ${
+                  selectedMethodId === method.paymentMethodId
+                    ? "border-indigo-300 bg-indigo-50/60 dark:border-indigo-700 dark:bg-indigo-950/40"
+                    : "border-slate-200 hover:bg-slate-50 dark:border-slate-700 dark:hover:bg-slate-800"
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="paymentMethod"
+                  checked={selectedMethodId === method.paymentMethodId}
+                  onChange={() => setMethodChoice(method.paymentMethodId)}
+                  disabled={isProcessing}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="flex min-w-0 flex-1 flex-col">
+                  <span className="font-medium capitalize text-slate-800 dark:text-slate-200">
+                    {method.brand} •••• {method.last4}
+                  </span>
+                  <span className="text-xs text-slate-500 dark:text-slate-400">
+                    Expires {String(method.expMonth).padStart(2, "0")}/
+                    {method.expYear}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={(event) => {
+                    event.preventDefault();
+                    void handleDeletePaymentMethod(method.paymentMethodId);
+                  }}
+                  disabled={
+                    isProcessing || deletePaymentMethodMutation.isPending
+                  }
+                  aria-label={`Remove ${method.brand} ending in ${method.last4}`}
+                  className="rounded-md p-1.5 text-slate-400 transition hover:bg-rose-50 hover:text-rose-600 disabled:opacity-50 dark:hover:bg-rose-950/40 dark:hover:text-rose-400"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </label>
+            ))}
+            <label
+              className={`flex cursor-pointer items-center gap-3 rounded-lg border px-4 py-3 text-sm transition ${
+                isNewCard
+                  ? "border-indigo-300 bg-indigo-50/60 dark:border-indigo-700 dark:bg-indigo-950/40"
+                  : "border-slate-200 hover:bg-slate-50 dark:border-slate-700 dark:hover:bg-slate-800"
+              }`}
+            >
+              <input
+                type="radio"
+                name="paymentMethod"
+                checked={isNewCard}
+                onChange={() => setMethodChoice(NEW_CARD)}
+                disabled={isProcessing}
+                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500"
+              />
+              <span className="font-medium text-slate-800 dark:text-slate-200">
+                Use a new card
+              </span>
+            </label>
+          </fieldset>
+        ) : null}
+
+        {isNewCard ? (
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700 mb-1 dark:text-slate-300">
+              Card Information
+            </label>
+            <div
+              ref={cardElementRef}
+              className="w-full rounded-lg border border-slate-300 px-4 py-3 bg-white dark:border-slate-700 dark:bg-slate-800"
+              style={{ minHeight: "40px" }}
+            />
+            <label className="inline-flex cursor-pointer items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={savePaymentMethod}
+                onChange={(e) => setSavePaymentMethod(e.target.checked)}
+                disabled={isProcessing}
+                className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500 dark:border-slate-600"
+              />
+              Save this card for future and automatic top-ups
+            </label>
+          </div>
+        ) : null}
 
         <div className="pt-4 flex gap-3">
           <button
@@ -212,7 +328,8 @@ export const TopUpDialog = ({ isOpen, onClose, onTopUp }: TopUpDialogProps) => {
         <p className="font-medium mb-1">🔒 Secure Payment with 3D Secure</p>
         <p>
           Your payment information is encrypted and never touches our servers.
-          Protected by Stripe with 3D Secure authentication.
+          If your bank asks for 3D Secure authentication, its confirmation
+          window opens before the funds are added.
         </p>
       </div>
     </DialogShell>
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { ExternalLink, Printer, Receipt, RefreshCw } from 'lucide-react';
+import { useAuthStore } from '../../auth/stores/authStore';
+import { formatUtcToLocal } from '../../../shared/utils/dateTime';
+import type { TopUpDto } from '../api/financeApi';
+import { useTopUpsQuery } from '../queries/useTopUpsQuery';
+import { printTopUpInvoice } from '../utils/topUpInvoice';
+
+const TOP_UP_STATUS_CLASSES: Record<TopUpDto['status'], string> = {
+  Succeeded: 'text-emerald-600 dark:text-emerald-400',
+  Pending: 'text-amber-600 dark:text-amber-400',
+  Failed: 'text-rose-600 dark:text-rose-400',
+  Refunded: 'text-slate-500 dark:text-slate-400'
+};
+
+const EURO_FORMATTER = new Intl.NumberFormat(undefined, {
+  style: 'currency',
+  currency: 'EUR'
+});
+
+const linkClassName =
+  'inline-flex items-center gap-1 text-xs font-medium text-indigo-600 transition hover:text-indigo-700 disabled:cursor-not-allowed disabled:opacity-50 dark:text-indigo-400 dark:hover:text-indigo-300';
+
+export const TopUpHistoryPanel = () => {
+  const { data: topUps, isLoading, isError } = useTopUpsQuery();
+  const billedTo = useAuthStore((state) => state.user?.email ?? null);
+  const [printError, setPrintError] = useState<string | null>(null);
+
+  const handlePrint = (topUp: TopUpDto) => {
+    setPrintError(printTopUpInvoice(topUp, billedTo) ? null : 'Allow pop-ups for this site to print the invoice.');
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <div className="h-24 animate-pulse rounded-lg bg-slate-100 dark:bg-slate-800" />;
+    }
+
+    if (isError || !topUps) {
+      return (
+        <div className="py-8 text-center text-sm text-rose-600 dark:text-rose-400">
+          Unable to load top-ups. Please retry shortly.
+        </div>
+      );
+    }
+
+    if (topUps.length === 0) {
+      return <div className="py-8 text-center text-slate-500 dark:text-slate-400">No top-ups yet</div>;
+    }
+
+    return (
+      <ul className="max-h-80 divide-y divide-slate-100 overflow-y-auto pr-1 dark:divide-slate-800">
+        {topUps.map((topUp) => (
+          <li key={topUp.paymentId} className="flex items-start justify-between gap-3 py-3">
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2 text-sm font-semibold text-slate-800 dark:text-slate-200">
+                {topUp.isAutoRecharge && (
+                  <RefreshCw className="h-3.5 w-3.5 text-indigo-500 dark:text-indigo-400" aria-label="Auto-recharge" />
+                )}
+                {topUp.invoiceNumber}
+              </div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">
+                {formatUtcToLocal(topUp.createdAtUtc, {
+                  day: '2-digit',
+                  month: 'short',
+                  year: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit'
+                })}
+                {topUp.cardLast4 ? ` · ${topUp.cardBrand ?? 'Card'} •••• ${topUp.cardLast4}` : ''}
+                {' · '}
+                <span className={TOP_UP_STATUS_CLASSES[topUp.status]}>{topUp.status}</span>
+              </div>
+              <div className="flex flex-wrap gap-3 pt-1">
+                <button
+                  type="button"
+                  onClick={() => handlePrint(topUp)}
+                  disabled={topUp.status !== 'Succeeded' && topUp.status !== 'Refunded'}
+                  className={linkClassName}
+                >
+                  <Printer className="h-3.5 w-3.5" />
+                  Invoice
+                </button>
+                {topUp.receiptUrl && (
+                  <a href={topUp.receiptUrl} target="_blank" rel="noopener noreferrer" className={linkClassName}>
+                    <ExternalLink className="h-3.5 w-3.5" />
+                    Receipt
+                  </a>
+                )}
+              </div>
+            </div>
+            <span className="text-base font-semibold text-slate-900 dark:text-slate-100">
+              {EURO_FORMATTER.format(topUp.amount)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-700 dark:bg-slate-900">
+      <header className="flex items-center justify-between">
+        <div>
+          <span className="text-sm font-semibold uppercase tracking-wide text-indigo-500 dark:text-indigo-400">Top-ups</span>
+          <h3 className="text-xl font-semibold text-slate-900 dark:text-slate-100">Receipts & invoices</h3>
+        </div>
+        <Receipt className="h-6 w-6 text-slate-300 dark:text-slate-600" />
+      </header>
+
+      {printError && <p className="text-xs text-rose-600 dark:text-rose-400">{printError}</p>}
+      {renderBody()}
+    </section>
+  );
+};
@@ -1,4 +1,5 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isApiError } from '../../../shared/utils/apiError';
 import { acceptSubtask } from '../api';
 import { invalidateAvailableSubtasksKey } from '../queries/useAvailableSubtasksQuery';
 import { invalidateDeviceSubtasksKey } from '../queries/useDeviceSubtasksQuery';
@@ -11,6 +12,12 @@ export const useAcceptSubtaskMutation = () => {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: invalidateAvailableSubtasksKey });
       queryClient.invalidateQueries({ queryKey: invalidateDeviceSubtasksKey });
+    },
+    onError: (error) => {
+      // Another provider won the race; drop the stale offer from the list.
+      if (isApiError(error, 'subtask_unavailable', 'conflict', 'not_found')) {
+        queryClient.invalidateQueries({ queryKey: invalidateAvailableSubtasksKey });
+      }
     }
   });
 };
\ No newline at end of file
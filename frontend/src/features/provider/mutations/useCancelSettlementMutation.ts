@@ -0,0 +1,25 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isApiError } from '../../../shared/utils/apiError';
+import { cancelSettlement } from '../api/financeApi';
+import { financeSummaryQueryKey } from '../queries/useFinanceSummaryQuery';
+import { ledgerQueryKey } from '../queries/useLedgerQuery';
+import { invalidateSettlementsKey } from '../queries/useSettlementsQuery';
+
+export const useCancelSettlementMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (settlementId: string) => cancelSettlement(settlementId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invalidateSettlementsKey });
+      queryClient.invalidateQueries({ queryKey: financeSummaryQueryKey });
+      queryClient.invalidateQueries({ queryKey: ledgerQueryKey });
+    },
+    onError: (error) => {
+      // The settlement left Pending in the meantime; show where it is now.
+      if (isApiError(error, 'conflict', 'not_found')) {
+        queryClient.invalidateQueries({ queryKey: invalidateSettlementsKey });
+      }
+    }
+  });
+};
@@ -0,0 +1,26 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isApiError } from '../../../shared/utils/apiError';
+import { deletePaymentMethod } from '../api/financeApi';
+import { invalidateAutoRechargeKey } from '../queries/useAutoRechargeQuery';
+import { invalidatePaymentMethodsKey } from '../queries/usePaymentMethodsQuery';
+
+export const useDeletePaymentMethodMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (paymentMethodId: string) => {
+      try {
+        await deletePaymentMethod(paymentMethodId);
+      } catch (error) {
+        // Already removed, e.g. from another tab: that is what was asked for.
+        if (!isApiError(error, 'not_found')) {
+          throw error;
+        }
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invalidatePaymentMethodsKey });
+      queryClient.invalidateQueries({ queryKey: invalidateAutoRechargeKey });
+    }
+  });
+};
@@ -0,0 +1,24 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { isApiError } from '../../../shared/utils/apiError';
+import { deletePayoutMethod } from '../api/financeApi';
+import { invalidatePayoutMethodsKey } from '../queries/usePayoutMethodsQuery';
+
+export const useDeletePayoutMethodMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (payoutMethodId: string) => {
+      try {
+        await deletePayoutMethod(payoutMethodId);
+      } catch (error) {
+        // Already removed, e.g. from another tab: that is what was asked for.
+        if (!isApiError(error, 'not_found')) {
+          throw error;
+        }
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invalidatePayoutMethodsKey });
+    }
+  });
+};
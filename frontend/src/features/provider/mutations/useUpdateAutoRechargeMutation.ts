@@ -0,0 +1,14 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { updateAutoRechargeRule, type AutoRechargeRuleInput } from '../api/financeApi';
+import { invalidateAutoRechargeKey } from '../queries/useAutoRechargeQuery';
+
+export const useUpdateAutoRechargeMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rule: AutoRechargeRuleInput) => updateAutoRechargeRule(rule),
+    onSuccess: (rule) => {
+      queryClient.setQueryData(invalidateAutoRechargeKey, rule);
+    }
+  });
+};
@@ -0,0 +1,88 @@
+import type { StripeCardChangeEvent, StripeCardElement, StripeClient } from './types';
+
+// Stripe's own test card numbers, mapped to the test payment methods Stripe
+// (and stripe-mock) accept, so the backend can run against either.
+const TEST_PAYMENT_METHODS: Record<string, string> = {
+  '4242424242424242': 'pm_card_visa',
+  '4000002760003184': 'pm_card_authenticationRequired',
+  '4000000000000002': 'pm_card_chargeDeclined'
+};
+
+const createMockCardElement = (): StripeCardElement & { readonly value: string } => {
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.inputMode = 'numeric';
+  input.autocomplete = 'off';
+  input.placeholder = '4242 4242 4242 4242 (mock)';
+  input.style.width = '100%';
+  input.style.background = 'transparent';
+  input.style.outline = 'none';
+
+  const handlers: Array<(event: StripeCardChangeEvent) => void> = [];
+  input.addEventListener('input', () => {
+    const digits = input.value.replace(/\D/g, '');
+    const event: StripeCardChangeEvent =
+      digits.length > 16
+        ? { complete: false, error: { message: 'Your card number is invalid.' } }
+        : { complete: digits.length === 16 };
+    handlers.forEach((handler) => handler(event));
+  });
+
+  return {
+    get value() {
+      return input.value.replace(/\D/g, '');
+    },
+    mount(container) {
+      container.appendChild(input);
+    },
+    unmount() {
+      input.remove();
+    },
+    destroy() {
+      input.remove();
+      handlers.length = 0;
+    },
+    clear() {
+      input.value = '';
+    },
+    on(_eventName, handler) {
+      handlers.push(handler);
+    }
+  };
+};
+
+/**
+ * In-memory stand-in for Stripe.js. Cards 4242 4242 4242 4242 (succeeds),
+ * 4000 0027 6000 3184 (asks for 3-D Secure) and 4000 0000 0000 0002
+ * (declined) behave like in Stripe test mode; the 3-D Secure challenge is a
+ * confirm prompt.
+ */
+export const createMockStripeClient = (): StripeClient => ({
+  elements: () => ({
+    create: () => createMockCardElement()
+  }),
+
+  async createPaymentMethod({ card }) {
+    const number = (card as ReturnType<typeof createMockCardElement>).value;
+    const paymentMethodId = TEST_PAYMENT_METHODS[number];
+    if (!paymentMethodId) {
+      return { error: { code: 'incorrect_number', message: 'Use one of the Stripe test card numbers.' } };
+    }
+
+    return { paymentMethod: { id: paymentMethodId } };
+  },
+
+  async handleNextAction({ clientSecret }) {
+    const paymentIntentId = clientSecret.split('_secret_')[0];
+    if (!window.confirm('Mock 3-D Secure challenge: approve this payment?')) {
+      return {
+        error: {
+          code: 'payment_intent_authentication_failure',
+          message: 'We are unable to authenticate your payment method.'
+        }
+      };
+    }
+
+    return { paymentIntent: { id: paymentIntentId, status: 'succeeded' } };
+  }
+});
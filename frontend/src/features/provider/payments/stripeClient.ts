@@ -0,0 +1,51 @@
+import { createMockStripeClient } from './mockStripeClient';
+import type { StripeClient } from './types';
+
+const DEFAULT_STRIPE_JS_URL = 'https://js.stripe.com/v3/';
+
+declare global {
+  interface Window {
+    Stripe?: (publishableKey: string) => StripeClient;
+  }
+}
+
+let stripePromise: Promise<StripeClient> | null = null;
+
+const loadStripeScript = (url: string) =>
+  new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = url;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error('Stripe.js could not be loaded. Check your connection and retry.'));
+    document.head.appendChild(script);
+  });
+
+/**
+ * Stripe.js is loaded on first use so pages without payments never fetch it.
+ * `VITE_STRIPE_MODE=mock` swaps in an in-memory client for local development
+ * against a mocked backend; no request leaves the browser.
+ */
+export const resolveStripeClient = (): Promise<StripeClient> => {
+  if (import.meta.env.VITE_STRIPE_MODE === 'mock') {
+    return Promise.resolve(createMockStripeClient());
+  }
+
+  if (!stripePromise) {
+    const url = import.meta.env.VITE_STRIPE_JS_URL || DEFAULT_STRIPE_JS_URL;
+    stripePromise = (window.Stripe ? Promise.resolve() : loadStripeScript(url))
+      .then(() => {
+        if (!window.Stripe) {
+          throw new Error('Stripe.js did not initialize.');
+        }
+
+        return window.Stripe(import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY);
+      })
+      .catch((error) => {
+        stripePromise = null;
+        throw error;
+      });
+  }
+
+  return stripePromise;
+};
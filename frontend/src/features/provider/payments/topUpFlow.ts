@@ -0,0 +1,31 @@
+import { confirmTopUp, processTopUp, type TopUpRequest, type TopUpResult } from '../api/financeApi';
+import { resolveStripeClient } from './stripeClient';
+
+/**
+ * Charges a top-up and, when the bank asks for it, runs the 3-D Secure
+ * challenge before letting the backend credit the balance. Resolves only
+ * once the payment succeeded.
+ */
+export const completeTopUp = async (request: TopUpRequest): Promise<TopUpResult> => {
+  let result = await processTopUp(request);
+
+  if (result.status === 'RequiresAction' && result.clientSecret) {
+    const stripe = await resolveStripeClient();
+    const { error } = await stripe.handleNextAction({ clientSecret: result.clientSecret });
+    if (error) {
+      throw new Error(error.message ?? 'Card authentication failed');
+    }
+
+    result = await confirmTopUp(result.paymentId);
+  }
+
+  if (result.status === 'Pending') {
+    throw new Error('The payment is still processing; your balance is credited once your bank confirms it');
+  }
+
+  if (result.status !== 'Succeeded') {
+    throw new Error(result.failureReason ?? 'The payment was not completed');
+  }
+
+  return result;
+};
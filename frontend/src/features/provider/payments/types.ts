@@ -0,0 +1,34 @@
+export interface StripeError {
+  message?: string;
+  code?: string;
+}
+
+export interface StripeCardChangeEvent {
+  complete: boolean;
+  error?: StripeError;
+}
+
+export interface StripeCardElement {
+  mount(container: HTMLElement): void;
+  unmount(): void;
+  destroy(): void;
+  clear(): void;
+  on(eventName: 'change', handler: (event: StripeCardChangeEvent) => void): void;
+}
+
+export interface StripeElements {
+  create(type: 'card', options?: Record<string, unknown>): StripeCardElement;
+}
+
+/** The subset of Stripe.js the top-up flow uses, implemented by the mock as well. */
+export interface StripeClient {
+  elements(): StripeElements;
+  createPaymentMethod(data: {
+    type: 'card';
+    card: StripeCardElement;
+  }): Promise<{ paymentMethod?: { id: string }; error?: StripeError }>;
+  /** Runs the 3-D Secure challenge of a PaymentIntent confirmed on the server. */
+  handleNextAction(options: {
+    clientSecret: string;
+  }): Promise<{ paymentIntent?: { id: string; status: string }; error?: StripeError }>;
+}
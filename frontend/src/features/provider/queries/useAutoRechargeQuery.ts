@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { getAutoRechargeRule } from '../api/financeApi';
+
+const QUERY_KEY = ['finance', 'auto-recharge'] as const;
+
+export const useAutoRechargeQuery = () =>
+  useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: getAutoRechargeRule,
+    // The last trigger and failure are written by the server in the background.
+    refetchInterval: 60_000
+  });
+
+export const invalidateAutoRechargeKey = QUERY_KEY;
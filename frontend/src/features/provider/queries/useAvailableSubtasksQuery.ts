@@ -2,17 +2,19 @@ import { useQuery } from '@tanstack/react-query';
 import { apiRequest } from '../../../shared/utils/apiClient';
 import type { ProviderSubtaskDto } from '../types';
 import { useAuthStore } from '../../auth/stores/authStore';
+import { useHubAwareRefetchInterval } from '../../../shared/stores/taskHubStore';
 
 const QUERY_KEY = ['provider', 'subtasks', 'available'];
 
 export const useAvailableSubtasksQuery = (enabled = true) => {
   const user = useAuthStore((state) => state.user);
+  const refetchInterval = useHubAwareRefetchInterval(60000);
 
   return useQuery({
     queryKey: QUERY_KEY,
     queryFn: () => apiRequest<ProviderSubtaskDto[]>('/api/subtasks/available'),
     enabled: enabled && !!user && user.role === 'Provider',
-    refetchInterval: 60000, // Poll every 1 minute
+    refetchInterval, // Falls back to polling every minute while the hub is down
     staleTime: 1000 * 30
   });
 };
@@ -1,15 +1,19 @@
 import { useQuery } from '@tanstack/react-query';
 import { fetchDeviceSubtasks } from '../api'; 
+import { useHubAwareRefetchInterval } from '../../../shared/stores/taskHubStore';
 
 const QUERY_KEY = ['provider', 'subtasks', 'device'] as const;
 
-export const useDeviceSubtasksQuery = (deviceIdentifier: string | null | undefined) =>
-  useQuery({
+export const useDeviceSubtasksQuery = (deviceIdentifier: string | null | undefined) => {
+  const refetchInterval = useHubAwareRefetchInterval(60000);
+
+  return useQuery({
     queryKey: [...QUERY_KEY, deviceIdentifier ?? null],
     queryFn: () => fetchDeviceSubtasks(deviceIdentifier!),
     enabled: typeof deviceIdentifier === 'string' && deviceIdentifier.length > 0,
-    refetchInterval: 60000, // Poll every 1 minute
+    refetchInterval, // Falls back to polling every minute while the hub is down
     staleTime: 1000 * 30
   });
+};
 
 export const invalidateDeviceSubtasksKey = QUERY_KEY;
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { getFinanceSummary } from '../api/financeApi';
+
+const QUERY_KEY = ['financeSummary'] as const;
+
+export const useFinanceSummaryQuery = (
+  options: { enabled?: boolean; refetchInterval?: number | false } = {}
+) =>
+  useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: getFinanceSummary,
+    enabled: options.enabled ?? true,
+    refetchInterval: options.refetchInterval ?? false
+  });
+
+export const financeSummaryQueryKey = QUERY_KEY;
@@ -0,0 +1,15 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { getLedgerEntries, type LedgerFilters } from '../api/financeApi';
+
+const QUERY_KEY = ['finance', 'ledger'] as const;
+
+export const useLedgerQuery = (filters: LedgerFilters, page: number, pageSize: number) =>
+  useQuery({
+    queryKey: [...QUERY_KEY, filters, page, pageSize],
+    queryFn: () => getLedgerEntries(filters, page, pageSize),
+    // Keeps the current page on screen while the next one loads.
+    placeholderData: keepPreviousData,
+    staleTime: 30_000
+  });
+
+export const ledgerQueryKey = QUERY_KEY;
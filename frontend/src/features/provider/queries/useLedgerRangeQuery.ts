@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { getLedgerEntries, type LedgerEntry, type LedgerFilters } from '../api/financeApi';
+
+const QUERY_KEY = ['finance', 'ledger', 'range'] as const;
+
+const RANGE_PAGE_SIZE = 500;
+
+// Charts need every entry of the period, not one page of it.
+const fetchLedgerRange = async (filters: LedgerFilters) => {
+  const entries: LedgerEntry[] = [];
+  for (let page = 1; ; page += 1) {
+    const result = await getLedgerEntries(filters, page, RANGE_PAGE_SIZE);
+    entries.push(...result.entries);
+    if (result.entries.length === 0 || entries.length >= result.totalCount) {
+      return entries;
+    }
+  }
+};
+
+export const useLedgerRangeQuery = (from: string) =>
+  useQuery({
+    queryKey: [...QUERY_KEY, from],
+    queryFn: () => fetchLedgerRange({ from }),
+    staleTime: 5 * 60_000
+  });
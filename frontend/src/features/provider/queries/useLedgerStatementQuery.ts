@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { getLedgerStatement } from '../api/financeApi';
+
+const QUERY_KEY = ['finance', 'statement'] as const;
+
+export const useLedgerStatementQuery = (month: string) =>
+  useQuery({
+    queryKey: [...QUERY_KEY, month],
+    queryFn: () => getLedgerStatement(month),
+    staleTime: 5 * 60_000
+  });
+
+export const ledgerStatementQueryKey = QUERY_KEY;
@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { getPaymentMethods } from '../api/financeApi';
+
+const QUERY_KEY = ['finance', 'payment-methods'] as const;
+
+export const usePaymentMethodsQuery = (enabled = true) =>
+  useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: getPaymentMethods,
+    enabled,
+    staleTime: 5 * 60_000
+  });
+
+export const invalidatePaymentMethodsKey = QUERY_KEY;
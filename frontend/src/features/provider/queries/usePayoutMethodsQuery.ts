@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { getPayoutMethods } from '../api/financeApi';
+
+const QUERY_KEY = ['finance', 'payout-methods'] as const;
+
+export const usePayoutMethodsQuery = (enabled = true) =>
+  useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: getPayoutMethods,
+    enabled,
+    staleTime: 5 * 60_000
+  });
+
+export const invalidatePayoutMethodsKey = QUERY_KEY;
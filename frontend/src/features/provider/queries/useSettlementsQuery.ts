@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { getSettlements } from '../api/financeApi';
+
+const QUERY_KEY = ['finance', 'settlements'] as const;
+
+export const useSettlementsQuery = () =>
+  useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: getSettlements,
+    // Settlements move through their states on the server without a hub event.
+    refetchInterval: 30000,
+    staleTime: 15_000
+  });
+
+export const invalidateSettlementsKey = QUERY_KEY;
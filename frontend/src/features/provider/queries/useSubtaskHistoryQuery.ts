@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchSubtaskHistory } from '../api';
+
+const QUERY_KEY = ['provider', 'subtasks', 'history'] as const;
+
+export const useSubtaskHistoryQuery = (sinceUtc: string) =>
+  useQuery({
+    queryKey: [...QUERY_KEY, sinceUtc],
+    queryFn: () => fetchSubtaskHistory(sinceUtc),
+    staleTime: 5 * 60_000
+  });
+
+export const invalidateSubtaskHistoryKey = QUERY_KEY;
@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { getTopUps } from '../api/financeApi';
+
+const QUERY_KEY = ['finance', 'topups'] as const;
+
+export const useTopUpsQuery = () =>
+  useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: getTopUps,
+    staleTime: 60_000
+  });
+
+export const invalidateTopUpsKey = QUERY_KEY;
@@ -0,0 +1,23 @@
+import type { SubtaskFailureReason } from '../types';
+
+/**
+ * Error raised while running a subtask, tagged with the structured reason
+ * reported to the backend when the subtask is failed.
+ */
+export class SubtaskExecutionError extends Error {
+  readonly reason: SubtaskFailureReason;
+
+  constructor(reason: SubtaskFailureReason, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SubtaskExecutionError';
+    this.reason = reason;
+  }
+}
+
+export const resolveFailureReason = (error: unknown, aborted: boolean): SubtaskFailureReason => {
+  if (aborted) {
+    return 'cancelled';
+  }
+
+  return error instanceof SubtaskExecutionError ? error.reason : 'execution-error';
+};
@@ -0,0 +1,137 @@
+import { reportProgress, sendHeartbeat } from '../api';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+const PROGRESS_THROTTLE_MS = 5000;
+const MAX_BACKOFF_MS = 2 * 60 * 1000;
+
+export interface ExecutionHeartbeat {
+  /** Records the latest progress; reports are throttled to one per few seconds. */
+  reportProgress: (percentage: number) => void;
+  stop: () => void;
+}
+
+/**
+ * Keeps the backend informed that a subtask is still alive while it runs.
+ * Heartbeats carry the latest progress, so when the network drops we stop
+ * sending separate progress reports and let the backed-off heartbeat catch
+ * the backend up once it is reachable again.
+ */
+export const startExecutionHeartbeat = (
+  subtaskId: string,
+  onHeartbeat?: (sentAtUtc: string) => void
+): ExecutionHeartbeat => {
+  let latestProgress = 0;
+  let reportedProgress = -1;
+  let lastProgressSentAt = 0;
+  let consecutiveFailures = 0;
+  let stopped = false;
+  let heartbeatTimer: number | null = null;
+  let progressTimer: number | null = null;
+
+  const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+  const nextHeartbeatDelay = () =>
+    consecutiveFailures === 0
+      ? HEARTBEAT_INTERVAL_MS
+      : Math.min(MAX_BACKOFF_MS, HEARTBEAT_INTERVAL_MS * 2 ** consecutiveFailures);
+
+  const scheduleHeartbeat = (delay = nextHeartbeatDelay()) => {
+    if (heartbeatTimer !== null) {
+      window.clearTimeout(heartbeatTimer);
+    }
+
+    if (stopped) {
+      return;
+    }
+
+    heartbeatTimer = window.setTimeout(() => {
+      heartbeatTimer = null;
+      void beat();
+    }, delay);
+  };
+
+  const beat = async () => {
+    if (stopped) {
+      return;
+    }
+
+    if (isOffline()) {
+      // The online listener triggers the next beat as soon as we reconnect.
+      consecutiveFailures += 1;
+      scheduleHeartbeat();
+      return;
+    }
+
+    try {
+      // A queued heartbeat is replayed later but did not reach the backend yet.
+      if ((await sendHeartbeat(subtaskId, latestProgress)) === 'queued') {
+        consecutiveFailures += 1;
+      } else {
+        consecutiveFailures = 0;
+        reportedProgress = latestProgress;
+        onHeartbeat?.(new Date().toISOString());
+      }
+    } catch (error) {
+      consecutiveFailures += 1;
+      console.warn('[ExecutionHeartbeat] heartbeat failed', { subtaskId, consecutiveFailures, error });
+    }
+
+    scheduleHeartbeat();
+  };
+
+  const flushProgress = async () => {
+    progressTimer = null;
+    if (stopped || latestProgress === reportedProgress || consecutiveFailures > 0 || isOffline()) {
+      return;
+    }
+
+    const value = latestProgress;
+    lastProgressSentAt = Date.now();
+
+    try {
+      if ((await reportProgress(subtaskId, value)) === 'queued') {
+        consecutiveFailures += 1;
+        scheduleHeartbeat();
+        return;
+      }
+      reportedProgress = value;
+    } catch {
+      // Fall back to the heartbeat's backoff instead of retrying eagerly.
+      consecutiveFailures += 1;
+      scheduleHeartbeat();
+    }
+  };
+
+  const handleOnline = () => {
+    consecutiveFailures = 0;
+    scheduleHeartbeat(0);
+  };
+
+  window.addEventListener('online', handleOnline);
+  scheduleHeartbeat(0);
+
+  return {
+    reportProgress: (percentage) => {
+      latestProgress = percentage;
+      if (stopped || progressTimer !== null) {
+        return;
+      }
+
+      const wait = percentage >= 100 ? 0 : Math.max(0, lastProgressSentAt + PROGRESS_THROTTLE_MS - Date.now());
+      progressTimer = window.setTimeout(() => void flushProgress(), wait);
+    },
+
+    stop: () => {
+      stopped = true;
+      window.removeEventListener('online', handleOnline);
+      if (heartbeatTimer !== null) {
+        window.clearTimeout(heartbeatTimer);
+        heartbeatTimer = null;
+      }
+      if (progressTimer !== null) {
+        window.clearTimeout(progressTimer);
+        progressTimer = null;
+      }
+    }
+  };
+};
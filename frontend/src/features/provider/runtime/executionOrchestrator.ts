@@ -0,0 +1,207 @@
+import type { OutboundDelivery } from '../../../shared/services/OutboundQueue';
+import { TaskHubConnection } from '../../../shared/services/TaskHubConnection';
+import { completeSubtask, failSubtask } from '../api';
+import { useProviderExecutionStore } from '../stores/useProviderExecutionStore';
+import type {
+  ProviderSubtaskDto,
+  ProviderSubtaskExecutionResult,
+  ProviderSubtaskOutputArtifact
+} from '../types';
+import { resolveFailureReason, SubtaskExecutionError } from './executionError';
+import { startExecutionHeartbeat } from './executionHeartbeat';
+import { parseSubtaskParameters, type SubtaskPayloadType } from './subtaskParameters';
+import type { ExecutionRuntime, RuntimeExecutionOutput, RuntimeProgressUpdate } from './types';
+import { createWasmRuntime } from './wasmRuntime';
+
+export interface ExecuteSubtaskOptions {
+  /** Forces a specific runtime instead of the best available one. */
+  runtime?: ExecutionRuntime;
+  signal?: AbortSignal;
+}
+
+// Matches the backend's numeric InferencePayloadType enum.
+const PAYLOAD_TYPE_VALUES: Record<SubtaskPayloadType, number> = {
+  Json: 0,
+  Text: 1,
+  Binary: 2
+};
+
+// Ordered by preference. The desktop host is not listed: it executes the
+// subtasks it accepts over the hub natively, without the web app.
+const RUNTIME_FACTORIES: Array<() => ExecutionRuntime> = [createWasmRuntime];
+
+let activeController: AbortController | null = null;
+
+export const resolveExecutionRuntime = async (): Promise<ExecutionRuntime> => {
+  for (const createRuntime of RUNTIME_FACTORIES) {
+    const runtime = createRuntime();
+    if (await runtime.isAvailable()) {
+      return runtime;
+    }
+  }
+
+  throw new SubtaskExecutionError('runtime-unavailable', 'No execution runtime is available on this device.');
+};
+
+const clampPercentage = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+const summarizeOutputs = (output: RuntimeExecutionOutput, runtime: ExecutionRuntime) => {
+  if (output.outputSummary) {
+    return output.outputSummary;
+  }
+
+  const names = output.outputs.map((tensor) => tensor.tensorName);
+  const seconds = output.metrics.durationSeconds.toFixed(2);
+  return names.length === 0
+    ? `${runtime.label} finished in ${seconds}s without outputs`
+    : `${runtime.label} produced ${names.join(', ')} in ${seconds}s`;
+};
+
+const buildExecutionResult = (
+  subtask: ProviderSubtaskDto,
+  runtime: ExecutionRuntime,
+  output: RuntimeExecutionOutput
+): ProviderSubtaskExecutionResult => {
+  const outputs: ProviderSubtaskOutputArtifact[] = output.outputs.map((tensor) => ({
+    tensorName: tensor.tensorName,
+    payloadType: PAYLOAD_TYPE_VALUES[tensor.payloadType],
+    format: tensor.fileFormat ?? null,
+    fileUrl: tensor.fileUrl ?? null,
+    payload: tensor.payload ?? null
+  }));
+
+  return {
+    subtaskId: subtask.id,
+    completedAtUtc: new Date().toISOString(),
+    outputSummary: summarizeOutputs(output, runtime),
+    artifacts: {
+      runtime: runtime.kind,
+      tensors: output.outputs.map(({ tensorName, dims, dataType }) => ({ tensorName, dims, dataType }))
+    },
+    metrics: output.metrics,
+    outputs
+  };
+};
+
+/**
+ * Cancels the subtask currently driven by `executeSubtask`, if any. The
+ * subtask is reported as failed with the `cancelled` reason.
+ */
+export const cancelActiveExecution = () => {
+  activeController?.abort(new DOMException('Execution was cancelled', 'AbortError'));
+};
+
+/**
+ * Runs a subtask end to end: parses its parameters, executes it on the
+ * selected runtime while mirroring progress into `useProviderExecutionStore`
+ * and heartbeating the backend, then submits the results through
+ * `completeSubtask`. Only execution errors are reported through `failSubtask`.
+ */
+export const executeSubtask = async (
+  subtask: ProviderSubtaskDto,
+  { runtime, signal }: ExecuteSubtaskOptions = {}
+): Promise<ProviderSubtaskExecutionResult> => {
+  const store = useProviderExecutionStore.getState;
+  const current = store().active;
+  if (
+    current &&
+    current.subtask.id !== subtask.id &&
+    (current.phase === 'initializing' || current.phase === 'executing' || current.phase === 'uploading')
+  ) {
+    throw new Error('Another subtask is already executing on this device.');
+  }
+
+  const controller = new AbortController();
+  const handleExternalAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', handleExternalAbort, { once: true });
+  activeController = controller;
+
+  store().setActiveSubtask(subtask);
+  const heartbeat = startExecutionHeartbeat(subtask.id, (sentAtUtc) => store().recordHeartbeat(sentAtUtc));
+  let selectedRuntime: ExecutionRuntime | null = runtime ?? null;
+
+  const handleProgress = (update: RuntimeProgressUpdate) => {
+    if (controller.signal.aborted) {
+      return;
+    }
+
+    const active = store().active;
+    if (update.phase && active?.phase !== update.phase) {
+      store().setPhase(update.phase, update.message);
+    }
+
+    const percentage = clampPercentage(update.percentage);
+    store().setProgress({ percentage, message: update.message });
+    heartbeat.reportProgress(percentage);
+  };
+
+  try {
+    let results: ProviderSubtaskExecutionResult;
+    try {
+      const parameters = parseSubtaskParameters(subtask.parametersJson);
+      selectedRuntime = selectedRuntime ?? (await resolveExecutionRuntime());
+      store().setPhase('initializing', `Preparing ${selectedRuntime.label}`);
+
+      if (TaskHubConnection.isConnected()) {
+        await TaskHubConnection.invoke('AcknowledgeExecutionStart', subtask.id).catch((error) => {
+          console.warn('[ExecutionOrchestrator] failed to acknowledge execution start', error);
+        });
+      }
+
+      const output = await selectedRuntime.execute({
+        subtask,
+        parameters,
+        signal: controller.signal,
+        onProgress: handleProgress
+      });
+      controller.signal.throwIfAborted();
+      results = buildExecutionResult(subtask, selectedRuntime, output);
+    } catch (error) {
+      const aborted = controller.signal.aborted;
+      const message = aborted
+        ? 'Execution was cancelled'
+        : error instanceof Error
+          ? error.message
+          : 'Subtask execution failed';
+      store().failExecution(message);
+
+      await failSubtask(subtask.id, {
+        subtaskId: subtask.id,
+        failedAtUtc: new Date().toISOString(),
+        reason: resolveFailureReason(error, aborted),
+        error: message,
+        progress: store().active?.progress.percentage,
+        runtime: selectedRuntime?.kind ?? null
+      }).catch((reportError) => {
+        console.warn('[ExecutionOrchestrator] failed to report subtask failure', reportError);
+      });
+
+      throw error;
+    }
+
+    // The work itself succeeded, so a submission problem must never fail the
+    // subtask: undelivered results stay in the outbound queue and are retried,
+    // and results the backend refused are surfaced without a failure report.
+    store().setPhase('uploading', 'Submitting results');
+    let delivery: OutboundDelivery;
+    try {
+      delivery = await completeSubtask(subtask.id, results);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to submit results';
+      store().failExecution(`Results were not accepted: ${message}`);
+      throw new SubtaskExecutionError('submission-failed', message, { cause: error });
+    }
+
+    store().setResults(
+      results,
+      delivery === 'queued' ? 'Execution completed, results will sync when the connection is back' : undefined
+    );
+    return results;
+  } finally {
+    heartbeat.stop();
+    signal?.removeEventListener('abort', handleExternalAbort);
+    if (activeController === controller) {
+      activeController = null;
+    }
+  }
+};
@@ -0,0 +1,125 @@
+import type { ProviderSubtaskDto } from '../types';
+import { SubtaskExecutionError } from './executionError';
+
+export type SubtaskPayloadType = 'Json' | 'Text' | 'Binary';
+
+export interface SubtaskInputBinding {
+  tensorName: string;
+  payloadType: SubtaskPayloadType;
+  payload: string | null;
+  fileUrl: string | null;
+}
+
+export interface SubtaskOutputBinding {
+  tensorName: string;
+  payloadType: SubtaskPayloadType;
+  fileFormat: string | null;
+}
+
+export interface SubtaskExecutionParameters {
+  prompt: string;
+  bindings: SubtaskInputBinding[];
+  outputs: SubtaskOutputBinding[];
+  raw: Record<string, unknown>;
+}
+
+// Parameters are serialized by the backend without an enum converter, so
+// payload types arrive as numbers; requestor-side drafts use the names.
+const PAYLOAD_TYPE_MAP: Record<number, SubtaskPayloadType> = {
+  0: 'Json',
+  1: 'Text',
+  2: 'Binary'
+};
+
+const resolvePayloadType = (raw: unknown): SubtaskPayloadType => {
+  if (typeof raw === 'number') {
+    return PAYLOAD_TYPE_MAP[raw] ?? 'Json';
+  }
+
+  if (raw === 'Json' || raw === 'Text' || raw === 'Binary') {
+    return raw;
+  }
+
+  return 'Json';
+};
+
+const asRecord = (input: unknown): Record<string, unknown> | null =>
+  input && typeof input === 'object' && !Array.isArray(input) ? (input as Record<string, unknown>) : null;
+
+const readString = (record: Record<string, unknown>, key: string): string | null => {
+  const value = record[key];
+  return typeof value === 'string' && value.length > 0 ? value : null;
+};
+
+const readArray = (record: Record<string, unknown> | null, key: string): unknown[] => {
+  const value = record?.[key];
+  return Array.isArray(value) ? value : [];
+};
+
+/**
+ * Parses `ProviderSubtaskDto.parametersJson` into the bindings a runtime
+ * needs. Throws when the payload is not valid JSON so the orchestrator can
+ * fail the subtask instead of running it with empty inputs.
+ */
+export const parseSubtaskParameters = (parametersJson: string): SubtaskExecutionParameters => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(parametersJson && parametersJson.trim().length > 0 ? parametersJson : '{}');
+  } catch (error) {
+    throw new SubtaskExecutionError('invalid-parameters', 'Subtask parameters are not valid JSON.', { cause: error });
+  }
+
+  const raw = asRecord(parsed);
+  if (!raw) {
+    throw new SubtaskExecutionError('invalid-parameters', 'Subtask parameters must be a JSON object.');
+  }
+
+  const inference = asRecord(raw.inference);
+
+  const bindings = readArray(inference, 'bindings').flatMap((entry): SubtaskInputBinding[] => {
+    const record = asRecord(entry);
+    const tensorName = record ? readString(record, 'tensorName')?.trim() : null;
+    if (!record || !tensorName) {
+      return [];
+    }
+
+    return [
+      {
+        tensorName,
+        payloadType: resolvePayloadType(record.payloadType),
+        payload: readString(record, 'payload'),
+        fileUrl: readString(record, 'fileUrl')
+      }
+    ];
+  });
+
+  const outputs = readArray(inference, 'outputs').flatMap((entry): SubtaskOutputBinding[] => {
+    const record = asRecord(entry);
+    const tensorName = record ? readString(record, 'tensorName')?.trim() : null;
+    if (!record || !tensorName) {
+      return [];
+    }
+
+    return [
+      {
+        tensorName,
+        payloadType: resolvePayloadType(record.payloadType),
+        fileFormat: readString(record, 'fileFormat')
+      }
+    ];
+  });
+
+  return {
+    prompt: inference ? readString(inference, 'prompt') ?? '' : '',
+    bindings,
+    outputs,
+    raw
+  };
+};
+
+export const resolveSubtaskModelUrl = (subtask: ProviderSubtaskDto): string | null =>
+  subtask.onnxModel?.resolvedReadUri ??
+  subtask.onnxModel?.readUri ??
+  subtask.executionSpec?.resolvedOnnxModelUri ??
+  subtask.executionSpec?.onnxModelUrl ??
+  null;
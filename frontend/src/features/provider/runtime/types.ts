@@ -0,0 +1,53 @@
+import type { ProviderSubtaskDto } from '../types';
+import type { SubtaskExecutionParameters, SubtaskPayloadType } from './subtaskParameters';
+
+export type ExecutionRuntimeKind = 'wasm';
+
+export type RuntimeExecutionPhase = 'initializing' | 'executing' | 'uploading';
+
+export interface RuntimeProgressUpdate {
+  percentage: number;
+  phase?: RuntimeExecutionPhase;
+  message?: string;
+}
+
+export interface RuntimeExecutionRequest {
+  subtask: ProviderSubtaskDto;
+  parameters: SubtaskExecutionParameters;
+  signal: AbortSignal;
+  onProgress: (update: RuntimeProgressUpdate) => void;
+}
+
+export interface RuntimeOutputTensor {
+  tensorName: string;
+  dims: number[];
+  dataType: string;
+  payloadType: SubtaskPayloadType;
+  fileFormat?: string | null;
+  fileUrl?: string | null;
+  /** JSON-encoded tensor values, omitted for outputs uploaded as files. */
+  payload?: string | null;
+}
+
+export interface RuntimeExecutionMetrics {
+  durationSeconds: number;
+  device: string;
+  memoryGBytes?: number | null;
+}
+
+export interface RuntimeExecutionOutput {
+  outputSummary?: string;
+  outputs: RuntimeOutputTensor[];
+  metrics: RuntimeExecutionMetrics;
+}
+
+/**
+ * A backend able to run a provider subtask. Runtimes only execute the model;
+ * phase bookkeeping and result submission are owned by the orchestrator.
+ */
+export interface ExecutionRuntime {
+  readonly kind: ExecutionRuntimeKind;
+  readonly label: string;
+  isAvailable(): Promise<boolean>;
+  execute(request: RuntimeExecutionRequest): Promise<RuntimeExecutionOutput>;
+}
@@ -0,0 +1,245 @@
+import type { Tensor } from 'onnxruntime-web';
+import { BlockUploadManager } from '../../../shared/services/BlockUploadManager';
+import { encodeNpy, parseNpy, type NpyDataType, type NpyTypedArray } from '../../../shared/utils/npy';
+import { generateOutputUploadUrl } from '../api';
+import { SubtaskExecutionError } from './executionError';
+import {
+  resolveSubtaskModelUrl,
+  type SubtaskInputBinding,
+  type SubtaskPayloadType
+} from './subtaskParameters';
+import type { ExecutionRuntime, RuntimeOutputTensor } from './types';
+
+type OrtModule = typeof import('onnxruntime-web/wasm');
+
+// Outputs with more values than this are uploaded as .npy files instead of
+// being inlined; shipping megabytes of numbers through the results JSON would
+// bloat every task read.
+const INLINE_OUTPUT_LIMIT = 4096;
+
+const NPY_OUTPUT_TYPES: ReadonlySet<string> = new Set<NpyDataType>([
+  'float32',
+  'float64',
+  'int8',
+  'uint8',
+  'int16',
+  'uint16',
+  'int32',
+  'uint32',
+  'int64',
+  'bool'
+]);
+
+let ortPromise: Promise<OrtModule> | null = null;
+
+// onnxruntime-web is loaded on demand so the WASM binaries are only fetched
+// by providers that actually fall back to in-browser execution.
+const loadOrt = (): Promise<OrtModule> => {
+  if (!ortPromise) {
+    ortPromise = import('onnxruntime-web/wasm')
+      .then((module) => {
+        module.env.wasm.numThreads = Math.max(1, Math.min(4, navigator.hardwareConcurrency ?? 1));
+        return module;
+      })
+      .catch((error) => {
+        ortPromise = null;
+        throw error;
+      });
+  }
+
+  return ortPromise;
+};
+
+const fetchBytes = async (url: string, signal: AbortSignal): Promise<ArrayBuffer> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new SubtaskExecutionError('download-failed', `Download failed with status ${response.status}.`);
+  }
+
+  return response.arrayBuffer();
+};
+
+const flattenNumbers = (value: unknown, dims: number[], depth = 0): number[] => {
+  if (typeof value === 'number') {
+    return [value];
+  }
+
+  if (!Array.isArray(value)) {
+    throw new SubtaskExecutionError('invalid-parameters', 'JSON tensors must be numbers or nested arrays of numbers.');
+  }
+
+  if (dims.length === depth) {
+    dims.push(value.length);
+  }
+
+  return value.flatMap((entry) => flattenNumbers(entry, dims, depth + 1));
+};
+
+const jsonToTensor = (ort: OrtModule, value: unknown): Tensor => {
+  const dims: number[] = [];
+  const data = flattenNumbers(value, dims);
+  return new ort.Tensor('float32', Float32Array.from(data), dims);
+};
+
+const buildInputTensor = async (
+  ort: OrtModule,
+  binding: SubtaskInputBinding,
+  signal: AbortSignal
+): Promise<Tensor> => {
+  if (binding.fileUrl) {
+    const bytes = await fetchBytes(binding.fileUrl, signal);
+    const extension = new URL(binding.fileUrl).pathname.split('.').pop()?.toLowerCase();
+
+    if (extension === 'npy' || !extension) {
+      const array = parseNpy(bytes);
+      return new ort.Tensor(array.dataType, array.data as Tensor.DataType, array.shape);
+    }
+
+    if (extension === 'json') {
+      return jsonToTensor(ort, JSON.parse(new TextDecoder().decode(bytes)));
+    }
+
+    throw new SubtaskExecutionError('invalid-parameters', `Input "${binding.tensorName}" uses .${extension} files, which need the desktop runtime.`);
+  }
+
+  if (binding.payloadType === 'Json' && binding.payload) {
+    return jsonToTensor(ort, JSON.parse(binding.payload));
+  }
+
+  throw new SubtaskExecutionError('invalid-parameters', `Input "${binding.tensorName}" needs the desktop runtime (tokenized or media inputs).`);
+};
+
+const uploadOutputTensor = async (
+  subtaskId: string,
+  taskId: string,
+  tensorName: string,
+  tensor: Tensor,
+  signal: AbortSignal
+): Promise<string> => {
+  if (!NPY_OUTPUT_TYPES.has(tensor.type)) {
+    throw new SubtaskExecutionError(
+      'upload-failed',
+      `Output "${tensorName}" has ${tensor.data.length} ${tensor.type} values, which cannot be inlined or uploaded from the browser.`
+    );
+  }
+
+  const blob = encodeNpy({
+    dataType: tensor.type as NpyDataType,
+    shape: [...tensor.dims],
+    data: tensor.data as NpyTypedArray
+  });
+
+  try {
+    const { blobUri } = await BlockUploadManager.upload({
+      file: new File([blob], `${tensorName}.npy`, { type: blob.type }),
+      resumeKey: `output:${subtaskId}:${tensorName}`,
+      resolveTarget: () => generateOutputUploadUrl(taskId, subtaskId, tensorName, 'npy'),
+      signal
+    });
+    return blobUri;
+  } catch (error) {
+    signal.throwIfAborted();
+    throw new SubtaskExecutionError('upload-failed', `Uploading output "${tensorName}" failed.`, { cause: error });
+  }
+};
+
+const toOutputTensor = async (
+  subtaskId: string,
+  taskId: string,
+  tensorName: string,
+  tensor: Tensor,
+  payloadType: SubtaskPayloadType,
+  fileFormat: string | null,
+  signal: AbortSignal
+): Promise<RuntimeOutputTensor> => {
+  const output = { tensorName, dims: [...tensor.dims], dataType: tensor.type };
+
+  if (tensor.data.length <= INLINE_OUTPUT_LIMIT) {
+    const values = Array.from(tensor.data as ArrayLike<number | bigint>, (value) =>
+      typeof value === 'bigint' ? Number(value) : value
+    );
+    return { ...output, payloadType, fileFormat, payload: JSON.stringify(values) };
+  }
+
+  const fileUrl = await uploadOutputTensor(subtaskId, taskId, tensorName, tensor, signal);
+  return { ...output, payloadType: 'Binary', fileFormat: 'npy', fileUrl, payload: null };
+};
+
+/**
+ * Runs inference in the browser with onnxruntime-web on the CPU (WASM)
+ * backend. Slower than the desktop runtime, but needs no native host.
+ */
+export const createWasmRuntime = (): ExecutionRuntime => ({
+  kind: 'wasm',
+  label: 'In-browser WASM runtime',
+
+  async isAvailable() {
+    return typeof WebAssembly === 'object' && typeof WebAssembly.instantiate === 'function';
+  },
+
+  async execute({ subtask, parameters, signal, onProgress }) {
+    if (subtask.taskType === 'Train') {
+      throw new SubtaskExecutionError('runtime-unavailable', 'Training subtasks require the desktop runtime.');
+    }
+
+    const modelUrl = resolveSubtaskModelUrl(subtask);
+    if (!modelUrl) {
+      throw new SubtaskExecutionError('invalid-parameters', 'Subtask does not reference an ONNX model.');
+    }
+
+    const startedAt = performance.now();
+
+    onProgress({ percentage: 5, phase: 'initializing', message: 'Loading ONNX Runtime (WASM)' });
+    const ort = await loadOrt();
+
+    onProgress({ percentage: 15, phase: 'initializing', message: 'Downloading model' });
+    const modelBytes = await fetchBytes(modelUrl, signal);
+
+    onProgress({ percentage: 35, phase: 'initializing', message: 'Preparing input tensors' });
+    const session = await ort.InferenceSession.create(new Uint8Array(modelBytes), {
+      executionProviders: ['wasm']
+    });
+
+    try {
+      const feeds: Record<string, Tensor> = {};
+      for (const binding of parameters.bindings) {
+        feeds[binding.tensorName] = await buildInputTensor(ort, binding, signal);
+      }
+
+      const missing = session.inputNames.filter((name) => !(name in feeds));
+      if (missing.length > 0) {
+        throw new SubtaskExecutionError('invalid-parameters', `Missing input bindings: ${missing.join(', ')}.`);
+      }
+
+      signal.throwIfAborted();
+      onProgress({ percentage: 50, phase: 'executing', message: 'Running inference' });
+      const results = await session.run(feeds);
+      signal.throwIfAborted();
+
+      onProgress({ percentage: 85, phase: 'uploading', message: 'Collecting outputs' });
+      const requested = parameters.outputs.length > 0
+        ? parameters.outputs
+        : session.outputNames.map((tensorName) => ({ tensorName, payloadType: 'Json' as const, fileFormat: null }));
+
+      const outputs: RuntimeOutputTensor[] = [];
+      for (const output of requested) {
+        const tensor = results[output.tensorName];
+        if (tensor) {
+          outputs.push(
+            await toOutputTensor(subtask.id, subtask.taskId, output.tensorName, tensor, output.payloadType, output.fileFormat, signal)
+          );
+        }
+      }
+
+      return {
+        outputs,
+        metrics: {
+          durationSeconds: (performance.now() - startedAt) / 1000,
+          device: 'wasm'
+        }
+      };
+    } finally {
+      await session.release();
+    }
+  }
+});
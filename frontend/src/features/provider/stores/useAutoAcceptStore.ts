@@ -0,0 +1,107 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ProviderTaskType } from '../types';
+
+export interface QuietHours {
+  enabled: boolean;
+  /** Local time, `HH:MM`. */
+  start: string;
+  /** Local time, `HH:MM`. May be earlier than `start` to span midnight. */
+  end: string;
+}
+
+export interface AutoAcceptPolicy {
+  minEstimatedEarnings: number;
+  maxConcurrentSubtasks: number;
+  quietHours: QuietHours;
+  taskTypes: ProviderTaskType[];
+}
+
+export type AutoAcceptActivity = 'idle' | 'evaluating' | 'quiet-hours' | 'at-capacity';
+
+interface AutoAcceptState {
+  enabled: boolean;
+  policy: AutoAcceptPolicy;
+  activity: AutoAcceptActivity;
+  lastEvaluatedAt: string | null;
+  lastAcceptedAt: string | null;
+  acceptedCount: number;
+  lastMessage: string | null;
+  setEnabled: (enabled: boolean) => void;
+  updatePolicy: (patch: Partial<AutoAcceptPolicy>) => void;
+  recordEvaluation: (activity: AutoAcceptActivity, message?: string | null) => void;
+  recordAcceptance: (subtaskId: string) => void;
+}
+
+/** Task types some provider runtime can execute; training has no runtime yet. */
+export const EXECUTABLE_TASK_TYPES: ProviderTaskType[] = ['Inference'];
+
+export const DEFAULT_AUTO_ACCEPT_POLICY: AutoAcceptPolicy = {
+  minEstimatedEarnings: 0,
+  maxConcurrentSubtasks: 1,
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00'
+  },
+  taskTypes: ['Inference']
+};
+
+export const useAutoAcceptStore = create<AutoAcceptState>()(
+  persist(
+    (set) => ({
+      enabled: false,
+      policy: DEFAULT_AUTO_ACCEPT_POLICY,
+      activity: 'idle',
+      lastEvaluatedAt: null,
+      lastAcceptedAt: null,
+      acceptedCount: 0,
+      lastMessage: null,
+      setEnabled: (enabled) => set({ enabled, activity: 'idle', lastMessage: null }),
+      updatePolicy: (patch) =>
+        set((state) => ({
+          policy: {
+            ...state.policy,
+            ...patch
+          }
+        })),
+      recordEvaluation: (activity, message) =>
+        set((state) => ({
+          activity,
+          lastEvaluatedAt: new Date().toISOString(),
+          lastMessage: message === undefined ? state.lastMessage : message
+        })),
+      recordAcceptance: (subtaskId) =>
+        set((state) => ({
+          lastAcceptedAt: new Date().toISOString(),
+          acceptedCount: state.acceptedCount + 1,
+          lastMessage: `Accepted subtask ${subtaskId.slice(0, 8)}`
+        }))
+    }),
+    {
+      name: 'provider-auto-accept',
+      version: 1,
+      // Version 0 opted providers into training, which every runtime refuses.
+      migrate: (persisted, version) => {
+        const state = persisted as Pick<AutoAcceptState, 'enabled' | 'policy'>;
+        if (version < 1 && state?.policy) {
+          return {
+            ...state,
+            policy: {
+              ...state.policy,
+              taskTypes: state.policy.taskTypes.filter((taskType) =>
+                EXECUTABLE_TASK_TYPES.includes(taskType)
+              )
+            }
+          };
+        }
+        return state;
+      },
+      // Only the provider's choices survive a reload; activity is per session.
+      partialize: (state) => ({
+        enabled: state.enabled,
+        policy: state.policy
+      })
+    }
+  )
+);
@@ -18,6 +18,7 @@ interface ActiveExecution {
   progress: ExecutionProgress;
   results?: ProviderSubtaskExecutionResult;
   errorMessage?: string;
+  lastHeartbeatAt?: string;
 }
 
 interface ProviderExecutionState {
@@ -27,8 +28,9 @@ interface ProviderExecutionState {
   syncActiveSubtask: (subtask: ProviderSubtaskDto) => void;
   setPhase: (phase: ExecutionPhase, message?: string) => void;
   setProgress: (progress: Partial<ExecutionProgress>) => void;
-  setResults: (results: ProviderSubtaskExecutionResult) => void;
+  setResults: (results: ProviderSubtaskExecutionResult, message?: string) => void;
   failExecution: (message: string) => void;
+  recordHeartbeat: (timestamp: string) => void;
   clearActive: () => void;
   clearHistory: () => void;
   updateActiveStatus: (status: SubtaskStatus, progress?: number) => void;
@@ -48,7 +50,7 @@ export const useProviderExecutionStore = create<ProviderExecutionState>()(
             startedAt: timestamp,
             progress: {
               percentage: subtask.progress ?? 0,
-              message: 'Preparing browser execution environment',
+              message: 'Preparing execution environment',
               lastUpdated: timestamp
             }
           }
@@ -118,7 +120,7 @@ export const useProviderExecutionStore = create<ProviderExecutionState>()(
           }
         };
       }),
-    setResults: (results) =>
+    setResults: (results, message = 'Execution completed') =>
       set((state) => {
         if (!state.active) {
           return state;
@@ -131,7 +133,7 @@ export const useProviderExecutionStore = create<ProviderExecutionState>()(
           results,
           progress: {
             percentage: 100,
-            message: 'Execution completed',
+            message,
             lastUpdated: new Date().toISOString()
           }
         };
@@ -160,6 +162,19 @@ export const useProviderExecutionStore = create<ProviderExecutionState>()(
           }
         };
       }),
+    recordHeartbeat: (timestamp) =>
+      set((state) => {
+        if (!state.active) {
+          return state;
+        }
+
+        return {
+          active: {
+            ...state.active,
+            lastHeartbeatAt: timestamp
+          }
+        };
+      }),
     clearActive: () =>
       set({
         active: undefined
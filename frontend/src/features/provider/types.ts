@@ -1,4 +1,6 @@
-export type SubtaskStatus = 'Pending' | 'Assigned' | 'Executing' | 'Completed' | 'Failed';
+import type { TaskStatus } from '../../shared/api/generated/contract';
+
+export type SubtaskStatus = 'Pending' | 'Assigned' | 'Executing' | 'Completed' | 'Failed' | 'Cancelled';
 
 export type ProviderTaskType = 'Train' | 'Inference';
 
@@ -10,6 +12,18 @@ export interface ResourceSpecification {
   dataSizeGb: number;
 }
 
+export interface SubtaskOnnxModelMetadata {
+  blobUri?: string | null;
+  readUri?: string | null;
+  resolvedReadUri?: string | null;
+}
+
+export interface SubtaskExecutionSpec {
+  runMode?: string | null;
+  onnxModelUrl?: string | null;
+  resolvedOnnxModelUri?: string | null;
+}
+
 export interface ProviderSubtaskDto {
   id: string;
   taskId: string;
@@ -22,6 +36,28 @@ export interface ProviderSubtaskDto {
   createdAtUtc: string;
   durationSeconds?: number | null;
   costUsd?: number | null;
+  onnxModel?: SubtaskOnnxModelMetadata | null;
+  executionSpec?: SubtaskExecutionSpec | null;
+}
+
+export interface ProviderSubtaskHistoryDto extends ProviderSubtaskDto {
+  deviceIdentifier: string;
+  startedAtUtc?: string | null;
+  completedAtUtc?: string | null;
+}
+
+export interface ProviderSubtaskExecutionMetrics {
+  durationSeconds: number;
+  device: string;
+  memoryGBytes?: number | null;
+}
+
+export interface ProviderSubtaskOutputArtifact {
+  tensorName: string;
+  payloadType: number;
+  format?: string | null;
+  fileUrl?: string | null;
+  payload?: string | null;
 }
 
 export interface ProviderSubtaskExecutionResult {
@@ -29,31 +65,68 @@ export interface ProviderSubtaskExecutionResult {
   completedAtUtc: string;
   outputSummary: string;
   artifacts: Record<string, unknown>;
+  metrics?: ProviderSubtaskExecutionMetrics;
+  outputs?: ProviderSubtaskOutputArtifact[];
+}
+
+export type SubtaskFailureReason =
+  | 'invalid-parameters'
+  | 'runtime-unavailable'
+  | 'download-failed'
+  | 'upload-failed'
+  | 'execution-error'
+  | 'submission-failed'
+  | 'cancelled';
+
+export interface SubtaskFailureReport {
+  subtaskId: string;
+  failedAtUtc: string;
+  reason: SubtaskFailureReason;
+  error: string;
+  progress?: number;
+  runtime?: string | null;
 }
 
 export interface ProgressEventPayload {
   SubtaskId: string;
-  AssignedProviderId: string;
+  AssignedProviderId: string | null;
   Progress: number;
-  LastHeartbeatAtUtc?: string;
+  LastHeartbeatAtUtc?: string | null;
+  Subtask?: ProviderSubtaskDto | null;
 }
 
 export interface SubtaskAcceptedEventPayload {
   SubtaskId: string;
-  AssignedProviderId: string;
+  AssignedProviderId: string | null;
   Status: SubtaskStatus;
-  AssignedAtUtc: string;
+  AssignedAtUtc: string | null;
+  Subtask?: ProviderSubtaskDto | null;
 }
 
 export interface SubtaskCompleteEventPayload {
   SubtaskId: string;
-  AssignedProviderId: string;
-  CompletedAtUtc: string;
+  AssignedProviderId: string | null;
+  CompletedAtUtc: string | null;
+  Subtask?: ProviderSubtaskDto | null;
+  Results?: unknown;
+}
+
+export interface SubtaskFailureEventPayload {
+  SubtaskId: string;
+  AssignedProviderId: string | null;
+  FailedAtUtc?: string | null;
+  WasReassigned: boolean;
+  TaskFailed: boolean;
+  Subtask?: ProviderSubtaskDto | null;
+  Error?: unknown;
 }
 
 export interface AvailableSubtasksChangedEventPayload {
   SubtaskId: string;
+  TaskId?: string | null;
   Status: SubtaskStatus;
-  AcceptedByProviderId?: string;
+  TaskStatus?: TaskStatus | null;
+  AcceptedByProviderId?: string | null;
   TimestampUtc: string;
+  Subtask?: ProviderSubtaskDto | null;
 }
\ No newline at end of file
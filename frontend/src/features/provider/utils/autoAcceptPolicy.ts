@@ -0,0 +1,119 @@
+import type { HardwareMetrics } from '../../../shared/services/DesktopBridge';
+import type { AutoAcceptPolicy, QuietHours } from '../stores/useAutoAcceptStore';
+import type { ProviderSubtaskDto, ResourceSpecification } from '../types';
+
+// Inputs and model have to arrive before execution starts; anything slower
+// than this on the current downlink would stall the heartbeat window.
+const MAX_TRANSFER_SECONDS = 30 * 60;
+
+const MEGABITS_PER_GB = 8000;
+
+const parseClockMinutes = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+};
+
+export const isWithinQuietHours = (quietHours: QuietHours, now: Date): boolean => {
+  if (!quietHours.enabled) {
+    return false;
+  }
+
+  const start = parseClockMinutes(quietHours.start);
+  const end = parseClockMinutes(quietHours.end);
+  if (start === null || end === null || start === end) {
+    return false;
+  }
+
+  const current = now.getHours() * 60 + now.getMinutes();
+  return start < end ? current >= start && current < end : current >= start || current < end;
+};
+
+/**
+ * Lists the reasons a subtask does not fit this machine; an empty list means
+ * it fits. Unknown metrics only pass when the subtask does not need them, so
+ * in the browser, which never reports video memory, GPU subtasks never fit.
+ */
+export const findResourceShortfalls = (
+  requirements: ResourceSpecification,
+  metrics: HardwareMetrics | null
+): string[] => {
+  const shortfalls: string[] = [];
+
+  // gpuUnits is expressed in GB of video memory.
+  if (requirements.gpuUnits > 0 && (metrics?.videoMemoryAvailable ?? 0) < requirements.gpuUnits) {
+    shortfalls.push(`needs ${requirements.gpuUnits} GB VRAM`);
+  }
+
+  if (requirements.cpuCores > 0 && (metrics?.cpuCores ?? 0) < requirements.cpuCores) {
+    shortfalls.push(`needs ${requirements.cpuCores} CPU cores`);
+  }
+
+  const storageGb = requirements.diskGb + requirements.dataSizeGb;
+  if (storageGb > 0 && (metrics?.storageFreeGb ?? 0) < storageGb) {
+    shortfalls.push(`needs ${storageGb} GB free storage`);
+  }
+
+  const transferGb = requirements.networkGb + requirements.dataSizeGb;
+  if (transferGb > 0) {
+    const downlink = metrics?.networkDownlinkMbps ?? 0;
+    if (downlink <= 0 || (transferGb * MEGABITS_PER_GB) / downlink > MAX_TRANSFER_SECONDS) {
+      shortfalls.push(`needs a faster downlink for ${transferGb} GB`);
+    }
+  }
+
+  return shortfalls;
+};
+
+export const describePolicyMismatch = (
+  subtask: ProviderSubtaskDto,
+  policy: AutoAcceptPolicy
+): string | null => {
+  if (subtask.status !== 'Pending') {
+    return 'no longer pending';
+  }
+
+  if (!policy.taskTypes.includes(subtask.taskType)) {
+    return `${subtask.taskType} tasks are filtered out`;
+  }
+
+  if (subtask.estimatedEarnings < policy.minEstimatedEarnings) {
+    return 'earnings below minimum';
+  }
+
+  return null;
+};
+
+/**
+ * Picks the subtasks to accept, best paying first, limited to the slots the
+ * concurrency cap leaves open.
+ */
+export const selectSubtasksToAccept = (
+  available: ProviderSubtaskDto[],
+  policy: AutoAcceptPolicy,
+  metrics: HardwareMetrics | null,
+  activeCount: number
+): ProviderSubtaskDto[] => {
+  const openSlots = Math.max(0, policy.maxConcurrentSubtasks - activeCount);
+  if (openSlots === 0) {
+    return [];
+  }
+
+  return available
+    .filter(
+      (subtask) =>
+        describePolicyMismatch(subtask, policy) === null &&
+        findResourceShortfalls(subtask.resourceRequirements, metrics).length === 0
+    )
+    .sort((a, b) => b.estimatedEarnings - a.estimatedEarnings)
+    .slice(0, openSlots);
+};
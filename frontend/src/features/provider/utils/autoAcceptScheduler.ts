@@ -0,0 +1,258 @@
+import type { QueryClient } from '@tanstack/react-query';
+import { DesktopBridge, type HardwareMetrics } from '../../../shared/services/DesktopBridge';
+import { TaskHubConnection } from '../../../shared/services/TaskHubConnection';
+import { isApiError } from '../../../shared/utils/apiError';
+import { getAuthUser } from '../../auth/stores/authStore';
+import { acceptSubtask, fetchAvailableSubtasks, fetchDeviceSubtasks } from '../api';
+import { invalidateAvailableSubtasksKey } from '../queries/useAvailableSubtasksQuery';
+import { deviceIdentifierQueryKey } from '../queries/useDeviceIdentifierQuery';
+import { invalidateDeviceSubtasksKey } from '../queries/useDeviceSubtasksQuery';
+import { executeSubtask } from '../runtime/executionOrchestrator';
+import { useAutoAcceptStore } from '../stores/useAutoAcceptStore';
+import type { ProviderSubtaskDto } from '../types';
+import { isWithinQuietHours, selectSubtasksToAccept } from './autoAcceptPolicy';
+
+const EVALUATION_INTERVAL_MS = 30000;
+const EVENT_DEBOUNCE_MS = 1500;
+
+const acceptViaBestChannel = async (subtaskId: string) => {
+  // The hub accept binds the assignment to this connection's device, which
+  // is what triggers execution on the desktop host. Its errors carry no code,
+  // so any failure is retried over REST, which reports why it was refused.
+  if (TaskHubConnection.hasRegisteredDevice()) {
+    try {
+      await TaskHubConnection.invoke('AcceptSubtask', subtaskId);
+      return;
+    } catch (error) {
+      console.info('[AutoAccept] hub accept failed, retrying over REST', subtaskId, error);
+    }
+  }
+
+  await acceptSubtask(subtaskId);
+};
+
+const BYTES_PER_GB = 1024 ** 3;
+
+interface NavigatorHints {
+  deviceMemory?: number;
+  connection?: { downlink?: number; rtt?: number };
+}
+
+/**
+ * What the browser reveals about the machine. Storage is the origin's quota,
+ * the downlink is capped by the browser (10 Mbps in Chromium) and video memory
+ * is never exposed, so subtasks that need a GPU are not auto-accepted here.
+ */
+const estimateBrowserMetrics = async (): Promise<HardwareMetrics> => {
+  const hints = navigator as Navigator & NavigatorHints;
+  let storageFreeGb: number | null = null;
+  let storageTotalGb: number | null = null;
+  try {
+    const estimate = await navigator.storage?.estimate();
+    if (estimate?.quota !== undefined) {
+      storageTotalGb = estimate.quota / BYTES_PER_GB;
+      storageFreeGb = (estimate.quota - (estimate.usage ?? 0)) / BYTES_PER_GB;
+    }
+  } catch {
+    // Storage estimates are refused in some private windows.
+  }
+
+  return {
+    timestamp: new Date().toISOString(),
+    cpuCores: navigator.hardwareConcurrency || null,
+    cpuFrequencyGhz: null,
+    videoMemoryAvailable: null,
+    gpuName: null,
+    gpuVendor: null,
+    memoryTotalGb: hints.deviceMemory ?? null,
+    memoryAvailableGb: null,
+    networkDownlinkMbps: hints.connection?.downlink ?? null,
+    networkLatencyMs: hints.connection?.rtt ?? null,
+    storageFreeGb,
+    storageTotalGb
+  };
+};
+
+const isInProgress = (subtask: ProviderSubtaskDto) =>
+  subtask.status === 'Assigned' || subtask.status === 'Executing';
+
+/**
+ * Opt-in loop that accepts available subtasks matching the provider's
+ * auto-accept policy and hardware. Re-evaluates on a timer and whenever the
+ * hub reports a change to the available pool. Returns a cleanup function.
+ */
+export const registerAutoAcceptScheduler = (queryClient: QueryClient): (() => void) => {
+  const inFlight = new Set<string>();
+  let evaluating = false;
+  let pendingEvaluation = false;
+  let debounceTimer: number | null = null;
+  let intervalTimer: number | null = null;
+
+  const readMetrics = async (): Promise<HardwareMetrics | null> => {
+    if (!DesktopBridge.isAvailable()) {
+      return estimateBrowserMetrics();
+    }
+
+    try {
+      return await DesktopBridge.getHardwareMetrics();
+    } catch {
+      return null;
+    }
+  };
+
+  const countActiveSubtasks = async () => {
+    const deviceIdentifier = queryClient.getQueryData<string | null>(deviceIdentifierQueryKey);
+    if (deviceIdentifier) {
+      const deviceSubtasks = await queryClient.fetchQuery({
+        queryKey: [...invalidateDeviceSubtasksKey, deviceIdentifier],
+        queryFn: () => fetchDeviceSubtasks(deviceIdentifier),
+        staleTime: 1000 * 15
+      });
+
+      deviceSubtasks.forEach((subtask) => {
+        if (!isInProgress(subtask)) {
+          inFlight.delete(subtask.id);
+        }
+      });
+
+      const active = new Set(deviceSubtasks.filter(isInProgress).map((subtask) => subtask.id));
+      inFlight.forEach((id) => active.add(id));
+      return active.size;
+    }
+
+    return inFlight.size;
+  };
+
+  const runInBrowser = (subtask: ProviderSubtaskDto) => {
+    void executeSubtask(subtask)
+      .catch((error) => {
+        console.warn('[AutoAccept] browser execution failed', error);
+      })
+      .finally(() => {
+        inFlight.delete(subtask.id);
+      });
+  };
+
+  const evaluate = async () => {
+    if (evaluating) {
+      pendingEvaluation = true;
+      return;
+    }
+
+    const { enabled, policy, recordEvaluation, recordAcceptance } = useAutoAcceptStore.getState();
+    if (!enabled || getAuthUser()?.role !== 'Provider') {
+      return;
+    }
+
+    if (isWithinQuietHours(policy.quietHours, new Date())) {
+      recordEvaluation('quiet-hours', 'Paused during quiet hours');
+      return;
+    }
+
+    evaluating = true;
+    recordEvaluation('evaluating');
+
+    try {
+      const activeCount = await countActiveSubtasks();
+      if (activeCount >= policy.maxConcurrentSubtasks) {
+        recordEvaluation('at-capacity', `Running ${activeCount} of ${policy.maxConcurrentSubtasks} subtasks`);
+        return;
+      }
+
+      const [metrics, available] = await Promise.all([
+        readMetrics(),
+        queryClient.fetchQuery({
+          queryKey: invalidateAvailableSubtasksKey,
+          queryFn: fetchAvailableSubtasks,
+          staleTime: 1000 * 15
+        })
+      ]);
+
+      const candidates = selectSubtasksToAccept(
+        available.filter((subtask) => !inFlight.has(subtask.id)),
+        policy,
+        metrics,
+        activeCount
+      );
+
+      for (const subtask of candidates) {
+        try {
+          await acceptViaBestChannel(subtask.id);
+        } catch (error) {
+          // Another provider won the race; try the next candidate. Anything
+          // else ends this evaluation and is surfaced in the status.
+          if (isApiError(error, 'subtask_unavailable', 'conflict')) {
+            console.info('[AutoAccept] subtask was taken by another provider', subtask.id);
+            continue;
+          }
+          throw error;
+        }
+
+        inFlight.add(subtask.id);
+        recordAcceptance(subtask.id);
+
+        // Without the desktop host nobody else will pick up the execution request.
+        if (!DesktopBridge.isAvailable()) {
+          runInBrowser(subtask);
+        }
+      }
+
+      if (candidates.length > 0) {
+        void queryClient.invalidateQueries({ queryKey: invalidateAvailableSubtasksKey });
+        void queryClient.invalidateQueries({ queryKey: invalidateDeviceSubtasksKey });
+      }
+
+      recordEvaluation('idle', candidates.length === 0 ? 'No matching subtasks right now' : undefined);
+    } catch (error) {
+      console.warn('[AutoAccept] evaluation failed', error);
+      recordEvaluation('idle', error instanceof Error ? error.message : 'Evaluation failed');
+    } finally {
+      evaluating = false;
+      if (pendingEvaluation) {
+        pendingEvaluation = false;
+        scheduleEvaluation();
+      }
+    }
+  };
+
+  const scheduleEvaluation = () => {
+    if (debounceTimer !== null) {
+      window.clearTimeout(debounceTimer);
+    }
+
+    debounceTimer = window.setTimeout(() => {
+      debounceTimer = null;
+      void evaluate();
+    }, EVENT_DEBOUNCE_MS);
+  };
+
+  const releaseSubtask = (payload: { SubtaskId: string }) => {
+    if (inFlight.delete(payload.SubtaskId)) {
+      scheduleEvaluation();
+    }
+  };
+
+  const unsubscribers = [
+    TaskHubConnection.on('OnAvailableSubtasksChanged', scheduleEvaluation),
+    TaskHubConnection.on('OnComplete', releaseSubtask),
+    TaskHubConnection.on('OnFailure', releaseSubtask),
+    useAutoAcceptStore.subscribe((state, previous) => {
+      if (state.enabled !== previous.enabled || state.policy !== previous.policy) {
+        scheduleEvaluation();
+      }
+    })
+  ];
+
+  intervalTimer = window.setInterval(() => void evaluate(), EVALUATION_INTERVAL_MS);
+  scheduleEvaluation();
+
+  return () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    if (debounceTimer !== null) {
+      window.clearTimeout(debounceTimer);
+    }
+    if (intervalTimer !== null) {
+      window.clearInterval(intervalTimer);
+    }
+  };
+};
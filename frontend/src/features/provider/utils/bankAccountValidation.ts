@@ -0,0 +1,256 @@
+/** Payout rail used for a country; it decides which bank fields are asked for. */
+export type BankScheme = 'Iban' | 'UsAch' | 'UkSortCode' | 'CaEft' | 'AuBsb';
+
+export type BankAccountField =
+  | 'iban'
+  | 'bic'
+  | 'routingNumber'
+  | 'sortCode'
+  | 'transitNumber'
+  | 'institutionNumber'
+  | 'bsb'
+  | 'accountNumber';
+
+export type BankAccountValues = Partial<Record<BankAccountField, string>>;
+export type BankAccountErrors = Partial<Record<BankAccountField, string>>;
+
+export interface SettlementCountry {
+  code: string;
+  name: string;
+  scheme: BankScheme;
+}
+
+export const SETTLEMENT_COUNTRIES: SettlementCountry[] = [
+  { code: 'US', name: 'United States', scheme: 'UsAch' },
+  { code: 'GB', name: 'United Kingdom', scheme: 'UkSortCode' },
+  { code: 'CA', name: 'Canada', scheme: 'CaEft' },
+  { code: 'AU', name: 'Australia', scheme: 'AuBsb' },
+  { code: 'AT', name: 'Austria', scheme: 'Iban' },
+  { code: 'BE', name: 'Belgium', scheme: 'Iban' },
+  { code: 'BG', name: 'Bulgaria', scheme: 'Iban' },
+  { code: 'HR', name: 'Croatia', scheme: 'Iban' },
+  { code: 'CY', name: 'Cyprus', scheme: 'Iban' },
+  { code: 'CZ', name: 'Czechia', scheme: 'Iban' },
+  { code: 'DK', name: 'Denmark', scheme: 'Iban' },
+  { code: 'EE', name: 'Estonia', scheme: 'Iban' },
+  { code: 'FI', name: 'Finland', scheme: 'Iban' },
+  { code: 'FR', name: 'France', scheme: 'Iban' },
+  { code: 'DE', name: 'Germany', scheme: 'Iban' },
+  { code: 'GR', name: 'Greece', scheme: 'Iban' },
+  { code: 'HU', name: 'Hungary', scheme: 'Iban' },
+  { code: 'IE', name: 'Ireland', scheme: 'Iban' },
+  { code: 'IT', name: 'Italy', scheme: 'Iban' },
+  { code: 'LV', name: 'Latvia', scheme: 'Iban' },
+  { code: 'LI', name: 'Liechtenstein', scheme: 'Iban' },
+  { code: 'LT', name: 'Lithuania', scheme: 'Iban' },
+  { code: 'LU', name: 'Luxembourg', scheme: 'Iban' },
+  { code: 'MT', name: 'Malta', scheme: 'Iban' },
+  { code: 'NL', name: 'Netherlands', scheme: 'Iban' },
+  { code: 'NO', name: 'Norway', scheme: 'Iban' },
+  { code: 'PL', name: 'Poland', scheme: 'Iban' },
+  { code: 'PT', name: 'Portugal', scheme: 'Iban' },
+  { code: 'RO', name: 'Romania', scheme: 'Iban' },
+  { code: 'SK', name: 'Slovakia', scheme: 'Iban' },
+  { code: 'SI', name: 'Slovenia', scheme: 'Iban' },
+  { code: 'ES', name: 'Spain', scheme: 'Iban' },
+  { code: 'SE', name: 'Sweden', scheme: 'Iban' },
+  { code: 'CH', name: 'Switzerland', scheme: 'Iban' }
+];
+
+export const resolveBankScheme = (countryCode: string): BankScheme =>
+  SETTLEMENT_COUNTRIES.find((country) => country.code === countryCode)?.scheme ?? 'Iban';
+
+// Full IBAN length per country, from the SWIFT IBAN registry.
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24,
+  AT: 20,
+  BE: 16,
+  BG: 22,
+  CH: 21,
+  CY: 28,
+  CZ: 24,
+  DE: 22,
+  DK: 18,
+  EE: 20,
+  ES: 24,
+  FI: 18,
+  FR: 27,
+  GB: 22,
+  GI: 23,
+  GR: 27,
+  HR: 21,
+  HU: 28,
+  IE: 22,
+  IS: 26,
+  IT: 27,
+  LI: 21,
+  LT: 20,
+  LU: 20,
+  LV: 21,
+  MC: 27,
+  MT: 31,
+  NL: 18,
+  NO: 15,
+  PL: 28,
+  PT: 25,
+  RO: 24,
+  SE: 24,
+  SI: 19,
+  SK: 24,
+  SM: 27,
+  VA: 22
+};
+
+/** Uppercase without spaces or dashes, the form banks expect on the wire. */
+export const normalizeBankValue = (value: string) => value.replace(/[\s-]/g, '').toUpperCase();
+
+// ISO 13616: move the first four characters to the end, turn letters into
+// 10..35 and check the resulting number is 1 modulo 97. The number is far
+// beyond 2^53, so the remainder is carried digit by digit.
+const hasValidIbanChecksum = (iban: string) => {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const character of rearranged) {
+    const digits = /\d/.test(character) ? character : String(character.charCodeAt(0) - 55);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+};
+
+/** Returns an error message, or `null` when the IBAN is valid for `countryCode`. */
+export const validateIban = (value: string, countryCode: string): string | null => {
+  const iban = normalizeBankValue(value);
+  if (!iban) {
+    return 'IBAN is required';
+  }
+
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban)) {
+    return 'IBAN must start with a country code and two check digits';
+  }
+
+  const ibanCountry = iban.slice(0, 2);
+  if (ibanCountry !== countryCode) {
+    return `This IBAN belongs to ${ibanCountry}, not ${countryCode}`;
+  }
+
+  const expectedLength = IBAN_LENGTHS[ibanCountry];
+  if (expectedLength && iban.length !== expectedLength) {
+    return `A ${ibanCountry} IBAN has ${expectedLength} characters, this one has ${iban.length}`;
+  }
+
+  if (!hasValidIbanChecksum(iban)) {
+    return 'IBAN check digits do not match, please check for a typo';
+  }
+
+  return null;
+};
+
+/** ISO 9362: bank (4 letters), country (2 letters), location (2) and optional branch (3). */
+export const validateBic = (value: string, countryCode: string): string | null => {
+  const bic = normalizeBankValue(value);
+  if (!bic) {
+    return 'BIC/SWIFT code is required';
+  }
+
+  if (!/^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic)) {
+    return 'BIC/SWIFT code has 8 or 11 characters, e.g. BNPAFRPP';
+  }
+
+  if (bic.slice(4, 6) !== countryCode) {
+    return `This BIC belongs to ${bic.slice(4, 6)}, not ${countryCode}`;
+  }
+
+  return null;
+};
+
+// The first two digits are the Federal Reserve district: 00-12 for banks,
+// 21-32 for thrifts, 61-72 for electronic and 80 for traveler's checks.
+const isValidAbaPrefix = (prefix: number) =>
+  prefix <= 12 || (prefix >= 21 && prefix <= 32) || (prefix >= 61 && prefix <= 72) || prefix === 80;
+
+/** Nine digits with the ABA 3-7-1 weighted checksum. */
+export const validateRoutingNumber = (value: string): string | null => {
+  const routingNumber = normalizeBankValue(value);
+  if (!routingNumber) {
+    return 'Routing number is required';
+  }
+
+  if (!/^\d{9}$/.test(routingNumber)) {
+    return 'Routing number has 9 digits';
+  }
+
+  const digits = [...routingNumber].map(Number);
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+  const checksum = digits.reduce((sum, digit, index) => sum + digit * weights[index], 0);
+  if (checksum % 10 !== 0 || !isValidAbaPrefix(Number(routingNumber.slice(0, 2)))) {
+    return 'This is not a valid ABA routing number, please check for a typo';
+  }
+
+  return null;
+};
+
+const validateDigits = (value: string, label: string, minLength: number, maxLength = minLength): string | null => {
+  const digits = normalizeBankValue(value);
+  if (!digits) {
+    return `${label} is required`;
+  }
+
+  const length = minLength === maxLength ? `${minLength}` : `${minLength} to ${maxLength}`;
+  if (!/^\d+$/.test(digits) || digits.length < minLength || digits.length > maxLength) {
+    return `${label} has ${length} digits`;
+  }
+
+  return null;
+};
+
+interface BankFieldRule {
+  field: BankAccountField;
+  validate: (value: string, countryCode: string) => string | null;
+}
+
+const SCHEME_RULES: Record<BankScheme, BankFieldRule[]> = {
+  Iban: [
+    { field: 'iban', validate: validateIban },
+    { field: 'bic', validate: validateBic }
+  ],
+  UsAch: [
+    { field: 'routingNumber', validate: validateRoutingNumber },
+    { field: 'accountNumber', validate: (value) => validateDigits(value, 'Account number', 4, 17) }
+  ],
+  // Sort codes are often written 12-34-56; dashes are dropped before checking.
+  UkSortCode: [
+    { field: 'sortCode', validate: (value) => validateDigits(value, 'Sort code', 6) },
+    { field: 'accountNumber', validate: (value) => validateDigits(value, 'Account number', 8) }
+  ],
+  CaEft: [
+    { field: 'transitNumber', validate: (value) => validateDigits(value, 'Transit number', 5) },
+    { field: 'institutionNumber', validate: (value) => validateDigits(value, 'Institution number', 3) },
+    { field: 'accountNumber', validate: (value) => validateDigits(value, 'Account number', 7, 12) }
+  ],
+  AuBsb: [
+    { field: 'bsb', validate: (value) => validateDigits(value, 'BSB', 6) },
+    { field: 'accountNumber', validate: (value) => validateDigits(value, 'Account number', 5, 9) }
+  ]
+};
+
+/** The bank fields a country asks for, in display order. */
+export const resolveBankFields = (countryCode: string): BankAccountField[] =>
+  SCHEME_RULES[resolveBankScheme(countryCode)].map((rule) => rule.field);
+
+/** Per-field errors for the fields of `countryCode`; an empty object means the account is valid. */
+export const validateBankAccount = (countryCode: string, values: BankAccountValues): BankAccountErrors => {
+  const errors: BankAccountErrors = {};
+  SCHEME_RULES[resolveBankScheme(countryCode)].forEach(({ field, validate }) => {
+    const error = validate(values[field] ?? '', countryCode);
+    if (error) {
+      errors[field] = error;
+    }
+  });
+  return errors;
+};
+
+/** The normalized values of the fields `countryCode` asks for, ready to be sent. */
+export const normalizeBankAccount = (countryCode: string, values: BankAccountValues): BankAccountValues =>
+  Object.fromEntries(resolveBankFields(countryCode).map((field) => [field, normalizeBankValue(values[field] ?? '')]));
@@ -0,0 +1,72 @@
+import { utcToLocalTime } from '../../../shared/utils/dateTime';
+import { MINIMUM_SETTLEMENT_AMOUNT, type LedgerEntry } from '../api/financeApi';
+import type { ProviderSubtaskHistoryDto } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Window used to average daily earnings for the payout projection. */
+export const PROJECTION_WINDOW_DAYS = 30;
+
+/** Credits paid for a task; top-ups and adjustments carry no task id. */
+export const isEarningEntry = (entry: LedgerEntry) => entry.kind === 'Credit' && entry.taskId !== null;
+
+export const resolveSubtaskEarnings = (subtask: ProviderSubtaskHistoryDto) =>
+  subtask.costUsd ?? subtask.estimatedEarnings;
+
+export interface DeviceEarnings {
+  deviceIdentifier: string;
+  earnings: number;
+  completedSubtasks: number;
+  busyHours: number;
+}
+
+export const summarizeDeviceEarnings = (history: ProviderSubtaskHistoryDto[]): DeviceEarnings[] => {
+  const byDevice = new Map<string, DeviceEarnings>();
+  history
+    .filter((subtask) => subtask.status === 'Completed')
+    .forEach((subtask) => {
+      const current = byDevice.get(subtask.deviceIdentifier) ?? {
+        deviceIdentifier: subtask.deviceIdentifier,
+        earnings: 0,
+        completedSubtasks: 0,
+        busyHours: 0
+      };
+      current.earnings += resolveSubtaskEarnings(subtask);
+      current.completedSubtasks += 1;
+      current.busyHours += (subtask.durationSeconds ?? 0) / 3600;
+      byDevice.set(subtask.deviceIdentifier, current);
+    });
+
+  return [...byDevice.values()];
+};
+
+export interface PayoutProjection {
+  /** `null` when nothing was earned recently, so no date can be projected. */
+  eligibleAt: Date | null;
+  averageDailyEarnings: number;
+  remaining: number;
+}
+
+/**
+ * When the balance reaches the settlement minimum at the average daily
+ * earnings of the last `PROJECTION_WINDOW_DAYS` days.
+ */
+export const projectPayoutDate = (balance: number, entries: LedgerEntry[], now: Date): PayoutProjection => {
+  const windowStart = now.getTime() - PROJECTION_WINDOW_DAYS * DAY_MS;
+  const recentEarnings = entries
+    .filter((entry) => isEarningEntry(entry) && utcToLocalTime(entry.occurredAtUtc).getTime() >= windowStart)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  const averageDailyEarnings = recentEarnings / PROJECTION_WINDOW_DAYS;
+  const remaining = Math.max(0, MINIMUM_SETTLEMENT_AMOUNT - balance);
+
+  if (remaining === 0) {
+    return { eligibleAt: now, averageDailyEarnings, remaining };
+  }
+
+  if (averageDailyEarnings <= 0) {
+    return { eligibleAt: null, averageDailyEarnings, remaining };
+  }
+
+  const days = Math.ceil(remaining / averageDailyEarnings);
+  return { eligibleAt: new Date(now.getTime() + days * DAY_MS), averageDailyEarnings, remaining };
+};
@@ -0,0 +1,121 @@
+import { escapeHtml, printHtmlDocument } from '../../../shared/utils/printDocument';
+import type { LedgerEntry, LedgerStatement } from '../api/financeApi';
+
+const CSV_COLUMNS = [
+  'Date (UTC)',
+  'Entry ID',
+  'Kind',
+  'Title',
+  'Detail',
+  'Source',
+  'Task ID',
+  'Amount',
+  'Balance after'
+];
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsvRow = (fields: Array<string | number | null>) =>
+  fields.map((field) => escapeCsvField(field === null ? '' : String(field))).join(',');
+
+const signedAmount = (entry: LedgerEntry) => (entry.kind === 'Credit' ? entry.amount : -entry.amount);
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+/** Last `count` calendar months as `YYYY-MM`, the current one first. */
+export const recentStatementMonths = (now: Date, count: number) =>
+  Array.from({ length: count }, (_, offset) => {
+    const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - offset, 1));
+    return `${month.getUTCFullYear()}-${String(month.getUTCMonth() + 1).padStart(2, '0')}`;
+  });
+
+export const formatStatementMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString(undefined, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
+};
+
+export const statementFileName = (month: string, extension: 'csv') => `ledger-statement-${month}.${extension}`;
+
+/**
+ * One row per entry between an opening and a closing balance row, so the
+ * file reconciles on its own: opening + sum(amount) = closing.
+ */
+export const buildStatementCsv = (statement: LedgerStatement) => {
+  const rows = [
+    toCsvRow(CSV_COLUMNS),
+    toCsvRow([statement.periodStartUtc, null, null, 'Opening balance', null, null, null, null, formatAmount(statement.openingBalance)]),
+    ...statement.entries.map((entry) =>
+      toCsvRow([
+        entry.occurredAtUtc,
+        entry.entryId,
+        entry.kind,
+        entry.title,
+        entry.detail ?? null,
+        entry.source,
+        entry.taskId ?? null,
+        formatAmount(signedAmount(entry)),
+        formatAmount(entry.balanceAfter)
+      ])
+    ),
+    toCsvRow([statement.periodEndUtc, null, null, 'Closing balance', null, null, null, null, formatAmount(statement.closingBalance)])
+  ];
+
+  // Excel only detects UTF-8 with a byte order mark.
+  return new Blob(['\uFEFF', rows.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+};
+
+const buildStatementHtml = (statement: LedgerStatement) => {
+  const euro = new Intl.NumberFormat(undefined, { style: 'currency', currency: 'EUR' });
+  const title = `Ledger statement · ${formatStatementMonth(statement.month)}`;
+  const rows = statement.entries
+    .map(
+      (entry) => `<tr>
+  <td>${escapeHtml(new Date(entry.occurredAtUtc).toISOString().slice(0, 16).replace('T', ' '))}</td>
+  <td>${escapeHtml(entry.title)}${entry.detail ? `<div class="muted">${escapeHtml(entry.detail)}</div>` : ''}</td>
+  <td>${escapeHtml(entry.source)}</td>
+  <td class="mono">${escapeHtml(entry.entryId)}</td>
+  <td class="num">${escapeHtml(euro.format(signedAmount(entry)))}</td>
+  <td class="num">${escapeHtml(euro.format(entry.balanceAfter))}</td>
+</tr>`
+    )
+    .join('\n');
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; font-size: 12px; color: #0f172a; margin: 32px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { font-size: 10px; text-transform: uppercase; color: #64748b; }
+  .num { text-align: right; white-space: nowrap; }
+  .mono { font-family: ui-monospace, monospace; font-size: 10px; }
+  .muted { color: #64748b; }
+  .totals td { font-weight: 600; border-bottom: none; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="muted">${escapeHtml(statement.periodStartUtc)} – ${escapeHtml(statement.periodEndUtc)} (UTC)</div>
+<table>
+<thead><tr><th>Date (UTC)</th><th>Entry</th><th>Source</th><th>Entry ID</th><th class="num">Amount</th><th class="num">Balance after</th></tr></thead>
+<tbody>
+<tr class="totals"><td colspan="5">Opening balance</td><td class="num">${escapeHtml(euro.format(statement.openingBalance))}</td></tr>
+${rows}
+<tr class="totals"><td colspan="4">Credits ${escapeHtml(euro.format(statement.totalCredits))} · Debits ${escapeHtml(euro.format(statement.totalDebits))}</td><td class="num">Closing balance</td><td class="num">${escapeHtml(euro.format(statement.closingBalance))}</td></tr>
+</tbody>
+</table>
+</body>
+</html>`;
+};
+
+/** Prints the statement; returns false when pop-ups are blocked. */
+export const printStatement = (statement: LedgerStatement) => printHtmlDocument(buildStatementHtml(statement));
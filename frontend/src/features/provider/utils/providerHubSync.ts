@@ -0,0 +1,144 @@
+import type { QueryClient } from '@tanstack/react-query';
+import { TaskHubConnection } from '../../../shared/services/TaskHubConnection';
+import { invalidateAvailableSubtasksKey } from '../queries/useAvailableSubtasksQuery';
+import { invalidateDeviceSubtasksKey } from '../queries/useDeviceSubtasksQuery';
+import { cancelActiveExecution } from '../runtime/executionOrchestrator';
+import { useProviderExecutionStore } from '../stores/useProviderExecutionStore';
+import type { ProviderSubtaskDto, SubtaskStatus } from '../types';
+
+const upsertSubtask = (
+  current: ProviderSubtaskDto[] | undefined,
+  subtask: ProviderSubtaskDto
+): ProviderSubtaskDto[] | undefined => {
+  if (!current) {
+    return current;
+  }
+
+  const index = current.findIndex((entry) => entry.id === subtask.id);
+  if (index < 0) {
+    return [subtask, ...current];
+  }
+
+  const next = [...current];
+  next[index] = { ...current[index], ...subtask };
+  return next;
+};
+
+const patchSubtask = (
+  current: ProviderSubtaskDto[] | undefined,
+  subtaskId: string,
+  patch: Partial<ProviderSubtaskDto>
+): ProviderSubtaskDto[] | undefined => {
+  if (!current || !current.some((entry) => entry.id === subtaskId)) {
+    return current;
+  }
+
+  return current.map((entry) => (entry.id === subtaskId ? { ...entry, ...patch } : entry));
+};
+
+const removeSubtask = (current: ProviderSubtaskDto[] | undefined, subtaskId: string) =>
+  current?.filter((entry) => entry.id !== subtaskId);
+
+const describeFailure = (error: unknown): string => {
+  if (typeof error === 'string' && error.length > 0) {
+    return error;
+  }
+
+  if (error && typeof error === 'object') {
+    const record = error as Record<string, unknown>;
+    const reason = record.reason ?? record.Reason ?? record.error ?? record.Error;
+    if (typeof reason === 'string' && reason.length > 0) {
+      return reason;
+    }
+  }
+
+  return 'Subtask execution failed';
+};
+
+/**
+ * Wires task hub events into the provider query caches and the execution
+ * store. Returns a function that removes every registered handler.
+ */
+export const registerProviderHubSync = (queryClient: QueryClient): (() => void) => {
+  const applyToDeviceQueries = (
+    updater: (current: ProviderSubtaskDto[] | undefined) => ProviderSubtaskDto[] | undefined
+  ) => {
+    queryClient.setQueriesData<ProviderSubtaskDto[]>({ queryKey: invalidateDeviceSubtasksKey }, updater);
+  };
+
+  const applyToAvailableQuery = (
+    updater: (current: ProviderSubtaskDto[] | undefined) => ProviderSubtaskDto[] | undefined
+  ) => {
+    queryClient.setQueryData<ProviderSubtaskDto[]>(invalidateAvailableSubtasksKey, updater);
+  };
+
+  const syncExecution = (subtaskId: string, status: SubtaskStatus, progress?: number) => {
+    const { active, updateActiveStatus } = useProviderExecutionStore.getState();
+    if (active?.subtask.id === subtaskId) {
+      updateActiveStatus(status, progress);
+    }
+  };
+
+  const unsubscribers = [
+    TaskHubConnection.on('OnAvailableSubtasksChanged', (payload) => {
+      const taskWithheld = payload.TaskStatus === 'Paused' || payload.TaskStatus === 'Cancelled';
+      if (payload.Status === 'Pending' && payload.Subtask && !taskWithheld) {
+        const subtask = payload.Subtask;
+        applyToAvailableQuery((current) => upsertSubtask(current, subtask));
+        return;
+      }
+
+      applyToAvailableQuery((current) => removeSubtask(current, payload.SubtaskId));
+      if (payload.Subtask) {
+        const subtask = payload.Subtask;
+        applyToDeviceQueries((current) =>
+          current?.some((entry) => entry.id === subtask.id) ? upsertSubtask(current, subtask) : current
+        );
+      }
+    }),
+
+    TaskHubConnection.on('OnSubtaskAccepted', (payload) => {
+      applyToAvailableQuery((current) => removeSubtask(current, payload.SubtaskId));
+
+      if (payload.Subtask) {
+        const subtask = payload.Subtask;
+        applyToDeviceQueries((current) => upsertSubtask(current, subtask));
+        useProviderExecutionStore.getState().syncActiveSubtask(subtask);
+      }
+    }),
+
+    TaskHubConnection.on('OnProgressUpdate', (payload) => {
+      const patch: Partial<ProviderSubtaskDto> = payload.Subtask
+        ? payload.Subtask
+        : { progress: payload.Progress };
+      applyToDeviceQueries((current) => patchSubtask(current, payload.SubtaskId, patch));
+      syncExecution(payload.SubtaskId, payload.Subtask?.status ?? 'Executing', payload.Progress);
+    }),
+
+    TaskHubConnection.on('OnComplete', (payload) => {
+      applyToDeviceQueries((current) =>
+        patchSubtask(current, payload.SubtaskId, payload.Subtask ?? { status: 'Completed', progress: 100 })
+      );
+      syncExecution(payload.SubtaskId, 'Completed', 100);
+    }),
+
+    TaskHubConnection.on('OnFailure', (payload) => {
+      applyToDeviceQueries((current) =>
+        patchSubtask(current, payload.SubtaskId, payload.Subtask ?? { status: 'Failed' })
+      );
+
+      const { active, failExecution } = useProviderExecutionStore.getState();
+      if (active?.subtask.id === payload.SubtaskId && active.phase !== 'failed') {
+        failExecution(describeFailure(payload.Error));
+        // The requestor cancelled it: stop computing work nobody will pay for.
+        if (payload.Subtask?.status === 'Cancelled') {
+          cancelActiveExecution();
+        }
+      }
+    })
+  ];
+
+  return () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  };
+};
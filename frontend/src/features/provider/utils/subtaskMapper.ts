@@ -1,111 +1,128 @@
-import type { ProviderSubtaskDto, ProviderTaskType, ResourceSpecification, SubtaskStatus } from '../types';
+import type { SubtaskDto } from '../../../shared/api/generated/contract';
+import {
+  parseHubMessage,
+  type AvailableSubtasksChangedMessage,
+  type SubtaskCompleteMessage,
+  type SubtaskFailureMessage,
+  type SubtaskProgressMessage
+} from '../../../shared/api/hubContracts';
+import type {
+  AvailableSubtasksChangedEventPayload,
+  ProgressEventPayload,
+  ProviderSubtaskDto,
+  SubtaskAcceptedEventPayload,
+  SubtaskCompleteEventPayload,
+  SubtaskFailureEventPayload
+} from '../types';
 
-const TASK_TYPE_MAP: Record<number, ProviderTaskType> = {
-  0: 'Train',
-  1: 'Inference'
-};
+/**
+ * Narrows the shared subtask DTO to the fields providers use. REST responses
+ * and hub messages are both normalized against the contract beforehand.
+ */
+export const mapSubtaskDtoToProviderSubtask = (dto: SubtaskDto): ProviderSubtaskDto => ({
+  id: dto.id,
+  taskId: dto.taskId,
+  taskType: dto.taskType,
+  status: dto.status,
+  progress: dto.progress,
+  parametersJson: dto.parametersJson,
+  estimatedEarnings: dto.estimatedEarnings ?? 0,
+  resourceRequirements: dto.resourceRequirements,
+  createdAtUtc: dto.createdAtUtc,
+  durationSeconds: dto.durationSeconds ?? null,
+  costUsd: dto.costUsd ?? null,
+  onnxModel: dto.onnxModel,
+  executionSpec: dto.executionSpec ?? null
+});
 
-const SUBTASK_STATUS_MAP: Record<number, SubtaskStatus> = {
-  0: 'Pending',
-  1: 'Assigned',
-  2: 'Executing',
-  3: 'Completed',
-  4: 'Failed'
-};
+const mapOptionalSubtask = (dto: SubtaskDto | null | undefined) =>
+  dto ? mapSubtaskDtoToProviderSubtask(dto) : null;
 
-const toNumber = (value: unknown): number | undefined => {
-  if (typeof value === 'number' && Number.isFinite(value)) {
-    return value;
-  }
-  if (typeof value === 'string' && value.trim().length > 0) {
-    const parsed = Number(value);
-    return Number.isNaN(parsed) ? undefined : parsed;
+// The accepted event carries the subtask DTO itself rather than an envelope.
+export const mapHubSubtaskAcceptedEvent = (input: unknown): SubtaskAcceptedEventPayload | null => {
+  const dto = parseHubMessage<SubtaskDto>('OnSubtaskAccepted', 'SubtaskDto', input);
+  if (!dto) {
+    return null;
   }
-  return undefined;
-};
 
-const toStringValue = (value: unknown): string | undefined => {
-  if (typeof value === 'string') {
-    return value;
-  }
-  return undefined;
+  return {
+    SubtaskId: dto.id,
+    AssignedProviderId: dto.assignedProviderId ?? null,
+    Status: dto.status,
+    AssignedAtUtc: dto.assignedAtUtc ?? null,
+    Subtask: mapSubtaskDtoToProviderSubtask(dto)
+  };
 };
 
-const resolveTaskType = (raw: unknown): ProviderTaskType => {
-  if (typeof raw === 'string') {
-    return (raw as ProviderTaskType) || 'Inference';
-  }
-  if (typeof raw === 'number') {
-    return TASK_TYPE_MAP[raw] ?? 'Inference';
+export const mapHubProgressEvent = (input: unknown): ProgressEventPayload | null => {
+  const message = parseHubMessage<SubtaskProgressMessage>('OnProgressUpdate', 'SubtaskProgressMessage', input);
+  const subtaskId = message?.subtaskId ?? message?.subtask?.id;
+  if (!message || !subtaskId) {
+    return null;
   }
-  return 'Inference';
-};
 
-const resolveStatus = (raw: unknown): SubtaskStatus => {
-  if (typeof raw === 'string') {
-    return (raw as SubtaskStatus) || 'Pending';
-  }
-  if (typeof raw === 'number') {
-    return SUBTASK_STATUS_MAP[raw] ?? 'Pending';
-  }
-  return 'Pending';
+  return {
+    SubtaskId: subtaskId,
+    AssignedProviderId: message.providerUserId ?? null,
+    Progress: message.progress,
+    LastHeartbeatAtUtc: message.lastHeartbeatAtUtc ?? null,
+    Subtask: mapOptionalSubtask(message.subtask)
+  };
 };
 
-const mapResourceSpecification = (input: unknown): ResourceSpecification => {
-  const record = (input as Record<string, unknown>) ?? {};
-  const gpuUnits = toNumber(record.gpuUnits ?? record.GpuUnits) ?? 0;
-  const cpuCores = toNumber(record.cpuCores ?? record.CpuCores) ?? 0;
-  const diskGb = toNumber(record.diskGb ?? record.DiskGb) ?? 0;
-  const networkGb = toNumber(record.networkGb ?? record.NetworkGb) ?? 0;
-  const dataSizeGb = toNumber(record.dataSizeGb ?? record.DataSizeGb) ?? 0;
+export const mapHubCompleteEvent = (input: unknown): SubtaskCompleteEventPayload | null => {
+  const message = parseHubMessage<SubtaskCompleteMessage>('OnComplete', 'SubtaskCompleteMessage', input);
+  const subtaskId = message?.subtaskId ?? message?.subtask?.id;
+  if (!message || !subtaskId) {
+    return null;
+  }
 
   return {
-    gpuUnits,
-    cpuCores,
-    diskGb,
-    networkGb,
-    dataSizeGb
+    SubtaskId: subtaskId,
+    AssignedProviderId: message.providerUserId ?? null,
+    CompletedAtUtc: message.completedAtUtc ?? message.subtask?.completedAtUtc ?? null,
+    Subtask: mapOptionalSubtask(message.subtask),
+    Results: message.results
   };
 };
 
-export const mapHubSubtaskToProviderSubtask = (input: unknown): ProviderSubtaskDto | null => {
-  if (!input || typeof input !== 'object') {
+export const mapHubFailureEvent = (input: unknown): SubtaskFailureEventPayload | null => {
+  const message = parseHubMessage<SubtaskFailureMessage>('OnFailure', 'SubtaskFailureMessage', input);
+  const subtaskId = message?.subtaskId ?? message?.subtask?.id;
+  if (!message || !subtaskId) {
     return null;
   }
 
-  const record = input as Record<string, unknown>;
-  const id = (record.id ?? record.Id) as string | undefined;
-  const taskId = (record.taskId ?? record.TaskId) as string | undefined;
+  return {
+    SubtaskId: subtaskId,
+    AssignedProviderId: message.providerUserId ?? null,
+    FailedAtUtc: message.failedAtUtc ?? message.subtask?.failedAtUtc ?? null,
+    WasReassigned: message.wasReassigned,
+    TaskFailed: message.taskFailed,
+    Subtask: mapOptionalSubtask(message.subtask),
+    Error: message.error
+  };
+};
 
-  if (!id || !taskId) {
+export const mapHubAvailableSubtasksChangedEvent = (
+  input: unknown
+): AvailableSubtasksChangedEventPayload | null => {
+  const message = parseHubMessage<AvailableSubtasksChangedMessage>(
+    'OnAvailableSubtasksChanged',
+    'AvailableSubtasksChangedMessage',
+    input
+  );
+  if (!message) {
     return null;
   }
 
-  const taskType = resolveTaskType(record.taskType ?? record.TaskType);
-  const status = resolveStatus(record.status ?? record.Status);
-  const progress = toNumber(record.progress ?? record.Progress) ?? 0;
-  const parametersJson =
-    toStringValue(record.parametersJson ?? record.ParametersJson) ?? '{}';
-  const estimatedEarnings =
-    toNumber(record.estimatedEarnings ?? record.EstimatedEarnings) ?? 0;
-  const createdAtUtc =
-    toStringValue(record.createdAtUtc ?? record.CreatedAtUtc) ?? new Date().toISOString();
-  const resourceRequirements = mapResourceSpecification(
-    record.resourceRequirements ?? record.ResourceRequirements
-  );
-  const durationSeconds =
-    toNumber(record.durationSeconds ?? record.DurationSeconds) ?? null;
-
   return {
-    id,
-    taskId,
-    taskType,
-    status,
-    progress,
-    parametersJson,
-    estimatedEarnings,
-    resourceRequirements,
-    createdAtUtc,
-    durationSeconds
+    SubtaskId: message.subtaskId,
+    TaskId: message.taskId ?? message.subtask?.taskId ?? null,
+    Status: message.status,
+    TaskStatus: message.taskStatus ?? null,
+    AcceptedByProviderId: message.acceptedByProviderId ?? null,
+    TimestampUtc: message.timestampUtc,
+    Subtask: mapOptionalSubtask(message.subtask)
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,51 @@
+import { escapeHtml, printHtmlDocument } from '../../../shared/utils/printDocument';
+import type { TopUpDto } from '../api/financeApi';
+
+const buildTopUpInvoiceHtml = (topUp: TopUpDto, billedTo: string | null) => {
+  const euro = new Intl.NumberFormat(undefined, { style: 'currency', currency: 'EUR' });
+  const title = `Invoice ${topUp.invoiceNumber}`;
+  const paidWith =
+    topUp.cardBrand && topUp.cardLast4 ? `${topUp.cardBrand} ending in ${topUp.cardLast4}` : 'Card';
+  const description = topUp.isAutoRecharge ? 'Account balance top-up (auto-recharge)' : 'Account balance top-up';
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; font-size: 12px; color: #0f172a; margin: 32px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 16px 0; }
+  dt { color: #64748b; }
+  dd { margin: 0; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: 6px 8px; text-align: left; }
+  th { font-size: 10px; text-transform: uppercase; color: #64748b; }
+  .num { text-align: right; white-space: nowrap; }
+  .totals td { font-weight: 600; border-bottom: none; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<dl>
+  <dt>Issued</dt><dd>${escapeHtml(new Date(topUp.createdAtUtc).toISOString().slice(0, 16).replace('T', ' '))} UTC</dd>
+  ${billedTo ? `<dt>Billed to</dt><dd>${escapeHtml(billedTo)}</dd>` : ''}
+  <dt>Paid with</dt><dd>${escapeHtml(paidWith)}</dd>
+  <dt>Payment ID</dt><dd>${escapeHtml(topUp.paymentId)}</dd>
+  <dt>Status</dt><dd>${escapeHtml(topUp.status)}</dd>
+</dl>
+<table>
+<thead><tr><th>Description</th><th class="num">Amount</th></tr></thead>
+<tbody>
+<tr><td>${escapeHtml(description)}</td><td class="num">${escapeHtml(euro.format(topUp.amount))}</td></tr>
+<tr class="totals"><td>Total</td><td class="num">${escapeHtml(euro.format(topUp.amount))}</td></tr>
+</tbody>
+</table>
+</body>
+</html>`;
+};
+
+/** Prints the invoice of one top-up; returns false when pop-ups are blocked. */
+export const printTopUpInvoice = (topUp: TopUpDto, billedTo: string | null) =>
+  printHtmlDocument(buildTopUpInvoiceHtml(topUp, billedTo));
@@ -1,8 +1,9 @@
+import {
+  getMyTasks as getMyTasksOperation,
+  getTaskSubtasks as getTaskSubtasksOperation,
+} from "../../shared/api/generated/operations";
 import { apiRequest } from "../../shared/utils/apiClient";
-import type {
-  RequestorTaskDto,
-  RequestorTaskStatus,
-} from "./types";
+import type { RequestorTaskStatus } from "./types";
 
 export const TaskUploadFileType = {
   Model: 0,
@@ -42,6 +43,23 @@ export const generateTaskUploadUrl = (payload: GenerateTaskUploadUrlRequest) =>
 
 export type InferencePayloadType = "Json" | "Text" | "Binary";
 
+export type TrainingDatasetFormat = "vision" | "audio" | "text" | "tabular";
+
+export interface TrainingDatasetReference {
+  sourceType: "upload" | "url";
+  fileUrl: string;
+  format: TrainingDatasetFormat;
+}
+
+export type BudgetCapAction = "Pause" | "Fail";
+
+export interface TaskBudgetCap {
+  /** Hard limit in EUR on everything the task is billed, retries included. */
+  amount: number;
+  /** `Pause` halts dispatch until the cap is raised, `Fail` ends the task. */
+  onExceeded: BudgetCapAction;
+}
+
 export interface CreateTaskRequestBody {
   taskId: string;
   type: TaskType;
@@ -63,6 +81,14 @@ export interface CreateTaskRequestBody {
       fileFormat?: string;
     }>;
   };
+  train?: {
+    epochs: number;
+    batchSize: number;
+    learningRate?: number | null;
+    trainingDataset: TrainingDatasetReference;
+    validationDataset?: TrainingDatasetReference | null;
+  };
+  budgetCap?: TaskBudgetCap | null;
 }
 
 export const createTask = (payload: CreateTaskRequestBody) =>
@@ -71,17 +97,97 @@ export const createTask = (payload: CreateTaskRequestBody) =>
     body: payload,
   });
 
-export const getMyTasks = (status?: RequestorTaskStatus) => {
-  const searchParams =
-    typeof status === "number" ? `?status=${status}` : "";
+export interface TaskQuoteRequestBody {
+  type: TaskType;
+  /** Set instead of `modelSizeBytes` when the model is reused from a task. */
+  modelUrl?: string | null;
+  modelSizeBytes?: number | null;
+  /** Attached input files only; URL datasets are sized by the server. */
+  inputBytes: number;
+  /** Known up front for batch manifests only. */
+  subtaskCount?: number | null;
+  train?: {
+    epochs: number;
+    batchSize: number;
+  } | null;
+}
+
+export interface TaskQuote {
+  modelSizeBytes: number;
+  inputBytes: number;
+  expectedSubtaskCount: number;
+  pricePerSubtask: number;
+  estimatedCost: number;
+  generatedAtUtc: string;
+}
+
+/** Prices a task from its shape before anything is uploaded. */
+export const quoteTask = (payload: TaskQuoteRequestBody) =>
+  apiRequest<TaskQuote, TaskQuoteRequestBody>("/api/tasks/quote", {
+    method: "POST",
+    body: payload,
+  });
+
+export type CreateTaskBindingRequest = NonNullable<
+  CreateTaskRequestBody["inference"]
+>["bindings"][number];
 
-  return apiRequest<Array<RequestorTaskDto>>(
-    `/api/tasks/my-tasks${searchParams}`
+export interface CreateTaskSubtaskRequestBody {
+  subtaskId: string;
+  bindings: Array<CreateTaskBindingRequest>;
+}
+
+/** Adds one subtask with its own bindings to a task created with `fillBindingsViaApi`. */
+export const createTaskSubtask = (
+  taskId: string,
+  payload: CreateTaskSubtaskRequestBody
+) =>
+  apiRequest<void, CreateTaskSubtaskRequestBody>(
+    `/api/tasks/${taskId}/subtasks`,
+    {
+      method: "POST",
+      body: payload,
+    }
   );
-};
 
-export const getTaskSubtasks = (taskId: string) => {
-  return apiRequest<Array<import("./types").SubtaskDto>>(
-    `/api/tasks/${taskId}/subtasks`
+export const getMyTasks = (status?: RequestorTaskStatus) =>
+  getMyTasksOperation({ status });
+
+export const getTaskSubtasks = (taskId: string) =>
+  getTaskSubtasksOperation(taskId);
+export const cancelTask = (taskId: string) =>
+  apiRequest<void, undefined>(`/api/tasks/${taskId}/cancel`, {
+    method: "POST",
+  });
+
+/** Stops handing out the task's pending subtasks; running ones finish. */
+export const pauseTask = (taskId: string) =>
+  apiRequest<void, undefined>(`/api/tasks/${taskId}/pause`, {
+    method: "POST",
+  });
+
+export const resumeTask = (taskId: string) =>
+  apiRequest<void, undefined>(`/api/tasks/${taskId}/resume`, {
+    method: "POST",
+  });
+
+export interface RetryFailedSubtasksResponse {
+  requeuedSubtaskIds: string[];
+}
+
+/** Re-queues only the failed subtasks that recorded a `failureReason`. */
+export const retryFailedSubtasks = (taskId: string) =>
+  apiRequest<RetryFailedSubtasksResponse, undefined>(
+    `/api/tasks/${taskId}/retry-failed`,
+    {
+      method: "POST",
+    }
+  );
+
+export const cancelTaskSubtask = (taskId: string, subtaskId: string) =>
+  apiRequest<void, undefined>(
+    `/api/tasks/${taskId}/subtasks/${subtaskId}/cancel`,
+    {
+      method: "POST",
+    }
   );
-};
\ No newline at end of file
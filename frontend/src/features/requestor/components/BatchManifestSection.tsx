@@ -0,0 +1,133 @@
+import { useId } from "react";
+import { FileDropzone } from "../../../shared/components/FileDropzone";
+import {
+  BATCH_MANIFEST_ACCEPT,
+  describeManifestIssue,
+  type BatchManifest,
+  type BatchManifestIssue,
+} from "../utils/batchManifest";
+
+export interface BatchManifestSectionProps {
+  manifest: BatchManifest | null;
+  manifestFileName: string | null;
+  issues: BatchManifestIssue[];
+  onManifestSelect: (file: File | null) => void;
+  /** Files referenced from the manifest with `file:`. */
+  files: File[];
+  onFilesChange: (files: File[]) => void;
+  /** Without the parsed model, rows are only checked against each other. */
+  modelInputsKnown: boolean;
+}
+
+const MAX_VISIBLE_MANIFEST_ISSUES = 5;
+
+export const BatchManifestSection = ({
+  manifest,
+  manifestFileName,
+  issues,
+  onManifestSelect,
+  files,
+  onFilesChange,
+  modelInputsKnown,
+}: BatchManifestSectionProps) => {
+  const batchManifestFieldId = useId();
+  const batchFilesFieldId = useId();
+
+  return (
+    <div className="space-y-4 rounded-lg border border-indigo-100 bg-white/70 p-4 shadow-sm dark:border-indigo-900/50 dark:bg-slate-800/70">
+      <div className="space-y-1">
+        <h4 className="text-sm font-semibold text-indigo-700 dark:text-indigo-400">
+          Batch manifest
+        </h4>
+        <p className="text-xs leading-5 text-slate-500 dark:text-slate-400">
+          Each CSV row or JSONL line becomes one subtask. Columns
+          (or keys) name the input tensors. Values are text unless
+          prefixed with <code>file:</code> to reference an attached
+          file, <code>json:</code> for JSON tensors, or given as an
+          http(s) URL.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-1">
+          <label
+            htmlFor={batchManifestFieldId}
+            className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400"
+          >
+            Manifest
+          </label>
+          <FileDropzone
+            inputId={batchManifestFieldId}
+            name="batchManifest"
+            accept={BATCH_MANIFEST_ACCEPT}
+            emptyState="Attach .csv or .jsonl manifest"
+            helperText="One row per inference run."
+            className="min-h-[140px] py-6"
+            selectedFileName={manifestFileName}
+            onFileSelect={onManifestSelect}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <label
+            htmlFor={batchFilesFieldId}
+            className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400"
+          >
+            Referenced files
+          </label>
+          <FileDropzone
+            inputId={batchFilesFieldId}
+            name="batchFiles"
+            multiple
+            emptyState="Attach files referenced with file:"
+            helperText="Matched by file name, uploaded once each."
+            className="min-h-[140px] py-6"
+            selectedFileName={
+              files.length > 0
+                ? `${files.length} file(s) attached`
+                : null
+            }
+            onFileSelect={(_, event) =>
+              onFilesChange(Array.from(event.target.files ?? []))
+            }
+          />
+        </div>
+      </div>
+
+      {manifest ? (
+        <div className="space-y-2 text-xs">
+          <p className="text-slate-600 dark:text-slate-300">
+            {manifest.rows.length} row(s) ·{" "}
+            {manifest.tensorNames.join(", ") ||
+              "no tensors"}
+            {modelInputsKnown
+              ? ""
+              : " · model inputs unknown, rows are checked against the manifest columns"}
+          </p>
+          {issues.length > 0 ? (
+            <ul className="space-y-1 rounded-lg border border-rose-200 bg-rose-50/70 px-3 py-2 text-rose-700 dark:border-rose-900/50 dark:bg-rose-950/50 dark:text-rose-400">
+              {issues
+                .slice(0, MAX_VISIBLE_MANIFEST_ISSUES)
+                .map((issue, index) => (
+                  <li key={index}>{describeManifestIssue(issue)}</li>
+                ))}
+              {issues.length >
+              MAX_VISIBLE_MANIFEST_ISSUES ? (
+                <li>
+                  …and{" "}
+                  {issues.length -
+                    MAX_VISIBLE_MANIFEST_ISSUES}{" "}
+                  more
+                </li>
+              ) : null}
+            </ul>
+          ) : (
+            <p className="text-emerald-600 dark:text-emerald-400">
+              All rows are valid.
+            </p>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import { useMemo } from "react";
+import { CheckCircle2, Clock, Loader2, RotateCcw, XCircle } from "lucide-react";
+import type {
+  BatchRowState,
+  BatchRowStatus,
+} from "../utils/batchSubmission";
+
+interface BatchSubmissionProgressProps {
+  rows: BatchRowState[];
+  isRunning: boolean;
+  onRetryFailed: () => void;
+  onDone: () => void;
+}
+
+const STATUS_LABEL: Record<BatchRowStatus, string> = {
+  pending: "Queued",
+  uploading: "Uploading files",
+  submitting: "Submitting",
+  submitted: "Submitted",
+  failed: "Failed",
+};
+
+const StatusIcon = ({ status }: { status: BatchRowStatus }) => {
+  switch (status) {
+    case "submitted":
+      return <CheckCircle2 className="h-3.5 w-3.5 text-emerald-500" />;
+    case "failed":
+      return <XCircle className="h-3.5 w-3.5 text-rose-500" />;
+    case "pending":
+      return <Clock className="h-3.5 w-3.5 text-slate-400" />;
+    default:
+      return <Loader2 className="h-3.5 w-3.5 animate-spin text-indigo-500" />;
+  }
+};
+
+export const BatchSubmissionProgress = ({
+  rows,
+  isRunning,
+  onRetryFailed,
+  onDone,
+}: BatchSubmissionProgressProps) => {
+  const counts = useMemo(
+    () =>
+      rows.reduce(
+        (acc, row) => {
+          acc[row.status] += 1;
+          return acc;
+        },
+        { pending: 0, uploading: 0, submitting: 0, submitted: 0, failed: 0 }
+      ),
+    [rows]
+  );
+
+  const percentage =
+    rows.length > 0
+      ? Math.round(((counts.submitted + counts.failed) / rows.length) * 100)
+      : 0;
+
+  return (
+    <section className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-semibold text-slate-700 dark:text-slate-200">
+            {isRunning ? "Submitting batch…" : "Batch submission finished"}
+          </span>
+          <span className="tabular-nums text-slate-500 dark:text-slate-400">
+            {counts.submitted}/{rows.length} submitted
+            {counts.failed > 0 ? ` · ${counts.failed} failed` : ""}
+          </span>
+        </div>
+        <div className="h-1.5 overflow-hidden rounded-full bg-indigo-100 dark:bg-indigo-950">
+          <div
+            className="h-full rounded-full bg-indigo-600 transition-all dark:bg-indigo-400"
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+      </div>
+
+      <ul className="max-h-80 divide-y divide-slate-100 overflow-y-auto rounded-lg border border-slate-200 dark:divide-slate-800 dark:border-slate-700">
+        {rows.map((row) => (
+          <li
+            key={row.row}
+            className="flex items-start justify-between gap-3 px-4 py-2 text-xs"
+          >
+            <div className="flex min-w-0 flex-col gap-0.5">
+              <span className="font-medium text-slate-700 dark:text-slate-200">
+                Row {row.row}
+              </span>
+              {row.error ? (
+                <span className="break-words text-rose-600 dark:text-rose-400">
+                  {row.error}
+                </span>
+              ) : (
+                <span className="truncate text-slate-400 dark:text-slate-500">
+                  Subtask {row.subtaskId}
+                </span>
+              )}
+            </div>
+            <span className="inline-flex shrink-0 items-center gap-1.5 text-slate-600 dark:text-slate-300">
+              <StatusIcon status={row.status} />
+              {STATUS_LABEL[row.status]}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <footer className="flex flex-col gap-3 border-t border-slate-100 pt-6 sm:flex-row sm:justify-end dark:border-slate-700">
+        {counts.failed > 0 ? (
+          <button
+            type="button"
+            onClick={onRetryFailed}
+            disabled={isRunning}
+            className="inline-flex w-full items-center justify-center gap-2 rounded-lg border border-slate-200 px-4 py-2 text-sm font-medium text-slate-600 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60 sm:w-auto dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800"
+          >
+            <RotateCcw className="h-4 w-4" />
+            Retry {counts.failed} failed
+          </button>
+        ) : null}
+        <button
+          type="button"
+          onClick={onDone}
+          disabled={isRunning}
+          className="w-full rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-indigo-400 sm:w-auto dark:bg-indigo-700 dark:hover:bg-indigo-600 dark:disabled:bg-indigo-800"
+        >
+          Done
+        </button>
+      </footer>
+    </section>
+  );
+};
@@ -0,0 +1,211 @@
+import type { Dispatch, SetStateAction } from "react";
+import { Trash2 } from "lucide-react";
+import { SelectDropdown } from "../../../shared/components/SelectDropdown";
+import { FileDropzone } from "../../../shared/components/FileDropzone";
+import { TensorBindingEditor } from "./TensorBindingEditor";
+import { describeTensorSpec } from "../utils/tensorSpec";
+import {
+  inputPayloadOptions,
+  isTensorEditorKind,
+  type InferenceBinding,
+  type InferenceBindingFieldChange,
+} from "../utils/newTaskForm";
+
+interface InferenceBindingCardProps {
+  binding: InferenceBinding;
+  /** Position in the binding list, used for the form field names. */
+  index: number;
+  canRemove: boolean;
+  onFieldChange: InferenceBindingFieldChange;
+  onFileSelect: (id: string, file: File | null) => void;
+  onBindingsChange: Dispatch<SetStateAction<InferenceBinding[]>>;
+}
+
+export const InferenceBindingCard = ({
+  binding,
+  index,
+  canRemove,
+  onFieldChange,
+  onFileSelect,
+  onBindingsChange,
+}: InferenceBindingCardProps) => (
+  <div
+    key={binding.id}
+    className="space-y-3 rounded-lg border border-indigo-100 bg-white/70 p-4 shadow-sm dark:border-indigo-900/50 dark:bg-slate-800/70"
+  >
+    <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex flex-1 flex-col gap-1">
+        <label className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          Tensor name
+        </label>
+        <input
+          name={`inferenceBindings[${index}].tensorName`}
+          value={binding.tensorName}
+          onChange={(event) =>
+            onFieldChange(
+              binding.id,
+              "tensorName",
+              event.target.value
+            )
+          }
+          placeholder="e.g. input_ids"
+          className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:placeholder:text-slate-500 dark:focus:border-indigo-600 dark:focus:ring-indigo-900/60"
+          required
+        />
+      </div>
+
+      <div className="flex flex-col gap-1 sm:w-48">
+        <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          Payload type
+        </span>
+        <SelectDropdown
+          ariaLabel="Payload type"
+          value={binding.payloadType}
+          onValueChange={(value) =>
+            onFieldChange(
+              binding.id,
+              "payloadType",
+              value
+            )
+          }
+          options={inputPayloadOptions}
+          triggerClassName="w-full"
+        />
+      </div>
+    </div>
+
+    {isTensorEditorKind(binding.payloadType) ? (
+      <TensorBindingEditor
+        kind={binding.payloadType}
+        spec={
+          binding.spec ?? {
+            name: binding.tensorName || "tensor",
+            elementType: "float32",
+          }
+        }
+        inputId={`${binding.id}-tensor`}
+        literal={binding.textPayload}
+        sourceFileName={binding.fileName}
+        error={binding.editorError}
+        onLiteralChange={(literal) =>
+          onFieldChange(
+            binding.id,
+            "textPayload",
+            literal
+          )
+        }
+        onTensorChange={({ file, sourceFileName, error }) =>
+          onBindingsChange((current) =>
+            current.map((entry) =>
+              entry.id === binding.id
+                ? {
+                    ...entry,
+                    file,
+                    fileName: sourceFileName ?? file?.name ?? null,
+                    existingFileUrl: null,
+                    editorError: error,
+                  }
+                : entry
+            )
+          )
+        }
+      />
+    ) : (
+    <div className="space-y-1">
+     <label className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+       {binding.payloadType === "binary"
+         ? "Upload tensor"
+         : binding.payloadType === "json"
+         ? "Upload JSON file"
+         : "Upload text file"}
+     </label>
+     <FileDropzone
+       inputId={`${binding.id}-file`}
+       name={`inferenceBindings[${index}].file`}
+       accept={
+         binding.payloadType === "json"
+           ? ".json"
+           : binding.payloadType === "text"
+           ? ".txt"
+           : undefined
+       }
+       emptyState={
+         binding.payloadType === "json"
+           ? "Attach .json file"
+           : binding.payloadType === "text"
+           ? "Attach .txt file"
+           : "Attach .npy, .npz tensor file or image, video files"
+       }
+       helperText={
+         binding.existingFileUrl && !binding.file
+           ? "Reusing the input from the previous run. Attach a file to replace it."
+           : "Stored securely and streamed to inference workers."
+       }
+       className="min-h-[140px] py-6"
+       selectedFileName={binding.fileName}
+       onFileSelect={(file) =>
+         onFileSelect(binding.id, file)
+       }
+     />
+     {binding.payloadType === "text" && (
+       <div className="mt-3 space-y-1">
+         <label className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+           Max sequence length
+         </label>
+         <input
+           type="number"
+           min={1}
+           max={8192}
+           value={binding.maxLength}
+           onChange={(event) =>
+             onFieldChange(
+               binding.id,
+               "maxLength",
+               Number.parseInt(event.target.value, 10) || 512
+             )
+           }
+           className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm transition focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:focus:border-indigo-600 dark:focus:ring-indigo-900/60"
+         />
+         <p className="text-xs text-slate-400 dark:text-slate-500">
+           Maximum tokens after tokenization. Text will be truncated if longer. Padding is enabled by default.
+         </p>
+       </div>
+     )}
+     {binding.spec ? (
+       <p className="text-xs text-slate-400 dark:text-slate-500">
+         Model expects{" "}
+         <span className="font-mono">
+           {describeTensorSpec(binding.spec)}
+         </span>
+       </p>
+     ) : null}
+     {binding.editorError ? (
+       <p className="text-xs text-rose-600 dark:text-rose-400">
+         {binding.editorError}
+       </p>
+     ) : null}
+   </div>
+    )}
+
+    <div className="flex justify-end">
+      <button
+        type="button"
+        onClick={() =>
+          onBindingsChange((current) =>
+            current.length === 1
+              ? current
+              : current.filter(
+                  (bindingEntry) =>
+                    bindingEntry.id !== binding.id
+                )
+          )
+        }
+        className="inline-flex items-center gap-2 rounded-md border border-slate-200 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-red-200 hover:bg-red-50 hover:text-red-600 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:text-slate-400 dark:hover:border-red-900/50 dark:hover:bg-red-950/30 dark:hover:text-red-400"
+        disabled={!canRemove}
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+        Remove binding
+      </button>
+    </div>
+  </div>
+);
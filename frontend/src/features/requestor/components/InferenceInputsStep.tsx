@@ -0,0 +1,261 @@
+import { type Dispatch, type SetStateAction, useId } from "react";
+import { CirclePlus, Copy, Trash2 } from "lucide-react";
+import { SelectDropdown } from "../../../shared/components/SelectDropdown";
+import {
+  BatchManifestSection,
+  type BatchManifestSectionProps,
+} from "./BatchManifestSection";
+import { InferenceBindingCard } from "./InferenceBindingCard";
+import {
+  createInferenceBinding,
+  inputPayloadOptions,
+  type InferenceBinding,
+  type InferenceBindingFieldChange,
+} from "../utils/newTaskForm";
+
+export type InferenceBindingMode = "manual" | "api" | "batch";
+
+interface InferenceInputsStepProps {
+  bindingMode: InferenceBindingMode;
+  onBindingModeChange: (mode: InferenceBindingMode) => void;
+  bindings: InferenceBinding[];
+  onBindingsChange: Dispatch<SetStateAction<InferenceBinding[]>>;
+  onBindingFieldChange: InferenceBindingFieldChange;
+  onBindingFileSelect: (id: string, file: File | null) => void;
+  batch: BatchManifestSectionProps;
+}
+
+const publicApiDocUrl = "https://docs.scalerize.ai/public-inference-api";
+const maskedPublicApiKey = "pk-live-******-tenant";
+
+export const InferenceInputsStep = ({
+  bindingMode,
+  onBindingModeChange,
+  bindings,
+  onBindingsChange,
+  onBindingFieldChange,
+  onBindingFileSelect,
+  batch,
+}: InferenceInputsStepProps) => {
+  const inferenceSectionId = useId();
+
+  return (
+    <section
+      className="space-y-4 rounded-xl border border-indigo-100 bg-indigo-50/30 p-4 dark:border-indigo-900/50 dark:bg-indigo-950/30"
+      aria-labelledby={`${inferenceSectionId}-label`}
+    >
+      <div className="flex-col gap-1">
+        <h3
+          id={`${inferenceSectionId}-label`}
+          className="text-sm font-semibold text-indigo-700 dark:text-indigo-400"
+        >
+          Inference payload bindings
+        </h3>
+        <p className="text-xs text-indigo-600/80 dark:text-indigo-400/80">
+          Define tensor names and payloads to feed into the ONNX graph.
+          Use JSON arrays for batched inputs or upload binary blobs for
+          large tensors.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(["manual", "batch", "api"] as const).map((modeOption) => (
+          <button
+            key={modeOption}
+            type="button"
+            onClick={() => onBindingModeChange(modeOption)}
+            className={`inline-flex items-center rounded-md border px-3 py-1.5 text-xs font-semibold uppercase tracking-wide transition ${
+              bindingMode === modeOption
+                ? "border-indigo-400 bg-white text-indigo-600 shadow-sm dark:border-indigo-600 dark:bg-slate-800 dark:text-indigo-400"
+                : "border-indigo-100/70 bg-indigo-100/50 text-indigo-500 hover:border-indigo-200 hover:text-indigo-600 dark:border-indigo-900/50 dark:bg-indigo-950/50 dark:text-indigo-400 dark:hover:border-indigo-800 dark:hover:text-indigo-300"
+            }`}
+          >
+            {modeOption === "manual"
+              ? "Manually fill payload bindings"
+              : modeOption === "batch"
+              ? "Batch manifest"
+              : "Fill by API"}
+          </button>
+        ))}
+      </div>
+
+      {bindingMode === "manual" ? (
+        <>
+          <div className="space-y-4">
+            {bindings.map((binding, index) => (
+              <InferenceBindingCard
+                key={binding.id}
+                binding={binding}
+                index={index}
+                canRemove={bindings.length > 1}
+                onFieldChange={onBindingFieldChange}
+                onFileSelect={onBindingFileSelect}
+                onBindingsChange={onBindingsChange}
+              />
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() =>
+                onBindingsChange((current) => [
+                  ...current,
+                  createInferenceBinding(),
+                ])
+              }
+              className="inline-flex items-center gap-2 rounded-md bg-indigo-600 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-white shadow-sm transition hover:bg-indigo-500 dark:bg-indigo-700 dark:hover:bg-indigo-600"
+            >
+              <CirclePlus className="h-3.5 w-3.5" />
+              Add tensor binding
+            </button>
+          </div>
+        </>
+      ) : bindingMode === "batch" ? (
+        <BatchManifestSection {...batch} />
+      ) : (
+        <div className="space-y-6 rounded-lg border border-indigo-100 bg-white p-4 shadow-sm">
+          <header className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <div className="space-y-1">
+              <h4 className="text-sm font-semibold text-indigo-700">
+                Public inference API
+              </h4>
+              <p className="text-xs leading-5 text-slate-500">
+                Each api call will trigger a new task request to connected
+                providers.
+              </p>
+            </div>
+            <a
+              href={publicApiDocUrl}
+              target="_blank"
+              rel="noreferrer"
+              className="text-nowrap inline-flex items-center gap-1 rounded-md border border-indigo-200 px-2.5 py-1 text-xs font-semibold uppercase tracking-wide text-indigo-600 transition hover:bg-indigo-50"
+            >
+              View API docs
+            </a>
+          </header>
+
+          <div className="space-y-4">
+            {bindings.map((binding, index) => (
+              <div
+                key={binding.id}
+                className="space-y-3 rounded-lg border border-indigo-100 bg-indigo-50/40 p-4 shadow-sm"
+              >
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                  <div className="flex flex-1 flex-col gap-1">
+                    <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      Tensor name
+                    </label>
+                    <input
+                      name={`inferenceBindings[${index}].tensorName`}
+                      value={binding.tensorName}
+                      onChange={(event) =>
+                        onBindingFieldChange(
+                          binding.id,
+                          "tensorName",
+                          event.target.value
+                        )
+                      }
+                      placeholder="e.g. input_ids"
+                      className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60"
+                      required
+                    />
+                  </div>
+
+                  <div className="flex flex-col gap-1 sm:w-48">
+                    <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      Payload type
+                    </span>
+                    <SelectDropdown
+                      ariaLabel="Payload type"
+                      value={binding.payloadType}
+                      onValueChange={(value) =>
+                        onBindingFieldChange(
+                          binding.id,
+                          "payloadType",
+                          value
+                        )
+                      }
+                      options={inputPayloadOptions}
+                      triggerClassName="w-full"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onBindingsChange((current) =>
+                        current.length === 1
+                          ? current
+                          : current.filter(
+                              (bindingEntry) =>
+                                bindingEntry.id !== binding.id
+                            )
+                      )
+                    }
+                    className="inline-flex items-center gap-2 rounded-md border border-slate-200 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-red-200 hover:bg-red-50 hover:text-red-600 disabled:cursor-not-allowed disabled:opacity-50"
+                    disabled={bindings.length === 1}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    Remove binding
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() =>
+                onBindingsChange((current) => [
+                  ...current,
+                  createInferenceBinding(),
+                ])
+              }
+              className="inline-flex items-center gap-2 rounded-md bg-indigo-600 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-white shadow-sm transition hover:bg-indigo-500"
+            >
+              <CirclePlus className="h-3.5 w-3.5" />
+              Add tensor binding
+            </button>
+          </div>
+
+          <aside className="space-y-3 rounded-lg border border-slate-200 bg-slate-50/70 p-4">
+            <div className="space-y-2">
+              <h5 className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                API key
+              </h5>
+              <div className="flex items-center gap-2 rounded-md border border-slate-200 bg-white px-3 py-2 shadow-sm">
+                <span className="flex-1 truncate font-mono text-xs text-slate-600">
+                  {maskedPublicApiKey}
+                </span>
+                <button
+                  type="button"
+                  className="inline-flex items-center gap-1 rounded-md border border-slate-200 px-2 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-600 transition hover:bg-slate-100"
+                >
+                  <Copy className="h-3.5 w-3.5" />
+                  Copy
+                </button>
+              </div>
+            </div>
+            <div className="space-y-1 text-xs text-slate-500">
+              <p>
+                Authenticate each call with the{" "}
+                <span className="font-mono text-slate-700">
+                  X-Api-Key
+                </span>{" "}
+                header. Rotate credentials from the console when required.
+              </p>
+              <p>
+                Payload metadata defined above is enforced alongside
+                request descriptors when the public API is invoked.
+              </p>
+            </div>
+          </aside>
+        </div>
+      )}
+    </section>
+  );
+};
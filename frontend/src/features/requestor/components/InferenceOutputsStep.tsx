@@ -0,0 +1,165 @@
+import type { Dispatch, SetStateAction } from "react";
+import { CirclePlus, Trash2 } from "lucide-react";
+import { SelectDropdown } from "../../../shared/components/SelectDropdown";
+import {
+  createOutputBinding,
+  type OutputBinding,
+} from "../utils/newTaskForm";
+
+interface InferenceOutputsStepProps {
+  bindings: OutputBinding[];
+  onBindingsChange: Dispatch<SetStateAction<OutputBinding[]>>;
+}
+
+export const InferenceOutputsStep = ({
+  bindings,
+  onBindingsChange,
+}: InferenceOutputsStepProps) => (
+  <section
+    className="space-y-4 rounded-xl border border-emerald-100 bg-emerald-50/30 p-4 dark:border-emerald-900/50 dark:bg-emerald-950/30"
+    aria-labelledby="output-settings-label"
+  >
+    <div className="flex flex-col gap-1">
+      <h3
+        id="output-settings-label"
+        className="text-sm font-semibold text-emerald-700 dark:text-emerald-400"
+      >
+        Output settings
+      </h3>
+      <p className="text-xs text-emerald-600/80 dark:text-emerald-400/80">
+        Define output tensor names and their format. Binary outputs will be uploaded to storage and returned as URLs.
+      </p>
+    </div>
+
+    <div className="space-y-4">
+      {bindings.map((output, index) => (
+        <div
+          key={output.id}
+          className="space-y-3 rounded-lg border border-emerald-100 bg-white/70 p-4 shadow-sm dark:border-emerald-900/50 dark:bg-slate-800/70"
+        >
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex flex-1 flex-col gap-1">
+              <label className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                Tensor name
+              </label>
+              <input
+                name={`outputBindings[${index}].tensorName`}
+                value={output.tensorName}
+                onChange={(event) =>
+                  onBindingsChange((current) =>
+                    current.map((binding) =>
+                      binding.id === output.id
+                        ? { ...binding, tensorName: event.target.value }
+                        : binding
+                    )
+                  )
+                }
+                placeholder="e.g. output_0"
+                className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-emerald-300 focus:outline-none focus:ring focus:ring-emerald-200/60 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:placeholder:text-slate-500 dark:focus:border-emerald-600 dark:focus:ring-emerald-900/60"
+                required
+              />
+            </div>
+
+            <div className="flex flex-col gap-1 sm:w-48">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                Payload type
+              </span>
+              <SelectDropdown
+                ariaLabel="Output payload type"
+                value={output.payloadType}
+                onValueChange={(value) =>
+                  onBindingsChange((current) =>
+                    current.map((binding) =>
+                      binding.id === output.id
+                        ? { ...binding, payloadType: value as OutputBinding["payloadType"] }
+                        : binding
+                    )
+                  )
+                }
+                options={[
+                  { value: "json", label: "JSON tensor" },
+                  { value: "text", label: "Plain text" },
+                  { value: "binary", label: "Binary upload" },
+                ]}
+                triggerClassName="w-full"
+              />
+            </div>
+          </div>
+
+          {output.payloadType === "binary" && (
+            <div className="flex flex-col gap-1">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                File format
+              </span>
+              <SelectDropdown
+                ariaLabel="Output file format"
+                value={output.fileFormat || "npy"}
+                onValueChange={(value) =>
+                  onBindingsChange((current) =>
+                    current.map((binding) =>
+                      binding.id === output.id
+                        ? { ...binding, fileFormat: value }
+                        : binding
+                    )
+                  )
+                }
+                options={[
+                  { value: "json", label: "JSON (.json)" },
+                  { value: "txt", label: "Text (.txt)" },
+                  { value: "npy", label: "NumPy Array (.npy)" },
+                  { value: "npz", label: "Compressed NumPy (.npz)" },
+                  { value: "png", label: "PNG Image (.png)" },
+                  { value: "jpg", label: "JPEG Image (.jpg)" },
+                  { value: "webp", label: "WebP Image (.webp)" },
+                  { value: "bmp", label: "Bitmap Image (.bmp)" },
+                  { value: "tiff", label: "TIFF Image (.tiff)" },
+                ]}
+                triggerClassName="w-full"
+              />
+              <p className="text-xs text-slate-400 dark:text-slate-500">
+                Choose the binary format for saving the output tensor
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() =>
+                onBindingsChange((current) =>
+                  current.length === 1
+                    ? current
+                    : current.filter(
+                        (bindingEntry) =>
+                          bindingEntry.id !== output.id
+                      )
+                )
+              }
+              className="inline-flex items-center gap-2 rounded-md border border-slate-200 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-red-200 hover:bg-red-50 hover:text-red-600 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:text-slate-400 dark:hover:border-red-900/50 dark:hover:bg-red-950/30 dark:hover:text-red-400"
+              disabled={bindings.length === 1}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+              Remove output
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+
+    <div className="flex justify-end">
+      <button
+        type="button"
+        onClick={() =>
+          onBindingsChange((current) => [
+            ...current,
+            createOutputBinding(),
+          ])
+        }
+        className="inline-flex items-center gap-2 rounded-md bg-emerald-600 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-white shadow-sm transition hover:bg-emerald-500 dark:bg-emerald-700 dark:hover:bg-emerald-600"
+      >
+        <CirclePlus className="h-3.5 w-3.5" />
+        Add output binding
+      </button>
+    </div>
+  </section>
+);
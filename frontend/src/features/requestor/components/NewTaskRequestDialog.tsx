@@ -1,149 +1,151 @@
 import {
   type AriaAttributes,
   type FormEvent,
-  type ReactNode,
+  useCallback,
   useEffect,
-  useId,
   useMemo,
   useState,
 } from "react";
-import { CirclePlus, Copy, NotebookPen, Trash2 } from "lucide-react";
+import { NotebookPen } from "lucide-react";
 import {
   createTask,
   generateTaskUploadUrl,
   TaskType,
   TaskUploadFileType,
   type CreateTaskRequestBody,
+  type TaskQuoteRequestBody,
+  type TrainingDatasetReference,
 } from "../api";
-import { SelectDropdown } from "../../../shared/components/SelectDropdown";
-import { FileDropzone } from "../../../shared/components/FileDropzone";
 import { DialogShell } from "../../../shared/components/DialogShell";
 import { appQueryClient } from "../../../shared/providers/queryClient";
+import { describeError, isApiError } from "../../../shared/utils/apiError";
 import { invalidateMyTasksQueryKey } from "../queries/useMyTasksQuery";
-import { DesktopBridge, type OnnxModelParseResult } from "../../../shared/services/DesktopBridge";
+import { useTaskQuoteQuery } from "../queries/useTaskQuoteQuery";
+import {
+  financeSummaryQueryKey,
+  useFinanceSummaryQuery,
+} from "../../provider/queries/useFinanceSummaryQuery";
+import {
+  DesktopBridge,
+  type OnnxModelParseResult,
+} from "../../../shared/services/DesktopBridge";
+import {
+  BlockUploadManager,
+  type UploadTarget,
+} from "../../../shared/services/BlockUploadManager";
+import { useTaskTemplateStore } from "../stores/useTaskTemplateStore";
+import { BatchSubmissionProgress } from "./BatchSubmissionProgress";
+import {
+  InferenceInputsStep,
+  type InferenceBindingMode,
+} from "./InferenceInputsStep";
+import { InferenceOutputsStep } from "./InferenceOutputsStep";
+import { NewTaskStepIndicator } from "./NewTaskStepIndicator";
+import { TaskCostReview } from "./TaskCostReview";
+import { TaskDispatchOverlay } from "./TaskDispatchOverlay";
+import { TaskModelStep, TRAINING_UNAVAILABLE_MESSAGE } from "./TaskModelStep";
+import { TaskTemplatePicker } from "./TaskTemplatePicker";
+import { TaskTemplateSaveOption } from "./TaskTemplateSaveOption";
+import { TrainingDatasetsStep } from "./TrainingDatasetsStep";
+import { TrainingReviewStep } from "./TrainingReviewStep";
+import {
+  describeManifestIssue,
+  parseBatchManifest,
+  resolveManifestFormat,
+  validateBatchManifest,
+  type BatchBindingValue,
+  type BatchManifest,
+} from "../utils/batchManifest";
+import {
+  createBatchRowStates,
+  submitBatchRows,
+  type BatchRowState,
+} from "../utils/batchSubmission";
+import type { RequestorInferencePayloadType } from "../types";
+import {
+  createDatasetConfig,
+  createInferenceBinding,
+  createOutputBinding,
+  createTrainHyperparameters,
+  getFileExtension,
+  inspectTrainingDatasets,
+  isDatasetProvided,
+  isTensorEditorKind,
+  parseLearningRate,
+  validateDataset,
+  validateHyperparameters,
+  type DatasetConfig,
+  type FileUploadProgress,
+  type InferenceBinding,
+  type OutputBinding,
+  type PayloadKind,
+  type TrainHyperparameters,
+} from "../utils/newTaskForm";
+import {
+  resolveBlobFileName,
+  taskDraftFromTemplate,
+  type TaskDraft,
+} from "../utils/taskDraft";
+import {
+  checkNpyFile,
+  resolveTensorInputKind,
+  resolveTokenizerHints,
+} from "../utils/tensorSpec";
+import {
+  createTaskBudgetDraft,
+  parseTaskBudgetCap,
+  resolveRequiredFunds,
+  resolveShortfall,
+  type TaskBudgetDraft,
+} from "../utils/taskBudget";
 
 interface NewTaskRequestDialogProps {
   open: boolean;
   onDismiss: () => void;
+  /** Prefills the wizard, e.g. when re-running a task from history. */
+  draft?: TaskDraft | null;
 }
 
-const modeOptions: Array<{
-  value: "inference" | "training";
-  label: ReactNode;
-  helper?: string;
-  disabled?: boolean;
-}> = [
-  {
-    value: "inference",
-    label: "Inference",
-  },
-  {
-    value: "training",
-    label: (
-      <>
-        Training{" "}
-        <span className="rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-amber-600">
-          Coming soon
-        </span>
-      </>
-    ),
-    disabled: true,
-  },
-];
-
-type InferenceBinding = {
-  id: string;
-  tensorName: string;
-  payloadType: "json" | "text" | "binary";
-  textPayload: string;
-  fileName: string | null;
-  file: File | null;
-  maxLength: number;
-};
+const fileFingerprint = (file: File) =>
+  `${file.name}:${file.size}:${file.lastModified}`;
 
-type OutputBinding = {
-  id: string;
-  tensorName: string;
-  payloadType: "json" | "text" | "binary";
-  fileFormat?: string;
+const localPayloadType: Record<RequestorInferencePayloadType, PayloadKind> = {
+  Json: "json",
+  Text: "text",
+  Binary: "binary",
 };
 
-type DatasetConfig = {
-  sourceType: "upload" | "url";
-  url: string;
-  fileName: string | null;
-  format: "vision" | "audio" | "text" | "tabular";
+const BATCH_PAYLOAD_TYPE: Record<
+  BatchBindingValue["kind"],
+  RequestorInferencePayloadType
+> = {
+  text: "Text",
+  json: "Json",
+  file: "Binary",
+  url: "Binary",
 };
 
-const datasetFormatOptions: Array<{
-  value: DatasetConfig["format"];
-  label: string;
-}> = [
-  { value: "vision", label: "Vision tensors" },
-  { value: "audio", label: "Audio waveforms" },
-  { value: "text", label: "Text / token sequences" },
-  { value: "tabular", label: "Tabular / CSV" },
-];
-
-const getFileExtension = (fileName: string): string => {
-  const trimmed = fileName?.trim() ?? "";
-  if (!trimmed) {
-    return "";
+const resolveDispatchError = (error: unknown) => {
+  if (isApiError(error, "insufficient_balance")) {
+    return "Your balance does not cover this task. Top up before requesting execution.";
   }
 
-  const lastDotIndex = trimmed.lastIndexOf(".");
-  if (lastDotIndex < 0 || lastDotIndex === trimmed.length - 1) {
-    return "";
+  if (isApiError(error, "validation_failed")) {
+    return `The task was rejected: ${error.message}`;
   }
 
-  return trimmed.slice(lastDotIndex + 1).toLowerCase();
+  return describeError(error, "Failed to dispatch workload. Please try again.");
 };
 
-const createInferenceBinding = (): InferenceBinding => ({
-  id: `binding-${Math.random().toString(36).slice(2, 10)}`,
-  tensorName: "",
-  payloadType: "json",
-  textPayload: "",
-  fileName: null,
-  file: null,
-  maxLength: 512,
-});
-
-const createOutputBinding = (): OutputBinding => ({
-  id: `output-${Math.random().toString(36).slice(2, 10)}`,
-  tensorName: "",
-  payloadType: "json",
-  fileFormat: "npz",
-});
-
-const createDatasetConfig = (): DatasetConfig => ({
-  sourceType: "upload",
-  url: "",
-  fileName: null,
-  format: "text",
-});
-
 export const NewTaskRequestDialog = ({
   open,
   onDismiss,
+  draft,
 }: NewTaskRequestDialogProps) => {
-  const nameFieldId = useId();
-  const modeFieldId = useId();
-  const fileFieldId = useId();
-  const inferenceSectionId = useId();
-  const hyperparameterEpochsId = useId();
-  const hyperparameterBatchSizeId = useId();
-  const hyperparameterLearningRateId = useId();
-  const trainingDatasetFileFieldId = useId();
-  const validationDatasetFileFieldId = useId();
-  const trainingDatasetFormatFieldId = useId();
-  const validationDatasetFormatFieldId = useId();
-  const trainDatasetUrlFieldId = useId();
-  const validationDatasetUrlFieldId = useId();
-
   // Wizard step management
   const [currentStep, setCurrentStep] = useState<number>(1);
-  const totalSteps = 3;
+  const totalSteps = 4;
+  const isCostStep = currentStep === totalSteps;
 
   const [selectedMode, setSelectedMode] = useState<"inference" | "training">(
     "inference"
@@ -161,31 +163,98 @@ export const NewTaskRequestDialog = ({
     crypto.randomUUID()
   );
   const [submissionStage, setSubmissionStage] = useState<string>("");
+  const [uploadProgress, setUploadProgress] = useState<
+    Record<string, FileUploadProgress>
+  >({});
   const [submissionError, setSubmissionError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
-  const [inferenceBindingMode, setInferenceBindingMode] = useState<
-    "manual" | "api"
-  >("manual");
-  const publicApiDocUrl = "https://docs.scalerize.ai/public-inference-api";
-  const maskedPublicApiKey = "pk-live-******-tenant";
+  const [inferenceBindingMode, setInferenceBindingMode] = useState<InferenceBindingMode>("manual");
   const [trainingDataset, setTrainingDataset] =
     useState<DatasetConfig>(createDatasetConfig);
   const [validationDataset, setValidationDataset] =
     useState<DatasetConfig>(createDatasetConfig);
-  const [trainHyperparameters, setTrainHyperparameters] = useState<{
-    epochs: number;
-    batchSize: number;
-    learningRate: string;
-  }>({
-    epochs: 3,
-    batchSize: 32,
-    learningRate: "",
-  });
+  const [trainHyperparameters, setTrainHyperparameters] =
+    useState<TrainHyperparameters>(createTrainHyperparameters);
   const [onnxFile, setOnnxFile] = useState<File | null>(null);
   const [onnxFileName, setOnnxFileName] = useState<string | null>(null);
   const [taskName, setTaskName] = useState<string>("");
-  const [, setParsedModel] = useState<OnnxModelParseResult | null>(null);
+  const [parsedModel, setParsedModel] = useState<OnnxModelParseResult | null>(
+    null
+  );
   const [isParsingModel, setIsParsingModel] = useState<boolean>(false);
+  const [reusedModel, setReusedModel] = useState<{
+    url: string;
+    fileName: string;
+  } | null>(null);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>("");
+  const [saveAsTemplate, setSaveAsTemplate] = useState<boolean>(false);
+  const [batchManifest, setBatchManifest] = useState<{
+    fileName: string;
+    manifest: BatchManifest;
+  } | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchRun, setBatchRun] = useState<{
+    taskId: string;
+    rows: BatchRowState[];
+    isRunning: boolean;
+  } | null>(null);
+
+  const [budget, setBudget] = useState<TaskBudgetDraft>(createTaskBudgetDraft);
+
+  const [templateName, setTemplateName] = useState<string>("");
+  const templates = useTaskTemplateStore((state) => state.templates);
+  const saveTemplate = useTaskTemplateStore((state) => state.saveTemplate);
+  const deleteTemplate = useTaskTemplateStore((state) => state.deleteTemplate);
+
+  const applyDraft = useCallback((nextDraft: TaskDraft) => {
+    setSelectedMode(nextDraft.mode);
+    setTaskName(nextDraft.name);
+    setTemplateName(nextDraft.name);
+    setReusedModel({ url: nextDraft.modelUrl, fileName: nextDraft.modelFileName });
+    setOnnxFile(null);
+    setOnnxFileName(null);
+    setInferenceBindingMode("manual");
+    setInferenceBindings(
+      nextDraft.bindings.length > 0
+        ? nextDraft.bindings.map((binding) => ({
+            ...createInferenceBinding(),
+            tensorName: binding.tensorName,
+            payloadType: localPayloadType[binding.payloadType] ?? "json",
+            fileName: binding.fileUrl ? resolveBlobFileName(binding.fileUrl) : null,
+            existingFileUrl: binding.fileUrl ?? null,
+            maxLength: binding.maxLength ?? 512,
+          }))
+        : [createInferenceBinding()]
+    );
+    setOutputBindings(
+      nextDraft.outputs.length > 0
+        ? nextDraft.outputs.map((output) => ({
+            ...createOutputBinding(),
+            tensorName: output.tensorName,
+            payloadType: localPayloadType[output.payloadType] ?? "json",
+            fileFormat: output.fileFormat ?? "npz",
+          }))
+        : [createOutputBinding()]
+    );
+    setTrainHyperparameters(
+      nextDraft.train
+        ? {
+            epochs: nextDraft.train.epochs,
+            batchSize: nextDraft.train.batchSize,
+            learningRate:
+              nextDraft.train.learningRate != null
+                ? String(nextDraft.train.learningRate)
+                : "",
+          }
+        : createTrainHyperparameters()
+    );
+  }, []);
+
+  useEffect(() => {
+    if (open && draft) {
+      applyDraft(draft);
+    }
+  }, [open, draft, applyDraft]);
 
   useEffect(() => {
     if (!open) {
@@ -193,6 +262,7 @@ export const NewTaskRequestDialog = ({
       setClientTaskId(crypto.randomUUID());
       setClientSubtaskId(crypto.randomUUID());
       setSubmissionStage("");
+      setUploadProgress({});
       setSubmissionError(null);
       setIsSubmitting(false);
       setInferenceBindings([createInferenceBinding()]);
@@ -200,9 +270,84 @@ export const NewTaskRequestDialog = ({
       setOnnxFile(null);
       setOnnxFileName(null);
       setTaskName("");
+      setTrainingDataset(createDatasetConfig());
+      setValidationDataset(createDatasetConfig());
+      setTrainHyperparameters(createTrainHyperparameters());
+      setSelectedMode("inference");
+      setInferenceBindingMode("manual");
+      setReusedModel(null);
+      setSelectedTemplateId("");
+      setSaveAsTemplate(false);
+      setTemplateName("");
+      setParsedModel(null);
+      setBatchManifest(null);
+      setBatchFiles([]);
+      setBatchRun(null);
+      setBudget(createTaskBudgetDraft());
     }
   }, [open]);
 
+  const batchManifestIssues = useMemo(
+    () =>
+      batchManifest
+        ? validateBatchManifest(batchManifest.manifest, {
+            modelInputs: parsedModel?.inputs.map((input) => input.name) ?? null,
+            files: batchFiles,
+          })
+        : [],
+    [batchManifest, parsedModel, batchFiles]
+  );
+
+  const handleBatchManifestSelect = async (file: File | null) => {
+    setSubmissionError(null);
+    if (!file) {
+      setBatchManifest(null);
+      return;
+    }
+
+    const format = resolveManifestFormat(file.name);
+    if (!format) {
+      setBatchManifest(null);
+      setSubmissionError("Batch manifests must be .csv or .jsonl files.");
+      return;
+    }
+
+    try {
+      const content = await file.text();
+      setBatchManifest({
+        fileName: file.name,
+        manifest: parseBatchManifest(format, content),
+      });
+    } catch (error) {
+      setBatchManifest(null);
+      setSubmissionError(
+        error instanceof Error
+          ? `Failed to read manifest: ${error.message}`
+          : "Failed to read manifest."
+      );
+    }
+  };
+
+  const handleTemplateSelect = (templateId: string) => {
+    const template = templates.find((item) => item.id === templateId);
+    if (!template) {
+      return;
+    }
+
+    setSelectedTemplateId(templateId);
+    setSubmissionError(null);
+    applyDraft(taskDraftFromTemplate(template));
+  };
+
+  const handleTemplateDelete = () => {
+    if (!selectedTemplateId) {
+      return;
+    }
+
+    deleteTemplate(selectedTemplateId);
+    setSelectedTemplateId("");
+  };
+
   const handleNextStep = async () => {
     if (currentStep < totalSteps) {
       setCurrentStep((prev) => prev + 1);
@@ -225,22 +370,45 @@ export const NewTaskRequestDialog = ({
         return false;
       }
       
-      if (!onnxFile) {
+      if (!onnxFile && !reusedModel) {
         setSubmissionError("Please attach an ONNX artifact before proceeding.");
         return false;
       }
+
+      // Training templates and past training tasks still open in this mode.
+      if (selectedMode === "training") {
+        setSubmissionError(TRAINING_UNAVAILABLE_MESSAGE);
+        return false;
+      }
       return true;
     }
     
     // Step 2: Input bindings
     if (currentStep === 2 && selectedMode === "inference") {
-      if (inferenceBindingMode === "manual") {
+      if (inferenceBindingMode === "batch") {
+        if (!batchManifest) {
+          setSubmissionError("Please attach a CSV or JSONL batch manifest.");
+          return false;
+        }
+        if (batchManifestIssues.length > 0) {
+          setSubmissionError(
+            `The batch manifest has ${batchManifestIssues.length} problem(s). ${describeManifestIssue(batchManifestIssues[0])}`
+          );
+          return false;
+        }
+      } else if (inferenceBindingMode === "manual") {
         for (const binding of inferenceBindings) {
           if (!binding.tensorName.trim()) {
             setSubmissionError("Every inference binding requires a tensor name.");
             return false;
           }
-          if (!binding.file) {
+          if (binding.editorError) {
+            setSubmissionError(
+              `Binding "${binding.tensorName}": ${binding.editorError}`
+            );
+            return false;
+          }
+          if (!binding.file && !binding.existingFileUrl) {
             setSubmissionError(`Binding "${binding.tensorName}" is missing an uploaded file.`);
             return false;
           }
@@ -257,6 +425,33 @@ export const NewTaskRequestDialog = ({
       return true;
     }
     
+    // Step 2: Datasets and hyperparameters
+    if (currentStep === 2 && selectedMode === "training") {
+      const trainingError = validateDataset(trainingDataset, "training dataset");
+      if (trainingError) {
+        setSubmissionError(trainingError);
+        return false;
+      }
+
+      if (isDatasetProvided(validationDataset)) {
+        const validationError = validateDataset(
+          validationDataset,
+          "validation dataset"
+        );
+        if (validationError) {
+          setSubmissionError(validationError);
+          return false;
+        }
+      }
+
+      const hyperparameterError = validateHyperparameters(trainHyperparameters);
+      if (hyperparameterError) {
+        setSubmissionError(hyperparameterError);
+        return false;
+      }
+      return true;
+    }
+
     // Step 3: Output bindings
     if (currentStep === 3 && selectedMode === "inference") {
       for (const output of outputBindings) {
@@ -277,6 +472,17 @@ export const NewTaskRequestDialog = ({
       return;
     }
 
+    if (currentStep === 2 && selectedMode === "training") {
+      const contentError = await inspectTrainingDatasets(
+        trainingDataset,
+        validationDataset
+      );
+      if (contentError) {
+        setSubmissionError(contentError);
+        return;
+      }
+    }
+
     // If moving from step 1, parse the ONNX model
     if (currentStep === 1 && onnxFile && DesktopBridge.isAvailable()) {
       try {
@@ -288,17 +494,20 @@ export const NewTaskRequestDialog = ({
         const result = await DesktopBridge.parseOnnxModel(onnxFile);
         setParsedModel(result);
         
-        // Auto-populate input bindings from parsed model
+        // Auto-populate input bindings from parsed model, picking the editor
+        // from each input's declared type and shape
         if (result.inputs && result.inputs.length > 0) {
-          const newBindings = result.inputs.map((input) => ({
-            id: `binding-${Math.random().toString(36).slice(2, 10)}`,
-            tensorName: input.name,
-            payloadType: "binary" as const,
-            textPayload: "",
-            fileName: null,
-            file: null,
-            maxLength: 512,
-          }));
+          const { maxLength } = resolveTokenizerHints(result.metadata);
+          const newBindings = result.inputs.map((input): InferenceBinding => {
+            const kind = resolveTensorInputKind(input);
+            return {
+              ...createInferenceBinding(),
+              tensorName: input.name,
+              payloadType: kind,
+              maxLength: kind === "text" && maxLength ? maxLength : 512,
+              spec: input,
+            };
+          });
           setInferenceBindings(newBindings);
         }
         
@@ -346,6 +555,20 @@ export const NewTaskRequestDialog = ({
               ...binding,
               payloadType: nextValue,
               textPayload: "",
+              existingFileUrl: null,
+              editorError: null,
+            };
+          }
+
+          if (isTensorEditorKind(nextValue)) {
+            return {
+              ...binding,
+              payloadType: nextValue,
+              textPayload: "",
+              file: null,
+              fileName: null,
+              existingFileUrl: null,
+              editorError: null,
             };
           }
 
@@ -355,6 +578,8 @@ export const NewTaskRequestDialog = ({
             textPayload: binding.textPayload,
             file: null,
             fileName: null,
+            existingFileUrl: null,
+            editorError: null,
           };
         }
 
@@ -368,25 +593,36 @@ export const NewTaskRequestDialog = ({
   };
 
   const handleInferenceBindingFile = (id: string, file: File | null) => {
+    const binding = inferenceBindings.find((entry) => entry.id === id);
     setInferenceBindings((current) =>
-      current.map((binding) =>
-        binding.id === id
+      current.map((entry) =>
+        entry.id === id
           ? {
-              ...binding,
+              ...entry,
               fileName: file?.name ?? null,
               file,
+              editorError: null,
             }
-          : binding
+          : entry
       )
     );
-  };
 
-  const handleDatasetChange = <Field extends keyof DatasetConfig>(
-    setter: (updater: (prev: DatasetConfig) => DatasetConfig) => void,
-    field: Field,
-    value: DatasetConfig[Field]
-  ) => {
-    setter((prev) => ({ ...prev, [field]: value }));
+    // Uploaded .npy tensors are checked against the parsed model input up
+    // front; other formats are only validated by the provider.
+    const spec = binding?.spec;
+    if (!file || !spec || getFileExtension(file.name) !== "npy") {
+      return;
+    }
+
+    void checkNpyFile(file, spec).then((editorError) =>
+      setInferenceBindings((current) =>
+        current.map((entry) =>
+          entry.id === id && entry.file === file
+            ? { ...entry, editorError }
+            : entry
+        )
+      )
+    );
   };
 
   const resolvedTaskType = useMemo(
@@ -394,22 +630,160 @@ export const NewTaskRequestDialog = ({
     [selectedMode]
   );
 
-  const uploadFileToSas = async (uploadUri: string, file: File) => {
-    const response = await fetch(uploadUri, {
-      method: "PUT",
-      headers: {
-        "x-ms-blob-type": "BlockBlob",
-        "Content-Type": file.type || "application/octet-stream",
-      },
-      body: file,
+  // Only quoted on the last step, once every input that affects the price
+  // has been chosen.
+  const quoteRequest = useMemo<TaskQuoteRequestBody | null>(() => {
+    if (!open || !isCostStep) {
+      return null;
+    }
+
+    const sumFileSizes = (files: Array<File | null>) =>
+      files.reduce((total, file) => total + (file?.size ?? 0), 0);
+    const isBatch =
+      selectedMode === "inference" && inferenceBindingMode === "batch";
+    const datasetFile = (dataset: DatasetConfig) =>
+      dataset.sourceType === "upload" ? dataset.file : null;
+
+    let inputBytes = 0;
+    if (selectedMode === "training") {
+      inputBytes = sumFileSizes([
+        datasetFile(trainingDataset),
+        datasetFile(validationDataset),
+      ]);
+    } else if (isBatch) {
+      inputBytes = sumFileSizes(batchFiles);
+    } else if (inferenceBindingMode === "manual") {
+      inputBytes = sumFileSizes(inferenceBindings.map((item) => item.file));
+    }
+
+    return {
+      type: resolvedTaskType,
+      modelUrl: onnxFile ? null : reusedModel?.url ?? null,
+      modelSizeBytes: onnxFile?.size ?? null,
+      inputBytes,
+      subtaskCount: isBatch
+        ? batchManifest?.manifest.rows.length ?? null
+        : inferenceBindingMode === "api" && selectedMode === "inference"
+        ? null
+        : 1,
+      train:
+        selectedMode === "training"
+          ? {
+              epochs: trainHyperparameters.epochs,
+              batchSize: trainHyperparameters.batchSize,
+            }
+          : null,
+    };
+  }, [
+    open,
+    isCostStep,
+    selectedMode,
+    inferenceBindingMode,
+    trainingDataset,
+    validationDataset,
+    batchFiles,
+    inferenceBindings,
+    resolvedTaskType,
+    onnxFile,
+    reusedModel,
+    batchManifest,
+    trainHyperparameters,
+  ]);
+
+  const quoteQuery = useTaskQuoteQuery(quoteRequest);
+  const { data: financeSummary } = useFinanceSummaryQuery({
+    enabled: open && isCostStep,
+  });
+  const budgetCap = useMemo(() => parseTaskBudgetCap(budget), [budget]);
+  const quote = quoteQuery.data;
+  const balance = financeSummary?.balance ?? null;
+  const requiredFunds = quote
+    ? resolveRequiredFunds(quote, budgetCap.cap)
+    : null;
+  const shortfall =
+    balance !== null && requiredFunds !== null
+      ? resolveShortfall(requiredFunds, balance)
+      : 0;
+
+  const uploadArtifact = async ({
+    resumeKey,
+    label,
+    file,
+    resolveTarget,
+    context,
+  }: {
+    resumeKey: string;
+    label: string;
+    file: File;
+    resolveTarget: () => Promise<UploadTarget>;
+    context?: Record<string, string>;
+  }) => {
+    const result = await BlockUploadManager.upload({
+      file,
+      resumeKey,
+      resolveTarget,
+      context,
+      onProgress: (progress) =>
+        setUploadProgress((prev) => ({
+          ...prev,
+          [resumeKey]: {
+            label,
+            uploadedBytes: progress.uploadedBytes,
+            totalBytes: progress.totalBytes,
+            resumed: progress.resumed,
+          },
+        })),
     });
 
-    if (!response.ok) {
-      const message = await response.text().catch(() => "Upload failed");
-      throw new Error(
-        `Azure upload failed (${response.status} ${response.statusText}): ${message}`
-      );
+    return result.blobUri;
+  };
+
+  const uploadDataset = async ({
+    dataset,
+    inputName,
+    label,
+    taskId,
+    subtaskId,
+  }: {
+    dataset: DatasetConfig;
+    inputName: "train-dataset" | "validation-dataset";
+    label: string;
+    taskId: string;
+    subtaskId: string;
+  }): Promise<TrainingDatasetReference> => {
+    if (dataset.sourceType === "url") {
+      return {
+        sourceType: "url",
+        fileUrl: dataset.url.trim(),
+        format: dataset.format,
+      };
+    }
+
+    if (!dataset.file) {
+      throw new Error(`Please attach the ${label} before dispatching.`);
     }
+
+    const file = dataset.file;
+    setSubmissionStage(`Uploading ${label}…`);
+    const blobUri = await uploadArtifact({
+      resumeKey: `task-input:${taskId}:${inputName}`,
+      label: file.name,
+      file,
+      resolveTarget: () =>
+        generateTaskUploadUrl({
+          taskId,
+          subtaskId,
+          inputName,
+          fileExtension: getFileExtension(file.name) || "bin",
+          fileType: TaskUploadFileType.Input,
+        }),
+    });
+
+    return {
+      sourceType: "upload",
+      fileUrl: blobUri,
+      format: dataset.format,
+    };
   };
 
   type ApiBindingPayloadType = NonNullable<
@@ -423,6 +797,62 @@ export const NewTaskRequestDialog = ({
     json: "Json",
     text: "Text",
     binary: "Binary",
+    tensor: "Binary",
+    image: "Binary",
+    audio: "Binary",
+  };
+
+  const runBatch = async (taskId: string, states: BatchRowState[]) => {
+    if (!batchManifest) {
+      return;
+    }
+
+    setBatchRun({ taskId, rows: states, isRunning: true });
+    const finalStates = await submitBatchRows({
+      taskId,
+      rows: batchManifest.manifest.rows,
+      states,
+      uploadFile: async ({ fileName, tensorName, subtaskId }) => {
+        const file = batchFiles.find((item) => item.name === fileName);
+        if (!file) {
+          throw new Error(`"${fileName}" is not attached.`);
+        }
+
+        return uploadArtifact({
+          resumeKey: `task-input:${taskId}:${fileName}`,
+          label: fileName,
+          file,
+          resolveTarget: () =>
+            generateTaskUploadUrl({
+              taskId,
+              subtaskId,
+              inputName: tensorName,
+              fileExtension: getFileExtension(fileName) || "bin",
+              fileType: TaskUploadFileType.Input,
+            }),
+        });
+      },
+      onRowChange: (state) =>
+        setBatchRun((prev) =>
+          prev && prev.taskId === taskId
+            ? {
+                ...prev,
+                rows: prev.rows.map((row) =>
+                  row.row === state.row ? state : row
+                ),
+              }
+            : prev
+        ),
+    });
+
+    setBatchRun((prev) =>
+      prev && prev.taskId === taskId
+        ? { taskId, rows: finalStates, isRunning: false }
+        : prev
+    );
+    await appQueryClient.invalidateQueries({
+      queryKey: invalidateMyTasksQueryKey,
+    });
   };
 
   const busyAriaProps = useMemo<AriaAttributes>(
@@ -437,53 +867,130 @@ export const NewTaskRequestDialog = ({
       return;
     }
 
-    if (!onnxFile) {
+    if (!onnxFile && !reusedModel) {
       setSubmissionError("Please attach an ONNX artifact before dispatching.");
       return;
     }
 
-    const taskId = clientTaskId || crypto.randomUUID();
+    if (selectedMode === "training") {
+      const trainingError =
+        validateDataset(trainingDataset, "training dataset") ??
+        (isDatasetProvided(validationDataset)
+          ? validateDataset(validationDataset, "validation dataset")
+          : null) ??
+        validateHyperparameters(trainHyperparameters) ??
+        (await inspectTrainingDatasets(trainingDataset, validationDataset));
+      if (trainingError) {
+        setSubmissionError(trainingError);
+        return;
+      }
+    }
+
+    if (budgetCap.error) {
+      setSubmissionError(budgetCap.error);
+      return;
+    }
+
+    if (shortfall > 0) {
+      setSubmissionError(
+        "Your balance does not cover this task. Top up before requesting execution."
+      );
+      return;
+    }
+
+    // Reuse the ids of an interrupted upload of the same model so its blob
+    // path, and therefore the blocks already sent, stay valid.
+    const modelResumeKey = onnxFile
+      ? `task-model:${fileFingerprint(onnxFile)}`
+      : null;
+    const resumable =
+      onnxFile && modelResumeKey
+        ? BlockUploadManager.findResumable(modelResumeKey, onnxFile)
+        : null;
+    const taskId = resumable?.taskId || clientTaskId || crypto.randomUUID();
+    const isBatch =
+      selectedMode === "inference" && inferenceBindingMode === "batch";
     const fillBindingsViaApi =
-      selectedMode === "inference" && inferenceBindingMode === "api";
-    const resolvedSubtaskId = clientSubtaskId ?? crypto.randomUUID();
+      selectedMode === "inference" &&
+      (inferenceBindingMode === "api" || isBatch);
+    const resolvedSubtaskId =
+      resumable?.subtaskId || clientSubtaskId || crypto.randomUUID();
 
     try {
       setIsSubmitting(true);
       setSubmissionError(null);
-
-      setSubmissionStage("Negotiating secure upload channel…");
-      const modelFileExtension = getFileExtension(onnxFile.name) || "onnx";
-      const modelUploadUrl = await generateTaskUploadUrl({
-        taskId,
-        subtaskId: resolvedSubtaskId,
-        inputName: "model",
-        fileExtension: modelFileExtension,
-        fileType: TaskUploadFileType.Model,
-      });
-
-      setSubmissionStage("Uploading ONNX artifact to Storage…");
-      await uploadFileToSas(modelUploadUrl.uploadUri, onnxFile);
+      setUploadProgress({});
+
+      let modelBlobUri: string;
+      if (onnxFile && modelResumeKey) {
+        setSubmissionStage(
+          resumable
+            ? "Resuming interrupted ONNX upload…"
+            : "Uploading ONNX artifact to Storage…"
+        );
+        const modelFileExtension = getFileExtension(onnxFile.name) || "onnx";
+        modelBlobUri = await uploadArtifact({
+          resumeKey: modelResumeKey,
+          label: onnxFile.name,
+          file: onnxFile,
+          context: { taskId, subtaskId: resolvedSubtaskId },
+          resolveTarget: () =>
+            generateTaskUploadUrl({
+              taskId,
+              subtaskId: resolvedSubtaskId,
+              inputName: "model",
+              fileExtension: modelFileExtension,
+              fileType: TaskUploadFileType.Model,
+            }),
+        });
+      } else if (reusedModel) {
+        // The blob is immutable once committed, so a previous upload can back
+        // any number of tasks.
+        modelBlobUri = reusedModel.url;
+      } else {
+        throw new Error("Please attach an ONNX artifact before dispatching.");
+      }
 
       const bindings: NonNullable<
         CreateTaskRequestBody["inference"]
       >["bindings"] = [];
 
-      if (selectedMode === "inference") {
+      if (isBatch && batchManifest) {
+        // Rows carry the payloads; the task only declares the inputs.
+        const [firstRow] = batchManifest.manifest.rows;
+        for (const tensorName of batchManifest.manifest.tensorNames) {
+          const sample = firstRow?.bindings[tensorName];
+          bindings.push({
+            tensorName,
+            payloadType: sample ? BATCH_PAYLOAD_TYPE[sample.kind] : "Json",
+            payload: null,
+            fileUrl: null,
+          });
+        }
+      } else if (selectedMode === "inference") {
         for (const binding of inferenceBindings) {
           if (!binding.tensorName.trim()) {
             throw new Error("Every inference binding requires a tensor name.");
           }
 
           if (!binding.file) {
-            throw new Error(
-              `Binding "${binding.tensorName}" is missing an uploaded file.`
-            );
+            if (!binding.existingFileUrl) {
+              throw new Error(
+                `Binding "${binding.tensorName}" is missing an uploaded file.`
+              );
+            }
+
+            bindings.push({
+              tensorName: binding.tensorName,
+              payloadType: "Binary",
+              payload: null,
+              fileUrl: binding.existingFileUrl,
+              maxLength: binding.payloadType === "text" ? binding.maxLength : undefined,
+              padding: binding.payloadType === "text" ? true : undefined,
+            });
+            continue;
           }
 
-          setSubmissionStage(
-            `Preparing upload slot for "${binding.tensorName}"…`
-          );
-          
           // Determine file extension based on payload type
           let tensorFileExtension = getFileExtension(binding.file.name ?? "");
           if (!tensorFileExtension) {
@@ -491,34 +998,66 @@ export const NewTaskRequestDialog = ({
                                  binding.payloadType === "text" ? "txt" : "bin";
           }
 
-          const tensorUploadUrl = await generateTaskUploadUrl({
-            taskId,
-            subtaskId: resolvedSubtaskId,
-            inputName: binding.tensorName,
-            fileExtension: tensorFileExtension,
-            fileType: TaskUploadFileType.Input,
-          });
-
           setSubmissionStage(
             `Uploading "${binding.tensorName}"…`
           );
-          await uploadFileToSas(tensorUploadUrl.uploadUri, binding.file);
+          const tensorBlobUri = await uploadArtifact({
+            resumeKey: `task-input:${taskId}:${binding.tensorName}`,
+            label: binding.tensorName,
+            file: binding.file,
+            resolveTarget: () =>
+              generateTaskUploadUrl({
+                taskId,
+                subtaskId: resolvedSubtaskId,
+                inputName: binding.tensorName,
+                fileExtension: tensorFileExtension,
+                fileType: TaskUploadFileType.Input,
+              }),
+          });
 
           bindings.push({
             tensorName: binding.tensorName,
             payloadType: "Binary",
             payload: null,
-            fileUrl: tensorUploadUrl.blobUri,
+            fileUrl: tensorBlobUri,
             maxLength: binding.payloadType === "text" ? binding.maxLength : undefined,
             padding: binding.payloadType === "text" ? true : undefined,
           });
         }
       }
 
+      let train: CreateTaskRequestBody["train"];
+      if (selectedMode === "training") {
+        const trainingDatasetReference = await uploadDataset({
+          dataset: trainingDataset,
+          inputName: "train-dataset",
+          label: "training dataset",
+          taskId,
+          subtaskId: resolvedSubtaskId,
+        });
+        const validationDatasetReference = isDatasetProvided(validationDataset)
+          ? await uploadDataset({
+              dataset: validationDataset,
+              inputName: "validation-dataset",
+              label: "validation dataset",
+              taskId,
+              subtaskId: resolvedSubtaskId,
+            })
+          : null;
+
+        train = {
+          epochs: trainHyperparameters.epochs,
+          batchSize: trainHyperparameters.batchSize,
+          learningRate: parseLearningRate(trainHyperparameters.learningRate),
+          trainingDataset: trainingDatasetReference,
+          validationDataset: validationDatasetReference,
+        };
+      }
+
       const requestBody: CreateTaskRequestBody = {
         taskId,
         type: resolvedTaskType,
-        modelUrl: modelUploadUrl.blobUri,
+        modelUrl: modelBlobUri,
         fillBindingsViaApi,
       };
 
@@ -537,34 +1076,97 @@ export const NewTaskRequestDialog = ({
         };
       }
 
+      if (train) {
+        requestBody.train = train;
+      }
+
+      if (budgetCap.cap) {
+        requestBody.budgetCap = budgetCap.cap;
+      }
+
       setSubmissionStage("Registering workload with orchestration service…");
       await createTask(requestBody);
 
       setSubmissionStage("Workload registered. Dispatching to providers…");
 
+      if (saveAsTemplate) {
+        saveTemplate({
+          name: templateName.trim() || taskName.trim(),
+          mode: selectedMode,
+          modelUrl: modelBlobUri,
+          modelFileName: onnxFile?.name ?? reusedModel?.fileName ?? "model.onnx",
+          bindings:
+            selectedMode === "inference"
+              ? inferenceBindings.map((binding) => ({
+                  tensorName: binding.tensorName,
+                  payloadType: mapPayloadType[binding.payloadType],
+                  maxLength:
+                    binding.payloadType === "text" ? binding.maxLength : null,
+                }))
+              : [],
+          outputs:
+            selectedMode === "inference"
+              ? outputBindings.map((output) => ({
+                  tensorName: output.tensorName,
+                  payloadType: mapPayloadType[output.payloadType],
+                  fileFormat:
+                    output.payloadType === "binary" ? output.fileFormat : null,
+                }))
+              : [],
+          train: train
+            ? {
+                epochs: train.epochs,
+                batchSize: train.batchSize,
+                learningRate: train.learningRate ?? null,
+              }
+            : null,
+        });
+      }
+
       // Refetch tasks immediately after creating a new one
       await appQueryClient.invalidateQueries({ queryKey: invalidateMyTasksQueryKey });
 
+      if (isBatch && batchManifest) {
+        void runBatch(
+          taskId,
+          createBatchRowStates(batchManifest.manifest.rows)
+        );
+        setClientTaskId(crypto.randomUUID());
+        setClientSubtaskId(crypto.randomUUID());
+        return;
+      }
+
       onDismiss();
       setClientTaskId(crypto.randomUUID());
       setClientSubtaskId(crypto.randomUUID());
     } catch (error) {
-      setSubmissionError(
-        error instanceof Error
-          ? error.message
-          : "Failed to dispatch workload. Please try again."
-      );
+      if (isApiError(error, "insufficient_balance")) {
+        // Brings the shortfall shown on the cost step up to date.
+        void appQueryClient.invalidateQueries({
+          queryKey: financeSummaryQueryKey,
+        });
+      }
+      setSubmissionError(resolveDispatchError(error));
     } finally {
       setIsSubmitting(false);
       setSubmissionStage("");
     }
   };
 
-  const stepTitles = [
-    "Model Configuration",
-    "Input Bindings",
-    "Output Bindings",
-  ];
+  const stepTitles =
+    selectedMode === "training"
+      ? [
+          "Model Configuration",
+          "Datasets & Hyperparameters",
+          "Review",
+          "Cost & Budget",
+        ]
+      : [
+          "Model Configuration",
+          "Input Bindings",
+          "Output Bindings",
+          "Cost & Budget",
+        ];
 
   return (
     <DialogShell
@@ -576,955 +1178,127 @@ export const NewTaskRequestDialog = ({
       title="Dispatch ONNX workload"
       helperText="Upload an ONNX artifact, choose the execution mode, and label the run to track downstream compilation and provider fan-out."
     >
+      {batchRun ? (
+        <BatchSubmissionProgress
+          rows={batchRun.rows}
+          isRunning={batchRun.isRunning}
+          onRetryFailed={() => void runBatch(batchRun.taskId, batchRun.rows)}
+          onDone={onDismiss}
+        />
+      ) : (
       <form
         onSubmit={handleSubmit}
         className="relative space-y-6"
         {...busyAriaProps}
       >
-        {/* Step Indicator */}
-        <div className="border-b border-slate-200 pb-6 dark:border-slate-700">
-          <div className="flex items-center mb-3">
-            {[1, 2, 3].map((step, index) => (
-              <div key={step} className="flex items-center flex-1">
-                {index > 0 && (
-                  <div
-                    className={`h-0.5 flex-1 ${
-                      step <= currentStep
-                        ? "bg-indigo-600 dark:bg-indigo-500"
-                        : "bg-slate-300 dark:bg-slate-600"
-                    }`}
-                  />
-                )}
-                <div
-                  className={`flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-full border-2 font-semibold transition ${
-                    step < currentStep
-                      ? "border-indigo-600 bg-indigo-600 text-white dark:border-indigo-500 dark:bg-indigo-500"
-                      : step === currentStep
-                      ? "border-indigo-600 bg-white text-indigo-600 dark:border-indigo-500 dark:bg-slate-800 dark:text-indigo-400"
-                      : "border-slate-300 bg-white text-slate-400 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-500"
-                  }`}
-                >
-                  {step < currentStep ? "✓" : step}
-                </div>
-                {index < 2 && (
-                  <div
-                    className={`h-0.5 flex-1 ${
-                      step < currentStep
-                        ? "bg-indigo-600 dark:bg-indigo-500"
-                        : "bg-slate-300 dark:bg-slate-600"
-                    }`}
-                  />
-                )}
-              </div>
-            ))}
-          </div>
-          <div className="flex w-full">
-            {[1, 2, 3].map((step, index) => (
-              <div
-                key={step}
-                className={`flex-1 ${index === 1 ? 'text-center' : index === 2 ? 'text-right' : 'text-left'}`}
-              >
-                <div
-                  className={`text-xs font-semibold ${
-                    step === currentStep
-                      ? "text-indigo-600 dark:text-indigo-400"
-                      : step < currentStep
-                      ? "text-slate-600 dark:text-slate-400"
-                      : "text-slate-400 dark:text-slate-500"
-                  }`}
-                >
-                  {stepTitles[step - 1]}
-                </div>
-              </div>
-            ))}
-          </div>
-        </div>
+        <NewTaskStepIndicator
+          stepTitles={stepTitles}
+          currentStep={currentStep}
+        />
         {isSubmitting ? (
-          <div className="absolute inset-0 bottom-10 z-10 flex flex-col items-center justify-center gap-4 rounded-2xl bg-slate-100/70 backdrop-blur dark:bg-slate-900/70">
-            <div className="h-12 w-12 animate-spin rounded-full border-2 border-indigo-900 border-t-transparent dark:border-indigo-400" />
-            <div className="space-y-2 text-center">
-              <p className="text-xs font-semibold uppercase tracking-[0.3em] text-indigo-700 dark:text-indigo-400">
-                Dispatching workload
-              </p>
-              <p className="mx-auto max-w-xs text-sm text-indigo-700/90 dark:text-indigo-300/90">
-                {submissionStage ||
-                  "Preparing your workload for distributed execution…"}
-              </p>
-            </div>
-          </div>
+          <TaskDispatchOverlay
+            stage={submissionStage}
+            uploadProgress={uploadProgress}
+          />
         ) : null}
 
         {/* Step 1: Model Configuration */}
         {currentStep === 1 && (
-        <section className="space-y-6">
-          <div className="grid gap-6 md:grid-cols-2">
-            <div className="space-y-2">
-              <label
-                htmlFor={nameFieldId}
-                className="text-sm font-semibold text-slate-700 dark:text-slate-300"
-              >
-                Name
-              </label>
-              <input
-                id={nameFieldId}
-                name="name"
-                type="text"
-                value={taskName}
-                onChange={(e) => setTaskName(e.target.value)}
-                placeholder="e.g. diffusion-sampler preview run"
-                className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200 dark:placeholder:text-slate-500 dark:focus:border-indigo-600 dark:focus:ring-indigo-900/60"
-                required
-              />
-            </div>
-
-            <div className="space-y-2">
-              <label
-                htmlFor={modeFieldId}
-                className="text-sm font-semibold text-slate-700 dark:text-slate-300"
-              >
-                Execution mode
-              </label>
-              <input type="hidden" name="mode" value={selectedMode} />
-              <SelectDropdown
-                id={modeFieldId}
-                ariaLabel="Execution mode"
-                value={selectedMode}
-                onValueChange={(value) => {
-                  const selectedOption = modeOptions.find(
-                    (option) => option.value === value
-                  );
-                  if (selectedOption?.disabled) {
-                    return;
-                  }
-                  setSelectedMode(value);
-                }}
-                placeholder="Select execution mode"
-                options={modeOptions.map((option) => ({
-                  value: option.value,
-                  label: option.label,
-                  description: option.helper,
-                  disabled: option.disabled,
-                }))}
-              />
-            </div>
-          </div>
-
-          <div className="space-y-2">
-            <label
-              htmlFor={fileFieldId}
-              className="text-sm font-semibold text-slate-700 dark:text-slate-300"
-            >
-              ONNX artifact
-            </label>
-            <FileDropzone
-              inputId={fileFieldId}
-              name="onnxFile"
-              accept=".onnx"
-              emptyState={
-                <span>
-                  Drag & drop your .onnx file here, or
-                  <span className="ml-1 text-indigo-600 transition group-hover:text-indigo-500">
-                    browse
-                  </span>
-                </span>
+          <section className="space-y-6">
+            <TaskTemplatePicker
+              templates={templates}
+              selectedTemplateId={selectedTemplateId}
+              onSelect={handleTemplateSelect}
+              onDelete={handleTemplateDelete}
+            />
+            <TaskModelStep
+              name={taskName}
+              onNameChange={setTaskName}
+              mode={selectedMode}
+              onModeChange={setSelectedMode}
+              reusedModelFileName={
+                reusedModel && !onnxFile ? reusedModel.fileName : null
               }
-              helperText="Supports up to 2 GB, validated against latest opset."
-              selectedFileName={onnxFileName}
-              onFileSelect={(file) => {
+              onDiscardReusedModel={() => setReusedModel(null)}
+              modelFileName={onnxFileName}
+              onModelFileSelect={(file) => {
                 setOnnxFile(file);
                 setOnnxFileName(file?.name ?? null);
               }}
             />
-            <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
-              Plenty of ONNX models can be found at{" "}
-              <a
-                href="https://github.com/onnx/models"
-                target="_blank"
-                rel="noreferrer"
-                className="text-indigo-600 underline transition hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
-              >
-                https://github.com/onnx/models
-              </a>
-            </p>
-          </div>
-        </section>
+          </section>
         )}
 
         {/* Step 2: Input Bindings */}
         {currentStep === 2 && selectedMode === "inference" && (
-          <section
-            className="space-y-4 rounded-xl border border-indigo-100 bg-indigo-50/30 p-4 dark:border-indigo-900/50 dark:bg-indigo-950/30"
-            aria-labelledby={`${inferenceSectionId}-label`}
-          >
-            <div className="flex-col gap-1">
-              <h3
-                id={`${inferenceSectionId}-label`}
-                className="text-sm font-semibold text-indigo-700 dark:text-indigo-400"
-              >
-                Inference payload bindings
-              </h3>
-              <p className="text-xs text-indigo-600/80 dark:text-indigo-400/80">
-                Define tensor names and payloads to feed into the ONNX graph.
-                Use JSON arrays for batched inputs or upload binary blobs for
-                large tensors.
-              </p>
-            </div>
-
-            <div className="flex flex-wrap gap-2">
-              {(["manual", "api"] as const).map((modeOption) => (
-                <button
-                  key={modeOption}
-                  type="button"
-                  onClick={() => setInferenceBindingMode(modeOption)}
-                  className={`inline-flex items-center rounded-md border px-3 py-1.5 text-xs font-semibold uppercase tracking-wide transition ${
-                    inferenceBindingMode === modeOption
-                      ? "border-indigo-400 bg-white text-indigo-600 shadow-sm dark:border-indigo-600 dark:bg-slate-800 dark:text-indigo-400"
-                      : "border-indigo-100/70 bg-indigo-100/50 text-indigo-500 hover:border-indigo-200 hover:text-indigo-600 dark:border-indigo-900/50 dark:bg-indigo-950/50 dark:text-indigo-400 dark:hover:border-indigo-800 dark:hover:text-indigo-300"
-                  }`}
-                >
-                  {modeOption === "manual"
-                    ? "Manually fill payload bindings"
-                    : "Fill by API"}
-                </button>
-              ))}
-            </div>
-
-            {inferenceBindingMode === "manual" ? (
-              <>
-                <div className="space-y-4">
-                  {inferenceBindings.map((binding, index) => (
-                    <div
-                      key={binding.id}
-                      className="space-y-3 rounded-lg border border-indigo-100 bg-white/70 p-4 shadow-sm dark:border-indigo-900/50 dark:bg-slate-800/70"
-                    >
-                      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
-                        <div className="flex flex-1 flex-col gap-1">
-                          <label className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
-                            Tensor name
-                          </label>
-                          <input
-                            name={`inferenceBindings[${index}].tensorName`}
-                            value={binding.tensorName}
-                            onChange={(event) =>
-                              handleInferenceBindingChange(
-                                binding.id,
-                                "tensorName",
-                                event.target.value
-                              )
-                            }
-                            placeholder="e.g. input_ids"
-                            className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:placeholder:text-slate-500 dark:focus:border-indigo-600 dark:focus:ring-indigo-900/60"
-                            required
-                          />
-                        </div>
-
-                        <div className="flex flex-col gap-1 sm:w-48">
-                          <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
-                            Payload type
-                          </span>
-                          <SelectDropdown
-                            ariaLabel="Payload type"
-                            value={binding.payloadType}
-                            onValueChange={(value) =>
-                              handleInferenceBindingChange(
-                                binding.id,
-                                "payloadType",
-                                value
-                              )
-                            }
-                            options={[
-                              { value: "json", label: "JSON tensor" },
-                              { value: "text", label: "Plain text" },
-                              { value: "binary", label: "Binary upload" },
-                            ]}
-                            triggerClassName="w-full"
-                          />
-                        </div>
-                      </div>
-
-                      <div className="space-y-1">
-                       <label className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
-                         {binding.payloadType === "binary"
-                           ? "Upload tensor"
-                           : binding.payloadType === "json"
-                           ? "Upload JSON file"
-                           : "Upload text file"}
-                       </label>
-                       <FileDropzone
-                         inputId={`${binding.id}-file`}
-                         name={`inferenceBindings[${index}].file`}
-                         accept={
-                           binding.payloadType === "json"
-                             ? ".json"
-                             : binding.payloadType === "text"
-                             ? ".txt"
-                             : undefined
-                         }
-                         emptyState={
-                           binding.payloadType === "json"
-                             ? "Attach .json file"
-                             : binding.payloadType === "text"
-                             ? "Attach .txt file"
-                             : "Attach .npy, .npz tensor file or image, video files"
-                         }
-                         helperText="Stored securely and streamed to inference workers."
-                         className="min-h-[140px] py-6"
-                         selectedFileName={binding.fileName}
-                         onFileSelect={(file) =>
-                           handleInferenceBindingFile(binding.id, file)
-                         }
-                       />
-                       {binding.payloadType === "text" && (
-                         <div className="mt-3 space-y-1">
-                           <label className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
-                             Max sequence length
-                           </label>
-                           <input
-                             type="number"
-                             min={1}
-                             max={8192}
-                             value={binding.maxLength}
-                             onChange={(event) =>
-                               handleInferenceBindingChange(
-                                 binding.id,
-                                 "maxLength",
-                                 Number.parseInt(event.target.value, 10) || 512
-                               )
-                             }
-                             className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm transition focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:focus:border-indigo-600 dark:focus:ring-indigo-900/60"
-                           />
-                           <p className="text-xs text-slate-400 dark:text-slate-500">
-                             Maximum tokens after tokenization. Text will be truncated if longer. Padding is enabled by default.
-                           </p>
-                         </div>
-                       )}
-                     </div>
-
-                      <div className="flex justify-end">
-                        <button
-                          type="button"
-                          onClick={() =>
-                            setInferenceBindings((current) =>
-                              current.length === 1
-                                ? current
-                                : current.filter(
-                                    (bindingEntry) =>
-                                      bindingEntry.id !== binding.id
-                                  )
-                            )
-                          }
-                          className="inline-flex items-center gap-2 rounded-md border border-slate-200 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-red-200 hover:bg-red-50 hover:text-red-600 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:text-slate-400 dark:hover:border-red-900/50 dark:hover:bg-red-950/30 dark:hover:text-red-400"
-                          disabled={inferenceBindings.length === 1}
-                        >
-                          <Trash2 className="h-3.5 w-3.5" />
-                          Remove binding
-                        </button>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-
-                <div className="flex justify-end">
-                  <button
-                    type="button"
-                    onClick={() =>
-                      setInferenceBindings((current) => [
-                        ...current,
-                        createInferenceBinding(),
-                      ])
-                    }
-                    className="inline-flex items-center gap-2 rounded-md bg-indigo-600 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-white shadow-sm transition hover:bg-indigo-500 dark:bg-indigo-700 dark:hover:bg-indigo-600"
-                  >
-                    <CirclePlus className="h-3.5 w-3.5" />
-                    Add tensor binding
-                  </button>
-                </div>
-              </>
-            ) : (
-              <div className="space-y-6 rounded-lg border border-indigo-100 bg-white p-4 shadow-sm">
-                <header className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
-                  <div className="space-y-1">
-                    <h4 className="text-sm font-semibold text-indigo-700">
-                      Public inference API
-                    </h4>
-                    <p className="text-xs leading-5 text-slate-500">
-                      Each api call will trigger a new task request to connected
-                      providers.
-                    </p>
-                  </div>
-                  <a
-                    href={publicApiDocUrl}
-                    target="_blank"
-                    rel="noreferrer"
-                    className="text-nowrap inline-flex items-center gap-1 rounded-md border border-indigo-200 px-2.5 py-1 text-xs font-semibold uppercase tracking-wide text-indigo-600 transition hover:bg-indigo-50"
-                  >
-                    View API docs
-                  </a>
-                </header>
-
-                <div className="space-y-4">
-                  {inferenceBindings.map((binding, index) => (
-                    <div
-                      key={binding.id}
-                      className="space-y-3 rounded-lg border border-indigo-100 bg-indigo-50/40 p-4 shadow-sm"
-                    >
-                      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
-                        <div className="flex flex-1 flex-col gap-1">
-                          <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                            Tensor name
-                          </label>
-                          <input
-                            name={`inferenceBindings[${index}].tensorName`}
-                            value={binding.tensorName}
-                            onChange={(event) =>
-                              handleInferenceBindingChange(
-                                binding.id,
-                                "tensorName",
-                                event.target.value
-                              )
-                            }
-                            placeholder="e.g. input_ids"
-                            className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60"
-                            required
-                          />
-                        </div>
-
-                        <div className="flex flex-col gap-1 sm:w-48">
-                          <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                            Payload type
-                          </span>
-                          <SelectDropdown
-                            ariaLabel="Payload type"
-                            value={binding.payloadType}
-                            onValueChange={(value) =>
-                              handleInferenceBindingChange(
-                                binding.id,
-                                "payloadType",
-                                value
-                              )
-                            }
-                            options={[
-                              { value: "json", label: "JSON tensor" },
-                              { value: "text", label: "Plain text" },
-                              { value: "binary", label: "Binary upload" },
-                            ]}
-                            triggerClassName="w-full"
-                          />
-                        </div>
-                      </div>
-
-                      <div className="flex justify-end">
-                        <button
-                          type="button"
-                          onClick={() =>
-                            setInferenceBindings((current) =>
-                              current.length === 1
-                                ? current
-                                : current.filter(
-                                    (bindingEntry) =>
-                                      bindingEntry.id !== binding.id
-                                  )
-                            )
-                          }
-                          className="inline-flex items-center gap-2 rounded-md border border-slate-200 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-red-200 hover:bg-red-50 hover:text-red-600 disabled:cursor-not-allowed disabled:opacity-50"
-                          disabled={inferenceBindings.length === 1}
-                        >
-                          <Trash2 className="h-3.5 w-3.5" />
-                          Remove binding
-                        </button>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-
-                <div className="flex justify-end">
-                  <button
-                    type="button"
-                    onClick={() =>
-                      setInferenceBindings((current) => [
-                        ...current,
-                        createInferenceBinding(),
-                      ])
-                    }
-                    className="inline-flex items-center gap-2 rounded-md bg-indigo-600 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-white shadow-sm transition hover:bg-indigo-500"
-                  >
-                    <CirclePlus className="h-3.5 w-3.5" />
-                    Add tensor binding
-                  </button>
-                </div>
-
-                <aside className="space-y-3 rounded-lg border border-slate-200 bg-slate-50/70 p-4">
-                  <div className="space-y-2">
-                    <h5 className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                      API key
-                    </h5>
-                    <div className="flex items-center gap-2 rounded-md border border-slate-200 bg-white px-3 py-2 shadow-sm">
-                      <span className="flex-1 truncate font-mono text-xs text-slate-600">
-                        {maskedPublicApiKey}
-                      </span>
-                      <button
-                        type="button"
-                        className="inline-flex items-center gap-1 rounded-md border border-slate-200 px-2 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-600 transition hover:bg-slate-100"
-                      >
-                        <Copy className="h-3.5 w-3.5" />
-                        Copy
-                      </button>
-                    </div>
-                  </div>
-                  <div className="space-y-1 text-xs text-slate-500">
-                    <p>
-                      Authenticate each call with the{" "}
-                      <span className="font-mono text-slate-700">
-                        X-Api-Key
-                      </span>{" "}
-                      header. Rotate credentials from the console when required.
-                    </p>
-                    <p>
-                      Payload metadata defined above is enforced alongside
-                      request descriptors when the public API is invoked.
-                    </p>
-                  </div>
-                </aside>
-              </div>
-            )}
-          </section>
+          <InferenceInputsStep
+            bindingMode={inferenceBindingMode}
+            onBindingModeChange={setInferenceBindingMode}
+            bindings={inferenceBindings}
+            onBindingsChange={setInferenceBindings}
+            onBindingFieldChange={handleInferenceBindingChange}
+            onBindingFileSelect={handleInferenceBindingFile}
+            batch={{
+              manifest: batchManifest?.manifest ?? null,
+              manifestFileName: batchManifest?.fileName ?? null,
+              issues: batchManifestIssues,
+              onManifestSelect: (file) => void handleBatchManifestSelect(file),
+              files: batchFiles,
+              onFilesChange: setBatchFiles,
+              modelInputsKnown: parsedModel !== null,
+            }}
+          />
         )}
 
         {/* Step 3: Output Bindings */}
         {currentStep === 3 && selectedMode === "inference" && (
-          <section
-            className="space-y-4 rounded-xl border border-emerald-100 bg-emerald-50/30 p-4 dark:border-emerald-900/50 dark:bg-emerald-950/30"
-            aria-labelledby="output-settings-label"
-          >
-            <div className="flex flex-col gap-1">
-              <h3
-                id="output-settings-label"
-                className="text-sm font-semibold text-emerald-700 dark:text-emerald-400"
-              >
-                Output settings
-              </h3>
-              <p className="text-xs text-emerald-600/80 dark:text-emerald-400/80">
-                Define output tensor names and their format. Binary outputs will be uploaded to storage and returned as URLs.
-              </p>
-            </div>
-
-            <div className="space-y-4">
-              {outputBindings.map((output, index) => (
-                <div
-                  key={output.id}
-                  className="space-y-3 rounded-lg border border-emerald-100 bg-white/70 p-4 shadow-sm dark:border-emerald-900/50 dark:bg-slate-800/70"
-                >
-                  <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
-                    <div className="flex flex-1 flex-col gap-1">
-                      <label className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
-                        Tensor name
-                      </label>
-                      <input
-                        name={`outputBindings[${index}].tensorName`}
-                        value={output.tensorName}
-                        onChange={(event) =>
-                          setOutputBindings((current) =>
-                            current.map((binding) =>
-                              binding.id === output.id
-                                ? { ...binding, tensorName: event.target.value }
-                                : binding
-                            )
-                          )
-                        }
-                        placeholder="e.g. output_0"
-                        className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-emerald-300 focus:outline-none focus:ring focus:ring-emerald-200/60 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:placeholder:text-slate-500 dark:focus:border-emerald-600 dark:focus:ring-emerald-900/60"
-                        required
-                      />
-                    </div>
-
-                    <div className="flex flex-col gap-1 sm:w-48">
-                      <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
-                        Payload type
-                      </span>
-                      <SelectDropdown
-                        ariaLabel="Output payload type"
-                        value={output.payloadType}
-                        onValueChange={(value) =>
-                          setOutputBindings((current) =>
-                            current.map((binding) =>
-                              binding.id === output.id
-                                ? { ...binding, payloadType: value as OutputBinding["payloadType"] }
-                                : binding
-                            )
-                          )
-                        }
-                        options={[
-                          { value: "json", label: "JSON tensor" },
-                          { value: "text", label: "Plain text" },
-                          { value: "binary", label: "Binary upload" },
-                        ]}
-                        triggerClassName="w-full"
-                      />
-                    </div>
-                  </div>
-
-                  {output.payloadType === "binary" && (
-                    <div className="flex flex-col gap-1">
-                      <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
-                        File format
-                      </span>
-                      <SelectDropdown
-                        ariaLabel="Output file format"
-                        value={output.fileFormat || "npy"}
-                        onValueChange={(value) =>
-                          setOutputBindings((current) =>
-                            current.map((binding) =>
-                              binding.id === output.id
-                                ? { ...binding, fileFormat: value }
-                                : binding
-                            )
-                          )
-                        }
-                        options={[
-                          { value: "json", label: "JSON (.json)" },
-                          { value: "txt", label: "Text (.txt)" },
-                          { value: "npy", label: "NumPy Array (.npy)" },
-                          { value: "npz", label: "Compressed NumPy (.npz)" },
-                          { value: "png", label: "PNG Image (.png)" },
-                          { value: "jpg", label: "JPEG Image (.jpg)" },
-                          { value: "webp", label: "WebP Image (.webp)" },
-                          { value: "bmp", label: "Bitmap Image (.bmp)" },
-                          { value: "tiff", label: "TIFF Image (.tiff)" },
-                        ]}
-                        triggerClassName="w-full"
-                      />
-                      <p className="text-xs text-slate-400 dark:text-slate-500">
-                        Choose the binary format for saving the output tensor
-                      </p>
-                    </div>
-                  )}
-
-                  <div className="flex justify-end">
-                    <button
-                      type="button"
-                      onClick={() =>
-                        setOutputBindings((current) =>
-                          current.length === 1
-                            ? current
-                            : current.filter(
-                                (bindingEntry) =>
-                                  bindingEntry.id !== output.id
-                              )
-                        )
-                      }
-                      className="inline-flex items-center gap-2 rounded-md border border-slate-200 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-red-200 hover:bg-red-50 hover:text-red-600 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:text-slate-400 dark:hover:border-red-900/50 dark:hover:bg-red-950/30 dark:hover:text-red-400"
-                      disabled={outputBindings.length === 1}
-                    >
-                      <Trash2 className="h-3.5 w-3.5" />
-                      Remove output
-                    </button>
-                  </div>
-                </div>
-              ))}
-            </div>
-
-            <div className="flex justify-end">
-              <button
-                type="button"
-                onClick={() =>
-                  setOutputBindings((current) => [
-                    ...current,
-                    createOutputBinding(),
-                  ])
-                }
-                className="inline-flex items-center gap-2 rounded-md bg-emerald-600 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-white shadow-sm transition hover:bg-emerald-500 dark:bg-emerald-700 dark:hover:bg-emerald-600"
-              >
-                <CirclePlus className="h-3.5 w-3.5" />
-                Add output binding
-              </button>
-            </div>
-          </section>
+          <InferenceOutputsStep
+            bindings={outputBindings}
+            onBindingsChange={setOutputBindings}
+          />
         )}
 
-        {selectedMode === "training" && (
-          <section className="space-y-6">
-            <div className="space-y-4 rounded-xl border border-slate-200 bg-slate-50/60 p-4">
-              <header className="space-y-1">
-                <h3 className="text-sm font-semibold text-slate-700">
-                  Training dataset
-                </h3>
-                <p className="text-xs text-slate-500">
-                  Provide the primary dataset used for gradient updates. Upload
-                  large archives or reference a signed URI.
-                </p>
-              </header>
-
-              <div className="flex flex-wrap gap-2">
-                {(["upload", "url"] as const).map((source) => (
-                  <button
-                    key={source}
-                    type="button"
-                    onClick={() =>
-                      setTrainingDataset((prev) => ({
-                        ...prev,
-                        sourceType: source,
-                      }))
-                    }
-                    className={`inline-flex items-center rounded-md border px-3 py-1.5 text-xs font-semibold uppercase tracking-wide transition ${
-                      trainingDataset.sourceType === source
-                        ? "border-indigo-300 bg-white text-indigo-600 shadow-sm"
-                        : "border-slate-200 bg-slate-100 text-slate-500 hover:border-indigo-200 hover:text-indigo-500"
-                    }`}
-                  >
-                    {source === "upload"
-                      ? "Upload dataset"
-                      : "Reference via URL"}
-                  </button>
-                ))}
-              </div>
-
-              {trainingDataset.sourceType === "upload" ? (
-                <FileDropzone
-                  inputId={trainingDatasetFileFieldId}
-                  name="trainDatasetFile"
-                  emptyState="Drop archive or dataset manifest"
-                  helperText="Supports TAR, ZIP, parquet, or sharded dataset manifests."
-                  className="min-h-[160px] bg-white"
-                  selectedFileName={trainingDataset.fileName}
-                  onFileSelect={(file) =>
-                    setTrainingDataset((prev) => ({
-                      ...prev,
-                      fileName: file?.name ?? null,
-                    }))
-                  }
-                />
-              ) : (
-                <div className="space-y-2">
-                  <label
-                    htmlFor={trainDatasetUrlFieldId}
-                    className="text-xs font-semibold uppercase tracking-wide text-slate-500"
-                  >
-                    Dataset URL
-                  </label>
-                  <input
-                    id={trainDatasetUrlFieldId}
-                    name="trainDatasetUrl"
-                    type="url"
-                    value={trainingDataset.url}
-                    onChange={(event) =>
-                      handleDatasetChange(
-                        setTrainingDataset,
-                        "url",
-                        event.target.value
-                      )
-                    }
-                    placeholder="https://storage.example.com/train_manifest.parquet"
-                    className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60"
-                    required={trainingDataset.sourceType === "url"}
-                  />
-                </div>
-              )}
-
-              <div className="grid gap-4">
-                <div className="space-y-2">
-                  <label
-                    htmlFor={trainingDatasetFormatFieldId}
-                    className="text-xs font-semibold uppercase tracking-wide text-slate-500"
-                  >
-                    Dataset format
-                  </label>
-                  <SelectDropdown
-                    id={trainingDatasetFormatFieldId}
-                    ariaLabel="Training dataset format"
-                    value={trainingDataset.format}
-                    onValueChange={(value) =>
-                      handleDatasetChange(
-                        setTrainingDataset,
-                        "format",
-                        value as DatasetConfig["format"]
-                      )
-                    }
-                    options={datasetFormatOptions.map((option) => ({
-                      value: option.value,
-                      label: option.label,
-                    }))}
-                    triggerClassName="w-full"
-                  />
-                </div>
-              </div>
-            </div>
-
-            <div className="space-y-4 rounded-xl border border-slate-200 bg-slate-50/60 p-4">
-              <header className="space-y-1">
-                <h3 className="text-sm font-semibold text-slate-700">
-                  Validation dataset
-                </h3>
-                <p className="text-xs text-slate-500">
-                  Optional evaluation split streamed between checkpoints.
-                  Provide a held-out subset to track metrics.
-                </p>
-              </header>
-
-              <div className="flex flex-wrap gap-2">
-                {(["upload", "url"] as const).map((source) => (
-                  <button
-                    key={source}
-                    type="button"
-                    onClick={() =>
-                      setValidationDataset((prev) => ({
-                        ...prev,
-                        sourceType: source,
-                      }))
-                    }
-                    className={`inline-flex items-center rounded-md border px-3 py-1.5 text-xs font-semibold uppercase tracking-wide transition ${
-                      validationDataset.sourceType === source
-                        ? "border-indigo-300 bg-white text-indigo-600 shadow-sm"
-                        : "border-slate-200 bg-slate-100 text-slate-500 hover:border-indigo-200 hover:text-indigo-500"
-                    }`}
-                  >
-                    {source === "upload"
-                      ? "Upload dataset"
-                      : "Reference via URL"}
-                  </button>
-                ))}
-              </div>
-
-              {validationDataset.sourceType === "upload" ? (
-                <FileDropzone
-                  inputId={validationDatasetFileFieldId}
-                  name="validationDatasetFile"
-                  emptyState="Drop validation set archive"
-                  helperText="Supports the same formats as the training dataset."
-                  className="min-h-[160px] bg-white"
-                  selectedFileName={validationDataset.fileName}
-                  onFileSelect={(file) =>
-                    setValidationDataset((prev) => ({
-                      ...prev,
-                      fileName: file?.name ?? null,
-                    }))
-                  }
-                />
-              ) : (
-                <div className="space-y-2">
-                  <label
-                    htmlFor={validationDatasetUrlFieldId}
-                    className="text-xs font-semibold uppercase tracking-wide text-slate-500"
-                  >
-                    Dataset URL
-                  </label>
-                  <input
-                    id={validationDatasetUrlFieldId}
-                    name="validationDatasetUrl"
-                    type="url"
-                    value={validationDataset.url}
-                    onChange={(event) =>
-                      handleDatasetChange(
-                        setValidationDataset,
-                        "url",
-                        event.target.value
-                      )
-                    }
-                    placeholder="https://storage.example.com/validation_manifest.parquet"
-                    className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60"
-                  />
-                </div>
-              )}
-
-              <div className="grid gap-4">
-                <div className="space-y-2">
-                  <label
-                    htmlFor={validationDatasetFormatFieldId}
-                    className="text-xs font-semibold uppercase tracking-wide text-slate-500"
-                  >
-                    Dataset format
-                  </label>
-                  <SelectDropdown
-                    id={validationDatasetFormatFieldId}
-                    ariaLabel="Validation dataset format"
-                    value={validationDataset.format}
-                    onValueChange={(value) =>
-                      handleDatasetChange(
-                        setValidationDataset,
-                        "format",
-                        value as DatasetConfig["format"]
-                      )
-                    }
-                    options={datasetFormatOptions.map((option) => ({
-                      value: option.value,
-                      label: option.label,
-                    }))}
-                    triggerClassName="w-full"
-                  />
-                </div>
-              </div>
-            </div>
-
-            <div className="grid gap-4 rounded-xl border border-slate-200 bg-white p-4 md:grid-cols-3">
-              <div className="space-y-2">
-                <label
-                  htmlFor={hyperparameterEpochsId}
-                  className="text-xs font-semibold uppercase tracking-wide text-slate-500"
-                >
-                  Epochs
-                </label>
-                <input
-                  id={hyperparameterEpochsId}
-                  name="trainEpochs"
-                  type="number"
-                  min={1}
-                  value={trainHyperparameters.epochs}
-                  onChange={(event) =>
-                    setTrainHyperparameters((prev) => ({
-                      ...prev,
-                      epochs: Number.parseInt(event.target.value, 10) || 1,
-                    }))
-                  }
-                  className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <label
-                  htmlFor={hyperparameterBatchSizeId}
-                  className="text-xs font-semibold uppercase tracking-wide text-slate-500"
-                >
-                  Batch size
-                </label>
-                <input
-                  id={hyperparameterBatchSizeId}
-                  name="trainBatchSize"
-                  type="number"
-                  min={1}
-                  value={trainHyperparameters.batchSize}
-                  onChange={(event) =>
-                    setTrainHyperparameters((prev) => ({
-                      ...prev,
-                      batchSize: Number.parseInt(event.target.value, 10) || 1,
-                    }))
-                  }
-                  className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <label
-                  htmlFor={hyperparameterLearningRateId}
-                  className="text-xs font-semibold uppercase tracking-wide text-slate-500"
-                >
-                  Learning rate
-                </label>
-                <input
-                  id={hyperparameterLearningRateId}
-                  name="trainLearningRate"
-                  type="text"
-                  value={trainHyperparameters.learningRate}
-                  onChange={(event) =>
-                    setTrainHyperparameters((prev) => ({
-                      ...prev,
-                      learningRate: event.target.value,
-                    }))
-                  }
-                  placeholder="Optional, e.g. 3e-5"
-                  className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60"
-                />
-              </div>
-            </div>
-          </section>
+        {/* Step 2: Datasets & Hyperparameters */}
+        {currentStep === 2 && selectedMode === "training" && (
+          <TrainingDatasetsStep
+            trainingDataset={trainingDataset}
+            onTrainingDatasetChange={setTrainingDataset}
+            validationDataset={validationDataset}
+            onValidationDatasetChange={setValidationDataset}
+            hyperparameters={trainHyperparameters}
+            onHyperparametersChange={setTrainHyperparameters}
+          />
+        )}
+
+        {/* Step 3: Training Review */}
+        {currentStep === 3 && selectedMode === "training" && (
+          <TrainingReviewStep
+            name={taskName}
+            modelFileName={onnxFileName}
+            trainingDataset={trainingDataset}
+            validationDataset={validationDataset}
+            hyperparameters={trainHyperparameters}
+          />
+        )}
+
+        {/* Step 4: Cost & Budget */}
+        {isCostStep && (
+          <TaskCostReview
+            quote={quote}
+            isQuoteLoading={quoteQuery.isLoading}
+            quoteError={quoteQuery.error}
+            onRetryQuote={() => void quoteQuery.refetch()}
+            balance={balance}
+            requiredFunds={requiredFunds}
+            shortfall={shortfall}
+            isOpenEnded={
+              selectedMode === "inference" && inferenceBindingMode === "api"
+            }
+            budget={budget}
+            budgetError={budgetCap.error}
+            onBudgetChange={setBudget}
+            onTopUp={onDismiss}
+          />
         )}
 
         <input
@@ -1536,9 +1310,10 @@ export const NewTaskRequestDialog = ({
               payloadType: binding.payloadType,
               fileName: binding.fileName,
               payload:
-                binding.payloadType === "binary"
-                  ? undefined
-                  : binding.textPayload,
+                binding.payloadType === "json" ||
+                binding.payloadType === "text"
+                  ? binding.textPayload
+                  : undefined,
             }))
           )}
         />
@@ -1568,6 +1343,16 @@ export const NewTaskRequestDialog = ({
           value={JSON.stringify(trainHyperparameters)}
         />
 
+        {currentStep === totalSteps ? (
+          <TaskTemplateSaveOption
+            enabled={saveAsTemplate}
+            onEnabledChange={setSaveAsTemplate}
+            name={templateName}
+            onNameChange={setTemplateName}
+            placeholderName={taskName}
+          />
+        ) : null}
+
         {submissionError ? (
           <div className="rounded-lg border border-rose-300 bg-rose-50/70 px-4 py-3 text-sm text-rose-700 shadow-sm dark:border-rose-900/50 dark:bg-rose-950/50 dark:text-rose-400">
             {submissionError}
@@ -1610,7 +1395,7 @@ export const NewTaskRequestDialog = ({
             ) : (
               <button
                 type="submit"
-                disabled={isSubmitting}
+                disabled={isSubmitting || shortfall > 0}
                 className="w-full rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-indigo-400 sm:w-auto dark:bg-indigo-700 dark:hover:bg-indigo-600 dark:disabled:bg-indigo-800"
               >
                 Request execution
@@ -1619,6 +1404,7 @@ export const NewTaskRequestDialog = ({
           </div>
         </footer>
       </form>
+      )}
     </DialogShell>
   );
 };
@@ -0,0 +1,72 @@
+interface NewTaskStepIndicatorProps {
+  stepTitles: string[];
+  /** 1-based, matching the wizard's step numbering. */
+  currentStep: number;
+}
+
+export const NewTaskStepIndicator = ({
+  stepTitles,
+  currentStep,
+}: NewTaskStepIndicatorProps) => {
+  const steps = stepTitles.map((_, index) => index + 1);
+
+  return (
+    <div className="border-b border-slate-200 pb-6 dark:border-slate-700">
+      <div className="flex items-center mb-3">
+        {steps.map((step, index) => (
+          <div key={step} className="flex items-center flex-1">
+            {index > 0 && (
+              <div
+                className={`h-0.5 flex-1 ${
+                  step <= currentStep
+                    ? "bg-indigo-600 dark:bg-indigo-500"
+                    : "bg-slate-300 dark:bg-slate-600"
+                }`}
+              />
+            )}
+            <div
+              className={`flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-full border-2 font-semibold transition ${
+                step < currentStep
+                  ? "border-indigo-600 bg-indigo-600 text-white dark:border-indigo-500 dark:bg-indigo-500"
+                  : step === currentStep
+                  ? "border-indigo-600 bg-white text-indigo-600 dark:border-indigo-500 dark:bg-slate-800 dark:text-indigo-400"
+                  : "border-slate-300 bg-white text-slate-400 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-500"
+              }`}
+            >
+              {step < currentStep ? "✓" : step}
+            </div>
+            {index < steps.length - 1 && (
+              <div
+                className={`h-0.5 flex-1 ${
+                  step < currentStep
+                    ? "bg-indigo-600 dark:bg-indigo-500"
+                    : "bg-slate-300 dark:bg-slate-600"
+                }`}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex w-full">
+        {steps.map((step, index) => (
+          <div
+            key={step}
+            className={`flex-1 ${index === 0 ? 'text-left' : index === steps.length - 1 ? 'text-right' : 'text-center'}`}
+          >
+            <div
+              className={`text-xs font-semibold ${
+                step === currentStep
+                  ? "text-indigo-600 dark:text-indigo-400"
+                  : step < currentStep
+                  ? "text-slate-600 dark:text-slate-400"
+                  : "text-slate-400 dark:text-slate-500"
+              }`}
+            >
+              {stepTitles[step - 1]}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
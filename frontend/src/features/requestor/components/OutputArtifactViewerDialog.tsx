@@ -0,0 +1,388 @@
+import { useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  FileDown,
+  Loader2,
+  ScanEye,
+} from "lucide-react";
+import { DialogShell } from "../../../shared/components/DialogShell";
+import { FileDropzone } from "../../../shared/components/FileDropzone";
+import { SelectDropdown } from "../../../shared/components/SelectDropdown";
+import type { NpyArray } from "../../../shared/utils/npy";
+import { useOutputArtifactQuery } from "../queries/useOutputArtifactQuery";
+import type { OutputArtifactDto } from "../types";
+import {
+  decodeTokenIds,
+  formatTensorIndex,
+  formatTensorNumber,
+  formatTensorValue,
+  isTokenIdTensor,
+  parseVocabulary,
+  resolveTensorImageView,
+  summarizeTensor,
+  tensorToImageData,
+  tensorValueAt,
+  tokenIdRows,
+  type TensorImageView,
+} from "../utils/outputArtifacts";
+
+interface OutputArtifactViewerDialogProps {
+  open: boolean;
+  onDismiss: () => void;
+  artifact: OutputArtifactDto | null;
+}
+
+const PAGE_SIZE = 100;
+const MAX_VISIBLE_TOKEN_ROWS = 16;
+
+const sectionLabelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400";
+
+const TensorImage = ({
+  array,
+  view,
+  imageIndex,
+}: {
+  array: NpyArray;
+  view: TensorImageView;
+  imageIndex: number;
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    context?.putImageData(tensorToImageData(array, view, imageIndex), 0, 0);
+  }, [array, view, imageIndex]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={view.width}
+      height={view.height}
+      className="max-h-80 max-w-full rounded-lg border border-slate-200 bg-slate-50 object-contain [image-rendering:pixelated] dark:border-slate-700 dark:bg-slate-800"
+    />
+  );
+};
+
+const TensorValueTable = ({ array }: { array: NpyArray }) => {
+  const [page, setPage] = useState(0);
+  const pageCount = Math.max(1, Math.ceil(array.data.length / PAGE_SIZE));
+  const start = page * PAGE_SIZE;
+  const end = Math.min(start + PAGE_SIZE, array.data.length);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className={sectionLabelClassName}>Values</span>
+        <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+          <span className="tabular-nums">
+            {array.data.length === 0
+              ? "Empty tensor"
+              : `${(start + 1).toLocaleString()}–${end.toLocaleString()} of ${array.data.length.toLocaleString()}`}
+          </span>
+          <button
+            type="button"
+            onClick={() => setPage((current) => Math.max(0, current - 1))}
+            disabled={page === 0}
+            aria-label="Previous page"
+            className="rounded-md border border-slate-200 p-1 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:hover:bg-slate-800"
+          >
+            <ChevronLeft className="h-3.5 w-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              setPage((current) => Math.min(pageCount - 1, current + 1))
+            }
+            disabled={page >= pageCount - 1}
+            aria-label="Next page"
+            className="rounded-md border border-slate-200 p-1 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:hover:bg-slate-800"
+          >
+            <ChevronRight className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+      <div className="max-h-72 overflow-y-auto rounded-lg border border-slate-200 dark:border-slate-700">
+        <table className="w-full text-left text-xs">
+          <thead className="sticky top-0 bg-slate-50 text-slate-500 dark:bg-slate-800 dark:text-slate-400">
+            <tr>
+              <th className="px-3 py-2 font-semibold">Index</th>
+              <th className="px-3 py-2 font-semibold">Value</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 font-mono text-slate-700 dark:divide-slate-800 dark:text-slate-300">
+            {Array.from({ length: end - start }, (_, offset) => {
+              const index = start + offset;
+              return (
+                <tr key={index}>
+                  <td className="px-3 py-1.5 text-slate-400 dark:text-slate-500">
+                    {formatTensorIndex(index, array.shape)}
+                  </td>
+                  <td className="px-3 py-1.5">
+                    {formatTensorValue(array, tensorValueAt(array, index))}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+const TokenDecoder = ({
+  array,
+  vocabulary,
+  vocabularyName,
+  vocabularyError,
+  onVocabularySelect,
+}: {
+  array: NpyArray;
+  vocabulary: Map<number, string> | null;
+  vocabularyName: string | null;
+  vocabularyError: string | null;
+  onVocabularySelect: (file: File | null) => void;
+}) => {
+  const rows = useMemo(() => tokenIdRows(array), [array]);
+
+  return (
+    <div className="space-y-2">
+      <span className={sectionLabelClassName}>Decoded tokens</span>
+      <FileDropzone
+        inputId="output-artifact-vocabulary"
+        name="vocabulary"
+        accept=".json,.txt"
+        emptyState="Attach tokenizer.json, vocab.json or vocab.txt to decode token ids"
+        helperText="The vocabulary stays in your browser."
+        className="py-4"
+        selectedFileName={vocabularyName}
+        onFileSelect={onVocabularySelect}
+      />
+      {vocabularyError ? (
+        <p className="text-xs text-rose-600 dark:text-rose-400">
+          {vocabularyError}
+        </p>
+      ) : null}
+      {vocabulary ? (
+        <ol className="space-y-1 rounded-lg border border-slate-200 bg-slate-50 p-3 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200">
+          {rows.slice(0, MAX_VISIBLE_TOKEN_ROWS).map((ids, index) => (
+            <li key={index} className="whitespace-pre-wrap break-words">
+              {decodeTokenIds(ids, vocabulary)}
+            </li>
+          ))}
+          {rows.length > MAX_VISIBLE_TOKEN_ROWS ? (
+            <li className="text-xs text-slate-400">
+              …and {rows.length - MAX_VISIBLE_TOKEN_ROWS} more sequence(s)
+            </li>
+          ) : null}
+        </ol>
+      ) : null}
+    </div>
+  );
+};
+
+const TensorDetails = ({
+  name,
+  array,
+  tokenDecoder,
+}: {
+  name: string;
+  array: NpyArray;
+  tokenDecoder: (array: NpyArray) => ReactNode;
+}) => {
+  const summary = useMemo(() => summarizeTensor(array), [array]);
+  const imageView = useMemo(() => resolveTensorImageView(array), [array]);
+  const [imageIndex, setImageIndex] = useState(0);
+
+  const stats: Array<[string, string]> = [
+    ["Shape", `[${array.shape.join(", ")}]`],
+    ["Data type", array.dataType],
+    ["Elements", array.data.length.toLocaleString()],
+    ["Min", summary.min === null ? "—" : formatTensorValue(array, summary.min)],
+    ["Max", summary.max === null ? "—" : formatTensorValue(array, summary.max)],
+    ["Mean", summary.mean === null ? "—" : formatTensorNumber(summary.mean)],
+    ["Std", summary.std === null ? "—" : formatTensorNumber(summary.std)],
+    ["NaN / Inf", summary.nonFinite.toLocaleString()],
+  ];
+
+  return (
+    <section className="space-y-6" aria-label={`Tensor ${name}`}>
+      <dl className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        {stats.map(([label, value]) => (
+          <div
+            key={label}
+            className="rounded-lg border border-slate-200 px-3 py-2 dark:border-slate-700"
+          >
+            <dt className="text-[11px] font-semibold uppercase tracking-wide text-slate-400 dark:text-slate-500">
+              {label}
+            </dt>
+            <dd className="mt-0.5 truncate font-mono text-sm text-slate-700 dark:text-slate-200">
+              {value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {imageView ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className={sectionLabelClassName}>Image preview</span>
+            {imageView.count > 1 ? (
+              <SelectDropdown
+                ariaLabel="Image in batch"
+                value={String(imageIndex)}
+                onValueChange={(value) =>
+                  setImageIndex(Number.parseInt(value, 10))
+                }
+                options={Array.from({ length: imageView.count }, (_, index) => ({
+                  value: String(index),
+                  label: `Image ${index + 1} of ${imageView.count}`,
+                }))}
+                triggerClassName="w-40"
+              />
+            ) : null}
+          </div>
+          <TensorImage
+            array={array}
+            view={imageView}
+            imageIndex={Math.min(imageIndex, imageView.count - 1)}
+          />
+        </div>
+      ) : null}
+
+      {isTokenIdTensor(array) ? tokenDecoder(array) : null}
+
+      <TensorValueTable key={name} array={array} />
+    </section>
+  );
+};
+
+export const OutputArtifactViewerDialog = ({
+  open,
+  onDismiss,
+  artifact,
+}: OutputArtifactViewerDialogProps) => {
+  const { data, isLoading, error } = useOutputArtifactQuery(artifact, open);
+  const [selectedTensor, setSelectedTensor] = useState<string | null>(null);
+  // The vocabulary is kept for the whole session so several outputs of the
+  // same model can be decoded without attaching it again.
+  const [vocabulary, setVocabulary] = useState<{
+    name: string;
+    tokens: Map<number, string>;
+  } | null>(null);
+  const [vocabularyError, setVocabularyError] = useState<string | null>(null);
+
+  const handleVocabularySelect = async (file: File | null) => {
+    setVocabularyError(null);
+    if (!file) {
+      setVocabulary(null);
+      return;
+    }
+
+    try {
+      setVocabulary({
+        name: file.name,
+        tokens: parseVocabulary(await file.text()),
+      });
+    } catch (vocabularyParseError) {
+      setVocabulary(null);
+      setVocabularyError(
+        vocabularyParseError instanceof Error
+          ? vocabularyParseError.message
+          : "Unable to read the vocabulary file."
+      );
+    }
+  };
+
+  const tensors = data?.kind === "tensors" ? data.tensors : [];
+  const activeTensor =
+    tensors.find((tensor) => tensor.name === selectedTensor) ?? tensors[0];
+
+  return (
+    <DialogShell
+      open={open}
+      onDismiss={() => {
+        setSelectedTensor(null);
+        onDismiss();
+      }}
+      closeLabel="Close output viewer"
+      badgeIcon={<ScanEye className="h-3.5 w-3.5" />}
+      badgeLabel="Output"
+      title={artifact?.tensorName ?? "Output artifact"}
+      helperText={
+        artifact?.fileUrl ? (
+          <a
+            href={artifact.fileUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
+          >
+            <FileDown className="h-3.5 w-3.5" />
+            Download original file
+          </a>
+        ) : (
+          "Inline output returned by the provider"
+        )
+      }
+      containerClassName="max-w-4xl"
+      contentWrapperClassName="max-h-[85vh] overflow-y-auto"
+    >
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-12 text-sm text-slate-500 dark:text-slate-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading output…
+        </div>
+      ) : error ? (
+        <p className="rounded-lg border border-rose-200 bg-rose-50/70 px-4 py-3 text-sm text-rose-700 dark:border-rose-900/50 dark:bg-rose-950/50 dark:text-rose-400">
+          {error instanceof Error
+            ? error.message
+            : "Unable to load the output artifact."}
+        </p>
+      ) : data?.kind === "tensors" && activeTensor ? (
+        <div className="space-y-6">
+          {tensors.length > 1 ? (
+            <div className="flex flex-col gap-1 sm:w-64">
+              <span className={sectionLabelClassName}>Array</span>
+              <SelectDropdown
+                ariaLabel="Array in bundle"
+                value={activeTensor.name}
+                onValueChange={setSelectedTensor}
+                options={tensors.map((tensor) => ({
+                  value: tensor.name,
+                  label: tensor.name,
+                }))}
+                triggerClassName="w-full"
+              />
+            </div>
+          ) : null}
+          <TensorDetails
+            key={activeTensor.name}
+            name={activeTensor.name}
+            array={activeTensor.array}
+            tokenDecoder={(array) => (
+              <TokenDecoder
+                array={array}
+                vocabulary={vocabulary?.tokens ?? null}
+                vocabularyName={vocabulary?.name ?? null}
+                vocabularyError={vocabularyError}
+                onVocabularySelect={(file) =>
+                  void handleVocabularySelect(file)
+                }
+              />
+            )}
+          />
+        </div>
+      ) : data ? (
+        <pre className="max-h-[60vh] overflow-auto whitespace-pre-wrap break-words rounded-lg bg-slate-50 p-4 text-xs text-slate-700 dark:bg-slate-800 dark:text-slate-300">
+          {data.kind === "json"
+            ? JSON.stringify(data.value, null, 2)
+            : data.kind === "text"
+            ? data.text
+            : ""}
+        </pre>
+      ) : null}
+    </DialogShell>
+  );
+};
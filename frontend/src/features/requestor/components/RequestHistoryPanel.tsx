@@ -1,23 +1,41 @@
 import { type JSX, useMemo, useState } from "react";
 import {
   ArrowUpRight,
+  Ban,
   CheckCircle2,
   Clock,
   FileDown,
+  FolderArchive,
   FolderTree,
   Loader2,
+  Pause,
+  PauseCircle,
+  Play,
   Plus,
   Receipt,
+  RefreshCcw,
+  RotateCcw,
   UserCheck,
   XCircle,
 } from "lucide-react";
 import { NewTaskRequestDialog } from "./NewTaskRequestDialog";
 import { SubtasksDialog } from "./SubtasksDialog";
+import { ResultExportDialog } from "./ResultExportDialog";
+import {
+  TaskControlDialog,
+  type TaskControlRequest,
+} from "./TaskControlDialog";
 import { DataTable } from "../../../shared/components/DataTable";
 import { useMyTasksQuery } from "../queries/useMyTasksQuery";
 import type { RequestorTaskDto } from "../types";
 import { RequestorTaskStatus, RequestorTaskType } from "../types";
 import { getRelativeTime } from "../../../shared/utils/dateTime";
+import { taskDraftFromTask, type TaskDraft } from "../utils/taskDraft";
+import {
+  resolveTaskControls,
+  type TaskControlAction,
+} from "../utils/taskControls";
+import type { ResultExportTask } from "../utils/resultExport";
 
 const ACTIVE_REQUEST_STATUSES: RequestorTaskStatus[] = [
   RequestorTaskStatus.Pending,
@@ -64,6 +82,50 @@ const STATUS_BADGE_BY_STATUS: Record<
     icon: <XCircle className="h-3.5 w-3.5" />,
     label: "Failed",
   },
+  [RequestorTaskStatus.Paused]: {
+    bg: "bg-violet-50 dark:bg-violet-950/50",
+    text: "text-violet-600 dark:text-violet-400",
+    ring: "ring-violet-100 dark:ring-violet-900",
+    icon: <PauseCircle className="h-3.5 w-3.5" />,
+    label: "Paused",
+  },
+  [RequestorTaskStatus.Cancelled]: {
+    bg: "bg-slate-100 dark:bg-slate-800",
+    text: "text-slate-600 dark:text-slate-400",
+    ring: "ring-slate-200 dark:ring-slate-700",
+    icon: <Ban className="h-3.5 w-3.5" />,
+    label: "Cancelled",
+  },
+};
+
+const TASK_CONTROL_BUTTONS: Record<
+  TaskControlAction,
+  { label: string; icon: JSX.Element; className: string }
+> = {
+  pause: {
+    label: "Pause",
+    icon: <Pause className="h-3.5 w-3.5" />,
+    className:
+      "text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300",
+  },
+  resume: {
+    label: "Resume",
+    icon: <Play className="h-3.5 w-3.5" />,
+    className:
+      "text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300",
+  },
+  retry: {
+    label: "Retry failed",
+    icon: <RefreshCcw className="h-3.5 w-3.5" />,
+    className:
+      "text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300",
+  },
+  cancel: {
+    label: "Cancel",
+    icon: <Ban className="h-3.5 w-3.5" />,
+    className:
+      "text-rose-600 hover:text-rose-500 dark:text-rose-400 dark:hover:text-rose-300",
+  },
 };
 
 const resolveBadgeForStatus = (status: RequestorTaskStatus) =>
@@ -83,6 +145,7 @@ interface RequestRecap {
   subtaskCount: number;
   cost: number;
   logsUrl: string | null;
+  task: RequestorTaskDto;
 }
 
 const TASK_TYPE_LABEL: Record<RequestorTaskType, string> = {
@@ -159,11 +222,20 @@ const formatTaskLabel = (task: RequestorTaskDto) => {
 
 export const RequestHistoryPanel = () => {
   const [newTaskDialogOpen, setNewTaskDialogOpen] = useState(false);
+  const [newTaskDraft, setNewTaskDraft] = useState<TaskDraft | null>(null);
   const [subtasksDialogState, setSubtasksDialogState] = useState<{
     open: boolean;
     taskId: string;
     taskLabel: string;
   }>({ open: false, taskId: "", taskLabel: "" });
+  const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(
+    () => new Set()
+  );
+  const [exportTasks, setExportTasks] = useState<ResultExportTask[] | null>(
+    null
+  );
+  const [controlRequest, setControlRequest] =
+    useState<TaskControlRequest | null>(null);
   const { data, isLoading, isError } = useMyTasksQuery();
 
   const requestRecaps = useMemo<RequestRecap[]>(() => {
@@ -191,10 +263,30 @@ export const RequestHistoryPanel = () => {
           subtaskCount: task.subtasksCount,
           cost: Number(task.estimatedCost ?? 0),
           logsUrl: null,
+          task,
         };
       });
   }, [data]);
 
+  const selectedRecaps = useMemo(
+    () => requestRecaps.filter((recap) => selectedTaskIds.has(recap.id)),
+    [requestRecaps, selectedTaskIds]
+  );
+  const allSelected =
+    requestRecaps.length > 0 &&
+    selectedRecaps.length === requestRecaps.length;
+
+  const toggleTaskSelection = (taskId: string) =>
+    setSelectedTaskIds((current) => {
+      const next = new Set(current);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+
   const metrics = useMemo(() => {
     const activeStatuses = new Set<RequestorTaskStatus>(
       ACTIVE_REQUEST_STATUSES
@@ -241,6 +333,35 @@ export const RequestHistoryPanel = () => {
 
   const tableColumns = useMemo(
     () => [
+      {
+        key: "select",
+        header: (
+          <input
+            type="checkbox"
+            aria-label="Select all requests"
+            checked={allSelected}
+            onChange={() =>
+              setSelectedTaskIds(
+                allSelected
+                  ? new Set()
+                  : new Set(requestRecaps.map((recap) => recap.id))
+              )
+            }
+            className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500 dark:border-slate-600 dark:bg-slate-800"
+          />
+        ),
+        headerClassName: "w-10 px-6 py-3",
+        cellClassName: "w-10 px-6 py-4 align-top",
+        render: (request: RequestRecap) => (
+          <input
+            type="checkbox"
+            aria-label={`Select request ${request.id}`}
+            checked={selectedTaskIds.has(request.id)}
+            onChange={() => toggleTaskSelection(request.id)}
+            className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500 dark:border-slate-600 dark:bg-slate-800"
+          />
+        ),
+      },
       {
         key: "request",
         header: "Request",
@@ -254,6 +375,24 @@ export const RequestHistoryPanel = () => {
             <span className="text-xs text-slate-400 dark:text-slate-500">
               Request ID: {request.id}
             </span>
+            {request.onnxDownloadUrl ? (
+              <button
+                type="button"
+                onClick={() => {
+                  setNewTaskDraft(
+                    taskDraftFromTask(
+                      request.task,
+                      `${request.onnxFileName} re-run`
+                    )
+                  );
+                  setNewTaskDialogOpen(true);
+                }}
+                className="mt-1 inline-flex w-fit items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+                Re-run
+              </button>
+            ) : null}
           </div>
         ),
       },
@@ -300,13 +439,37 @@ export const RequestHistoryPanel = () => {
           const { bg, text, ring, icon, label } = resolveBadgeForStatus(
             request.status
           );
+          const controls = resolveTaskControls(request.task);
           return (
-            <span
-              className={`text-nowrap inline-flex items-center gap-2 rounded-full px-3 py-1 text-xs font-medium ${bg} ${text} ring-1 ${ring}`}
-            >
-              {icon}
-              {label}
-            </span>
+            <div className="flex flex-col gap-2">
+              <span
+                className={`text-nowrap inline-flex w-fit items-center gap-2 rounded-full px-3 py-1 text-xs font-medium ${bg} ${text} ring-1 ${ring}`}
+              >
+                {icon}
+                {label}
+              </span>
+              {controls.length > 0 ? (
+                <div className="flex flex-wrap gap-x-3 gap-y-1">
+                  {controls.map((action) => (
+                    <button
+                      key={action}
+                      type="button"
+                      onClick={() =>
+                        setControlRequest({
+                          action,
+                          taskId: request.id,
+                          taskLabel: request.label,
+                        })
+                      }
+                      className={`text-nowrap inline-flex items-center gap-1 text-xs font-medium ${TASK_CONTROL_BUTTONS[action].className}`}
+                    >
+                      {TASK_CONTROL_BUTTONS[action].icon}
+                      {TASK_CONTROL_BUTTONS[action].label}
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+            </div>
           );
         },
       },
@@ -332,20 +495,33 @@ export const RequestHistoryPanel = () => {
         headerClassName: "whitespace-nowrap px-6 py-3",
         cellClassName: "px-6 py-4 align-top",
         render: (request: RequestRecap) => (
-          <button
-            type="button"
-            onClick={() =>
-              setSubtasksDialogState({
-                open: true,
-                taskId: request.id,
-                taskLabel: request.label,
-              })
-            }
-            className="text-nowrap inline-flex items-center gap-2 rounded-md border border-slate-200 bg-slate-50 px-2.5 py-1 text-xs font-medium text-slate-600 transition hover:border-indigo-200 hover:bg-indigo-50 hover:text-indigo-600 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-indigo-700 dark:hover:bg-indigo-950/30 dark:hover:text-indigo-400"
-          >
-            <FolderTree className="h-3.5 w-3.5 text-indigo-500 dark:text-indigo-400" />
-            {request.subtaskCount} subtasks
-          </button>
+          <div className="flex flex-col gap-2">
+            <button
+              type="button"
+              onClick={() =>
+                setSubtasksDialogState({
+                  open: true,
+                  taskId: request.id,
+                  taskLabel: request.label,
+                })
+              }
+              className="text-nowrap inline-flex items-center gap-2 rounded-md border border-slate-200 bg-slate-50 px-2.5 py-1 text-xs font-medium text-slate-600 transition hover:border-indigo-200 hover:bg-indigo-50 hover:text-indigo-600 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-indigo-700 dark:hover:bg-indigo-950/30 dark:hover:text-indigo-400"
+            >
+              <FolderTree className="h-3.5 w-3.5 text-indigo-500 dark:text-indigo-400" />
+              {request.subtaskCount} subtasks
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                setExportTasks([{ task: request.task, label: request.label }])
+              }
+              disabled={request.subtaskCount === 0}
+              className="text-nowrap inline-flex w-fit items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-500 disabled:cursor-not-allowed disabled:text-slate-400 dark:text-indigo-400 dark:hover:text-indigo-300 dark:disabled:text-slate-500"
+            >
+              <FolderArchive className="h-3.5 w-3.5" />
+              Export results
+            </button>
+          </div>
         ),
       },
       {
@@ -374,7 +550,7 @@ export const RequestHistoryPanel = () => {
           ),
       },
     ],
-    [setSubtasksDialogState]
+    [allSelected, requestRecaps, selectedTaskIds]
   );
 
   return (
@@ -411,10 +587,30 @@ export const RequestHistoryPanel = () => {
             </span>
           </div>
           <div className="flex flex-wrap items-center gap-3">
+            {selectedRecaps.length > 0 ? (
+              <button
+                type="button"
+                onClick={() =>
+                  setExportTasks(
+                    selectedRecaps.map((recap) => ({
+                      task: recap.task,
+                      label: recap.label,
+                    }))
+                  )
+                }
+                className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-indigo-200 hover:text-indigo-600 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-indigo-700 dark:hover:text-indigo-400"
+              >
+                <FolderArchive className="h-4 w-4" />
+                Export results ({selectedRecaps.length})
+              </button>
+            ) : null}
             <button
               type="button"
               className="inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-300 focus:ring-offset-2 dark:bg-indigo-700 dark:hover:bg-indigo-600 dark:focus:ring-indigo-900 dark:focus:ring-offset-slate-900"
-              onClick={() => setNewTaskDialogOpen(true)}
+              onClick={() => {
+                setNewTaskDraft(null);
+                setNewTaskDialogOpen(true);
+              }}
             >
               <Plus className="h-4 w-4" />
               New request
@@ -435,7 +631,11 @@ export const RequestHistoryPanel = () => {
 
       <NewTaskRequestDialog
         open={newTaskDialogOpen}
-        onDismiss={() => setNewTaskDialogOpen(false)}
+        draft={newTaskDraft}
+        onDismiss={() => {
+          setNewTaskDialogOpen(false);
+          setNewTaskDraft(null);
+        }}
       />
 
       <SubtasksDialog
@@ -446,6 +646,17 @@ export const RequestHistoryPanel = () => {
         taskId={subtasksDialogState.taskId}
         taskLabel={subtasksDialogState.taskLabel}
       />
+
+      <ResultExportDialog
+        open={exportTasks !== null}
+        onDismiss={() => setExportTasks(null)}
+        tasks={exportTasks ?? []}
+      />
+
+      <TaskControlDialog
+        request={controlRequest}
+        onDismiss={() => setControlRequest(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,127 @@
+import { useMemo } from "react";
+import { BarChart } from "../../../shared/components/BarChart";
+import { BreakdownBars } from "../../../shared/components/BreakdownBars";
+import {
+  buildTimeBuckets,
+  ratioByBucket,
+  sumByBucket,
+  type BucketGranularity,
+} from "../../../shared/utils/timeBuckets";
+import { useLedgerRangeQuery } from "../../provider/queries/useLedgerRangeQuery";
+import { useMyTasksQuery } from "../queries/useMyTasksQuery";
+import {
+  TASK_TYPE_LABELS,
+  isSpendEntry,
+  resolveTaskSpendDate,
+  summarizeSpendByTaskType,
+} from "../utils/spendAnalytics";
+
+interface RequestorSpendAnalyticsProps {
+  granularity: BucketGranularity;
+  now: Date;
+  /** ISO date from which ledger entries are loaded. */
+  rangeStart: string;
+}
+
+const EURO_FORMATTER = new Intl.NumberFormat(undefined, {
+  style: "currency",
+  currency: "EUR",
+});
+
+const formatEuro = (value: number) => EURO_FORMATTER.format(value);
+
+export const RequestorSpendAnalytics = ({
+  granularity,
+  now,
+  rangeStart,
+}: RequestorSpendAnalyticsProps) => {
+  const ledgerQuery = useLedgerRangeQuery(rangeStart);
+  const tasksQuery = useMyTasksQuery();
+
+  const buckets = useMemo(
+    () => buildTimeBuckets(granularity, now),
+    [granularity, now]
+  );
+  const spendEntries = useMemo(
+    () => (ledgerQuery.data ?? []).filter(isSpendEntry),
+    [ledgerQuery.data]
+  );
+  const billedTasks = useMemo(
+    () =>
+      (tasksQuery.data ?? []).filter(
+        (task) => typeof task.costUsd === "number"
+      ),
+    [tasksQuery.data]
+  );
+
+  const spend = sumByBucket(
+    buckets,
+    spendEntries,
+    (entry) => entry.occurredAtUtc,
+    (entry) => entry.amount
+  );
+  const averagePerSubtask = ratioByBucket(
+    buckets,
+    billedTasks,
+    resolveTaskSpendDate,
+    (task) => task.costUsd ?? 0,
+    (task) => task.completedSubtasksCount
+  );
+  const spendByType = summarizeSpendByTaskType(
+    billedTasks,
+    buckets[0].startMs
+  );
+  const periodLabel = granularity === "day" ? "per day" : "per week";
+
+  return (
+    <div className="grid gap-6 xl:grid-cols-2">
+      <BarChart
+        title={`Spend ${periodLabel}`}
+        description="Debits charged for your tasks"
+        summary={formatEuro(spend.reduce((sum, value) => sum + value, 0))}
+        data={buckets.map((bucket, index) => ({
+          key: bucket.key,
+          label: bucket.label,
+          value: spend[index],
+        }))}
+        formatValue={formatEuro}
+        tone="rose"
+        isLoading={ledgerQuery.isLoading}
+        isError={ledgerQuery.isError}
+        emptyMessage="Nothing was charged in this period."
+      />
+
+      <BarChart
+        title="Average cost per subtask"
+        description={`Task cost divided by completed subtasks, ${periodLabel}`}
+        data={buckets.map((bucket, index) => ({
+          key: bucket.key,
+          label: bucket.label,
+          value: averagePerSubtask[index],
+        }))}
+        formatValue={formatEuro}
+        tone="amber"
+        isLoading={tasksQuery.isLoading}
+        isError={tasksQuery.isError}
+        emptyMessage="No billed subtask in this period."
+      />
+
+      <BreakdownBars
+        title="Spend per task type"
+        description="Billed tasks finished or still running in this period"
+        items={spendByType.map((entry) => ({
+          key: String(entry.type),
+          label: TASK_TYPE_LABELS[entry.type],
+          value: entry.spend,
+          detail: `${entry.taskCount} ${
+            entry.taskCount === 1 ? "task" : "tasks"
+          } · ${entry.completedSubtasks} completed subtasks`,
+        }))}
+        formatValue={formatEuro}
+        isLoading={tasksQuery.isLoading}
+        isError={tasksQuery.isError}
+        emptyMessage="No billed task in this period."
+      />
+    </div>
+  );
+};
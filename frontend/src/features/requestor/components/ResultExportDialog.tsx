@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  CheckCircle2,
+  Clock,
+  Download,
+  FolderArchive,
+  Loader2,
+  XCircle,
+} from "lucide-react";
+import { DialogShell } from "../../../shared/components/DialogShell";
+import { saveBlob } from "../../../shared/utils/download";
+import {
+  exportTaskResults,
+  type ResultDownloadItem,
+  type ResultDownloadStatus,
+  type ResultExportResult,
+  type ResultExportTask,
+} from "../utils/resultExport";
+
+interface ResultExportDialogProps {
+  open: boolean;
+  onDismiss: () => void;
+  tasks: ResultExportTask[];
+}
+
+type ExportPhase = "idle" | "running" | "finished" | "error";
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const StatusIcon = ({ status }: { status: ResultDownloadStatus }) => {
+  switch (status) {
+    case "done":
+      return <CheckCircle2 className="h-3.5 w-3.5 text-emerald-500" />;
+    case "failed":
+      return <XCircle className="h-3.5 w-3.5 text-rose-500" />;
+    case "pending":
+      return <Clock className="h-3.5 w-3.5 text-slate-400" />;
+    default:
+      return <Loader2 className="h-3.5 w-3.5 animate-spin text-indigo-500" />;
+  }
+};
+
+export const ResultExportDialog = ({
+  open,
+  onDismiss,
+  tasks,
+}: ResultExportDialogProps) => {
+  const [phase, setPhase] = useState<ExportPhase>("idle");
+  const [items, setItems] = useState<ResultDownloadItem[]>([]);
+  const [result, setResult] = useState<ResultExportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+      setPhase("idle");
+      setItems([]);
+      setResult(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const counts = useMemo(
+    () => ({
+      done: items.filter((item) => item.status === "done").length,
+      failed: items.filter((item) => item.status === "failed").length,
+      bytes: items.reduce((sum, item) => sum + (item.bytes ?? 0), 0),
+    }),
+    [items]
+  );
+
+  const startExport = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setPhase("running");
+    setError(null);
+    setResult(null);
+
+    try {
+      const exported = await exportTaskResults({
+        tasks,
+        signal: controller.signal,
+        onItemsChange: setItems,
+      });
+      setResult(exported);
+      setPhase("finished");
+      saveBlob(exported.archive, exported.fileName);
+    } catch (exportError) {
+      if (controller.signal.aborted) {
+        setPhase("idle");
+        return;
+      }
+      setError(
+        exportError instanceof Error
+          ? exportError.message
+          : "Unable to export the results."
+      );
+      setPhase("error");
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+    }
+  };
+
+  const finishedCount = counts.done + counts.failed;
+  const percentage =
+    items.length > 0 ? Math.round((finishedCount / items.length) * 100) : 0;
+
+  return (
+    <DialogShell
+      open={open}
+      onDismiss={onDismiss}
+      closeLabel="Close result export"
+      badgeIcon={<FolderArchive className="h-3.5 w-3.5" />}
+      badgeLabel="Export"
+      title={
+        tasks.length === 1
+          ? `Export results of ${tasks[0].label}`
+          : `Export results of ${tasks.length} tasks`
+      }
+      helperText="Downloads every output file and bundle into one ZIP with a manifest.json that maps each subtask to its input bindings and outputs."
+    >
+      <section className="space-y-4">
+        {phase !== "idle" ? (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-semibold text-slate-700 dark:text-slate-200">
+                {phase === "running"
+                  ? items.length === 0
+                    ? "Collecting subtask outputs…"
+                    : "Downloading results…"
+                  : phase === "finished"
+                  ? "Export ready"
+                  : "Export failed"}
+              </span>
+              <span className="tabular-nums text-slate-500 dark:text-slate-400">
+                {counts.done}/{items.length} files
+                {counts.bytes > 0 ? ` · ${formatBytes(counts.bytes)}` : ""}
+                {counts.failed > 0 ? ` · ${counts.failed} failed` : ""}
+              </span>
+            </div>
+            <div className="h-1.5 overflow-hidden rounded-full bg-indigo-100 dark:bg-indigo-950">
+              <div
+                className="h-full rounded-full bg-indigo-600 transition-all dark:bg-indigo-400"
+                style={{ width: `${percentage}%` }}
+              />
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-600 dark:text-slate-300">
+            Files are downloaded straight from storage, a few at a time.
+            Expired links are renewed automatically.
+          </p>
+        )}
+
+        {items.length > 0 ? (
+          <ul className="max-h-72 divide-y divide-slate-100 overflow-y-auto rounded-lg border border-slate-200 dark:divide-slate-800 dark:border-slate-700">
+            {items.map((item) => (
+              <li
+                key={item.key}
+                className="flex items-start justify-between gap-3 px-4 py-2 text-xs"
+              >
+                <div className="flex min-w-0 flex-col gap-0.5">
+                  <span className="truncate font-mono text-slate-700 dark:text-slate-200">
+                    {item.path}
+                  </span>
+                  {item.error ? (
+                    <span className="break-words text-rose-600 dark:text-rose-400">
+                      {item.error}
+                    </span>
+                  ) : item.attempts > 1 && item.status !== "done" ? (
+                    <span className="text-slate-400 dark:text-slate-500">
+                      Attempt {item.attempts}
+                    </span>
+                  ) : null}
+                </div>
+                <StatusIcon status={item.status} />
+              </li>
+            ))}
+          </ul>
+        ) : phase === "finished" ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            These tasks have no output files yet; the archive only contains
+            the manifest.
+          </p>
+        ) : null}
+
+        {error ? (
+          <p className="rounded-lg border border-rose-200 bg-rose-50/70 px-4 py-3 text-sm text-rose-700 dark:border-rose-900/50 dark:bg-rose-950/50 dark:text-rose-400">
+            {error}
+          </p>
+        ) : null}
+      </section>
+
+      <footer className="flex flex-col gap-3 border-t border-slate-100 pt-6 sm:flex-row sm:justify-end dark:border-slate-700">
+        {phase === "running" ? (
+          <button
+            type="button"
+            onClick={() => controllerRef.current?.abort()}
+            className="w-full rounded-lg border border-slate-200 px-4 py-2 text-sm font-medium text-slate-600 transition hover:bg-slate-50 sm:w-auto dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800"
+          >
+            Cancel
+          </button>
+        ) : null}
+        {phase === "finished" && result ? (
+          <button
+            type="button"
+            onClick={() => saveBlob(result.archive, result.fileName)}
+            className="inline-flex w-full items-center justify-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-500 sm:w-auto dark:bg-indigo-700 dark:hover:bg-indigo-600"
+          >
+            <Download className="h-4 w-4" />
+            Save ZIP again
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => void startExport()}
+            disabled={phase === "running" || tasks.length === 0}
+            className="inline-flex w-full items-center justify-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-indigo-400 sm:w-auto dark:bg-indigo-700 dark:hover:bg-indigo-600 dark:disabled:bg-indigo-800"
+          >
+            {phase === "running" ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <FolderArchive className="h-4 w-4" />
+            )}
+            {phase === "error" ? "Try again" : "Start export"}
+          </button>
+        )}
+      </footer>
+    </DialogShell>
+  );
+};
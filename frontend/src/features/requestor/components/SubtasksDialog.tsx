@@ -2,14 +2,22 @@ import { useMemo, useState, type ReactNode } from "react";
 import { DialogShell } from "../../../shared/components/DialogShell";
 import { DataTable } from "../../../shared/components/DataTable";
 import { TimelineEventsDialog } from "./TimelineEventsDialog";
+import { OutputArtifactViewerDialog } from "./OutputArtifactViewerDialog";
+import {
+  TaskControlDialog,
+  type TaskControlRequest,
+} from "./TaskControlDialog";
 import { useTaskSubtasksQuery } from "../queries/useTaskSubtasksQuery";
 import type {
+  OutputArtifactDto,
   SubtaskDto,
   SubtaskStatus,
   SubtaskTimelineEventDto,
 } from "../types";
 import { getRelativeTime } from "../../../shared/utils/dateTime";
+import { canCancelSubtask, isRetryableSubtask } from "../utils/taskControls";
 import {
+  Ban,
   CheckCircle2,
   Clock,
   Loader2,
@@ -18,6 +26,8 @@ import {
   FileUp,
   Receipt,
   ListTree,
+  RefreshCcw,
+  ScanEye,
 } from "lucide-react";
 
 interface SubtasksDialogProps {
@@ -66,6 +76,13 @@ const STATUS_BADGE_CONFIG: Record<
     icon: <XCircle className="h-3 w-3" />,
     label: "Failed",
   },
+  Cancelled: {
+    bg: "bg-slate-100 dark:bg-slate-800",
+    text: "text-slate-600 dark:text-slate-400",
+    ring: "ring-slate-200 dark:ring-slate-700",
+    icon: <Ban className="h-3 w-3" />,
+    label: "Cancelled",
+  },
 };
 
 const EURO_FORMATTER = new Intl.NumberFormat(undefined, {
@@ -109,6 +126,15 @@ export const SubtasksDialog = ({
     events: Array<SubtaskTimelineEventDto>;
     subtaskId: string;
   }>({ open: false, events: [], subtaskId: "" });
+  const [viewedArtifact, setViewedArtifact] =
+    useState<OutputArtifactDto | null>(null);
+  const [controlRequest, setControlRequest] =
+    useState<TaskControlRequest | null>(null);
+
+  const retryableCount = useMemo(
+    () => (data ?? []).filter(isRetryableSubtask).length,
+    [data]
+  );
 
   const columns = useMemo(
     () => [
@@ -130,12 +156,39 @@ export const SubtasksDialog = ({
         render: (subtask: SubtaskDto) => {
           const config = STATUS_BADGE_CONFIG[subtask.status];
           return (
-            <span
-              className={`inline-flex items-center gap-1.5 rounded-full px-2.5 py-1 text-xs font-medium ${config?.bg} ${config?.text} ring-1 ${config?.ring}`}
-            >
-              {config?.icon}
-              {config?.label}
-            </span>
+            <div className="flex flex-col gap-1.5">
+              <span
+                className={`inline-flex w-fit items-center gap-1.5 rounded-full px-2.5 py-1 text-xs font-medium ${config?.bg} ${config?.text} ring-1 ${config?.ring}`}
+              >
+                {config?.icon}
+                {config?.label}
+              </span>
+              {subtask.status === "Failed" && subtask.failureReason ? (
+                <span
+                  className="max-w-[12rem] truncate text-xs text-rose-600 dark:text-rose-400"
+                  title={subtask.failureReason}
+                >
+                  {subtask.failureReason}
+                </span>
+              ) : null}
+              {canCancelSubtask(subtask) ? (
+                <button
+                  type="button"
+                  onClick={() =>
+                    setControlRequest({
+                      action: "cancelSubtask",
+                      taskId,
+                      subtaskId: subtask.id,
+                      taskLabel,
+                    })
+                  }
+                  className="inline-flex w-fit items-center gap-1 text-xs font-medium text-rose-600 hover:text-rose-500 dark:text-rose-400 dark:hover:text-rose-300"
+                >
+                  <Ban className="h-3 w-3" />
+                  Cancel
+                </button>
+              ) : null}
+            </div>
           );
         },
       },
@@ -237,6 +290,16 @@ export const SubtasksDialog = ({
                         {artifactName}
                       </a>
                     )}
+                    {(hasFile || artifact.payload) && (
+                      <button
+                        type="button"
+                        onClick={() => setViewedArtifact(artifact)}
+                        className="inline-flex w-fit items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
+                      >
+                        <ScanEye className="h-3 w-3" />
+                        View result
+                      </button>
+                    )}
                     {hasText && (
                       <details className="group">
                         <summary className="cursor-pointer text-xs font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300">
@@ -292,7 +355,7 @@ export const SubtasksDialog = ({
         },
       },
     ],
-    []
+    [taskId, taskLabel]
   );
 
   return (
@@ -306,6 +369,31 @@ export const SubtasksDialog = ({
       helperText="View all subtasks that were executed as part of this task request"
       containerClassName="max-w-7xl"
     >
+      {retryableCount > 0 ? (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-rose-200 bg-rose-50/70 px-4 py-3 dark:border-rose-900/50 dark:bg-rose-950/40">
+          <span className="text-sm text-rose-700 dark:text-rose-400">
+            {retryableCount === 1
+              ? "1 subtask failed with a recorded reason."
+              : `${retryableCount} subtasks failed with a recorded reason.`}
+          </span>
+          <button
+            type="button"
+            onClick={() =>
+              setControlRequest({
+                action: "retry",
+                taskId,
+                taskLabel,
+                retryableCount,
+              })
+            }
+            className="inline-flex items-center gap-1.5 rounded-lg bg-indigo-600 px-3 py-1.5 text-xs font-semibold text-white shadow-sm transition hover:bg-indigo-500 dark:bg-indigo-700 dark:hover:bg-indigo-600"
+          >
+            <RefreshCcw className="h-3.5 w-3.5" />
+            Retry failed subtasks
+          </button>
+        </div>
+      ) : null}
+
       <div className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm dark:border-slate-700 dark:bg-slate-900">
         <DataTable
           data={data ?? []}
@@ -326,6 +414,17 @@ export const SubtasksDialog = ({
         events={timelineDialogState.events}
         subtaskId={timelineDialogState.subtaskId}
       />
+
+      <OutputArtifactViewerDialog
+        open={viewedArtifact !== null}
+        onDismiss={() => setViewedArtifact(null)}
+        artifact={viewedArtifact}
+      />
+
+      <TaskControlDialog
+        request={controlRequest}
+        onDismiss={() => setControlRequest(null)}
+      />
     </DialogShell>
   );
 };
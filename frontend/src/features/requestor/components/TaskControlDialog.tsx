@@ -0,0 +1,139 @@
+import { useEffect } from "react";
+import { Loader2, OctagonAlert } from "lucide-react";
+import { DialogShell } from "../../../shared/components/DialogShell";
+import {
+  useTaskControlMutation,
+  type TaskControlTarget,
+} from "../mutations/useTaskControlMutation";
+
+export type TaskControlRequest = TaskControlTarget & {
+  taskLabel: string;
+  /** Shown for `retry`: how many failed subtasks will be re-queued. */
+  retryableCount?: number;
+};
+
+interface TaskControlDialogProps {
+  request: TaskControlRequest | null;
+  onDismiss: () => void;
+}
+
+const CONTROL_COPY: Record<
+  TaskControlTarget["action"],
+  { title: string; description: string; confirmLabel: string; danger: boolean }
+> = {
+  cancel: {
+    title: "Cancel this request?",
+    description:
+      "Pending subtasks are withdrawn and running ones are stopped on their providers. Completed results and what they cost are kept. This cannot be undone.",
+    confirmLabel: "Cancel request",
+    danger: true,
+  },
+  pause: {
+    title: "Pause this request?",
+    description:
+      "No new subtasks are handed to providers until you resume. Subtasks that are already running finish and are billed.",
+    confirmLabel: "Pause request",
+    danger: false,
+  },
+  resume: {
+    title: "Resume this request?",
+    description:
+      "Pending subtasks become available to providers again.",
+    confirmLabel: "Resume request",
+    danger: false,
+  },
+  retry: {
+    title: "Retry failed subtasks?",
+    description:
+      "Only subtasks that failed with a recorded reason are queued again. Each retry is billed like a new run.",
+    confirmLabel: "Retry failed subtasks",
+    danger: false,
+  },
+  cancelSubtask: {
+    title: "Cancel this subtask?",
+    description:
+      "The subtask is stopped on its provider and is not retried. The other subtasks of the request keep running.",
+    confirmLabel: "Cancel subtask",
+    danger: true,
+  },
+};
+
+export const TaskControlDialog = ({
+  request,
+  onDismiss,
+}: TaskControlDialogProps) => {
+  const mutation = useTaskControlMutation();
+  const { reset } = mutation;
+
+  useEffect(() => {
+    reset();
+  }, [request, reset]);
+
+  if (!request) {
+    return null;
+  }
+
+  const copy = CONTROL_COPY[request.action];
+  const handleConfirm = async () => {
+    try {
+      await mutation.mutateAsync(request);
+      onDismiss();
+    } catch {
+      // The error is rendered from the mutation state.
+    }
+  };
+
+  return (
+    <DialogShell
+      open
+      onDismiss={mutation.isPending ? () => {} : onDismiss}
+      closeLabel="Close confirmation"
+      badgeIcon={<OctagonAlert className="h-3.5 w-3.5" />}
+      badgeLabel={request.taskLabel}
+      title={copy.title}
+      helperText={copy.description}
+    >
+      {request.action === "retry" && request.retryableCount !== undefined ? (
+        <p className="text-sm text-slate-600 dark:text-slate-300">
+          {request.retryableCount === 1
+            ? "1 subtask will be queued again."
+            : `${request.retryableCount} subtasks will be queued again.`}
+        </p>
+      ) : null}
+
+      {mutation.error ? (
+        <p className="rounded-lg border border-rose-200 bg-rose-50/70 px-4 py-3 text-sm text-rose-700 dark:border-rose-900/50 dark:bg-rose-950/50 dark:text-rose-400">
+          {mutation.error instanceof Error
+            ? mutation.error.message
+            : "The request could not be updated."}
+        </p>
+      ) : null}
+
+      <footer className="flex flex-col gap-3 border-t border-slate-100 pt-6 sm:flex-row sm:justify-end dark:border-slate-700">
+        <button
+          type="button"
+          onClick={onDismiss}
+          disabled={mutation.isPending}
+          className="w-full rounded-lg border border-slate-200 px-4 py-2 text-sm font-medium text-slate-600 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60 sm:w-auto dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800"
+        >
+          Keep as is
+        </button>
+        <button
+          type="button"
+          onClick={() => void handleConfirm()}
+          disabled={mutation.isPending}
+          className={`inline-flex w-full items-center justify-center gap-2 rounded-lg px-4 py-2 text-sm font-semibold text-white shadow-sm transition disabled:cursor-not-allowed disabled:opacity-60 sm:w-auto ${
+            copy.danger
+              ? "bg-rose-600 hover:bg-rose-500 dark:bg-rose-700 dark:hover:bg-rose-600"
+              : "bg-indigo-600 hover:bg-indigo-500 dark:bg-indigo-700 dark:hover:bg-indigo-600"
+          }`}
+        >
+          {mutation.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : null}
+          {copy.confirmLabel}
+        </button>
+      </footer>
+    </DialogShell>
+  );
+};
@@ -0,0 +1,247 @@
+import { useId } from "react";
+import { Link } from "react-router-dom";
+import { AlertTriangle, Loader2, Wallet } from "lucide-react";
+import { SelectDropdown } from "../../../shared/components/SelectDropdown";
+import type { BudgetCapAction, TaskQuote } from "../api";
+import type { TaskBudgetDraft } from "../utils/taskBudget";
+
+interface TaskCostReviewProps {
+  quote: TaskQuote | undefined;
+  isQuoteLoading: boolean;
+  quoteError: unknown;
+  onRetryQuote: () => void;
+  /** `null` while the finance summary is loading or unavailable. */
+  balance: number | null;
+  requiredFunds: number | null;
+  shortfall: number;
+  /** Bindings filled via the API add subtasks after dispatch. */
+  isOpenEnded: boolean;
+  budget: TaskBudgetDraft;
+  budgetError: string | null;
+  onBudgetChange: (budget: TaskBudgetDraft) => void;
+  /** Called when the user leaves for the finance page to top up. */
+  onTopUp: () => void;
+}
+
+const EURO_FORMATTER = new Intl.NumberFormat(undefined, {
+  style: "currency",
+  currency: "EUR",
+});
+
+const BUDGET_ACTION_OPTIONS: Array<{
+  value: BudgetCapAction;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "Pause",
+    label: "Pause the task",
+    description: "Running subtasks finish, the rest wait until you resume",
+  },
+  {
+    value: "Fail",
+    label: "Fail the task",
+    description: "Pending subtasks are withdrawn, finished results are kept",
+  },
+];
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+    : bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export const TaskCostReview = ({
+  quote,
+  isQuoteLoading,
+  quoteError,
+  onRetryQuote,
+  balance,
+  requiredFunds,
+  shortfall,
+  isOpenEnded,
+  budget,
+  budgetError,
+  onBudgetChange,
+  onTopUp,
+}: TaskCostReviewProps) => {
+  const budgetAmountFieldId = useId();
+  const capAmount = Number(budget.amount);
+  const isCapBelowQuote =
+    budget.enabled &&
+    !budgetError &&
+    !!quote &&
+    capAmount < quote.estimatedCost;
+
+  return (
+    <section
+      className="space-y-4 rounded-xl border border-indigo-100 bg-indigo-50/30 p-4 dark:border-indigo-900/50 dark:bg-indigo-950/30"
+      aria-labelledby="task-cost-review-label"
+    >
+      <div className="flex flex-col gap-1">
+        <h3
+          id="task-cost-review-label"
+          className="text-sm font-semibold text-indigo-700 dark:text-indigo-400"
+        >
+          Cost estimate
+        </h3>
+        <p className="text-xs text-indigo-600/80 dark:text-indigo-400/80">
+          Priced from the model and inputs before anything is uploaded. You are
+          billed for what providers actually run.
+        </p>
+      </div>
+
+      {isQuoteLoading ? (
+        <div className="flex items-center gap-2 rounded-lg border border-indigo-100 bg-white/70 p-4 text-sm text-slate-500 dark:border-indigo-900/50 dark:bg-slate-800/70 dark:text-slate-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Calculating a quote…
+        </div>
+      ) : quoteError || !quote ? (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-amber-200 bg-amber-50/70 p-4 text-sm text-amber-700 dark:border-amber-900/50 dark:bg-amber-950/40 dark:text-amber-400">
+          <span>
+            {quoteError instanceof Error
+              ? `No quote available: ${quoteError.message}`
+              : "No quote available for this task."}
+          </span>
+          <button
+            type="button"
+            onClick={onRetryQuote}
+            className="text-xs font-semibold underline-offset-2 hover:underline"
+          >
+            Try again
+          </button>
+        </div>
+      ) : (
+        <dl className="grid gap-3 rounded-lg border border-indigo-100 bg-white/70 p-4 text-sm shadow-sm sm:grid-cols-[max-content_1fr] sm:gap-x-6 dark:border-indigo-900/50 dark:bg-slate-800/70">
+          {[
+            { term: "Model size", value: formatBytes(quote.modelSizeBytes) },
+            {
+              term: "Input volume",
+              value:
+                quote.inputBytes > 0
+                  ? formatBytes(quote.inputBytes)
+                  : "No files attached",
+            },
+            {
+              term: "Expected subtasks",
+              value: isOpenEnded
+                ? `${quote.expectedSubtaskCount} (more as the API adds them)`
+                : String(quote.expectedSubtaskCount),
+            },
+            {
+              term: "Price per subtask",
+              value: EURO_FORMATTER.format(quote.pricePerSubtask),
+            },
+          ].map(({ term, value }) => (
+            <div key={term} className="contents">
+              <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                {term}
+              </dt>
+              <dd className="text-slate-700 dark:text-slate-200">{value}</dd>
+            </div>
+          ))}
+          <div className="contents">
+            <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+              Estimated total
+            </dt>
+            <dd className="text-base font-semibold text-slate-900 dark:text-slate-100">
+              {EURO_FORMATTER.format(quote.estimatedCost)}
+            </dd>
+          </div>
+        </dl>
+      )}
+
+      <div className="space-y-3 rounded-lg border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+        <label className="inline-flex cursor-pointer items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-200">
+          <input
+            type="checkbox"
+            checked={budget.enabled}
+            onChange={(event) =>
+              onBudgetChange({ ...budget, enabled: event.target.checked })
+            }
+            className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500 dark:border-slate-600"
+          />
+          Set a hard budget cap for this task
+        </label>
+        {budget.enabled ? (
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <label
+                htmlFor={budgetAmountFieldId}
+                className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400"
+              >
+                Cap (EUR)
+              </label>
+              <input
+                id={budgetAmountFieldId}
+                type="number"
+                min={0.01}
+                step={0.01}
+                inputMode="decimal"
+                value={budget.amount}
+                onChange={(event) =>
+                  onBudgetChange({ ...budget, amount: event.target.value })
+                }
+                placeholder={
+                  quote ? quote.estimatedCost.toFixed(2) : "e.g. 25.00"
+                }
+                className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200 dark:placeholder:text-slate-500 dark:focus:border-indigo-600 dark:focus:ring-indigo-900/60"
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                When it is reached
+              </span>
+              <SelectDropdown
+                ariaLabel="Action when the budget cap is reached"
+                value={budget.onExceeded}
+                onValueChange={(onExceeded) =>
+                  onBudgetChange({ ...budget, onExceeded })
+                }
+                options={BUDGET_ACTION_OPTIONS}
+              />
+            </div>
+            {budgetError ? (
+              <p className="text-xs text-rose-600 sm:col-span-2 dark:text-rose-400">
+                {budgetError}
+              </p>
+            ) : isCapBelowQuote ? (
+              <p className="text-xs text-amber-600 sm:col-span-2 dark:text-amber-400">
+                The cap is below the estimate, so the task will probably stop
+                before every subtask has run.
+              </p>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+
+      {balance !== null && requiredFunds !== null ? (
+        shortfall > 0 ? (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-rose-200 bg-rose-50/70 p-4 text-sm text-rose-700 dark:border-rose-900/50 dark:bg-rose-950/50 dark:text-rose-400">
+            <span className="flex items-start gap-2">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              Your balance of {EURO_FORMATTER.format(balance)} does not cover
+              the {EURO_FORMATTER.format(requiredFunds)} this task can cost.
+              Add at least {EURO_FORMATTER.format(shortfall)} to request
+              execution.
+            </span>
+            <Link
+              to={`/finance?topUp=${shortfall.toFixed(2)}`}
+              onClick={onTopUp}
+              className="inline-flex items-center gap-1 rounded-lg bg-rose-600 px-3 py-1.5 text-xs font-semibold text-white shadow-sm transition hover:bg-rose-500 dark:bg-rose-700 dark:hover:bg-rose-600"
+            >
+              <Wallet className="h-3.5 w-3.5" />
+              Top up balance
+            </Link>
+          </div>
+        ) : (
+          <p className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+            <Wallet className="h-3.5 w-3.5" />
+            Available balance: {EURO_FORMATTER.format(balance)}
+          </p>
+        )
+      ) : null}
+    </section>
+  );
+};
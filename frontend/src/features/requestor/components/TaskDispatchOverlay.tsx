@@ -0,0 +1,61 @@
+import {
+  formatMegabytes,
+  type FileUploadProgress,
+} from "../utils/newTaskForm";
+
+interface TaskDispatchOverlayProps {
+  stage: string;
+  /** Keyed by upload, in the order the files started uploading. */
+  uploadProgress: Record<string, FileUploadProgress>;
+}
+
+export const TaskDispatchOverlay = ({
+  stage,
+  uploadProgress,
+}: TaskDispatchOverlayProps) => (
+  <div className="absolute inset-0 bottom-10 z-10 flex flex-col items-center justify-center gap-4 rounded-2xl bg-slate-100/70 backdrop-blur dark:bg-slate-900/70">
+    <div className="h-12 w-12 animate-spin rounded-full border-2 border-indigo-900 border-t-transparent dark:border-indigo-400" />
+    <div className="space-y-2 text-center">
+      <p className="text-xs font-semibold uppercase tracking-[0.3em] text-indigo-700 dark:text-indigo-400">
+        Dispatching workload
+      </p>
+      <p className="mx-auto max-w-xs text-sm text-indigo-700/90 dark:text-indigo-300/90">
+        {stage ||
+          "Preparing your workload for distributed execution…"}
+      </p>
+    </div>
+    {Object.keys(uploadProgress).length > 0 ? (
+      <ul className="w-full max-w-sm space-y-3">
+        {Object.entries(uploadProgress).map(([key, progress]) => {
+          const percentage =
+            progress.totalBytes > 0
+              ? Math.round(
+                  (progress.uploadedBytes / progress.totalBytes) * 100
+                )
+              : 100;
+
+          return (
+            <li key={key} className="space-y-1">
+              <div className="flex items-center justify-between gap-3 text-xs text-indigo-700 dark:text-indigo-300">
+                <span className="truncate font-medium">
+                  {progress.label}
+                  {progress.resumed ? " (resumed)" : ""}
+                </span>
+                <span className="shrink-0 tabular-nums">
+                  {formatMegabytes(progress.uploadedBytes)} /{" "}
+                  {formatMegabytes(progress.totalBytes)}
+                </span>
+              </div>
+              <div className="h-1.5 overflow-hidden rounded-full bg-indigo-100 dark:bg-indigo-950">
+                <div
+                  className="h-full rounded-full bg-indigo-600 transition-all dark:bg-indigo-400"
+                  style={{ width: `${percentage}%` }}
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    ) : null}
+  </div>
+);
@@ -0,0 +1,175 @@
+import { type ReactNode, useId } from "react";
+import { RotateCcw } from "lucide-react";
+import { SelectDropdown } from "../../../shared/components/SelectDropdown";
+import { FileDropzone } from "../../../shared/components/FileDropzone";
+
+type TaskMode = "inference" | "training";
+
+/**
+ * Neither the browser nor the desktop runtime executes training subtasks, so
+ * a training task would only fail on every provider that accepts it.
+ */
+export const TRAINING_UNAVAILABLE_MESSAGE =
+  "Training tasks cannot run yet: no provider runtime executes them. Choose inference instead.";
+
+interface TaskModelStepProps {
+  name: string;
+  onNameChange: (name: string) => void;
+  mode: TaskMode;
+  onModeChange: (mode: TaskMode) => void;
+  /** Set while a draft's model blob is reused and no new file is attached. */
+  reusedModelFileName: string | null;
+  onDiscardReusedModel: () => void;
+  modelFileName: string | null;
+  onModelFileSelect: (file: File | null) => void;
+}
+
+const modeOptions: Array<{
+  value: TaskMode;
+  label: ReactNode;
+  helper?: string;
+  disabled?: boolean;
+}> = [
+  {
+    value: "inference",
+    label: "Inference",
+  },
+  {
+    value: "training",
+    label: (
+      <>
+        Training{" "}
+        <span className="rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-amber-600 dark:border-amber-900/60 dark:bg-amber-950/40 dark:text-amber-400">
+          Coming soon
+        </span>
+      </>
+    ),
+    helper: "Fine-tune the model on your own dataset",
+    disabled: true,
+  },
+];
+
+export const TaskModelStep = ({
+  name,
+  onNameChange,
+  mode,
+  onModeChange,
+  reusedModelFileName,
+  onDiscardReusedModel,
+  modelFileName,
+  onModelFileSelect,
+}: TaskModelStepProps) => {
+  const nameFieldId = useId();
+  const modeFieldId = useId();
+  const fileFieldId = useId();
+
+  return (
+    <>
+      <div className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-2">
+          <label
+            htmlFor={nameFieldId}
+            className="text-sm font-semibold text-slate-700 dark:text-slate-300"
+          >
+            Name
+          </label>
+          <input
+            id={nameFieldId}
+            name="name"
+            type="text"
+            value={name}
+            onChange={(e) => onNameChange(e.target.value)}
+            placeholder="e.g. diffusion-sampler preview run"
+            className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200 dark:placeholder:text-slate-500 dark:focus:border-indigo-600 dark:focus:ring-indigo-900/60"
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label
+            htmlFor={modeFieldId}
+            className="text-sm font-semibold text-slate-700 dark:text-slate-300"
+          >
+            Execution mode
+          </label>
+          <input type="hidden" name="mode" value={mode} />
+          <SelectDropdown
+            id={modeFieldId}
+            ariaLabel="Execution mode"
+            value={mode}
+            onValueChange={(value) => {
+              const selectedOption = modeOptions.find(
+                (option) => option.value === value
+              );
+              if (selectedOption?.disabled) {
+                return;
+              }
+              onModeChange(value);
+            }}
+            placeholder="Select execution mode"
+            options={modeOptions.map((option) => ({
+              value: option.value,
+              label: option.label,
+              description: option.helper,
+              disabled: option.disabled,
+            }))}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label
+          htmlFor={fileFieldId}
+          className="text-sm font-semibold text-slate-700 dark:text-slate-300"
+        >
+          ONNX artifact
+        </label>
+        {reusedModelFileName ? (
+          <div className="flex items-center justify-between gap-3 rounded-lg border border-indigo-100 bg-indigo-50/50 px-4 py-3 text-sm dark:border-indigo-900/50 dark:bg-indigo-950/30">
+            <div className="flex min-w-0 items-center gap-2 text-indigo-700 dark:text-indigo-300">
+              <RotateCcw className="h-4 w-4 shrink-0" />
+              <span className="truncate">
+                Reusing previously uploaded{" "}
+                <span className="font-semibold">{reusedModelFileName}</span>
+              </span>
+            </div>
+            <button
+              type="button"
+              onClick={onDiscardReusedModel}
+              className="shrink-0 text-xs font-medium text-indigo-600 transition hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
+            >
+              Discard
+            </button>
+          </div>
+        ) : null}
+        <FileDropzone
+          inputId={fileFieldId}
+          name="onnxFile"
+          accept=".onnx"
+          emptyState={
+            <span>
+              Drag & drop your .onnx file here, or
+              <span className="ml-1 text-indigo-600 transition group-hover:text-indigo-500">
+                browse
+              </span>
+            </span>
+          }
+          helperText="Supports up to 2 GB, validated against latest opset."
+          selectedFileName={modelFileName}
+          onFileSelect={onModelFileSelect}
+        />
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          Plenty of ONNX models can be found at{" "}
+          <a
+            href="https://github.com/onnx/models"
+            target="_blank"
+            rel="noreferrer"
+            className="text-indigo-600 underline transition hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
+          >
+            https://github.com/onnx/models
+          </a>
+        </p>
+      </div>
+    </>
+  );
+};
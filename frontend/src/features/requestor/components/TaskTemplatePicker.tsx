@@ -0,0 +1,60 @@
+import { useId } from "react";
+import { Trash2 } from "lucide-react";
+import { SelectDropdown } from "../../../shared/components/SelectDropdown";
+import type { TaskTemplate } from "../stores/useTaskTemplateStore";
+
+interface TaskTemplatePickerProps {
+  templates: TaskTemplate[];
+  selectedTemplateId: string;
+  onSelect: (templateId: string) => void;
+  onDelete: () => void;
+}
+
+export const TaskTemplatePicker = ({
+  templates,
+  selectedTemplateId,
+  onSelect,
+  onDelete,
+}: TaskTemplatePickerProps) => {
+  const templateFieldId = useId();
+
+  if (templates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <label
+        htmlFor={templateFieldId}
+        className="text-sm font-semibold text-slate-700 dark:text-slate-300"
+      >
+        Start from template
+      </label>
+      <div className="flex gap-2">
+        <SelectDropdown
+          id={templateFieldId}
+          ariaLabel="Task template"
+          value={selectedTemplateId}
+          onValueChange={onSelect}
+          placeholder="Select a saved template"
+          options={templates.map((template) => ({
+            value: template.id,
+            label: template.name,
+            description: `${template.modelFileName} · ${
+              template.mode === "training" ? "Training" : "Inference"
+            }`,
+          }))}
+        />
+        <button
+          type="button"
+          onClick={onDelete}
+          disabled={!selectedTemplateId}
+          aria-label="Delete selected template"
+          className="inline-flex items-center justify-center rounded-lg border border-slate-200 px-3 text-slate-500 transition hover:border-rose-200 hover:bg-rose-50 hover:text-rose-600 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:text-slate-400 dark:hover:border-rose-900 dark:hover:bg-rose-950/40 dark:hover:text-rose-400"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import { useId } from "react";
+
+interface TaskTemplateSaveOptionProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  name: string;
+  onNameChange: (name: string) => void;
+  /** Suggested in the empty name field, usually the task name. */
+  placeholderName: string;
+}
+
+export const TaskTemplateSaveOption = ({
+  enabled,
+  onEnabledChange,
+  name,
+  onNameChange,
+  placeholderName,
+}: TaskTemplateSaveOptionProps) => {
+  const templateNameFieldId = useId();
+
+  return (
+  <div className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+    <label className="inline-flex cursor-pointer items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-200">
+      <input
+        type="checkbox"
+        checked={enabled}
+        onChange={(event) => onEnabledChange(event.target.checked)}
+        className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500 dark:border-slate-600"
+      />
+      Save this configuration as a template
+    </label>
+    {enabled ? (
+      <div className="space-y-1">
+        <label
+          htmlFor={templateNameFieldId}
+          className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400"
+        >
+          Template name
+        </label>
+        <input
+          id={templateNameFieldId}
+          type="text"
+          value={name}
+          onChange={(event) => onNameChange(event.target.value)}
+          placeholder={placeholderName.trim() || "e.g. nightly embeddings"}
+          className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200 dark:placeholder:text-slate-500 dark:focus:border-indigo-600 dark:focus:ring-indigo-900/60"
+        />
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Saving with an existing name replaces that template. The
+          model blob is reused, input files are not stored.
+        </p>
+      </div>
+    ) : null}
+  </div>
+  );
+};
@@ -0,0 +1,242 @@
+import { useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+import type { OnnxTensorMetadata } from "../../../shared/services/DesktopBridge";
+import { FileDropzone } from "../../../shared/components/FileDropzone";
+import { SelectDropdown } from "../../../shared/components/SelectDropdown";
+import {
+  AUDIO_SAMPLE_RATES,
+  audioFileToTensor,
+  imageFileToTensor,
+  type ImageNormalization,
+} from "../utils/mediaTensors";
+import {
+  createTensorFile,
+  describeTensorSpec,
+  formatTensorShape,
+  parseTensorLiteral,
+} from "../utils/tensorSpec";
+
+export type TensorEditorKind = "tensor" | "image" | "audio";
+
+export interface TensorEditorChange {
+  /** Encoded `.npy` tensor ready for upload, or null while invalid. */
+  file: File | null;
+  /** Name of the image or audio file the tensor was built from. */
+  sourceFileName: string | null;
+  error: string | null;
+}
+
+interface TensorBindingEditorProps {
+  kind: TensorEditorKind;
+  spec: OnnxTensorMetadata;
+  inputId: string;
+  /** JSON literal of a numeric tensor, kept by the parent across steps. */
+  literal: string;
+  sourceFileName: string | null;
+  error: string | null;
+  onLiteralChange: (literal: string) => void;
+  onTensorChange: (change: TensorEditorChange) => void;
+}
+
+const normalizationOptions: Array<{
+  value: ImageNormalization;
+  label: string;
+}> = [
+  { value: "unit", label: "Scale to 0–1" },
+  { value: "imagenet", label: "ImageNet mean/std" },
+  { value: "raw", label: "Raw 0–255" },
+];
+
+const labelClassName =
+  "text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400";
+
+export const TensorBindingEditor = ({
+  kind,
+  spec,
+  inputId,
+  literal,
+  sourceFileName,
+  error,
+  onLiteralChange,
+  onTensorChange,
+}: TensorBindingEditorProps) => {
+  const [normalization, setNormalization] =
+    useState<ImageNormalization>("unit");
+  const [sampleRate, setSampleRate] = useState<number>(AUDIO_SAMPLE_RATES[0]);
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [isConverting, setIsConverting] = useState(false);
+  // Only the latest conversion may report back; older ones are stale.
+  const conversionRef = useRef(0);
+
+  const handleLiteralChange = (text: string) => {
+    onLiteralChange(text);
+    if (!text.trim()) {
+      onTensorChange({ file: null, sourceFileName: null, error: null });
+      return;
+    }
+
+    const result = parseTensorLiteral(text, spec);
+    onTensorChange({
+      file: result.tensor ? createTensorFile(spec.name, result.tensor) : null,
+      sourceFileName: null,
+      error: result.error,
+    });
+  };
+
+  const convertMedia = async (
+    file: File | null,
+    options: { normalization: ImageNormalization; sampleRate: number }
+  ) => {
+    const conversion = ++conversionRef.current;
+    setSourceFile(file);
+    if (!file) {
+      setIsConverting(false);
+      onTensorChange({ file: null, sourceFileName: null, error: null });
+      return;
+    }
+
+    setIsConverting(true);
+    try {
+      const tensor =
+        kind === "image"
+          ? await imageFileToTensor(file, spec, options.normalization)
+          : await audioFileToTensor(file, spec, options.sampleRate);
+      if (conversion === conversionRef.current) {
+        onTensorChange({
+          file: createTensorFile(spec.name, tensor),
+          sourceFileName: file.name,
+          error: null,
+        });
+      }
+    } catch (conversionError) {
+      if (conversion === conversionRef.current) {
+        onTensorChange({
+          file: null,
+          sourceFileName: file.name,
+          error:
+            conversionError instanceof Error
+              ? conversionError.message
+              : `Unable to convert the ${kind} file.`,
+        });
+      }
+    } finally {
+      if (conversion === conversionRef.current) {
+        setIsConverting(false);
+      }
+    }
+  };
+
+  const specSummary = (
+    <p className="text-xs text-slate-400 dark:text-slate-500">
+      Expects <span className="font-mono">{describeTensorSpec(spec)}</span>
+    </p>
+  );
+
+  const errorMessage = error ? (
+    <p className="text-xs text-rose-600 dark:text-rose-400">{error}</p>
+  ) : null;
+
+  if (kind === "tensor") {
+    return (
+      <div className="space-y-1">
+        <label htmlFor={inputId} className={labelClassName}>
+          Tensor values
+        </label>
+        <textarea
+          id={inputId}
+          value={literal}
+          onChange={(event) => handleLiteralChange(event.target.value)}
+          rows={5}
+          spellCheck={false}
+          placeholder={`JSON array matching ${formatTensorShape(spec.shape)}, e.g. [[1, 2, 3]]`}
+          className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 font-mono text-xs text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:placeholder:text-slate-500 dark:focus:border-indigo-600 dark:focus:ring-indigo-900/60"
+        />
+        {specSummary}
+        {errorMessage}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <label htmlFor={inputId} className={labelClassName}>
+          {kind === "image" ? "Upload image" : "Upload audio"}
+        </label>
+        <FileDropzone
+          inputId={inputId}
+          name={inputId}
+          accept={kind === "image" ? "image/*" : "audio/*"}
+          emptyState={
+            kind === "image"
+              ? "Attach a PNG, JPEG or WebP image"
+              : "Attach a WAV, MP3 or OGG recording"
+          }
+          helperText={
+            isConverting ? (
+              <span className="inline-flex items-center gap-1.5">
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                Converting to a tensor…
+              </span>
+            ) : kind === "image" ? (
+              "Resized and converted in the browser before upload."
+            ) : (
+              "Resampled to mono in the browser before upload."
+            )
+          }
+          className="min-h-[140px] py-6"
+          selectedFileName={sourceFileName}
+          onFileSelect={(file) =>
+            void convertMedia(file, { normalization, sampleRate })
+          }
+        />
+        {specSummary}
+        {errorMessage}
+      </div>
+
+      <div className="flex flex-col gap-1 sm:w-64">
+        <span className={labelClassName}>
+          {kind === "image" ? "Pixel normalization" : "Sample rate"}
+        </span>
+        {kind === "image" ? (
+          <SelectDropdown
+            ariaLabel="Pixel normalization"
+            value={normalization}
+            onValueChange={(value) => {
+              const next = value as ImageNormalization;
+              setNormalization(next);
+              if (sourceFile) {
+                void convertMedia(sourceFile, {
+                  normalization: next,
+                  sampleRate,
+                });
+              }
+            }}
+            options={normalizationOptions}
+            triggerClassName="w-full"
+          />
+        ) : (
+          <SelectDropdown
+            ariaLabel="Sample rate"
+            value={String(sampleRate)}
+            onValueChange={(value) => {
+              const next = Number.parseInt(value, 10);
+              setSampleRate(next);
+              if (sourceFile) {
+                void convertMedia(sourceFile, {
+                  normalization,
+                  sampleRate: next,
+                });
+              }
+            }}
+            options={AUDIO_SAMPLE_RATES.map((rate) => ({
+              value: String(rate),
+              label: `${(rate / 1000).toLocaleString()} kHz`,
+            }))}
+            triggerClassName="w-full"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
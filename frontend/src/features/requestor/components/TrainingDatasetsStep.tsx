@@ -0,0 +1,260 @@
+import { type Dispatch, type SetStateAction, useId } from "react";
+import { SelectDropdown } from "../../../shared/components/SelectDropdown";
+import { FileDropzone } from "../../../shared/components/FileDropzone";
+import {
+  datasetAcceptAttribute,
+  datasetFormatOptions,
+  describeAcceptedDatasetFiles,
+  type DatasetConfig,
+  type TrainHyperparameters,
+} from "../utils/newTaskForm";
+
+interface DatasetSourcePanelProps {
+  title: string;
+  description: string;
+  /** Prefix of the form field names, e.g. `trainDataset`. */
+  fieldName: string;
+  emptyState: string;
+  urlPlaceholder: string;
+  required: boolean;
+  dataset: DatasetConfig;
+  onChange: Dispatch<SetStateAction<DatasetConfig>>;
+}
+
+const DatasetSourcePanel = ({
+  title,
+  description,
+  fieldName,
+  emptyState,
+  urlPlaceholder,
+  required,
+  dataset,
+  onChange,
+}: DatasetSourcePanelProps) => {
+  const fileFieldId = useId();
+  const urlFieldId = useId();
+  const formatFieldId = useId();
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-200 bg-slate-50/60 p-4">
+      <header className="space-y-1">
+        <h3 className="text-sm font-semibold text-slate-700">
+          {title}
+        </h3>
+        <p className="text-xs text-slate-500">
+          {description}
+        </p>
+      </header>
+
+      <div className="flex flex-wrap gap-2">
+        {(["upload", "url"] as const).map((source) => (
+          <button
+            key={source}
+            type="button"
+            onClick={() =>
+              onChange((prev) => ({
+                ...prev,
+                sourceType: source,
+              }))
+            }
+            className={`inline-flex items-center rounded-md border px-3 py-1.5 text-xs font-semibold uppercase tracking-wide transition ${
+              dataset.sourceType === source
+                ? "border-indigo-300 bg-white text-indigo-600 shadow-sm"
+                : "border-slate-200 bg-slate-100 text-slate-500 hover:border-indigo-200 hover:text-indigo-500"
+            }`}
+          >
+            {source === "upload"
+              ? "Upload dataset"
+              : "Reference via URL"}
+          </button>
+        ))}
+      </div>
+
+      {dataset.sourceType === "upload" ? (
+        <FileDropzone
+          inputId={fileFieldId}
+          name={`${fieldName}File`}
+          emptyState={emptyState}
+          helperText={describeAcceptedDatasetFiles(dataset.format)}
+          className="min-h-[160px] bg-white"
+          accept={datasetAcceptAttribute(dataset.format)}
+          selectedFileName={dataset.fileName}
+          onFileSelect={(file) =>
+            onChange((prev) => ({
+              ...prev,
+              fileName: file?.name ?? null,
+              file,
+            }))
+          }
+        />
+      ) : (
+        <div className="space-y-2">
+          <label
+            htmlFor={urlFieldId}
+            className="text-xs font-semibold uppercase tracking-wide text-slate-500"
+          >
+            Dataset URL
+          </label>
+          <input
+            id={urlFieldId}
+            name={`${fieldName}Url`}
+            type="url"
+            value={dataset.url}
+            onChange={(event) =>
+              onChange((prev) => ({ ...prev, url: event.target.value }))
+            }
+            placeholder={urlPlaceholder}
+            className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60"
+            required={required && dataset.sourceType === "url"}
+          />
+        </div>
+      )}
+
+      <div className="grid gap-4">
+        <div className="space-y-2">
+          <label
+            htmlFor={formatFieldId}
+            className="text-xs font-semibold uppercase tracking-wide text-slate-500"
+          >
+            Dataset format
+          </label>
+          <SelectDropdown
+            id={formatFieldId}
+            ariaLabel={`${title} format`}
+            value={dataset.format}
+            onValueChange={(value) =>
+              onChange((prev) => ({
+                ...prev,
+                format: value as DatasetConfig["format"],
+              }))
+            }
+            options={datasetFormatOptions.map((option) => ({
+              value: option.value,
+              label: option.label,
+            }))}
+            triggerClassName="w-full"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface TrainingDatasetsStepProps {
+  trainingDataset: DatasetConfig;
+  onTrainingDatasetChange: Dispatch<SetStateAction<DatasetConfig>>;
+  validationDataset: DatasetConfig;
+  onValidationDatasetChange: Dispatch<SetStateAction<DatasetConfig>>;
+  hyperparameters: TrainHyperparameters;
+  onHyperparametersChange: Dispatch<SetStateAction<TrainHyperparameters>>;
+}
+
+export const TrainingDatasetsStep = ({
+  trainingDataset,
+  onTrainingDatasetChange,
+  validationDataset,
+  onValidationDatasetChange,
+  hyperparameters,
+  onHyperparametersChange,
+}: TrainingDatasetsStepProps) => {
+  const hyperparameterEpochsId = useId();
+  const hyperparameterBatchSizeId = useId();
+  const hyperparameterLearningRateId = useId();
+
+  return (
+    <section className="space-y-6">
+      <DatasetSourcePanel
+        title="Training dataset"
+        description="Provide the primary dataset used for gradient updates. Upload large archives or reference a signed URI."
+        fieldName="trainDataset"
+        emptyState="Drop archive or dataset manifest"
+        urlPlaceholder="https://storage.example.com/train_manifest.parquet"
+        required
+        dataset={trainingDataset}
+        onChange={onTrainingDatasetChange}
+      />
+
+      <DatasetSourcePanel
+        title="Validation dataset"
+        description="Optional evaluation split streamed between checkpoints. Provide a held-out subset to track metrics."
+        fieldName="validationDataset"
+        emptyState="Drop validation set archive"
+        urlPlaceholder="https://storage.example.com/validation_manifest.parquet"
+        required={false}
+        dataset={validationDataset}
+        onChange={onValidationDatasetChange}
+      />
+
+      <div className="grid gap-4 rounded-xl border border-slate-200 bg-white p-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <label
+            htmlFor={hyperparameterEpochsId}
+            className="text-xs font-semibold uppercase tracking-wide text-slate-500"
+          >
+            Epochs
+          </label>
+          <input
+            id={hyperparameterEpochsId}
+            name="trainEpochs"
+            type="number"
+            min={1}
+            value={hyperparameters.epochs}
+            onChange={(event) =>
+              onHyperparametersChange((prev) => ({
+                ...prev,
+                epochs: Number.parseInt(event.target.value, 10) || 1,
+              }))
+            }
+            className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label
+            htmlFor={hyperparameterBatchSizeId}
+            className="text-xs font-semibold uppercase tracking-wide text-slate-500"
+          >
+            Batch size
+          </label>
+          <input
+            id={hyperparameterBatchSizeId}
+            name="trainBatchSize"
+            type="number"
+            min={1}
+            value={hyperparameters.batchSize}
+            onChange={(event) =>
+              onHyperparametersChange((prev) => ({
+                ...prev,
+                batchSize: Number.parseInt(event.target.value, 10) || 1,
+              }))
+            }
+            className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label
+            htmlFor={hyperparameterLearningRateId}
+            className="text-xs font-semibold uppercase tracking-wide text-slate-500"
+          >
+            Learning rate
+          </label>
+          <input
+            id={hyperparameterLearningRateId}
+            name="trainLearningRate"
+            type="text"
+            value={hyperparameters.learningRate}
+            onChange={(event) =>
+              onHyperparametersChange((prev) => ({
+                ...prev,
+                learningRate: event.target.value,
+              }))
+            }
+            placeholder="Optional, e.g. 3e-5"
+            className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm transition placeholder:text-slate-400 focus:border-indigo-300 focus:outline-none focus:ring focus:ring-indigo-200/60"
+          />
+        </div>
+      </div>
+    </section>
+  );
+};
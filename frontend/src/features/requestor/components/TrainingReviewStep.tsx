@@ -0,0 +1,80 @@
+import {
+  datasetFormatLabel,
+  describeDatasetSource,
+  isDatasetProvided,
+  type DatasetConfig,
+  type TrainHyperparameters,
+} from "../utils/newTaskForm";
+
+interface TrainingReviewStepProps {
+  name: string;
+  modelFileName: string | null;
+  trainingDataset: DatasetConfig;
+  validationDataset: DatasetConfig;
+  hyperparameters: TrainHyperparameters;
+}
+
+export const TrainingReviewStep = ({
+  name,
+  modelFileName,
+  trainingDataset,
+  validationDataset,
+  hyperparameters,
+}: TrainingReviewStepProps) => {
+  return (
+    <section
+      className="space-y-4 rounded-xl border border-emerald-100 bg-emerald-50/30 p-4 dark:border-emerald-900/50 dark:bg-emerald-950/30"
+      aria-labelledby="training-review-label"
+    >
+      <div className="flex flex-col gap-1">
+        <h3
+          id="training-review-label"
+          className="text-sm font-semibold text-emerald-700 dark:text-emerald-400"
+        >
+          Review training run
+        </h3>
+        <p className="text-xs text-emerald-600/80 dark:text-emerald-400/80">
+          Datasets are uploaded to storage when you request execution.
+          Providers stream them into the model for every epoch.
+        </p>
+      </div>
+
+      <dl className="grid gap-3 rounded-lg border border-emerald-100 bg-white/70 p-4 text-sm shadow-sm sm:grid-cols-[max-content_1fr] sm:gap-x-6 dark:border-emerald-900/50 dark:bg-slate-800/70">
+        {[
+          { term: "Name", value: name.trim() },
+          { term: "Model", value: modelFileName ?? "Not provided" },
+          {
+            term: "Training dataset",
+            value: `${describeDatasetSource(trainingDataset)} · ${datasetFormatLabel(trainingDataset.format)}`,
+          },
+          {
+            term: "Validation dataset",
+            value: isDatasetProvided(validationDataset)
+              ? `${describeDatasetSource(validationDataset)} · ${datasetFormatLabel(validationDataset.format)}`
+              : "None",
+          },
+          { term: "Epochs", value: String(hyperparameters.epochs) },
+          {
+            term: "Batch size",
+            value: String(hyperparameters.batchSize),
+          },
+          {
+            term: "Learning rate",
+            value:
+              hyperparameters.learningRate.trim() ||
+              "Model default",
+          },
+        ].map(({ term, value }) => (
+          <div key={term} className="contents">
+            <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+              {term}
+            </dt>
+            <dd className="break-all text-slate-700 dark:text-slate-200">
+              {value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </section>
+  );
+};
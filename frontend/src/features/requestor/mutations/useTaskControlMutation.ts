@@ -0,0 +1,53 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { isApiError } from "../../../shared/utils/apiError";
+import {
+  cancelTask,
+  cancelTaskSubtask,
+  pauseTask,
+  resumeTask,
+  retryFailedSubtasks,
+} from "../api";
+import { invalidateMyTasksQueryKey } from "../queries/useMyTasksQuery";
+import { taskSubtasksQueryKey } from "../queries/useTaskSubtasksQuery";
+import type { TaskControlAction } from "../utils/taskControls";
+
+export type TaskControlTarget =
+  | { action: TaskControlAction; taskId: string }
+  | { action: "cancelSubtask"; taskId: string; subtaskId: string };
+
+export const useTaskControlMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (target: TaskControlTarget) => {
+      switch (target.action) {
+        case "cancel":
+          return cancelTask(target.taskId);
+        case "pause":
+          return pauseTask(target.taskId);
+        case "resume":
+          return resumeTask(target.taskId);
+        case "retry":
+          await retryFailedSubtasks(target.taskId);
+          return;
+        case "cancelSubtask":
+          return cancelTaskSubtask(target.taskId, target.subtaskId);
+      }
+    },
+    onSuccess: (_, target) => {
+      queryClient.invalidateQueries({ queryKey: invalidateMyTasksQueryKey });
+      queryClient.invalidateQueries({
+        queryKey: taskSubtasksQueryKey(target.taskId),
+      });
+    },
+    onError: (error, target) => {
+      // The task changed state underneath the control, e.g. it finished.
+      if (isApiError(error, "conflict", "not_found")) {
+        queryClient.invalidateQueries({ queryKey: invalidateMyTasksQueryKey });
+        queryClient.invalidateQueries({
+          queryKey: taskSubtasksQueryKey(target.taskId),
+        });
+      }
+    },
+  });
+};
@@ -1,23 +1,22 @@
 import { useQuery } from "@tanstack/react-query";
 import { useAuthStore } from "../../auth/stores/authStore";
 import { getMyTasks } from "../api";
+import { useHubAwareRefetchInterval } from "../../../shared/stores/taskHubStore";
 import type { RequestorTaskStatus } from "../types";
 
 const BASE_QUERY_KEY = ["requestor", "tasks", "my"] as const;
 
 export const useMyTasksQuery = (status?: RequestorTaskStatus) => {
   const user = useAuthStore((state) => state.user);
+  const refetchInterval = useHubAwareRefetchInterval(60000);
 
-  const queryKey =
-    typeof status === "number"
-      ? [...BASE_QUERY_KEY, status]
-      : BASE_QUERY_KEY;
+  const queryKey = status ? [...BASE_QUERY_KEY, status] : BASE_QUERY_KEY;
 
   return useQuery({
     queryKey,
     queryFn: () => getMyTasks(status),
     enabled: !!user && user.role === "Requestor",
-    refetchInterval: 60000, // Poll every 1 minute
+    refetchInterval, // Falls back to polling every minute while the hub is down
     staleTime: 1000 * 30,
   });
 };
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import type { OutputArtifactDto } from "../types";
+import { loadOutputArtifact } from "../utils/outputArtifacts";
+
+export const outputArtifactQueryKey = (artifact: OutputArtifactDto) =>
+  [
+    "output-artifact",
+    artifact.fileUrl ?? `${artifact.tensorName}:${artifact.payload ?? ""}`,
+  ] as const;
+
+export const useOutputArtifactQuery = (
+  artifact: OutputArtifactDto | null,
+  enabled = true
+) =>
+  useQuery({
+    queryKey: artifact
+      ? outputArtifactQueryKey(artifact)
+      : ["output-artifact", null],
+    queryFn: ({ signal }) => loadOutputArtifact(artifact!, signal),
+    enabled: enabled && !!artifact,
+    // Completed outputs never change; keep decoded tensors while the dialog
+    // is reopened but drop them soon after, as they can be large.
+    staleTime: Infinity,
+    gcTime: 60_000,
+    retry: 1,
+  });
@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { quoteTask, type TaskQuoteRequestBody } from "../api";
+
+export const taskQuoteQueryKey = (request: TaskQuoteRequestBody | null) =>
+  ["requestor", "task-quote", request] as const;
+
+export const useTaskQuoteQuery = (request: TaskQuoteRequestBody | null) =>
+  useQuery({
+    queryKey: taskQuoteQueryKey(request),
+    queryFn: () => quoteTask(request!),
+    enabled: !!request,
+    // Rates move slowly; going back and forth in the wizard should not
+    // re-quote an unchanged task.
+    staleTime: 60_000,
+    retry: 1,
+  });
@@ -1,12 +1,30 @@
+import { useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { getTaskSubtasks } from "../api";
+import { TaskHubConnection } from "../../../shared/services/TaskHubConnection";
+import { useHubAwareRefetchInterval } from "../../../shared/stores/taskHubStore";
+
+export const taskSubtasksQueryKey = (taskId: string) =>
+  ["task-subtasks", taskId] as const;
 
 export const useTaskSubtasksQuery = (taskId: string, enabled = true) => {
+  const refetchInterval = useHubAwareRefetchInterval(60_000);
+  const isActive = enabled && !!taskId;
+
+  // Subtask progress is only broadcast to the task group.
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+
+    return TaskHubConnection.joinTask(taskId);
+  }, [isActive, taskId]);
+
   return useQuery({
-    queryKey: ["task-subtasks", taskId],
+    queryKey: taskSubtasksQueryKey(taskId),
     queryFn: () => getTaskSubtasks(taskId),
-    enabled: enabled && !!taskId,
+    enabled: isActive,
     staleTime: 30_000,
-    refetchInterval: 60_000,
+    refetchInterval,
   });
-};
\ No newline at end of file
+};
@@ -0,0 +1,85 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { RequestorInferencePayloadType } from "../types";
+
+export type TaskTemplateMode = "inference" | "training";
+
+export interface TaskTemplateBinding {
+  tensorName: string;
+  payloadType: RequestorInferencePayloadType;
+  maxLength?: number | null;
+}
+
+export interface TaskTemplateOutput {
+  tensorName: string;
+  payloadType: RequestorInferencePayloadType;
+  fileFormat?: string | null;
+}
+
+export interface TaskTemplateTrainParameters {
+  epochs: number;
+  batchSize: number;
+  learningRate?: number | null;
+}
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  mode: TaskTemplateMode;
+  /** Blob URI of the already-uploaded model, reused instead of re-uploading. */
+  modelUrl: string;
+  modelFileName: string;
+  bindings: TaskTemplateBinding[];
+  outputs: TaskTemplateOutput[];
+  train?: TaskTemplateTrainParameters | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TaskTemplateInput = Omit<TaskTemplate, "id" | "createdAt" | "updatedAt">;
+
+interface TaskTemplateState {
+  templates: TaskTemplate[];
+  /** Saves a template, replacing any existing one with the same name. */
+  saveTemplate: (input: TaskTemplateInput) => TaskTemplate;
+  deleteTemplate: (id: string) => void;
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export const useTaskTemplateStore = create<TaskTemplateState>()(
+  persist(
+    (set, get) => ({
+      templates: [],
+      saveTemplate: (input) => {
+        const now = new Date().toISOString();
+        const existing = get().templates.find(
+          (template) => normalizeName(template.name) === normalizeName(input.name)
+        );
+        const template: TaskTemplate = {
+          ...input,
+          name: input.name.trim(),
+          id: existing?.id ?? crypto.randomUUID(),
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+        };
+
+        set((state) => ({
+          templates: [
+            template,
+            ...state.templates.filter((item) => item.id !== template.id),
+          ],
+        }));
+
+        return template;
+      },
+      deleteTemplate: (id) =>
+        set((state) => ({
+          templates: state.templates.filter((template) => template.id !== id),
+        })),
+    }),
+    {
+      name: "requestor-task-templates",
+    }
+  )
+);
@@ -0,0 +1,307 @@
+export type BatchManifestFormat = "csv" | "jsonl";
+
+export type BatchBindingValue =
+  | { kind: "text"; value: string }
+  | { kind: "json"; value: string }
+  | { kind: "file"; fileName: string }
+  | { kind: "url"; url: string };
+
+export interface BatchManifestRow {
+  /** 1-based position among the data rows, used in messages and the progress view. */
+  row: number;
+  bindings: Record<string, BatchBindingValue>;
+}
+
+export interface BatchManifestIssue {
+  /** `null` for problems with the manifest as a whole. */
+  row: number | null;
+  message: string;
+}
+
+export interface BatchManifest {
+  format: BatchManifestFormat;
+  tensorNames: string[];
+  rows: BatchManifestRow[];
+  issues: BatchManifestIssue[];
+}
+
+export const BATCH_MANIFEST_ACCEPT = ".csv,.jsonl,.ndjson";
+
+export const resolveManifestFormat = (
+  fileName: string
+): BatchManifestFormat | null => {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "csv") {
+    return "csv";
+  }
+  if (extension === "jsonl" || extension === "ndjson") {
+    return "jsonl";
+  }
+  return null;
+};
+
+const isJson = (value: string) => {
+  try {
+    JSON.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Cells are typed by prefix so tensor names (which may contain ":", e.g.
+// "input:0" in exported TensorFlow graphs) never need annotating.
+const parseStringValue = (
+  raw: string,
+  inferJson: boolean
+): BatchBindingValue => {
+  const value = raw.trim();
+
+  if (value.startsWith("file:")) {
+    return { kind: "file", fileName: value.slice("file:".length).trim() };
+  }
+  if (value.startsWith("json:")) {
+    return { kind: "json", value: value.slice("json:".length).trim() };
+  }
+  if (value.startsWith("text:")) {
+    return { kind: "text", value: raw.trimStart().slice("text:".length) };
+  }
+  if (/^https?:\/\//i.test(value)) {
+    return { kind: "url", url: value };
+  }
+  if (
+    inferJson &&
+    (value.startsWith("{") || value.startsWith("[")) &&
+    isJson(value)
+  ) {
+    return { kind: "json", value };
+  }
+
+  return { kind: "text", value: raw };
+};
+
+/** RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines. */
+const parseCsvRecords = (content: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index];
+
+    if (inQuotes) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[index + 1] === "\n") {
+        index += 1;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((item) => item.some((cell) => cell.trim().length > 0));
+};
+
+const parseCsvManifest = (content: string): BatchManifest => {
+  const [header, ...records] = parseCsvRecords(content.replace(/^\uFEFF/, ""));
+  const issues: BatchManifestIssue[] = [];
+
+  if (!header) {
+    return {
+      format: "csv",
+      tensorNames: [],
+      rows: [],
+      issues: [{ row: null, message: "The manifest is empty." }],
+    };
+  }
+
+  const tensorNames = header.map((name) => name.trim());
+  if (tensorNames.some((name) => !name)) {
+    issues.push({
+      row: null,
+      message: "Every CSV header column must name an input tensor.",
+    });
+  }
+
+  const rows = records.map((record, index): BatchManifestRow => {
+    const row = index + 1;
+    if (record.length !== tensorNames.length) {
+      issues.push({
+        row,
+        message: `Expected ${tensorNames.length} columns but found ${record.length}.`,
+      });
+    }
+
+    const bindings: Record<string, BatchBindingValue> = {};
+    tensorNames.forEach((name, column) => {
+      const cell = record[column];
+      if (name && cell !== undefined && cell.trim().length > 0) {
+        bindings[name] = parseStringValue(cell, true);
+      }
+    });
+
+    return { row, bindings };
+  });
+
+  return { format: "csv", tensorNames, rows, issues };
+};
+
+const parseJsonlManifest = (content: string): BatchManifest => {
+  const issues: BatchManifestIssue[] = [];
+  const tensorNames = new Set<string>();
+  const rows: BatchManifestRow[] = [];
+
+  content
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0)
+    .forEach((line, index) => {
+      const row = index + 1;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        issues.push({ row, message: "Line is not valid JSON." });
+        rows.push({ row, bindings: {} });
+        return;
+      }
+
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        issues.push({
+          row,
+          message: "Each line must be a JSON object keyed by tensor name.",
+        });
+        rows.push({ row, bindings: {} });
+        return;
+      }
+
+      const bindings: Record<string, BatchBindingValue> = {};
+      Object.entries(parsed as Record<string, unknown>).forEach(
+        ([name, value]) => {
+          tensorNames.add(name);
+          if (value === null || value === undefined) {
+            return;
+          }
+          bindings[name] =
+            typeof value === "string"
+              ? parseStringValue(value, false)
+              : { kind: "json", value: JSON.stringify(value) };
+        }
+      );
+
+      rows.push({ row, bindings });
+    });
+
+  return { format: "jsonl", tensorNames: [...tensorNames], rows, issues };
+};
+
+/**
+ * Parses a batch manifest that maps each row to one set of input bindings.
+ * CSV headers and JSONL keys name the input tensors. String values are
+ * text unless prefixed: `file:<name>` references an attached file,
+ * `json:`/`text:` force the payload type and http(s) URLs are passed as
+ * file references.
+ */
+export const parseBatchManifest = (
+  format: BatchManifestFormat,
+  content: string
+): BatchManifest => {
+  const manifest =
+    format === "csv" ? parseCsvManifest(content) : parseJsonlManifest(content);
+
+  if (manifest.rows.length === 0 && manifest.issues.length === 0) {
+    manifest.issues.push({
+      row: null,
+      message: "The manifest does not contain any rows.",
+    });
+  }
+
+  return manifest;
+};
+
+/**
+ * Checks every row against the model inputs and the attached files. When the
+ * model could not be parsed, the manifest's own columns are the reference.
+ */
+export const validateBatchManifest = (
+  manifest: BatchManifest,
+  { modelInputs, files }: { modelInputs: string[] | null; files: File[] }
+): BatchManifestIssue[] => {
+  const issues = [...manifest.issues];
+  const expected =
+    modelInputs && modelInputs.length > 0 ? modelInputs : manifest.tensorNames;
+  const expectedSet = new Set(expected);
+  const fileNames = new Set(files.map((file) => file.name));
+  // Rows that failed to parse are already reported once.
+  const unparsedRows = new Set(manifest.issues.map((issue) => issue.row));
+
+  if (modelInputs && modelInputs.length > 0) {
+    const unknown = manifest.tensorNames.filter(
+      (name) => !expectedSet.has(name)
+    );
+    if (unknown.length > 0) {
+      issues.push({
+        row: null,
+        message: `The model has no input named ${unknown
+          .map((name) => `"${name}"`)
+          .join(", ")}. Expected: ${expected.join(", ")}.`,
+      });
+    }
+  }
+
+  manifest.rows.forEach(({ row, bindings }) => {
+    if (unparsedRows.has(row)) {
+      return;
+    }
+
+    const missing = expected.filter((name) => !(name in bindings));
+    if (missing.length > 0) {
+      issues.push({
+        row,
+        message: `Missing a value for ${missing.join(", ")}.`,
+      });
+    }
+
+    Object.entries(bindings).forEach(([name, binding]) => {
+      if (binding.kind === "file" && !fileNames.has(binding.fileName)) {
+        issues.push({
+          row,
+          message: `"${name}" references "${binding.fileName}", which is not attached.`,
+        });
+      }
+      if (binding.kind === "json" && !isJson(binding.value)) {
+        issues.push({ row, message: `"${name}" is not valid JSON.` });
+      }
+    });
+  });
+
+  return issues;
+};
+
+export const describeManifestIssue = (issue: BatchManifestIssue) =>
+  issue.row === null ? issue.message : `Row ${issue.row}: ${issue.message}`;
@@ -0,0 +1,159 @@
+import {
+  createTaskSubtask,
+  type CreateTaskBindingRequest,
+} from "../api";
+import type { BatchBindingValue, BatchManifestRow } from "./batchManifest";
+
+export type BatchRowStatus =
+  | "pending"
+  | "uploading"
+  | "submitting"
+  | "submitted"
+  | "failed";
+
+export interface BatchRowState {
+  row: number;
+  subtaskId: string;
+  status: BatchRowStatus;
+  error: string | null;
+}
+
+export interface BatchSubmissionOptions {
+  taskId: string;
+  rows: BatchManifestRow[];
+  /** Previous attempt; submitted rows are skipped and keep their subtask id. */
+  states: BatchRowState[];
+  /** Uploads an attached file for a row and returns its blob URI. */
+  uploadFile: (args: {
+    fileName: string;
+    tensorName: string;
+    subtaskId: string;
+  }) => Promise<string>;
+  onRowChange: (state: BatchRowState) => void;
+  concurrency?: number;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+export const createBatchRowStates = (
+  rows: BatchManifestRow[]
+): BatchRowState[] =>
+  rows.map(({ row }) => ({
+    row,
+    subtaskId: crypto.randomUUID(),
+    status: "pending",
+    error: null,
+  }));
+
+const toBindingRequest = async (
+  tensorName: string,
+  value: BatchBindingValue,
+  resolveFile: (fileName: string) => Promise<string>
+): Promise<CreateTaskBindingRequest> => {
+  switch (value.kind) {
+    case "text":
+      return {
+        tensorName,
+        payloadType: "Text",
+        payload: value.value,
+        fileUrl: null,
+      };
+    case "json":
+      return {
+        tensorName,
+        payloadType: "Json",
+        payload: value.value,
+        fileUrl: null,
+      };
+    case "url":
+      return {
+        tensorName,
+        payloadType: "Binary",
+        payload: null,
+        fileUrl: value.url,
+      };
+    case "file":
+      return {
+        tensorName,
+        payloadType: "Binary",
+        payload: null,
+        fileUrl: await resolveFile(value.fileName),
+      };
+  }
+};
+
+/**
+ * Fans manifest rows out into subtasks of `taskId`, a few rows at a time.
+ * A failing row is recorded and skipped so the rest of the batch continues;
+ * calling again with the returned states retries only the failed rows.
+ */
+export const submitBatchRows = async ({
+  taskId,
+  rows,
+  states,
+  uploadFile,
+  onRowChange,
+  concurrency = DEFAULT_CONCURRENCY,
+}: BatchSubmissionOptions): Promise<BatchRowState[]> => {
+  const results = new Map(states.map((state) => [state.row, state]));
+  // Files shared by several rows are uploaded once per batch.
+  const uploads = new Map<string, Promise<string>>();
+
+  const update = (state: BatchRowState) => {
+    results.set(state.row, state);
+    onRowChange(state);
+  };
+
+  const queue = rows.filter(
+    (row) => results.get(row.row)?.status !== "submitted"
+  );
+
+  const submitRow = async (row: BatchManifestRow) => {
+    const previous = results.get(row.row);
+    const subtaskId = previous?.subtaskId ?? crypto.randomUUID();
+    const base = { row: row.row, subtaskId, error: null };
+
+    try {
+      update({ ...base, status: "uploading" });
+      const bindings = await Promise.all(
+        Object.entries(row.bindings).map(([tensorName, value]) =>
+          toBindingRequest(tensorName, value, (fileName) => {
+            let upload = uploads.get(fileName);
+            if (!upload) {
+              upload = uploadFile({ fileName, tensorName, subtaskId });
+              // A failed upload should be retried by the next row that needs it.
+              upload.catch(() => uploads.delete(fileName));
+              uploads.set(fileName, upload);
+            }
+            return upload;
+          })
+        )
+      );
+
+      update({ ...base, status: "submitting" });
+      await createTaskSubtask(taskId, { subtaskId, bindings });
+      update({ ...base, status: "submitted" });
+    } catch (error) {
+      update({
+        ...base,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Submission failed",
+      });
+    }
+  };
+
+  const worker = async () => {
+    for (let row = queue.shift(); row !== undefined; row = queue.shift()) {
+      await submitRow(row);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, queue.length) }, worker)
+  );
+
+  return rows.flatMap((row) => {
+    const state = results.get(row.row);
+    return state ? [state] : [];
+  });
+};
@@ -0,0 +1,170 @@
+import type { TrainingDatasetFormat } from "../api";
+
+// Enough for the container headers and the first rows of a text dataset
+// without reading multi-gigabyte uploads into memory.
+const SNIFF_BYTES = 64 * 1024;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((value, index) => bytes[offset + index] === value);
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const EMPTY_ZIP_SIGNATURE = [0x50, 0x4b, 0x05, 0x06];
+const GZIP_SIGNATURE = [0x1f, 0x8b];
+const NPY_SIGNATURE = [0x93, ...ascii("NUMPY")];
+const PARQUET_SIGNATURE = ascii("PAR1");
+
+const isZipArchive = (head: Uint8Array) => startsWith(head, ZIP_SIGNATURE);
+
+const decodeText = (head: Uint8Array, truncated: boolean): string | null => {
+  if (head.includes(0)) {
+    return null;
+  }
+
+  try {
+    // Streaming mode tolerates a multi-byte character cut at the sniff boundary.
+    return new TextDecoder("utf-8", { fatal: true }).decode(head, { stream: truncated });
+  } catch {
+    return null;
+  }
+};
+
+// Only complete lines are checked; the last one may be cut by the sniff.
+const completeLines = (text: string, truncated: boolean) => {
+  const lines = text.split(/\r?\n/);
+  if (truncated) {
+    lines.pop();
+  }
+  return lines.filter((line) => line.trim().length > 0);
+};
+
+const countColumns = (line: string, delimiter: string) => {
+  let columns = 1;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === delimiter && !quoted) {
+      columns += 1;
+    }
+  }
+  return columns;
+};
+
+const inspectDelimited = (text: string, truncated: boolean, delimiter: string, requireColumns: boolean) => {
+  const lines = completeLines(text, truncated);
+  if (lines.length === 0) {
+    return "contains no rows";
+  }
+
+  const headerColumns = countColumns(lines[0], delimiter);
+  if (requireColumns && headerColumns < 2) {
+    return `has a single column; tabular datasets need a header with at least two ${delimiter === "\t" ? "tab" : "comma"}-separated columns`;
+  }
+
+  const rowIndex = lines.findIndex((line) => countColumns(line, delimiter) !== headerColumns);
+  return rowIndex < 0
+    ? null
+    : `has ${countColumns(lines[rowIndex], delimiter)} columns on row ${rowIndex + 1} but ${headerColumns} in the header`;
+};
+
+const inspectJsonLines = (text: string, truncated: boolean) => {
+  const lines = completeLines(text, truncated);
+  if (lines.length === 0) {
+    return "contains no records";
+  }
+
+  const invalidIndex = lines.findIndex((line) => {
+    try {
+      const record: unknown = JSON.parse(line);
+      return record === null || typeof record !== "object";
+    } catch {
+      return true;
+    }
+  });
+
+  return invalidIndex < 0 ? null : `line ${invalidIndex + 1} is not a JSON object`;
+};
+
+const inspectJson = (text: string, truncated: boolean) => {
+  const trimmed = text.trimStart();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) {
+    return "is not a JSON document";
+  }
+
+  if (!truncated) {
+    try {
+      JSON.parse(trimmed);
+    } catch {
+      return "is not valid JSON";
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Checks that an uploaded dataset's bytes match what its extension claims,
+ * by reading container signatures and the first rows of text formats.
+ * Returns a description of the problem, or null when the file looks usable.
+ */
+export const inspectDatasetFile = async (
+  file: File,
+  extension: string,
+  format: TrainingDatasetFormat
+): Promise<string | null> => {
+  if (file.size === 0) {
+    return "is empty";
+  }
+
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  const truncated = file.size > SNIFF_BYTES;
+
+  switch (extension) {
+    case "zip":
+    case "npz":
+      if (startsWith(head, EMPTY_ZIP_SIGNATURE)) {
+        return "is an empty archive";
+      }
+      return isZipArchive(head) ? null : "is not a ZIP archive";
+    case "gz":
+    case "tgz":
+      return startsWith(head, GZIP_SIGNATURE) ? null : "is not gzip-compressed";
+    case "tar":
+      return startsWith(head, ascii("ustar"), 257) ? null : "is not a tar archive";
+    case "npy":
+      return startsWith(head, NPY_SIGNATURE) ? null : "is not a NumPy .npy array";
+    case "parquet": {
+      const tail = new Uint8Array(await file.slice(Math.max(0, file.size - 4)).arrayBuffer());
+      return startsWith(head, PARQUET_SIGNATURE) && startsWith(tail, PARQUET_SIGNATURE)
+        ? null
+        : "is not a complete Parquet file";
+    }
+    case "wav":
+      return startsWith(head, ascii("RIFF")) && startsWith(head, ascii("WAVE"), 8) ? null : "is not a WAV file";
+    case "flac":
+      return startsWith(head, ascii("fLaC")) ? null : "is not a FLAC file";
+    case "tfrecord":
+      // Records are length-prefixed with no magic; a record header is 12 bytes.
+      return file.size >= 16 ? null : "is too small to hold a TFRecord";
+  }
+
+  const text = decodeText(head, truncated);
+  if (text === null) {
+    return "is not UTF-8 text";
+  }
+
+  switch (extension) {
+    case "csv":
+      return inspectDelimited(text, truncated, ",", format === "tabular");
+    case "tsv":
+      return inspectDelimited(text, truncated, "\t", format === "tabular");
+    case "jsonl":
+      return inspectJsonLines(text, truncated);
+    case "json":
+      return inspectJson(text, truncated);
+    default:
+      return text.trim().length > 0 ? null : "contains only whitespace";
+  }
+};
@@ -0,0 +1,130 @@
+import type { OnnxTensorMetadata } from "../../../shared/services/DesktopBridge";
+import type { NpyArray } from "../../../shared/utils/npy";
+import { resolveImageLayout, resolveNpyDataType } from "./tensorSpec";
+
+export type ImageNormalization = "unit" | "imagenet" | "raw";
+
+export const AUDIO_SAMPLE_RATES = [16000, 22050, 44100, 48000] as const;
+
+const DEFAULT_IMAGE_SIZE = 224;
+const DEFAULT_AUDIO_SECONDS = 10;
+const IMAGENET_MEAN = [0.485, 0.456, 0.406];
+const IMAGENET_STD = [0.229, 0.224, 0.225];
+
+const fixedDim = (dim: unknown, fallback: number) =>
+  typeof dim === "number" && dim > 0 ? dim : fallback;
+
+/**
+ * Decodes an image, resizes it to the input's height and width (224 for
+ * symbolic sizes) and lays the pixels out as NCHW or NHWC to match the model.
+ */
+export const imageFileToTensor = async (
+  file: File,
+  spec: OnnxTensorMetadata,
+  normalization: ImageNormalization
+): Promise<NpyArray> => {
+  const shape = spec.shape ?? [1, 3, null, null];
+  const layout = resolveImageLayout(shape) ?? "chw";
+  const offset = shape.length - 3;
+  const [channelIndex, heightIndex, widthIndex] =
+    layout === "chw"
+      ? [offset, offset + 1, offset + 2]
+      : [offset + 2, offset, offset + 1];
+  const channels = fixedDim(shape[channelIndex], 3);
+  const height = fixedDim(shape[heightIndex], DEFAULT_IMAGE_SIZE);
+  const width = fixedDim(shape[widthIndex], DEFAULT_IMAGE_SIZE);
+  const dataType = resolveNpyDataType(spec.elementType) ?? "float32";
+
+  const bitmap = await createImageBitmap(file);
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext("2d");
+  if (!context) {
+    bitmap.close();
+    throw new Error("Unable to decode the image in this browser.");
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const { data: pixels } = context.getImageData(0, 0, width, height);
+
+  const plane = width * height;
+  const data =
+    dataType === "uint8"
+      ? new Uint8Array(plane * channels)
+      : new Float32Array(plane * channels);
+
+  for (let pixel = 0; pixel < plane; pixel += 1) {
+    const red = pixels[pixel * 4];
+    const green = pixels[pixel * 4 + 1];
+    const blue = pixels[pixel * 4 + 2];
+    const rgb =
+      channels === 1
+        ? [0.299 * red + 0.587 * green + 0.114 * blue]
+        : [red, green, blue];
+
+    for (let channel = 0; channel < channels; channel += 1) {
+      let value = rgb[channel];
+      if (dataType !== "uint8" && normalization !== "raw") {
+        value /= 255;
+        if (normalization === "imagenet" && channels === 3) {
+          value = (value - IMAGENET_MEAN[channel]) / IMAGENET_STD[channel];
+        }
+      }
+
+      const index =
+        layout === "chw"
+          ? channel * plane + pixel
+          : pixel * channels + channel;
+      data[index] = value;
+    }
+  }
+
+  const outputShape =
+    layout === "chw" ? [channels, height, width] : [height, width, channels];
+  return {
+    dataType: dataType === "uint8" ? "uint8" : "float32",
+    shape: offset === 1 ? [1, ...outputShape] : outputShape,
+    data,
+  };
+};
+
+/**
+ * Decodes audio, mixes it down to mono at `sampleRate` and pads or trims it
+ * to the input's fixed length (ten seconds when the length is symbolic). The
+ * waveform is prefixed with as many unit dims as the input's rank requires.
+ */
+export const audioFileToTensor = async (
+  file: File,
+  spec: OnnxTensorMetadata,
+  sampleRate: number
+): Promise<NpyArray> => {
+  const shape = spec.shape ?? [1, null];
+  const rank = Math.max(shape.length, 1);
+  const length = fixedDim(shape[rank - 1], sampleRate * DEFAULT_AUDIO_SECONDS);
+
+  const decoded = await new OfflineAudioContext(1, 1, sampleRate)
+    .decodeAudioData(await file.arrayBuffer())
+    .catch(() => {
+      throw new Error("Unable to decode the audio file in this browser.");
+    });
+
+  // Rendering through a mono context resamples and downmixes in one pass.
+  const context = new OfflineAudioContext(
+    1,
+    Math.max(1, Math.ceil(decoded.duration * sampleRate)),
+    sampleRate
+  );
+  const source = context.createBufferSource();
+  source.buffer = decoded;
+  source.connect(context.destination);
+  source.start();
+  const rendered = await context.startRendering();
+
+  const data = new Float32Array(length);
+  data.set(rendered.getChannelData(0).subarray(0, length));
+
+  return {
+    dataType: "float32",
+    shape: [...Array.from({ length: rank - 1 }, () => 1), length],
+    data,
+  };
+};
@@ -0,0 +1,271 @@
+import type { TrainingDatasetFormat } from "../api";
+import type { OnnxTensorMetadata } from "../../../shared/services/DesktopBridge";
+import type { TensorEditorKind } from "../components/TensorBindingEditor";
+import { inspectDatasetFile } from "./datasetInspection";
+
+export type PayloadKind = "json" | "text" | "binary";
+
+export type InferenceBinding = {
+  id: string;
+  tensorName: string;
+  /** Tensor kinds are built in the browser and uploaded as `.npy` blobs. */
+  payloadType: PayloadKind | TensorEditorKind;
+  textPayload: string;
+  fileName: string | null;
+  file: File | null;
+  /** Blob of a previous run, submitted again when no new file is attached. */
+  existingFileUrl: string | null;
+  maxLength: number;
+  /** Declared type and shape, when the model was parsed on this device. */
+  spec: OnnxTensorMetadata | null;
+  editorError: string | null;
+};
+
+export type OutputBinding = {
+  id: string;
+  tensorName: string;
+  payloadType: PayloadKind;
+  fileFormat?: string;
+};
+
+export type DatasetConfig = {
+  sourceType: "upload" | "url";
+  url: string;
+  fileName: string | null;
+  file: File | null;
+  format: TrainingDatasetFormat;
+};
+
+export type TrainHyperparameters = {
+  epochs: number;
+  batchSize: number;
+  learningRate: string;
+};
+
+export const datasetFormatOptions: Array<{
+  value: DatasetConfig["format"];
+  label: string;
+}> = [
+  { value: "vision", label: "Vision tensors" },
+  { value: "audio", label: "Audio waveforms" },
+  { value: "text", label: "Text / token sequences" },
+  { value: "tabular", label: "Tabular / CSV" },
+];
+
+// Archives are accepted for every format since providers unpack them before
+// the first epoch; the remaining extensions are what each loader can stream.
+const datasetFormatExtensions: Record<DatasetConfig["format"], string[]> = {
+  vision: ["zip", "tar", "tgz", "gz", "npy", "npz", "parquet", "tfrecord"],
+  audio: ["zip", "tar", "tgz", "gz", "wav", "flac", "npz", "parquet"],
+  text: ["zip", "tar", "tgz", "gz", "txt", "json", "jsonl", "csv", "parquet"],
+  tabular: ["zip", "gz", "csv", "tsv", "jsonl", "parquet"],
+};
+
+export const datasetAcceptAttribute = (format: DatasetConfig["format"]) =>
+  datasetFormatExtensions[format].map((extension) => `.${extension}`).join(",");
+
+export const datasetFormatLabel = (format: DatasetConfig["format"]) =>
+  datasetFormatOptions.find((option) => option.value === format)?.label ??
+  format;
+
+export const describeAcceptedDatasetFiles = (format: DatasetConfig["format"]) =>
+  `Accepts ${datasetFormatExtensions[format]
+    .map((extension) => `.${extension}`)
+    .join(", ")} for ${datasetFormatLabel(format).toLowerCase()}.`;
+
+export const describeDatasetSource = (dataset: DatasetConfig) =>
+  dataset.sourceType === "upload"
+    ? dataset.file
+      ? `${dataset.file.name} (${formatMegabytes(dataset.file.size)})`
+      : "Not provided"
+    : dataset.url.trim() || "Not provided";
+
+export const getFileExtension = (fileName: string): string => {
+  const trimmed = fileName?.trim() ?? "";
+  if (!trimmed) {
+    return "";
+  }
+
+  const lastDotIndex = trimmed.lastIndexOf(".");
+  if (lastDotIndex < 0 || lastDotIndex === trimmed.length - 1) {
+    return "";
+  }
+
+  return trimmed.slice(lastDotIndex + 1).toLowerCase();
+};
+
+export type FileUploadProgress = {
+  label: string;
+  uploadedBytes: number;
+  totalBytes: number;
+  resumed: boolean;
+};
+
+export const formatMegabytes = (bytes: number) =>
+  `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const createInferenceBinding = (): InferenceBinding => ({
+  id: `binding-${Math.random().toString(36).slice(2, 10)}`,
+  tensorName: "",
+  payloadType: "json",
+  textPayload: "",
+  fileName: null,
+  file: null,
+  existingFileUrl: null,
+  maxLength: 512,
+  spec: null,
+  editorError: null,
+});
+
+export const inputPayloadOptions: Array<{
+  value: InferenceBinding["payloadType"];
+  label: string;
+}> = [
+  { value: "json", label: "JSON tensor" },
+  { value: "text", label: "Plain text" },
+  { value: "binary", label: "Binary upload" },
+  { value: "tensor", label: "Numeric tensor" },
+  { value: "image", label: "Image" },
+  { value: "audio", label: "Audio" },
+];
+
+export const isTensorEditorKind = (
+  payloadType: InferenceBinding["payloadType"]
+): payloadType is TensorEditorKind =>
+  payloadType === "tensor" ||
+  payloadType === "image" ||
+  payloadType === "audio";
+
+export const createOutputBinding = (): OutputBinding => ({
+  id: `output-${Math.random().toString(36).slice(2, 10)}`,
+  tensorName: "",
+  payloadType: "json",
+  fileFormat: "npz",
+});
+
+export const createDatasetConfig = (): DatasetConfig => ({
+  sourceType: "upload",
+  url: "",
+  fileName: null,
+  file: null,
+  format: "text",
+});
+
+export const createTrainHyperparameters = (): TrainHyperparameters => ({
+  epochs: 3,
+  batchSize: 32,
+  learningRate: "",
+});
+
+export const isDatasetProvided = (dataset: DatasetConfig) =>
+  dataset.sourceType === "upload"
+    ? dataset.file !== null
+    : dataset.url.trim().length > 0;
+
+export const validateDataset = (
+  dataset: DatasetConfig,
+  label: string
+): string | null => {
+  const allowed = datasetFormatExtensions[dataset.format];
+  const formatLabel = datasetFormatLabel(dataset.format);
+
+  if (dataset.sourceType === "upload") {
+    if (!dataset.file) {
+      return `Please attach the ${label} before proceeding.`;
+    }
+
+    const extension = getFileExtension(dataset.file.name);
+    if (!allowed.includes(extension)) {
+      return `The ${label} "${dataset.file.name}" is not a supported ${formatLabel} file. Expected one of: ${allowed.map((item) => `.${item}`).join(", ")}.`;
+    }
+
+    return null;
+  }
+
+  const rawUrl = dataset.url.trim();
+  if (!rawUrl) {
+    return `Please provide a URL for the ${label}.`;
+  }
+
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(rawUrl);
+  } catch {
+    return `The ${label} URL is not a valid URL.`;
+  }
+
+  if (parsedUrl.protocol !== "https:" && parsedUrl.protocol !== "http:") {
+    return `The ${label} URL must use http or https so providers can download it.`;
+  }
+
+  // Signed URIs and manifests without an extension are passed through as-is.
+  const extension = getFileExtension(parsedUrl.pathname.split("/").pop() ?? "");
+  if (extension && !allowed.includes(extension)) {
+    return `The ${label} URL points to a .${extension} file, which is not a supported ${formatLabel} format.`;
+  }
+
+  return null;
+};
+
+// Extension checks pass renamed or truncated files; uploads are also checked
+// by content before anything is sent. URL datasets are checked server-side.
+const inspectUploadedDataset = async (
+  dataset: DatasetConfig,
+  label: string
+): Promise<string | null> => {
+  if (dataset.sourceType !== "upload" || !dataset.file) {
+    return null;
+  }
+
+  const problem = await inspectDatasetFile(
+    dataset.file,
+    getFileExtension(dataset.file.name),
+    dataset.format
+  );
+  return problem ? `The ${label} "${dataset.file.name}" ${problem}.` : null;
+};
+
+export const inspectTrainingDatasets = async (
+  trainingDataset: DatasetConfig,
+  validationDataset: DatasetConfig
+) =>
+  (await inspectUploadedDataset(trainingDataset, "training dataset")) ??
+  (isDatasetProvided(validationDataset)
+    ? await inspectUploadedDataset(validationDataset, "validation dataset")
+    : null);
+
+export const parseLearningRate = (value: string): number | null => {
+  const trimmed = value.trim();
+  return trimmed ? Number(trimmed) : null;
+};
+
+export const validateHyperparameters = (
+  hyperparameters: TrainHyperparameters
+): string | null => {
+  if (!Number.isInteger(hyperparameters.epochs) || hyperparameters.epochs < 1) {
+    return "Epochs must be a positive whole number.";
+  }
+
+  if (
+    !Number.isInteger(hyperparameters.batchSize) ||
+    hyperparameters.batchSize < 1
+  ) {
+    return "Batch size must be a positive whole number.";
+  }
+
+  const learningRate = parseLearningRate(hyperparameters.learningRate);
+  if (
+    learningRate !== null &&
+    (!Number.isFinite(learningRate) || learningRate <= 0)
+  ) {
+    return "Learning rate must be a positive number, e.g. 3e-5.";
+  }
+
+  return null;
+};
+
+export type InferenceBindingFieldChange = <Field extends keyof InferenceBinding>(
+  id: string,
+  field: Field,
+  value: InferenceBinding[Field]
+) => void;
@@ -0,0 +1,387 @@
+import {
+  parseNpy,
+  parseNpz,
+  type NpyArray,
+} from "../../../shared/utils/npy";
+import { isZip } from "../../../shared/utils/zip";
+import type { OutputArtifactDto } from "../types";
+import { resolveBlobFileName } from "./taskDraft";
+
+export interface NamedTensor {
+  name: string;
+  array: NpyArray;
+}
+
+export type OutputArtifactContent =
+  | { kind: "tensors"; tensors: NamedTensor[] }
+  | { kind: "json"; value: unknown }
+  | { kind: "text"; text: string };
+
+export interface TensorSummary {
+  count: number;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  std: number | null;
+  nonFinite: number;
+}
+
+export interface TensorImageView {
+  width: number;
+  height: number;
+  channels: number;
+  layout: "chw" | "hwc";
+  /** Number of images along the leading (batch) dimension. */
+  count: number;
+}
+
+const NPY_MAGIC_BYTE = 0x93;
+const MIN_IMAGE_SIZE = 8;
+const MAX_TOKEN_IDS = 4096;
+
+const INTEGER_DATA_TYPES = new Set<NpyArray["dataType"]>([
+  "int8",
+  "uint8",
+  "int16",
+  "uint16",
+  "int32",
+  "uint32",
+  "int64",
+]);
+
+const resolveArtifactFormat = (artifact: OutputArtifactDto) => {
+  const fromFormat = artifact.fileFormat?.toLowerCase().replace(/^\./, "");
+  if (fromFormat) {
+    return fromFormat;
+  }
+  if (artifact.fileUrl) {
+    const fileName = resolveBlobFileName(artifact.fileUrl);
+    const extension = fileName.includes(".")
+      ? fileName.split(".").pop()?.toLowerCase()
+      : undefined;
+    if (extension) {
+      return extension;
+    }
+  }
+  return artifact.payloadType.toLowerCase();
+};
+
+const decodeText = (buffer: ArrayBuffer) => new TextDecoder().decode(buffer);
+
+const parseJsonOrText = (text: string): OutputArtifactContent => {
+  try {
+    return { kind: "json", value: JSON.parse(text) };
+  } catch {
+    return { kind: "text", text };
+  }
+};
+
+/**
+ * Loads an output artifact, either inline or from its blob, and decodes it.
+ * The content is sniffed so mislabelled artifacts (e.g. a `.bin` that is
+ * really an `.npy`) still render as tensors.
+ */
+export const loadOutputArtifact = async (
+  artifact: OutputArtifactDto,
+  signal?: AbortSignal
+): Promise<OutputArtifactContent> => {
+  if (!artifact.fileUrl) {
+    const payload = artifact.payload ?? "";
+    return artifact.payloadType === "Text"
+      ? { kind: "text", text: payload }
+      : parseJsonOrText(payload);
+  }
+
+  const response = await fetch(artifact.fileUrl, { signal });
+  if (!response.ok) {
+    throw new Error(`Unable to download the artifact (${response.status}).`);
+  }
+  const buffer = await response.arrayBuffer();
+  const format = resolveArtifactFormat(artifact);
+
+  if (isZip(buffer)) {
+    const tensors = await parseNpz(buffer);
+    if (tensors.length === 0) {
+      throw new Error("The archive does not contain any .npy arrays.");
+    }
+    return { kind: "tensors", tensors };
+  }
+
+  if (new Uint8Array(buffer)[0] === NPY_MAGIC_BYTE) {
+    return {
+      kind: "tensors",
+      tensors: [{ name: artifact.tensorName, array: parseNpy(buffer) }],
+    };
+  }
+
+  const text = decodeText(buffer);
+  return format === "txt" || format === "text"
+    ? { kind: "text", text }
+    : parseJsonOrText(text);
+};
+
+export const tensorValueAt = (array: NpyArray, index: number): number => {
+  const value = array.data[index];
+  return typeof value === "bigint" ? Number(value) : value;
+};
+
+export const summarizeTensor = (array: NpyArray): TensorSummary => {
+  let count = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let mean = 0;
+  let m2 = 0;
+  let nonFinite = 0;
+
+  for (let index = 0; index < array.data.length; index += 1) {
+    const value = tensorValueAt(array, index);
+    if (!Number.isFinite(value)) {
+      nonFinite += 1;
+      continue;
+    }
+
+    // Welford's algorithm keeps the variance stable for large tensors.
+    count += 1;
+    const delta = value - mean;
+    mean += delta / count;
+    m2 += delta * (value - mean);
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+
+  return count === 0
+    ? { count, min: null, max: null, mean: null, std: null, nonFinite }
+    : { count, min, max, mean, std: Math.sqrt(m2 / count), nonFinite };
+};
+
+/** Multi-dimensional index of a flat, C-ordered position, e.g. `[0, 2, 5]`. */
+export const formatTensorIndex = (flatIndex: number, shape: number[]) => {
+  if (shape.length === 0) {
+    return "[]";
+  }
+
+  const indices = new Array<number>(shape.length);
+  let remainder = flatIndex;
+  for (let axis = shape.length - 1; axis >= 0; axis -= 1) {
+    const size = Math.max(shape[axis], 1);
+    indices[axis] = remainder % size;
+    remainder = Math.floor(remainder / size);
+  }
+  return `[${indices.join(", ")}]`;
+};
+
+export const formatTensorNumber = (value: number) =>
+  !Number.isFinite(value)
+    ? String(value)
+    : Math.abs(value) >= 1e5 || (value !== 0 && Math.abs(value) < 1e-4)
+    ? value.toExponential(4)
+    : Number(value.toFixed(6)).toString();
+
+export const formatTensorValue = (array: NpyArray, value: number) => {
+  if (array.dataType === "bool") {
+    return value ? "true" : "false";
+  }
+  return INTEGER_DATA_TYPES.has(array.dataType)
+    ? String(value)
+    : formatTensorNumber(value);
+};
+
+const isChannelCount = (size: number) =>
+  size === 1 || size === 3 || size === 4;
+
+/**
+ * Recognizes image-shaped tensors: `[H,W]`, `[C,H,W]`, `[H,W,C]` and their
+ * batched `[N,…]` forms with one, three or four channels.
+ */
+export const resolveTensorImageView = (
+  array: NpyArray
+): TensorImageView | null => {
+  const { shape } = array;
+  if (array.dataType === "bool" || shape.length < 2 || shape.length > 4) {
+    return null;
+  }
+
+  const isImageSize = (height: number, width: number) =>
+    height >= MIN_IMAGE_SIZE && width >= MIN_IMAGE_SIZE;
+
+  if (shape.length === 2) {
+    const [height, width] = shape;
+    return isImageSize(height, width)
+      ? { width, height, channels: 1, layout: "hwc", count: 1 }
+      : null;
+  }
+
+  const count = shape.length === 4 ? shape[0] : 1;
+  const [first, second, third] = shape.slice(-3);
+
+  if (isChannelCount(first) && isImageSize(second, third)) {
+    return {
+      width: third,
+      height: second,
+      channels: first,
+      layout: "chw",
+      count,
+    };
+  }
+  if (isChannelCount(third) && isImageSize(first, second)) {
+    return {
+      width: second,
+      height: first,
+      channels: third,
+      layout: "hwc",
+      count,
+    };
+  }
+  return null;
+};
+
+/**
+ * Renders one image of the batch as RGBA pixels. Values in [0, 1] are
+ * scaled, values in [0, 255] are used as is and anything else (e.g.
+ * mean/std-normalized output) is min-max stretched.
+ */
+export const tensorToImageData = (
+  array: NpyArray,
+  view: TensorImageView,
+  imageIndex = 0
+): ImageData => {
+  const { width, height, channels, layout } = view;
+  const plane = width * height;
+  const start = imageIndex * plane * channels;
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let index = start; index < start + plane * channels; index += 1) {
+    const value = tensorValueAt(array, index);
+    if (Number.isFinite(value)) {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+  }
+
+  const scale =
+    min >= 0 && max <= 1
+      ? (value: number) => value * 255
+      : min >= 0 && max <= 255
+      ? (value: number) => value
+      : (value: number) =>
+          max > min ? ((value - min) / (max - min)) * 255 : 0;
+
+  const pixels = new Uint8ClampedArray(plane * 4);
+  for (let pixel = 0; pixel < plane; pixel += 1) {
+    const channelValue = (channel: number) =>
+      scale(
+        tensorValueAt(
+          array,
+          layout === "chw"
+            ? start + channel * plane + pixel
+            : start + pixel * channels + channel
+        )
+      );
+
+    const red = channelValue(0);
+    pixels[pixel * 4] = red;
+    pixels[pixel * 4 + 1] = channels >= 3 ? channelValue(1) : red;
+    pixels[pixel * 4 + 2] = channels >= 3 ? channelValue(2) : red;
+    pixels[pixel * 4 + 3] = channels === 4 ? channelValue(3) : 255;
+  }
+
+  return new ImageData(pixels, width, height);
+};
+
+/** Integer tensors of rank one or two are treated as token ID sequences. */
+export const isTokenIdTensor = (array: NpyArray) =>
+  INTEGER_DATA_TYPES.has(array.dataType) &&
+  array.shape.length >= 1 &&
+  array.shape.length <= 2 &&
+  array.data.length > 0 &&
+  array.data.length <= MAX_TOKEN_IDS;
+
+/**
+ * Reads a vocabulary as a token-by-id map. Accepts a Hugging Face
+ * `tokenizer.json` or `vocab.json` (`{ token: id }`) and a plain
+ * `vocab.txt` with one token per line, where the line number is the id.
+ */
+export const parseVocabulary = (text: string): Map<number, string> => {
+  const vocabulary = new Map<number, string>();
+
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    text.split(/\r?\n/).forEach((token, id) => {
+      if (token.length > 0) {
+        vocabulary.set(id, token);
+      }
+    });
+    return vocabulary;
+  }
+
+  const tokenizerVocab = (parsed as { model?: { vocab?: unknown } } | null)
+    ?.model?.vocab;
+  const source = tokenizerVocab ?? parsed;
+
+  if (Array.isArray(source)) {
+    // Unigram tokenizers list `[token, score]` pairs in id order.
+    source.forEach((entry, id) => {
+      const token = Array.isArray(entry) ? entry[0] : entry;
+      if (typeof token === "string") {
+        vocabulary.set(id, token);
+      }
+    });
+  } else if (source && typeof source === "object") {
+    Object.entries(source as Record<string, unknown>).forEach(
+      ([token, id]) => {
+        if (typeof id === "number") {
+          vocabulary.set(id, token);
+        }
+      }
+    );
+  }
+
+  if (vocabulary.size === 0) {
+    throw new Error("The vocabulary file does not map any tokens to ids.");
+  }
+  return vocabulary;
+};
+
+/**
+ * Turns a row of token ids back into text. Byte-level BPE (`Ġ`) and
+ * SentencePiece (`▁`) mark the start of a word, WordPiece marks
+ * continuations (`##`), so spacing depends on which markers are present.
+ */
+export const decodeTokenIds = (
+  ids: number[],
+  vocabulary: Map<number, string>
+) => {
+  const tokens = ids.map((id) => vocabulary.get(id) ?? `[${id}]`);
+  const marksWordStart = tokens.some(
+    (token) => token.startsWith("Ġ") || token.startsWith("▁")
+  );
+
+  return tokens
+    .map((token) => {
+      if (marksWordStart) {
+        return token.startsWith("Ġ") || token.startsWith("▁")
+          ? ` ${token.slice(1)}`
+          : token.replace(/Ċ/g, "\n");
+      }
+      return token.startsWith("##") ? token.slice(2) : ` ${token}`;
+    })
+    .join("")
+    .trim();
+};
+
+/** Splits a token id tensor into sequences along its last axis. */
+export const tokenIdRows = (array: NpyArray): number[][] => {
+  const rowLength = array.shape.at(-1) ?? array.data.length;
+  const rows: number[][] = [];
+  for (let start = 0; start < array.data.length; start += rowLength) {
+    rows.push(
+      Array.from({ length: rowLength }, (_, offset) =>
+        tensorValueAt(array, start + offset)
+      )
+    );
+  }
+  return rows;
+};
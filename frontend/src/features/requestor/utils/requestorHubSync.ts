@@ -0,0 +1,128 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { TaskHubConnection } from "../../../shared/services/TaskHubConnection";
+import { invalidateMyTasksQueryKey } from "../queries/useMyTasksQuery";
+import { taskSubtasksQueryKey } from "../queries/useTaskSubtasksQuery";
+import type { RequestorTaskDto, SubtaskDto, SubtaskStatus } from "../types";
+import type { RequestorTaskHubUpdate } from "./taskMapper";
+
+const patchSubtaskStatus = (
+  current: SubtaskDto[] | undefined,
+  subtaskId: string,
+  status: SubtaskStatus,
+  timestamps: Partial<Pick<SubtaskDto, "assignedAtUtc" | "completedAtUtc" | "failedAtUtc">> = {}
+) => {
+  if (!current || !current.some((entry) => entry.id === subtaskId)) {
+    return current;
+  }
+
+  return current.map((entry) =>
+    entry.id === subtaskId ? { ...entry, status, ...timestamps } : entry
+  );
+};
+
+/**
+ * Wires task hub events into the requestor query caches. Task-level updates
+ * arrive on the user group; subtask events only arrive for tasks joined via
+ * `TaskHubConnection.joinTask`.
+ */
+export const registerRequestorHubSync = (queryClient: QueryClient): (() => void) => {
+  const applyTaskUpdate = (update: RequestorTaskHubUpdate) => {
+    let found = false;
+
+    queryClient.setQueriesData<RequestorTaskDto[]>(
+      { queryKey: invalidateMyTasksQueryKey },
+      (current) => {
+        if (!current) {
+          return current;
+        }
+
+        return current.map((task) => {
+          if (task.id !== update.id) {
+            return task;
+          }
+
+          found = true;
+          return { ...task, ...update };
+        });
+      }
+    );
+
+    // The hub only ships a trimmed DTO, so unknown tasks (e.g. submitted from
+    // another device or through the public API) are fetched in full.
+    if (!found) {
+      void queryClient.invalidateQueries({ queryKey: invalidateMyTasksQueryKey });
+    }
+  };
+
+  const applyTerminalTaskUpdate = (update: RequestorTaskHubUpdate) => {
+    applyTaskUpdate(update);
+    // Durations, costs and artifacts are only computed by the REST endpoints.
+    void queryClient.invalidateQueries({ queryKey: invalidateMyTasksQueryKey });
+    void queryClient.invalidateQueries({ queryKey: taskSubtasksQueryKey(update.id) });
+  };
+
+  const unsubscribers = [
+    TaskHubConnection.on("TaskUpdated", applyTaskUpdate),
+    TaskHubConnection.on("TaskCompleted", applyTerminalTaskUpdate),
+    TaskHubConnection.on("TaskFailed", applyTerminalTaskUpdate),
+
+    TaskHubConnection.on("OnSubtaskAccepted", (payload) => {
+      const taskId = payload.Subtask?.taskId;
+      if (!taskId) {
+        return;
+      }
+
+      queryClient.setQueryData<SubtaskDto[]>(taskSubtasksQueryKey(taskId), (current) =>
+        patchSubtaskStatus(current, payload.SubtaskId, "Assigned", {
+          assignedAtUtc: payload.AssignedAtUtc,
+        })
+      );
+    }),
+
+    TaskHubConnection.on("OnProgressUpdate", (payload) => {
+      const taskId = payload.Subtask?.taskId;
+      if (!taskId) {
+        return;
+      }
+
+      queryClient.setQueryData<SubtaskDto[]>(taskSubtasksQueryKey(taskId), (current) =>
+        patchSubtaskStatus(current, payload.SubtaskId, "Executing")
+      );
+    }),
+
+    TaskHubConnection.on("OnComplete", (payload) => {
+      const taskId = payload.Subtask?.taskId;
+      if (!taskId) {
+        return;
+      }
+
+      queryClient.setQueryData<SubtaskDto[]>(taskSubtasksQueryKey(taskId), (current) =>
+        patchSubtaskStatus(current, payload.SubtaskId, "Completed", {
+          completedAtUtc: payload.CompletedAtUtc,
+        })
+      );
+      void queryClient.invalidateQueries({ queryKey: taskSubtasksQueryKey(taskId) });
+    }),
+
+    TaskHubConnection.on("OnFailure", (payload) => {
+      const taskId = payload.Subtask?.taskId;
+      if (!taskId) {
+        return;
+      }
+
+      queryClient.setQueryData<SubtaskDto[]>(taskSubtasksQueryKey(taskId), (current) =>
+        patchSubtaskStatus(
+          current,
+          payload.SubtaskId,
+          payload.WasReassigned ? "Pending" : "Failed",
+          { failedAtUtc: payload.FailedAtUtc ?? null }
+        )
+      );
+      void queryClient.invalidateQueries({ queryKey: taskSubtasksQueryKey(taskId) });
+    }),
+  ];
+
+  return () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  };
+};
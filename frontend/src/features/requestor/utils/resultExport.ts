@@ -0,0 +1,365 @@
+import { createZip, type ZipEntry } from "../../../shared/utils/zip";
+import { getTaskSubtasks } from "../api";
+import type { RequestorTaskDto, SubtaskDto } from "../types";
+import { resolveBlobFileName } from "./taskDraft";
+
+export type ResultDownloadStatus =
+  | "pending"
+  | "downloading"
+  | "done"
+  | "failed";
+
+export interface ResultDownloadItem {
+  /** Stable across link refreshes: `<subtask>:<bundle|output>:<tensor>`. */
+  key: string;
+  taskId: string;
+  subtaskId: string;
+  kind: "bundle" | "output";
+  tensorName: string | null;
+  url: string;
+  /** Location inside the export archive. */
+  path: string;
+  status: ResultDownloadStatus;
+  attempts: number;
+  bytes: number | null;
+  error: string | null;
+}
+
+export interface ResultExportTask {
+  task: RequestorTaskDto;
+  label: string;
+}
+
+export interface ResultExportOptions {
+  tasks: ResultExportTask[];
+  signal?: AbortSignal;
+  concurrency?: number;
+  maxAttempts?: number;
+  /** Called once the download list is known, then on every item change. */
+  onItemsChange: (items: ResultDownloadItem[]) => void;
+}
+
+export interface ResultExportResult {
+  archive: Blob;
+  fileName: string;
+  items: ResultDownloadItem[];
+}
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const MANIFEST_VERSION = 1;
+
+class ExpiredLinkError extends Error {}
+
+const sanitizePathSegment = (value: string) =>
+  value.replace(/[^\w.-]+/g, "_").replace(/^\.+/, "_") || "_";
+
+/** SAS query strings are credentials; the manifest only keeps blob paths. */
+const stripSasToken = (url: string | null | undefined) =>
+  url ? url.split("?")[0] : null;
+
+/** A SAS link carries its expiry in the `se` parameter. */
+const isSasExpired = (url: string) => {
+  try {
+    const expiry = new URL(url).searchParams.get("se");
+    return expiry !== null && new Date(expiry).getTime() <= Date.now();
+  } catch {
+    return false;
+  }
+};
+
+const resolveExtension = (url: string, fallback?: string | null) => {
+  const fileName = resolveBlobFileName(url);
+  const dotIndex = fileName.lastIndexOf(".");
+  return dotIndex > 0
+    ? fileName.slice(dotIndex + 1).toLowerCase()
+    : fallback?.replace(/^\./, "") || "bin";
+};
+
+const itemKey = (
+  subtaskId: string,
+  kind: ResultDownloadItem["kind"],
+  tensorName: string | null
+) => `${subtaskId}:${kind}:${tensorName ?? ""}`;
+
+const subtaskFolder = (taskId: string, subtaskId: string) =>
+  `${sanitizePathSegment(taskId)}/${sanitizePathSegment(subtaskId)}`;
+
+const collectDownloadUrls = (subtasks: SubtaskDto[]) => {
+  const urls = new Map<string, string>();
+  subtasks.forEach((subtask) => {
+    if (subtask.outputArtifactBundleUri) {
+      urls.set(
+        itemKey(subtask.id, "bundle", null),
+        subtask.outputArtifactBundleUri
+      );
+    }
+    (subtask.outputArtifacts ?? []).forEach((artifact) => {
+      if (artifact.fileUrl) {
+        urls.set(
+          itemKey(subtask.id, "output", artifact.tensorName),
+          artifact.fileUrl
+        );
+      }
+    });
+  });
+  return urls;
+};
+
+const createDownloadItems = (
+  taskId: string,
+  subtasks: SubtaskDto[]
+): ResultDownloadItem[] =>
+  subtasks.flatMap((subtask) => {
+    const folder = subtaskFolder(taskId, subtask.id);
+    const base = {
+      taskId,
+      subtaskId: subtask.id,
+      status: "pending" as const,
+      attempts: 0,
+      bytes: null,
+      error: null,
+    };
+
+    const bundle: ResultDownloadItem[] = subtask.outputArtifactBundleUri
+      ? [
+          {
+            ...base,
+            key: itemKey(subtask.id, "bundle", null),
+            kind: "bundle",
+            tensorName: null,
+            url: subtask.outputArtifactBundleUri,
+            path: `${folder}/bundle.${resolveExtension(
+              subtask.outputArtifactBundleUri,
+              "zip"
+            )}`,
+          },
+        ]
+      : [];
+
+    const outputs = (subtask.outputArtifacts ?? []).flatMap(
+      (artifact): ResultDownloadItem[] =>
+        artifact.fileUrl
+          ? [
+              {
+                ...base,
+                key: itemKey(subtask.id, "output", artifact.tensorName),
+                kind: "output",
+                tensorName: artifact.tensorName,
+                url: artifact.fileUrl,
+                path: `${folder}/outputs/${sanitizePathSegment(
+                  artifact.tensorName
+                )}.${resolveExtension(artifact.fileUrl, artifact.fileFormat)}`,
+              },
+            ]
+          : []
+    );
+
+    return [...bundle, ...outputs];
+  });
+
+const wait = (milliseconds: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, milliseconds);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+
+const downloadBytes = async (url: string, signal?: AbortSignal) => {
+  if (isSasExpired(url)) {
+    throw new ExpiredLinkError("The download link has expired.");
+  }
+
+  const response = await fetch(url, { signal });
+  if (response.status === 401 || response.status === 403) {
+    throw new ExpiredLinkError(
+      `The download link was rejected (${response.status}).`
+    );
+  }
+  if (!response.ok) {
+    throw new Error(`Download failed with status ${response.status}.`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+const buildManifest = (
+  tasks: ResultExportTask[],
+  subtasksByTask: Map<string, SubtaskDto[]>,
+  items: ResultDownloadItem[]
+) => {
+  const itemsByKey = new Map(items.map((item) => [item.key, item]));
+  const describeItem = (key: string) => {
+    const item = itemsByKey.get(key);
+    if (!item) {
+      return null;
+    }
+    return item.status === "done"
+      ? { path: item.path }
+      : { path: null, sourceUrl: stripSasToken(item.url), error: item.error };
+  };
+
+  return {
+    version: MANIFEST_VERSION,
+    exportedAtUtc: new Date().toISOString(),
+    tasks: tasks.map(({ task, label }) => ({
+      taskId: task.id,
+      label,
+      type: task.type,
+      status: task.status,
+      modelUrl: stripSasToken(task.modelUrl),
+      subtasks: (subtasksByTask.get(task.id) ?? []).map((subtask) => ({
+        subtaskId: subtask.id,
+        status: subtask.status,
+        completedAtUtc: subtask.completedAtUtc ?? null,
+        failureReason: subtask.failureReason ?? null,
+        inputs: (subtask.inputArtifacts ?? []).map((input) => ({
+          tensorName: input.tensorName,
+          payloadType: input.payloadType,
+          fileUrl: stripSasToken(input.fileUrl),
+          payload: input.payload ?? null,
+        })),
+        outputs: (subtask.outputArtifacts ?? []).map((output) => ({
+          tensorName: output.tensorName,
+          payloadType: output.payloadType,
+          fileFormat: output.fileFormat ?? null,
+          ...(output.fileUrl
+            ? describeItem(itemKey(subtask.id, "output", output.tensorName))
+            : { payload: output.payload ?? null }),
+        })),
+        bundle: describeItem(itemKey(subtask.id, "bundle", null)),
+      })),
+    })),
+  };
+};
+
+/**
+ * Downloads every output file and bundle of the given tasks into one ZIP
+ * with a `manifest.json` that joins each subtask's inputs to its outputs.
+ * Downloads run a few at a time and are retried with backoff; a rejected
+ * or expired SAS link triggers one refresh of the task's subtasks to pick
+ * up a newly signed URL. Items that still fail are listed in the manifest
+ * instead of aborting the export.
+ */
+export const exportTaskResults = async ({
+  tasks,
+  signal,
+  concurrency = DEFAULT_CONCURRENCY,
+  maxAttempts = DEFAULT_MAX_ATTEMPTS,
+  onItemsChange,
+}: ResultExportOptions): Promise<ResultExportResult> => {
+  const subtasksByTask = new Map<string, SubtaskDto[]>();
+  for (const { task } of tasks) {
+    signal?.throwIfAborted();
+    subtasksByTask.set(task.id, await getTaskSubtasks(task.id));
+  }
+
+  let items = tasks.flatMap(({ task }) =>
+    createDownloadItems(task.id, subtasksByTask.get(task.id) ?? [])
+  );
+  onItemsChange(items);
+
+  const update = (key: string, patch: Partial<ResultDownloadItem>) => {
+    items = items.map((item) =>
+      item.key === key ? { ...item, ...patch } : item
+    );
+    onItemsChange(items);
+  };
+
+  // One refresh per task is shared by every item whose link expired.
+  const refreshes = new Map<string, Promise<Map<string, string>>>();
+  const refreshUrls = (taskId: string) => {
+    let refresh = refreshes.get(taskId);
+    if (!refresh) {
+      refresh = getTaskSubtasks(taskId).then(collectDownloadUrls);
+      refreshes.set(taskId, refresh);
+    }
+    return refresh;
+  };
+
+  const entries = new Map<string, Uint8Array>();
+
+  const downloadItem = async (initial: ResultDownloadItem) => {
+    let url = initial.url;
+    let refreshed = false;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+      update(initial.key, { status: "downloading", attempts: attempt, url });
+      try {
+        const data = await downloadBytes(url, signal);
+        entries.set(initial.path, data);
+        update(initial.key, {
+          status: "done",
+          bytes: data.length,
+          error: null,
+        });
+        return;
+      } catch (error) {
+        signal?.throwIfAborted();
+        const message =
+          error instanceof Error ? error.message : "Download failed.";
+
+        if (error instanceof ExpiredLinkError) {
+          const freshUrl = refreshed
+            ? undefined
+            : (await refreshUrls(initial.taskId).catch(() => null))?.get(
+                initial.key
+              );
+          refreshed = true;
+          if (!freshUrl || freshUrl === url) {
+            update(initial.key, { status: "failed", error: message });
+            return;
+          }
+          url = freshUrl;
+          // The new link is tried without spending a retry on the old one.
+          attempt -= 1;
+          continue;
+        }
+
+        if (attempt === maxAttempts) {
+          update(initial.key, { status: "failed", error: message });
+          return;
+        }
+        await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+      }
+    }
+  };
+
+  const queue = [...items];
+  const worker = async () => {
+    for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+      await downloadItem(item);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, queue.length) }, worker)
+  );
+
+  const manifest = buildManifest(tasks, subtasksByTask, items);
+  const zipEntries: ZipEntry[] = [
+    {
+      name: "manifest.json",
+      data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+    },
+    ...items.flatMap((item) => {
+      const data = entries.get(item.path);
+      return data ? [{ name: item.path, data }] : [];
+    }),
+  ];
+
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  return {
+    archive: createZip(zipEntries),
+    fileName:
+      tasks.length === 1
+        ? `results-${sanitizePathSegment(tasks[0].task.id)}-${stamp}.zip`
+        : `results-${tasks.length}-tasks-${stamp}.zip`,
+    items,
+  };
+};
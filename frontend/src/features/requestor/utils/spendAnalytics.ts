@@ -0,0 +1,50 @@
+import type { LedgerEntry } from "../../provider/api/financeApi";
+import { utcToLocalTime } from "../../../shared/utils/dateTime";
+import { RequestorTaskType, type RequestorTaskDto } from "../types";
+
+/** Debits charged for a task; fees without a task id are left out. */
+export const isSpendEntry = (entry: LedgerEntry) =>
+  entry.kind === "Debit" && entry.taskId !== null;
+
+export const TASK_TYPE_LABELS: Record<RequestorTaskType, string> = {
+  [RequestorTaskType.Train]: "Training",
+  [RequestorTaskType.Inference]: "Inference",
+};
+
+/** Tasks are dated by completion, or by creation while they still run. */
+export const resolveTaskSpendDate = (task: RequestorTaskDto) =>
+  task.completedAt ?? task.createdAt;
+
+export interface TaskTypeSpend {
+  type: RequestorTaskType;
+  spend: number;
+  taskCount: number;
+  completedSubtasks: number;
+}
+
+export const summarizeSpendByTaskType = (
+  tasks: RequestorTaskDto[],
+  sinceMs: number
+): TaskTypeSpend[] => {
+  const byType = new Map<RequestorTaskType, TaskTypeSpend>();
+  tasks
+    .filter(
+      (task) =>
+        typeof task.costUsd === "number" &&
+        utcToLocalTime(resolveTaskSpendDate(task)).getTime() >= sinceMs
+    )
+    .forEach((task) => {
+      const current = byType.get(task.type) ?? {
+        type: task.type,
+        spend: 0,
+        taskCount: 0,
+        completedSubtasks: 0,
+      };
+      current.spend += task.costUsd ?? 0;
+      current.taskCount += 1;
+      current.completedSubtasks += task.completedSubtasksCount;
+      byType.set(task.type, current);
+    });
+
+  return [...byType.values()];
+};
@@ -0,0 +1,50 @@
+import type { BudgetCapAction, TaskBudgetCap, TaskQuote } from "../api";
+
+export interface TaskBudgetDraft {
+  enabled: boolean;
+  /** Raw input, so a half-typed amount is not reformatted under the user. */
+  amount: string;
+  onExceeded: BudgetCapAction;
+}
+
+export const createTaskBudgetDraft = (): TaskBudgetDraft => ({
+  enabled: false,
+  amount: "",
+  onExceeded: "Pause",
+});
+
+export const parseTaskBudgetCap = (
+  draft: TaskBudgetDraft
+): { cap: TaskBudgetCap | null; error: string | null } => {
+  if (!draft.enabled) {
+    return { cap: null, error: null };
+  }
+
+  const amount = Number(draft.amount.trim());
+  if (!draft.amount.trim() || !Number.isFinite(amount) || amount <= 0) {
+    return { cap: null, error: "The budget cap must be a positive amount." };
+  }
+
+  return {
+    cap: {
+      amount: Math.round(amount * 100) / 100,
+      onExceeded: draft.onExceeded,
+    },
+    error: null,
+  };
+};
+
+/**
+ * What the balance has to cover before dispatch: the quote, or the cap when
+ * it is lower, since billing stops there.
+ */
+export const resolveRequiredFunds = (
+  quote: TaskQuote,
+  cap: TaskBudgetCap | null
+) => (cap ? Math.min(cap.amount, quote.estimatedCost) : quote.estimatedCost);
+
+/** Missing funds rounded up to the cent, or 0 when the balance suffices. */
+export const resolveShortfall = (requiredFunds: number, balance: number) =>
+  requiredFunds > balance
+    ? Math.ceil((requiredFunds - balance) * 100) / 100
+    : 0;
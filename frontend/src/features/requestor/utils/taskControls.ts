@@ -0,0 +1,57 @@
+import {
+  RequestorTaskStatus,
+  SubtaskStatus,
+  type RequestorTaskDto,
+  type SubtaskDto,
+} from "../types";
+
+export type TaskControlAction = "cancel" | "pause" | "resume" | "retry";
+
+const RUNNING_TASK_STATUSES: RequestorTaskStatus[] = [
+  RequestorTaskStatus.Pending,
+  RequestorTaskStatus.Assigned,
+  RequestorTaskStatus.InProgress,
+];
+
+const CANCELLABLE_SUBTASK_STATUSES: SubtaskStatus[] = [
+  SubtaskStatus.Pending,
+  SubtaskStatus.Assigned,
+  SubtaskStatus.Executing,
+];
+
+/**
+ * Controls that make sense for the task's current state. Pausing only helps
+ * jobs with several subtasks, since a running subtask always finishes.
+ */
+export const resolveTaskControls = (
+  task: RequestorTaskDto
+): TaskControlAction[] => {
+  const running = RUNNING_TASK_STATUSES.includes(task.status);
+  const paused = task.status === RequestorTaskStatus.Paused;
+  const actions: TaskControlAction[] = [];
+
+  if (running && task.subtasksCount > 1) {
+    actions.push("pause");
+  }
+  if (paused) {
+    actions.push("resume");
+  }
+  if (
+    task.failedSubtasksCount > 0 &&
+    task.status !== RequestorTaskStatus.Cancelled
+  ) {
+    actions.push("retry");
+  }
+  if (running || paused) {
+    actions.push("cancel");
+  }
+
+  return actions;
+};
+
+export const canCancelSubtask = (subtask: SubtaskDto) =>
+  CANCELLABLE_SUBTASK_STATUSES.includes(subtask.status);
+
+/** Retry re-queues failed subtasks that recorded why they failed. */
+export const isRetryableSubtask = (subtask: SubtaskDto) =>
+  subtask.status === SubtaskStatus.Failed && !!subtask.failureReason;
@@ -0,0 +1,76 @@
+import {
+  RequestorTaskType,
+  type RequestorTaskDto,
+} from "../types";
+import type {
+  TaskTemplate,
+  TaskTemplateBinding,
+  TaskTemplateMode,
+  TaskTemplateOutput,
+  TaskTemplateTrainParameters,
+} from "../stores/useTaskTemplateStore";
+
+export interface TaskDraftBinding extends TaskTemplateBinding {
+  /** Input blob of a previous run; reused unless a new file is attached. */
+  fileUrl?: string | null;
+}
+
+/** Prefill for `NewTaskRequestDialog`, built from a template or a past task. */
+export interface TaskDraft {
+  name: string;
+  mode: TaskTemplateMode;
+  modelUrl: string;
+  modelFileName: string;
+  bindings: TaskDraftBinding[];
+  outputs: TaskTemplateOutput[];
+  train?: TaskTemplateTrainParameters | null;
+}
+
+export const resolveBlobFileName = (url: string) => {
+  try {
+    const segments = new URL(url).pathname.split("/").filter(Boolean);
+    return decodeURIComponent(segments.at(-1) ?? "") || "artifact";
+  } catch {
+    return url.split("?")[0].split("/").filter(Boolean).at(-1) ?? "artifact";
+  }
+};
+
+export const taskDraftFromTemplate = (template: TaskTemplate): TaskDraft => ({
+  name: template.name,
+  mode: template.mode,
+  modelUrl: template.modelUrl,
+  modelFileName: template.modelFileName,
+  bindings: template.bindings.map((binding) => ({ ...binding })),
+  outputs: template.outputs.map((output) => ({ ...output })),
+  train: template.train ? { ...template.train } : null,
+});
+
+export const taskDraftFromTask = (
+  task: RequestorTaskDto,
+  name: string
+): TaskDraft => ({
+  name,
+  mode: task.type === RequestorTaskType.Train ? "training" : "inference",
+  modelUrl: task.modelUrl,
+  modelFileName: resolveBlobFileName(task.modelUrl),
+  // The API keeps neither the text padding nor the max length, so a text
+  // input comes back as the binary blob it was uploaded as.
+  bindings: (task.inference?.bindings ?? []).map((binding) => ({
+    tensorName: binding.tensorName,
+    payloadType: binding.payloadType,
+    maxLength: null,
+    fileUrl: binding.fileUrl ?? null,
+  })),
+  outputs: (task.inference?.outputs ?? []).map((output) => ({
+    tensorName: output.tensorName,
+    payloadType: output.payloadType,
+    fileFormat: output.fileFormat ?? null,
+  })),
+  train: task.train
+    ? {
+        epochs: task.train.epochs,
+        batchSize: task.train.batchSize,
+        learningRate: null,
+      }
+    : null,
+});
@@ -0,0 +1,47 @@
+import { parseHubMessage } from "../../../shared/api/hubContracts";
+import type { RequestorTaskDto } from "../types";
+
+export type RequestorTaskHubUpdate = Pick<RequestorTaskDto, "id"> &
+  Partial<
+    Pick<RequestorTaskDto, "type" | "status" | "estimatedCost" | "subtasksCount">
+  >;
+
+/**
+ * Normalizes the trimmed task DTO broadcast by the hub on `TaskUpdated`,
+ * `TaskCompleted` and `TaskFailed`. Only the fields the hub actually sends are
+ * returned so the result can be merged into cached REST payloads.
+ */
+export const mapHubTaskToRequestorTaskUpdate = (
+  input: unknown,
+  eventName = "TaskUpdated"
+): RequestorTaskHubUpdate | null => {
+  const task = parseHubMessage<Partial<RequestorTaskDto>>(
+    eventName,
+    "TaskDto",
+    input,
+    { partial: true }
+  );
+  if (!task?.id) {
+    return null;
+  }
+
+  const update: RequestorTaskHubUpdate = { id: task.id };
+
+  if (task.type !== undefined) {
+    update.type = task.type;
+  }
+
+  if (task.status !== undefined) {
+    update.status = task.status;
+  }
+
+  if (task.estimatedCost !== undefined) {
+    update.estimatedCost = task.estimatedCost;
+  }
+
+  if (task.subtasksCount !== undefined) {
+    update.subtasksCount = task.subtasksCount;
+  }
+
+  return update;
+};
@@ -0,0 +1,317 @@
+import type {
+  OnnxTensorDimension,
+  OnnxTensorMetadata,
+} from "../../../shared/services/DesktopBridge";
+import {
+  encodeNpy,
+  parseNpyHeader,
+  type NpyArray,
+  type NpyDataType,
+  type NpyTypedArray,
+} from "../../../shared/utils/npy";
+
+export type TensorInputKind = "tensor" | "image" | "audio" | "text" | "binary";
+
+export interface TokenizerHints {
+  tokenizer: string | null;
+  maxLength: number | null;
+}
+
+const NPY_DATA_TYPES: Record<string, NpyDataType> = {
+  float32: "float32",
+  float64: "float64",
+  int8: "int8",
+  uint8: "uint8",
+  int16: "int16",
+  uint16: "uint16",
+  int32: "int32",
+  uint32: "uint32",
+  int64: "int64",
+  bool: "bool",
+};
+
+const TOKEN_INPUT_PATTERN =
+  /(input_ids|attention_mask|token_type_ids|position_ids)$/i;
+const AUDIO_INPUT_PATTERN = /(audio|wave|speech|input_values|pcm)/i;
+
+// Files larger than this are not read just to check their header.
+const NPY_HEADER_PROBE_BYTES = 4096;
+
+export const resolveNpyDataType = (
+  elementType: string | null | undefined
+): NpyDataType | null => NPY_DATA_TYPES[elementType ?? ""] ?? null;
+
+export const formatTensorShape = (
+  shape: OnnxTensorDimension[] | null | undefined
+) =>
+  shape
+    ? `[${shape.map((dim) => (dim === null ? "?" : String(dim))).join(", ")}]`
+    : "[…]";
+
+export const describeTensorSpec = (spec: OnnxTensorMetadata) =>
+  `${spec.elementType ?? "unknown"}${formatTensorShape(spec.shape)}`;
+
+/**
+ * Channel position of an image-like input: `[N,C,H,W]`/`[C,H,W]` or
+ * `[N,H,W,C]`/`[H,W,C]` with one or three channels.
+ */
+export const resolveImageLayout = (
+  shape: OnnxTensorDimension[] | null | undefined
+): "chw" | "hwc" | null => {
+  if (!shape || (shape.length !== 3 && shape.length !== 4)) {
+    return null;
+  }
+
+  const offset = shape.length - 3;
+  const isChannelDim = (dim: OnnxTensorDimension) => dim === 1 || dim === 3;
+  if (isChannelDim(shape[offset])) {
+    return "chw";
+  }
+  if (isChannelDim(shape[offset + 2])) {
+    return "hwc";
+  }
+  return null;
+};
+
+/** Picks the editor the wizard offers for a model input. */
+export const resolveTensorInputKind = (
+  spec: OnnxTensorMetadata
+): TensorInputKind => {
+  const denotation = spec.denotation?.toUpperCase();
+  const dataType = resolveNpyDataType(spec.elementType);
+
+  if (
+    spec.elementType === "string" ||
+    (TOKEN_INPUT_PATTERN.test(spec.name) && spec.elementType?.startsWith("int"))
+  ) {
+    return "text";
+  }
+
+  if (
+    denotation === "IMAGE" ||
+    ((dataType === "float32" || dataType === "uint8") &&
+      resolveImageLayout(spec.shape) !== null)
+  ) {
+    return "image";
+  }
+
+  if (
+    denotation === "AUDIO" ||
+    (dataType === "float32" &&
+      AUDIO_INPUT_PATTERN.test(spec.name) &&
+      (spec.shape?.length ?? 0) <= 3)
+  ) {
+    return "audio";
+  }
+
+  return dataType ? "tensor" : "binary";
+};
+
+/**
+ * Exporters (e.g. Hugging Face Optimum) record the tokenizer and its maximum
+ * sequence length in the model metadata under slightly varying keys.
+ */
+export const resolveTokenizerHints = (
+  metadata: Record<string, string> | null | undefined
+): TokenizerHints => {
+  const entries = Object.entries(metadata ?? {});
+  const tokenizer =
+    entries.find(([key]) => /tokenizer/i.test(key))?.[1]?.trim() || null;
+  const maxLengthValue = entries.find(([key]) =>
+    /(model_max_length|max_seq(uence)?_len(gth)?|max_length|max_position_embeddings)/i.test(
+      key
+    )
+  )?.[1];
+  const maxLength = maxLengthValue ? Number.parseInt(maxLengthValue, 10) : NaN;
+
+  return {
+    tokenizer,
+    maxLength: Number.isFinite(maxLength) && maxLength > 0 ? maxLength : null,
+  };
+};
+
+/**
+ * Checks a concrete shape against the declared one. Symbolic dims accept
+ * any size but must agree wherever the same name appears.
+ */
+export const checkTensorShape = (
+  expected: OnnxTensorDimension[] | null | undefined,
+  actual: number[]
+): string | null => {
+  if (!expected) {
+    return null;
+  }
+
+  if (expected.length !== actual.length) {
+    return `Expected ${expected.length} dimension(s) ${formatTensorShape(expected)} but got ${actual.length} ${formatTensorShape(actual)}.`;
+  }
+
+  const symbols = new Map<string, number>();
+  for (let index = 0; index < expected.length; index += 1) {
+    const dim = expected[index];
+    const size = actual[index];
+
+    if (typeof dim === "number" && dim > 0 && dim !== size) {
+      return `Dimension ${index} must be ${dim} but is ${size}.`;
+    }
+
+    if (typeof dim === "string") {
+      const bound = symbols.get(dim);
+      if (bound !== undefined && bound !== size) {
+        return `Dimension "${dim}" is ${bound} elsewhere but ${size} at position ${index}.`;
+      }
+      symbols.set(dim, size);
+    }
+  }
+
+  return null;
+};
+
+const createTypedArray = (
+  dataType: NpyDataType,
+  values: number[]
+): NpyTypedArray => {
+  switch (dataType) {
+    case "float32":
+      return Float32Array.from(values);
+    case "float64":
+      return Float64Array.from(values);
+    case "int8":
+      return Int8Array.from(values);
+    case "uint8":
+    case "bool":
+      return Uint8Array.from(values);
+    case "int16":
+      return Int16Array.from(values);
+    case "uint16":
+      return Uint16Array.from(values);
+    case "int32":
+      return Int32Array.from(values);
+    case "uint32":
+      return Uint32Array.from(values);
+    case "int64":
+      return BigInt64Array.from(values, (value) => BigInt(value));
+  }
+};
+
+const flattenLiteral = (
+  value: unknown,
+  depth: number,
+  shape: number[],
+  values: number[]
+): string | null => {
+  if (Array.isArray(value)) {
+    if (shape.length <= depth) {
+      shape.push(value.length);
+    } else if (shape[depth] !== value.length) {
+      return "Nested arrays must all have the same length.";
+    }
+
+    for (const item of value) {
+      const error = flattenLiteral(item, depth + 1, shape, values);
+      if (error) {
+        return error;
+      }
+    }
+    return null;
+  }
+
+  if (depth !== shape.length) {
+    return "Nested arrays must all have the same depth.";
+  }
+
+  if (typeof value === "boolean") {
+    values.push(value ? 1 : 0);
+    return null;
+  }
+
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return `"${JSON.stringify(value)}" is not a number.`;
+  }
+
+  values.push(value);
+  return null;
+};
+
+/**
+ * Parses a JSON number, array or matrix into the tensor the model expects,
+ * rejecting ragged arrays, wrong element types and shape mismatches.
+ */
+export const parseTensorLiteral = (
+  text: string,
+  spec: OnnxTensorMetadata
+): { tensor: NpyArray; error: null } | { tensor: null; error: string } => {
+  const dataType = resolveNpyDataType(spec.elementType);
+  if (!dataType) {
+    return {
+      tensor: null,
+      error: `Element type ${spec.elementType ?? "unknown"} cannot be entered as numbers.`,
+    };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { tensor: null, error: "Enter a JSON number or (nested) array." };
+  }
+
+  const shape: number[] = [];
+  const values: number[] = [];
+  const literalError = flattenLiteral(parsed, 0, shape, values);
+  if (literalError) {
+    return { tensor: null, error: literalError };
+  }
+
+  if (dataType !== "float32" && dataType !== "float64") {
+    const invalid = values.find((value) => !Number.isInteger(value));
+    if (invalid !== undefined) {
+      return {
+        tensor: null,
+        error: `${spec.elementType} tensors only accept integers, got ${invalid}.`,
+      };
+    }
+  }
+
+  const shapeError = checkTensorShape(spec.shape, shape);
+  if (shapeError) {
+    return { tensor: null, error: shapeError };
+  }
+
+  return {
+    tensor: { dataType, shape, data: createTypedArray(dataType, values) },
+    error: null,
+  };
+};
+
+export const createTensorFile = (tensorName: string, tensor: NpyArray) =>
+  new File(
+    [encodeNpy(tensor)],
+    `${tensorName.replace(/[^\w.-]+/g, "_") || "tensor"}.npy`,
+    { type: "application/octet-stream" }
+  );
+
+/**
+ * Reads the header of an uploaded `.npy` file and checks it against the
+ * model input, so a mismatched payload is caught before it is uploaded.
+ */
+export const checkNpyFile = async (
+  file: File,
+  spec: OnnxTensorMetadata
+): Promise<string | null> => {
+  let header;
+  try {
+    header = parseNpyHeader(
+      await file.slice(0, NPY_HEADER_PROBE_BYTES).arrayBuffer()
+    );
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid .npy file.";
+  }
+
+  const expectedType = resolveNpyDataType(spec.elementType);
+  if (expectedType && header.dataType !== expectedType) {
+    return `The file holds ${header.dataType} values but the model expects ${expectedType}.`;
+  }
+
+  return checkTensorShape(spec.shape, header.shape);
+};
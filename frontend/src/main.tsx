@@ -4,12 +4,15 @@ import './index.css'
 import App from './App.tsx'
 import { QueryProvider } from './shared/providers/QueryProvider.tsx'
 import { ThemeProvider } from './shared/providers/ThemeProvider.tsx'
+import { RealtimeProvider } from './shared/providers/RealtimeProvider.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ThemeProvider>
       <QueryProvider>
-        <App />
+        <RealtimeProvider>
+          <App />
+        </RealtimeProvider>
       </QueryProvider>
     </ThemeProvider>
   </StrictMode>,
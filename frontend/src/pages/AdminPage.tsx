@@ -0,0 +1,49 @@
+import { NavLink, Outlet } from "react-router-dom";
+import {
+  ClipboardList,
+  HeartPulse,
+  Landmark,
+  MonitorSmartphone,
+  ScrollText,
+} from "lucide-react";
+import { PageHeader } from "../shared/components/PageHeader";
+
+const ADMIN_VIEWS = [
+  { to: "tasks", label: "All tasks", Icon: ClipboardList },
+  { to: "stuck-subtasks", label: "Stuck subtasks", Icon: HeartPulse },
+  { to: "devices", label: "Devices", Icon: MonitorSmartphone },
+  { to: "settlements", label: "Settlements", Icon: Landmark },
+  { to: "audit-log", label: "Audit log", Icon: ScrollText },
+];
+
+export const AdminPage = () => (
+  <div className="flex h-full flex-col overflow-hidden">
+    <PageHeader
+      title="Admin console"
+      description="Supervise tasks across tenants, unblock stuck work, and approve provider payouts."
+    />
+    <nav className="mt-4 flex flex-wrap gap-2">
+      {ADMIN_VIEWS.map(({ to, label, Icon }) => (
+        <NavLink
+          key={to}
+          to={to}
+          className={({ isActive }) =>
+            `inline-flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium transition ${
+              isActive
+                ? "bg-slate-300 text-slate-900 dark:bg-slate-700 dark:text-white"
+                : "text-slate-600 hover:bg-slate-200 hover:text-slate-900 dark:text-slate-300 dark:hover:bg-slate-800 dark:hover:text-white"
+            }`
+          }
+        >
+          <Icon className="h-4 w-4" />
+          {label}
+        </NavLink>
+      ))}
+    </nav>
+    <div className="mt-6 flex-1 overflow-y-auto">
+      <div className="pb-6">
+        <Outlet />
+      </div>
+    </div>
+  </div>
+);
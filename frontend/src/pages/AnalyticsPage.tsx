@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { useAuthStore } from "../features/auth/stores/authStore";
+import { ProviderEarningsAnalytics } from "../features/provider/components/ProviderEarningsAnalytics";
+import { RequestorSpendAnalytics } from "../features/requestor/components/RequestorSpendAnalytics";
+import { PageHeader } from "../shared/components/PageHeader";
+import {
+  resolveBucketRangeStart,
+  type BucketGranularity,
+} from "../shared/utils/timeBuckets";
+
+const GRANULARITY_OPTIONS: Array<{ value: BucketGranularity; label: string }> = [
+  { value: "day", label: "Daily" },
+  { value: "week", label: "Weekly" },
+];
+
+export const AnalyticsPage = () => {
+  const role = useAuthStore((state) => state.user?.role);
+  const [granularity, setGranularity] = useState<BucketGranularity>("day");
+  // Fixed for the visit so the buckets do not shift under cached data.
+  const [now] = useState(() => new Date());
+  const rangeStart = resolveBucketRangeStart(now);
+
+  return (
+    <div className="flex h-full flex-col overflow-hidden">
+      <PageHeader
+        title="Analytics"
+        description={
+          role === "Provider"
+            ? "See what each machine earns and when your next payout is due."
+            : "Follow your spend trend and what each kind of task costs."
+        }
+        actions={
+          <div className="inline-flex rounded-lg border border-slate-200 bg-white p-1 shadow-sm dark:border-slate-700 dark:bg-slate-900">
+            {GRANULARITY_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setGranularity(option.value)}
+                aria-pressed={granularity === option.value}
+                className={`rounded-md px-3 py-1.5 text-sm font-medium transition ${
+                  granularity === option.value
+                    ? "bg-indigo-600 text-white dark:bg-indigo-700"
+                    : "text-slate-600 hover:bg-slate-50 dark:text-slate-300 dark:hover:bg-slate-800"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        }
+      />
+      <div className="mt-6 flex-1 overflow-y-auto">
+        <div className="pb-6">
+          {role === "Provider" ? (
+            <ProviderEarningsAnalytics
+              granularity={granularity}
+              now={now}
+              rangeStart={rangeStart}
+            />
+          ) : (
+            <RequestorSpendAnalytics
+              granularity={granularity}
+              now={now}
+              rangeStart={rangeStart}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
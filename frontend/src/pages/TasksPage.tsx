@@ -1,3 +1,4 @@
+import { AutoAcceptSettingsCard } from "../features/provider/components/AutoAcceptSettingsCard";
 import { SubtaskList } from "../features/provider/components/SubtaskList";
 import { PageHeader } from "../shared/components/PageHeader";
 
@@ -9,6 +10,7 @@ export const TasksPage = () => (
     />
     <div className="mt-6 flex-1 overflow-y-auto">
       <div className="flex flex-col gap-6 pb-6">
+        <AutoAcceptSettingsCard />
         <SubtaskList />
       </div>
     </div>
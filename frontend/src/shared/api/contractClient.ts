@@ -0,0 +1,46 @@
+import { apiRequest, type ApiRequestOptions } from '../utils/apiClient';
+import { reportContractViolation } from '../stores/contractDiagnosticsStore';
+import { ContractViolationError, parseContract, type ContractSchema } from './contractValidation';
+import { contractSchemas } from './generated/contract';
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export const withQuery = (path: string, query: Record<string, QueryValue>) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== null && value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+};
+
+/**
+ * Sends a request of the generated client and normalizes the response to the
+ * contract. Mismatches go to the contract diagnostics log; development builds
+ * also throw so drift fails loudly instead of rendering fallbacks for values
+ * the UI does not know.
+ */
+export const requestContract = async <TResponse, TBody = unknown>(
+  operationId: string,
+  path: string,
+  responseSchema: ContractSchema | null,
+  options: ApiRequestOptions<TBody> = {}
+): Promise<TResponse> => {
+  const response = await apiRequest<unknown, TBody>(path, options);
+  if (!responseSchema) {
+    return response as TResponse;
+  }
+
+  const { value, issues } = parseContract<TResponse>(responseSchema, response, contractSchemas);
+  if (issues.length > 0) {
+    reportContractViolation('rest', operationId, issues);
+    if (import.meta.env.DEV) {
+      throw new ContractViolationError(operationId, issues);
+    }
+  }
+
+  return value;
+};
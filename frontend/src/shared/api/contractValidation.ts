@@ -0,0 +1,199 @@
+/**
+ * Runtime counterpart of the types generated from the backend OpenAPI
+ * document. Descriptors are emitted by `scripts/generate-api-client.mjs`;
+ * properties the contract does not declare are allowed, so the backend can
+ * add fields without breaking older clients.
+ */
+export type ContractSchema =
+  | { $ref: string; nullable?: boolean }
+  | { type: 'string'; enum?: readonly string[]; format?: string; nullable?: boolean }
+  | { type: 'number' | 'integer' | 'boolean'; nullable?: boolean }
+  | { type: 'array'; items: ContractSchema; nullable?: boolean }
+  | {
+      type: 'object';
+      properties?: Readonly<Record<string, ContractSchema>>;
+      required?: readonly string[];
+      additionalProperties?: ContractSchema;
+      nullable?: boolean;
+    }
+  | { type: 'any'; nullable?: boolean };
+
+export type ContractSchemaRegistry = Readonly<Record<string, ContractSchema>>;
+
+export interface ContractIssue {
+  /** JSONPath-like location, e.g. `$[2].status`. */
+  path: string;
+  message: string;
+}
+
+export interface ContractParseOptions {
+  /**
+   * Skips the `required` check on the top-level object, for messages that
+   * only carry the fields that changed.
+   */
+  partial?: boolean;
+}
+
+export interface ContractParseResult<T> {
+  value: T;
+  issues: ContractIssue[];
+}
+
+const MAX_ISSUES = 20;
+
+const describeValue = (value: unknown) => {
+  if (value === null) {
+    return 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+
+  return typeof value === 'string' ? JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value) : typeof value;
+};
+
+const addIssue = (issues: ContractIssue[], path: string, message: string) => {
+  if (issues.length < MAX_ISSUES) {
+    issues.push({ path, message });
+  }
+};
+
+// REST responses are camelCase, but SignalR and older endpoints send
+// PascalCase; a property is looked up under the name the schema declares.
+const toSchemaKey = (name: string, properties: Readonly<Record<string, ContractSchema>> | undefined) => {
+  if (!properties || name in properties) {
+    return name;
+  }
+
+  const camelName = name.charAt(0).toLowerCase() + name.slice(1);
+  return camelName in properties ? camelName : name;
+};
+
+/** Returns `value` in the shape the schema declares, recording every mismatch. */
+const normalize = (
+  schema: ContractSchema,
+  value: unknown,
+  path: string,
+  registry: ContractSchemaRegistry,
+  issues: ContractIssue[],
+  partial = false
+): unknown => {
+  if (value === null || value === undefined) {
+    if (!schema.nullable && !('type' in schema && schema.type === 'any')) {
+      addIssue(issues, path, `expected a value, got ${value === null ? 'null' : 'nothing'}`);
+    }
+    return value;
+  }
+
+  if ('$ref' in schema) {
+    const target = registry[schema.$ref];
+    if (!target) {
+      addIssue(issues, path, `unknown schema ${schema.$ref}`);
+      return value;
+    }
+    return normalize(target, value, path, registry, issues, partial);
+  }
+
+  switch (schema.type) {
+    case 'any':
+      return value;
+    case 'string':
+      // Backend enums number their members from zero in declaration order, so
+      // a serializer that writes them as numbers sends their index in the list.
+      if (schema.enum && typeof value === 'number' && Number.isInteger(value) && schema.enum[value] !== undefined) {
+        return schema.enum[value];
+      }
+
+      if (schema.enum && (typeof value === 'number' || (typeof value === 'string' && !schema.enum.includes(value)))) {
+        addIssue(issues, path, `expected one of ${schema.enum.join(', ')}, got ${typeof value === 'number' ? value : describeValue(value)}`);
+      } else if (typeof value !== 'string') {
+        addIssue(issues, path, `expected a string, got ${describeValue(value)}`);
+      } else if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+        addIssue(issues, path, `expected a date-time, got ${describeValue(value)}`);
+      }
+      return value;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        addIssue(issues, path, `expected a number, got ${describeValue(value)}`);
+      } else if (schema.type === 'integer' && !Number.isInteger(value)) {
+        addIssue(issues, path, `expected an integer, got ${value}`);
+      }
+      return value;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        addIssue(issues, path, `expected a boolean, got ${describeValue(value)}`);
+      }
+      return value;
+    case 'array':
+      if (!Array.isArray(value)) {
+        addIssue(issues, path, `expected an array, got ${describeValue(value)}`);
+        return value;
+      }
+      return value.map((item, index) => normalize(schema.items, item, `${path}[${index}]`, registry, issues));
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        addIssue(issues, path, `expected an object, got ${describeValue(value)}`);
+        return value;
+      }
+
+      const record: Record<string, unknown> = {};
+      Object.entries(value as Record<string, unknown>).forEach(([name, propertyValue]) => {
+        const key = toSchemaKey(name, schema.properties);
+        // A payload carrying both spellings keeps the one the schema declares.
+        if (key in record && key !== name) {
+          return;
+        }
+
+        const propertySchema = schema.properties?.[key] ?? schema.additionalProperties;
+        record[key] = propertySchema
+          ? normalize(propertySchema, propertyValue, `${path}.${key}`, registry, issues)
+          : propertyValue;
+      });
+
+      if (!partial) {
+        schema.required?.forEach((name) => {
+          if (!(name in record)) {
+            addIssue(issues, `${path}.${name}`, 'is required but missing');
+          }
+        });
+      }
+      return record;
+    }
+  }
+};
+
+/**
+ * Normalizes `value` to the schema (property casing, enums sent as numbers)
+ * and checks it; an empty issue list means it conforms. The value is returned
+ * either way so callers decide whether a mismatch is fatal.
+ */
+export const parseContract = <T>(
+  schema: ContractSchema,
+  value: unknown,
+  registry: ContractSchemaRegistry,
+  options: ContractParseOptions = {}
+): ContractParseResult<T> => {
+  const issues: ContractIssue[] = [];
+  const normalized = normalize(schema, value, '$', registry, issues, options.partial);
+  return { value: normalized as T, issues };
+};
+
+/** A response that does not match the backend contract the client was generated from. */
+export class ContractViolationError extends Error {
+  readonly operationId: string;
+  readonly issues: ContractIssue[];
+
+  constructor(operationId: string, issues: ContractIssue[]) {
+    super(
+      `${operationId} returned a response that does not match the API contract: ${issues
+        .slice(0, 3)
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`
+    );
+    this.name = 'ContractViolationError';
+    this.operationId = operationId;
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,1534 @@
+// Generated by scripts/generate-api-client.mjs from openapi/infinitegpu.v1.json; do not edit by hand.
+
+import type { ContractSchemaRegistry } from '../contractValidation';
+
+export interface AcceptSubtaskRequest {
+  deviceIdentifier: string;
+}
+
+export interface AdminActionRequest {
+  reason?: string | null;
+}
+
+export type AdminAuditAction = 'SubtaskReassigned' | 'SubtaskCancelled' | 'SubtaskFailed' | 'SettlementApproved' | 'SettlementRejected';
+
+export interface AdminAuditEntryDto {
+  id: string;
+  action: AdminAuditAction;
+  actorUserId: string;
+  actorEmail?: string | null;
+  targetType: AdminAuditTargetType;
+  targetId: string;
+  reason: string;
+  metadataJson?: string | null;
+  createdAtUtc: string;
+}
+
+export type AdminAuditTargetType = 'Subtask' | 'Settlement';
+
+export interface AdminSubtaskDto {
+  id: string;
+  taskId: string;
+  taskType: TaskType;
+  status: SubtaskStatus;
+  progress: number;
+  taskGraphPartitionId?: string | null;
+  partitionKey?: string | null;
+  isPartitionReady: boolean;
+  parametersJson: string;
+  assignedProviderId?: string | null;
+  deviceId?: string | null;
+  executionSpec?: ExecutionSpecDto | null;
+  executionState?: ExecutionStateDto | null;
+  partition?: PartitionDto | null;
+  estimatedEarnings?: number | null;
+  durationSeconds?: number | null;
+  costUsd?: number | null;
+  resourceRequirements: TaskResourceSummaryDto;
+  executionArtifactsUrl?: string | null;
+  upstreamArtifactUris: Array<string>;
+  outputArtifactBundleUri?: string | null;
+  createdAtUtc: string;
+  assignedAtUtc?: string | null;
+  startedAtUtc?: string | null;
+  completedAtUtc?: string | null;
+  failedAtUtc?: string | null;
+  failureReason?: string | null;
+  lastHeartbeatAtUtc?: string | null;
+  nextHeartbeatDueAtUtc?: string | null;
+  lastCommandAtUtc?: string | null;
+  executionSpecRefreshedAtUtc?: string | null;
+  executionSpecExpiresAtUtc?: string | null;
+  executionSpecResolvedUri?: string | null;
+  requiresReassignment: boolean;
+  reassignmentRequestedAtUtc?: string | null;
+  onnxSpecVersion: number;
+  onnxSpecJson?: string | null;
+  onnxSpecSha256?: string | null;
+  onnxModel: OnnxModelMetadataDto;
+  assignmentHistory: Array<AssignmentHistoryEntryDto>;
+  timeline: Array<SubtaskTimelineEventDto>;
+  concurrencyToken: string;
+  inputArtifacts: Array<InputArtifactDto>;
+  outputArtifacts: Array<OutputArtifactDto>;
+  ownerEmail?: string | null;
+  providerUserId?: string | null;
+  providerEmail?: string | null;
+  deviceIdentifier?: string | null;
+}
+
+export interface AdminTaskDto {
+  id: string;
+  type: TaskType;
+  modelUrl: string;
+  train?: TrainParametersDto | null;
+  resources: ResourceSpecificationDto;
+  dataSizeGb: number;
+  status: TaskStatus;
+  estimatedCost: number;
+  fillBindingsViaApi: boolean;
+  budgetCap?: BudgetCapDto | null;
+  inference?: InferenceParametersDto | null;
+  apiKey?: string | null;
+  createdAt: string;
+  updatedAt?: string | null;
+  completedAt?: string | null;
+  lastProgressAtUtc?: string | null;
+  lastHeartbeatAtUtc?: string | null;
+  completionPercent: number;
+  subtasksCount: number;
+  completedSubtasksCount: number;
+  failedSubtasksCount: number;
+  activeSubtasksCount: number;
+  costUsd?: number | null;
+  durationSeconds: number;
+  ownerUserId: string;
+  ownerEmail?: string | null;
+}
+
+export interface AssignmentHistoryEntryDto {
+  providerUserId: string;
+  assignedAtUtc: string;
+  startedAtUtc?: string | null;
+  completedAtUtc?: string | null;
+  failedAtUtc?: string | null;
+  lastHeartbeatAtUtc?: string | null;
+  status: string;
+  notes?: string | null;
+}
+
+export interface AutoRechargeRuleDto {
+  enabled: boolean;
+  thresholdAmount: number;
+  rechargeAmount: number;
+  paymentMethodId?: string | null;
+  lastTriggeredAtUtc?: string | null;
+  lastFailureReason?: string | null;
+}
+
+export interface AutoRechargeRuleRequest {
+  enabled: boolean;
+  thresholdAmount: number;
+  rechargeAmount: number;
+  paymentMethodId?: string | null;
+}
+
+export interface BindingDto {
+  tensorName: string;
+  payloadType: InferencePayloadType;
+  payload?: string | null;
+  fileUrl?: string | null;
+}
+
+export type BudgetCapAction = 'Pause' | 'Fail';
+
+export interface BudgetCapDto {
+  amount: number;
+  onExceeded: BudgetCapAction;
+}
+
+export interface BudgetCapParameters {
+  amount: number;
+  onExceeded: BudgetCapAction;
+}
+
+export interface CompleteSubtaskRequest {
+  resultsJson: string;
+}
+
+export interface CreateTaskRequest {
+  taskId: string;
+  type: TaskType;
+  modelUrl: string;
+  fillBindingsViaApi: boolean;
+  initialSubtaskId?: string | null;
+  inference?: InferenceParameters | null;
+  train?: TrainParameters | null;
+  budgetCap?: BudgetCapParameters | null;
+}
+
+export interface CreateTaskSubtaskRequest {
+  subtaskId: string;
+  bindings: Array<InferenceBinding>;
+}
+
+export interface DatasetReference {
+  sourceType: string;
+  fileUrl: string;
+  format: string;
+}
+
+export interface ExecutionSpecDto {
+  runMode: string;
+  onnxModelUrl?: string | null;
+  resolvedOnnxModelUri?: string | null;
+  refreshToken?: string | null;
+  refreshedAtUtc?: string | null;
+  expiresAtUtc?: string | null;
+  inputTensorShape?: Array<number> | null;
+  trainConfig?: TrainConfigDto | null;
+  inferenceConfig?: InferenceConfigDto | null;
+  shard?: ShardDescriptorDto | null;
+}
+
+export interface ExecutionStateDto {
+  phase: string;
+  message?: string | null;
+  providerUserId?: string | null;
+  onnxModelReady?: boolean | null;
+  webGpuPreferred?: boolean | null;
+  extendedMetadata?: Record<string, unknown> | null;
+}
+
+export interface FailSubtaskRequest {
+  failureJson: string;
+}
+
+export interface FinanceLedgerEntryDto {
+  entryId: string;
+  kind: FinanceLedgerEntryKind;
+  title: string;
+  detail?: string | null;
+  amount: number;
+  occurredAtUtc: string;
+  balanceAfter: number;
+  taskId?: string | null;
+  source: string;
+}
+
+export type FinanceLedgerEntryKind = 'Credit' | 'Debit';
+
+export interface FinanceLedgerPageDto {
+  entries: Array<FinanceLedgerEntryDto>;
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  sources: Array<string>;
+}
+
+export interface FinancePayoutSnapshotDto {
+  reference: string;
+  amount: number;
+  initiatedAtUtc?: string | null;
+  settledAtUtc?: string | null;
+  entryCount: number;
+  status: SettlementStatus;
+}
+
+export interface FinanceStatementDto {
+  month: string;
+  periodStartUtc: string;
+  periodEndUtc: string;
+  openingBalance: number;
+  closingBalance: number;
+  totalCredits: number;
+  totalDebits: number;
+  entries: Array<FinanceLedgerEntryDto>;
+}
+
+export interface FinanceSummaryDto {
+  balance: number;
+  totalCredits: number;
+  totalDebits: number;
+  creditsLast24Hours: number;
+  debitsLast24Hours: number;
+  pendingBalance: number;
+  nextPayout?: FinancePayoutSnapshotDto | null;
+  previousPayout?: FinancePayoutSnapshotDto | null;
+  generatedAtUtc: string;
+  ledgerEntries: Array<FinanceLedgerEntryDto>;
+}
+
+export interface ForgotPasswordCommand {
+  email: string;
+}
+
+export interface GenerateTaskUploadUrlRequest {
+  taskId: string;
+  subtaskId: string;
+  inputName: string;
+  fileExtension: string;
+  fileType: TaskUploadFileType;
+}
+
+export interface HeartbeatRequest {
+  progress?: number | null;
+}
+
+export interface InferenceBinding {
+  tensorName: string;
+  payloadType: InferencePayloadType;
+  payload?: string | null;
+  fileUrl?: string | null;
+}
+
+export interface InferenceConfigDto {
+  promptTemplate?: string | null;
+  maxTokens?: number | null;
+}
+
+export interface InferenceParameters {
+  bindings: Array<InferenceBinding>;
+  outputs: Array<OutputBinding>;
+}
+
+export interface InferenceParametersDto {
+  prompt: string;
+  bindings: Array<BindingDto>;
+  outputs: Array<OutputBindingDto>;
+}
+
+export type InferencePayloadType = 'Json' | 'Text' | 'Binary';
+
+export interface InputArtifactDto {
+  tensorName: string;
+  payloadType: string;
+  fileUrl?: string | null;
+  payload?: string | null;
+}
+
+export interface LoginCommand {
+  email: string;
+  password: string;
+}
+
+export interface OnnxModelMetadataDto {
+  blobUri?: string | null;
+  readUri?: string | null;
+  resolvedReadUri?: string | null;
+  readUriExpiresAtUtc?: string | null;
+  contentSha256?: string | null;
+  eTag?: string | null;
+  version?: string | null;
+  opset?: number | null;
+  sizeBytes?: number | null;
+  uploadedAtUtc?: string | null;
+  originalFileName?: string | null;
+  storedFileName?: string | null;
+}
+
+export interface OutputArtifactDto {
+  tensorName: string;
+  fileUrl?: string | null;
+  fileFormat?: string | null;
+  payload?: string | null;
+  payloadType: InferencePayloadType;
+}
+
+export interface OutputBinding {
+  tensorName: string;
+  payloadType: InferencePayloadType;
+  fileFormat?: string | null;
+}
+
+export interface OutputBindingDto {
+  tensorName: string;
+  payloadType: InferencePayloadType;
+  fileFormat?: string | null;
+}
+
+export interface PartitionDto {
+  partitionKey: string;
+  topologyLevel: number;
+  isTerminal: boolean;
+  pendingDependencyCount: number;
+  inputPartitionKeys: Array<string>;
+  outputNames: Array<string>;
+}
+
+export interface PaymentMethodDto {
+  paymentMethodId: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  createdAtUtc: string;
+}
+
+export interface PayoutMethodDto {
+  payoutMethodId: string;
+  kind: PayoutMethodKind;
+  country: string;
+  bankName: string;
+  accountHolderName: string;
+  maskedAccount: string;
+  bic?: string | null;
+  createdAtUtc: string;
+}
+
+export type PayoutMethodKind = 'Sepa' | 'Ach' | 'FasterPayments' | 'Eft' | 'Becs';
+
+export interface ProviderDeviceDto {
+  deviceId: string;
+  deviceIdentifier: string;
+  providerUserId: string;
+  providerEmail?: string | null;
+  isConnected: boolean;
+  lastSeenAtUtc?: string | null;
+  activeSubtasksCount: number;
+  executionProvider?: string | null;
+}
+
+export interface ProviderSubtaskHistoryDto {
+  id: string;
+  taskId: string;
+  taskType: TaskType;
+  status: SubtaskStatus;
+  progress: number;
+  taskGraphPartitionId?: string | null;
+  partitionKey?: string | null;
+  isPartitionReady: boolean;
+  parametersJson: string;
+  assignedProviderId?: string | null;
+  deviceId?: string | null;
+  executionSpec?: ExecutionSpecDto | null;
+  executionState?: ExecutionStateDto | null;
+  partition?: PartitionDto | null;
+  estimatedEarnings?: number | null;
+  durationSeconds?: number | null;
+  costUsd?: number | null;
+  resourceRequirements: TaskResourceSummaryDto;
+  executionArtifactsUrl?: string | null;
+  upstreamArtifactUris: Array<string>;
+  outputArtifactBundleUri?: string | null;
+  createdAtUtc: string;
+  assignedAtUtc?: string | null;
+  startedAtUtc?: string | null;
+  completedAtUtc?: string | null;
+  failedAtUtc?: string | null;
+  failureReason?: string | null;
+  lastHeartbeatAtUtc?: string | null;
+  nextHeartbeatDueAtUtc?: string | null;
+  lastCommandAtUtc?: string | null;
+  executionSpecRefreshedAtUtc?: string | null;
+  executionSpecExpiresAtUtc?: string | null;
+  executionSpecResolvedUri?: string | null;
+  requiresReassignment: boolean;
+  reassignmentRequestedAtUtc?: string | null;
+  onnxSpecVersion: number;
+  onnxSpecJson?: string | null;
+  onnxSpecSha256?: string | null;
+  onnxModel: OnnxModelMetadataDto;
+  assignmentHistory: Array<AssignmentHistoryEntryDto>;
+  timeline: Array<SubtaskTimelineEventDto>;
+  concurrencyToken: string;
+  inputArtifacts: Array<InputArtifactDto>;
+  outputArtifacts: Array<OutputArtifactDto>;
+  deviceIdentifier: string;
+}
+
+export interface ReassignSubtaskRequest {
+  targetDeviceId?: string | null;
+  reason?: string | null;
+}
+
+export interface RegisterCommand {
+  userName: string;
+  email: string;
+  password: string;
+}
+
+export interface ReportProgressRequest {
+  progress: number;
+}
+
+export interface ResetPasswordCommand {
+  email: string;
+  token: string;
+  newPassword: string;
+}
+
+export interface ResourceSpecificationDto {
+  gpuUnits: number;
+  cpuCores: number;
+  diskGb: number;
+  networkGb: number;
+}
+
+export interface RetryFailedSubtasksResponse {
+  requeuedSubtaskIds: Array<string>;
+}
+
+export interface SettlementApprovalDto {
+  settlementId: string;
+  reference: string;
+  amount: number;
+  initiatedAtUtc?: string | null;
+  settledAtUtc?: string | null;
+  entryCount: number;
+  status: SettlementStatus;
+  providerUserId: string;
+  providerEmail?: string | null;
+  country?: string | null;
+  requestedAtUtc: string;
+}
+
+export interface SettlementDto {
+  settlementId: string;
+  reference: string;
+  amount: number;
+  status: SettlementStatus;
+  requestedAtUtc: string;
+  failureReason?: string | null;
+  payoutMethod?: PayoutMethodDto | null;
+  transitions: Array<SettlementStatusTransitionDto>;
+}
+
+export interface SettlementRequest {
+  amount: number;
+  payoutMethodId?: string | null;
+  country?: string | null;
+  bankAccountDetails?: string | null;
+  savePayoutMethod: boolean;
+}
+
+export type SettlementStatus = 'Pending' | 'Processing' | 'Completed' | 'Failed' | 'Cancelled';
+
+export interface SettlementStatusTransitionDto {
+  status: SettlementStatus;
+  occurredAtUtc: string;
+  reason?: string | null;
+}
+
+export interface ShardDescriptorDto {
+  index: number;
+  count: number;
+  fraction: number;
+}
+
+export interface SubmitInferenceBindingRequest {
+  tensorName: string;
+  payloadType: InferencePayloadType;
+  payload?: string | null;
+  fileUrl?: string | null;
+}
+
+export interface SubmitInferenceRequest {
+  bindings: Array<SubmitInferenceBindingRequest>;
+}
+
+export interface SubtaskDto {
+  id: string;
+  taskId: string;
+  taskType: TaskType;
+  status: SubtaskStatus;
+  progress: number;
+  taskGraphPartitionId?: string | null;
+  partitionKey?: string | null;
+  isPartitionReady: boolean;
+  parametersJson: string;
+  assignedProviderId?: string | null;
+  deviceId?: string | null;
+  executionSpec?: ExecutionSpecDto | null;
+  executionState?: ExecutionStateDto | null;
+  partition?: PartitionDto | null;
+  estimatedEarnings?: number | null;
+  durationSeconds?: number | null;
+  costUsd?: number | null;
+  resourceRequirements: TaskResourceSummaryDto;
+  executionArtifactsUrl?: string | null;
+  upstreamArtifactUris: Array<string>;
+  outputArtifactBundleUri?: string | null;
+  createdAtUtc: string;
+  assignedAtUtc?: string | null;
+  startedAtUtc?: string | null;
+  completedAtUtc?: string | null;
+  failedAtUtc?: string | null;
+  failureReason?: string | null;
+  lastHeartbeatAtUtc?: string | null;
+  nextHeartbeatDueAtUtc?: string | null;
+  lastCommandAtUtc?: string | null;
+  executionSpecRefreshedAtUtc?: string | null;
+  executionSpecExpiresAtUtc?: string | null;
+  executionSpecResolvedUri?: string | null;
+  requiresReassignment: boolean;
+  reassignmentRequestedAtUtc?: string | null;
+  onnxSpecVersion: number;
+  onnxSpecJson?: string | null;
+  onnxSpecSha256?: string | null;
+  onnxModel: OnnxModelMetadataDto;
+  assignmentHistory: Array<AssignmentHistoryEntryDto>;
+  timeline: Array<SubtaskTimelineEventDto>;
+  concurrencyToken: string;
+  inputArtifacts: Array<InputArtifactDto>;
+  outputArtifacts: Array<OutputArtifactDto>;
+}
+
+export type SubtaskStatus = 'Pending' | 'Assigned' | 'Executing' | 'Completed' | 'Failed' | 'Cancelled';
+
+export interface SubtaskTimelineEventDto {
+  id: string;
+  eventType: string;
+  message?: string | null;
+  metadataJson?: string | null;
+  createdAtUtc: string;
+}
+
+export interface TaskDto {
+  id: string;
+  type: TaskType;
+  modelUrl: string;
+  train?: TrainParametersDto | null;
+  resources: ResourceSpecificationDto;
+  dataSizeGb: number;
+  status: TaskStatus;
+  estimatedCost: number;
+  fillBindingsViaApi: boolean;
+  budgetCap?: BudgetCapDto | null;
+  inference?: InferenceParametersDto | null;
+  apiKey?: string | null;
+  createdAt: string;
+  updatedAt?: string | null;
+  completedAt?: string | null;
+  lastProgressAtUtc?: string | null;
+  lastHeartbeatAtUtc?: string | null;
+  completionPercent: number;
+  subtasksCount: number;
+  completedSubtasksCount: number;
+  failedSubtasksCount: number;
+  activeSubtasksCount: number;
+  costUsd?: number | null;
+  durationSeconds: number;
+}
+
+export interface TaskQuoteDto {
+  modelSizeBytes: number;
+  inputBytes: number;
+  expectedSubtaskCount: number;
+  pricePerSubtask: number;
+  estimatedCost: number;
+  generatedAtUtc: string;
+}
+
+export interface TaskQuoteRequest {
+  type: TaskType;
+  modelUrl?: string | null;
+  modelSizeBytes?: number | null;
+  inputBytes: number;
+  subtaskCount?: number | null;
+  train?: TrainShape | null;
+}
+
+export interface TaskResourceSummaryDto {
+  gpuUnits: number;
+  cpuCores: number;
+  diskGb: number;
+  networkGb: number;
+  dataSizeGb: number;
+}
+
+export type TaskStatus = 'Pending' | 'Assigned' | 'InProgress' | 'Completed' | 'Failed' | 'Paused' | 'Cancelled';
+
+export type TaskType = 'Train' | 'Inference';
+
+export type TaskUploadFileType = 'Model' | 'Input' | 'Output';
+
+export interface TopUpDto {
+  paymentId: string;
+  invoiceNumber: string;
+  amount: number;
+  status: TopUpStatus;
+  createdAtUtc: string;
+  cardBrand?: string | null;
+  cardLast4?: string | null;
+  isAutoRecharge: boolean;
+  receiptUrl?: string | null;
+}
+
+export interface TopUpRequest {
+  amount: number;
+  stripePaymentMethodId: string;
+  savePaymentMethod: boolean;
+}
+
+export interface TopUpResultDto {
+  paymentId: string;
+  status: TopUpResultStatus;
+  clientSecret?: string | null;
+  failureReason?: string | null;
+}
+
+export type TopUpResultStatus = 'Succeeded' | 'RequiresAction' | 'Pending' | 'Failed';
+
+export type TopUpStatus = 'Succeeded' | 'Pending' | 'Failed' | 'Refunded';
+
+export interface TrainConfigDto {
+  epochs?: number | null;
+  batchSize?: number | null;
+  learningRate?: number | null;
+}
+
+export interface TrainParameters {
+  epochs: number;
+  batchSize: number;
+  learningRate?: number | null;
+  trainingDataset: DatasetReference;
+  validationDataset?: DatasetReference | null;
+}
+
+export interface TrainParametersDto {
+  epochs: number;
+  batchSize: number;
+}
+
+export interface TrainShape {
+  epochs: number;
+  batchSize: number;
+}
+
+export interface UpdateCurrentUserRequest {
+  firstName?: string | null;
+  lastName?: string | null;
+}
+
+export interface UpdateExecutionEnvironmentRequest {
+  onnxModelReady?: boolean | null;
+  webGpuPreferred?: boolean | null;
+  backendType?: string | null;
+  workerType?: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+export const contractSchemas = {
+  AcceptSubtaskRequest: {
+    type: 'object',
+    properties: { deviceIdentifier: { type: 'string' } },
+    required: ['deviceIdentifier']
+  },
+  AdminActionRequest: { type: 'object', properties: { reason: { type: 'string', nullable: true } } },
+  AdminAuditAction: {
+    type: 'string',
+    enum: ['SubtaskReassigned', 'SubtaskCancelled', 'SubtaskFailed', 'SettlementApproved', 'SettlementRejected']
+  },
+  AdminAuditEntryDto: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      action: { $ref: 'AdminAuditAction' },
+      actorUserId: { type: 'string' },
+      actorEmail: { type: 'string', nullable: true },
+      targetType: { $ref: 'AdminAuditTargetType' },
+      targetId: { type: 'string' },
+      reason: { type: 'string' },
+      metadataJson: { type: 'string', nullable: true },
+      createdAtUtc: { type: 'string', format: 'date-time' }
+    },
+    required: ['id', 'action', 'actorUserId', 'targetType', 'targetId', 'reason', 'createdAtUtc']
+  },
+  AdminAuditTargetType: { type: 'string', enum: ['Subtask', 'Settlement'] },
+  AdminSubtaskDto: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      taskId: { type: 'string' },
+      taskType: { $ref: 'TaskType' },
+      status: { $ref: 'SubtaskStatus' },
+      progress: { type: 'integer' },
+      taskGraphPartitionId: { type: 'string', nullable: true },
+      partitionKey: { type: 'string', nullable: true },
+      isPartitionReady: { type: 'boolean' },
+      parametersJson: { type: 'string' },
+      assignedProviderId: { type: 'string', nullable: true },
+      deviceId: { type: 'string', nullable: true },
+      executionSpec: { $ref: 'ExecutionSpecDto', nullable: true },
+      executionState: { $ref: 'ExecutionStateDto', nullable: true },
+      partition: { $ref: 'PartitionDto', nullable: true },
+      estimatedEarnings: { type: 'number', nullable: true },
+      durationSeconds: { type: 'number', nullable: true },
+      costUsd: { type: 'number', nullable: true },
+      resourceRequirements: { $ref: 'TaskResourceSummaryDto' },
+      executionArtifactsUrl: { type: 'string', nullable: true },
+      upstreamArtifactUris: { type: 'array', items: { type: 'string' } },
+      outputArtifactBundleUri: { type: 'string', nullable: true },
+      createdAtUtc: { type: 'string', format: 'date-time' },
+      assignedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      startedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      completedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      failedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      failureReason: { type: 'string', nullable: true },
+      lastHeartbeatAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      nextHeartbeatDueAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      lastCommandAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      executionSpecRefreshedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      executionSpecExpiresAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      executionSpecResolvedUri: { type: 'string', nullable: true },
+      requiresReassignment: { type: 'boolean' },
+      reassignmentRequestedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      onnxSpecVersion: { type: 'integer' },
+      onnxSpecJson: { type: 'string', nullable: true },
+      onnxSpecSha256: { type: 'string', nullable: true },
+      onnxModel: { $ref: 'OnnxModelMetadataDto' },
+      assignmentHistory: { type: 'array', items: { $ref: 'AssignmentHistoryEntryDto' } },
+      timeline: { type: 'array', items: { $ref: 'SubtaskTimelineEventDto' } },
+      concurrencyToken: { type: 'string' },
+      inputArtifacts: { type: 'array', items: { $ref: 'InputArtifactDto' } },
+      outputArtifacts: { type: 'array', items: { $ref: 'OutputArtifactDto' } },
+      ownerEmail: { type: 'string', nullable: true },
+      providerUserId: { type: 'string', nullable: true },
+      providerEmail: { type: 'string', nullable: true },
+      deviceIdentifier: { type: 'string', nullable: true }
+    },
+    required: ['id', 'taskId', 'taskType', 'status', 'progress', 'isPartitionReady', 'parametersJson', 'resourceRequirements', 'upstreamArtifactUris', 'createdAtUtc', 'requiresReassignment', 'onnxSpecVersion', 'onnxModel', 'assignmentHistory', 'timeline', 'concurrencyToken', 'inputArtifacts', 'outputArtifacts']
+  },
+  AdminTaskDto: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      type: { $ref: 'TaskType' },
+      modelUrl: { type: 'string' },
+      train: { $ref: 'TrainParametersDto', nullable: true },
+      resources: { $ref: 'ResourceSpecificationDto' },
+      dataSizeGb: { type: 'number' },
+      status: { $ref: 'TaskStatus' },
+      estimatedCost: { type: 'number' },
+      fillBindingsViaApi: { type: 'boolean' },
+      budgetCap: { $ref: 'BudgetCapDto', nullable: true },
+      inference: { $ref: 'InferenceParametersDto', nullable: true },
+      apiKey: { type: 'string', nullable: true },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time', nullable: true },
+      completedAt: { type: 'string', format: 'date-time', nullable: true },
+      lastProgressAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      lastHeartbeatAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      completionPercent: { type: 'number' },
+      subtasksCount: { type: 'integer' },
+      completedSubtasksCount: { type: 'integer' },
+      failedSubtasksCount: { type: 'integer' },
+      activeSubtasksCount: { type: 'integer' },
+      costUsd: { type: 'number', nullable: true },
+      durationSeconds: { type: 'number' },
+      ownerUserId: { type: 'string' },
+      ownerEmail: { type: 'string', nullable: true }
+    },
+    required: ['id', 'type', 'modelUrl', 'resources', 'dataSizeGb', 'status', 'estimatedCost', 'fillBindingsViaApi', 'createdAt', 'completionPercent', 'subtasksCount', 'completedSubtasksCount', 'failedSubtasksCount', 'activeSubtasksCount', 'durationSeconds', 'ownerUserId']
+  },
+  AssignmentHistoryEntryDto: {
+    type: 'object',
+    properties: {
+      providerUserId: { type: 'string' },
+      assignedAtUtc: { type: 'string', format: 'date-time' },
+      startedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      completedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      failedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      lastHeartbeatAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      status: { type: 'string' },
+      notes: { type: 'string', nullable: true }
+    },
+    required: ['providerUserId', 'assignedAtUtc', 'status']
+  },
+  AutoRechargeRuleDto: {
+    type: 'object',
+    properties: {
+      enabled: { type: 'boolean' },
+      thresholdAmount: { type: 'number' },
+      rechargeAmount: { type: 'number' },
+      paymentMethodId: { type: 'string', nullable: true },
+      lastTriggeredAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      lastFailureReason: { type: 'string', nullable: true }
+    },
+    required: ['enabled', 'thresholdAmount', 'rechargeAmount']
+  },
+  AutoRechargeRuleRequest: {
+    type: 'object',
+    properties: {
+      enabled: { type: 'boolean' },
+      thresholdAmount: { type: 'number' },
+      rechargeAmount: { type: 'number' },
+      paymentMethodId: { type: 'string', nullable: true }
+    },
+    required: ['enabled', 'thresholdAmount', 'rechargeAmount']
+  },
+  BindingDto: {
+    type: 'object',
+    properties: {
+      tensorName: { type: 'string' },
+      payloadType: { $ref: 'InferencePayloadType' },
+      payload: { type: 'string', nullable: true },
+      fileUrl: { type: 'string', nullable: true }
+    },
+    required: ['tensorName', 'payloadType']
+  },
+  BudgetCapAction: { type: 'string', enum: ['Pause', 'Fail'] },
+  BudgetCapDto: {
+    type: 'object',
+    properties: { amount: { type: 'number' }, onExceeded: { $ref: 'BudgetCapAction' } },
+    required: ['amount', 'onExceeded']
+  },
+  BudgetCapParameters: {
+    type: 'object',
+    properties: { amount: { type: 'number' }, onExceeded: { $ref: 'BudgetCapAction' } },
+    required: ['amount', 'onExceeded']
+  },
+  CompleteSubtaskRequest: { type: 'object', properties: { resultsJson: { type: 'string' } }, required: ['resultsJson'] },
+  CreateTaskRequest: {
+    type: 'object',
+    properties: {
+      taskId: { type: 'string' },
+      type: { $ref: 'TaskType' },
+      modelUrl: { type: 'string' },
+      fillBindingsViaApi: { type: 'boolean' },
+      initialSubtaskId: { type: 'string', nullable: true },
+      inference: { $ref: 'InferenceParameters', nullable: true },
+      train: { $ref: 'TrainParameters', nullable: true },
+      budgetCap: { $ref: 'BudgetCapParameters', nullable: true }
+    },
+    required: ['taskId', 'type', 'modelUrl', 'fillBindingsViaApi']
+  },
+  CreateTaskSubtaskRequest: {
+    type: 'object',
+    properties: { subtaskId: { type: 'string' }, bindings: { type: 'array', items: { $ref: 'InferenceBinding' } } },
+    required: ['subtaskId', 'bindings']
+  },
+  DatasetReference: {
+    type: 'object',
+    properties: { sourceType: { type: 'string' }, fileUrl: { type: 'string' }, format: { type: 'string' } },
+    required: ['sourceType', 'fileUrl', 'format']
+  },
+  ExecutionSpecDto: {
+    type: 'object',
+    properties: {
+      runMode: { type: 'string' },
+      onnxModelUrl: { type: 'string', nullable: true },
+      resolvedOnnxModelUri: { type: 'string', nullable: true },
+      refreshToken: { type: 'string', nullable: true },
+      refreshedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      expiresAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      inputTensorShape: { type: 'array', items: { type: 'integer' }, nullable: true },
+      trainConfig: { $ref: 'TrainConfigDto', nullable: true },
+      inferenceConfig: { $ref: 'InferenceConfigDto', nullable: true },
+      shard: { $ref: 'ShardDescriptorDto', nullable: true }
+    },
+    required: ['runMode']
+  },
+  ExecutionStateDto: {
+    type: 'object',
+    properties: {
+      phase: { type: 'string' },
+      message: { type: 'string', nullable: true },
+      providerUserId: { type: 'string', nullable: true },
+      onnxModelReady: { type: 'boolean', nullable: true },
+      webGpuPreferred: { type: 'boolean', nullable: true },
+      extendedMetadata: { type: 'object', additionalProperties: { type: 'any' }, nullable: true }
+    },
+    required: ['phase']
+  },
+  FailSubtaskRequest: { type: 'object', properties: { failureJson: { type: 'string' } }, required: ['failureJson'] },
+  FinanceLedgerEntryDto: {
+    type: 'object',
+    properties: {
+      entryId: { type: 'string' },
+      kind: { $ref: 'FinanceLedgerEntryKind' },
+      title: { type: 'string' },
+      detail: { type: 'string', nullable: true },
+      amount: { type: 'number' },
+      occurredAtUtc: { type: 'string', format: 'date-time' },
+      balanceAfter: { type: 'number' },
+      taskId: { type: 'string', nullable: true },
+      source: { type: 'string' }
+    },
+    required: ['entryId', 'kind', 'title', 'amount', 'occurredAtUtc', 'balanceAfter', 'source']
+  },
+  FinanceLedgerEntryKind: { type: 'string', enum: ['Credit', 'Debit'] },
+  FinanceLedgerPageDto: {
+    type: 'object',
+    properties: {
+      entries: { type: 'array', items: { $ref: 'FinanceLedgerEntryDto' } },
+      page: { type: 'integer' },
+      pageSize: { type: 'integer' },
+      totalCount: { type: 'integer' },
+      sources: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['entries', 'page', 'pageSize', 'totalCount', 'sources']
+  },
+  FinancePayoutSnapshotDto: {
+    type: 'object',
+    properties: {
+      reference: { type: 'string' },
+      amount: { type: 'number' },
+      initiatedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      settledAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      entryCount: { type: 'integer' },
+      status: { $ref: 'SettlementStatus' }
+    },
+    required: ['reference', 'amount', 'entryCount', 'status']
+  },
+  FinanceStatementDto: {
+    type: 'object',
+    properties: {
+      month: { type: 'string' },
+      periodStartUtc: { type: 'string', format: 'date-time' },
+      periodEndUtc: { type: 'string', format: 'date-time' },
+      openingBalance: { type: 'number' },
+      closingBalance: { type: 'number' },
+      totalCredits: { type: 'number' },
+      totalDebits: { type: 'number' },
+      entries: { type: 'array', items: { $ref: 'FinanceLedgerEntryDto' } }
+    },
+    required: ['month', 'periodStartUtc', 'periodEndUtc', 'openingBalance', 'closingBalance', 'totalCredits', 'totalDebits', 'entries']
+  },
+  FinanceSummaryDto: {
+    type: 'object',
+    properties: {
+      balance: { type: 'number' },
+      totalCredits: { type: 'number' },
+      totalDebits: { type: 'number' },
+      creditsLast24Hours: { type: 'number' },
+      debitsLast24Hours: { type: 'number' },
+      pendingBalance: { type: 'number' },
+      nextPayout: { $ref: 'FinancePayoutSnapshotDto', nullable: true },
+      previousPayout: { $ref: 'FinancePayoutSnapshotDto', nullable: true },
+      generatedAtUtc: { type: 'string', format: 'date-time' },
+      ledgerEntries: { type: 'array', items: { $ref: 'FinanceLedgerEntryDto' } }
+    },
+    required: ['balance', 'totalCredits', 'totalDebits', 'creditsLast24Hours', 'debitsLast24Hours', 'pendingBalance', 'generatedAtUtc', 'ledgerEntries']
+  },
+  ForgotPasswordCommand: { type: 'object', properties: { email: { type: 'string' } }, required: ['email'] },
+  GenerateTaskUploadUrlRequest: {
+    type: 'object',
+    properties: {
+      taskId: { type: 'string' },
+      subtaskId: { type: 'string' },
+      inputName: { type: 'string' },
+      fileExtension: { type: 'string' },
+      fileType: { $ref: 'TaskUploadFileType' }
+    },
+    required: ['taskId', 'subtaskId', 'inputName', 'fileExtension', 'fileType']
+  },
+  HeartbeatRequest: { type: 'object', properties: { progress: { type: 'integer', nullable: true } } },
+  InferenceBinding: {
+    type: 'object',
+    properties: {
+      tensorName: { type: 'string' },
+      payloadType: { $ref: 'InferencePayloadType' },
+      payload: { type: 'string', nullable: true },
+      fileUrl: { type: 'string', nullable: true }
+    },
+    required: ['tensorName', 'payloadType']
+  },
+  InferenceConfigDto: {
+    type: 'object',
+    properties: {
+      promptTemplate: { type: 'string', nullable: true },
+      maxTokens: { type: 'integer', nullable: true }
+    }
+  },
+  InferenceParameters: {
+    type: 'object',
+    properties: {
+      bindings: { type: 'array', items: { $ref: 'InferenceBinding' } },
+      outputs: { type: 'array', items: { $ref: 'OutputBinding' } }
+    },
+    required: ['bindings', 'outputs']
+  },
+  InferenceParametersDto: {
+    type: 'object',
+    properties: {
+      prompt: { type: 'string' },
+      bindings: { type: 'array', items: { $ref: 'BindingDto' } },
+      outputs: { type: 'array', items: { $ref: 'OutputBindingDto' } }
+    },
+    required: ['prompt', 'bindings', 'outputs']
+  },
+  InferencePayloadType: { type: 'string', enum: ['Json', 'Text', 'Binary'] },
+  InputArtifactDto: {
+    type: 'object',
+    properties: {
+      tensorName: { type: 'string' },
+      payloadType: { type: 'string' },
+      fileUrl: { type: 'string', nullable: true },
+      payload: { type: 'string', nullable: true }
+    },
+    required: ['tensorName', 'payloadType']
+  },
+  LoginCommand: {
+    type: 'object',
+    properties: { email: { type: 'string' }, password: { type: 'string' } },
+    required: ['email', 'password']
+  },
+  OnnxModelMetadataDto: {
+    type: 'object',
+    properties: {
+      blobUri: { type: 'string', nullable: true },
+      readUri: { type: 'string', nullable: true },
+      resolvedReadUri: { type: 'string', nullable: true },
+      readUriExpiresAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      contentSha256: { type: 'string', nullable: true },
+      eTag: { type: 'string', nullable: true },
+      version: { type: 'string', nullable: true },
+      opset: { type: 'integer', nullable: true },
+      sizeBytes: { type: 'integer', nullable: true },
+      uploadedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      originalFileName: { type: 'string', nullable: true },
+      storedFileName: { type: 'string', nullable: true }
+    }
+  },
+  OutputArtifactDto: {
+    type: 'object',
+    properties: {
+      tensorName: { type: 'string' },
+      fileUrl: { type: 'string', nullable: true },
+      fileFormat: { type: 'string', nullable: true },
+      payload: { type: 'string', nullable: true },
+      payloadType: { $ref: 'InferencePayloadType' }
+    },
+    required: ['tensorName', 'payloadType']
+  },
+  OutputBinding: {
+    type: 'object',
+    properties: {
+      tensorName: { type: 'string' },
+      payloadType: { $ref: 'InferencePayloadType' },
+      fileFormat: { type: 'string', nullable: true }
+    },
+    required: ['tensorName', 'payloadType']
+  },
+  OutputBindingDto: {
+    type: 'object',
+    properties: {
+      tensorName: { type: 'string' },
+      payloadType: { $ref: 'InferencePayloadType' },
+      fileFormat: { type: 'string', nullable: true }
+    },
+    required: ['tensorName', 'payloadType']
+  },
+  PartitionDto: {
+    type: 'object',
+    properties: {
+      partitionKey: { type: 'string' },
+      topologyLevel: { type: 'integer' },
+      isTerminal: { type: 'boolean' },
+      pendingDependencyCount: { type: 'integer' },
+      inputPartitionKeys: { type: 'array', items: { type: 'string' } },
+      outputNames: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['partitionKey', 'topologyLevel', 'isTerminal', 'pendingDependencyCount', 'inputPartitionKeys', 'outputNames']
+  },
+  PaymentMethodDto: {
+    type: 'object',
+    properties: {
+      paymentMethodId: { type: 'string' },
+      brand: { type: 'string' },
+      last4: { type: 'string' },
+      expMonth: { type: 'integer' },
+      expYear: { type: 'integer' },
+      createdAtUtc: { type: 'string', format: 'date-time' }
+    },
+    required: ['paymentMethodId', 'brand', 'last4', 'expMonth', 'expYear', 'createdAtUtc']
+  },
+  PayoutMethodDto: {
+    type: 'object',
+    properties: {
+      payoutMethodId: { type: 'string' },
+      kind: { $ref: 'PayoutMethodKind' },
+      country: { type: 'string' },
+      bankName: { type: 'string' },
+      accountHolderName: { type: 'string' },
+      maskedAccount: { type: 'string' },
+      bic: { type: 'string', nullable: true },
+      createdAtUtc: { type: 'string', format: 'date-time' }
+    },
+    required: ['payoutMethodId', 'kind', 'country', 'bankName', 'accountHolderName', 'maskedAccount', 'createdAtUtc']
+  },
+  PayoutMethodKind: { type: 'string', enum: ['Sepa', 'Ach', 'FasterPayments', 'Eft', 'Becs'] },
+  ProviderDeviceDto: {
+    type: 'object',
+    properties: {
+      deviceId: { type: 'string' },
+      deviceIdentifier: { type: 'string' },
+      providerUserId: { type: 'string' },
+      providerEmail: { type: 'string', nullable: true },
+      isConnected: { type: 'boolean' },
+      lastSeenAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      activeSubtasksCount: { type: 'integer' },
+      executionProvider: { type: 'string', nullable: true }
+    },
+    required: ['deviceId', 'deviceIdentifier', 'providerUserId', 'isConnected', 'activeSubtasksCount']
+  },
+  ProviderSubtaskHistoryDto: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      taskId: { type: 'string' },
+      taskType: { $ref: 'TaskType' },
+      status: { $ref: 'SubtaskStatus' },
+      progress: { type: 'integer' },
+      taskGraphPartitionId: { type: 'string', nullable: true },
+      partitionKey: { type: 'string', nullable: true },
+      isPartitionReady: { type: 'boolean' },
+      parametersJson: { type: 'string' },
+      assignedProviderId: { type: 'string', nullable: true },
+      deviceId: { type: 'string', nullable: true },
+      executionSpec: { $ref: 'ExecutionSpecDto', nullable: true },
+      executionState: { $ref: 'ExecutionStateDto', nullable: true },
+      partition: { $ref: 'PartitionDto', nullable: true },
+      estimatedEarnings: { type: 'number', nullable: true },
+      durationSeconds: { type: 'number', nullable: true },
+      costUsd: { type: 'number', nullable: true },
+      resourceRequirements: { $ref: 'TaskResourceSummaryDto' },
+      executionArtifactsUrl: { type: 'string', nullable: true },
+      upstreamArtifactUris: { type: 'array', items: { type: 'string' } },
+      outputArtifactBundleUri: { type: 'string', nullable: true },
+      createdAtUtc: { type: 'string', format: 'date-time' },
+      assignedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      startedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      completedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      failedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      failureReason: { type: 'string', nullable: true },
+      lastHeartbeatAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      nextHeartbeatDueAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      lastCommandAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      executionSpecRefreshedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      executionSpecExpiresAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      executionSpecResolvedUri: { type: 'string', nullable: true },
+      requiresReassignment: { type: 'boolean' },
+      reassignmentRequestedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      onnxSpecVersion: { type: 'integer' },
+      onnxSpecJson: { type: 'string', nullable: true },
+      onnxSpecSha256: { type: 'string', nullable: true },
+      onnxModel: { $ref: 'OnnxModelMetadataDto' },
+      assignmentHistory: { type: 'array', items: { $ref: 'AssignmentHistoryEntryDto' } },
+      timeline: { type: 'array', items: { $ref: 'SubtaskTimelineEventDto' } },
+      concurrencyToken: { type: 'string' },
+      inputArtifacts: { type: 'array', items: { $ref: 'InputArtifactDto' } },
+      outputArtifacts: { type: 'array', items: { $ref: 'OutputArtifactDto' } },
+      deviceIdentifier: { type: 'string' }
+    },
+    required: ['id', 'taskId', 'taskType', 'status', 'progress', 'isPartitionReady', 'parametersJson', 'resourceRequirements', 'upstreamArtifactUris', 'createdAtUtc', 'requiresReassignment', 'onnxSpecVersion', 'onnxModel', 'assignmentHistory', 'timeline', 'concurrencyToken', 'inputArtifacts', 'outputArtifacts', 'deviceIdentifier']
+  },
+  ReassignSubtaskRequest: {
+    type: 'object',
+    properties: { targetDeviceId: { type: 'string', nullable: true }, reason: { type: 'string', nullable: true } }
+  },
+  RegisterCommand: {
+    type: 'object',
+    properties: { userName: { type: 'string' }, email: { type: 'string' }, password: { type: 'string' } },
+    required: ['userName', 'email', 'password']
+  },
+  ReportProgressRequest: { type: 'object', properties: { progress: { type: 'integer' } }, required: ['progress'] },
+  ResetPasswordCommand: {
+    type: 'object',
+    properties: { email: { type: 'string' }, token: { type: 'string' }, newPassword: { type: 'string' } },
+    required: ['email', 'token', 'newPassword']
+  },
+  ResourceSpecificationDto: {
+    type: 'object',
+    properties: {
+      gpuUnits: { type: 'integer' },
+      cpuCores: { type: 'integer' },
+      diskGb: { type: 'integer' },
+      networkGb: { type: 'integer' }
+    },
+    required: ['gpuUnits', 'cpuCores', 'diskGb', 'networkGb']
+  },
+  RetryFailedSubtasksResponse: {
+    type: 'object',
+    properties: { requeuedSubtaskIds: { type: 'array', items: { type: 'string' } } },
+    required: ['requeuedSubtaskIds']
+  },
+  SettlementApprovalDto: {
+    type: 'object',
+    properties: {
+      settlementId: { type: 'string' },
+      reference: { type: 'string' },
+      amount: { type: 'number' },
+      initiatedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      settledAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      entryCount: { type: 'integer' },
+      status: { $ref: 'SettlementStatus' },
+      providerUserId: { type: 'string' },
+      providerEmail: { type: 'string', nullable: true },
+      country: { type: 'string', nullable: true },
+      requestedAtUtc: { type: 'string', format: 'date-time' }
+    },
+    required: ['settlementId', 'reference', 'amount', 'entryCount', 'status', 'providerUserId', 'requestedAtUtc']
+  },
+  SettlementDto: {
+    type: 'object',
+    properties: {
+      settlementId: { type: 'string' },
+      reference: { type: 'string' },
+      amount: { type: 'number' },
+      status: { $ref: 'SettlementStatus' },
+      requestedAtUtc: { type: 'string', format: 'date-time' },
+      failureReason: { type: 'string', nullable: true },
+      payoutMethod: { $ref: 'PayoutMethodDto', nullable: true },
+      transitions: { type: 'array', items: { $ref: 'SettlementStatusTransitionDto' } }
+    },
+    required: ['settlementId', 'reference', 'amount', 'status', 'requestedAtUtc', 'transitions']
+  },
+  SettlementRequest: {
+    type: 'object',
+    properties: {
+      amount: { type: 'number' },
+      payoutMethodId: { type: 'string', nullable: true },
+      country: { type: 'string', nullable: true },
+      bankAccountDetails: { type: 'string', nullable: true },
+      savePayoutMethod: { type: 'boolean' }
+    },
+    required: ['amount', 'savePayoutMethod']
+  },
+  SettlementStatus: { type: 'string', enum: ['Pending', 'Processing', 'Completed', 'Failed', 'Cancelled'] },
+  SettlementStatusTransitionDto: {
+    type: 'object',
+    properties: {
+      status: { $ref: 'SettlementStatus' },
+      occurredAtUtc: { type: 'string', format: 'date-time' },
+      reason: { type: 'string', nullable: true }
+    },
+    required: ['status', 'occurredAtUtc']
+  },
+  ShardDescriptorDto: {
+    type: 'object',
+    properties: { index: { type: 'integer' }, count: { type: 'integer' }, fraction: { type: 'number' } },
+    required: ['index', 'count', 'fraction']
+  },
+  SubmitInferenceBindingRequest: {
+    type: 'object',
+    properties: {
+      tensorName: { type: 'string' },
+      payloadType: { $ref: 'InferencePayloadType' },
+      payload: { type: 'string', nullable: true },
+      fileUrl: { type: 'string', nullable: true }
+    },
+    required: ['tensorName', 'payloadType']
+  },
+  SubmitInferenceRequest: {
+    type: 'object',
+    properties: { bindings: { type: 'array', items: { $ref: 'SubmitInferenceBindingRequest' } } },
+    required: ['bindings']
+  },
+  SubtaskDto: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      taskId: { type: 'string' },
+      taskType: { $ref: 'TaskType' },
+      status: { $ref: 'SubtaskStatus' },
+      progress: { type: 'integer' },
+      taskGraphPartitionId: { type: 'string', nullable: true },
+      partitionKey: { type: 'string', nullable: true },
+      isPartitionReady: { type: 'boolean' },
+      parametersJson: { type: 'string' },
+      assignedProviderId: { type: 'string', nullable: true },
+      deviceId: { type: 'string', nullable: true },
+      executionSpec: { $ref: 'ExecutionSpecDto', nullable: true },
+      executionState: { $ref: 'ExecutionStateDto', nullable: true },
+      partition: { $ref: 'PartitionDto', nullable: true },
+      estimatedEarnings: { type: 'number', nullable: true },
+      durationSeconds: { type: 'number', nullable: true },
+      costUsd: { type: 'number', nullable: true },
+      resourceRequirements: { $ref: 'TaskResourceSummaryDto' },
+      executionArtifactsUrl: { type: 'string', nullable: true },
+      upstreamArtifactUris: { type: 'array', items: { type: 'string' } },
+      outputArtifactBundleUri: { type: 'string', nullable: true },
+      createdAtUtc: { type: 'string', format: 'date-time' },
+      assignedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      startedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      completedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      failedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      failureReason: { type: 'string', nullable: true },
+      lastHeartbeatAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      nextHeartbeatDueAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      lastCommandAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      executionSpecRefreshedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      executionSpecExpiresAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      executionSpecResolvedUri: { type: 'string', nullable: true },
+      requiresReassignment: { type: 'boolean' },
+      reassignmentRequestedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      onnxSpecVersion: { type: 'integer' },
+      onnxSpecJson: { type: 'string', nullable: true },
+      onnxSpecSha256: { type: 'string', nullable: true },
+      onnxModel: { $ref: 'OnnxModelMetadataDto' },
+      assignmentHistory: { type: 'array', items: { $ref: 'AssignmentHistoryEntryDto' } },
+      timeline: { type: 'array', items: { $ref: 'SubtaskTimelineEventDto' } },
+      concurrencyToken: { type: 'string' },
+      inputArtifacts: { type: 'array', items: { $ref: 'InputArtifactDto' } },
+      outputArtifacts: { type: 'array', items: { $ref: 'OutputArtifactDto' } }
+    },
+    required: ['id', 'taskId', 'taskType', 'status', 'progress', 'isPartitionReady', 'parametersJson', 'resourceRequirements', 'upstreamArtifactUris', 'createdAtUtc', 'requiresReassignment', 'onnxSpecVersion', 'onnxModel', 'assignmentHistory', 'timeline', 'concurrencyToken', 'inputArtifacts', 'outputArtifacts']
+  },
+  SubtaskStatus: { type: 'string', enum: ['Pending', 'Assigned', 'Executing', 'Completed', 'Failed', 'Cancelled'] },
+  SubtaskTimelineEventDto: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      eventType: { type: 'string' },
+      message: { type: 'string', nullable: true },
+      metadataJson: { type: 'string', nullable: true },
+      createdAtUtc: { type: 'string', format: 'date-time' }
+    },
+    required: ['id', 'eventType', 'createdAtUtc']
+  },
+  TaskDto: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      type: { $ref: 'TaskType' },
+      modelUrl: { type: 'string' },
+      train: { $ref: 'TrainParametersDto', nullable: true },
+      resources: { $ref: 'ResourceSpecificationDto' },
+      dataSizeGb: { type: 'number' },
+      status: { $ref: 'TaskStatus' },
+      estimatedCost: { type: 'number' },
+      fillBindingsViaApi: { type: 'boolean' },
+      budgetCap: { $ref: 'BudgetCapDto', nullable: true },
+      inference: { $ref: 'InferenceParametersDto', nullable: true },
+      apiKey: { type: 'string', nullable: true },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time', nullable: true },
+      completedAt: { type: 'string', format: 'date-time', nullable: true },
+      lastProgressAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      lastHeartbeatAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      completionPercent: { type: 'number' },
+      subtasksCount: { type: 'integer' },
+      completedSubtasksCount: { type: 'integer' },
+      failedSubtasksCount: { type: 'integer' },
+      activeSubtasksCount: { type: 'integer' },
+      costUsd: { type: 'number', nullable: true },
+      durationSeconds: { type: 'number' }
+    },
+    required: ['id', 'type', 'modelUrl', 'resources', 'dataSizeGb', 'status', 'estimatedCost', 'fillBindingsViaApi', 'createdAt', 'completionPercent', 'subtasksCount', 'completedSubtasksCount', 'failedSubtasksCount', 'activeSubtasksCount', 'durationSeconds']
+  },
+  TaskQuoteDto: {
+    type: 'object',
+    properties: {
+      modelSizeBytes: { type: 'integer' },
+      inputBytes: { type: 'integer' },
+      expectedSubtaskCount: { type: 'integer' },
+      pricePerSubtask: { type: 'number' },
+      estimatedCost: { type: 'number' },
+      generatedAtUtc: { type: 'string', format: 'date-time' }
+    },
+    required: ['modelSizeBytes', 'inputBytes', 'expectedSubtaskCount', 'pricePerSubtask', 'estimatedCost', 'generatedAtUtc']
+  },
+  TaskQuoteRequest: {
+    type: 'object',
+    properties: {
+      type: { $ref: 'TaskType' },
+      modelUrl: { type: 'string', nullable: true },
+      modelSizeBytes: { type: 'integer', nullable: true },
+      inputBytes: { type: 'integer' },
+      subtaskCount: { type: 'integer', nullable: true },
+      train: { $ref: 'TrainShape', nullable: true }
+    },
+    required: ['type', 'inputBytes']
+  },
+  TaskResourceSummaryDto: {
+    type: 'object',
+    properties: {
+      gpuUnits: { type: 'integer' },
+      cpuCores: { type: 'integer' },
+      diskGb: { type: 'integer' },
+      networkGb: { type: 'integer' },
+      dataSizeGb: { type: 'number' }
+    },
+    required: ['gpuUnits', 'cpuCores', 'diskGb', 'networkGb', 'dataSizeGb']
+  },
+  TaskStatus: {
+    type: 'string',
+    enum: ['Pending', 'Assigned', 'InProgress', 'Completed', 'Failed', 'Paused', 'Cancelled']
+  },
+  TaskType: { type: 'string', enum: ['Train', 'Inference'] },
+  TaskUploadFileType: { type: 'string', enum: ['Model', 'Input', 'Output'] },
+  TopUpDto: {
+    type: 'object',
+    properties: {
+      paymentId: { type: 'string' },
+      invoiceNumber: { type: 'string' },
+      amount: { type: 'number' },
+      status: { $ref: 'TopUpStatus' },
+      createdAtUtc: { type: 'string', format: 'date-time' },
+      cardBrand: { type: 'string', nullable: true },
+      cardLast4: { type: 'string', nullable: true },
+      isAutoRecharge: { type: 'boolean' },
+      receiptUrl: { type: 'string', nullable: true }
+    },
+    required: ['paymentId', 'invoiceNumber', 'amount', 'status', 'createdAtUtc', 'isAutoRecharge']
+  },
+  TopUpRequest: {
+    type: 'object',
+    properties: {
+      amount: { type: 'number' },
+      stripePaymentMethodId: { type: 'string' },
+      savePaymentMethod: { type: 'boolean' }
+    },
+    required: ['amount', 'stripePaymentMethodId', 'savePaymentMethod']
+  },
+  TopUpResultDto: {
+    type: 'object',
+    properties: {
+      paymentId: { type: 'string' },
+      status: { $ref: 'TopUpResultStatus' },
+      clientSecret: { type: 'string', nullable: true },
+      failureReason: { type: 'string', nullable: true }
+    },
+    required: ['paymentId', 'status']
+  },
+  TopUpResultStatus: { type: 'string', enum: ['Succeeded', 'RequiresAction', 'Pending', 'Failed'] },
+  TopUpStatus: { type: 'string', enum: ['Succeeded', 'Pending', 'Failed', 'Refunded'] },
+  TrainConfigDto: {
+    type: 'object',
+    properties: {
+      epochs: { type: 'integer', nullable: true },
+      batchSize: { type: 'integer', nullable: true },
+      learningRate: { type: 'number', nullable: true }
+    }
+  },
+  TrainParameters: {
+    type: 'object',
+    properties: {
+      epochs: { type: 'integer' },
+      batchSize: { type: 'integer' },
+      learningRate: { type: 'number', nullable: true },
+      trainingDataset: { $ref: 'DatasetReference' },
+      validationDataset: { $ref: 'DatasetReference', nullable: true }
+    },
+    required: ['epochs', 'batchSize', 'trainingDataset']
+  },
+  TrainParametersDto: {
+    type: 'object',
+    properties: { epochs: { type: 'integer' }, batchSize: { type: 'integer' } },
+    required: ['epochs', 'batchSize']
+  },
+  TrainShape: {
+    type: 'object',
+    properties: { epochs: { type: 'integer' }, batchSize: { type: 'integer' } },
+    required: ['epochs', 'batchSize']
+  },
+  UpdateCurrentUserRequest: {
+    type: 'object',
+    properties: { firstName: { type: 'string', nullable: true }, lastName: { type: 'string', nullable: true } }
+  },
+  UpdateExecutionEnvironmentRequest: {
+    type: 'object',
+    properties: {
+      onnxModelReady: { type: 'boolean', nullable: true },
+      webGpuPreferred: { type: 'boolean', nullable: true },
+      backendType: { type: 'string', nullable: true },
+      workerType: { type: 'string', nullable: true },
+      metadata: { type: 'object', additionalProperties: { type: 'any' }, nullable: true }
+    }
+  }
+} as const satisfies ContractSchemaRegistry;
+
+export type ContractSchemaName = keyof typeof contractSchemas;
@@ -0,0 +1,454 @@
+// Generated by scripts/generate-api-client.mjs from openapi/infinitegpu.v1.json; do not edit by hand.
+
+import { requestContract, withQuery } from '../contractClient';
+import type { AcceptSubtaskRequest, AdminActionRequest, AdminAuditEntryDto, AdminSubtaskDto, AdminTaskDto, AutoRechargeRuleDto, AutoRechargeRuleRequest, CompleteSubtaskRequest, CreateTaskRequest, CreateTaskSubtaskRequest, FailSubtaskRequest, FinanceLedgerEntryKind, FinanceLedgerPageDto, FinanceStatementDto, FinanceSummaryDto, GenerateTaskUploadUrlRequest, HeartbeatRequest, PaymentMethodDto, PayoutMethodDto, ProviderDeviceDto, ProviderSubtaskHistoryDto, ReassignSubtaskRequest, ReportProgressRequest, RetryFailedSubtasksResponse, SettlementApprovalDto, SettlementDto, SettlementRequest, SubmitInferenceRequest, SubtaskDto, TaskDto, TaskQuoteDto, TaskQuoteRequest, TaskStatus, TopUpDto, TopUpRequest, TopUpResultDto, UpdateExecutionEnvironmentRequest } from './contract';
+
+/** GET /api/admin/tasks */
+export const getAdminTasks = (query: { status?: TaskStatus } = {}, signal?: AbortSignal) =>
+  requestContract<Array<AdminTaskDto>>(
+    'GetAdminTasks',
+    withQuery('/api/admin/tasks', { status: query.status }),
+    { type: 'array', items: { $ref: 'AdminTaskDto' } },
+    { signal }
+  );
+
+/** GET /api/admin/subtasks/active */
+export const getAdminActiveSubtasks = (signal?: AbortSignal) =>
+  requestContract<Array<AdminSubtaskDto>>(
+    'GetAdminActiveSubtasks',
+    '/api/admin/subtasks/active',
+    { type: 'array', items: { $ref: 'AdminSubtaskDto' } },
+    { signal }
+  );
+
+/** GET /api/admin/devices */
+export const getAdminProviderDevices = (signal?: AbortSignal) =>
+  requestContract<Array<ProviderDeviceDto>>(
+    'GetAdminProviderDevices',
+    '/api/admin/devices',
+    { type: 'array', items: { $ref: 'ProviderDeviceDto' } },
+    { signal }
+  );
+
+/** GET /api/admin/settlements/pending */
+export const getAdminSettlementQueue = (signal?: AbortSignal) =>
+  requestContract<Array<SettlementApprovalDto>>(
+    'GetAdminSettlementQueue',
+    '/api/admin/settlements/pending',
+    { type: 'array', items: { $ref: 'SettlementApprovalDto' } },
+    { signal }
+  );
+
+/** GET /api/admin/audit-log */
+export const getAdminAuditLog = (signal?: AbortSignal) =>
+  requestContract<Array<AdminAuditEntryDto>>(
+    'GetAdminAuditLog',
+    '/api/admin/audit-log',
+    { type: 'array', items: { $ref: 'AdminAuditEntryDto' } },
+    { signal }
+  );
+
+/** POST /api/admin/subtasks/{id}/reassign */
+export const adminReassignSubtask = (id: string, body: ReassignSubtaskRequest, signal?: AbortSignal) =>
+  requestContract<AdminAuditEntryDto, ReassignSubtaskRequest>(
+    'AdminReassignSubtask',
+    `/api/admin/subtasks/${encodeURIComponent(id)}/reassign`,
+    { $ref: 'AdminAuditEntryDto' },
+    { method: 'POST', body, signal }
+  );
+
+/** POST /api/admin/subtasks/{id}/cancel */
+export const adminCancelSubtask = (id: string, body: AdminActionRequest, signal?: AbortSignal) =>
+  requestContract<AdminAuditEntryDto, AdminActionRequest>(
+    'AdminCancelSubtask',
+    `/api/admin/subtasks/${encodeURIComponent(id)}/cancel`,
+    { $ref: 'AdminAuditEntryDto' },
+    { method: 'POST', body, signal }
+  );
+
+/** POST /api/admin/subtasks/{id}/fail */
+export const adminFailSubtask = (id: string, body: AdminActionRequest, signal?: AbortSignal) =>
+  requestContract<AdminAuditEntryDto, AdminActionRequest>(
+    'AdminFailSubtask',
+    `/api/admin/subtasks/${encodeURIComponent(id)}/fail`,
+    { $ref: 'AdminAuditEntryDto' },
+    { method: 'POST', body, signal }
+  );
+
+/** POST /api/admin/settlements/{id}/approve */
+export const adminApproveSettlement = (id: string, body: AdminActionRequest, signal?: AbortSignal) =>
+  requestContract<AdminAuditEntryDto, AdminActionRequest>(
+    'AdminApproveSettlement',
+    `/api/admin/settlements/${encodeURIComponent(id)}/approve`,
+    { $ref: 'AdminAuditEntryDto' },
+    { method: 'POST', body, signal }
+  );
+
+/** POST /api/admin/settlements/{id}/reject */
+export const adminRejectSettlement = (id: string, body: AdminActionRequest, signal?: AbortSignal) =>
+  requestContract<AdminAuditEntryDto, AdminActionRequest>(
+    'AdminRejectSettlement',
+    `/api/admin/settlements/${encodeURIComponent(id)}/reject`,
+    { $ref: 'AdminAuditEntryDto' },
+    { method: 'POST', body, signal }
+  );
+
+/** GET /api/finance/summary */
+export const getFinanceSummary = (signal?: AbortSignal) =>
+  requestContract<FinanceSummaryDto>(
+    'GetFinanceSummary',
+    '/api/finance/summary',
+    { $ref: 'FinanceSummaryDto' },
+    { signal }
+  );
+
+/** GET /api/finance/ledger */
+export const getFinanceLedger = (query: { from?: string | null; to?: string | null; kind?: FinanceLedgerEntryKind; source?: string | null; taskId?: string | null; search?: string | null; page?: number; pageSize?: number } = {}, signal?: AbortSignal) =>
+  requestContract<FinanceLedgerPageDto>(
+    'GetFinanceLedger',
+    withQuery('/api/finance/ledger', { from: query.from, to: query.to, kind: query.kind, source: query.source, taskId: query.taskId, search: query.search, page: query.page, pageSize: query.pageSize }),
+    { $ref: 'FinanceLedgerPageDto' },
+    { signal }
+  );
+
+/** GET /api/finance/statements/{month} */
+export const getFinanceStatement = (month: string, signal?: AbortSignal) =>
+  requestContract<FinanceStatementDto>(
+    'GetFinanceStatement',
+    `/api/finance/statements/${encodeURIComponent(month)}`,
+    { $ref: 'FinanceStatementDto' },
+    { signal }
+  );
+
+/** POST /api/finance/topup */
+export const processTopUp = (body: TopUpRequest, signal?: AbortSignal) =>
+  requestContract<TopUpResultDto, TopUpRequest>(
+    'ProcessTopUp',
+    '/api/finance/topup',
+    { $ref: 'TopUpResultDto' },
+    { method: 'POST', body, signal }
+  );
+
+/** POST /api/finance/topup/{id}/confirm */
+export const confirmTopUp = (id: string, signal?: AbortSignal) =>
+  requestContract<TopUpResultDto>(
+    'ConfirmTopUp',
+    `/api/finance/topup/${encodeURIComponent(id)}/confirm`,
+    { $ref: 'TopUpResultDto' },
+    { method: 'POST', signal }
+  );
+
+/** GET /api/finance/topups */
+export const getTopUps = (signal?: AbortSignal) =>
+  requestContract<Array<TopUpDto>>(
+    'GetTopUps',
+    '/api/finance/topups',
+    { type: 'array', items: { $ref: 'TopUpDto' } },
+    { signal }
+  );
+
+/** GET /api/finance/payment-methods */
+export const getPaymentMethods = (signal?: AbortSignal) =>
+  requestContract<Array<PaymentMethodDto>>(
+    'GetPaymentMethods',
+    '/api/finance/payment-methods',
+    { type: 'array', items: { $ref: 'PaymentMethodDto' } },
+    { signal }
+  );
+
+/** DELETE /api/finance/payment-methods/{id} */
+export const deletePaymentMethod = (id: string, signal?: AbortSignal) =>
+  requestContract<void>(
+    'DeletePaymentMethod',
+    `/api/finance/payment-methods/${encodeURIComponent(id)}`,
+    null,
+    { method: 'DELETE', signal }
+  );
+
+/** GET /api/finance/auto-recharge */
+export const getAutoRechargeRule = (signal?: AbortSignal) =>
+  requestContract<AutoRechargeRuleDto>(
+    'GetAutoRechargeRule',
+    '/api/finance/auto-recharge',
+    { $ref: 'AutoRechargeRuleDto' },
+    { signal }
+  );
+
+/** PUT /api/finance/auto-recharge */
+export const updateAutoRechargeRule = (body: AutoRechargeRuleRequest, signal?: AbortSignal) =>
+  requestContract<AutoRechargeRuleDto, AutoRechargeRuleRequest>(
+    'UpdateAutoRechargeRule',
+    '/api/finance/auto-recharge',
+    { $ref: 'AutoRechargeRuleDto' },
+    { method: 'PUT', body, signal }
+  );
+
+/** POST /api/finance/settlement */
+export const createSettlement = (body: SettlementRequest, signal?: AbortSignal) =>
+  requestContract<void, SettlementRequest>(
+    'CreateSettlement',
+    '/api/finance/settlement',
+    null,
+    { method: 'POST', body, signal }
+  );
+
+/** GET /api/finance/settlements */
+export const getSettlements = (signal?: AbortSignal) =>
+  requestContract<Array<SettlementDto>>(
+    'GetSettlements',
+    '/api/finance/settlements',
+    { type: 'array', items: { $ref: 'SettlementDto' } },
+    { signal }
+  );
+
+/** POST /api/finance/settlements/{id}/cancel */
+export const cancelSettlement = (id: string, signal?: AbortSignal) =>
+  requestContract<void>(
+    'CancelSettlement',
+    `/api/finance/settlements/${encodeURIComponent(id)}/cancel`,
+    null,
+    { method: 'POST', signal }
+  );
+
+/** GET /api/finance/payout-methods */
+export const getPayoutMethods = (signal?: AbortSignal) =>
+  requestContract<Array<PayoutMethodDto>>(
+    'GetPayoutMethods',
+    '/api/finance/payout-methods',
+    { type: 'array', items: { $ref: 'PayoutMethodDto' } },
+    { signal }
+  );
+
+/** DELETE /api/finance/payout-methods/{id} */
+export const deletePayoutMethod = (id: string, signal?: AbortSignal) =>
+  requestContract<void>(
+    'DeletePayoutMethod',
+    `/api/finance/payout-methods/${encodeURIComponent(id)}`,
+    null,
+    { method: 'DELETE', signal }
+  );
+
+/** POST /api/webhooks/stripe */
+export const stripeWebhook = (signal?: AbortSignal) =>
+  requestContract<void>(
+    'StripeWebhook',
+    '/api/webhooks/stripe',
+    null,
+    { method: 'POST', signal }
+  );
+
+/** POST /api/inference/tasks/{taskId} */
+export const submitInference = (taskId: string, body: SubmitInferenceRequest, signal?: AbortSignal) =>
+  requestContract<void, SubmitInferenceRequest>(
+    'SubmitInference',
+    `/api/inference/tasks/${encodeURIComponent(taskId)}`,
+    null,
+    { method: 'POST', body, signal }
+  );
+
+/** GET /api/inference/subtasks/{subtaskId} */
+export const getInferenceSubtask = (subtaskId: string, signal?: AbortSignal) =>
+  requestContract<void>(
+    'GetInferenceSubtask',
+    `/api/inference/subtasks/${encodeURIComponent(subtaskId)}`,
+    null,
+    { signal }
+  );
+
+/** GET /api/subtasks/available */
+export const getAvailableSubtasks = (signal?: AbortSignal) =>
+  requestContract<Array<SubtaskDto>>(
+    'GetAvailableSubtasks',
+    '/api/subtasks/available',
+    { type: 'array', items: { $ref: 'SubtaskDto' } },
+    { signal }
+  );
+
+/** GET /api/subtasks/device */
+export const getDeviceSubtasks = (query: { identifier?: string | null } = {}, signal?: AbortSignal) =>
+  requestContract<Array<SubtaskDto>>(
+    'GetDeviceSubtasks',
+    withQuery('/api/subtasks/device', { identifier: query.identifier }),
+    { type: 'array', items: { $ref: 'SubtaskDto' } },
+    { signal }
+  );
+
+/** GET /api/subtasks/history */
+export const getSubtaskHistory = (query: { since?: string | null } = {}, signal?: AbortSignal) =>
+  requestContract<Array<ProviderSubtaskHistoryDto>>(
+    'GetSubtaskHistory',
+    withQuery('/api/subtasks/history', { since: query.since }),
+    { type: 'array', items: { $ref: 'ProviderSubtaskHistoryDto' } },
+    { signal }
+  );
+
+/** POST /api/subtasks/{id}/accept */
+export const acceptSubtask = (id: string, body: AcceptSubtaskRequest, signal?: AbortSignal) =>
+  requestContract<SubtaskDto, AcceptSubtaskRequest>(
+    'AcceptSubtask',
+    `/api/subtasks/${encodeURIComponent(id)}/accept`,
+    { $ref: 'SubtaskDto' },
+    { method: 'POST', body, signal }
+  );
+
+/** POST /api/subtasks/{id}/complete */
+export const completeSubtask = (id: string, body: CompleteSubtaskRequest, signal?: AbortSignal) =>
+  requestContract<void, CompleteSubtaskRequest>(
+    'CompleteSubtask',
+    `/api/subtasks/${encodeURIComponent(id)}/complete`,
+    null,
+    { method: 'POST', body, signal }
+  );
+
+/** POST /api/subtasks/{id}/progress */
+export const reportSubtaskProgress = (id: string, body: ReportProgressRequest, signal?: AbortSignal) =>
+  requestContract<SubtaskDto, ReportProgressRequest>(
+    'ReportSubtaskProgress',
+    `/api/subtasks/${encodeURIComponent(id)}/progress`,
+    { $ref: 'SubtaskDto' },
+    { method: 'POST', body, signal }
+  );
+
+/** POST /api/subtasks/{id}/heartbeat */
+export const recordSubtaskHeartbeat = (id: string, body: HeartbeatRequest, signal?: AbortSignal) =>
+  requestContract<SubtaskDto, HeartbeatRequest>(
+    'RecordSubtaskHeartbeat',
+    `/api/subtasks/${encodeURIComponent(id)}/heartbeat`,
+    { $ref: 'SubtaskDto' },
+    { method: 'POST', body, signal }
+  );
+
+/** POST /api/subtasks/{id}/fail */
+export const failSubtask = (id: string, body: FailSubtaskRequest, signal?: AbortSignal) =>
+  requestContract<SubtaskDto, FailSubtaskRequest>(
+    'FailSubtask',
+    `/api/subtasks/${encodeURIComponent(id)}/fail`,
+    { $ref: 'SubtaskDto' },
+    { method: 'POST', body, signal }
+  );
+
+/** POST /api/subtasks/{id}/environment */
+export const updateSubtaskExecutionEnvironment = (id: string, body: UpdateExecutionEnvironmentRequest, signal?: AbortSignal) =>
+  requestContract<void, UpdateExecutionEnvironmentRequest>(
+    'UpdateSubtaskExecutionEnvironment',
+    `/api/subtasks/${encodeURIComponent(id)}/environment`,
+    null,
+    { method: 'POST', body, signal }
+  );
+
+/** POST /api/tasks/create */
+export const createTask = (body: CreateTaskRequest, signal?: AbortSignal) =>
+  requestContract<TaskDto, CreateTaskRequest>(
+    'CreateTask',
+    '/api/tasks/create',
+    { $ref: 'TaskDto' },
+    { method: 'POST', body, signal }
+  );
+
+/** POST /api/tasks/quote */
+export const quoteTask = (body: TaskQuoteRequest, signal?: AbortSignal) =>
+  requestContract<TaskQuoteDto, TaskQuoteRequest>(
+    'QuoteTask',
+    '/api/tasks/quote',
+    { $ref: 'TaskQuoteDto' },
+    { method: 'POST', body, signal }
+  );
+
+/** POST /api/tasks/upload-url */
+export const generateTaskUploadUrl = (body: GenerateTaskUploadUrlRequest, signal?: AbortSignal) =>
+  requestContract<void, GenerateTaskUploadUrlRequest>(
+    'GenerateTaskUploadUrl',
+    '/api/tasks/upload-url',
+    null,
+    { method: 'POST', body, signal }
+  );
+
+/** GET /api/tasks/my-tasks */
+export const getMyTasks = (query: { status?: TaskStatus } = {}, signal?: AbortSignal) =>
+  requestContract<Array<TaskDto>>(
+    'GetMyTasks',
+    withQuery('/api/tasks/my-tasks', { status: query.status }),
+    { type: 'array', items: { $ref: 'TaskDto' } },
+    { signal }
+  );
+
+/** GET /api/tasks/{id} */
+export const getTaskById = (id: string, signal?: AbortSignal) =>
+  requestContract<TaskDto>(
+    'GetTaskById',
+    `/api/tasks/${encodeURIComponent(id)}`,
+    { $ref: 'TaskDto' },
+    { signal }
+  );
+
+/** GET /api/tasks/{id}/subtasks */
+export const getTaskSubtasks = (id: string, signal?: AbortSignal) =>
+  requestContract<Array<SubtaskDto>>(
+    'GetTaskSubtasks',
+    `/api/tasks/${encodeURIComponent(id)}/subtasks`,
+    { type: 'array', items: { $ref: 'SubtaskDto' } },
+    { signal }
+  );
+
+/** POST /api/tasks/{id}/subtasks */
+export const createTaskSubtask = (id: string, body: CreateTaskSubtaskRequest, signal?: AbortSignal) =>
+  requestContract<SubtaskDto, CreateTaskSubtaskRequest>(
+    'CreateTaskSubtask',
+    `/api/tasks/${encodeURIComponent(id)}/subtasks`,
+    { $ref: 'SubtaskDto' },
+    { method: 'POST', body, signal }
+  );
+
+/** POST /api/tasks/{id}/cancel */
+export const cancelTask = (id: string, signal?: AbortSignal) =>
+  requestContract<void>(
+    'CancelTask',
+    `/api/tasks/${encodeURIComponent(id)}/cancel`,
+    null,
+    { method: 'POST', signal }
+  );
+
+/** POST /api/tasks/{id}/pause */
+export const pauseTask = (id: string, signal?: AbortSignal) =>
+  requestContract<void>(
+    'PauseTask',
+    `/api/tasks/${encodeURIComponent(id)}/pause`,
+    null,
+    { method: 'POST', signal }
+  );
+
+/** POST /api/tasks/{id}/resume */
+export const resumeTask = (id: string, signal?: AbortSignal) =>
+  requestContract<void>(
+    'ResumeTask',
+    `/api/tasks/${encodeURIComponent(id)}/resume`,
+    null,
+    { method: 'POST', signal }
+  );
+
+/** POST /api/tasks/{id}/retry-failed */
+export const retryFailedSubtasks = (id: string, signal?: AbortSignal) =>
+  requestContract<RetryFailedSubtasksResponse>(
+    'RetryFailedSubtasks',
+    `/api/tasks/${encodeURIComponent(id)}/retry-failed`,
+    { $ref: 'RetryFailedSubtasksResponse' },
+    { method: 'POST', signal }
+  );
+
+/** POST /api/tasks/{id}/subtasks/{subtaskId}/cancel */
+export const cancelTaskSubtask = (id: string, subtaskId: string, signal?: AbortSignal) =>
+  requestContract<void>(
+    'CancelTaskSubtask',
+    `/api/tasks/${encodeURIComponent(id)}/subtasks/${encodeURIComponent(subtaskId)}/cancel`,
+    null,
+    { method: 'POST', signal }
+  );
+
+/** GET /api/tasks/requestor-intake */
+export const getRequestorIntake = (signal?: AbortSignal) =>
+  requestContract<void>(
+    'GetRequestorIntake',
+    '/api/tasks/requestor-intake',
+    null,
+    { signal }
+  );
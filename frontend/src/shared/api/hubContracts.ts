@@ -0,0 +1,129 @@
+import { reportContractViolation } from '../stores/contractDiagnosticsStore';
+import { parseContract, type ContractParseOptions, type ContractSchema, type ContractSchemaRegistry } from './contractValidation';
+import { contractSchemas, type SubtaskDto, type SubtaskStatus, type TaskStatus } from './generated/contract';
+
+/**
+ * Envelopes the task hub wraps around the REST DTOs. SignalR messages are not
+ * part of the OpenAPI document, so they are declared here and reference the
+ * generated DTO schemas for everything they carry.
+ */
+const hubEnvelopeSchemas = {
+  SubtaskProgressMessage: {
+    type: 'object',
+    properties: {
+      subtask: { $ref: 'SubtaskDto', nullable: true },
+      subtaskId: { type: 'string', nullable: true },
+      providerUserId: { type: 'string', nullable: true },
+      progress: { type: 'integer' },
+      lastHeartbeatAtUtc: { type: 'string', format: 'date-time', nullable: true }
+    },
+    required: ['progress']
+  },
+  SubtaskCompleteMessage: {
+    type: 'object',
+    properties: {
+      subtask: { $ref: 'SubtaskDto', nullable: true },
+      subtaskId: { type: 'string', nullable: true },
+      providerUserId: { type: 'string', nullable: true },
+      completedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      results: { type: 'any' }
+    }
+  },
+  SubtaskFailureMessage: {
+    type: 'object',
+    properties: {
+      subtask: { $ref: 'SubtaskDto', nullable: true },
+      subtaskId: { type: 'string', nullable: true },
+      providerUserId: { type: 'string', nullable: true },
+      failedAtUtc: { type: 'string', format: 'date-time', nullable: true },
+      wasReassigned: { type: 'boolean' },
+      taskFailed: { type: 'boolean' },
+      error: { type: 'any' }
+    },
+    required: ['wasReassigned', 'taskFailed']
+  },
+  AvailableSubtasksChangedMessage: {
+    type: 'object',
+    properties: {
+      subtaskId: { type: 'string' },
+      taskId: { type: 'string', nullable: true },
+      status: { $ref: 'SubtaskStatus' },
+      taskStatus: { $ref: 'TaskStatus', nullable: true },
+      createdByUserId: { type: 'string', nullable: true },
+      acceptedByProviderId: { type: 'string', nullable: true },
+      completedByProviderId: { type: 'string', nullable: true },
+      failedByProviderId: { type: 'string', nullable: true },
+      wasReassigned: { type: 'boolean', nullable: true },
+      timestampUtc: { type: 'string', format: 'date-time' },
+      subtask: { $ref: 'SubtaskDto', nullable: true }
+    },
+    required: ['subtaskId', 'status', 'timestampUtc']
+  }
+} as const satisfies ContractSchemaRegistry;
+
+export type HubContractSchemaName = keyof typeof contractSchemas | keyof typeof hubEnvelopeSchemas;
+
+const hubSchemas: ContractSchemaRegistry = { ...contractSchemas, ...hubEnvelopeSchemas };
+
+export interface SubtaskProgressMessage {
+  subtask?: SubtaskDto | null;
+  subtaskId?: string | null;
+  providerUserId?: string | null;
+  progress: number;
+  lastHeartbeatAtUtc?: string | null;
+}
+
+export interface SubtaskCompleteMessage {
+  subtask?: SubtaskDto | null;
+  subtaskId?: string | null;
+  providerUserId?: string | null;
+  completedAtUtc?: string | null;
+  results?: unknown;
+}
+
+export interface SubtaskFailureMessage {
+  subtask?: SubtaskDto | null;
+  subtaskId?: string | null;
+  providerUserId?: string | null;
+  failedAtUtc?: string | null;
+  wasReassigned: boolean;
+  taskFailed: boolean;
+  error?: unknown;
+}
+
+export interface AvailableSubtasksChangedMessage {
+  subtaskId: string;
+  taskId?: string | null;
+  status: SubtaskStatus;
+  /** Sent when the parent task is paused, resumed or cancelled. */
+  taskStatus?: TaskStatus | null;
+  /** Sent when the subtask is created. */
+  createdByUserId?: string | null;
+  acceptedByProviderId?: string | null;
+  completedByProviderId?: string | null;
+  failedByProviderId?: string | null;
+  wasReassigned?: boolean | null;
+  timestampUtc: string;
+  subtask?: SubtaskDto | null;
+}
+
+/**
+ * Normalizes a hub message to its schema. A message that does not match is
+ * reported to the contract diagnostics log and dropped rather than patched
+ * with guessed values.
+ */
+export const parseHubMessage = <T>(
+  eventName: string,
+  schemaName: HubContractSchemaName,
+  raw: unknown,
+  options?: ContractParseOptions
+): T | null => {
+  const schema: ContractSchema = { $ref: schemaName };
+  const { value, issues } = parseContract<T>(schema, raw, hubSchemas, options);
+  if (issues.length > 0) {
+    reportContractViolation('hub', eventName, issues);
+    return null;
+  }
+
+  return value;
+};
@@ -10,21 +10,55 @@ import {
   UserRoundPen,
   Palette,
   Check,
+  Repeat,
+  ShieldCheck,
+  ChartColumn,
 } from "lucide-react";
 import scalerize from "../../assets/logo-blue.png";
+import type { UserRole } from "../../features/auth/stores/authStore";
+import { ROLE_LABELS } from "../../features/auth/utils/roles";
+import { ROUTE_ROLES } from "../layout/routeAccess";
 import { useThemeStore, type ThemeMode } from "../stores/themeStore";
 
 type NavItem = {
   to: string;
   label: string;
   Icon: typeof LayoutDashboard;
+  roles: readonly UserRole[];
 };
 
 const NAV_ITEMS: NavItem[] = [
-  { to: "/", label: "Dashboard", Icon: LayoutDashboard },
-  { to: "/tasks", label: "Provider Tasks", Icon: ClipboardList },
-  { to: "/requests", label: "Requests", Icon: Send },
-  { to: "/finance", label: "Payments & Earnings", Icon: Wallet },
+  {
+    to: "/",
+    label: "Dashboard",
+    Icon: LayoutDashboard,
+    roles: ROUTE_ROLES.dashboard,
+  },
+  {
+    to: "/tasks",
+    label: "Provider Tasks",
+    Icon: ClipboardList,
+    roles: ROUTE_ROLES.tasks,
+  },
+  { to: "/requests", label: "Requests", Icon: Send, roles: ROUTE_ROLES.requests },
+  {
+    to: "/finance",
+    label: "Payments & Earnings",
+    Icon: Wallet,
+    roles: ROUTE_ROLES.finance,
+  },
+  {
+    to: "/analytics",
+    label: "Analytics",
+    Icon: ChartColumn,
+    roles: ROUTE_ROLES.analytics,
+  },
+  {
+    to: "/admin",
+    label: "Admin console",
+    Icon: ShieldCheck,
+    roles: ROUTE_ROLES.admin,
+  },
 ];
 
 export type AppNavigationProps = {
@@ -35,6 +69,9 @@ export type AppNavigationProps = {
     label: string;
     badge: string;
   };
+  activeRole: UserRole;
+  availableRoles: UserRole[];
+  onSwitchRole: (role: UserRole) => void;
   onRequestProfileUpdate: () => void;
   onSignOut: () => void;
 };
@@ -43,6 +80,9 @@ export const AppNavigation = ({
   mobileNavOpen,
   onCloseMobileNav,
   userPresentation,
+  activeRole,
+  availableRoles,
+  onSwitchRole,
   onRequestProfileUpdate,
   onSignOut,
 }: AppNavigationProps) => {
@@ -54,6 +94,8 @@ export const AppNavigation = ({
     { value: 'system', label: 'System' },
   ];
 
+  const navItems = NAV_ITEMS.filter(({ roles }) => roles.includes(activeRole));
+
   return (
   <nav
     className={`bg-white shadow-lg md:flex md:h-auto md:w-64 md:flex-col dark:bg-slate-900 ${
@@ -74,7 +116,7 @@ export const AppNavigation = ({
       </div>
 
       <ul className="space-y-1 px-3 pb-6 pt-4 md:mt-6">
-        {NAV_ITEMS.map(({ to, label, Icon }) => (
+        {navItems.map(({ to, label, Icon }) => (
           <li key={to}>
             <NavLink
               to={to}
@@ -135,6 +177,33 @@ export const AppNavigation = ({
                 <UserRoundPen className="h-4 w-4" />
                 Update profile
               </DropdownMenu.Item>
+
+              {availableRoles.length > 1 ? (
+                <>
+                  <DropdownMenu.Separator className="my-1 h-px bg-slate-100 dark:bg-slate-700" />
+
+                  <DropdownMenu.Label className="px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-400 dark:text-slate-500">
+                    Active role
+                  </DropdownMenu.Label>
+
+                  {availableRoles.map((role) => (
+                    <DropdownMenu.Item
+                      key={role}
+                      onSelect={() => onSwitchRole(role)}
+                      className="flex cursor-pointer items-center gap-2 rounded-lg px-3 py-2 outline-none transition hover:bg-indigo-50 hover:text-indigo-600 data-[highlighted]:bg-indigo-50 data-[highlighted]:text-indigo-600 dark:hover:bg-indigo-950/50 dark:data-[highlighted]:bg-indigo-950/50"
+                    >
+                      <span className="flex h-4 w-4 items-center justify-center">
+                        {activeRole === role ? (
+                          <Check className="h-4 w-4" />
+                        ) : (
+                          <Repeat className="h-3.5 w-3.5 text-slate-400" />
+                        )}
+                      </span>
+                      {ROLE_LABELS[role]}
+                    </DropdownMenu.Item>
+                  ))}
+                </>
+              ) : null}
               
               <DropdownMenu.Separator className="my-1 h-px bg-slate-100 dark:bg-slate-700" />
               
@@ -0,0 +1,128 @@
+import type { ReactNode } from "react";
+
+export interface BarChartPoint {
+  key: string;
+  label: string;
+  /** `null` marks a bucket without data, drawn as a gap rather than a 0. */
+  value: number | null;
+}
+
+interface BarChartProps {
+  title: string;
+  description?: string;
+  /** Headline figure shown next to the title, e.g. the period total. */
+  summary?: ReactNode;
+  data: BarChartPoint[];
+  formatValue: (value: number) => string;
+  tone?: "indigo" | "emerald" | "rose" | "amber";
+  isLoading?: boolean;
+  isError?: boolean;
+  emptyMessage?: string;
+  errorMessage?: string;
+}
+
+const BAR_TONES: Record<NonNullable<BarChartProps["tone"]>, string> = {
+  indigo: "bg-indigo-500 dark:bg-indigo-400",
+  emerald: "bg-emerald-500 dark:bg-emerald-400",
+  rose: "bg-rose-500 dark:bg-rose-400",
+  amber: "bg-amber-500 dark:bg-amber-400",
+};
+
+// Enough axis labels to orient, few enough not to overlap on narrow cards.
+const MAX_AXIS_LABELS = 6;
+
+export const BarChart = ({
+  title,
+  description,
+  summary,
+  data,
+  formatValue,
+  tone = "indigo",
+  isLoading = false,
+  isError = false,
+  emptyMessage = "No data for this period yet.",
+  errorMessage = "Unable to load data. Please retry shortly.",
+}: BarChartProps) => {
+  const max = Math.max(0, ...data.map((point) => point.value ?? 0));
+  const labelEvery = Math.max(1, Math.ceil(data.length / MAX_AXIS_LABELS));
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <div className="h-40 animate-pulse rounded-lg bg-slate-100 dark:bg-slate-800" />
+      );
+    }
+
+    if (isError) {
+      return (
+        <div className="flex h-40 items-center justify-center text-sm text-rose-600 dark:text-rose-400">
+          {errorMessage}
+        </div>
+      );
+    }
+
+    if (max === 0) {
+      return (
+        <div className="flex h-40 items-center justify-center text-sm text-slate-500 dark:text-slate-400">
+          {emptyMessage}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-2">
+        <p className="text-[11px] text-slate-400 dark:text-slate-500">
+          {formatValue(max)}
+        </p>
+        <div className="flex h-40 items-end gap-1 border-b border-slate-200 dark:border-slate-700">
+          {data.map((point) => (
+            <div
+              key={point.key}
+              className="group flex h-full flex-1 items-end"
+              title={`${point.label}: ${
+                point.value === null ? "no data" : formatValue(point.value)
+              }`}
+            >
+              <div
+                className={`w-full rounded-t transition group-hover:opacity-80 ${BAR_TONES[tone]}`}
+                style={{
+                  height: `${((point.value ?? 0) / max) * 100}%`,
+                }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1 text-[11px] text-slate-400 dark:text-slate-500">
+          {data.map((point, index) => (
+            <span key={point.key} className="flex-1 truncate text-center">
+              {index % labelEvery === 0 ? point.label : ""}
+            </span>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-700 dark:bg-slate-900">
+      <header className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-base font-semibold text-slate-900 dark:text-slate-100">
+            {title}
+          </h3>
+          {description ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {description}
+            </p>
+          ) : null}
+        </div>
+        {summary ? (
+          <div className="text-right text-lg font-semibold text-slate-900 dark:text-slate-100">
+            {summary}
+          </div>
+        ) : null}
+      </header>
+      {renderBody()}
+    </section>
+  );
+};
@@ -0,0 +1,88 @@
+import type { ReactNode } from "react";
+
+export interface BreakdownItem {
+  key: string;
+  label: ReactNode;
+  value: number;
+  /** Secondary figure under the label, e.g. a count or a rate. */
+  detail?: ReactNode;
+}
+
+interface BreakdownBarsProps {
+  title: string;
+  description?: string;
+  items: BreakdownItem[];
+  formatValue: (value: number) => string;
+  isLoading?: boolean;
+  isError?: boolean;
+  emptyMessage?: string;
+  errorMessage?: string;
+}
+
+/** Horizontal bars comparing categories, largest first. */
+export const BreakdownBars = ({
+  title,
+  description,
+  items,
+  formatValue,
+  isLoading = false,
+  isError = false,
+  emptyMessage = "No data for this period yet.",
+  errorMessage = "Unable to load data. Please retry shortly.",
+}: BreakdownBarsProps) => {
+  const sorted = [...items].sort((left, right) => right.value - left.value);
+  const max = Math.max(0, ...sorted.map((item) => item.value));
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-700 dark:bg-slate-900">
+      <header>
+        <h3 className="text-base font-semibold text-slate-900 dark:text-slate-100">
+          {title}
+        </h3>
+        {description ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {description}
+          </p>
+        ) : null}
+      </header>
+
+      {isLoading ? (
+        <div className="h-24 animate-pulse rounded-lg bg-slate-100 dark:bg-slate-800" />
+      ) : isError ? (
+        <p className="py-6 text-center text-sm text-rose-600 dark:text-rose-400">
+          {errorMessage}
+        </p>
+      ) : sorted.length === 0 || max === 0 ? (
+        <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+          {emptyMessage}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {sorted.map((item) => (
+            <li key={item.key} className="space-y-1">
+              <div className="flex items-baseline justify-between gap-3 text-sm">
+                <span className="min-w-0 truncate font-medium text-slate-700 dark:text-slate-200">
+                  {item.label}
+                </span>
+                <span className="shrink-0 font-semibold text-slate-900 dark:text-slate-100">
+                  {formatValue(item.value)}
+                </span>
+              </div>
+              <div className="h-2 overflow-hidden rounded-full bg-slate-100 dark:bg-slate-800">
+                <div
+                  className="h-full rounded-full bg-indigo-500 dark:bg-indigo-400"
+                  style={{ width: `${(item.value / max) * 100}%` }}
+                />
+              </div>
+              {item.detail ? (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {item.detail}
+                </p>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
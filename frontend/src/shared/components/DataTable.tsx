@@ -2,7 +2,7 @@ import { type ReactNode } from "react";
 
 interface DataTableColumn<T> {
   key: string;
-  header: string;
+  header: ReactNode;
   render: (item: T) => ReactNode;
   headerClassName?: string;
   cellClassName?: string;
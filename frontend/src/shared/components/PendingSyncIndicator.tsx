@@ -0,0 +1,58 @@
+import { AlertTriangle, CloudOff, RefreshCw, X } from "lucide-react";
+import { useOutboundQueueStore } from "../stores/outboundQueueStore";
+
+/**
+ * Shows how many updates are stored locally until the backend acknowledges
+ * them, and the last replayed update the backend refused.
+ */
+export const PendingSyncIndicator = () => {
+  const pendingCount = useOutboundQueueStore((state) => state.pendingCount);
+  const isSyncing = useOutboundQueueStore((state) => state.isSyncing);
+  const lastRejection = useOutboundQueueStore((state) => state.lastRejection);
+  const dismissRejection = useOutboundQueueStore(
+    (state) => state.dismissRejection
+  );
+
+  if (pendingCount === 0 && !lastRejection) {
+    return null;
+  }
+
+  return (
+    <div className="pointer-events-none fixed bottom-4 right-4 z-40 flex flex-col items-end gap-2">
+      {lastRejection && (
+        <div
+          role="alert"
+          className="pointer-events-auto flex max-w-sm items-start gap-2 rounded-lg border border-rose-200 bg-white px-3 py-2 text-xs text-rose-700 shadow-lg dark:border-rose-900/60 dark:bg-slate-900 dark:text-rose-400"
+        >
+          <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          <span>
+            {lastRejection.label} could not be synced: {lastRejection.message}
+          </span>
+          <button
+            type="button"
+            onClick={dismissRejection}
+            aria-label="Dismiss sync error"
+            className="rounded p-0.5 text-rose-400 transition hover:bg-rose-50 hover:text-rose-600 dark:hover:bg-rose-950/50"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
+      {pendingCount > 0 && (
+        <div
+          role="status"
+          title="These updates are stored on this device and are sent automatically once the backend is reachable."
+          className="pointer-events-auto inline-flex items-center gap-2 rounded-full border border-amber-200 bg-amber-50 px-3 py-1.5 text-xs font-medium text-amber-700 shadow-lg dark:border-amber-900/60 dark:bg-amber-950/80 dark:text-amber-300"
+        >
+          {isSyncing ? (
+            <RefreshCw className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <CloudOff className="h-3.5 w-3.5" />
+          )}
+          {pendingCount} {pendingCount === 1 ? "update" : "updates"} pending
+          sync
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,9 +4,12 @@ import { Menu, X } from "lucide-react";
 import {
   useAuthStore,
   type AuthUser,
+  type UserRole,
 } from "../../features/auth/stores/authStore";
 import { UserProfileUpdateDialog } from "../../features/requestor/components/UserProfileUpdateDialog";
 import { AppNavigation } from "../components/AppNavigation";
+import { PendingSyncIndicator } from "../components/PendingSyncIndicator";
+import { canAccessPath } from "./routeAccess";
 import scalerize from "../../assets/logo-blue.png";
 
 const capitalize = (value: string) =>
@@ -112,6 +115,7 @@ export const ProtectedAppShell = () => {
   const location = useLocation();
   const user = useAuthStore((state) => state.user);
   const clearAuth = useAuthStore((state) => state.clearAuth);
+  const setActiveRole = useAuthStore((state) => state.setActiveRole);
 
   const derivedNameParts = useMemo(() => deriveNameParts(user), [user]);
 
@@ -146,6 +150,14 @@ export const ProtectedAppShell = () => {
     navigate("/auth/login", { replace: true });
   };
 
+  const handleSwitchRole = (role: UserRole) => {
+    setActiveRole(role);
+    // Leave pages the new role cannot open instead of showing the guard.
+    if (!canAccessPath(role, location.pathname)) {
+      navigate("/", { replace: true });
+    }
+  };
+
   return (
     <div className="flex h-screen flex-col bg-slate-100 md:flex-row dark:bg-slate-950">
       <header className="relative flex items-start justify-between bg-white shadow md:hidden dark:bg-slate-900 dark:shadow-slate-800">
@@ -173,6 +185,9 @@ export const ProtectedAppShell = () => {
         mobileNavOpen={mobileNavOpen}
         onCloseMobileNav={() => setMobileNavOpen(false)}
         userPresentation={userPresentation}
+        activeRole={user.role}
+        availableRoles={user.roles}
+        onSwitchRole={handleSwitchRole}
         onRequestProfileUpdate={() => setProfileDialogOpen(true)}
         onSignOut={handleSignOut}
       />
@@ -181,6 +196,8 @@ export const ProtectedAppShell = () => {
         <Outlet />
       </main>
 
+      <PendingSyncIndicator />
+
       <UserProfileUpdateDialog
         open={profileDialogOpen}
         onDismiss={() => setProfileDialogOpen(false)}
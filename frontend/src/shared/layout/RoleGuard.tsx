@@ -0,0 +1,61 @@
+import { Outlet } from "react-router-dom";
+import { ShieldOff } from "lucide-react";
+import {
+  useAuthStore,
+  type UserRole,
+} from "../../features/auth/stores/authStore";
+import { ROLE_LABELS } from "../../features/auth/utils/roles";
+
+interface RoleGuardProps {
+  allowedRoles: readonly UserRole[];
+}
+
+/**
+ * Renders the nested routes only for the allowed roles. Other users get an
+ * explanation instead of a page whose queries are all disabled, plus a
+ * shortcut to switch when the account holds a role that can open it.
+ */
+export const RoleGuard = ({ allowedRoles }: RoleGuardProps) => {
+  const user = useAuthStore((state) => state.user);
+  const setActiveRole = useAuthStore((state) => state.setActiveRole);
+
+  if (!user || allowedRoles.includes(user.role)) {
+    return <Outlet />;
+  }
+
+  const switchableRoles = user.roles.filter((role) =>
+    allowedRoles.includes(role)
+  );
+
+  return (
+    <div className="flex h-full items-center justify-center">
+      <div className="max-w-md rounded-2xl border border-slate-200 bg-white p-8 text-center shadow-sm dark:border-slate-700 dark:bg-slate-900">
+        <span className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400">
+          <ShieldOff className="h-6 w-6" />
+        </span>
+        <h2 className="mt-4 text-lg font-semibold text-slate-900 dark:text-white">
+          Not available for your role
+        </h2>
+        <p className="mt-2 text-sm text-slate-500 dark:text-slate-400">
+          This page is only available to{" "}
+          {allowedRoles.map((role) => ROLE_LABELS[role]).join(" or ")}{" "}
+          accounts. You are signed in as {ROLE_LABELS[user.role]}.
+        </p>
+        {switchableRoles.length > 0 ? (
+          <div className="mt-6 flex flex-wrap justify-center gap-2">
+            {switchableRoles.map((role) => (
+              <button
+                key={role}
+                type="button"
+                onClick={() => setActiveRole(role)}
+                className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-500 dark:bg-indigo-700 dark:hover:bg-indigo-600"
+              >
+                Switch to {ROLE_LABELS[role]}
+              </button>
+            ))}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import type { UserRole } from '../../features/auth/stores/authStore';
+
+const EVERY_ROLE: readonly UserRole[] = ['Requestor', 'Provider', 'Admin'];
+
+/**
+ * Roles allowed on each app section. Routes are guarded with these and the
+ * navigation hides the sections the active role cannot open.
+ */
+export const ROUTE_ROLES = {
+  dashboard: EVERY_ROLE,
+  tasks: ['Provider'],
+  requests: ['Requestor'],
+  finance: EVERY_ROLE,
+  analytics: ['Provider', 'Requestor'],
+  admin: ['Admin']
+} satisfies Record<string, readonly UserRole[]>;
+
+/** Whether the active role may open `pathname`; unknown paths are left to the router. */
+export const canAccessPath = (role: UserRole, pathname: string) => {
+  const section = pathname.split('/').filter(Boolean)[0] ?? 'dashboard';
+  const allowedRoles: readonly UserRole[] | undefined =
+    ROUTE_ROLES[section as keyof typeof ROUTE_ROLES];
+  return !allowedRoles || allowedRoles.includes(role);
+};
@@ -0,0 +1,60 @@
+import { useEffect, type ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '../../features/auth/stores/authStore';
+import { registerSessionRefresh } from '../../features/auth/utils/sessionRefresh';
+import { registerAutoAcceptScheduler } from '../../features/provider/utils/autoAcceptScheduler';
+import { registerProviderHubSync } from '../../features/provider/utils/providerHubSync';
+import { registerRequestorHubSync } from '../../features/requestor/utils/requestorHubSync';
+import { OutboundQueue } from '../services/OutboundQueue';
+import { TaskHubConnection } from '../services/TaskHubConnection';
+
+interface RealtimeProviderProps {
+  children: ReactNode;
+}
+
+export const RealtimeProvider = ({ children }: RealtimeProviderProps) => {
+  const queryClient = useQueryClient();
+  const userId = useAuthStore((state) => state.user?.id ?? null);
+  const role = useAuthStore((state) => state.user?.role ?? null);
+  const hasToken = useAuthStore((state) => state.token !== null);
+
+  useEffect(() => registerSessionRefresh(), []);
+
+  useEffect(() => {
+    const unregisterProvider = registerProviderHubSync(queryClient);
+    const unregisterRequestor = registerRequestorHubSync(queryClient);
+    const unregisterAutoAccept = registerAutoAcceptScheduler(queryClient);
+
+    return () => {
+      unregisterProvider();
+      unregisterRequestor();
+      unregisterAutoAccept();
+    };
+  }, [queryClient]);
+
+  // Replays the queued mutations of whoever is signed in now.
+  useEffect(() => {
+    if (!userId || !hasToken) {
+      return;
+    }
+
+    return OutboundQueue.start();
+  }, [userId, hasToken]);
+
+  // Reconnect whenever the identity changes; token refreshes for the same
+  // user are picked up by the connection's access token factory instead.
+  useEffect(() => {
+    if (!userId || !hasToken) {
+      void TaskHubConnection.disconnect();
+      return;
+    }
+
+    void TaskHubConnection.connect();
+
+    return () => {
+      void TaskHubConnection.disconnect();
+    };
+  }, [userId, role, hasToken]);
+
+  return <>{children}</>;
+};
@@ -0,0 +1,337 @@
+import { bytesToBase64, Md5, md5Base64 } from '../utils/md5';
+
+const STORAGE_PREFIX = 'infinitegpu.uploads.';
+const DEFAULT_BLOCK_SIZE = 8 * 1024 * 1024;
+const DEFAULT_CONCURRENCY = 4;
+const MAX_BLOCK_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+const HASH_SLICE_SIZE = 4 * 1024 * 1024;
+
+// Azure keeps uncommitted blocks for seven days; stay well inside that.
+const RESUME_TTL_MS = 6 * 24 * 60 * 60 * 1000;
+
+export interface UploadTarget {
+  blobUri: string;
+  uploadUri: string;
+  expiresAtUtc?: string | null;
+}
+
+export interface UploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+  completedBlocks: number;
+  totalBlocks: number;
+  resumed: boolean;
+}
+
+export interface BlockUploadOptions {
+  file: File;
+  /**
+   * Stable identifier of this upload slot. Uploads with the same key and the
+   * same file resume from the blocks already sent.
+   */
+  resumeKey: string;
+  /** Requests a (fresh) SAS target. Called again when the stored one expired. */
+  resolveTarget: () => Promise<UploadTarget>;
+  /** Free-form values persisted with the upload, e.g. the task it belongs to. */
+  context?: Record<string, string>;
+  blockSize?: number;
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export interface BlockUploadResult {
+  blobUri: string;
+  contentMd5: string;
+  resumed: boolean;
+}
+
+interface PersistedUploadState {
+  fingerprint: string;
+  blockSize: number;
+  blobUri: string;
+  uploadUri: string;
+  expiresAtUtc: string | null;
+  completedBlocks: number[];
+  context: Record<string, string>;
+  startedAt: number;
+}
+
+const storageKey = (resumeKey: string) => `${STORAGE_PREFIX}${resumeKey}`;
+
+const fingerprintFile = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+const readState = (resumeKey: string): PersistedUploadState | null => {
+  try {
+    const raw = window.localStorage.getItem(storageKey(resumeKey));
+    if (!raw) {
+      return null;
+    }
+
+    const state = JSON.parse(raw) as PersistedUploadState;
+    if (Date.now() - state.startedAt > RESUME_TTL_MS) {
+      window.localStorage.removeItem(storageKey(resumeKey));
+      return null;
+    }
+
+    return state;
+  } catch {
+    return null;
+  }
+};
+
+const writeState = (resumeKey: string, state: PersistedUploadState) => {
+  try {
+    window.localStorage.setItem(storageKey(resumeKey), JSON.stringify(state));
+  } catch {
+    // Quota errors only cost us the ability to resume.
+  }
+};
+
+const clearState = (resumeKey: string) => {
+  try {
+    window.localStorage.removeItem(storageKey(resumeKey));
+  } catch {
+    // Ignore storage access errors.
+  }
+};
+
+// Block IDs must be base64 and share one length within a blob.
+const blockId = (index: number) => btoa(`block-${index.toString().padStart(6, '0')}`);
+
+const withQuery = (uri: string, params: Record<string, string>) => {
+  const url = new URL(uri);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.toString();
+};
+
+const isTargetExpired = (expiresAtUtc: string | null | undefined) => {
+  if (!expiresAtUtc) {
+    return false;
+  }
+
+  // Leave a minute of slack so a block does not start on a dying SAS token.
+  return new Date(expiresAtUtc).getTime() - 60000 <= Date.now();
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+
+    const handleAbort = () => {
+      window.clearTimeout(timer);
+      reject(signal?.reason);
+    };
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+
+const describeFailure = async (response: Response) => {
+  const message = await response.text().catch(() => '');
+  return `Azure upload failed (${response.status} ${response.statusText})${message ? `: ${message}` : ''}`;
+};
+
+// 4xx responses other than timeouts/throttling will not succeed on retry.
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+class UploadHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'UploadHttpError';
+    this.status = status;
+  }
+}
+
+const computeFileMd5 = async (file: File, signal?: AbortSignal) => {
+  const hash = new Md5();
+  for (let offset = 0; offset < file.size; offset += HASH_SLICE_SIZE) {
+    signal?.throwIfAborted();
+    const slice = await file.slice(offset, offset + HASH_SLICE_SIZE).arrayBuffer();
+    hash.update(new Uint8Array(slice));
+  }
+  return bytesToBase64(hash.digest());
+};
+
+/**
+ * Uploads files to Azure Blob Storage SAS URLs as block blobs: blocks are sent
+ * in parallel with per-block MD5 validation and retried with backoff, and
+ * progress is persisted so an interrupted upload resumes after a reload.
+ */
+export const BlockUploadManager = {
+  /** Returns the persisted context of an unfinished upload for this file. */
+  findResumable(resumeKey: string, file: File): Record<string, string> | null {
+    const state = readState(resumeKey);
+    return state && state.fingerprint === fingerprintFile(file) ? state.context : null;
+  },
+
+  discard(resumeKey: string) {
+    clearState(resumeKey);
+  },
+
+  async upload({
+    file,
+    resumeKey,
+    resolveTarget,
+    context = {},
+    blockSize = DEFAULT_BLOCK_SIZE,
+    concurrency = DEFAULT_CONCURRENCY,
+    signal,
+    onProgress
+  }: BlockUploadOptions): Promise<BlockUploadResult> {
+    const fingerprint = fingerprintFile(file);
+    const stored = readState(resumeKey);
+    const canResume =
+      stored !== null && stored.fingerprint === fingerprint && stored.blockSize === blockSize;
+
+    let state: PersistedUploadState;
+    if (canResume && stored) {
+      state = stored;
+    } else {
+      const target = await resolveTarget();
+      state = {
+        fingerprint,
+        blockSize,
+        blobUri: target.blobUri,
+        uploadUri: target.uploadUri,
+        expiresAtUtc: target.expiresAtUtc ?? null,
+        completedBlocks: [],
+        context,
+        startedAt: Date.now()
+      };
+      writeState(resumeKey, state);
+    }
+
+    let refreshingTarget: Promise<void> | null = null;
+    const ensureFreshTarget = async () => {
+      if (!isTargetExpired(state.expiresAtUtc)) {
+        return;
+      }
+
+      refreshingTarget ??= resolveTarget()
+        .then((target) => {
+          if (target.blobUri !== state.blobUri) {
+            clearState(resumeKey);
+            throw new Error('Upload target changed while resuming; restart the upload.');
+          }
+          state = { ...state, uploadUri: target.uploadUri, expiresAtUtc: target.expiresAtUtc ?? null };
+          writeState(resumeKey, state);
+        })
+        .finally(() => {
+          refreshingTarget = null;
+        });
+
+      await refreshingTarget;
+    };
+
+    // An empty file commits an empty block list.
+    const totalBlocks = Math.ceil(file.size / blockSize);
+    const completed = new Set(state.completedBlocks.filter((index) => index < totalBlocks));
+    const blockBytes = (index: number) => Math.min(blockSize, file.size - index * blockSize);
+    let uploadedBytes = [...completed].reduce((sum, index) => sum + blockBytes(index), 0);
+
+    const reportProgress = () =>
+      onProgress?.({
+        uploadedBytes,
+        totalBytes: file.size,
+        completedBlocks: completed.size,
+        totalBlocks,
+        resumed: canResume
+      });
+
+    reportProgress();
+
+    const putBlock = async (index: number) => {
+      const start = index * blockSize;
+      const bytes = new Uint8Array(await file.slice(start, start + blockSize).arrayBuffer());
+      const contentMd5 = md5Base64(bytes);
+
+      for (let attempt = 1; ; attempt += 1) {
+        signal?.throwIfAborted();
+        await ensureFreshTarget();
+
+        try {
+          const response = await fetch(withQuery(state.uploadUri, { comp: 'block', blockid: blockId(index) }), {
+            method: 'PUT',
+            headers: { 'Content-MD5': contentMd5 },
+            body: bytes,
+            signal
+          });
+
+          if (response.ok) {
+            return;
+          }
+
+          throw new UploadHttpError(response.status, await describeFailure(response));
+        } catch (error) {
+          const retryable =
+            !signal?.aborted &&
+            attempt < MAX_BLOCK_ATTEMPTS &&
+            (!(error instanceof UploadHttpError) || isRetryableStatus(error.status));
+          if (!retryable) {
+            throw error;
+          }
+
+          const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+          await sleep(delay + Math.random() * 250, signal);
+        }
+      }
+    };
+
+    const pending = Array.from({ length: totalBlocks }, (_, index) => index).filter(
+      (index) => !completed.has(index)
+    );
+
+    const worker = async () => {
+      for (let index = pending.shift(); index !== undefined; index = pending.shift()) {
+        await putBlock(index);
+        completed.add(index);
+        uploadedBytes += blockBytes(index);
+        state = { ...state, completedBlocks: [...completed] };
+        writeState(resumeKey, state);
+        reportProgress();
+      }
+    };
+
+    const [contentMd5] = await Promise.all([
+      computeFileMd5(file, signal),
+      ...Array.from({ length: Math.min(concurrency, pending.length) }, worker)
+    ]);
+
+    await ensureFreshTarget();
+    const blockList = Array.from({ length: totalBlocks }, (_, index) => `<Latest>${blockId(index)}</Latest>`).join('');
+    const commitResponse = await fetch(withQuery(state.uploadUri, { comp: 'blocklist' }), {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/xml',
+        'x-ms-blob-content-type': file.type || 'application/octet-stream',
+        'x-ms-blob-content-md5': contentMd5
+      },
+      body: `<?xml version="1.0" encoding="utf-8"?><BlockList>${blockList}</BlockList>`,
+      signal
+    });
+
+    if (!commitResponse.ok) {
+      // A rejected block list usually means the uncommitted blocks are gone;
+      // start over next time instead of resuming into the same failure.
+      if (commitResponse.status === 400) {
+        clearState(resumeKey);
+      }
+      throw new Error(await describeFailure(commitResponse));
+    }
+
+    clearState(resumeKey);
+    return { blobUri: state.blobUri, contentMd5, resumed: canResume };
+  }
+};
@@ -23,9 +23,24 @@ export interface HardwareMetrics {
   storageTotalGb: number | null;
 }
 
+/** Fixed dims are numbers, symbolic dims (e.g. `"batch"`) are names, unknown dims are null. */
+export type OnnxTensorDimension = number | string | null;
+
+export interface OnnxTensorMetadata {
+  name: string;
+  /** ONNX element type in onnxruntime naming, e.g. `float32` or `int64`. */
+  elementType?: string | null;
+  /** Null when the model does not declare the rank. */
+  shape?: OnnxTensorDimension[] | null;
+  /** ONNX type denotation such as `IMAGE` or `AUDIO`, when exported. */
+  denotation?: string | null;
+}
+
 export interface OnnxModelParseResult {
-  inputs: Array<{ name: string }>;
-  outputs: Array<{ name: string }>;
+  inputs: Array<OnnxTensorMetadata>;
+  outputs: Array<OnnxTensorMetadata>;
+  /** Model metadata properties; exporters store tokenizer hints here. */
+  metadata?: Record<string, string> | null;
 }
 
 interface HardwareMetricsRaw extends Partial<Record<keyof HardwareMetrics, unknown>> {
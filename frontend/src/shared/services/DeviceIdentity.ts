@@ -0,0 +1,44 @@
+import { DesktopBridge } from './DesktopBridge';
+
+const BROWSER_IDENTIFIER_KEY = 'infinitegpu.device.identifier';
+
+let cachedIdentifier: string | null = null;
+
+const readBrowserIdentifier = () => {
+  const stored = window.localStorage.getItem(BROWSER_IDENTIFIER_KEY);
+  if (stored) {
+    return stored;
+  }
+
+  const identifier = `browser-${crypto.randomUUID()}`;
+  window.localStorage.setItem(BROWSER_IDENTIFIER_KEY, identifier);
+  return identifier;
+};
+
+/**
+ * Identifies the machine subtasks are assigned to. The desktop host owns the
+ * identifier when present; a browser-only provider keeps a generated one so
+ * its assignments survive reloads.
+ */
+export const DeviceIdentity = {
+  async resolve(): Promise<string> {
+    if (cachedIdentifier) {
+      return cachedIdentifier;
+    }
+
+    if (DesktopBridge.isAvailable()) {
+      try {
+        const identifier = (await DesktopBridge.getDeviceIdentifier())?.trim();
+        if (identifier) {
+          cachedIdentifier = identifier;
+          return identifier;
+        }
+      } catch (error) {
+        console.warn('[DeviceIdentity] desktop identifier unavailable, using browser identifier', error);
+      }
+    }
+
+    cachedIdentifier = readBrowserIdentifier();
+    return cachedIdentifier;
+  }
+};
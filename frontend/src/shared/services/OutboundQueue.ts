@@ -0,0 +1,223 @@
+import { getAuthToken, getAuthUser } from '../../features/auth/stores/authStore';
+import { useOutboundQueueStore } from '../stores/outboundQueueStore';
+import { apiRequest } from '../utils/apiClient';
+import { isApiError } from '../utils/apiError';
+import {
+  deleteQueuedRequest,
+  readQueuedRequests,
+  writeQueuedRequest,
+  type QueuedRequest
+} from './outboundQueueStorage';
+
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/** `queued` means the request is stored locally and will be replayed on reconnect. */
+export type OutboundDelivery = 'sent' | 'queued';
+
+export interface OutboundRequestOptions {
+  method?: QueuedRequest['method'];
+  body?: unknown;
+  label: string;
+  coalesceKey?: string;
+}
+
+type DeliveryOutcome = { delivered: true } | { delivered: false; error: unknown };
+
+let flushChain: Promise<void> = Promise.resolve();
+let flushTimer: number | null = null;
+// Delivery or rejection is handed back to the `send` still waiting for its request.
+const awaitingOutcome = new Set<string>();
+const outcomes = new Map<string, DeliveryOutcome>();
+
+// `fetch` rejects with a TypeError when the request never reached the
+// server. Overload and server errors may clear up, and an expired session
+// keeps the request for the same user's next sign-in; any other answer from
+// the backend would only be repeated by a replay.
+const isTransientFailure = (error: unknown) =>
+  error instanceof TypeError ||
+  (typeof navigator !== 'undefined' && navigator.onLine === false) ||
+  (isApiError(error) && (error.isTransient || error.code === 'session_expired'));
+
+// A replay can follow an attempt the backend applied but whose answer was
+// lost. Complete, fail, progress and heartbeat calls are only accepted while
+// the subtask runs on this provider, so the replay is refused with
+// `subtask_unavailable` even though the first attempt got through.
+const isAppliedReplay = (request: QueuedRequest, error: unknown) =>
+  request.attempts > 0 && isApiError(error, 'subtask_unavailable');
+
+const retryDelay = (attempts: number) => {
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+  // Jitter keeps a fleet of providers from replaying in lockstep after an outage.
+  return delay * (0.8 + Math.random() * 0.4);
+};
+
+const readOwnRequests = async () => {
+  const userId = getAuthUser()?.id ?? null;
+  return (await readQueuedRequests()).filter((request) => request.userId === userId);
+};
+
+const clearFlushTimer = () => {
+  if (flushTimer !== null) {
+    window.clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+};
+
+const scheduleFlush = (delay: number) => {
+  clearFlushTimer();
+  flushTimer = window.setTimeout(() => {
+    flushTimer = null;
+    void flush(false);
+  }, delay);
+};
+
+/**
+ * Replays queued requests oldest first. The first transient failure stops the
+ * pass: the rest would fail the same way and must not overtake it.
+ */
+const flushQueue = async (force: boolean) => {
+  clearFlushTimer();
+  if (!getAuthToken()) {
+    return;
+  }
+
+  const setSyncing = useOutboundQueueStore.getState().setSyncing;
+  setSyncing(true);
+  try {
+    for (const request of await readOwnRequests()) {
+      if (!force && request.nextAttemptAt > Date.now()) {
+        break;
+      }
+
+      const markDelivered = async () => {
+        await deleteQueuedRequest(request.id);
+        if (awaitingOutcome.has(request.id)) {
+          outcomes.set(request.id, { delivered: true });
+        }
+      };
+
+      try {
+        await apiRequest<void>(request.path, {
+          method: request.method,
+          body: request.body
+        });
+        await markDelivered();
+      } catch (error) {
+        if (isAppliedReplay(request, error)) {
+          await markDelivered();
+          continue;
+        }
+
+        const message = error instanceof Error ? error.message : 'Request failed';
+        if (isTransientFailure(error)) {
+          const attempts = request.attempts + 1;
+          await writeQueuedRequest({
+            ...request,
+            attempts,
+            nextAttemptAt: Date.now() + retryDelay(attempts),
+            lastError: message
+          });
+          break;
+        }
+
+        await deleteQueuedRequest(request.id);
+        if (awaitingOutcome.has(request.id)) {
+          outcomes.set(request.id, { delivered: false, error });
+        } else {
+          // Nobody is left to handle a replay's failure, so surface it.
+          useOutboundQueueStore.getState().recordRejection(request.label, message);
+        }
+        console.warn('[OutboundQueue] request rejected, dropping it', { label: request.label, error });
+      }
+    }
+  } finally {
+    setSyncing(false);
+  }
+
+  const remaining = await readOwnRequests();
+  useOutboundQueueStore.getState().setPendingCount(remaining.length);
+  if (remaining.length > 0) {
+    scheduleFlush(Math.max(0, remaining[0].nextAttemptAt - Date.now()));
+  }
+};
+
+// Passes run one after another so a request is never delivered twice at once.
+const flush = (force: boolean) => {
+  flushChain = flushChain.then(() => flushQueue(force)).catch((error) => {
+    console.error('[OutboundQueue] flush failed', error);
+  });
+  return flushChain;
+};
+
+export const OutboundQueue = {
+  /**
+   * Sends a mutation through the persistent queue. The request is stored
+   * before the first attempt, so it survives a dropped connection or a
+   * closed tab; resolves `queued` when it could not be delivered yet and
+   * rejects only when the backend refused it.
+   */
+  async send(
+    path: string,
+    { method = 'POST', body, label, coalesceKey }: OutboundRequestOptions
+  ): Promise<OutboundDelivery> {
+    const userId = getAuthUser()?.id ?? null;
+    const now = Date.now();
+
+    if (coalesceKey) {
+      const superseded = (await readQueuedRequests()).filter(
+        (request) => request.coalesceKey === coalesceKey && request.userId === userId
+      );
+      await Promise.all(superseded.map((request) => deleteQueuedRequest(request.id)));
+    }
+
+    const id = crypto.randomUUID();
+    await writeQueuedRequest({
+      id,
+      path,
+      method,
+      body,
+      label,
+      coalesceKey: coalesceKey ?? null,
+      userId,
+      enqueuedAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+      lastError: null
+    });
+
+    // Only what is due goes out: a fresh request waits behind backed-off
+    // ones instead of replaying them early, and reports `queued` so callers
+    // such as the heartbeat back off as well.
+    awaitingOutcome.add(id);
+    let outcome: DeliveryOutcome | undefined;
+    try {
+      await flush(false);
+    } finally {
+      awaitingOutcome.delete(id);
+      outcome = outcomes.get(id);
+      outcomes.delete(id);
+    }
+
+    if (outcome && !outcome.delivered) {
+      throw outcome.error;
+    }
+
+    return outcome?.delivered ? 'sent' : 'queued';
+  },
+
+  /**
+   * Replays what an earlier session left behind and keeps replaying on
+   * reconnect. Returns a function that stops the reconnect listener.
+   */
+  start(): () => void {
+    const handleOnline = () => void flush(true);
+    window.addEventListener('online', handleOnline);
+    void flush(true);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      clearFlushTimer();
+    };
+  }
+};
@@ -0,0 +1,320 @@
+import {
+  HubConnectionBuilder,
+  HubConnectionState,
+  LogLevel,
+  type HubConnection,
+  type IRetryPolicy
+} from '@microsoft/signalr';
+import { API_BASE_URL } from '../utils/apiClient';
+import { getAuthToken, getAuthUser } from '../../features/auth/stores/authStore';
+import { useTaskHubStore } from '../stores/taskHubStore';
+import { DeviceIdentity } from './DeviceIdentity';
+import {
+  mapHubAvailableSubtasksChangedEvent,
+  mapHubCompleteEvent,
+  mapHubFailureEvent,
+  mapHubProgressEvent,
+  mapHubSubtaskAcceptedEvent
+} from '../../features/provider/utils/subtaskMapper';
+import {
+  mapHubTaskToRequestorTaskUpdate,
+  type RequestorTaskHubUpdate
+} from '../../features/requestor/utils/taskMapper';
+import type {
+  AvailableSubtasksChangedEventPayload,
+  ProgressEventPayload,
+  SubtaskAcceptedEventPayload,
+  SubtaskCompleteEventPayload,
+  SubtaskFailureEventPayload
+} from '../../features/provider/types';
+
+export interface TaskHubEventMap {
+  OnSubtaskAccepted: SubtaskAcceptedEventPayload;
+  OnProgressUpdate: ProgressEventPayload;
+  OnComplete: SubtaskCompleteEventPayload;
+  OnFailure: SubtaskFailureEventPayload;
+  OnAvailableSubtasksChanged: AvailableSubtasksChangedEventPayload;
+  TaskUpdated: RequestorTaskHubUpdate;
+  TaskCompleted: RequestorTaskHubUpdate;
+  TaskFailed: RequestorTaskHubUpdate;
+}
+
+export type TaskHubEventName = keyof TaskHubEventMap;
+
+type TaskHubHandler<E extends TaskHubEventName> = (payload: TaskHubEventMap[E]) => void;
+
+// Normalizers validate against the API contract and report mismatches to the
+// contract diagnostics log; a message they reject is not dispatched.
+const EVENT_NORMALIZERS: {
+  [E in TaskHubEventName]: (raw: unknown, eventName: E) => TaskHubEventMap[E] | null;
+} = {
+  OnSubtaskAccepted: mapHubSubtaskAcceptedEvent,
+  OnProgressUpdate: mapHubProgressEvent,
+  OnComplete: mapHubCompleteEvent,
+  OnFailure: mapHubFailureEvent,
+  OnAvailableSubtasksChanged: mapHubAvailableSubtasksChangedEvent,
+  TaskUpdated: mapHubTaskToRequestorTaskUpdate,
+  TaskCompleted: mapHubTaskToRequestorTaskUpdate,
+  TaskFailed: mapHubTaskToRequestorTaskUpdate
+};
+
+const HUB_PATH = '/taskhub';
+const DEVICE_REGISTERED_EVENT = 'OnDeviceRegistered';
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+// Never give up: a provider machine is expected to stay online for days, so
+// we keep retrying with capped exponential backoff instead of the default
+// four attempts.
+const retryPolicy: IRetryPolicy = {
+  nextRetryDelayInMilliseconds: ({ previousRetryCount }) =>
+    Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** previousRetryCount)
+};
+
+const handlers = new Map<TaskHubEventName, Set<TaskHubHandler<TaskHubEventName>>>();
+const joinedTasks = new Set<string>();
+
+let connection: HubConnection | null = null;
+let connectionDeviceIdentifier: string | null = null;
+// Set by the hub's acknowledgement; every new server connection registers anew.
+let deviceRegistered = false;
+let startPromise: Promise<void> | null = null;
+let restartTimer: number | null = null;
+let restartAttempt = 0;
+let shouldBeConnected = false;
+
+const setStatus = useTaskHubStore.getState().setStatus;
+
+const dispatch = <E extends TaskHubEventName>(eventName: E, raw: unknown) => {
+  const listeners = handlers.get(eventName);
+  if (!listeners || listeners.size === 0) {
+    return;
+  }
+
+  const payload = EVENT_NORMALIZERS[eventName](raw, eventName);
+  if (!payload) {
+    return;
+  }
+
+  listeners.forEach((listener) => {
+    try {
+      (listener as TaskHubHandler<E>)(payload);
+    } catch (error) {
+      console.error(`[TaskHub] handler for "${eventName}" failed`, error);
+    }
+  });
+};
+
+// Group membership is per connection, so it has to be restored every time
+// the transport reconnects.
+const restoreMemberships = async (hub: HubConnection) => {
+  const user = getAuthUser();
+  if (user?.role === 'Provider') {
+    await hub.invoke('JoinAvailableTasks', user.id, user.role);
+  }
+
+  await Promise.all([...joinedTasks].map((taskId) => hub.invoke('JoinTask', taskId)));
+};
+
+const clearRestartTimer = () => {
+  if (restartTimer !== null) {
+    window.clearTimeout(restartTimer);
+    restartTimer = null;
+  }
+};
+
+const scheduleRestart = () => {
+  clearRestartTimer();
+  if (!shouldBeConnected) {
+    return;
+  }
+
+  const delay = retryPolicy.nextRetryDelayInMilliseconds({
+    previousRetryCount: restartAttempt,
+    elapsedMilliseconds: 0,
+    retryReason: new Error('Task hub connection closed')
+  }) ?? RECONNECT_MAX_DELAY_MS;
+  restartAttempt += 1;
+
+  restartTimer = window.setTimeout(() => {
+    restartTimer = null;
+    void startConnection();
+  }, delay);
+};
+
+// The hub registers a provider's device from the connection URL; without it
+// the connection can watch the pool but cannot accept subtasks.
+const buildHubUrl = (deviceIdentifier: string | null) =>
+  deviceIdentifier
+    ? `${API_BASE_URL}${HUB_PATH}?deviceIdentifier=${encodeURIComponent(deviceIdentifier)}`
+    : `${API_BASE_URL}${HUB_PATH}`;
+
+const buildConnection = (deviceIdentifier: string | null): HubConnection => {
+  const hub = new HubConnectionBuilder()
+    .withUrl(buildHubUrl(deviceIdentifier), {
+      // Evaluated on every (re)connect so a refreshed token is picked up
+      // without tearing the connection down.
+      accessTokenFactory: () => getAuthToken() ?? ''
+    })
+    .withAutomaticReconnect(retryPolicy)
+    .configureLogging(import.meta.env.DEV ? LogLevel.Information : LogLevel.Warning)
+    .build();
+
+  (Object.keys(EVENT_NORMALIZERS) as TaskHubEventName[]).forEach((eventName) => {
+    hub.on(eventName, (raw: unknown) => dispatch(eventName, raw));
+  });
+
+  // The hub only logs a failed registration, so the device counts as
+  // registered once the hub confirms it for this connection.
+  hub.on(DEVICE_REGISTERED_EVENT, (raw: unknown) => {
+    const identifier = (raw as { deviceIdentifier?: unknown } | null)?.deviceIdentifier;
+    if (connection === hub && identifier === connectionDeviceIdentifier) {
+      deviceRegistered = true;
+    }
+  });
+
+  hub.onreconnecting(() => {
+    deviceRegistered = false;
+    setStatus('reconnecting');
+  });
+  hub.onreconnected(() => {
+    setStatus('connected');
+    void restoreMemberships(hub).catch((error) => {
+      console.warn('[TaskHub] failed to restore group memberships', error);
+    });
+  });
+  hub.onclose(() => {
+    if (connection !== hub) {
+      return;
+    }
+
+    deviceRegistered = false;
+    setStatus('disconnected');
+    scheduleRestart();
+  });
+
+  return hub;
+};
+
+const startConnection = async (): Promise<void> => {
+  if (!shouldBeConnected || !getAuthToken()) {
+    return;
+  }
+
+  if (!connection) {
+    const deviceIdentifier = getAuthUser()?.role === 'Provider' ? await DeviceIdentity.resolve() : null;
+    if (!shouldBeConnected) {
+      return;
+    }
+
+    // Another caller may have built the connection while the identifier resolved.
+    if (!connection) {
+      connection = buildConnection(deviceIdentifier);
+      connectionDeviceIdentifier = deviceIdentifier;
+    }
+  }
+
+  if (connection.state !== HubConnectionState.Disconnected) {
+    return startPromise ?? undefined;
+  }
+
+  const hub = connection;
+  deviceRegistered = false;
+  setStatus('connecting');
+  startPromise = hub
+    .start()
+    .then(async () => {
+      restartAttempt = 0;
+      setStatus('connected');
+      await restoreMemberships(hub);
+    })
+    .catch((error) => {
+      console.warn('[TaskHub] connection attempt failed', error);
+      setStatus('disconnected');
+      scheduleRestart();
+    })
+    .finally(() => {
+      startPromise = null;
+    });
+
+  return startPromise;
+};
+
+export const TaskHubConnection = {
+  connect(): Promise<void> {
+    shouldBeConnected = true;
+    return startConnection();
+  },
+
+  async disconnect(): Promise<void> {
+    shouldBeConnected = false;
+    clearRestartTimer();
+    restartAttempt = 0;
+    joinedTasks.clear();
+
+    const hub = connection;
+    connection = null;
+    connectionDeviceIdentifier = null;
+    deviceRegistered = false;
+    if (hub) {
+      await hub.stop().catch(() => {});
+    }
+
+    // A new connection may have been requested while this one was stopping.
+    if (!shouldBeConnected) {
+      setStatus('disconnected');
+    }
+  },
+
+  async reconnect(): Promise<void> {
+    const tasks = [...joinedTasks];
+    await TaskHubConnection.disconnect();
+    tasks.forEach((taskId) => joinedTasks.add(taskId));
+    await TaskHubConnection.connect();
+  },
+
+  on<E extends TaskHubEventName>(eventName: E, handler: TaskHubHandler<E>): () => void {
+    const listeners = handlers.get(eventName) ?? new Set();
+    listeners.add(handler as TaskHubHandler<TaskHubEventName>);
+    handlers.set(eventName, listeners);
+
+    return () => {
+      listeners.delete(handler as TaskHubHandler<TaskHubEventName>);
+    };
+  },
+
+  /**
+   * Subscribes this connection to the per-task group so requestor views
+   * receive subtask progress. Returns a function that leaves the group.
+   */
+  joinTask(taskId: string): () => void {
+    joinedTasks.add(taskId);
+    if (connection?.state === HubConnectionState.Connected) {
+      void connection.invoke('JoinTask', taskId).catch(() => {});
+    }
+
+    return () => {
+      joinedTasks.delete(taskId);
+      if (connection?.state === HubConnectionState.Connected) {
+        void connection.invoke('LeaveTask', taskId).catch(() => {});
+      }
+    };
+  },
+
+  async invoke<T = unknown>(methodName: string, ...args: unknown[]): Promise<T> {
+    if (!connection || connection.state !== HubConnectionState.Connected) {
+      throw new Error(`Task hub is not connected. Unable to invoke "${methodName}".`);
+    }
+
+    return connection.invoke<T>(methodName, ...args);
+  },
+
+  isConnected(): boolean {
+    return connection?.state === HubConnectionState.Connected;
+  },
+
+  /** Whether the hub confirmed this connection's device, which `AcceptSubtask` requires. */
+  hasRegisteredDevice(): boolean {
+    return TaskHubConnection.isConnected() && deviceRegistered;
+  }
+};
@@ -0,0 +1,93 @@
+const DATABASE_NAME = 'infinitegpu-outbound';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'requests';
+
+export interface QueuedRequest {
+  id: string;
+  path: string;
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  /** Human readable, shown when the backend rejects the request. */
+  label: string;
+  /** A newer request with the same key replaces a queued one, e.g. heartbeats of one subtask. */
+  coalesceKey: string | null;
+  /** Replayed only while this user is signed in. */
+  userId: string | null;
+  enqueuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+}
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+// Private windows and some embedded browsers refuse IndexedDB; the queue then
+// lives in memory and only survives until the page is closed.
+const memoryStore = new Map<string, QueuedRequest>();
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('[OutboundQueue] IndexedDB unavailable, queue is kept in memory', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  return databasePromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  if (!database) {
+    throw new Error('IndexedDB unavailable');
+  }
+
+  return promisify(run(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+};
+
+/** Oldest first, the order in which requests are replayed. */
+export const readQueuedRequests = async (): Promise<QueuedRequest[]> => {
+  const requests = (await openDatabase())
+    ? await withStore<QueuedRequest[]>('readonly', (store) => store.getAll())
+    : [...memoryStore.values()];
+  return requests.sort((left, right) => left.enqueuedAt - right.enqueuedAt);
+};
+
+export const writeQueuedRequest = async (request: QueuedRequest) => {
+  if (!(await openDatabase())) {
+    memoryStore.set(request.id, request);
+    return;
+  }
+
+  await withStore('readwrite', (store) => store.put(request));
+};
+
+export const deleteQueuedRequest = async (id: string) => {
+  if (!(await openDatabase())) {
+    memoryStore.delete(id);
+    return;
+  }
+
+  await withStore('readwrite', (store) => store.delete(id));
+};
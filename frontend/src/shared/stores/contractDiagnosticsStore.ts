@@ -0,0 +1,62 @@
+import { create } from 'zustand';
+import type { ContractIssue } from '../api/contractValidation';
+
+export type ContractDiagnosticSource = 'rest' | 'hub';
+
+export interface ContractDiagnostic {
+  source: ContractDiagnosticSource;
+  /** REST operation ID or hub event name. */
+  operation: string;
+  /** Issues of the most recent occurrence. */
+  issues: ContractIssue[];
+  occurrences: number;
+  firstSeenAtUtc: string;
+  lastSeenAtUtc: string;
+}
+
+interface ContractDiagnosticsState {
+  /** Most recent first; one entry per source and operation. */
+  entries: ContractDiagnostic[];
+  record: (source: ContractDiagnosticSource, operation: string, issues: ContractIssue[]) => void;
+  clear: () => void;
+}
+
+const MAX_ENTRIES = 50;
+
+export const useContractDiagnosticsStore = create<ContractDiagnosticsState>()((set) => ({
+  entries: [],
+  record: (source, operation, issues) =>
+    set((state) => {
+      const now = new Date().toISOString();
+      const existing = state.entries.find((entry) => entry.source === source && entry.operation === operation);
+      const entry: ContractDiagnostic = existing
+        ? { ...existing, issues, occurrences: existing.occurrences + 1, lastSeenAtUtc: now }
+        : { source, operation, issues, occurrences: 1, firstSeenAtUtc: now, lastSeenAtUtc: now };
+
+      return {
+        entries: [entry, ...state.entries.filter((candidate) => candidate !== existing)].slice(0, MAX_ENTRIES)
+      };
+    }),
+  clear: () => set({ entries: [] })
+}));
+
+/**
+ * Records a payload that does not match the API contract. Polling and hub
+ * traffic repeat the same mismatch, so only the first occurrence of each
+ * operation is written to the console.
+ */
+export const reportContractViolation = (
+  source: ContractDiagnosticSource,
+  operation: string,
+  issues: ContractIssue[]
+) => {
+  const state = useContractDiagnosticsStore.getState();
+  const isFirstOccurrence = !state.entries.some(
+    (entry) => entry.source === source && entry.operation === operation
+  );
+  state.record(source, operation, issues);
+
+  if (isFirstOccurrence) {
+    console.warn(`[ApiContract] ${source} ${operation} does not match the API contract`, issues);
+  }
+};
@@ -0,0 +1,30 @@
+import { create } from 'zustand';
+
+export interface OutboundRejection {
+  label: string;
+  message: string;
+  rejectedAtUtc: string;
+}
+
+interface OutboundQueueState {
+  /** Requests persisted locally that the backend has not acknowledged yet. */
+  pendingCount: number;
+  isSyncing: boolean;
+  /** Last replayed request the backend refused; it is dropped, not retried. */
+  lastRejection: OutboundRejection | null;
+  setPendingCount: (pendingCount: number) => void;
+  setSyncing: (isSyncing: boolean) => void;
+  recordRejection: (label: string, message: string) => void;
+  dismissRejection: () => void;
+}
+
+export const useOutboundQueueStore = create<OutboundQueueState>()((set) => ({
+  pendingCount: 0,
+  isSyncing: false,
+  lastRejection: null,
+  setPendingCount: (pendingCount) => set({ pendingCount }),
+  setSyncing: (isSyncing) => set({ isSyncing }),
+  recordRejection: (label, message) =>
+    set({ lastRejection: { label, message, rejectedAtUtc: new Date().toISOString() } }),
+  dismissRejection: () => set({ lastRejection: null })
+}));
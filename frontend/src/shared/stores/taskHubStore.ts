@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+
+export type TaskHubStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+interface TaskHubState {
+  status: TaskHubStatus;
+  lastConnectedAt: string | null;
+  setStatus: (status: TaskHubStatus) => void;
+}
+
+export const useTaskHubStore = create<TaskHubState>()((set) => ({
+  status: 'disconnected',
+  lastConnectedAt: null,
+  setStatus: (status) =>
+    set((state) => ({
+      status,
+      lastConnectedAt: status === 'connected' ? new Date().toISOString() : state.lastConnectedAt
+    }))
+}));
+
+export const isTaskHubConnected = () => useTaskHubStore.getState().status === 'connected';
+
+/**
+ * Polling interval for queries that the hub keeps fresh: polling is disabled
+ * while connected and falls back to the given interval otherwise.
+ */
+export const useHubAwareRefetchInterval = (fallbackMs: number) =>
+  useTaskHubStore((state) => (state.status === 'connected' ? false : fallbackMs));
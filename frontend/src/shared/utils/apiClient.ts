@@ -1,15 +1,36 @@
 import { getAuthToken } from '../../features/auth/stores/authStore';
+import { ApiError, parseApiError } from './apiError';
 
 type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 
-interface ApiRequestOptions<TBody> {
+export interface ApiRequestOptions<TBody> {
   method?: HttpMethod;
   body?: TBody;
   headers?: Record<string, string>;
   signal?: AbortSignal;
   authenticated?: boolean;
+  /** Disables the refresh-and-replay on 401, e.g. for the refresh call itself. */
+  skipSessionRefresh?: boolean;
 }
 
+/** Returns a fresh token, or null once the session can no longer be renewed. */
+type SessionRefreshHandler = () => Promise<string | null>;
+
+let sessionRefreshHandler: SessionRefreshHandler | null = null;
+
+/**
+ * Installs the handler `apiRequest` calls when an authenticated request is
+ * rejected with 401. Returns a function that removes it again.
+ */
+export const setSessionRefreshHandler = (handler: SessionRefreshHandler) => {
+  sessionRefreshHandler = handler;
+  return () => {
+    if (sessionRefreshHandler === handler) {
+      sessionRefreshHandler = null;
+    }
+  };
+};
+
 const resolveBaseUrl = () => {
   const configured = import.meta.env.VITE_BACKEND_URL;
   if (configured && configured.length > 0) {
@@ -32,7 +53,8 @@ export async function apiRequest<TResponse, TBody = unknown>(
     body,
     headers = {},
     signal,
-    authenticated = true
+    authenticated = true,
+    skipSessionRefresh = false
   } = options;
 
   const finalHeaders: Record<string, string> = {
@@ -44,11 +66,9 @@ export async function apiRequest<TResponse, TBody = unknown>(
     delete finalHeaders['Authorization'];
   }
 
-  if (authenticated) {
-    const token = getAuthToken();
-    if (token) {
-      finalHeaders['Authorization'] = `Bearer ${token}`;
-    }
+  const token = authenticated ? getAuthToken() : null;
+  if (token) {
+    finalHeaders['Authorization'] = `Bearer ${token}`;
   }
 
   const response = await fetch(`${API_BASE_URL}${path}`, {
@@ -58,32 +78,17 @@ export async function apiRequest<TResponse, TBody = unknown>(
     signal
   });
 
-  if (!response.ok) {
-    let errorMessage = 'An unexpected error occurred';
-    
-    try {
-      const contentType = response.headers.get('content-type');
-      if (contentType && contentType.includes('application/json')) {
-        const errorData = await response.json();
-        // Backend returns errors in { Error: "message" } format
-        if (errorData && typeof errorData.error === 'string') {
-          // Also check lowercase 'error' for consistency
-          errorMessage = errorData.error;
-        } else if (typeof errorData === 'string') {
-          errorMessage = errorData;
-        }
-      } else {
-        const errorText = await response.text();
-        if (errorText) {
-          errorMessage = errorText;
-        }
-      }
-    } catch {
-      // If parsing fails, use a generic message
-      errorMessage = `Request failed with status ${response.status}`;
+  if (response.status === 401 && token && !skipSessionRefresh && sessionRefreshHandler) {
+    // Replayed once with the refreshed token; a second 401 is a real denial.
+    const refreshedToken = await sessionRefreshHandler();
+    if (!refreshedToken) {
+      throw new ApiError(null, { status: 401, code: 'session_expired' });
     }
-    
-    throw new Error(errorMessage);
+    return apiRequest<TResponse, TBody>(path, { ...options, skipSessionRefresh: true });
+  }
+
+  if (!response.ok) {
+    throw await parseApiError(response);
   }
 
   if (response.status === 204) {
@@ -0,0 +1,220 @@
+export type ApiErrorCode =
+  | 'bad_request'
+  | 'validation_failed'
+  | 'unauthorized'
+  | 'session_expired'
+  | 'invalid_credentials'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'email_taken'
+  | 'username_taken'
+  | 'subtask_unavailable'
+  | 'insufficient_balance'
+  | 'rate_limited'
+  | 'timeout'
+  | 'server_error'
+  | 'unknown';
+
+/** Validation messages keyed by camelCased request field. */
+export type ApiFieldErrors = Record<string, string[]>;
+
+interface ApiErrorDetails {
+  status: number;
+  code: ApiErrorCode;
+  fieldErrors?: ApiFieldErrors;
+  correlationId?: string | null;
+}
+
+const API_ERROR_CODES = new Set<string>([
+  'bad_request',
+  'validation_failed',
+  'unauthorized',
+  'session_expired',
+  'invalid_credentials',
+  'forbidden',
+  'not_found',
+  'conflict',
+  'email_taken',
+  'username_taken',
+  'subtask_unavailable',
+  'insufficient_balance',
+  'rate_limited',
+  'timeout',
+  'server_error',
+  'unknown'
+]);
+
+const DEFAULT_MESSAGES: Record<ApiErrorCode, string> = {
+  bad_request: 'The request could not be processed.',
+  validation_failed: 'Some fields are invalid.',
+  unauthorized: 'You need to sign in to continue.',
+  session_expired: 'Your session has expired. Please sign in again.',
+  invalid_credentials: 'The email or password is incorrect.',
+  forbidden: 'You do not have permission to do this.',
+  not_found: 'The requested resource no longer exists.',
+  conflict: 'Someone else changed this in the meantime. Refresh and try again.',
+  email_taken: 'An account with this email already exists.',
+  username_taken: 'This username is already taken.',
+  subtask_unavailable: 'Another provider already took this subtask.',
+  insufficient_balance: 'Your balance does not cover this operation.',
+  rate_limited: 'Too many requests. Please wait a moment and try again.',
+  timeout: 'The server took too long to respond. Please try again.',
+  server_error: 'The server ran into a problem. Please try again shortly.',
+  unknown: 'An unexpected error occurred'
+};
+
+/**
+ * A request the backend answered with a non-success status. Network failures
+ * are not wrapped: `fetch` keeps rejecting with a TypeError for those.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly fieldErrors: ApiFieldErrors;
+  /** Quote this to support so the request can be found in the server logs. */
+  readonly correlationId: string | null;
+
+  constructor(message: string | null, details: ApiErrorDetails) {
+    super(message || DEFAULT_MESSAGES[details.code]);
+    this.name = 'ApiError';
+    this.status = details.status;
+    this.code = details.code;
+    this.fieldErrors = details.fieldErrors ?? {};
+    this.correlationId = details.correlationId ?? null;
+  }
+
+  /** The same request may succeed later; anything else needs a different request. */
+  get isTransient() {
+    return this.status >= 500 || this.status === 408 || this.status === 429;
+  }
+
+  fieldError(field: string): string | null {
+    return this.fieldErrors[field]?.[0] ?? null;
+  }
+}
+
+export const isApiError = (error: unknown, ...codes: ApiErrorCode[]): error is ApiError =>
+  error instanceof ApiError && (codes.length === 0 || codes.includes(error.code));
+
+/**
+ * Message for an error shown as-is to the user; server errors carry their
+ * correlation ID so a support request can be traced.
+ */
+export const describeError = (error: unknown, fallback: string) => {
+  if (error instanceof ApiError) {
+    return error.code === 'server_error' && error.correlationId
+      ? `${error.message} (reference ${error.correlationId})`
+      : error.message;
+  }
+
+  return error instanceof Error ? error.message : fallback;
+};
+
+const codeFromStatus = (status: number, hasFieldErrors: boolean): ApiErrorCode => {
+  if (status === 400 || status === 422) {
+    return hasFieldErrors ? 'validation_failed' : 'bad_request';
+  }
+
+  switch (status) {
+    case 401:
+      return 'unauthorized';
+    case 402:
+      return 'insufficient_balance';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not_found';
+    case 408:
+      return 'timeout';
+    case 409:
+      return 'conflict';
+    case 429:
+      return 'rate_limited';
+  }
+
+  return status >= 500 ? 'server_error' : 'unknown';
+};
+
+// ASP.NET validation problems key errors by the C# property path, e.g.
+// `Payload.Email`; forms look them up by their own camelCased field name.
+const normalizeFieldErrors = (value: unknown): ApiFieldErrors => {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+
+  const fieldErrors: ApiFieldErrors = {};
+  Object.entries(value as Record<string, unknown>).forEach(([path, messages]) => {
+    const list = (Array.isArray(messages) ? messages : [messages]).filter(
+      (message): message is string => typeof message === 'string' && message.length > 0
+    );
+    const name = path.split('.').pop() ?? path;
+    const field = name.charAt(0).toLowerCase() + name.slice(1);
+    if (list.length > 0) {
+      fieldErrors[field] = [...(fieldErrors[field] ?? []), ...list];
+    }
+  });
+
+  return fieldErrors;
+};
+
+const readString = (body: Record<string, unknown>, ...keys: string[]) => {
+  for (const key of keys) {
+    const value = body[key];
+    if (typeof value === 'string' && value.length > 0) {
+      return value;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Builds the error for a failed response. Understands the backend's
+ * `{ error, code }` bodies, validation problem details and plain text.
+ */
+export const parseApiError = async (response: Response): Promise<ApiError> => {
+  let message: string | null = null;
+  let bodyCode: string | null = null;
+  let fieldErrors: ApiFieldErrors = {};
+  let correlationId = response.headers.get('x-correlation-id') ?? response.headers.get('request-id');
+
+  try {
+    const contentType = response.headers.get('content-type') ?? '';
+    // Problem details are served as `application/problem+json`.
+    if (contentType.includes('json')) {
+      const body: unknown = await response.json();
+      if (typeof body === 'string') {
+        message = body;
+      } else if (body && typeof body === 'object') {
+        const record = body as Record<string, unknown>;
+        message = readString(record, 'error', 'message', 'detail', 'title');
+        bodyCode = readString(record, 'code');
+        fieldErrors = normalizeFieldErrors(record.errors);
+        correlationId ??= readString(record, 'correlationId', 'traceId');
+      }
+    } else {
+      message = (await response.text()) || null;
+    }
+  } catch {
+    // An unreadable body still leaves the status to go on.
+  }
+
+  const hasFieldErrors = Object.keys(fieldErrors).length > 0;
+  const code =
+    bodyCode && API_ERROR_CODES.has(bodyCode)
+      ? (bodyCode as ApiErrorCode)
+      : codeFromStatus(response.status, hasFieldErrors);
+
+  // A field-level problem's generic title says less than its first message.
+  if (hasFieldErrors && (!message || message === 'One or more validation errors occurred.')) {
+    message = Object.values(fieldErrors)[0][0];
+  }
+
+  return new ApiError(message, {
+    status: response.status,
+    code,
+    fieldErrors,
+    correlationId
+  });
+};
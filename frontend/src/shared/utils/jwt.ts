@@ -30,4 +30,14 @@ export const parseJwt = (token: string): DecodedJwtPayload | null => {
   } catch {
     return null;
   }
-};
\ No newline at end of file
+};
+const readTimeClaim = (token: string, claim: 'exp' | 'iat'): number | null => {
+  const value = parseJwt(token)?.[claim];
+  return typeof value === 'number' && Number.isFinite(value) ? value * 1000 : null;
+};
+
+/** Expiry of a token in epoch milliseconds, or null when it has no `exp` claim. */
+export const getJwtExpiry = (token: string): number | null => readTimeClaim(token, 'exp');
+
+/** Issue time of a token in epoch milliseconds, or null when it has no `iat` claim. */
+export const getJwtIssuedAt = (token: string): number | null => readTimeClaim(token, 'iat');
@@ -0,0 +1,125 @@
+/**
+ * Incremental MD5 (RFC 1321). Web Crypto does not offer MD5, but Azure Blob
+ * Storage only validates content with MD5, so uploads hash with this.
+ */
+
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+
+const CONSTANTS = Array.from({ length: 64 }, (_, index) =>
+  Math.floor(Math.abs(Math.sin(index + 1)) * 0x100000000) >>> 0
+);
+
+export class Md5 {
+  private state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+  private buffer = new Uint8Array(64);
+  private bufferLength = 0;
+  private totalLength = 0;
+  private readonly words = new Uint32Array(16);
+
+  update(data: Uint8Array): this {
+    let offset = 0;
+    this.totalLength += data.length;
+
+    if (this.bufferLength > 0) {
+      const take = Math.min(64 - this.bufferLength, data.length);
+      this.buffer.set(data.subarray(0, take), this.bufferLength);
+      this.bufferLength += take;
+      offset = take;
+
+      if (this.bufferLength < 64) {
+        return this;
+      }
+
+      this.processBlock(this.buffer, 0);
+      this.bufferLength = 0;
+    }
+
+    for (; offset + 64 <= data.length; offset += 64) {
+      this.processBlock(data, offset);
+    }
+
+    if (offset < data.length) {
+      this.buffer.set(data.subarray(offset), 0);
+      this.bufferLength = data.length - offset;
+    }
+
+    return this;
+  }
+
+  digest(): Uint8Array {
+    const bitLength = this.totalLength * 8;
+    const paddingLength = this.bufferLength < 56 ? 56 - this.bufferLength : 120 - this.bufferLength;
+    const padding = new Uint8Array(paddingLength + 8);
+    padding[0] = 0x80;
+
+    const view = new DataView(padding.buffer);
+    view.setUint32(paddingLength, bitLength >>> 0, true);
+    view.setUint32(paddingLength + 4, Math.floor(bitLength / 0x100000000), true);
+
+    // update() would count the padding towards the message length.
+    const savedLength = this.totalLength;
+    this.update(padding);
+    this.totalLength = savedLength;
+
+    const result = new Uint8Array(16);
+    const resultView = new DataView(result.buffer);
+    this.state.forEach((value, index) => resultView.setUint32(index * 4, value, true));
+    return result;
+  }
+
+  private processBlock(data: Uint8Array, offset: number) {
+    const words = this.words;
+    for (let index = 0; index < 16; index += 1) {
+      const base = offset + index * 4;
+      words[index] =
+        data[base] | (data[base + 1] << 8) | (data[base + 2] << 16) | (data[base + 3] << 24);
+    }
+
+    let [a, b, c, d] = this.state;
+
+    for (let index = 0; index < 64; index += 1) {
+      let f: number;
+      let g: number;
+
+      if (index < 16) {
+        f = (b & c) | (~b & d);
+        g = index;
+      } else if (index < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * index + 1) % 16;
+      } else if (index < 48) {
+        f = b ^ c ^ d;
+        g = (3 * index + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * index) % 16;
+      }
+
+      const rotated = (a + f + CONSTANTS[index] + words[g]) >>> 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((rotated << SHIFTS[index]) | (rotated >>> (32 - SHIFTS[index])))) >>> 0;
+    }
+
+    this.state[0] += a;
+    this.state[1] += b;
+    this.state[2] += c;
+    this.state[3] += d;
+  }
+}
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const md5Base64 = (data: Uint8Array) => bytesToBase64(new Md5().update(data).digest());
@@ -0,0 +1,166 @@
+import { readZipEntries } from './zip';
+
+export type NpyDataType = 'float32' | 'float64' | 'int8' | 'uint8' | 'int16' | 'uint16' | 'int32' | 'uint32' | 'int64' | 'bool';
+
+export type NpyTypedArray =
+  | Float32Array
+  | Float64Array
+  | Int8Array
+  | Uint8Array
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | BigInt64Array;
+
+export interface NpyArray {
+  dataType: NpyDataType;
+  shape: number[];
+  data: NpyTypedArray;
+}
+
+const NPY_MAGIC = [0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59];
+
+const DESCR_MAP: Record<string, NpyDataType> = {
+  f4: 'float32',
+  f8: 'float64',
+  i1: 'int8',
+  u1: 'uint8',
+  i2: 'int16',
+  u2: 'uint16',
+  i4: 'int32',
+  u4: 'uint32',
+  i8: 'int64',
+  b1: 'bool'
+};
+
+const createTypedArray = (dataType: NpyDataType, buffer: ArrayBuffer): NpyTypedArray => {
+  switch (dataType) {
+    case 'float32':
+      return new Float32Array(buffer);
+    case 'float64':
+      return new Float64Array(buffer);
+    case 'int8':
+      return new Int8Array(buffer);
+    case 'int16':
+      return new Int16Array(buffer);
+    case 'uint16':
+      return new Uint16Array(buffer);
+    case 'int32':
+      return new Int32Array(buffer);
+    case 'uint32':
+      return new Uint32Array(buffer);
+    case 'int64':
+      return new BigInt64Array(buffer);
+    case 'uint8':
+    case 'bool':
+      return new Uint8Array(buffer);
+  }
+};
+
+export interface NpyHeader {
+  dataType: NpyDataType;
+  shape: number[];
+  dataOffset: number;
+}
+
+/**
+ * Reads the header of a little-endian, C-ordered `.npy` file (format versions
+ * 1–3). The first few kilobytes of a file are enough, which lets callers check
+ * dtype and shape without loading the data.
+ */
+export const parseNpyHeader = (buffer: ArrayBuffer): NpyHeader => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length < 10 || NPY_MAGIC.some((value, index) => bytes[index] !== value)) {
+    throw new Error('File is not a valid .npy array.');
+  }
+
+  const view = new DataView(buffer);
+  const majorVersion = bytes[6];
+  const headerLength = majorVersion === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const headerOffset = majorVersion === 1 ? 10 : 12;
+  const header = new TextDecoder('latin1').decode(bytes.subarray(headerOffset, headerOffset + headerLength));
+
+  const descr = /'descr'\s*:\s*'([<>|=])([a-z]\d+)'/.exec(header);
+  const fortranOrder = /'fortran_order'\s*:\s*(True|False)/.exec(header);
+  const shape = /'shape'\s*:\s*\(([^)]*)\)/.exec(header);
+
+  if (!descr || !fortranOrder || !shape) {
+    throw new Error('The .npy header could not be parsed.');
+  }
+
+  if (descr[1] === '>') {
+    throw new Error('Big-endian .npy arrays are not supported.');
+  }
+
+  if (fortranOrder[1] === 'True') {
+    throw new Error('Fortran-ordered .npy arrays are not supported.');
+  }
+
+  const dataType = DESCR_MAP[descr[2]];
+  if (!dataType) {
+    throw new Error(`Unsupported .npy data type "${descr[2]}".`);
+  }
+
+  const dims = shape[1]
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0)
+    .map((value) => Number.parseInt(value, 10));
+
+  return { dataType, shape: dims, dataOffset: headerOffset + headerLength };
+};
+
+/** Decodes a `.npy` file; see `parseNpyHeader` for the supported subset. */
+export const parseNpy = (buffer: ArrayBuffer): NpyArray => {
+  const { dataType, shape, dataOffset } = parseNpyHeader(buffer);
+  // Copy so the typed array starts on an aligned offset regardless of header padding.
+  const data = createTypedArray(dataType, buffer.slice(dataOffset));
+
+  return { dataType, shape, data };
+};
+
+/**
+ * Decodes every array of a `.npz` bundle, keyed by name without the `.npy`
+ * suffix, in archive order.
+ */
+export const parseNpz = async (buffer: ArrayBuffer): Promise<Array<{ name: string; array: NpyArray }>> => {
+  const entries = await readZipEntries(buffer);
+  return entries
+    .filter((entry) => entry.name.endsWith('.npy'))
+    .map((entry) => ({
+      name: entry.name.slice(0, -'.npy'.length),
+      array: parseNpy(entry.data.slice().buffer)
+    }));
+};
+
+const DESCR_BY_DATA_TYPE = Object.fromEntries(
+  Object.entries(DESCR_MAP).map(([descr, dataType]) => [dataType, descr])
+) as Record<NpyDataType, string>;
+
+const NPY_PREAMBLE_LENGTH = 10;
+
+/**
+ * Encodes a C-ordered array as a version 1.0 `.npy` file, padding the header
+ * like numpy does so the data starts on a 64-byte boundary.
+ */
+export const encodeNpy = ({ dataType, shape, data }: NpyArray): Blob => {
+  const descr = DESCR_BY_DATA_TYPE[dataType];
+  const byteOrder = descr.endsWith('1') ? '|' : '<';
+  const shapeText = shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(', ')})`;
+  const dictionary = `{'descr': '${byteOrder}${descr}', 'fortran_order': False, 'shape': ${shapeText}, }`;
+
+  const totalLength = Math.ceil((NPY_PREAMBLE_LENGTH + dictionary.length + 1) / 64) * 64;
+  const header = `${dictionary.padEnd(totalLength - NPY_PREAMBLE_LENGTH - 1, ' ')}\n`;
+
+  const preamble = new Uint8Array(NPY_PREAMBLE_LENGTH);
+  preamble.set(NPY_MAGIC);
+  preamble[6] = 1;
+  preamble[7] = 0;
+  new DataView(preamble.buffer).setUint16(8, header.length, true);
+
+  const body = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return new Blob([preamble, new TextEncoder().encode(header), body], {
+    type: 'application/octet-stream'
+  });
+};
@@ -0,0 +1,24 @@
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Opens `html` in a new window and starts the browser's print flow, where
+ * "Save as PDF" produces the PDF. Returns false when pop-ups are blocked.
+ */
+export const printHtmlDocument = (html: string) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    return false;
+  }
+
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};
@@ -0,0 +1,89 @@
+import { utcToLocalTime } from './dateTime';
+
+export type BucketGranularity = 'day' | 'week';
+
+export interface TimeBucket {
+  key: string;
+  label: string;
+  startMs: number;
+  endMs: number;
+}
+
+/** How far back each granularity looks: 30 days or 12 weeks. */
+export const BUCKET_COUNTS: Record<BucketGranularity, number> = {
+  day: 30,
+  week: 12
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Weeks start on Monday, in local time like every date shown in the app.
+const startOfWeek = (date: Date) => {
+  const day = startOfDay(date);
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return day;
+};
+
+/** Consecutive local-time buckets ending with the one that contains `now`. */
+export const buildTimeBuckets = (granularity: BucketGranularity, now: Date): TimeBucket[] => {
+  const count = BUCKET_COUNTS[granularity];
+  const stepDays = granularity === 'day' ? 1 : 7;
+  const last = granularity === 'day' ? startOfDay(now) : startOfWeek(now);
+
+  return Array.from({ length: count }, (_, index) => {
+    const start = new Date(last);
+    start.setDate(last.getDate() - (count - 1 - index) * stepDays);
+    const end = new Date(start);
+    end.setDate(start.getDate() + stepDays);
+
+    return {
+      key: start.toISOString(),
+      label: start.toLocaleDateString(undefined, { day: '2-digit', month: 'short' }),
+      startMs: start.getTime(),
+      endMs: end.getTime()
+    };
+  });
+};
+
+const findBucketIndex = (buckets: TimeBucket[], utcDate: string | null | undefined) => {
+  if (!utcDate) {
+    return -1;
+  }
+
+  const time = utcToLocalTime(utcDate).getTime();
+  return buckets.findIndex((bucket) => time >= bucket.startMs && time < bucket.endMs);
+};
+
+/** Sums `getValue` per bucket; items dated outside every bucket are ignored. */
+export const sumByBucket = <T>(
+  buckets: TimeBucket[],
+  items: T[],
+  getDate: (item: T) => string | null | undefined,
+  getValue: (item: T) => number
+) => {
+  const totals = buckets.map(() => 0);
+  items.forEach((item) => {
+    const index = findBucketIndex(buckets, getDate(item));
+    if (index >= 0) {
+      totals[index] += getValue(item);
+    }
+  });
+  return totals;
+};
+
+/** Ratio of two per-bucket sums, `null` where the denominator is 0. */
+export const ratioByBucket = <T>(
+  buckets: TimeBucket[],
+  items: T[],
+  getDate: (item: T) => string | null | undefined,
+  getNumerator: (item: T) => number,
+  getDenominator: (item: T) => number
+) => {
+  const numerators = sumByBucket(buckets, items, getDate, getNumerator);
+  const denominators = sumByBucket(buckets, items, getDate, getDenominator);
+  return numerators.map((value, index) => (denominators[index] > 0 ? value / denominators[index] : null));
+};
+
+/** ISO date (`YYYY-MM-DD`) from which data covers the buckets of either granularity. */
+export const resolveBucketRangeStart = (now: Date) =>
+  new Date(buildTimeBuckets('week', now)[0].startMs).toISOString().slice(0, 10);
@@ -0,0 +1,185 @@
+/**
+ * Minimal ZIP support for `.npz` bundles and result exports. The reader
+ * handles stored and deflated entries (what numpy's `savez` and
+ * `savez_compressed` write); the writer only stores, since tensor outputs
+ * barely compress. ZIP64 and encrypted archives are rejected.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const END_RECORD_LENGTH = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const UTF8_FLAG = 0x0800;
+const MAX_ZIP32_SIZE = 0xffffffff;
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let index = 0; index < data.length; index += 1) {
+    crc = CRC32_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const isZip = (buffer: ArrayBuffer) =>
+  buffer.byteLength >= 4 && new DataView(buffer).getUint32(0, true) === LOCAL_FILE_HEADER;
+
+const findEndOfCentralDirectory = (view: DataView) => {
+  const lowest = Math.max(0, view.byteLength - END_RECORD_LENGTH - MAX_COMMENT_LENGTH);
+  for (let offset = view.byteLength - END_RECORD_LENGTH; offset >= lowest; offset -= 1) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+
+  throw new Error('Invalid ZIP archive: end of central directory not found.');
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const readZipEntries = async (buffer: ArrayBuffer): Promise<ZipEntry[]> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  const endOffset = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported.');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < entryCount; index += 1) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid ZIP archive: corrupt central directory.');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error(`Encrypted ZIP entry "${name}" is not supported.`);
+    }
+
+    // Sizes in the local header may be zero when a data descriptor is used,
+    // so only its variable-length fields are read from there.
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      entries.push({ name, data: compressed });
+    } else if (method === METHOD_DEFLATE) {
+      entries.push({ name, data: await inflateRaw(compressed) });
+    } else {
+      throw new Error(`ZIP entry "${name}" uses unsupported compression method ${method}.`);
+    }
+  }
+
+  return entries;
+};
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+/** Builds an uncompressed ZIP archive; entry names may contain `/` folders. */
+export const createZip = (entries: ZipEntry[], modifiedAt = new Date()): Blob => {
+  if (entries.length > 0xffff) {
+    throw new Error('The export has more than 65535 files, which requires ZIP64 and is not supported.');
+  }
+
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modifiedAt);
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    if (offset + size > MAX_ZIP32_SIZE) {
+      throw new Error('The export exceeds 4 GB, which requires ZIP64 and is not supported.');
+    }
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_FILE_HEADER, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, METHOD_STORED, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, size, true);
+    localView.setUint32(22, size, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, UTF8_FLAG, true);
+    centralView.setUint16(10, METHOD_STORED, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, size, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, entry.data);
+    centralDirectory.push(central);
+    offset += local.length + size;
+  }
+
+  const centralSize = centralDirectory.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(END_RECORD_LENGTH);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' });
+};
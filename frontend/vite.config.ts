@@ -12,4 +12,9 @@ export default defineConfig({
       },
     }),
   ],
+  // onnxruntime-web resolves its .wasm binaries relative to its own module;
+  // pre-bundling would move the module away from them in dev.
+  optimizeDeps: {
+    exclude: ['onnxruntime-web'],
+  },
 })